@@ -0,0 +1,84 @@
+import Link from 'next/link';
+import { Download } from 'lucide-react';
+import { getTranslations } from 'next-intl/server';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AuditFilters } from '@/components/audit/audit-filters';
+import { AuditTable } from '@/components/audit/audit-table';
+import { Pagination } from '@/components/pagination';
+import { auditedModels } from '@/lib/audit/extension';
+import { AUDIT_PAGE_SIZE, getAuditActions, listAuditLogs, parseAuditListParams } from '@/lib/audit/query';
+import { requirePermission } from '@/lib/auth';
+import { hasPermission, seesAllBranches } from '@/lib/permissions';
+import { prisma } from '@/lib/prisma';
+import { buildHref, type SearchParams } from '@/lib/utils';
+
+export default async function AuditLogPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const user = await requirePermission('audit:read');
+
+  const query = await searchParams;
+  const params = parseAuditListParams(query);
+
+  const [t, tc, result, actions, users] = await Promise.all([
+    getTranslations('audit'),
+    getTranslations('common'),
+    listAuditLogs(params, user),
+    getAuditActions(user),
+    // The branch's staff, and the super admins who may have changed its records.
+    prisma.user.findMany({
+      where: seesAllBranches(user.role) ? {} : { OR: [{ branchId: user.branchId }, { role: 'SUPER_ADMIN' }] },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+          <p className="text-muted-foreground">{t('description')}</p>
+        </div>
+        {hasPermission(user.role, 'export') && (
+          <Button asChild variant="outline">
+            <a href={buildHref('/api/audit/export', query, { page: undefined })}>
+              <Download className="mr-2 h-4 w-4" />
+              {t('exportCsv')}
+            </a>
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('entries')}</CardTitle>
+          <CardDescription>{t('entriesDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <AuditFilters params={params} users={users} entityTypes={auditedModels} actions={actions} />
+
+          {result.total === 0 ? (
+            <div className="py-12 text-center">
+              <p className="text-muted-foreground">{t('noMatches')}</p>
+              <Button asChild variant="link">
+                <Link href="/audit">{tc('clearFilters')}</Link>
+              </Button>
+            </div>
+          ) : (
+            <>
+              <AuditTable items={result.items} userNames={new Map(users.map((u) => [u.id, u.name]))} />
+              <Pagination
+                pathname="/audit"
+                searchParams={query}
+                page={result.page}
+                pageCount={result.pageCount}
+                total={result.total}
+                pageSize={AUDIT_PAGE_SIZE}
+              />
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
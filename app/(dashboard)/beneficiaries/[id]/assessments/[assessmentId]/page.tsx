@@ -0,0 +1,134 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { getLocale, getTranslations } from 'next-intl/server';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { canAccessBeneficiary } from '@/lib/access';
+import { getAssessment } from '@/lib/assessments/assessments';
+import { toAssessmentAnswers } from '@/lib/assessments/scoring';
+import { requirePermission } from '@/lib/auth';
+import { getEnumLabel } from '@/lib/i18n/server';
+import { formatDateTime } from '@/lib/utils';
+
+function Detail({ label, value }: { label: string; value?: React.ReactNode }) {
+  return (
+    <div>
+      <dt className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{label}</dt>
+      <dd className="mt-1 text-sm">{value || '—'}</dd>
+    </div>
+  );
+}
+
+export default async function AssessmentPage({ params }: { params: Promise<{ id: string; assessmentId: string }> }) {
+  const user = await requirePermission('assessment:read');
+  const { id, assessmentId } = await params;
+
+  if (!(await canAccessBeneficiary(user, id))) {
+    notFound();
+  }
+  const assessment = await getAssessment(assessmentId);
+  if (!assessment || assessment.beneficiaryId !== id) {
+    notFound();
+  }
+
+  const [t, locale, enumLabel] = await Promise.all([getTranslations('assessments'), getLocale(), getEnumLabel()]);
+  const { questionnaire, version } = assessment.questionnaireVersion;
+  const answers = toAssessmentAnswers(assessment.answers);
+  const answered = Object.keys(answers).length > 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Link href={`/beneficiaries/${id}`} className="inline-flex items-center text-sm text-muted-foreground hover:underline">
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          {t('backToBeneficiary')}
+        </Link>
+        <h1 className="text-3xl font-bold tracking-tight">{questionnaire.name}</h1>
+        <p className="text-sm text-muted-foreground">
+          {enumLabel(questionnaire.kind)} · {t('versionShort', { version })} ·{' '}
+          {t('assessedBy', { name: assessment.assessedBy.name, time: formatDateTime(assessment.createdAt, locale) })}
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>{t('answersTitle')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!answered ? (
+              <p className="text-sm text-muted-foreground">{t('noAnswers')}</p>
+            ) : (
+              <dl className="space-y-4">
+                {assessment.definition.questions.map((question) => {
+                  const answer = answers[question.key];
+                  const chosen = answer === undefined ? [] : Array.isArray(answer) ? answer : [answer];
+                  return (
+                    <Detail
+                      key={question.key}
+                      label={question.label}
+                      value={
+                        chosen.length > 0 && (
+                          <ul className="space-y-0.5">
+                            {question.options
+                              .filter((option) => chosen.includes(option.label))
+                              .map((option) => (
+                                <li key={option.label}>
+                                  {option.label}
+                                  <span className="ml-2 text-xs text-muted-foreground tabular-nums">
+                                    {t('weight', { weight: option.weight > 0 ? `+${option.weight}` : option.weight })}
+                                  </span>
+                                </li>
+                              ))}
+                          </ul>
+                        )
+                      }
+                    />
+                  );
+                })}
+              </dl>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('resultTitle')}</CardTitle>
+            <CardDescription>{t('resultDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <dl className="space-y-4">
+              <Detail label={t('score')} value={<span className="text-2xl font-bold tabular-nums">{assessment.score}</span>} />
+              <Detail label={t('suggested')} value={enumLabel(assessment.suggestedPriority)} />
+              <Detail
+                label={t('priority')}
+                value={
+                  <Badge variant={assessment.priority === 'URGENT' ? 'destructive' : 'outline'}>
+                    {enumLabel(assessment.priority)}
+                  </Badge>
+                }
+              />
+              {assessment.priority !== assessment.suggestedPriority && (
+                <Detail
+                  label={t('overrideReason')}
+                  value={assessment.overrideReason && <span className="whitespace-pre-line">{assessment.overrideReason}</span>}
+                />
+              )}
+              {assessment.case && (
+                <Detail
+                  label={t('case')}
+                  value={
+                    <Link href={`/cases/${assessment.case.id}`} className="hover:underline">
+                      {assessment.case.title}
+                    </Link>
+                  }
+                />
+              )}
+            </dl>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
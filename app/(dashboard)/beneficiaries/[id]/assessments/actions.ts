@@ -0,0 +1,43 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { canAccessBeneficiary, canAccessCase } from '@/lib/access';
+import { requirePermission } from '@/lib/auth';
+import { actionFailure, localizedFailure, validationFailure, type ActionResult } from '@/lib/actions';
+import { AssessmentError, questionsOfVersion, recordAssessment } from '@/lib/assessments/assessments';
+import { assessmentSchema, assessmentSchemaFor } from '@/lib/validation';
+
+export async function completeAssessment(input: unknown): Promise<ActionResult<{ id: string }>> {
+  const user = await requirePermission('assessment:create');
+
+  // The answers can only be checked once we know which questions they answer.
+  const target = assessmentSchema.pick({ questionnaireVersionId: true }).safeParse(input);
+  const questions = target.success ? await questionsOfVersion(target.data.questionnaireVersionId) : null;
+  if (!questions) {
+    return actionFailure('questionnaireNotFound');
+  }
+  const parsed = assessmentSchemaFor(questions).safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+  const { beneficiaryId, caseId } = parsed.data;
+  if (
+    !(await canAccessBeneficiary(user, beneficiaryId)) ||
+    (caseId && !(await canAccessCase(user, caseId)))
+  ) {
+    throw new Error('Forbidden');
+  }
+
+  try {
+    const assessment = await recordAssessment(parsed.data, user);
+    revalidatePath(`/beneficiaries/${beneficiaryId}`);
+    revalidatePath('/beneficiaries');
+    if (caseId) revalidatePath(`/cases/${caseId}`);
+    return { success: true, data: { id: assessment.id } };
+  } catch (error) {
+    if (error instanceof AssessmentError) {
+      return localizedFailure(error);
+    }
+    throw error;
+  }
+}
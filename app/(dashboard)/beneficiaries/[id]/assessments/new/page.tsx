@@ -0,0 +1,121 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getTranslations } from 'next-intl/server';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AssessmentForm } from '@/components/assessments/assessment-form';
+import { canAccessBeneficiary, caseScope } from '@/lib/access';
+import { activeQuestionnaires } from '@/lib/assessments/questionnaires';
+import { requirePermission } from '@/lib/auth';
+import { getEnumLabel } from '@/lib/i18n/server';
+import { prisma } from '@/lib/prisma';
+import { buildHref, cn, firstParam, type SearchParams } from '@/lib/utils';
+
+export default async function NewAssessmentPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<SearchParams>;
+}) {
+  const user = await requirePermission('assessment:create');
+  const { id } = await params;
+  const query = await searchParams;
+
+  const beneficiary = (await canAccessBeneficiary(user, id))
+    ? await prisma.beneficiary.findUnique({
+        where: { id },
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          dateOfBirth: true,
+          anonymizedAt: true,
+          cases: {
+            // Only cases the assessor may change can take the priority.
+            where: { status: { in: ['OPEN', 'IN_PROGRESS'] }, ...caseScope(user) },
+            select: { id: true, title: true },
+            orderBy: { createdAt: 'desc' },
+          },
+        },
+      })
+    : null;
+  if (!beneficiary || beneficiary.anonymizedAt) {
+    notFound();
+  }
+
+  const [t, tc, enumLabel, questionnaires] = await Promise.all([
+    getTranslations('assessments'),
+    getTranslations('common'),
+    getEnumLabel(),
+    activeQuestionnaires(),
+  ]);
+  const chosenId = firstParam(query.questionnaire);
+  const questionnaire = questionnaires.find((candidate) => candidate.id === chosenId) ?? questionnaires[0];
+  const caseId = firstParam(query.caseId);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{t('new')}</h1>
+        <p className="text-muted-foreground">
+          {tc.rich('forBeneficiary', {
+            name: `${beneficiary.firstName} ${beneficiary.lastName}`,
+            link: (chunks) => (
+              <Link href={`/beneficiaries/${beneficiary.id}`} className="font-medium text-foreground hover:underline">
+                {chunks}
+              </Link>
+            ),
+          })}
+        </p>
+      </div>
+
+      {!questionnaire ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">{t('noQuestionnaires')}</CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader className="gap-4">
+            {questionnaires.length > 1 && (
+              <div className="flex flex-wrap gap-1">
+                {questionnaires.map((candidate) => (
+                  <Link
+                    key={candidate.id}
+                    href={buildHref(`/beneficiaries/${beneficiary.id}/assessments/new`, query, {
+                      questionnaire: candidate.id,
+                    })}
+                    className={cn(
+                      'rounded-md px-3 py-1.5 text-sm font-medium transition-colors',
+                      candidate.id === questionnaire.id
+                        ? 'bg-primary text-primary-foreground'
+                        : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+                    )}
+                  >
+                    {candidate.name}
+                  </Link>
+                ))}
+              </div>
+            )}
+            <div className="space-y-1.5">
+              <CardTitle>{questionnaire.name}</CardTitle>
+              <CardDescription>
+                {enumLabel(questionnaire.kind)} · {t('versionShort', { version: questionnaire.currentVersion })}
+                {questionnaire.description && ` · ${questionnaire.description}`}
+              </CardDescription>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <AssessmentForm
+              key={questionnaire.versionId}
+              beneficiaryId={beneficiary.id}
+              dateOfBirth={beneficiary.dateOfBirth}
+              questionnaire={questionnaire}
+              cases={beneficiary.cases}
+              defaultCaseId={beneficiary.cases.some((option) => option.id === caseId) ? caseId : undefined}
+            />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { notFound } from 'next/navigation';
+import { getTranslations } from 'next-intl/server';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { BeneficiaryForm, type BeneficiaryFormValues } from '@/components/beneficiaries/beneficiary-form';
+import { canAccessBeneficiary } from '@/lib/access';
+import { requirePermission } from '@/lib/auth';
+import { getCustomFields } from '@/lib/custom-fields/definitions';
+import { toCustomFieldValues } from '@/lib/custom-fields/values';
+import { prisma } from '@/lib/prisma';
+import { currentProgrammeIds } from '@/lib/programmes/enrolments';
+
+export default async function EditBeneficiaryPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const user = await requirePermission('beneficiary:update');
+  const { id } = await params;
+  const beneficiary = (await canAccessBeneficiary(user, id))
+    ? await prisma.beneficiary.findUnique({ where: { id }, include: { branch: { select: { country: true } } } })
+    : null;
+
+  // Erased records can't be edited back into identifying someone.
+  if (!beneficiary || beneficiary.anonymizedAt) {
+    notFound();
+  }
+
+  const [t, customFields, programmeIds] = await Promise.all([
+    getTranslations('beneficiaries'),
+    getCustomFields('BENEFICIARY'),
+    currentProgrammeIds(beneficiary.id),
+  ]);
+  const defaultValues: BeneficiaryFormValues = {
+    branchId: beneficiary.branchId,
+    firstName: beneficiary.firstName,
+    lastName: beneficiary.lastName,
+    dateOfBirth: beneficiary.dateOfBirth ? beneficiary.dateOfBirth.toISOString().slice(0, 10) : null,
+    gender: beneficiary.gender,
+    nationality: beneficiary.nationality ?? '',
+    monthlyIncome: beneficiary.monthlyIncome === null ? null : Number(beneficiary.monthlyIncome),
+    idNumber: beneficiary.idNumber ?? '',
+    phone: beneficiary.phone ?? '',
+    email: beneficiary.email ?? '',
+    address: beneficiary.address ?? '',
+    city: beneficiary.city ?? '',
+    state: beneficiary.state ?? '',
+    postcode: beneficiary.postcode ?? '',
+    emergencyName: beneficiary.emergencyName ?? '',
+    emergencyPhone: beneficiary.emergencyPhone ?? '',
+    emergencyRelation: beneficiary.emergencyRelation ?? '',
+    category: beneficiary.category,
+    status: beneficiary.status,
+    priority: beneficiary.priority,
+    notes: beneficiary.notes ?? '',
+    tags: beneficiary.tags,
+    customFields: toCustomFieldValues(beneficiary.customFields),
+    source: beneficiary.source ?? '',
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{t('editTitle')}</h1>
+        <p className="text-muted-foreground">
+          {beneficiary.firstName} {beneficiary.lastName}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('formTitle')}</CardTitle>
+          <CardDescription>{t('editFormDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <BeneficiaryForm
+            beneficiaryId={beneficiary.id}
+            defaultValues={defaultValues}
+            country={beneficiary.branch.country}
+            customFields={customFields}
+            programmeIds={programmeIds}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,441 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { differenceInYears } from 'date-fns';
+import { getLocale, getTranslations } from 'next-intl/server';
+import {
+  BedDouble,
+  Banknote,
+  ClipboardList,
+  FolderPlus,
+  HeartHandshake,
+  Pencil,
+  ShieldCheck,
+  Utensils,
+} from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AssessmentHistory } from '@/components/assessments/assessment-history';
+import { BeneficiaryAssignee } from '@/components/beneficiaries/beneficiary-assignee';
+import { BeneficiaryTimeline } from '@/components/beneficiaries/beneficiary-timeline';
+import { DocumentList } from '@/components/beneficiaries/document-list';
+import { DocumentUploadForm } from '@/components/beneficiaries/document-upload-form';
+import { EnrolmentActions } from '@/components/programmes/enrolment-actions';
+import { EnrolmentForm } from '@/components/programmes/enrolment-form';
+import {
+  getBeneficiaryServiceTotals,
+  getBeneficiaryTimeline,
+  timelineEventTypes,
+  type TimelineEventType,
+} from '@/lib/beneficiaries';
+import { canAccessBeneficiary } from '@/lib/access';
+import { listBeneficiaryAssessments } from '@/lib/assessments/assessments';
+import { requirePermission } from '@/lib/auth';
+import { countryRules } from '@/lib/countries';
+import { getCustomFields } from '@/lib/custom-fields/definitions';
+import { applicableCustomFields, formatCustomFieldValue, toCustomFieldValues } from '@/lib/custom-fields/values';
+import { listBeneficiaryDocuments } from '@/lib/documents';
+import { getEnumLabel } from '@/lib/i18n/server';
+import { hasPermission, maskBeneficiary } from '@/lib/permissions';
+import { prisma } from '@/lib/prisma';
+import { enrolmentStatus } from '@/lib/programmes/enrolments';
+import { enrollableProgrammes, listBeneficiaryEnrolments } from '@/lib/programmes/programmes';
+import { buildHref, cn, formatCurrency, formatDate, type SearchParams } from '@/lib/utils';
+
+const timelineFilters: {
+  value?: TimelineEventType;
+  label: 'timelineAll' | 'timelineServices' | 'timelineCases' | 'timelineDocuments';
+}[] = [
+  { label: 'timelineAll' },
+  { value: 'service', label: 'timelineServices' },
+  { value: 'case', label: 'timelineCases' },
+  { value: 'document', label: 'timelineDocuments' },
+];
+
+function Detail({ label, value }: { label: string; value?: React.ReactNode }) {
+  return (
+    <div>
+      <dt className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{label}</dt>
+      <dd className="mt-1 text-sm">{value || '—'}</dd>
+    </div>
+  );
+}
+
+export default async function BeneficiaryProfilePage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<SearchParams>;
+}) {
+  const user = await requirePermission('beneficiary:read');
+  const { id } = await params;
+  const query = await searchParams;
+  const typeFilter = timelineEventTypes.find((type) => type === query.type);
+
+  // Out-of-scope records 404 rather than 403 so their existence isn't revealed.
+  if (!(await canAccessBeneficiary(user, id))) {
+    notFound();
+  }
+
+  const record = await prisma.beneficiary.findUnique({
+    where: { id },
+    include: {
+      assignedTo: { select: { name: true, email: true, phone: true } },
+      createdBy: { select: { name: true } },
+      branch: { select: { country: true } },
+    },
+  });
+
+  if (!record) {
+    notFound();
+  }
+
+  const beneficiary = maskBeneficiary(record, user.role);
+  // An erased record is kept only so its services still count; it can't be edited or added to.
+  const anonymized = !!record.anonymizedAt;
+  const canReadDocuments = hasPermission(user.role, 'document:read');
+  const canAssign = hasPermission(user.role, 'beneficiary:assign') && !anonymized;
+  const canReadProgrammes = hasPermission(user.role, 'programme:read');
+  const canEnrol = hasPermission(user.role, 'programme:enrol') && !anonymized;
+  const canReadAssessments = hasPermission(user.role, 'assessment:read');
+  const canAssess = hasPermission(user.role, 'assessment:create') && !anonymized;
+  const [timeline, totals, documents, users, customFields, enrolments, programmes, assessments] = await Promise.all([
+    getBeneficiaryTimeline(id, user, typeFilter ? [typeFilter] : undefined),
+    getBeneficiaryServiceTotals(id),
+    canReadDocuments ? listBeneficiaryDocuments(id, user.role) : [],
+    canAssign
+      ? prisma.user.findMany({
+          where: { branch: { beneficiaries: { some: { id } } } },
+          select: { id: true, name: true, role: true },
+          orderBy: { name: 'asc' },
+        })
+      : null,
+    getCustomFields('BENEFICIARY'),
+    listBeneficiaryEnrolments(id),
+    canEnrol ? enrollableProgrammes(record.branchId) : [],
+    canReadAssessments ? listBeneficiaryAssessments(id) : [],
+  ]);
+
+  const [t, tf, tp, tc, locale, enumLabel] = await Promise.all([
+    getTranslations('beneficiaries.profile'),
+    getTranslations('beneficiaries.fields'),
+    getTranslations('programmes'),
+    getTranslations('common'),
+    getLocale(),
+    getEnumLabel(),
+  ]);
+  const answers = toCustomFieldValues(beneficiary.customFields);
+  const answerLabels = { yes: tc('yes'), no: tc('no'), formatDate: (date: Date) => formatDate(date, locale) };
+  const age = beneficiary.dateOfBirth ? differenceInYears(new Date(), beneficiary.dateOfBirth) : null;
+  const currency = countryRules[record.branch.country].currency;
+  const shownEnrolments = enrolments.map((enrolment) => ({ ...enrolment, shownStatus: enrolmentStatus(enrolment) }));
+  const currentProgrammeIds = shownEnrolments
+    .filter((enrolment) => enrolment.shownStatus !== 'ENDED')
+    .map((enrolment) => enrolment.programmeId);
+  const address = [beneficiary.address, beneficiary.postcode, beneficiary.city, beneficiary.state]
+    .filter(Boolean)
+    .join(', ');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <div className="flex items-start gap-4">
+          {beneficiary.photoUrl && canReadDocuments && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={beneficiary.photoUrl}
+              alt={`${beneficiary.firstName} ${beneficiary.lastName}`}
+              className="h-20 w-20 shrink-0 rounded-full border object-cover"
+            />
+          )}
+          <div className="space-y-2">
+            <h1 className="text-3xl font-bold tracking-tight">
+              {beneficiary.firstName} {beneficiary.lastName}
+            </h1>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">{enumLabel(beneficiary.category)}</Badge>
+              <Badge variant={beneficiary.status === 'ACTIVE' ? 'default' : 'secondary'}>
+                {enumLabel(beneficiary.status)}
+              </Badge>
+              <Badge variant={beneficiary.priority === 'URGENT' ? 'destructive' : 'outline'}>
+                {t('priority', { priority: enumLabel(beneficiary.priority) })}
+              </Badge>
+              {beneficiary.tags.map((tag) => (
+                <Badge key={tag} variant="secondary" className="font-normal">
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          {!anonymized && hasPermission(user.role, 'data_request:manage') && (
+            <Button asChild variant="outline">
+              <Link href={`/data-requests/new?beneficiaryId=${beneficiary.id}`}>
+                <ShieldCheck className="mr-2 h-4 w-4" />
+                {t('dataRequest')}
+              </Link>
+            </Button>
+          )}
+          {!anonymized && hasPermission(user.role, 'case:create') && (
+            <Button asChild variant="outline">
+              <Link href={`/cases/new?beneficiaryId=${beneficiary.id}`}>
+                <FolderPlus className="mr-2 h-4 w-4" />
+                {t('openCase')}
+              </Link>
+            </Button>
+          )}
+          {!anonymized && hasPermission(user.role, 'beneficiary:update') && (
+            <Button asChild variant="outline">
+              <Link href={`/beneficiaries/${beneficiary.id}/edit`}>
+                <Pencil className="mr-2 h-4 w-4" />
+                {t('edit')}
+              </Link>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {record.anonymizedAt && (
+        <div role="status" className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+          {t('erased', { date: formatDate(record.anonymizedAt, locale) })}
+        </div>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>{t('title')}</CardTitle>
+            <CardDescription>
+              {t('registeredBy', { date: formatDate(beneficiary.createdAt, locale), name: beneficiary.createdBy.name })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              <Detail
+                label={tf('dateOfBirth')}
+                value={
+                  beneficiary.dateOfBirth &&
+                  t('dateOfBirth', { date: formatDate(beneficiary.dateOfBirth, locale), age: age ?? 0 })
+                }
+              />
+              <Detail label={tf('gender')} value={beneficiary.gender && enumLabel(beneficiary.gender)} />
+              <Detail label={tf('nationality')} value={beneficiary.nationality} />
+              <Detail
+                label={tf('monthlyIncome')}
+                value={beneficiary.monthlyIncome !== null && formatCurrency(Number(beneficiary.monthlyIncome), currency)}
+              />
+              <Detail label={tf('idNumber')} value={beneficiary.idNumber} />
+              <Detail label={tf('phone')} value={beneficiary.phone} />
+              <Detail label={tf('email')} value={beneficiary.email} />
+              <div className="sm:col-span-2 lg:col-span-3">
+                <Detail label={tf('address')} value={address} />
+              </div>
+              <Detail
+                label={t('emergencyContact')}
+                value={
+                  beneficiary.emergencyName &&
+                  [beneficiary.emergencyName, beneficiary.emergencyRelation && `(${beneficiary.emergencyRelation})`]
+                    .filter(Boolean)
+                    .join(' ')
+                }
+              />
+              <Detail label={t('emergencyPhone')} value={beneficiary.emergencyPhone} />
+              {applicableCustomFields(customFields, {
+                category: beneficiary.category,
+                programmeIds: currentProgrammeIds,
+              }).map((field) => (
+                <Detail
+                  key={field.key}
+                  label={field.label}
+                  value={formatCustomFieldValue(field, answers[field.key], answerLabels)}
+                />
+              ))}
+            </dl>
+            {beneficiary.notes && (
+              <div className="mt-4 rounded-md bg-muted p-3 text-sm whitespace-pre-line">{beneficiary.notes}</div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('assignedWorker')}</CardTitle>
+            <CardDescription>{t('assignedWorkerDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {beneficiary.assignedTo ? (
+              <dl className="space-y-3">
+                <Detail label={tf('name')} value={beneficiary.assignedTo.name} />
+                <Detail label={tf('email')} value={beneficiary.assignedTo.email} />
+                <Detail label={tf('phone')} value={beneficiary.assignedTo.phone} />
+              </dl>
+            ) : (
+              <p className="text-sm text-muted-foreground">{t('notAssigned')}</p>
+            )}
+            {users && <BeneficiaryAssignee beneficiaryId={record.id} assigneeId={record.assignedToId} users={users} />}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+        {[
+          { label: t('servicesReceived'), value: totals.servicesCount, icon: HeartHandshake },
+          { label: t('mealsDelivered'), value: totals.mealsDelivered, icon: Utensils },
+          { label: t('shelterNights'), value: totals.shelterNights, icon: BedDouble },
+          { label: t('aidCost'), value: formatCurrency(totals.aidCost, currency), icon: Banknote },
+        ].map((stat) => (
+          <Card key={stat.label}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{stat.label}</CardTitle>
+              <stat.icon className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{stat.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {canReadProgrammes && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('programmes')}</CardTitle>
+            <CardDescription>{t('programmesDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {shownEnrolments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t('noProgrammes')}</p>
+            ) : (
+              <ul className="divide-y">
+                {shownEnrolments.map((enrolment) => (
+                  <li key={enrolment.id} className="flex flex-col gap-2 py-3 sm:flex-row sm:items-center sm:justify-between">
+                    <div className="space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Link href={`/programmes/${enrolment.programme.id}`} className="font-medium hover:underline">
+                          {enrolment.programme.name}
+                        </Link>
+                        <Badge variant={enrolment.shownStatus === 'ENROLLED' ? 'default' : 'secondary'}>
+                          {enumLabel(enrolment.shownStatus)}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {enrolment.shownStatus === 'WAITLISTED'
+                          ? enrolment.waitlistedAt && tp('waitingSince', { date: formatDate(enrolment.waitlistedAt, locale) })
+                          : enrolment.startDate &&
+                            (enrolment.endDate
+                              ? tp('period', {
+                                  start: formatDate(enrolment.startDate, locale),
+                                  end: formatDate(enrolment.endDate, locale),
+                                })
+                              : tp('since', { date: formatDate(enrolment.startDate, locale) }))}
+                        {enrolment.endReason && ` · ${enrolment.endReason}`}
+                      </p>
+                    </div>
+                    {canEnrol && <EnrolmentActions enrolmentId={enrolment.id} status={enrolment.shownStatus} />}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {canEnrol && (
+              <div className="border-t pt-4">
+                <EnrolmentForm
+                  beneficiaryId={record.id}
+                  subject={{
+                    dateOfBirth: record.dateOfBirth,
+                    category: record.category,
+                    state: record.state,
+                    monthlyIncome: record.monthlyIncome === null ? null : Number(record.monthlyIncome),
+                  }}
+                  programmes={programmes
+                    .filter((programme) => !currentProgrammeIds.includes(programme.id))
+                    .map((programme) => ({
+                      id: programme.id,
+                      name: programme.name,
+                      minAge: programme.minAge,
+                      maxAge: programme.maxAge,
+                      categories: programme.categories,
+                      states: programme.states,
+                      maxMonthlyIncome:
+                        programme.maxMonthlyIncome === null ? null : Number(programme.maxMonthlyIncome),
+                      full: programme.capacity !== null && programme.enrolled >= programme.capacity,
+                    }))}
+                  canOverride={hasPermission(user.role, 'programme:manage')}
+                  currency={currency}
+                />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {canReadAssessments && (
+        <Card>
+          <CardHeader className="gap-4 sm:flex-row sm:items-center sm:justify-between sm:space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>{t('assessments')}</CardTitle>
+              <CardDescription>{t('assessmentsDescription')}</CardDescription>
+            </div>
+            {canAssess && (
+              <Button asChild variant="outline" size="sm">
+                <Link href={`/beneficiaries/${beneficiary.id}/assessments/new`}>
+                  <ClipboardList className="mr-2 h-4 w-4" />
+                  {t('newAssessment')}
+                </Link>
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            <AssessmentHistory assessments={assessments} />
+          </CardContent>
+        </Card>
+      )}
+
+      {canReadDocuments && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('documents')}</CardTitle>
+            <CardDescription>{t('documentsDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <DocumentList documents={documents} canDelete={hasPermission(user.role, 'document:delete')} />
+            {!anonymized && hasPermission(user.role, 'document:create') && (
+              <div className="border-t pt-4">
+                <DocumentUploadForm beneficiaryId={beneficiary.id} />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="gap-4 sm:flex-row sm:items-center sm:justify-between sm:space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>{t('timeline')}</CardTitle>
+            <CardDescription>{t('timelineDescription')}</CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {timelineFilters.map((filter) => (
+              <Link
+                key={filter.label}
+                href={buildHref(`/beneficiaries/${beneficiary.id}`, query, { type: filter.value })}
+                className={cn(
+                  'rounded-md px-3 py-1.5 text-sm font-medium transition-colors',
+                  typeFilter === filter.value
+                    ? 'bg-primary text-primary-foreground'
+                    : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+                )}
+              >
+                {t(filter.label)}
+              </Link>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <BeneficiaryTimeline events={timeline} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { canAccessBeneficiary } from '@/lib/access';
+import { requirePermission } from '@/lib/auth';
+import { isRecordScoped, maskIdentifier } from '@/lib/permissions';
+import { prisma } from '@/lib/prisma';
+import { assignBeneficiary, editedCustomFields, registerBeneficiary, toBeneficiaryData } from '@/lib/beneficiaries';
+import { beneficiaryBranchId, beneficiaryCountry, resolveBranch } from '@/lib/branches';
+import { getCustomFields } from '@/lib/custom-fields/definitions';
+import { currentProgrammeIds } from '@/lib/programmes/enrolments';
+import { DocumentUploadError, removeDocument, storeDocument } from '@/lib/documents';
+import { findDuplicateCandidates, type DuplicateCandidateMatch } from '@/lib/duplicates';
+import { beneficiarySchemaFor, documentUploadSchema } from '@/lib/validation';
+import {
+  actionFailure,
+  isUniqueConstraintError,
+  localizedFailure,
+  validationFailure,
+  type ActionResult,
+} from '@/lib/actions';
+
+const branchNotFound = () => actionFailure('branchNotFound', { field: 'branchId' });
+const duplicateIdNumber = () => actionFailure('duplicateIdNumber', { field: 'idNumber' });
+
+async function isAnonymized(id: string): Promise<boolean> {
+  const beneficiary = await prisma.beneficiary.findUnique({ where: { id }, select: { anonymizedAt: true } });
+  return !!beneficiary?.anonymizedAt;
+}
+
+// Called by the registration form before saving so the worker can see likely
+// existing records for the same person.
+export async function checkDuplicates(input: unknown): Promise<ActionResult<DuplicateCandidateMatch[]>> {
+  const user = await requirePermission('beneficiary:create');
+
+  const branch = await resolveBranch(user, input);
+  if (!branch) return branchNotFound();
+  const parsed = beneficiarySchemaFor(branch.country).safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  const matches = await findDuplicateCandidates({ ...toBeneficiaryData(parsed.data), branchId: branch.id });
+  if (!isRecordScoped(user.role)) {
+    return { success: true, data: matches };
+  }
+  // Matches can be anyone's records: enough to recognise the person, no more.
+  return {
+    success: true,
+    data: matches.map((match) => ({
+      ...match,
+      idNumber: match.idNumber && maskIdentifier(match.idNumber),
+      phone: match.phone && maskIdentifier(match.phone),
+    })),
+  };
+}
+
+export async function createBeneficiary(input: unknown): Promise<ActionResult<{ id: string }>> {
+  const user = await requirePermission('beneficiary:create');
+
+  const branch = await resolveBranch(user, input);
+  if (!branch) return branchNotFound();
+  const parsed = beneficiarySchemaFor(branch.country, await getCustomFields('BENEFICIARY')).safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  try {
+    // The worker has already seen any likely duplicates and registered anyway.
+    const beneficiary = await registerBeneficiary(parsed.data, user, {
+      branchId: branch.id,
+      source: parsed.data.source || 'manual_entry',
+    });
+
+    revalidatePath('/beneficiaries');
+    revalidatePath('/dashboard');
+    return { success: true, data: { id: beneficiary.id } };
+  } catch (error) {
+    if (isUniqueConstraintError(error, 'idNumberIndex')) {
+      return duplicateIdNumber();
+    }
+    throw error;
+  }
+}
+
+export async function updateBeneficiary(id: string, input: unknown): Promise<ActionResult<{ id: string }>> {
+  const user = await requirePermission('beneficiary:update');
+  if (!(await canAccessBeneficiary(user, id))) {
+    throw new Error('Forbidden');
+  }
+
+  if (await isAnonymized(id)) {
+    return actionFailure('beneficiaryErased');
+  }
+
+  // A beneficiary stays in the branch they were registered in.
+  const customFields = await getCustomFields('BENEFICIARY');
+  const schema = beneficiarySchemaFor(await beneficiaryCountry(id), customFields, await currentProgrammeIds(id));
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  try {
+    await prisma.beneficiary.update({
+      where: { id },
+      data: {
+        ...toBeneficiaryData(parsed.data),
+        customFields: await editedCustomFields(id, parsed.data, customFields),
+      },
+    });
+  } catch (error) {
+    if (isUniqueConstraintError(error, 'idNumberIndex')) {
+      return duplicateIdNumber();
+    }
+    throw error;
+  }
+
+  revalidatePath('/beneficiaries');
+  revalidatePath(`/beneficiaries/${id}`);
+  return { success: true, data: { id } };
+}
+
+// userId null leaves the beneficiary without a primary worker.
+export async function assignWorker(id: string, userId: string | null): Promise<ActionResult> {
+  const user = await requirePermission('beneficiary:assign');
+  if (!(await canAccessBeneficiary(user, id))) {
+    throw new Error('Forbidden');
+  }
+
+  if (await isAnonymized(id)) {
+    return actionFailure('beneficiaryErased');
+  }
+  // The primary worker comes from the beneficiary's own branch.
+  if (userId) {
+    const branchId = await beneficiaryBranchId(id);
+    if (!(await prisma.user.findFirst({ where: { id: userId, branchId }, select: { id: true } }))) {
+      return actionFailure('userNotFound');
+    }
+  }
+
+  await assignBeneficiary(id, userId, user);
+  revalidatePath('/beneficiaries');
+  revalidatePath(`/beneficiaries/${id}`);
+  return { success: true, data: undefined };
+}
+
+// Takes FormData so the file can be sent along with the fields.
+export async function uploadDocument(formData: FormData): Promise<ActionResult<{ id: string }>> {
+  const user = await requirePermission('document:create');
+
+  const parsed = documentUploadSchema.safeParse({
+    beneficiaryId: formData.get('beneficiaryId'),
+    type: formData.get('type'),
+    name: formData.get('name'),
+    useAsPhoto: formData.get('useAsPhoto') === 'on',
+  });
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+  const file = formData.get('file');
+  if (!(file instanceof File)) {
+    return actionFailure('chooseFile', { field: 'file' });
+  }
+  if (!(await canAccessBeneficiary(user, parsed.data.beneficiaryId))) {
+    throw new Error('Forbidden');
+  }
+  if (await isAnonymized(parsed.data.beneficiaryId)) {
+    return actionFailure('beneficiaryErased');
+  }
+
+  try {
+    const document = await storeDocument({ ...parsed.data, file }, user.id);
+    revalidatePath(`/beneficiaries/${parsed.data.beneficiaryId}`);
+    return { success: true, data: document };
+  } catch (error) {
+    if (error instanceof DocumentUploadError) {
+      return localizedFailure(error, 'file');
+    }
+    throw error;
+  }
+}
+
+export async function deleteDocument(id: string): Promise<ActionResult> {
+  const user = await requirePermission('document:delete');
+
+  const document = await prisma.document.findUnique({ where: { id }, select: { beneficiaryId: true } });
+  if (!document || !(await canAccessBeneficiary(user, document.beneficiaryId))) {
+    return actionFailure('documentNotFound');
+  }
+
+  await removeDocument(id);
+  revalidatePath(`/beneficiaries/${document.beneficiaryId}`);
+  return { success: true, data: undefined };
+}
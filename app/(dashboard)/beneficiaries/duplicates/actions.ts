@@ -0,0 +1,49 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { beneficiaryScope, canAccessBeneficiary } from '@/lib/access';
+import { requirePermission } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { mergeBeneficiaries, scanForDuplicates } from '@/lib/duplicates';
+
+export async function mergeDuplicate(candidateId: string, survivorId: string) {
+  const user = await requirePermission('beneficiary:merge');
+
+  const candidate = await prisma.duplicateCandidate.findUniqueOrThrow({ where: { id: candidateId } });
+  const pair = [candidate.beneficiaryId, candidate.duplicateOfId];
+  if (!pair.includes(survivorId)) {
+    throw new Error('Survivor must be one of the candidate pair');
+  }
+  if (!(await canAccessBeneficiary(user, survivorId))) {
+    throw new Error('Forbidden');
+  }
+  const duplicateId = pair.find((id) => id !== survivorId)!;
+
+  await mergeBeneficiaries(
+    survivorId,
+    duplicateId,
+    user.id,
+    `Duplicate review (${Math.round(candidate.score * 100)}% match: ${candidate.reasons.join(', ')})`
+  );
+
+  revalidatePath('/beneficiaries');
+  revalidatePath('/beneficiaries/duplicates');
+  revalidatePath(`/beneficiaries/${survivorId}`);
+}
+
+export async function dismissDuplicate(candidateId: string) {
+  const user = await requirePermission('beneficiary:merge');
+
+  await prisma.duplicateCandidate.update({
+    where: { id: candidateId, beneficiary: beneficiaryScope(user) },
+    data: { status: 'DISMISSED', reviewedById: user.id, reviewedAt: new Date() },
+  });
+
+  revalidatePath('/beneficiaries/duplicates');
+}
+
+export async function runDuplicateScan() {
+  await requirePermission('beneficiary:merge');
+  await scanForDuplicates();
+  revalidatePath('/beneficiaries/duplicates');
+}
@@ -0,0 +1,137 @@
+import Link from 'next/link';
+import type { Beneficiary } from '@prisma/client';
+import { useLocale, useTranslations } from 'next-intl';
+import { getTranslations } from 'next-intl/server';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { beneficiaryScope } from '@/lib/access';
+import { requirePermission } from '@/lib/auth';
+import { useEnumLabel } from '@/lib/i18n/labels';
+import { prisma } from '@/lib/prisma';
+import { formatDate } from '@/lib/utils';
+import { dismissDuplicate, mergeDuplicate, runDuplicateScan } from './actions';
+
+const QUEUE_SIZE = 50;
+
+type PairSide = Pick<
+  Beneficiary,
+  'id' | 'firstName' | 'lastName' | 'idNumber' | 'phone' | 'dateOfBirth' | 'category' | 'createdAt'
+> & { _count: { cases: number; services: number; documents: number } };
+
+const side = {
+  select: {
+    id: true,
+    firstName: true,
+    lastName: true,
+    idNumber: true,
+    phone: true,
+    dateOfBirth: true,
+    category: true,
+    createdAt: true,
+    _count: { select: { cases: true, services: true, documents: true } },
+  },
+} as const;
+
+function Side({ record, candidateId }: { record: PairSide; candidateId: string }) {
+  const t = useTranslations('duplicates');
+  const tf = useTranslations('beneficiaries.fields');
+  const locale = useLocale();
+  const enumLabel = useEnumLabel();
+
+  return (
+    <div className="flex-1 space-y-2 rounded-md border p-3">
+      <Link href={`/beneficiaries/${record.id}`} className="font-medium hover:underline">
+        {record.firstName} {record.lastName}
+      </Link>
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+        <dt className="text-muted-foreground">{tf('idNumber')}</dt>
+        <dd>{record.idNumber ?? '—'}</dd>
+        <dt className="text-muted-foreground">{tf('phone')}</dt>
+        <dd>{record.phone ?? '—'}</dd>
+        <dt className="text-muted-foreground">{tf('dateOfBirth')}</dt>
+        <dd>{record.dateOfBirth ? formatDate(record.dateOfBirth, locale) : '—'}</dd>
+        <dt className="text-muted-foreground">{tf('category')}</dt>
+        <dd>{enumLabel(record.category)}</dd>
+        <dt className="text-muted-foreground">{tf('registered')}</dt>
+        <dd>{formatDate(record.createdAt, locale)}</dd>
+        <dt className="text-muted-foreground">{t('history')}</dt>
+        <dd>{t('historyCounts', record._count)}</dd>
+      </dl>
+      <form action={mergeDuplicate.bind(null, candidateId, record.id)}>
+        <Button type="submit" size="sm" className="w-full">
+          {t('keep')}
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+export default async function DuplicatesPage() {
+  const user = await requirePermission('beneficiary:merge');
+  // Both sides of a pair are always in the same branch.
+  const where = { status: 'PENDING', beneficiary: beneficiaryScope(user) } as const;
+
+  const [candidates, pendingCount] = await Promise.all([
+    prisma.duplicateCandidate.findMany({
+      where,
+      orderBy: [{ score: 'desc' }, { createdAt: 'asc' }],
+      take: QUEUE_SIZE,
+      include: { beneficiary: side, duplicateOf: side },
+    }),
+    prisma.duplicateCandidate.count({ where }),
+  ]);
+  const t = await getTranslations('duplicates');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+          <p className="text-muted-foreground">{t('description')}</p>
+        </div>
+        <form action={runDuplicateScan}>
+          <Button type="submit" variant="outline">
+            {t('scan')}
+          </Button>
+        </form>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('queueTitle')}</CardTitle>
+          <CardDescription>{t('queueDescription', { count: pendingCount })}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {candidates.length === 0 ? (
+            <p className="py-12 text-center text-muted-foreground">{t('empty')}</p>
+          ) : (
+            candidates.map((candidate) => (
+              <div key={candidate.id} className="space-y-3 rounded-lg border p-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant={candidate.score >= 0.8 ? 'destructive' : 'secondary'}>
+                    {t('match', { score: Math.round(candidate.score * 100) })}
+                  </Badge>
+                  {candidate.reasons.map((reason) => (
+                    <Badge key={reason} variant="outline" className="font-normal">
+                      {reason}
+                    </Badge>
+                  ))}
+                </div>
+                <div className="flex flex-col gap-3 md:flex-row">
+                  <Side record={candidate.duplicateOf} candidateId={candidate.id} />
+                  <Side record={candidate.beneficiary} candidateId={candidate.id} />
+                </div>
+                <form action={dismissDuplicate.bind(null, candidate.id)}>
+                  <Button type="submit" variant="ghost" size="sm">
+                    {t('dismiss')}
+                  </Button>
+                </form>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import { getTranslations } from 'next-intl/server';
+import type { Actor } from '@/lib/access';
+import { requirePermission } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { actionFailure, localizedFailure, validationFailure, type ActionResult } from '@/lib/actions';
+import { getCustomFields } from '@/lib/custom-fields/definitions';
+import { LocalizedError } from '@/lib/i18n/errors';
+import { CUSTOM_FIELD_TARGET_PATTERN, importFieldKeys, type CustomFieldTarget } from '@/lib/import/fields';
+import { validateImport, type ImportRowError } from '@/lib/import/csv-parser';
+import { commitImportRows, type ImportCommitResult } from '@/lib/import/commit';
+
+const PREVIEW_ROWS = 10;
+const MAX_REPORTED_ERRORS = 500;
+
+const importRequestSchema = z.object({
+  csv: z.string().min(1),
+  mapping: z.record(
+    z.union([
+      z.literal(''),
+      z.enum(importFieldKeys),
+      z.custom<CustomFieldTarget>((value) => typeof value === 'string' && CUSTOM_FIELD_TARGET_PATTERN.test(value)),
+    ])
+  ),
+  templateName: z.string().trim().max(100).optional(),
+  defaultCategory: z
+    .enum(['HOMELESS', 'ELDERLY', 'DISABLED', 'LOW_INCOME', 'REFUGEE', 'ORPHAN', 'SICK', 'OTHER'])
+    .optional(),
+});
+
+export type ImportRequest = z.infer<typeof importRequestSchema>;
+
+export interface ImportPreview {
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  passRate: number;
+  preview: { rowNumber: number; name: string; category?: string; idNumber?: string | null; phone?: string | null }[];
+  errors: { rowNumber: number; name: string; errors: ImportRowError[] }[];
+}
+
+// Rows go to the importer's own branch and are checked against its country.
+async function runDryRun(request: ImportRequest, actor: Actor) {
+  const [branch, customFields] = await Promise.all([
+    prisma.branch.findUniqueOrThrow({ where: { id: actor.branchId } }),
+    getCustomFields('BENEFICIARY'),
+  ]);
+  const report = validateImport(request.csv, {
+    country: branch.country,
+    mapping: request.mapping,
+    templateName: request.templateName,
+    defaultCategory: request.defaultCategory,
+    customFields,
+    t: await getTranslations('validation'),
+  });
+  return { ...report, branchId: branch.id };
+}
+
+export async function previewImport(input: unknown): Promise<ActionResult<ImportPreview>> {
+  const user = await requirePermission('beneficiary:import');
+
+  const parsed = importRequestSchema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  const mapped = Object.values(parsed.data.mapping);
+  if (!mapped.includes('firstName') && !mapped.includes('fullName')) {
+    return actionFailure('importNameColumnRequired');
+  }
+
+  try {
+    const report = await runDryRun(parsed.data, user);
+    return {
+      success: true,
+      data: {
+        totalRows: report.totalRows,
+        validRows: report.validRows,
+        invalidRows: report.invalidRows,
+        passRate: report.passRate,
+        preview: report.rows
+          .filter((row) => row.data)
+          .slice(0, PREVIEW_ROWS)
+          .map((row) => ({
+            rowNumber: row.rowNumber,
+            name: row.name,
+            category: row.data?.category,
+            idNumber: row.data?.idNumber,
+            phone: row.data?.phone,
+          })),
+        errors: report.rows
+          .filter((row) => row.errors.length > 0)
+          .slice(0, MAX_REPORTED_ERRORS)
+          .map((row) => ({ rowNumber: row.rowNumber, name: row.name, errors: row.errors })),
+      },
+    };
+  } catch (error) {
+    return error instanceof LocalizedError ? localizedFailure(error) : actionFailure('importUnreadable');
+  }
+}
+
+export async function commitImport(input: unknown): Promise<ActionResult<ImportCommitResult>> {
+  const user = await requirePermission('beneficiary:import');
+
+  const parsed = importRequestSchema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  const { templateName, mapping, defaultCategory } = parsed.data;
+  const report = await runDryRun(parsed.data, user);
+  const t = await getTranslations('errors');
+  const result = await commitImportRows(report.rows, mapping, user.id, report.branchId, t);
+
+  if (templateName) {
+    await prisma.importTemplate.upsert({
+      where: { name: templateName },
+      create: { name: templateName, mapping, defaultCategory, createdById: user.id },
+      update: { mapping, defaultCategory },
+    });
+  }
+
+  revalidatePath('/beneficiaries');
+  revalidatePath('/dashboard');
+  return { success: true, data: result };
+}
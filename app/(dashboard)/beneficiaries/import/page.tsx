@@ -0,0 +1,44 @@
+import { getTranslations } from 'next-intl/server';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ImportWizard, type ImportTemplateOption } from '@/components/beneficiaries/import-wizard';
+import { requirePermission } from '@/lib/auth';
+import { getCustomFields } from '@/lib/custom-fields/definitions';
+import type { ImportMapping } from '@/lib/import/fields';
+import { prisma } from '@/lib/prisma';
+
+export default async function ImportBeneficiariesPage() {
+  await requirePermission('beneficiary:import');
+  const t = await getTranslations('import');
+
+  const [templates, customFields] = await Promise.all([
+    prisma.importTemplate.findMany({
+      select: { id: true, name: true, mapping: true, defaultCategory: true },
+      orderBy: { updatedAt: 'desc' },
+    }),
+    getCustomFields('BENEFICIARY'),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+        <p className="text-muted-foreground">{t('description')}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('wizardTitle')}</CardTitle>
+          <CardDescription>{t('wizardDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ImportWizard
+            templates={templates.map(
+              (template): ImportTemplateOption => ({ ...template, mapping: template.mapping as ImportMapping })
+            )}
+            customFields={customFields.map(({ key, label }) => ({ key, label }))}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
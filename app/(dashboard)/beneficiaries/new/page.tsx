@@ -1,26 +1,35 @@
+import { getTranslations } from 'next-intl/server';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { BeneficiaryForm } from '@/components/beneficiaries/beneficiary-form';
+import { requirePermission } from '@/lib/auth';
+import { listBranches } from '@/lib/branches';
+import { getCustomFields } from '@/lib/custom-fields/definitions';
+import { seesAllBranches } from '@/lib/permissions';
+import { prisma } from '@/lib/prisma';
+
+export default async function NewBeneficiaryPage() {
+  const user = await requirePermission('beneficiary:create');
+  const [t, branch, branches, customFields] = await Promise.all([
+    getTranslations('beneficiaries'),
+    prisma.branch.findUniqueOrThrow({ where: { id: user.branchId } }),
+    seesAllBranches(user.role) ? listBranches() : undefined,
+    getCustomFields('BENEFICIARY'),
+  ]);
 
-export default function NewBeneficiaryPage() {
   return (
     <div className="space-y-6">
       <div>
-        <h1 className="text-3xl font-bold tracking-tight">New Beneficiary</h1>
-        <p className="text-muted-foreground">
-          Register a new beneficiary in the system
-        </p>
+        <h1 className="text-3xl font-bold tracking-tight">{t('new')}</h1>
+        <p className="text-muted-foreground">{t('newDescription')}</p>
       </div>
 
       <Card>
         <CardHeader>
-          <CardTitle>Beneficiary Information</CardTitle>
-          <CardDescription>
-            Fill in the details below to register a new beneficiary
-          </CardDescription>
+          <CardTitle>{t('formTitle')}</CardTitle>
+          <CardDescription>{t('newFormDescription')}</CardDescription>
         </CardHeader>
         <CardContent>
-          <p className="text-muted-foreground">
-            Beneficiary form will be implemented here
-          </p>
+          <BeneficiaryForm country={branch.country} branches={branches} customFields={customFields} />
         </CardContent>
       </Card>
     </div>
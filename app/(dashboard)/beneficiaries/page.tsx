@@ -1,47 +1,137 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Plus } from 'lucide-react';
+import { Copy, Plus, Upload } from 'lucide-react';
 import Link from 'next/link';
+import { getTranslations } from 'next-intl/server';
+import type { CustomFieldType } from '@prisma/client';
+import { BeneficiaryFilters } from '@/components/beneficiaries/beneficiary-filters';
+import { BeneficiaryTable } from '@/components/beneficiaries/beneficiary-table';
+import { Pagination } from '@/components/pagination';
+import { beneficiaryScope, userScope } from '@/lib/access';
+import { BENEFICIARY_PAGE_SIZE, listBeneficiaries, parseBeneficiaryListParams } from '@/lib/beneficiaries';
+import { requirePermission } from '@/lib/auth';
+import { getCustomFields } from '@/lib/custom-fields/definitions';
+import { hasPermission } from '@/lib/permissions';
+import { prisma } from '@/lib/prisma';
+import type { SearchParams } from '@/lib/utils';
 
-export default async function BeneficiariesPage() {
-  // TODO: Fetch beneficiaries from database with pagination
+// Numbers and dates can still be matched exactly through cf.<key> in the URL.
+const filterableTypes: CustomFieldType[] = ['SELECT', 'MULTI_SELECT', 'BOOLEAN', 'TEXT'];
+
+export default async function BeneficiariesPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const user = await requirePermission('beneficiary:read');
+  const query = await searchParams;
+  const params = parseBeneficiaryListParams(query);
+  const [t, customFields] = await Promise.all([getTranslations('beneficiaries'), getCustomFields('BENEFICIARY')]);
+
+  const [result, states, users] = await Promise.all([
+    listBeneficiaries(params, user, customFields),
+    prisma.beneficiary.findMany({
+      where: { AND: [{ state: { not: null } }, beneficiaryScope(user)] },
+      distinct: ['state'],
+      select: { state: true },
+      orderBy: { state: 'asc' },
+    }),
+    prisma.user.findMany({
+      where: userScope(user),
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  const isFiltered =
+    !!params.q ||
+    !!params.status ||
+    !!params.category ||
+    !!params.priority ||
+    !!params.state ||
+    !!params.assignedToId ||
+    params.tags.length > 0 ||
+    Object.keys(params.customFields).length > 0;
 
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Beneficiaries</h1>
-          <p className="text-muted-foreground">
-            Manage and view all beneficiaries in the system
-          </p>
+          <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+          <p className="text-muted-foreground">{t('description')}</p>
         </div>
-        <Button asChild>
-          <Link href="/beneficiaries/new">
-            <Plus className="mr-2 h-4 w-4" />
-            New Beneficiary
-          </Link>
-        </Button>
-      </div>
-
-      <Card>
-        <CardHeader>
-          <CardTitle>Beneficiary List</CardTitle>
-          <CardDescription>
-            All registered beneficiaries with search and filter options
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="text-center py-12">
-            <p className="text-muted-foreground mb-4">
-              No beneficiaries found. Get started by creating your first beneficiary.
-            </p>
+        <div className="flex gap-2">
+          {hasPermission(user.role, 'beneficiary:merge') && (
+            <Button asChild variant="outline">
+              <Link href="/beneficiaries/duplicates">
+                <Copy className="mr-2 h-4 w-4" />
+                {t('duplicates')}
+              </Link>
+            </Button>
+          )}
+          {hasPermission(user.role, 'beneficiary:import') && (
             <Button asChild variant="outline">
+              <Link href="/beneficiaries/import">
+                <Upload className="mr-2 h-4 w-4" />
+                {t('importCsv')}
+              </Link>
+            </Button>
+          )}
+          {hasPermission(user.role, 'beneficiary:create') && (
+            <Button asChild>
               <Link href="/beneficiaries/new">
                 <Plus className="mr-2 h-4 w-4" />
-                Create Beneficiary
+                {t('new')}
               </Link>
             </Button>
-          </div>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('listTitle')}</CardTitle>
+          <CardDescription>{t('listDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <BeneficiaryFilters
+            params={params}
+            states={states.map((s) => s.state).filter((s): s is string => !!s)}
+            users={users}
+            customFields={customFields.filter((field) => filterableTypes.includes(field.type))}
+          />
+
+          {result.total === 0 ? (
+            <div className="text-center py-12">
+              {isFiltered ? (
+                <p className="text-muted-foreground">{t('noMatches')}</p>
+              ) : (
+                <>
+                  <p className="text-muted-foreground mb-4">{t('empty')}</p>
+                  {hasPermission(user.role, 'beneficiary:create') && (
+                    <Button asChild variant="outline">
+                      <Link href="/beneficiaries/new">
+                        <Plus className="mr-2 h-4 w-4" />
+                        {t('create')}
+                      </Link>
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
+          ) : (
+            <>
+              <BeneficiaryTable items={result.items} params={params} searchParams={query} />
+              <Pagination
+                pathname="/beneficiaries"
+                searchParams={query}
+                page={result.page}
+                pageCount={result.pageCount}
+                total={result.total}
+                pageSize={BENEFICIARY_PAGE_SIZE}
+              />
+            </>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,227 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getLocale, getTranslations } from 'next-intl/server';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CaseAssignees } from '@/components/cases/case-assignees';
+import { CaseStatusControl } from '@/components/cases/case-status-control';
+import { CaseStatusHistory } from '@/components/cases/case-status-history';
+import { canAccessCase } from '@/lib/access';
+import { requirePermission } from '@/lib/auth';
+import { getAllowedTransitions, isTerminalCaseStatus } from '@/lib/case-workflow';
+import { getCaseStatusHistory } from '@/lib/cases';
+import { countryRules } from '@/lib/countries';
+import { getEnumLabel } from '@/lib/i18n/server';
+import { hasPermission, maskBeneficiary } from '@/lib/permissions';
+import { prisma } from '@/lib/prisma';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+export default async function CasePage({ params }: { params: Promise<{ id: string }> }) {
+  const user = await requirePermission('case:read');
+  const { id } = await params;
+
+  if (!(await canAccessCase(user, id))) {
+    notFound();
+  }
+
+  const canAssign = hasPermission(user.role, 'case:assign');
+  const [record, history, users] = await Promise.all([
+    prisma.case.findUnique({
+      where: { id },
+      include: {
+        beneficiary: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            idNumber: true,
+            phone: true,
+            category: true,
+            status: true,
+            city: true,
+            state: true,
+          },
+        },
+        createdBy: { select: { name: true } },
+        branch: { select: { country: true } },
+        assignedTo: { select: { id: true, name: true, role: true }, orderBy: { name: 'asc' } },
+        services: {
+          include: { providedBy: { select: { name: true } } },
+          orderBy: { date: 'desc' },
+        },
+      },
+    }),
+    getCaseStatusHistory(id),
+    canAssign
+      ? prisma.user.findMany({
+          where: { branch: { cases: { some: { id } } } },
+          select: { id: true, name: true, role: true },
+          orderBy: { name: 'asc' },
+        })
+      : null,
+  ]);
+
+  if (!record) {
+    notFound();
+  }
+
+  const currency = countryRules[record.branch.country].currency;
+  const beneficiary = maskBeneficiary(record.beneficiary, user.role);
+  const [t, tf, tc, locale, enumLabel] = await Promise.all([
+    getTranslations('cases.detail'),
+    getTranslations('cases.fields'),
+    getTranslations('common'),
+    getLocale(),
+    getEnumLabel(),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold tracking-tight">{record.title}</h1>
+        <div className="flex flex-wrap gap-2">
+          <Badge variant={isTerminalCaseStatus(record.status) ? 'secondary' : 'default'}>
+            {enumLabel(record.status)}
+          </Badge>
+          <Badge variant={record.priority === 'URGENT' ? 'destructive' : 'outline'}>
+            {t('priority', { priority: enumLabel(record.priority) })}
+          </Badge>
+          <Badge variant="outline">{enumLabel(record.type)}</Badge>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {tc.rich('forBeneficiary', {
+            name: `${beneficiary.firstName} ${beneficiary.lastName}`,
+            link: (chunks) => (
+              <Link href={`/beneficiaries/${beneficiary.id}`} className="font-medium text-foreground hover:underline">
+                {chunks}
+              </Link>
+            ),
+          })}{' '}
+          · {t('openedBy', { date: formatDate(record.createdAt, locale), name: record.createdBy.name })}
+          {record.resolvedAt && ` · ${t('resolvedOn', { date: formatDate(record.resolvedAt, locale) })}`}
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>{tf('description')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm whitespace-pre-line">{record.description}</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{tf('status')}</CardTitle>
+            <CardDescription>{t('statusDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CaseStatusControl
+              caseId={record.id}
+              status={record.status}
+              allowed={getAllowedTransitions(record.status, user.role)}
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle>{tf('beneficiary')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            <Link href={`/beneficiaries/${beneficiary.id}`} className="font-medium hover:underline">
+              {beneficiary.firstName} {beneficiary.lastName}
+            </Link>
+            <p className="text-muted-foreground">
+              {enumLabel(beneficiary.category)} · {enumLabel(beneficiary.status)}
+            </p>
+            {beneficiary.idNumber && <p>{beneficiary.idNumber}</p>}
+            {beneficiary.phone && <p>{beneficiary.phone}</p>}
+            {(beneficiary.city || beneficiary.state) && (
+              <p className="text-muted-foreground">{[beneficiary.city, beneficiary.state].filter(Boolean).join(', ')}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('assignedTo')}</CardTitle>
+            <CardDescription>{t('assignedToDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CaseAssignees caseId={record.id} assignees={record.assignedTo} users={users} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('services')}</CardTitle>
+            <CardDescription>{t('servicesLogged', { count: record.services.length })}</CardDescription>
+          </CardHeader>
+          <CardContent className="text-sm">
+            <p>
+              {t('totalCost')}{' '}
+              <span className="font-medium">
+                {formatCurrency(record.services.reduce((sum, service) => sum + Number(service.cost ?? 0), 0), currency)}
+              </span>
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {record.services.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('linkedServices')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('date')}</TableHead>
+                  <TableHead>{t('service')}</TableHead>
+                  <TableHead className="text-right">{t('quantity')}</TableHead>
+                  <TableHead className="text-right">{t('cost')}</TableHead>
+                  <TableHead className="hidden md:table-cell">{t('providedBy')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {record.services.map((service) => (
+                  <TableRow key={service.id}>
+                    <TableCell>{formatDate(service.date, locale)}</TableCell>
+                    <TableCell>
+                      {enumLabel(service.type)}
+                      {service.description && (
+                        <p className="text-xs text-muted-foreground line-clamp-1">{service.description}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{service.quantity ?? '—'}</TableCell>
+                    <TableCell className="text-right">
+                      {service.cost ? formatCurrency(Number(service.cost), currency) : '—'}
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell">{service.providedBy.name}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('history')}</CardTitle>
+          <CardDescription>{t('historyDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CaseStatusHistory entries={history} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { canAccessBeneficiary, canAccessCase } from '@/lib/access';
+import { requirePermission } from '@/lib/auth';
+import { addCaseAssignee, CaseTransitionError, openCase, removeCaseAssignee, transitionCaseStatus } from '@/lib/cases';
+import { prisma } from '@/lib/prisma';
+import { caseSchema, caseStatusChangeSchema } from '@/lib/validation';
+import { actionFailure, localizedFailure, validationFailure, type ActionResult } from '@/lib/actions';
+
+export async function createCase(input: unknown): Promise<ActionResult<{ id: string }>> {
+  const user = await requirePermission('case:create');
+
+  const parsed = caseSchema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+  if (!(await canAccessBeneficiary(user, parsed.data.beneficiaryId))) {
+    throw new Error('Forbidden');
+  }
+
+  const created = await openCase(parsed.data, user);
+
+  revalidatePath('/cases');
+  revalidatePath(`/beneficiaries/${parsed.data.beneficiaryId}`);
+  revalidatePath('/dashboard');
+  return { success: true, data: { id: created.id } };
+}
+
+export async function changeCaseStatus(caseId: string, input: unknown): Promise<ActionResult<{ status: string }>> {
+  const user = await requirePermission('case:update');
+  if (!(await canAccessCase(user, caseId))) {
+    throw new Error('Forbidden');
+  }
+
+  const parsed = caseStatusChangeSchema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  try {
+    await transitionCaseStatus(caseId, parsed.data.status, parsed.data.reason, user);
+  } catch (error) {
+    if (error instanceof CaseTransitionError) {
+      return localizedFailure(error);
+    }
+    throw error;
+  }
+
+  const { beneficiaryId } = await prisma.case.findUniqueOrThrow({
+    where: { id: caseId },
+    select: { beneficiaryId: true },
+  });
+
+  revalidatePath('/cases');
+  revalidatePath(`/cases/${caseId}`);
+  revalidatePath(`/beneficiaries/${beneficiaryId}`);
+  revalidatePath('/dashboard');
+  return { success: true, data: { status: parsed.data.status } };
+}
+
+export async function addAssignee(caseId: string, userId: string): Promise<ActionResult> {
+  const user = await requirePermission('case:assign');
+  if (!(await canAccessCase(user, caseId))) {
+    throw new Error('Forbidden');
+  }
+
+  // Assignees work in the case's branch.
+  const assignee = await prisma.user.findFirst({
+    where: { id: userId, branch: { cases: { some: { id: caseId } } } },
+    select: { id: true },
+  });
+  if (!assignee) {
+    return actionFailure('userNotFound');
+  }
+
+  await addCaseAssignee(caseId, assignee.id, user);
+  revalidatePath('/cases');
+  revalidatePath(`/cases/${caseId}`);
+  return { success: true, data: undefined };
+}
+
+export async function removeAssignee(caseId: string, userId: string): Promise<ActionResult> {
+  const user = await requirePermission('case:assign');
+  if (!(await canAccessCase(user, caseId))) {
+    throw new Error('Forbidden');
+  }
+
+  await removeCaseAssignee(caseId, userId);
+  revalidatePath('/cases');
+  revalidatePath(`/cases/${caseId}`);
+  return { success: true, data: undefined };
+}
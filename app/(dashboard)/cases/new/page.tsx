@@ -0,0 +1,95 @@
+import Link from 'next/link';
+import { getTranslations } from 'next-intl/server';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { BeneficiaryChooser } from '@/components/beneficiaries/beneficiary-chooser';
+import { CaseForm } from '@/components/cases/case-form';
+import { canAccessBeneficiary } from '@/lib/access';
+import { requirePermission } from '@/lib/auth';
+import { listBeneficiaries, parseBeneficiaryListParams } from '@/lib/beneficiaries';
+import { getEnumLabel } from '@/lib/i18n/server';
+import { hasPermission } from '@/lib/permissions';
+import { prisma } from '@/lib/prisma';
+import { firstParam, type SearchParams } from '@/lib/utils';
+
+// Cases always belong to a beneficiary, so this page is normally reached from
+// a beneficiary's profile. Without one it asks which beneficiary first.
+export default async function NewCasePage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const user = await requirePermission('case:create');
+  const query = await searchParams;
+  const beneficiaryId = firstParam(query.beneficiaryId);
+  const t = await getTranslations('cases');
+
+  const beneficiary =
+    beneficiaryId && (await canAccessBeneficiary(user, beneficiaryId))
+      ? await prisma.beneficiary.findUnique({
+          where: { id: beneficiaryId },
+          select: { id: true, firstName: true, lastName: true, category: true, priority: true, branchId: true },
+        })
+      : null;
+
+  if (!beneficiary) {
+    const q = firstParam(query.q);
+    const matches = q ? await listBeneficiaries(parseBeneficiaryListParams({ q }), user) : null;
+
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{t('new')}</h1>
+          <p className="text-muted-foreground">{t('chooseBeneficiary')}</p>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <BeneficiaryChooser
+              q={q}
+              matches={matches?.items ?? null}
+              hrefFor={(id) => `/cases/new?beneficiaryId=${id}`}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const assignableUsers = hasPermission(user.role, 'case:assign')
+    ? await prisma.user.findMany({
+        where: { branchId: beneficiary.branchId },
+        select: { id: true, name: true, role: true },
+        orderBy: { name: 'asc' },
+      })
+    : null;
+  const [tc, enumLabel] = await Promise.all([getTranslations('common'), getEnumLabel()]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{t('new')}</h1>
+        <p className="text-muted-foreground">
+          {tc.rich('forBeneficiary', {
+            name: `${beneficiary.firstName} ${beneficiary.lastName}`,
+            link: (chunks) => (
+              <Link href={`/beneficiaries/${beneficiary.id}`} className="font-medium text-foreground hover:underline">
+                {chunks}
+              </Link>
+            ),
+          })}{' '}
+          · {enumLabel(beneficiary.category)}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('formTitle')}</CardTitle>
+          <CardDescription>{t('formDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CaseForm
+            beneficiaryId={beneficiary.id}
+            defaultPriority={beneficiary.priority}
+            assignableUsers={assignableUsers}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
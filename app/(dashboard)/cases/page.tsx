@@ -1,39 +1,81 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Plus } from 'lucide-react';
+import { Plus, UserCheck } from 'lucide-react';
 import Link from 'next/link';
+import { getTranslations } from 'next-intl/server';
+import { CaseFilters } from '@/components/cases/case-filters';
+import { CaseTable } from '@/components/cases/case-table';
+import { Pagination } from '@/components/pagination';
+import { requirePermission } from '@/lib/auth';
+import { CASE_PAGE_SIZE, listCases, parseCaseListParams } from '@/lib/cases';
+import { hasPermission, isRecordScoped } from '@/lib/permissions';
+import type { SearchParams } from '@/lib/utils';
+
+export default async function CasesPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const user = await requirePermission('case:read');
+  const query = await searchParams;
+  const params = parseCaseListParams(query);
+  const result = await listCases(params, user);
+  const t = await getTranslations('cases');
+
+  const isFiltered = !!params.q || !!params.status || !!params.type || !!params.priority || !!params.assigned;
 
-export default async function CasesPage() {
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Cases</h1>
-          <p className="text-muted-foreground">
-            Manage and track all beneficiary cases
-          </p>
+          <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+          <p className="text-muted-foreground">{t('description')}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button asChild variant="outline">
+            <Link href="/cases?assigned=me">
+              <UserCheck className="mr-2 h-4 w-4" />
+              {t('assignedToMe')}
+            </Link>
+          </Button>
+          {hasPermission(user.role, 'case:create') && (
+            <Button asChild>
+              <Link href="/cases/new">
+                <Plus className="mr-2 h-4 w-4" />
+                {t('new')}
+              </Link>
+            </Button>
+          )}
         </div>
-        <Button asChild>
-          <Link href="/cases/new">
-            <Plus className="mr-2 h-4 w-4" />
-            New Case
-          </Link>
-        </Button>
       </div>
 
       <Card>
         <CardHeader>
-          <CardTitle>Case List</CardTitle>
-          <CardDescription>
-            All cases with status tracking and assignment
-          </CardDescription>
+          <CardTitle>{t('listTitle')}</CardTitle>
+          <CardDescription>{t('listDescription')}</CardDescription>
         </CardHeader>
-        <CardContent>
-          <div className="text-center py-12">
-            <p className="text-muted-foreground">
-              No cases found. Cases will appear here once created.
-            </p>
-          </div>
+        <CardContent className="space-y-4">
+          <CaseFilters params={params} showUnassigned={!isRecordScoped(user.role)} />
+
+          {result.total === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">
+                {isFiltered ? t('noMatches') : t('empty')}
+              </p>
+            </div>
+          ) : (
+            <>
+              <CaseTable items={result.items} />
+              <Pagination
+                pathname="/cases"
+                searchParams={query}
+                page={result.page}
+                pageCount={result.pageCount}
+                total={result.total}
+                pageSize={CASE_PAGE_SIZE}
+              />
+            </>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -1,109 +1,204 @@
+import Link from 'next/link';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
 import { Users, FileText, HeartHandshake, TrendingUp } from 'lucide-react';
+import { BreakdownChart } from '@/components/dashboard/breakdown-chart';
+import { RecentActivity } from '@/components/dashboard/recent-activity';
+import { TrendChart } from '@/components/dashboard/trend-chart';
+import { getFormatter, getLocale, getTranslations } from 'next-intl/server';
+import { requireAuth } from '@/lib/auth';
+import { getDashboardMetrics, getRecentActivity, OTHER_STATES, percentChange } from '@/lib/dashboard';
+import { getEnumLabel } from '@/lib/i18n/server';
+import { hasPermission } from '@/lib/permissions';
+import { formatDateTime } from '@/lib/utils';
+
+function formatChange(change: number | null): string {
+  if (change === null) return '—';
+  return `${change > 0 ? '+' : ''}${change}%`;
+}
 
 export default async function DashboardPage() {
-  // TODO: Fetch actual data from database
-  const stats = {
-    totalBeneficiaries: 0,
-    activeCases: 0,
-    servicesThisMonth: 0,
-    newBeneficiariesThisWeek: 0,
-  };
+  const user = await requireAuth();
+  const [stats, activity] = await Promise.all([getDashboardMetrics(user), getRecentActivity(user)]);
+  const [t, format, locale, enumLabel] = await Promise.all([
+    getTranslations('dashboard'),
+    getFormatter(),
+    getLocale(),
+    getEnumLabel(),
+  ]);
+
+  const byType = stats.servicesThisMonthByType.map((item) => ({ label: enumLabel(item.key ?? ''), value: item.value }));
+  const byCategory = stats.byCategory.map((item) => ({ label: enumLabel(item.key ?? ''), value: item.value }));
+  const byState = stats.byState.map((item) => ({
+    label: item.key === null ? t('stateNotRecorded') : item.key === OTHER_STATES ? t('otherStates') : item.key,
+    value: item.value,
+  }));
+
+  const beneficiaryGrowth = percentChange(stats.newBeneficiariesThisMonth, stats.newBeneficiariesLastMonth);
+  const serviceGrowth = percentChange(stats.servicesThisMonth, stats.servicesLastMonth);
+  const topServiceTypes = byType.slice(0, 2);
 
   return (
     <div className="space-y-6">
       <div>
-        <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
-        <p className="text-muted-foreground">
-          Welcome to MyFundAction Beneficiary Management System
-        </p>
+        <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+        <p className="text-muted-foreground">{t('welcome')}</p>
       </div>
 
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">
-              Total Beneficiaries
-            </CardTitle>
+            <CardTitle className="text-sm font-medium">{t('totalBeneficiaries')}</CardTitle>
             <Users className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.totalBeneficiaries}</div>
+            <div className="text-2xl font-bold">{format.number(stats.totalBeneficiaries)}</div>
             <p className="text-xs text-muted-foreground">
-              +{stats.newBeneficiariesThisWeek} this week
+              {t('newThisMonth', { count: stats.newBeneficiariesThisMonth })}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">
-              Active Cases
-            </CardTitle>
+            <CardTitle className="text-sm font-medium">{t('activeCases')}</CardTitle>
             <FileText className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.activeCases}</div>
-            <p className="text-xs text-muted-foreground">
-              Pending resolution
-            </p>
+            <div className="text-2xl font-bold">{format.number(stats.activeCases)}</div>
+            <p className="text-xs text-muted-foreground">{t('activeCasesHint')}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">
-              Services This Month
-            </CardTitle>
+            <CardTitle className="text-sm font-medium">{t('servicesThisMonth')}</CardTitle>
             <HeartHandshake className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.servicesThisMonth}</div>
+            <div className="text-2xl font-bold">{format.number(stats.servicesThisMonth)}</div>
             <p className="text-xs text-muted-foreground">
-              Across all types
+              {topServiceTypes.length > 0
+                ? topServiceTypes.map((item) => `${item.label} ${item.value}`).join(' · ')
+                : t('noneLoggedYet')}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">
-              Growth Rate
-            </CardTitle>
+            <CardTitle className="text-sm font-medium">{t('growthRate')}</CardTitle>
             <TrendingUp className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">+0%</div>
+            <div className="text-2xl font-bold">{formatChange(beneficiaryGrowth)}</div>
             <p className="text-xs text-muted-foreground">
-              From last month
+              {t('growthHint', { services: formatChange(serviceGrowth) })}
             </p>
           </CardContent>
         </Card>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('trends')}</CardTitle>
+          <CardDescription>{t('trendsDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-6 md:grid-cols-3">
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">{t('newBeneficiaries')}</h3>
+            <TrendChart points={stats.trends.beneficiaries} label={t('newBeneficiariesPerMonth')} />
+          </div>
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">{t('casesOpened')}</h3>
+            <TrendChart points={stats.trends.cases} label={t('casesOpenedPerMonth')} />
+          </div>
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">{t('servicesDelivered')}</h3>
+            <TrendChart points={stats.trends.services} label={t('servicesDeliveredPerMonth')} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('servicesThisMonth')}</CardTitle>
+            <CardDescription>{t('byServiceType')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <BreakdownChart items={byType} emptyMessage={t('noServicesThisMonth')} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('byCategory')}</CardTitle>
+            <CardDescription>{t('byCategoryDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <BreakdownChart items={byCategory} emptyMessage={t('noBeneficiaries')} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('byState')}</CardTitle>
+            <CardDescription>{t('byStateDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <BreakdownChart items={byState} emptyMessage={t('noBeneficiaries')} />
+          </CardContent>
+        </Card>
+      </div>
+
       <div className="grid gap-4 md:grid-cols-2">
         <Card>
           <CardHeader>
-            <CardTitle>Recent Activity</CardTitle>
-            <CardDescription>Latest beneficiary registrations and case updates</CardDescription>
+            <CardTitle>{t('recentActivity')}</CardTitle>
+            <CardDescription>{t('recentActivityDescription')}</CardDescription>
           </CardHeader>
           <CardContent>
-            <p className="text-sm text-muted-foreground">No recent activity</p>
+            <RecentActivity items={activity} />
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader>
-            <CardTitle>Quick Actions</CardTitle>
-            <CardDescription>Common tasks and shortcuts</CardDescription>
+            <CardTitle>{t('quickActions')}</CardTitle>
+            <CardDescription>{t('quickActionsDescription')}</CardDescription>
           </CardHeader>
-          <CardContent className="space-y-2">
-            <p className="text-sm text-muted-foreground">
-              Use the navigation menu to get started
-            </p>
+          <CardContent className="flex flex-wrap gap-2">
+            {hasPermission(user.role, 'beneficiary:create') && (
+              <Button asChild variant="outline" size="sm">
+                <Link href="/beneficiaries/new">{t('registerBeneficiary')}</Link>
+              </Button>
+            )}
+            {hasPermission(user.role, 'case:create') && (
+              <Button asChild variant="outline" size="sm">
+                <Link href="/cases/new">{t('openCase')}</Link>
+              </Button>
+            )}
+            {hasPermission(user.role, 'service:create') && (
+              <>
+                <Button asChild variant="outline" size="sm">
+                  <Link href="/services/new">{t('logService')}</Link>
+                </Button>
+                <Button asChild variant="outline" size="sm">
+                  <Link href="/services/new?mode=event">{t('distributionEvent')}</Link>
+                </Button>
+              </>
+            )}
+            <Button asChild variant="outline" size="sm">
+              <Link href="/cases?assigned=me">{t('myCases')}</Link>
+            </Button>
           </CardContent>
         </Card>
       </div>
+
+      <p className="text-xs text-muted-foreground">
+        {t('figuresAsOf', { time: formatDateTime(stats.generatedAt, locale) })}
+      </p>
     </div>
   );
 }
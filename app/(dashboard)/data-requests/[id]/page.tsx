@@ -0,0 +1,183 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { Download } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { getLocale, getTranslations } from 'next-intl/server';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CompleteRequestButton } from '@/components/data-requests/complete-request-button';
+import { DataRequestStatusBadge } from '@/components/data-requests/data-request-status-badge';
+import { EraseBeneficiaryControl } from '@/components/data-requests/erase-beneficiary-control';
+import { ReviewControl } from '@/components/data-requests/review-control';
+import type { Actor } from '@/lib/access';
+import { requirePermission } from '@/lib/auth';
+import { getDataRequest, isDataRequestOverdue, type DataRequestDetail } from '@/lib/data-requests/requests';
+import { getEnumLabel } from '@/lib/i18n/server';
+import { hasPermission } from '@/lib/permissions';
+import { formatDate, formatDateTime } from '@/lib/utils';
+
+const exportFormats = [
+  { value: 'json', label: 'JSON' },
+  { value: 'pdf', label: 'PDF' },
+];
+
+// What happens next, for whoever is looking at the request.
+function NextStep({ request, user }: { request: DataRequestDetail; user: Actor }) {
+  const t = useTranslations('dataRequests.nextStep');
+  const beneficiary = request.beneficiary;
+
+  if (request.status === 'PENDING') {
+    if (request.requestedById === user.id) {
+      return <p className="text-sm text-muted-foreground">{t('awaitingOtherReview')}</p>;
+    }
+    if (!hasPermission(user.role, 'data_request:approve')) {
+      return <p className="text-sm text-muted-foreground">{t('awaitingReview')}</p>;
+    }
+    return <ReviewControl requestId={request.id} />;
+  }
+
+  if (request.status === 'REJECTED') {
+    return <p className="text-sm text-muted-foreground">{t('rejected')}</p>;
+  }
+
+  if (!beneficiary) {
+    return <p className="text-sm text-muted-foreground">{t('beneficiaryDeleted')}</p>;
+  }
+
+  if (request.type === 'ACCESS') {
+    if (beneficiary.anonymizedAt) {
+      return <p className="text-sm text-muted-foreground">{t('beneficiaryErased')}</p>;
+    }
+    return (
+      <div className="space-y-4">
+        {hasPermission(user.role, 'export') ? (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {t('exportDescription', { name: `${beneficiary.firstName} ${beneficiary.lastName}` })}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {exportFormats.map((format) => (
+                <Button key={format.value} asChild variant="outline" size="sm">
+                  <a href={`/api/data-requests/${request.id}/export?format=${format.value}`}>
+                    <Download className="mr-2 h-4 w-4" />
+                    {format.label}
+                  </a>
+                </Button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">{t('noExportPermission')}</p>
+        )}
+        {request.status === 'APPROVED' && <CompleteRequestButton requestId={request.id} />}
+      </div>
+    );
+  }
+
+  if (request.status === 'APPROVED') {
+    return (
+      <EraseBeneficiaryControl
+        requestId={request.id}
+        beneficiaryName={`${beneficiary.firstName} ${beneficiary.lastName}`}
+      />
+    );
+  }
+  return <p className="text-sm text-muted-foreground">{t('erased')}</p>;
+}
+
+export default async function DataRequestPage({ params }: { params: Promise<{ id: string }> }) {
+  const user = await requirePermission('data_request:manage');
+  const { id } = await params;
+
+  const request = await getDataRequest(id, user);
+  if (!request) {
+    notFound();
+  }
+
+  const beneficiary = request.beneficiary;
+  const overdue = isDataRequestOverdue(request);
+  const [t, locale, enumLabel] = await Promise.all([getTranslations('dataRequests'), getLocale(), getEnumLabel()]);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold tracking-tight">{t('detailTitle', { type: enumLabel(request.type) })}</h1>
+        <div className="flex flex-wrap gap-2">
+          <DataRequestStatusBadge status={request.status} />
+          {overdue && <Badge variant="destructive">{t('overdue')}</Badge>}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {beneficiary
+            ? t.rich('forBeneficiary', {
+                name: `${beneficiary.firstName} ${beneficiary.lastName}`,
+                link: (chunks) => (
+                  <Link href={`/beneficiaries/${beneficiary.id}`} className="font-medium text-foreground hover:underline">
+                    {chunks}
+                  </Link>
+                ),
+              })
+            : t('forDeletedBeneficiary')}{' '}
+          · {t('receivedOn', { date: formatDate(request.receivedAt, locale) })} ·{' '}
+          {t('dueOn', { date: formatDate(request.dueAt, locale) })}
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>{t('nextStep.title')}</CardTitle>
+            <CardDescription>
+              {request.type === 'ACCESS' ? t('nextStep.accessDescription') : t('nextStep.erasureDescription')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <NextStep request={request} user={user} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('history.title')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div>
+              <p className="font-medium">{t('history.logged')}</p>
+              <p className="text-muted-foreground">
+                {t('history.at', { time: formatDateTime(request.createdAt, locale), name: request.requestedBy.name })}
+              </p>
+            </div>
+            {request.reviewedAt && request.reviewedBy && (
+              <div>
+                <p className="font-medium">{enumLabel(request.status === 'REJECTED' ? 'REJECTED' : 'APPROVED')}</p>
+                <p className="text-muted-foreground">
+                  {t('history.at', { time: formatDateTime(request.reviewedAt, locale), name: request.reviewedBy.name })}
+                </p>
+                {request.reviewNote && <p className="whitespace-pre-line">{request.reviewNote}</p>}
+              </div>
+            )}
+            {request.completedAt && request.completedBy && (
+              <div>
+                <p className="font-medium">{enumLabel('COMPLETED')}</p>
+                <p className="text-muted-foreground">
+                  {t('history.at', { time: formatDateTime(request.completedAt, locale), name: request.completedBy.name })}
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {request.details && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('details')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm whitespace-pre-line">{request.details}</p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
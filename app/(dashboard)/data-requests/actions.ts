@@ -0,0 +1,93 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requirePermission } from '@/lib/auth';
+import { carryOutErasure, type ErasureSummary } from '@/lib/data-requests/erasure';
+import {
+  completeAccessRequest,
+  createDataRequest,
+  DataRequestError,
+  reviewDataRequest,
+} from '@/lib/data-requests/requests';
+import { dataRequestReviewSchema, dataRequestSchema } from '@/lib/validation';
+import { localizedFailure, validationFailure, type ActionResult } from '@/lib/actions';
+
+function revalidateRequest(id: string, beneficiaryId?: string | null) {
+  revalidatePath('/data-requests');
+  revalidatePath(`/data-requests/${id}`);
+  if (beneficiaryId) revalidatePath(`/beneficiaries/${beneficiaryId}`);
+}
+
+export async function logDataRequest(input: unknown): Promise<ActionResult<{ id: string }>> {
+  const user = await requirePermission('data_request:manage');
+
+  const parsed = dataRequestSchema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  try {
+    const request = await createDataRequest(parsed.data, user);
+    revalidateRequest(request.id, parsed.data.beneficiaryId);
+    return { success: true, data: request };
+  } catch (error) {
+    if (error instanceof DataRequestError) {
+      return localizedFailure(error);
+    }
+    throw error;
+  }
+}
+
+export async function reviewRequest(id: string, input: unknown): Promise<ActionResult> {
+  const user = await requirePermission('data_request:approve');
+
+  const parsed = dataRequestReviewSchema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  try {
+    await reviewDataRequest(id, parsed.data, user);
+  } catch (error) {
+    if (error instanceof DataRequestError) {
+      return localizedFailure(error);
+    }
+    throw error;
+  }
+
+  revalidateRequest(id);
+  return { success: true, data: undefined };
+}
+
+export async function completeRequest(id: string): Promise<ActionResult> {
+  const user = await requirePermission('data_request:manage');
+
+  try {
+    await completeAccessRequest(id, user);
+  } catch (error) {
+    if (error instanceof DataRequestError) {
+      return localizedFailure(error);
+    }
+    throw error;
+  }
+
+  revalidateRequest(id);
+  return { success: true, data: undefined };
+}
+
+export async function eraseBeneficiary(id: string): Promise<ActionResult<ErasureSummary>> {
+  const user = await requirePermission('data_request:manage');
+
+  try {
+    const { beneficiaryId, ...summary } = await carryOutErasure(id, user);
+    revalidateRequest(id, beneficiaryId);
+    revalidatePath('/beneficiaries');
+    revalidatePath('/dashboard');
+    return { success: true, data: summary };
+  } catch (error) {
+    if (error instanceof DataRequestError) {
+      return localizedFailure(error);
+    }
+    throw error;
+  }
+}
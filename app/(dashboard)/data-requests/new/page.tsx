@@ -0,0 +1,84 @@
+import Link from 'next/link';
+import { getTranslations } from 'next-intl/server';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { BeneficiaryChooser } from '@/components/beneficiaries/beneficiary-chooser';
+import { DataRequestForm } from '@/components/data-requests/data-request-form';
+import { canAccessBeneficiary } from '@/lib/access';
+import { requirePermission } from '@/lib/auth';
+import { listBeneficiaries, parseBeneficiaryListParams } from '@/lib/beneficiaries';
+import { DATA_REQUEST_DEADLINE_DAYS } from '@/lib/data-requests/requests';
+import { getEnumLabel } from '@/lib/i18n/server';
+import { prisma } from '@/lib/prisma';
+import { firstParam, type SearchParams } from '@/lib/utils';
+
+export default async function NewDataRequestPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const user = await requirePermission('data_request:manage');
+  const query = await searchParams;
+  const beneficiaryId = firstParam(query.beneficiaryId);
+  const [t, tc, enumLabel] = await Promise.all([
+    getTranslations('dataRequests.new'),
+    getTranslations('common'),
+    getEnumLabel(),
+  ]);
+
+  const beneficiary =
+    beneficiaryId && (await canAccessBeneficiary(user, beneficiaryId))
+      ? await prisma.beneficiary.findFirst({
+          where: { id: beneficiaryId, anonymizedAt: null },
+          select: { id: true, firstName: true, lastName: true, category: true },
+        })
+      : null;
+
+  if (!beneficiary) {
+    const q = firstParam(query.q);
+    const matches = q ? await listBeneficiaries(parseBeneficiaryListParams({ q }), user) : null;
+
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+          <p className="text-muted-foreground">{t('chooseBeneficiary')}</p>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <BeneficiaryChooser
+              q={q}
+              matches={matches?.items ?? null}
+              hrefFor={(id) => `/data-requests/new?beneficiaryId=${id}`}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+        <p className="text-muted-foreground">
+          {tc.rich('forBeneficiary', {
+            name: `${beneficiary.firstName} ${beneficiary.lastName}`,
+            link: (chunks) => (
+              <Link href={`/beneficiaries/${beneficiary.id}`} className="font-medium text-foreground hover:underline">
+                {chunks}
+              </Link>
+            ),
+          })}{' '}
+          · {enumLabel(beneficiary.category)}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('formTitle')}</CardTitle>
+          <CardDescription>{t('formDescription', { days: DATA_REQUEST_DEADLINE_DAYS })}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DataRequestForm beneficiaryId={beneficiary.id} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
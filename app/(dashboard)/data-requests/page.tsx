@@ -0,0 +1,122 @@
+import Link from 'next/link';
+import { Plus } from 'lucide-react';
+import { getLocale, getTranslations } from 'next-intl/server';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Pagination } from '@/components/pagination';
+import { DataRequestStatusBadge } from '@/components/data-requests/data-request-status-badge';
+import { requirePermission } from '@/lib/auth';
+import {
+  DATA_REQUEST_DEADLINE_DAYS,
+  DATA_REQUEST_PAGE_SIZE,
+  dataRequestStatusFilters,
+  isDataRequestOverdue,
+  listDataRequests,
+  parseDataRequestListParams,
+} from '@/lib/data-requests/requests';
+import { getEnumLabel } from '@/lib/i18n/server';
+import { buildHref, cn, formatDate, type SearchParams } from '@/lib/utils';
+
+export default async function DataRequestsPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const user = await requirePermission('data_request:manage');
+
+  const query = await searchParams;
+  const params = parseDataRequestListParams(query);
+  const result = await listDataRequests(params, user);
+  const now = new Date();
+  const [t, locale, enumLabel] = await Promise.all([getTranslations('dataRequests'), getLocale(), getEnumLabel()]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+          <p className="text-muted-foreground">{t('description', { days: DATA_REQUEST_DEADLINE_DAYS })}</p>
+        </div>
+        <Button asChild>
+          <Link href="/data-requests/new">
+            <Plus className="mr-2 h-4 w-4" />
+            {t('logRequest')}
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('requests')}</CardTitle>
+          <CardDescription>{params.status === 'open' ? t('openOrder') : t('newestFirst')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {dataRequestStatusFilters.map((status) => (
+              <Button key={status} asChild size="sm" variant={params.status === status ? 'default' : 'outline'}>
+                <Link href={buildHref('/data-requests', query, { status: status === 'open' ? undefined : status, page: undefined })}>
+                  {t(`statusFilters.${status}`)}
+                </Link>
+              </Button>
+            ))}
+          </div>
+
+          {result.total === 0 ? (
+            <p className="py-12 text-center text-muted-foreground">{t('noRequests')}</p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('beneficiary')}</TableHead>
+                    <TableHead>{t('type')}</TableHead>
+                    <TableHead>{t('status')}</TableHead>
+                    <TableHead>{t('due')}</TableHead>
+                    <TableHead className="hidden md:table-cell">{t('received')}</TableHead>
+                    <TableHead className="hidden md:table-cell">{t('loggedBy')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.items.map((request) => {
+                    const overdue = isDataRequestOverdue(request, now);
+                    return (
+                      <TableRow key={request.id}>
+                        <TableCell>
+                          <Link href={`/data-requests/${request.id}`} className="font-medium hover:underline">
+                            {request.beneficiary
+                              ? `${request.beneficiary.firstName} ${request.beneficiary.lastName}`
+                              : t('deletedBeneficiary')}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{enumLabel(request.type)}</TableCell>
+                        <TableCell>
+                          <DataRequestStatusBadge status={request.status} />
+                        </TableCell>
+                        <TableCell>
+                          <span className={cn(overdue && 'font-medium text-destructive')}>{formatDate(request.dueAt, locale)}</span>
+                          {overdue && (
+                            <Badge variant="destructive" className="ml-2">
+                              {t('overdue')}
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="hidden md:table-cell">{formatDate(request.receivedAt, locale)}</TableCell>
+                        <TableCell className="hidden md:table-cell">{request.requestedBy.name}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              <Pagination
+                pathname="/data-requests"
+                searchParams={query}
+                page={result.page}
+                pageCount={result.pageCount}
+                total={result.total}
+                pageSize={DATA_REQUEST_PAGE_SIZE}
+              />
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
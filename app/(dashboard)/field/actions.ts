@@ -0,0 +1,51 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requirePermission } from '@/lib/auth';
+import { resolveBranch } from '@/lib/branches';
+import { getCustomFields } from '@/lib/custom-fields/definitions';
+import { syncBeneficiary, syncService, type SyncOutcome } from '@/lib/offline/sync';
+import { beneficiarySchemaFor, offlineServiceSchema, offlineSubmissionSchema } from '@/lib/validation';
+import { actionFailure, describeValidationError, validationFailure, type ActionResult } from '@/lib/actions';
+
+// Saves one submission from a device's offline queue. Validation failures come
+// back like any form's; a conflict is a successful reply the worker resolves.
+export async function syncSubmission(input: unknown): Promise<ActionResult<SyncOutcome>> {
+  const envelope = offlineSubmissionSchema.safeParse(input);
+  if (!envelope.success) {
+    return { success: false, error: await describeValidationError(envelope.error) };
+  }
+  const { clientId, kind, payload } = envelope.data;
+
+  if (kind === 'beneficiary') {
+    const user = await requirePermission('beneficiary:create');
+    const branch = await resolveBranch(user, payload);
+    if (!branch) {
+      return actionFailure('branchNotFound');
+    }
+    const parsed = beneficiarySchemaFor(branch.country, await getCustomFields('BENEFICIARY')).safeParse(payload);
+    if (!parsed.success) {
+      return validationFailure(parsed.error);
+    }
+
+    const outcome = await syncBeneficiary(clientId, parsed.data, branch.id, user);
+    if (outcome.status === 'synced') {
+      revalidatePath('/beneficiaries');
+      revalidatePath('/dashboard');
+    }
+    return { success: true, data: outcome };
+  }
+
+  const user = await requirePermission('service:create');
+  const parsed = offlineServiceSchema.safeParse(payload);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  const outcome = await syncService(clientId, parsed.data, user);
+  if (outcome.status === 'synced') {
+    revalidatePath('/services');
+    revalidatePath('/dashboard');
+  }
+  return { success: true, data: outcome };
+}
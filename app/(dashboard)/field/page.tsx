@@ -0,0 +1,33 @@
+import { getTranslations } from 'next-intl/server';
+import { FieldCapture } from '@/components/offline/field-capture';
+import { requirePermission } from '@/lib/auth';
+import { getCustomFields } from '@/lib/custom-fields/definitions';
+import { hasPermission } from '@/lib/permissions';
+import { prisma } from '@/lib/prisma';
+
+// Kept by the service worker so it opens without signal (see public/sw.js);
+// nothing here may depend on data fetched for the request beyond who the user
+// is, which branch they work in and the custom fields admins have set up. A
+// field added since the page was cached is asked for when the record syncs.
+export default async function FieldCapturePage() {
+  const user = await requirePermission('service:create');
+  const [t, branch, customFields] = await Promise.all([
+    getTranslations('field'),
+    prisma.branch.findUniqueOrThrow({ where: { id: user.branchId }, select: { country: true } }),
+    getCustomFields('BENEFICIARY'),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+        <p className="text-muted-foreground">{t('description')}</p>
+      </div>
+      <FieldCapture
+        canRegister={hasPermission(user.role, 'beneficiary:create')}
+        country={branch.country}
+        customFields={customFields}
+      />
+    </div>
+  );
+}
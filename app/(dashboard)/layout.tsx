@@ -1,20 +1,30 @@
-import { Navigation } from '@/components/nav';
+import { MobileNavigation, Navigation } from '@/components/nav';
+import { OfflineSync } from '@/components/offline/offline-sync';
+import { getCurrentUser } from '@/lib/auth';
+import { countUnreadNotifications } from '@/lib/notifications/inbox';
 
-export default function DashboardLayout({
+export default async function DashboardLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
+  const user = await getCurrentUser();
+  const unreadNotifications = user ? await countUnreadNotifications(user.id) : 0;
+
   return (
-    <div className="flex h-screen">
-      <aside className="w-64 border-r bg-card">
-        <Navigation />
+    <div className="flex h-screen flex-col md:flex-row">
+      <aside className="hidden w-64 border-r bg-card md:block">
+        <Navigation role={user?.role} unreadNotifications={unreadNotifications} />
       </aside>
+      <header className="md:hidden">
+        <MobileNavigation role={user?.role} unreadNotifications={unreadNotifications} />
+      </header>
       <main className="flex-1 overflow-y-auto">
-        <div className="container mx-auto p-6">
+        <div className="container mx-auto p-4 md:p-6">
           {children}
         </div>
       </main>
+      <OfflineSync userId={user?.id ?? null} />
     </div>
   );
 }
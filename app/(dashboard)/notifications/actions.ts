@@ -0,0 +1,36 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth';
+import { countUnreadNotifications, markNotificationsRead } from '@/lib/notifications/inbox';
+import { describeValidationError, type ActionResult } from '@/lib/actions';
+
+const idsSchema = z.array(z.string().max(50)).max(100);
+
+// Polled by the bell in the navigation.
+export async function getUnreadCount(): Promise<number> {
+  const user = await requireAuth();
+  return countUnreadNotifications(user.id);
+}
+
+export async function markRead(ids: unknown): Promise<ActionResult> {
+  const user = await requireAuth();
+
+  const parsed = idsSchema.safeParse(ids);
+  if (!parsed.success) {
+    return { success: false, error: await describeValidationError(parsed.error) };
+  }
+
+  await markNotificationsRead(user.id, parsed.data);
+  revalidatePath('/notifications');
+  return { success: true, data: undefined };
+}
+
+export async function markAllRead(): Promise<ActionResult> {
+  const user = await requireAuth();
+
+  await markNotificationsRead(user.id, 'all');
+  revalidatePath('/notifications');
+  return { success: true, data: undefined };
+}
@@ -0,0 +1,70 @@
+import Link from 'next/link';
+import { getTranslations } from 'next-intl/server';
+import { Pagination } from '@/components/pagination';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { NotificationList, type NotificationView } from '@/components/notifications/notification-list';
+import { requireAuth } from '@/lib/auth';
+import {
+  countUnreadNotifications,
+  listNotifications,
+  NOTIFICATION_PAGE_SIZE,
+  parseNotificationPage,
+} from '@/lib/notifications/inbox';
+import type { SearchParams } from '@/lib/utils';
+
+export default async function NotificationsPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const user = await requireAuth();
+  const query = await searchParams;
+
+  const [notifications, unread, t] = await Promise.all([
+    listNotifications(user.id, parseNotificationPage(query)),
+    countUnreadNotifications(user.id),
+    getTranslations('notifications'),
+  ]);
+
+  const items: NotificationView[] = notifications.items.map((notification) => ({
+    id: notification.id,
+    type: notification.type,
+    data: notification.data as NotificationView['data'],
+    href: notification.href,
+    createdAt: notification.createdAt,
+    read: !!notification.readAt,
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+        <p className="text-muted-foreground">{t('description')}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('unreadCount', { count: unread })}</CardTitle>
+          <CardDescription>
+            {t.rich('preferencesHint', {
+              link: (chunks) => (
+                <Link href="/settings" className="text-primary hover:underline">
+                  {chunks}
+                </Link>
+              ),
+            })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <NotificationList notifications={items} unread={unread} />
+          {notifications.total > 0 && (
+            <Pagination
+              pathname="/notifications"
+              searchParams={query}
+              page={notifications.page}
+              pageCount={notifications.pageCount}
+              total={notifications.total}
+              pageSize={NOTIFICATION_PAGE_SIZE}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
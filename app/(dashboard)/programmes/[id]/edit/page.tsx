@@ -0,0 +1,43 @@
+import { notFound } from 'next/navigation';
+import { getTranslations } from 'next-intl/server';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ProgrammeForm } from '@/components/programmes/programme-form';
+import { requirePermission } from '@/lib/auth';
+import { getProgramme } from '@/lib/programmes/programmes';
+
+export default async function EditProgrammePage({ params }: { params: Promise<{ id: string }> }) {
+  const user = await requirePermission('programme:manage');
+  const { id } = await params;
+
+  const programme = await getProgramme(id, user);
+  if (!programme) {
+    notFound();
+  }
+
+  const t = await getTranslations('programmes');
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{t('editTitle')}</h1>
+        <p className="text-muted-foreground">{programme.name}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('formTitle')}</CardTitle>
+          <CardDescription>{t('editFormDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ProgrammeForm
+            programme={{
+              ...programme,
+              maxMonthlyIncome: programme.maxMonthlyIncome === null ? null : Number(programme.maxMonthlyIncome),
+            }}
+            country={programme.branch.country}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
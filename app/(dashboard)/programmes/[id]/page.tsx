@@ -0,0 +1,240 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeft, Pencil } from 'lucide-react';
+import { getLocale, getTranslations } from 'next-intl/server';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { EligibilityRuleList } from '@/components/programmes/eligibility-rules';
+import { EnrolmentActions } from '@/components/programmes/enrolment-actions';
+import { ProgrammeArchiveButton } from '@/components/programmes/programme-archive-button';
+import { requirePermission } from '@/lib/auth';
+import { countryRules } from '@/lib/countries';
+import { getEnumLabel } from '@/lib/i18n/server';
+import { hasPermission } from '@/lib/permissions';
+import { enrolmentStatus } from '@/lib/programmes/enrolments';
+import { getProgramme, listProgrammeEnrolments } from '@/lib/programmes/programmes';
+import { formatDate, formatDateTime } from '@/lib/utils';
+
+export default async function ProgrammePage({ params }: { params: Promise<{ id: string }> }) {
+  const user = await requirePermission('programme:read');
+  const { id } = await params;
+
+  const programme = await getProgramme(id, user);
+  if (!programme) {
+    notFound();
+  }
+
+  const [enrolments, t, locale, enumLabel] = await Promise.all([
+    listProgrammeEnrolments(id, user),
+    getTranslations('programmes'),
+    getLocale(),
+    getEnumLabel(),
+  ]);
+  const shown = enrolments.map((enrolment) => ({ ...enrolment, shownStatus: enrolmentStatus(enrolment) }));
+  const enrolled = shown.filter((enrolment) => enrolment.shownStatus === 'ENROLLED');
+  const waitlist = shown.filter((enrolment) => enrolment.shownStatus === 'WAITLISTED');
+  const ended = shown.filter((enrolment) => enrolment.shownStatus === 'ENDED');
+  const canEnrol = hasPermission(user.role, 'programme:enrol');
+  const canManage = hasPermission(user.role, 'programme:manage');
+  const full = programme.capacity !== null && programme.enrolled >= programme.capacity;
+
+  const beneficiaryLink = (beneficiary: (typeof shown)[number]['beneficiary']) => (
+    <Link href={`/beneficiaries/${beneficiary.id}`} className="font-medium hover:underline">
+      {beneficiary.firstName} {beneficiary.lastName}
+    </Link>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <div className="space-y-2">
+          <Link href="/programmes" className="inline-flex items-center text-sm text-muted-foreground hover:underline">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            {t('backToList')}
+          </Link>
+          <h1 className="text-3xl font-bold tracking-tight">{programme.name}</h1>
+          <div className="flex flex-wrap items-center gap-2">
+            {programme.archivedAt ? (
+              <Badge variant="secondary">{t('archived')}</Badge>
+            ) : full ? (
+              <Badge variant="outline">{t('full')}</Badge>
+            ) : (
+              <Badge>{t('open')}</Badge>
+            )}
+            <span className="text-sm text-muted-foreground">{programme.branch.name}</span>
+          </div>
+          {programme.archivedAt && (
+            <p className="text-sm text-muted-foreground">
+              {t('archivedAt', { time: formatDateTime(programme.archivedAt, locale) })}
+            </p>
+          )}
+        </div>
+        {canManage && (
+          <Button asChild variant="outline">
+            <Link href={`/programmes/${programme.id}/edit`}>
+              <Pencil className="mr-2 h-4 w-4" />
+              {t('edit')}
+            </Link>
+          </Button>
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>{t('rulesTitle')}</CardTitle>
+            {programme.description && (
+              <CardDescription className="whitespace-pre-line">{programme.description}</CardDescription>
+            )}
+          </CardHeader>
+          <CardContent>
+            <EligibilityRuleList
+              rules={{
+                ...programme,
+                maxMonthlyIncome: programme.maxMonthlyIncome === null ? null : Number(programme.maxMonthlyIncome),
+              }}
+              currency={countryRules[programme.branch.country].currency}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('places')}</CardTitle>
+            <CardDescription>{t('placesDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="text-2xl font-bold tabular-nums">
+              {programme.capacity === null
+                ? t('placesUnlimited', { enrolled: programme.enrolled })
+                : t('placesTaken', { enrolled: programme.enrolled, capacity: programme.capacity })}
+            </div>
+            <p className="text-sm text-muted-foreground">{t('waitingCount', { count: programme.waitlisted })}</p>
+            {canManage && (
+              <div className="border-t pt-4">
+                <ProgrammeArchiveButton programmeId={programme.id} archived={!!programme.archivedAt} />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('enrolledTitle')}</CardTitle>
+          <CardDescription>{t('enrolledDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {enrolled.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">{t('noneEnrolled')}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('fields.beneficiary')}</TableHead>
+                  <TableHead>{t('fields.startDate')}</TableHead>
+                  <TableHead>{t('fields.endDate')}</TableHead>
+                  {canEnrol && <TableHead className="sr-only">{t('actions')}</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {enrolled.map((enrolment) => (
+                  <TableRow key={enrolment.id}>
+                    <TableCell>
+                      {beneficiaryLink(enrolment.beneficiary)}
+                      <div className="text-xs text-muted-foreground">{enumLabel(enrolment.beneficiary.category)}</div>
+                      {enrolment.overrideReason && (
+                        <div className="text-xs text-muted-foreground">
+                          {t('overridden', { reason: enrolment.overrideReason })}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{enrolment.startDate && formatDate(enrolment.startDate, locale)}</TableCell>
+                    <TableCell>{enrolment.endDate ? formatDate(enrolment.endDate, locale) : '—'}</TableCell>
+                    {canEnrol && (
+                      <TableCell>
+                        <EnrolmentActions enrolmentId={enrolment.id} status={enrolment.shownStatus} />
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('waitlist')}</CardTitle>
+          <CardDescription>{t('waitlistDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {waitlist.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">{t('noneWaiting')}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('fields.position')}</TableHead>
+                  <TableHead>{t('fields.beneficiary')}</TableHead>
+                  <TableHead>{t('fields.waitlistedAt')}</TableHead>
+                  {canEnrol && <TableHead className="sr-only">{t('actions')}</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {waitlist.map((enrolment, index) => (
+                  <TableRow key={enrolment.id}>
+                    <TableCell className="tabular-nums">{index + 1}</TableCell>
+                    <TableCell>
+                      {beneficiaryLink(enrolment.beneficiary)}
+                      <div className="text-xs text-muted-foreground">{enumLabel(enrolment.beneficiary.category)}</div>
+                    </TableCell>
+                    <TableCell>{enrolment.waitlistedAt && formatDateTime(enrolment.waitlistedAt, locale)}</TableCell>
+                    {canEnrol && (
+                      <TableCell>
+                        <EnrolmentActions enrolmentId={enrolment.id} status={enrolment.shownStatus} />
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {ended.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('endedTitle')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('fields.beneficiary')}</TableHead>
+                  <TableHead>{t('fields.startDate')}</TableHead>
+                  <TableHead>{t('fields.endDate')}</TableHead>
+                  <TableHead>{t('fields.endReason')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ended.map((enrolment) => (
+                  <TableRow key={enrolment.id}>
+                    <TableCell>{beneficiaryLink(enrolment.beneficiary)}</TableCell>
+                    <TableCell>{enrolment.startDate ? formatDate(enrolment.startDate, locale) : '—'}</TableCell>
+                    <TableCell>{enrolment.endDate ? formatDate(enrolment.endDate, locale) : '—'}</TableCell>
+                    <TableCell className="max-w-xs text-sm text-muted-foreground">{enrolment.endReason || '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
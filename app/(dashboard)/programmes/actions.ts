@@ -0,0 +1,153 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { canAccessBeneficiary, canAccessProgramme } from '@/lib/access';
+import { requirePermission } from '@/lib/auth';
+import {
+  actionFailure,
+  isUniqueConstraintError,
+  localizedFailure,
+  validationFailure,
+  type ActionResult,
+} from '@/lib/actions';
+import { resolveBranch } from '@/lib/branches';
+import { prisma } from '@/lib/prisma';
+import { admitFromWaitlist, closeEnrolment, enrolBeneficiary, EnrolmentError } from '@/lib/programmes/enrolments';
+import { addProgramme, archiveProgramme, changeProgramme } from '@/lib/programmes/programmes';
+import { enrolmentEndSchema, enrolmentSchema, programmeSchema } from '@/lib/validation';
+
+function nameTaken(): Promise<ActionResult<never>> {
+  return actionFailure('programmeNameTaken', { field: 'name' });
+}
+
+function revalidateProgramme(id: string, beneficiaryId?: string) {
+  revalidatePath('/programmes');
+  revalidatePath(`/programmes/${id}`);
+  if (beneficiaryId) revalidatePath(`/beneficiaries/${beneficiaryId}`);
+}
+
+export async function createProgramme(input: unknown): Promise<ActionResult<{ id: string }>> {
+  const user = await requirePermission('programme:manage');
+
+  const branch = await resolveBranch(user, input);
+  if (!branch) {
+    return actionFailure('branchNotFound', { field: 'branchId' });
+  }
+  const parsed = programmeSchema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  try {
+    const programme = await addProgramme(parsed.data, branch.id, user);
+    revalidatePath('/programmes');
+    return { success: true, data: { id: programme.id } };
+  } catch (error) {
+    if (isUniqueConstraintError(error)) return nameTaken();
+    throw error;
+  }
+}
+
+export async function updateProgramme(id: string, input: unknown): Promise<ActionResult<{ id: string }>> {
+  const user = await requirePermission('programme:manage');
+  if (!(await canAccessProgramme(user, id))) {
+    throw new Error('Forbidden');
+  }
+
+  const parsed = programmeSchema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  try {
+    await changeProgramme(id, parsed.data);
+  } catch (error) {
+    if (isUniqueConstraintError(error)) return nameTaken();
+    throw error;
+  }
+  revalidateProgramme(id);
+  return { success: true, data: { id } };
+}
+
+export async function setProgrammeArchived(id: string, archived: boolean): Promise<ActionResult> {
+  const user = await requirePermission('programme:manage');
+  if (!(await canAccessProgramme(user, id))) {
+    throw new Error('Forbidden');
+  }
+
+  await archiveProgramme(id, archived);
+  revalidateProgramme(id);
+  return { success: true, data: undefined };
+}
+
+export async function enrol(input: unknown): Promise<ActionResult<{ status: string }>> {
+  const user = await requirePermission('programme:enrol');
+
+  const parsed = enrolmentSchema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+  const { programmeId, beneficiaryId } = parsed.data;
+  if (!(await canAccessBeneficiary(user, beneficiaryId)) || !(await canAccessProgramme(user, programmeId))) {
+    throw new Error('Forbidden');
+  }
+
+  try {
+    const enrolment = await enrolBeneficiary(parsed.data, user);
+    revalidateProgramme(programmeId, beneficiaryId);
+    return { success: true, data: { status: enrolment.status } };
+  } catch (error) {
+    if (error instanceof EnrolmentError) {
+      return localizedFailure(error);
+    }
+    throw error;
+  }
+}
+
+// The enrolment's programme and beneficiary, if the actor may change it.
+async function accessibleEnrolment(enrolmentId: string) {
+  const user = await requirePermission('programme:enrol');
+  const enrolment = await prisma.enrolment.findUnique({
+    where: { id: enrolmentId },
+    select: { programmeId: true, beneficiaryId: true },
+  });
+  if (!enrolment || !(await canAccessBeneficiary(user, enrolment.beneficiaryId))) {
+    throw new Error('Forbidden');
+  }
+  return enrolment;
+}
+
+export async function admitWaitlisted(enrolmentId: string): Promise<ActionResult> {
+  const { programmeId, beneficiaryId } = await accessibleEnrolment(enrolmentId);
+
+  try {
+    await admitFromWaitlist(enrolmentId);
+  } catch (error) {
+    if (error instanceof EnrolmentError) {
+      return localizedFailure(error);
+    }
+    throw error;
+  }
+  revalidateProgramme(programmeId, beneficiaryId);
+  return { success: true, data: undefined };
+}
+
+export async function endEnrolment(enrolmentId: string, input: unknown): Promise<ActionResult> {
+  const { programmeId, beneficiaryId } = await accessibleEnrolment(enrolmentId);
+
+  const parsed = enrolmentEndSchema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  try {
+    await closeEnrolment(enrolmentId, parsed.data);
+  } catch (error) {
+    if (error instanceof EnrolmentError) {
+      return localizedFailure(error);
+    }
+    throw error;
+  }
+  revalidateProgramme(programmeId, beneficiaryId);
+  return { success: true, data: undefined };
+}
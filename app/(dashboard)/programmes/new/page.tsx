@@ -0,0 +1,35 @@
+import { getTranslations } from 'next-intl/server';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ProgrammeForm } from '@/components/programmes/programme-form';
+import { requirePermission } from '@/lib/auth';
+import { listBranches } from '@/lib/branches';
+import { seesAllBranches } from '@/lib/permissions';
+import { prisma } from '@/lib/prisma';
+
+export default async function NewProgrammePage() {
+  const user = await requirePermission('programme:manage');
+  const [t, branch, branches] = await Promise.all([
+    getTranslations('programmes'),
+    prisma.branch.findUniqueOrThrow({ where: { id: user.branchId } }),
+    seesAllBranches(user.role) ? listBranches() : undefined,
+  ]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{t('new')}</h1>
+        <p className="text-muted-foreground">{t('newDescription')}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('formTitle')}</CardTitle>
+          <CardDescription>{t('formDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ProgrammeForm country={branch.country} branches={branches} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import Link from 'next/link';
+import { getTranslations } from 'next-intl/server';
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ProgrammeList } from '@/components/programmes/programme-list';
+import { requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { listProgrammes } from '@/lib/programmes/programmes';
+
+export default async function ProgrammesPage() {
+  const user = await requirePermission('programme:read');
+  const [t, programmes] = await Promise.all([getTranslations('programmes'), listProgrammes(user)]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+          <p className="text-muted-foreground">{t('description')}</p>
+        </div>
+        {hasPermission(user.role, 'programme:manage') && (
+          <Button asChild>
+            <Link href="/programmes/new">
+              <Plus className="mr-2 h-4 w-4" />
+              {t('new')}
+            </Link>
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('listTitle')}</CardTitle>
+          <CardDescription>{t('listDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {programmes.length === 0 ? (
+            <p className="py-12 text-center text-muted-foreground">{t('empty')}</p>
+          ) : (
+            <ProgrammeList programmes={programmes} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
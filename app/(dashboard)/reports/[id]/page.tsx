@@ -0,0 +1,129 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { Pencil } from 'lucide-react';
+import { getTranslations } from 'next-intl/server';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { NativeSelect } from '@/components/ui/native-select';
+import { DeleteReportButton } from '@/components/reports/delete-report-button';
+import { ReportExportButtons } from '@/components/reports/report-export-buttons';
+import { ReportResults } from '@/components/reports/report-results';
+import { requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { prisma } from '@/lib/prisma';
+import { describeFilters, reportParamsSchema, reportParamsToQuery, reportPeriods } from '@/lib/reports/definition';
+import { getFilterNames, getReportLocale, parseSavedReportParams, runReport } from '@/lib/reports/query';
+import { buildHref, firstParam, formatDateTime, type SearchParams } from '@/lib/utils';
+
+export default async function ReportPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<SearchParams>;
+}) {
+  const user = await requirePermission('report:read');
+  const { id } = await params;
+  const query = await searchParams;
+
+  const report = await prisma.reportDefinition.findUnique({
+    where: { id },
+    include: { createdBy: { select: { name: true } } },
+  });
+  if (!report) {
+    notFound();
+  }
+
+  // The saved period applies unless another is picked for this run.
+  const saved = parseSavedReportParams(report.parameters);
+  const period = firstParam(query.period);
+  const reportParams = period
+    ? reportParamsSchema.parse({ ...saved, period, from: firstParam(query.from), to: firstParam(query.to) })
+    : saved;
+
+  const labels = await getReportLocale();
+  const [t, tc, result, names] = await Promise.all([
+    getTranslations('reports'),
+    getTranslations('common'),
+    runReport(reportParams, user, labels),
+    getFilterNames(reportParams),
+  ]);
+  const { locale } = labels;
+  const filters = describeFilters(result.params, labels, names, result.customFields);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-3xl font-bold tracking-tight">{report.name}</h1>
+          {report.description && <p className="text-muted-foreground">{report.description}</p>}
+          <p className="text-sm text-muted-foreground">
+            {t('savedByOn', { name: report.createdBy.name, time: formatDateTime(report.updatedAt, locale) })}
+          </p>
+        </div>
+        {hasPermission(user.role, 'report:manage') && (
+          <div className="flex flex-wrap items-start gap-2">
+            <Button asChild variant="outline">
+              <Link href={`/reports/new?reportId=${report.id}`}>
+                <Pencil className="mr-2 h-4 w-4" />
+                {tc('edit')}
+              </Link>
+            </Button>
+            <DeleteReportButton reportId={report.id} />
+          </div>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>
+              {t(`sources.${reportParams.source}`)} · {result.period.label}
+            </CardTitle>
+            <CardDescription>{filters.length > 0 ? filters.join(' · ') : t('noFilters')}</CardDescription>
+          </div>
+          {hasPermission(user.role, 'export') && (
+            <ReportExportButtons query={{ ...reportParamsToQuery(reportParams), reportId: report.id }} />
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form method="GET" className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="period">{t('builder.period')}</Label>
+              <NativeSelect id="period" name="period" defaultValue={reportParams.period}>
+                {reportPeriods.map((value) => (
+                  <option key={value} value={value}>
+                    {t(`periods.${value}`)}
+                  </option>
+                ))}
+              </NativeSelect>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="from">{t('builder.from')}</Label>
+              <Input id="from" name="from" type="date" defaultValue={reportParams.from} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="to">{t('builder.to')}</Label>
+              <Input id="to" name="to" type="date" defaultValue={reportParams.to} />
+            </div>
+            <Button type="submit" variant="secondary" size="sm">
+              {t('rerun')}
+            </Button>
+            {period && (
+              <Button asChild variant="ghost" size="sm">
+                <Link href={buildHref(`/reports/${report.id}`, {})}>{t('savedPeriod')}</Link>
+              </Button>
+            )}
+          </form>
+
+          <ReportResults result={result} />
+          <p className="text-xs text-muted-foreground">
+            {t('generatedAt', { time: formatDateTime(result.generatedAt, locale) })}
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
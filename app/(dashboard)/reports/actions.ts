@@ -0,0 +1,65 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requirePermission } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { reportParamsSchema } from '@/lib/reports/definition';
+import { reportDefinitionSchema } from '@/lib/validation';
+import { actionFailure, isUniqueConstraintError, validationFailure, type ActionResult } from '@/lib/actions';
+
+// Saves the builder's current parameters as a new definition, or over an
+// existing one when `id` is given.
+export async function saveReport(
+  id: string | null,
+  input: unknown,
+  parameters: unknown
+): Promise<ActionResult<{ id: string }>> {
+  const user = await requirePermission('report:manage');
+
+  const parsed = reportDefinitionSchema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+  const params = reportParamsSchema.safeParse(parameters);
+  if (!params.success) {
+    return actionFailure('invalidReportParameters');
+  }
+
+  const data = {
+    name: parsed.data.name,
+    description: parsed.data.description || null,
+    source: params.data.source,
+    parameters: params.data,
+  };
+
+  if (id && (await prisma.reportDefinition.count({ where: { id } })) === 0) {
+    return actionFailure('reportNotFound');
+  }
+
+  try {
+    const report = id
+      ? await prisma.reportDefinition.update({ where: { id }, data, select: { id: true } })
+      : await prisma.reportDefinition.create({ data: { ...data, createdById: user.id }, select: { id: true } });
+
+    revalidatePath('/reports');
+    revalidatePath(`/reports/${report.id}`);
+    return { success: true, data: report };
+  } catch (error) {
+    if (isUniqueConstraintError(error, 'name')) {
+      return actionFailure('reportNameTaken', { field: 'name' });
+    }
+    throw error;
+  }
+}
+
+export async function deleteReport(id: string): Promise<ActionResult> {
+  await requirePermission('report:manage');
+
+  if ((await prisma.reportDefinition.count({ where: { id } })) === 0) {
+    return actionFailure('reportNotFound');
+  }
+  await prisma.reportDefinition.delete({ where: { id } });
+
+  revalidatePath('/reports');
+  return { success: true, data: undefined };
+}
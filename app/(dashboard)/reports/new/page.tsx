@@ -0,0 +1,95 @@
+import { notFound } from 'next/navigation';
+import { getTranslations } from 'next-intl/server';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ReportBuilder } from '@/components/reports/report-builder';
+import { ReportExportButtons } from '@/components/reports/report-export-buttons';
+import { ReportResults } from '@/components/reports/report-results';
+import { SaveReportForm } from '@/components/reports/save-report-form';
+import { requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { prisma } from '@/lib/prisma';
+import { describeFilters, parseReportParams, reportParamsToQuery } from '@/lib/reports/definition';
+import { getReportFilterOptions, getReportLocale, parseSavedReportParams, runReport } from '@/lib/reports/query';
+import { firstParam, type SearchParams } from '@/lib/utils';
+
+// The report builder. With ?reportId= it edits a saved report: the saved
+// parameters are the starting point until the form is submitted.
+export default async function NewReportPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const user = await requirePermission('report:read');
+  const query = await searchParams;
+
+  const reportId = firstParam(query.reportId);
+  const saved = reportId
+    ? await prisma.reportDefinition.findUnique({
+        where: { id: reportId },
+        select: { id: true, name: true, description: true, parameters: true },
+      })
+    : null;
+  if (reportId && !saved) {
+    notFound();
+  }
+
+  const params = saved && !query.source ? parseSavedReportParams(saved.parameters) : parseReportParams(query);
+  const labels = await getReportLocale();
+  const [t, result, options] = await Promise.all([
+    getTranslations('reports'),
+    runReport(params, user, labels),
+    getReportFilterOptions(user),
+  ]);
+  const filters = describeFilters(
+    result.params,
+    labels,
+    new Map([...options.staff, ...options.branches].map((r) => [r.id, r.name])),
+    result.customFields
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">
+          {saved ? t('editTitle', { name: saved.name }) : t('newReport')}
+        </h1>
+        <p className="text-muted-foreground">{t('builderDescription')}</p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <ReportBuilder
+            pathname="/reports/new"
+            params={params}
+            states={options.states}
+            staff={options.staff}
+            branches={options.branches}
+            customFields={result.customFields}
+            reportId={saved?.id}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>
+              {t(`sources.${params.source}`)} · {result.period.label}
+            </CardTitle>
+            <CardDescription>{filters.length > 0 ? filters.join(' · ') : t('noFilters')}</CardDescription>
+          </div>
+          {hasPermission(user.role, 'export') && <ReportExportButtons query={reportParamsToQuery(params)} />}
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <ReportResults result={result} />
+          {hasPermission(user.role, 'report:manage') && (
+            <div className="border-t pt-4">
+              <SaveReportForm
+                parameters={params}
+                reportId={saved?.id}
+                defaultName={saved?.name}
+                defaultDescription={saved?.description}
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
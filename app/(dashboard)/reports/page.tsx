@@ -0,0 +1,94 @@
+import Link from 'next/link';
+import { Plus } from 'lucide-react';
+import { getLocale, getTranslations } from 'next-intl/server';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { requirePermission } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { dimensionLabel } from '@/lib/reports/definition';
+import { getReportCustomFields, listReportDefinitions, parseSavedReportParams } from '@/lib/reports/query';
+import { formatDate } from '@/lib/utils';
+
+export default async function ReportsPage() {
+  const user = await requirePermission('report:read');
+  const [t, locale, reports, customFields] = await Promise.all([
+    getTranslations('reports'),
+    getLocale(),
+    listReportDefinitions(),
+    getReportCustomFields(),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+          <p className="text-muted-foreground">{t('description')}</p>
+        </div>
+        <Button asChild>
+          <Link href="/reports/new">
+            <Plus className="mr-2 h-4 w-4" />
+            {t('newReport')}
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('savedTitle')}</CardTitle>
+          <CardDescription>
+            {hasPermission(user.role, 'report:manage') ? t('savedDescriptionManage') : t('savedDescription')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {reports.length === 0 ? (
+            <div className="py-12 text-center">
+              <p className="text-muted-foreground">{t('noReports')}</p>
+              <Button asChild variant="link">
+                <Link href="/reports/new">{t('buildReport')}</Link>
+              </Button>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('name')}</TableHead>
+                  <TableHead>{t('records')}</TableHead>
+                  <TableHead className="hidden md:table-cell">{t('groupedBy')}</TableHead>
+                  <TableHead className="hidden md:table-cell">{t('savedBy')}</TableHead>
+                  <TableHead className="hidden lg:table-cell">{t('updated')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reports.map((report) => {
+                  const params = parseSavedReportParams(report.parameters);
+                  return (
+                    <TableRow key={report.id}>
+                      <TableCell>
+                        <Link href={`/reports/${report.id}`} className="font-medium hover:underline">
+                          {report.name}
+                        </Link>
+                        {report.description && (
+                          <p className="text-xs text-muted-foreground">{report.description}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>{t(`sources.${params.source}`)}</TableCell>
+                      <TableCell className="hidden md:table-cell">
+                        {params.groupBy
+                          .map((dimension) => dimensionLabel(t, params.source, dimension, customFields))
+                          .join(', ') || t('builder.totalsOnly')}
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell">{report.createdBy.name}</TableCell>
+                      <TableCell className="hidden lg:table-cell">{formatDate(report.updatedAt, locale)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import { canAccessBeneficiary, canAccessDistributionEvent } from '@/lib/access';
+import { requirePermission } from '@/lib/auth';
+import {
+  createDistributionEvent,
+  DistributionEventError,
+  resolveBeneficiaryCodes,
+  reverseDistributionEvent,
+  searchBeneficiaryOptions,
+  updateDistributionEvent,
+  type BeneficiaryOption,
+  type ResolvedBeneficiaryCodes,
+} from '@/lib/distributions';
+import { prisma } from '@/lib/prisma';
+import { getCustomFields } from '@/lib/custom-fields/definitions';
+import { wasEnrolledOn } from '@/lib/programmes/enrolments';
+import { logService, toServiceData } from '@/lib/services';
+import { distributionEventReversalSchema, distributionEventSchema, serviceSchemaFor } from '@/lib/validation';
+import {
+  actionFailure,
+  describeValidationError,
+  localizedFailure,
+  validationFailure,
+  type ActionResult,
+} from '@/lib/actions';
+
+const codesSchema = z.array(z.string().max(100)).max(1000);
+
+export async function searchBeneficiaries(q: string): Promise<ActionResult<BeneficiaryOption[]>> {
+  const user = await requirePermission('service:create');
+  return { success: true, data: await searchBeneficiaryOptions(q, user) };
+}
+
+export async function lookupBeneficiaries(codes: unknown): Promise<ActionResult<ResolvedBeneficiaryCodes>> {
+  const user = await requirePermission('service:create');
+
+  const parsed = codesSchema.safeParse(codes);
+  if (!parsed.success) {
+    return { success: false, error: await describeValidationError(parsed.error) };
+  }
+
+  return { success: true, data: await resolveBeneficiaryCodes(parsed.data, user) };
+}
+
+export async function createService(input: unknown): Promise<ActionResult<{ id: string }>> {
+  const user = await requirePermission('service:create');
+
+  const parsed = serviceSchemaFor(await getCustomFields('SERVICE')).safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+  const { beneficiaryId, caseId, programmeId } = parsed.data;
+  if (!(await canAccessBeneficiary(user, beneficiaryId))) {
+    throw new Error('Forbidden');
+  }
+  if (caseId) {
+    const linked = await prisma.case.count({ where: { id: caseId, beneficiaryId } });
+    if (linked === 0) {
+      return actionFailure('caseOfOtherBeneficiary');
+    }
+  }
+  if (programmeId && !(await wasEnrolledOn(programmeId, beneficiaryId, parsed.data.date))) {
+    return actionFailure('notEnrolledOnDate', { field: 'programmeId' });
+  }
+
+  const service = await logService({
+    ...toServiceData(parsed.data),
+    customFields: parsed.data.customFields,
+    providedById: user.id,
+  });
+
+  revalidatePath('/services');
+  revalidatePath(`/beneficiaries/${beneficiaryId}`);
+  if (caseId) revalidatePath(`/cases/${caseId}`);
+  revalidatePath('/dashboard');
+  return { success: true, data: { id: service.id } };
+}
+
+export async function createEvent(input: unknown): Promise<ActionResult<{ id: string }>> {
+  const user = await requirePermission('service:create');
+
+  const parsed = distributionEventSchema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  try {
+    const event = await createDistributionEvent(parsed.data, user);
+    revalidatePath('/services');
+    revalidatePath('/dashboard');
+    return { success: true, data: { id: event.id } };
+  } catch (error) {
+    if (error instanceof DistributionEventError) {
+      return localizedFailure(error);
+    }
+    throw error;
+  }
+}
+
+export async function updateEvent(id: string, input: unknown): Promise<ActionResult<{ id: string }>> {
+  const user = await requirePermission('service:update');
+  if (!(await canAccessDistributionEvent(user, id))) {
+    throw new Error('Forbidden');
+  }
+
+  const parsed = distributionEventSchema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  try {
+    await updateDistributionEvent(id, parsed.data, user);
+  } catch (error) {
+    if (error instanceof DistributionEventError) {
+      return localizedFailure(error);
+    }
+    throw error;
+  }
+
+  revalidatePath('/services');
+  revalidatePath(`/services/events/${id}`);
+  revalidatePath('/dashboard');
+  return { success: true, data: { id } };
+}
+
+export async function reverseEvent(id: string, input: unknown): Promise<ActionResult> {
+  const user = await requirePermission('service:update');
+  if (!(await canAccessDistributionEvent(user, id))) {
+    throw new Error('Forbidden');
+  }
+
+  const parsed = distributionEventReversalSchema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  try {
+    await reverseDistributionEvent(id, parsed.data.reason, user);
+  } catch (error) {
+    if (error instanceof DistributionEventError) {
+      return localizedFailure(error);
+    }
+    throw error;
+  }
+
+  revalidatePath('/services');
+  revalidatePath(`/services/events/${id}`);
+  revalidatePath('/dashboard');
+  return { success: true, data: undefined };
+}
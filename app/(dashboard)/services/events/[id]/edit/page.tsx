@@ -0,0 +1,54 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getTranslations } from 'next-intl/server';
+import { Card, CardContent } from '@/components/ui/card';
+import { DistributionEventForm } from '@/components/services/distribution-event-form';
+import { requirePermission } from '@/lib/auth';
+import { getDistributionEvent } from '@/lib/distributions';
+import { getEnumLabel } from '@/lib/i18n/server';
+
+export default async function EditDistributionEventPage({ params }: { params: Promise<{ id: string }> }) {
+  const user = await requirePermission('service:update');
+  const { id } = await params;
+
+  const event = await getDistributionEvent(id, user);
+  if (!event || event.reversedAt) {
+    notFound();
+  }
+  const [t, enumLabel] = await Promise.all([getTranslations('services.events'), getEnumLabel()]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{t('editTitle')}</h1>
+        <p className="text-muted-foreground">
+          <Link href={`/services/events/${event.id}`} className="hover:underline">
+            {enumLabel(event.type)} · {event.location}
+          </Link>
+          . {t('editDescription')}
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <DistributionEventForm
+            eventId={event.id}
+            defaultValues={{
+              type: event.type,
+              date: event.date.toISOString().slice(0, 10),
+              location: event.location,
+              description: event.description ?? '',
+              defaultQuantity: event.defaultQuantity,
+              // Quantities equal to the default are left blank so they follow it.
+              recipients: event.services.map((service) => ({
+                beneficiaryId: service.beneficiary.id,
+                quantity: service.quantity === event.defaultQuantity ? null : service.quantity,
+              })),
+            }}
+            beneficiaries={event.services.map((service) => service.beneficiary)}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getLocale, getTranslations } from 'next-intl/server';
+import { Pencil } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ReverseEventControl } from '@/components/services/reverse-event-control';
+import { requirePermission } from '@/lib/auth';
+import { getDistributionEvent } from '@/lib/distributions';
+import { getEnumLabel } from '@/lib/i18n/server';
+import { hasPermission } from '@/lib/permissions';
+import { formatDate, formatDateTime } from '@/lib/utils';
+
+export default async function DistributionEventPage({ params }: { params: Promise<{ id: string }> }) {
+  const user = await requirePermission('service:read');
+  const { id } = await params;
+
+  const event = await getDistributionEvent(id, user);
+  if (!event) {
+    notFound();
+  }
+
+  const canChange = !event.reversedAt && hasPermission(user.role, 'service:update');
+  const totalQuantity = event.services.reduce((sum, service) => sum + (service.quantity ?? 0), 0);
+  const [t, tc, locale, enumLabel] = await Promise.all([
+    getTranslations('services.events'),
+    getTranslations('common'),
+    getLocale(),
+    getEnumLabel(),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight">
+            {enumLabel(event.type)} · {event.location}
+          </h1>
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline">{t('badge')}</Badge>
+            {event.reversedAt && <Badge variant="destructive">{t('reversed')}</Badge>}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {formatDate(event.date, locale)} ·{' '}
+            {t('loggedByOn', { name: event.createdBy.name, time: formatDateTime(event.createdAt, locale) })}
+          </p>
+        </div>
+        {canChange && (
+          <Button asChild variant="outline">
+            <Link href={`/services/events/${event.id}/edit`}>
+              <Pencil className="mr-2 h-4 w-4" />
+              {tc('edit')}
+            </Link>
+          </Button>
+        )}
+      </div>
+
+      {event.reversedAt && (
+        <Card className="border-destructive/50">
+          <CardHeader>
+            <CardTitle>{t('reversed')}</CardTitle>
+            <CardDescription>
+              {formatDateTime(event.reversedAt, locale)}
+              {event.reversedBy && ` ${t('by', { name: event.reversedBy.name })}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm whitespace-pre-line">{event.reversalReason}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>{t('served')}</CardTitle>
+            <CardDescription>
+              {t('servedSummary', { count: event.services.length, total: totalQuantity })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {event.services.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">
+                {event.reversedAt ? t('allRemoved') : t('noServices')}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('beneficiary')}</TableHead>
+                    <TableHead className="hidden md:table-cell">{t('idNumber')}</TableHead>
+                    <TableHead className="text-right">{t('quantity')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {event.services.map((service) => (
+                    <TableRow key={service.id}>
+                      <TableCell>
+                        <Link href={`/beneficiaries/${service.beneficiary.id}`} className="font-medium hover:underline">
+                          {service.beneficiary.firstName} {service.beneficiary.lastName}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell text-muted-foreground">
+                        {service.beneficiary.idNumber ?? '—'}
+                      </TableCell>
+                      <TableCell className="text-right">{service.quantity ?? '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('details')}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              <p>
+                <span className="text-muted-foreground">{t('defaultQuantity')}</span> {event.defaultQuantity ?? '—'}
+              </p>
+              {event.description && <p className="whitespace-pre-line">{event.description}</p>}
+            </CardContent>
+          </Card>
+
+          {canChange && (
+            <Card>
+              <CardHeader>
+                <CardTitle>{t('undo')}</CardTitle>
+                <CardDescription>{t('undoDescription')}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ReverseEventControl eventId={event.id} serviceCount={event.services.length} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import Link from 'next/link';
+import { useTranslations } from 'next-intl';
+import { getTranslations } from 'next-intl/server';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { BeneficiaryChooser } from '@/components/beneficiaries/beneficiary-chooser';
+import { DistributionEventForm } from '@/components/services/distribution-event-form';
+import { ServiceForm } from '@/components/services/service-form';
+import { canAccessBeneficiary, caseScope } from '@/lib/access';
+import { requirePermission } from '@/lib/auth';
+import { listBeneficiaries, parseBeneficiaryListParams } from '@/lib/beneficiaries';
+import { getCustomFields } from '@/lib/custom-fields/definitions';
+import { getEnumLabel } from '@/lib/i18n/server';
+import { prisma } from '@/lib/prisma';
+import { enrolledProgrammes } from '@/lib/programmes/enrolments';
+import { firstParam, type SearchParams } from '@/lib/utils';
+
+function ModeSwitch({ mode }: { mode: 'single' | 'event' }) {
+  const t = useTranslations('services.new');
+
+  return (
+    <div className="flex gap-2">
+      <Button asChild size="sm" variant={mode === 'single' ? 'default' : 'outline'}>
+        <Link href="/services/new">{t('single')}</Link>
+      </Button>
+      <Button asChild size="sm" variant={mode === 'event' ? 'default' : 'outline'}>
+        <Link href="/services/new?mode=event">{t('event')}</Link>
+      </Button>
+    </div>
+  );
+}
+
+export default async function NewServicePage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const user = await requirePermission('service:create');
+  const query = await searchParams;
+  const t = await getTranslations('services');
+
+  if (firstParam(query.mode) === 'event') {
+    return (
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{t('distributionEvent')}</h1>
+            <p className="text-muted-foreground">{t('new.eventDescription')}</p>
+          </div>
+          <ModeSwitch mode="event" />
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <DistributionEventForm />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const beneficiaryId = firstParam(query.beneficiaryId);
+  const beneficiary =
+    beneficiaryId && (await canAccessBeneficiary(user, beneficiaryId))
+      ? await prisma.beneficiary.findUnique({
+          where: { id: beneficiaryId },
+          select: { id: true, firstName: true, lastName: true, category: true },
+        })
+      : null;
+
+  if (!beneficiary) {
+    const q = firstParam(query.q);
+    const matches = q ? await listBeneficiaries(parseBeneficiaryListParams({ q }), user) : null;
+
+    return (
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{t('logService')}</h1>
+            <p className="text-muted-foreground">{t('new.chooseBeneficiary')}</p>
+          </div>
+          <ModeSwitch mode="single" />
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <BeneficiaryChooser
+              q={q}
+              matches={matches?.items ?? null}
+              hrefFor={(id) => `/services/new?beneficiaryId=${id}`}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const [cases, programmes, customFields] = await Promise.all([
+    prisma.case.findMany({
+      where: { AND: [{ beneficiaryId: beneficiary.id, status: { in: ['OPEN', 'IN_PROGRESS'] } }, caseScope(user)] },
+      select: { id: true, title: true },
+      orderBy: { createdAt: 'desc' },
+    }),
+    enrolledProgrammes(beneficiary.id),
+    getCustomFields('SERVICE'),
+  ]);
+  const caseId = firstParam(query.caseId);
+  const [tc, enumLabel] = await Promise.all([getTranslations('common'), getEnumLabel()]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{t('logService')}</h1>
+          <p className="text-muted-foreground">
+            {tc.rich('forBeneficiary', {
+              name: `${beneficiary.firstName} ${beneficiary.lastName}`,
+              link: (chunks) => (
+                <Link href={`/beneficiaries/${beneficiary.id}`} className="font-medium text-foreground hover:underline">
+                  {chunks}
+                </Link>
+              ),
+            })}{' '}
+            · {enumLabel(beneficiary.category)}
+          </p>
+        </div>
+        <ModeSwitch mode="single" />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('new.formTitle')}</CardTitle>
+          <CardDescription>{t('new.formDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ServiceForm
+            beneficiaryId={beneficiary.id}
+            cases={cases}
+            defaultCaseId={cases.some((item) => item.id === caseId) ? caseId : undefined}
+            programmes={programmes}
+            customFields={customFields}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
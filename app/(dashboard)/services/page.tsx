@@ -1,38 +1,89 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Plus } from 'lucide-react';
+import { Plus, Users } from 'lucide-react';
 import Link from 'next/link';
+import { getTranslations } from 'next-intl/server';
+import { Pagination } from '@/components/pagination';
+import { DistributionEventTable } from '@/components/services/distribution-event-table';
+import { requirePermission } from '@/lib/auth';
+import {
+  DISTRIBUTION_EVENT_PAGE_SIZE,
+  listDistributionEvents,
+  parseDistributionEventListParams,
+} from '@/lib/distributions';
+import { hasPermission } from '@/lib/permissions';
+import type { SearchParams } from '@/lib/utils';
+
+export default async function ServicesPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const user = await requirePermission('service:read');
+  const query = await searchParams;
+  const events = await listDistributionEvents(parseDistributionEventListParams(query), user);
+  const canCreate = hasPermission(user.role, 'service:create');
+  const t = await getTranslations('services');
 
-export default async function ServicesPage() {
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Services</h1>
-          <p className="text-muted-foreground">
-            Track all services provided to beneficiaries
-          </p>
+          <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+          <p className="text-muted-foreground">{t('description')}</p>
         </div>
-        <Button asChild>
-          <Link href="/services/new">
-            <Plus className="mr-2 h-4 w-4" />
-            Log Service
-          </Link>
-        </Button>
+        {canCreate && (
+          <div className="flex gap-2">
+            <Button asChild variant="outline">
+              <Link href="/services/new?mode=event">
+                <Users className="mr-2 h-4 w-4" />
+                {t('distributionEvent')}
+              </Link>
+            </Button>
+            <Button asChild>
+              <Link href="/services/new">
+                <Plus className="mr-2 h-4 w-4" />
+                {t('logService')}
+              </Link>
+            </Button>
+          </div>
+        )}
       </div>
 
       <Card>
         <CardHeader>
-          <CardTitle>Service History</CardTitle>
-          <CardDescription>
-            Complete record of all services provided
-          </CardDescription>
+          <CardTitle>{t('eventsTitle')}</CardTitle>
+          <CardDescription>{t('eventsDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {events.total === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">{t('noEvents')}</p>
+            </div>
+          ) : (
+            <>
+              <DistributionEventTable items={events.items} />
+              <Pagination
+                pathname="/services"
+                searchParams={query}
+                page={events.page}
+                pageCount={events.pageCount}
+                total={events.total}
+                pageSize={DISTRIBUTION_EVENT_PAGE_SIZE}
+              />
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('historyTitle')}</CardTitle>
+          <CardDescription>{t('historyDescription')}</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="text-center py-12">
-            <p className="text-muted-foreground">
-              No services logged yet. Service records will appear here.
-            </p>
+            <p className="text-muted-foreground">{t('noServices')}</p>
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,77 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { ApiKeyError, issueApiKey, revokeApiKey } from '@/lib/api/keys';
+import { requireAuth, requirePermission } from '@/lib/auth';
+import { saveNotificationPreferences } from '@/lib/notifications/preferences';
+import { prisma } from '@/lib/prisma';
+import { apiKeySchema, notificationPreferencesSchema, userPreferencesSchema } from '@/lib/validation';
+import { localizedFailure, validationFailure, type ActionResult } from '@/lib/actions';
+
+export async function updatePreferences(input: unknown): Promise<ActionResult> {
+  const user = await requireAuth();
+
+  const parsed = userPreferencesSchema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { locale: parsed.data.locale },
+  });
+
+  // Every page is rendered in the user's language.
+  revalidatePath('/', 'layout');
+  return { success: true, data: undefined };
+}
+
+export async function updateNotificationPreferences(input: unknown): Promise<ActionResult> {
+  const user = await requireAuth();
+
+  const parsed = notificationPreferencesSchema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  await saveNotificationPreferences(user.id, parsed.data);
+  revalidatePath('/settings');
+  return { success: true, data: undefined };
+}
+
+// Returns the key itself, which is never available again after this.
+export async function issueKey(input: unknown): Promise<ActionResult<{ id: string; key: string }>> {
+  const user = await requirePermission('user:manage');
+
+  const parsed = apiKeySchema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  try {
+    const issued = await issueApiKey(parsed.data, user);
+    revalidatePath('/settings');
+    return { success: true, data: issued };
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return localizedFailure(error, 'scopes');
+    }
+    throw error;
+  }
+}
+
+export async function revokeKey(id: string): Promise<ActionResult> {
+  const user = await requirePermission('user:manage');
+
+  try {
+    await revokeApiKey(id, user);
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return localizedFailure(error);
+    }
+    throw error;
+  }
+
+  revalidatePath('/settings');
+  return { success: true, data: undefined };
+}
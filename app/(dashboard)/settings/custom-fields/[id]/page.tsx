@@ -0,0 +1,77 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { getLocale, getTranslations } from 'next-intl/server';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CustomFieldArchiveButton } from '@/components/custom-fields/custom-field-archive-button';
+import { CustomFieldDefinitionForm } from '@/components/custom-fields/custom-field-definition-form';
+import { requirePermission } from '@/lib/auth';
+import { getCustomField } from '@/lib/custom-fields/definitions';
+import { programmeChoices } from '@/lib/programmes/programmes';
+import { formatDateTime } from '@/lib/utils';
+
+export default async function CustomFieldPage({ params }: { params: Promise<{ id: string }> }) {
+  await requirePermission('user:manage');
+  const { id } = await params;
+
+  const field = await getCustomField(id);
+  if (!field) {
+    notFound();
+  }
+
+  const [t, te, locale, programmes] = await Promise.all([
+    getTranslations('customFields'),
+    getTranslations('enums'),
+    getLocale(),
+    programmeChoices(),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Link
+          href="/settings/custom-fields"
+          className="inline-flex items-center text-sm text-muted-foreground hover:underline"
+        >
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          {t('backToList')}
+        </Link>
+        <h1 className="text-3xl font-bold tracking-tight">{field.label}</h1>
+        <div className="flex flex-wrap items-center gap-2">
+          {field.archivedAt ? <Badge variant="secondary">{t('archived')}</Badge> : <Badge>{t('active')}</Badge>}
+          <span className="text-sm text-muted-foreground">
+            {te(field.entity)} · {t(`types.${field.type}`)}
+          </span>
+          <code className="font-mono text-xs text-muted-foreground">{field.key}</code>
+        </div>
+        {field.archivedAt && (
+          <p className="text-sm text-muted-foreground">
+            {t('archivedAt', { time: formatDateTime(field.archivedAt, locale) })}
+          </p>
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>{t('settingsTitle')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CustomFieldDefinitionForm field={field} programmes={programmes} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{field.archivedAt ? t('restoreTitle') : t('archiveTitle')}</CardTitle>
+            <CardDescription>{t('archiveDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CustomFieldArchiveButton fieldId={field.id} archived={!!field.archivedAt} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
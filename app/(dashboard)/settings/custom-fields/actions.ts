@@ -0,0 +1,67 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requirePermission } from '@/lib/auth';
+import { actionFailure, isUniqueConstraintError, validationFailure, type ActionResult } from '@/lib/actions';
+import { createCustomField, getCustomField, setCustomFieldArchived, updateCustomField } from '@/lib/custom-fields/definitions';
+import { customFieldSchema } from '@/lib/validation';
+
+// Forms, lists and filters all read the fields, so every change refreshes them.
+function revalidateFields(id?: string) {
+  revalidatePath('/settings/custom-fields');
+  if (id) revalidatePath(`/settings/custom-fields/${id}`);
+  revalidatePath('/beneficiaries', 'layout');
+  revalidatePath('/services', 'layout');
+}
+
+export async function createField(input: unknown): Promise<ActionResult<{ id: string }>> {
+  await requirePermission('user:manage');
+
+  const parsed = customFieldSchema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  try {
+    const field = await createCustomField(parsed.data);
+    revalidateFields();
+    return { success: true, data: { id: field.id } };
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      return actionFailure('customFieldKeyTaken', { field: 'key' });
+    }
+    throw error;
+  }
+}
+
+export async function updateField(id: string, input: unknown): Promise<ActionResult> {
+  await requirePermission('user:manage');
+
+  const existing = await getCustomField(id);
+  if (!existing) {
+    return actionFailure('customFieldNotFound');
+  }
+
+  // Checked as the field is stored: the entity, key and type are fixed.
+  const parsed = customFieldSchema.safeParse({
+    ...(typeof input === 'object' && input !== null ? input : {}),
+    entity: existing.entity,
+    key: existing.key,
+    type: existing.type,
+  });
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  await updateCustomField(id, parsed.data);
+  revalidateFields(id);
+  return { success: true, data: undefined };
+}
+
+export async function setFieldArchived(id: string, archived: boolean): Promise<ActionResult> {
+  await requirePermission('user:manage');
+
+  await setCustomFieldArchived(id, archived);
+  revalidateFields(id);
+  return { success: true, data: undefined };
+}
@@ -0,0 +1,44 @@
+import { getTranslations } from 'next-intl/server';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CustomFieldDefinitionForm } from '@/components/custom-fields/custom-field-definition-form';
+import { CustomFieldList } from '@/components/custom-fields/custom-field-list';
+import { requirePermission } from '@/lib/auth';
+import { listCustomFields } from '@/lib/custom-fields/definitions';
+import { programmeChoices } from '@/lib/programmes/programmes';
+
+export default async function CustomFieldsPage() {
+  await requirePermission('user:manage');
+  const [t, fields, programmes] = await Promise.all([
+    getTranslations('customFields'),
+    listCustomFields(),
+    programmeChoices(),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+        <p className="text-muted-foreground">{t('description')}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('fieldsTitle')}</CardTitle>
+          <CardDescription>{t('archiveDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CustomFieldList fields={fields} programmes={programmes} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('addTitle')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <CustomFieldDefinitionForm programmes={programmes} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,28 +1,129 @@
+import Link from 'next/link';
+import { getTranslations } from 'next-intl/server';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ApiKeyForm } from '@/components/settings/api-key-form';
+import { ApiKeyList } from '@/components/settings/api-key-list';
+import { LanguageForm } from '@/components/settings/language-form';
+import { NotificationPreferencesForm } from '@/components/settings/notification-preferences-form';
+import { apiKeyUserScope, listApiKeys } from '@/lib/api/keys';
+import { requireAuth } from '@/lib/auth';
+import { getNotificationPreferences } from '@/lib/notifications/preferences';
+import { notificationTypesFor } from '@/lib/notifications/types';
+import { hasPermission } from '@/lib/permissions';
+import { prisma } from '@/lib/prisma';
 
 export default async function SettingsPage() {
+  const user = await requireAuth();
+  const t = await getTranslations('settings');
+  const canManageKeys = hasPermission(user.role, 'user:manage');
+  const notificationPreferences = await getNotificationPreferences(user.id);
+  const [apiKeys, users] = canManageKeys
+    ? await Promise.all([
+        listApiKeys(user),
+        prisma.user.findMany({
+          where: apiKeyUserScope(user),
+          orderBy: { name: 'asc' },
+          select: { id: true, name: true, email: true, role: true, organization: true },
+        }),
+      ])
+    : [[], []];
+
   return (
     <div className="space-y-6">
       <div>
-        <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
+        <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
         <p className="text-muted-foreground">
-          Manage your account and application preferences
+          {t('description')}
         </p>
       </div>
 
       <Card>
         <CardHeader>
-          <CardTitle>User Settings</CardTitle>
+          <CardTitle>{t('languageTitle')}</CardTitle>
           <CardDescription>
-            Update your profile and preferences
+            {t('languageDescription')}
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <p className="text-muted-foreground">
-            Settings configuration will be implemented here
-          </p>
+          <LanguageForm />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('notifications.title')}</CardTitle>
+          <CardDescription>{t('notifications.description')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <NotificationPreferencesForm types={notificationTypesFor(user.role)} preferences={notificationPreferences} />
         </CardContent>
       </Card>
+
+      {canManageKeys && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('apiKeys.title')}</CardTitle>
+            <CardDescription>
+              {t.rich('apiKeys.description', {
+                link: (chunks) => (
+                  <a href="/api/v1/openapi.json" className="text-primary hover:underline">
+                    {chunks}
+                  </a>
+                ),
+              })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <ApiKeyList apiKeys={apiKeys} />
+            <div className="border-t pt-6">
+              <h3 className="mb-4 text-sm font-semibold">{t('apiKeys.issueTitle')}</h3>
+              <ApiKeyForm users={users} />
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {canManageKeys && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('webhooksTitle')}</CardTitle>
+            <CardDescription>{t('webhooksDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/settings/webhooks" className="text-sm font-medium text-primary hover:underline">
+              {t('manageWebhooks')}
+            </Link>
+          </CardContent>
+        </Card>
+      )}
+
+      {canManageKeys && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('customFieldsTitle')}</CardTitle>
+            <CardDescription>{t('customFieldsDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/settings/custom-fields" className="text-sm font-medium text-primary hover:underline">
+              {t('manageCustomFields')}
+            </Link>
+          </CardContent>
+        </Card>
+      )}
+
+      {canManageKeys && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('questionnairesTitle')}</CardTitle>
+            <CardDescription>{t('questionnairesDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/settings/questionnaires" className="text-sm font-medium text-primary hover:underline">
+              {t('manageQuestionnaires')}
+            </Link>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
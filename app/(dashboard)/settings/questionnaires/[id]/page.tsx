@@ -0,0 +1,107 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { getLocale, getTranslations } from 'next-intl/server';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { QuestionnaireArchiveButton } from '@/components/questionnaires/questionnaire-archive-button';
+import { QuestionnaireForm } from '@/components/questionnaires/questionnaire-form';
+import { getQuestionnaire } from '@/lib/assessments/questionnaires';
+import { toQuestionnaireDefinition } from '@/lib/assessments/scoring';
+import { requirePermission } from '@/lib/auth';
+import { getEnumLabel } from '@/lib/i18n/server';
+import { formatDateTime } from '@/lib/utils';
+
+export default async function QuestionnairePage({ params }: { params: Promise<{ id: string }> }) {
+  await requirePermission('user:manage');
+  const { id } = await params;
+
+  const questionnaire = await getQuestionnaire(id);
+  if (!questionnaire) {
+    notFound();
+  }
+
+  const [t, locale, enumLabel] = await Promise.all([getTranslations('questionnaires'), getLocale(), getEnumLabel()]);
+  const [current] = questionnaire.versions;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Link
+          href="/settings/questionnaires"
+          className="inline-flex items-center text-sm text-muted-foreground hover:underline"
+        >
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          {t('backToList')}
+        </Link>
+        <h1 className="text-3xl font-bold tracking-tight">{questionnaire.name}</h1>
+        <div className="flex flex-wrap items-center gap-2">
+          {questionnaire.archivedAt ? <Badge variant="secondary">{t('archived')}</Badge> : <Badge>{t('active')}</Badge>}
+          <span className="text-sm text-muted-foreground">
+            {enumLabel(questionnaire.kind)} · {t('versionNumber', { version: questionnaire.currentVersion })}
+          </span>
+        </div>
+        {questionnaire.archivedAt && (
+          <p className="text-sm text-muted-foreground">
+            {t('archivedAt', { time: formatDateTime(questionnaire.archivedAt, locale) })}
+          </p>
+        )}
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>{t('formTitle')}</CardTitle>
+            <CardDescription>{t('editDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <QuestionnaireForm questionnaire={{ ...questionnaire, ...toQuestionnaireDefinition(current) }} />
+          </CardContent>
+        </Card>
+
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('versionsTitle')}</CardTitle>
+              <CardDescription>{t('versionsDescription')}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('fields.version')}</TableHead>
+                    <TableHead>{t('savedBy')}</TableHead>
+                    <TableHead className="text-right">{t('assessmentCount')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {questionnaire.versions.map((version) => (
+                    <TableRow key={version.id}>
+                      <TableCell className="tabular-nums">{version.version}</TableCell>
+                      <TableCell>
+                        <div>{version.createdBy.name}</div>
+                        <div className="text-xs text-muted-foreground">{formatDateTime(version.createdAt, locale)}</div>
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">{version._count.assessments}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{questionnaire.archivedAt ? t('restoreTitle') : t('archiveTitle')}</CardTitle>
+              <CardDescription>{t('archiveDescription')}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <QuestionnaireArchiveButton questionnaireId={questionnaire.id} archived={!!questionnaire.archivedAt} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requirePermission } from '@/lib/auth';
+import { actionFailure, isUniqueConstraintError, validationFailure, type ActionResult } from '@/lib/actions';
+import {
+  addQuestionnaire,
+  archiveQuestionnaire,
+  changeQuestionnaire,
+  getQuestionnaire,
+} from '@/lib/assessments/questionnaires';
+import { questionnaireSchema } from '@/lib/validation';
+
+function nameTaken(): Promise<ActionResult<never>> {
+  return actionFailure('questionnaireNameTaken', { field: 'name' });
+}
+
+function revalidateQuestionnaires(id?: string) {
+  revalidatePath('/settings/questionnaires');
+  if (id) revalidatePath(`/settings/questionnaires/${id}`);
+}
+
+export async function createQuestionnaire(input: unknown): Promise<ActionResult<{ id: string }>> {
+  const user = await requirePermission('user:manage');
+
+  const parsed = questionnaireSchema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  try {
+    const questionnaire = await addQuestionnaire(parsed.data, user);
+    revalidateQuestionnaires();
+    return { success: true, data: { id: questionnaire.id } };
+  } catch (error) {
+    if (isUniqueConstraintError(error)) return nameTaken();
+    throw error;
+  }
+}
+
+export async function updateQuestionnaire(
+  id: string,
+  input: unknown
+): Promise<ActionResult<{ version: number; newVersion: boolean }>> {
+  const user = await requirePermission('user:manage');
+
+  if (!(await getQuestionnaire(id))) {
+    return actionFailure('questionnaireNotFound');
+  }
+  const parsed = questionnaireSchema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  try {
+    const version = await changeQuestionnaire(id, parsed.data, user);
+    revalidateQuestionnaires(id);
+    return { success: true, data: { version: version.number, newVersion: version.changed } };
+  } catch (error) {
+    if (isUniqueConstraintError(error)) return nameTaken();
+    throw error;
+  }
+}
+
+export async function setQuestionnaireArchived(id: string, archived: boolean): Promise<ActionResult> {
+  await requirePermission('user:manage');
+
+  await archiveQuestionnaire(id, archived);
+  revalidateQuestionnaires(id);
+  return { success: true, data: undefined };
+}
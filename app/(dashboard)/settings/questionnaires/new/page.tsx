@@ -0,0 +1,36 @@
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { getTranslations } from 'next-intl/server';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { QuestionnaireForm } from '@/components/questionnaires/questionnaire-form';
+import { requirePermission } from '@/lib/auth';
+
+export default async function NewQuestionnairePage() {
+  await requirePermission('user:manage');
+  const t = await getTranslations('questionnaires');
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Link
+          href="/settings/questionnaires"
+          className="inline-flex items-center text-sm text-muted-foreground hover:underline"
+        >
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          {t('backToList')}
+        </Link>
+        <h1 className="text-3xl font-bold tracking-tight">{t('new')}</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('formTitle')}</CardTitle>
+          <CardDescription>{t('formDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <QuestionnaireForm />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import Link from 'next/link';
+import { getTranslations } from 'next-intl/server';
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { QuestionnaireList } from '@/components/questionnaires/questionnaire-list';
+import { listQuestionnaires } from '@/lib/assessments/questionnaires';
+import { requirePermission } from '@/lib/auth';
+
+export default async function QuestionnairesPage() {
+  await requirePermission('user:manage');
+  const [t, questionnaires] = await Promise.all([getTranslations('questionnaires'), listQuestionnaires()]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+          <p className="text-muted-foreground">{t('description')}</p>
+        </div>
+        <Button asChild>
+          <Link href="/settings/questionnaires/new">
+            <Plus className="mr-2 h-4 w-4" />
+            {t('new')}
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('listTitle')}</CardTitle>
+          <CardDescription>{t('archiveDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <QuestionnaireList questionnaires={questionnaires} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
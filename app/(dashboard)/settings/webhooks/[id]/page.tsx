@@ -0,0 +1,113 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { getLocale, getTranslations } from 'next-intl/server';
+import { Pagination } from '@/components/pagination';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { WebhookDeliveryLog } from '@/components/webhooks/webhook-delivery-log';
+import { WebhookEndpointControls } from '@/components/webhooks/webhook-endpoint-controls';
+import { WebhookEndpointForm } from '@/components/webhooks/webhook-endpoint-form';
+import { requirePermission } from '@/lib/auth';
+import { formatDateTime, type SearchParams } from '@/lib/utils';
+import { AUTO_DISABLE_AFTER_FAILURES, MAX_ATTEMPTS } from '@/lib/webhooks/delivery';
+import {
+  getWebhookEndpoint,
+  listWebhookDeliveries,
+  parseWebhookDeliveryPage,
+  WEBHOOK_DELIVERY_PAGE_SIZE,
+} from '@/lib/webhooks/endpoints';
+
+export default async function WebhookEndpointPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<SearchParams>;
+}) {
+  await requirePermission('user:manage');
+  const [{ id }, query] = await Promise.all([params, searchParams]);
+
+  const endpoint = await getWebhookEndpoint(id);
+  if (!endpoint) {
+    notFound();
+  }
+
+  const [deliveries, t, locale] = await Promise.all([
+    listWebhookDeliveries(id, parseWebhookDeliveryPage(query)),
+    getTranslations('webhooks'),
+    getLocale(),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Link href="/settings/webhooks" className="inline-flex items-center text-sm text-muted-foreground hover:underline">
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          {t('backToList')}
+        </Link>
+        <h1 className="text-3xl font-bold tracking-tight">{endpoint.name}</h1>
+        <div className="flex flex-wrap items-center gap-2">
+          {endpoint.enabled ? <Badge>{t('enabled')}</Badge> : <Badge variant="secondary">{t('disabled')}</Badge>}
+          <code className="break-all font-mono text-xs text-muted-foreground">{endpoint.url}</code>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {t('createdBy', { name: endpoint.createdBy.name, time: formatDateTime(endpoint.createdAt, locale) })}
+        </p>
+        {!endpoint.enabled && endpoint.disabledAt && (
+          <p className="text-sm text-destructive">
+            {t('disabledAt', { time: formatDateTime(endpoint.disabledAt, locale) })}
+            {endpoint.disabledReason && ` · ${endpoint.disabledReason}`}
+          </p>
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>{t('settingsTitle')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <WebhookEndpointForm endpoint={endpoint} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('controlsTitle')}</CardTitle>
+            <CardDescription>
+              {t('retryDescription', { attempts: MAX_ATTEMPTS, failures: AUTO_DISABLE_AFTER_FAILURES })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <WebhookEndpointControls endpointId={endpoint.id} enabled={endpoint.enabled} />
+            {endpoint.enabled && endpoint.consecutiveFailures > 0 && (
+              <p className="mt-4 text-xs text-muted-foreground">
+                {t('failuresInARow', { count: endpoint.consecutiveFailures })}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('deliveriesTitle')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <WebhookDeliveryLog endpointId={endpoint.id} deliveries={deliveries.items} />
+          {deliveries.total > 0 && (
+            <Pagination
+              pathname={`/settings/webhooks/${endpoint.id}`}
+              searchParams={query}
+              page={deliveries.page}
+              pageCount={deliveries.pageCount}
+              total={deliveries.total}
+              pageSize={WEBHOOK_DELIVERY_PAGE_SIZE}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
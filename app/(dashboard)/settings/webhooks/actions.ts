@@ -0,0 +1,81 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requirePermission } from '@/lib/auth';
+import { validationFailure, type ActionResult } from '@/lib/actions';
+import { webhookEndpointSchema } from '@/lib/validation';
+import { redeliverWebhook, sendTestEvent, type AttemptResult } from '@/lib/webhooks/delivery';
+import {
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  rotateWebhookSecret,
+  setWebhookEndpointEnabled,
+  updateWebhookEndpoint,
+} from '@/lib/webhooks/endpoints';
+
+export async function createEndpoint(input: unknown): Promise<ActionResult<{ id: string; secret: string }>> {
+  const user = await requirePermission('user:manage');
+
+  const parsed = webhookEndpointSchema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  const created = await createWebhookEndpoint(parsed.data, user);
+  revalidatePath('/settings/webhooks');
+  return { success: true, data: created };
+}
+
+export async function updateEndpoint(id: string, input: unknown): Promise<ActionResult> {
+  await requirePermission('user:manage');
+
+  const parsed = webhookEndpointSchema.safeParse(input);
+  if (!parsed.success) {
+    return validationFailure(parsed.error);
+  }
+
+  await updateWebhookEndpoint(id, parsed.data);
+  revalidatePath('/settings/webhooks');
+  revalidatePath(`/settings/webhooks/${id}`);
+  return { success: true, data: undefined };
+}
+
+export async function setEndpointEnabled(id: string, enabled: boolean): Promise<ActionResult> {
+  await requirePermission('user:manage');
+
+  await setWebhookEndpointEnabled(id, enabled);
+  revalidatePath('/settings/webhooks');
+  revalidatePath(`/settings/webhooks/${id}`);
+  return { success: true, data: undefined };
+}
+
+export async function rotateSecret(id: string): Promise<ActionResult<{ secret: string }>> {
+  await requirePermission('user:manage');
+
+  const secret = await rotateWebhookSecret(id);
+  return { success: true, data: { secret } };
+}
+
+export async function deleteEndpoint(id: string): Promise<ActionResult> {
+  await requirePermission('user:manage');
+
+  await deleteWebhookEndpoint(id);
+  revalidatePath('/settings/webhooks');
+  return { success: true, data: undefined };
+}
+
+export async function sendTest(id: string): Promise<ActionResult<AttemptResult>> {
+  await requirePermission('user:manage');
+
+  const outcome = await sendTestEvent(id);
+  revalidatePath(`/settings/webhooks/${id}`);
+  return { success: true, data: outcome };
+}
+
+export async function redeliver(endpointId: string, deliveryId: string): Promise<ActionResult<AttemptResult>> {
+  await requirePermission('user:manage');
+
+  const outcome = await redeliverWebhook(deliveryId);
+  revalidatePath(`/settings/webhooks/${endpointId}`);
+  return { success: true, data: outcome };
+}
@@ -0,0 +1,39 @@
+import { getTranslations } from 'next-intl/server';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { WebhookEndpointForm } from '@/components/webhooks/webhook-endpoint-form';
+import { WebhookEndpointList } from '@/components/webhooks/webhook-endpoint-list';
+import { requirePermission } from '@/lib/auth';
+import { listWebhookEndpoints } from '@/lib/webhooks/endpoints';
+
+export default async function WebhooksPage() {
+  await requirePermission('user:manage');
+  const [t, endpoints] = await Promise.all([getTranslations('webhooks'), listWebhookEndpoints()]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+        <p className="text-muted-foreground">{t('description')}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('endpointsTitle')}</CardTitle>
+          <CardDescription>{t('signingDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <WebhookEndpointList endpoints={endpoints} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('addTitle')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <WebhookEndpointForm />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
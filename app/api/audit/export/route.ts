@@ -0,0 +1,51 @@
+import Papa from 'papaparse';
+import { format } from 'date-fns';
+import { getCurrentUser } from '@/lib/auth';
+import { AUDIT_ACTIONS, logAudit } from '@/lib/audit/log';
+import { auditScope, buildAuditWhere, MAX_AUDIT_EXPORT_ROWS, parseAuditListParams } from '@/lib/audit/query';
+import { hasPermission } from '@/lib/permissions';
+import { prisma } from '@/lib/prisma';
+
+export async function GET(request: Request) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+  if (!hasPermission(user.role, 'audit:read') || !hasPermission(user.role, 'export')) {
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  const params = parseAuditListParams(Object.fromEntries(new URL(request.url).searchParams));
+  const entries = await prisma.auditLog.findMany({
+    where: { AND: [buildAuditWhere(params), await auditScope(user)] },
+    orderBy: [{ timestamp: 'desc' }, { id: 'asc' }],
+    take: MAX_AUDIT_EXPORT_ROWS,
+  });
+
+  const csv = Papa.unparse(
+    entries.map((entry) => ({
+      timestamp: entry.timestamp.toISOString(),
+      userId: entry.userId,
+      action: entry.action,
+      entityType: entry.entityType ?? '',
+      entityId: entry.entityId ?? '',
+      ipAddress: entry.ipAddress ?? '',
+      userAgent: entry.userAgent ?? '',
+      details: JSON.stringify(entry.details),
+    }))
+  );
+
+  // The export itself is an auditable event: audit entries carry personal data.
+  await logAudit(AUDIT_ACTIONS.dataExported, {
+    export: 'audit_log',
+    rows: entries.length,
+    filters: JSON.parse(JSON.stringify({ ...params, page: undefined })),
+  });
+
+  return new Response(csv, {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="audit-log-${format(new Date(), 'yyyyMMdd-HHmm')}.csv"`,
+    },
+  });
+}
@@ -0,0 +1,67 @@
+import { getCurrentUser } from '@/lib/auth';
+import { AUDIT_ACTIONS, logAudit } from '@/lib/audit/log';
+import { hasPermission } from '@/lib/permissions';
+import { prisma } from '@/lib/prisma';
+import { dataRequestScope } from '@/lib/data-requests/requests';
+import {
+  collectSubjectData,
+  exportSubjectData,
+  subjectExportContentTypes,
+  subjectExportFilename,
+  subjectExportFormats,
+  type SubjectExportFormat,
+} from '@/lib/data-requests/subject-export';
+
+// ?format=json|pdf. The personal data export for an approved access request;
+// it stays downloadable once the request is completed, until the person's
+// record is erased.
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+  if (!hasPermission(user.role, 'data_request:manage') || !hasPermission(user.role, 'export')) {
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  const { id } = await params;
+  const dataRequest = await prisma.dataRequest.findFirst({
+    where: { AND: [{ id }, dataRequestScope(user)] },
+    select: { type: true, status: true, beneficiaryId: true, beneficiary: { select: { anonymizedAt: true } } },
+  });
+  if (!dataRequest || dataRequest.type !== 'ACCESS' || !dataRequest.beneficiaryId) {
+    return new Response('Not found', { status: 404 });
+  }
+  if (dataRequest.status !== 'APPROVED' && dataRequest.status !== 'COMPLETED') {
+    return new Response('The request has not been approved', { status: 409 });
+  }
+  if (dataRequest.beneficiary?.anonymizedAt) {
+    return new Response('The beneficiary has been erased', { status: 410 });
+  }
+
+  const requested = new URL(request.url).searchParams.get('format');
+  const exportFormat: SubjectExportFormat = subjectExportFormats.find((f) => f === requested) ?? 'json';
+
+  const data = await collectSubjectData(dataRequest.beneficiaryId);
+  if (!data) {
+    return new Response('Not found', { status: 404 });
+  }
+  const body = await exportSubjectData(data, exportFormat, {
+    requestId: id,
+    generatedBy: user.name ?? user.email ?? 'Unknown',
+  });
+
+  await logAudit(AUDIT_ACTIONS.dataExported, {
+    export: 'data_request',
+    dataRequestId: id,
+    format: exportFormat,
+  }, { entityType: 'Beneficiary', entityId: dataRequest.beneficiaryId });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': subjectExportContentTypes[exportFormat],
+      'Content-Disposition': `attachment; filename="${subjectExportFilename(data, exportFormat)}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
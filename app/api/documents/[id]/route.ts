@@ -0,0 +1,55 @@
+import { canAccessBeneficiary } from '@/lib/access';
+import { getCurrentUser } from '@/lib/auth';
+import { AUDIT_ACTIONS, logAudit } from '@/lib/audit/log';
+import { canViewDocumentType } from '@/lib/document-types';
+import { hasPermission } from '@/lib/permissions';
+import { prisma } from '@/lib/prisma';
+import { getStorage } from '@/lib/storage';
+
+// Streams a stored document to someone allowed to see it. Files are never
+// linked to directly: every request is checked against the session, the
+// beneficiary's record scope and the document type. ?disposition=inline
+// shows it in the browser (previews, profile photos) instead of downloading.
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+  if (!hasPermission(user.role, 'document:read')) {
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  const { id } = await params;
+  const document = await prisma.document.findUnique({ where: { id } });
+  // Out-of-scope documents 404 like out-of-scope records.
+  if (!document || !(await canAccessBeneficiary(user, document.beneficiaryId))) {
+    return new Response('Not found', { status: 404 });
+  }
+  if (!canViewDocumentType(user.role, document.type)) {
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  const inline = new URL(request.url).searchParams.get('disposition') === 'inline';
+  const body = await getStorage().get(document.url);
+
+  // Photos are shown on the profile page on every visit; everything else is
+  // an identity or personal record and each opening is logged.
+  if (document.type !== 'photo') {
+    await logAudit(
+      AUDIT_ACTIONS.documentDownloaded,
+      { type: document.type, inline },
+      { entityType: 'Document', entityId: document.id }
+    );
+  }
+
+  const filename = encodeURIComponent(document.name);
+  return new Response(body, {
+    headers: {
+      'Content-Type': document.mimeType,
+      'Content-Length': String(document.size),
+      'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${filename}`,
+      'Cache-Control': 'private, no-store',
+      'X-Content-Type-Options': 'nosniff',
+    },
+  });
+}
@@ -0,0 +1,16 @@
+import { sendDailyDigests } from '@/lib/notifications/digest';
+
+// The daily digest. Schedule a GET once a day, e.g. early morning, with
+//
+//   Authorization: Bearer $CRON_SECRET
+//
+// Running it twice in a day sends everyone a second digest.
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const sent = await sendDailyDigests();
+  return Response.json({ sent });
+}
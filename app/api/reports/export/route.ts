@@ -0,0 +1,64 @@
+import { getCurrentUser } from '@/lib/auth';
+import { AUDIT_ACTIONS, logAudit } from '@/lib/audit/log';
+import { hasPermission } from '@/lib/permissions';
+import { prisma } from '@/lib/prisma';
+import { parseReportParams } from '@/lib/reports/definition';
+import { exportReport, reportContentTypes, reportFilename, reportFormats, type ReportFormat } from '@/lib/reports/export';
+import { getFilterNames, getReportLocale, parseSavedReportParams, runReport } from '@/lib/reports/query';
+
+// ?format=csv|xlsx|pdf with the builder's report parameters. A reportId names
+// the file after a saved definition, and runs it as saved when no parameters
+// are given.
+export async function GET(request: Request) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+  if (!hasPermission(user.role, 'report:read') || !hasPermission(user.role, 'export')) {
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  const requested = searchParams.get('format');
+  const exportFormat: ReportFormat = reportFormats.find((f) => f === requested) ?? 'csv';
+
+  const reportId = searchParams.get('reportId');
+  const definition = reportId
+    ? await prisma.reportDefinition.findUnique({ where: { id: reportId }, select: { id: true, name: true, parameters: true } })
+    : null;
+  if (reportId && !definition) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const query = Object.fromEntries([...new Set(searchParams.keys())].map((key) => [key, searchParams.getAll(key)]));
+  const params = definition && !searchParams.has('source')
+    ? parseSavedReportParams(definition.parameters)
+    : parseReportParams(query);
+
+  const labels = await getReportLocale();
+  const { t } = labels;
+  const [result, names] = await Promise.all([runReport(params, user, labels), getFilterNames(params)]);
+  const title = definition?.name ?? t('export.defaultTitle', { source: t(`sources.${params.source}`) });
+  const body = await exportReport(
+    result,
+    exportFormat,
+    { title, generatedBy: user.name ?? user.email ?? t('export.unknownUser'), names },
+    labels
+  );
+
+  // Reports are aggregates, but the export is still recorded like any other.
+  await logAudit(AUDIT_ACTIONS.dataExported, {
+    export: 'report',
+    format: exportFormat,
+    reportId: definition?.id ?? null,
+    rows: result.rows.length,
+    parameters: JSON.parse(JSON.stringify(params)),
+  }, definition ? { entityType: 'ReportDefinition', entityId: definition.id } : {});
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': reportContentTypes[exportFormat],
+      'Content-Disposition': `attachment; filename="${reportFilename(title, exportFormat)}"`,
+    },
+  });
+}
@@ -0,0 +1,17 @@
+import { apiBeneficiaryCountry, getApiBeneficiary, updateApiBeneficiary } from '@/lib/api/beneficiaries';
+import { apiRoute, parseInput, readBody } from '@/lib/api/handler';
+import { getCustomFields } from '@/lib/custom-fields/definitions';
+import { currentProgrammeIds } from '@/lib/programmes/enrolments';
+import { beneficiarySchemaFor } from '@/lib/validation';
+
+export const GET = apiRoute<{ id: string }>('beneficiary:read', async ({ params, apiKey, actor }) => {
+  return Response.json({ data: await getApiBeneficiary(params.id, apiKey, actor) });
+});
+
+export const PUT = apiRoute<{ id: string }>('beneficiary:update', async ({ request, params, apiKey, actor }) => {
+  const body = await readBody(request);
+  const country = await apiBeneficiaryCountry(params.id, actor);
+  const schema = beneficiarySchemaFor(country, await getCustomFields('BENEFICIARY'), await currentProgrammeIds(params.id));
+  const input = await parseInput(body, schema);
+  return Response.json({ data: await updateApiBeneficiary(params.id, input, apiKey, actor) });
+});
@@ -0,0 +1,16 @@
+import { apiBeneficiaryBranch, createApiBeneficiary, listApiBeneficiaries } from '@/lib/api/beneficiaries';
+import { apiRoute, paginated, parseInput, readBody, searchParamsOf } from '@/lib/api/handler';
+import { getCustomFields } from '@/lib/custom-fields/definitions';
+import { beneficiarySchemaFor } from '@/lib/validation';
+
+export const GET = apiRoute('beneficiary:read', async ({ request, apiKey, actor }) => {
+  const { items, total, paging } = await listApiBeneficiaries(searchParamsOf(request), apiKey, actor);
+  return paginated(items, total, paging);
+});
+
+export const POST = apiRoute('beneficiary:create', async ({ request, apiKey, actor }) => {
+  const body = await readBody(request);
+  const branch = await apiBeneficiaryBranch(body, actor);
+  const input = await parseInput(body, beneficiarySchemaFor(branch.country, await getCustomFields('BENEFICIARY')));
+  return Response.json({ data: await createApiBeneficiary(input, branch, apiKey, actor) }, { status: 201 });
+});
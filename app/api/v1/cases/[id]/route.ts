@@ -0,0 +1,12 @@
+import { getApiCase, updateApiCaseStatus } from '@/lib/api/cases';
+import { apiRoute, parseBody } from '@/lib/api/handler';
+import { caseStatusChangeSchema } from '@/lib/validation';
+
+export const GET = apiRoute<{ id: string }>('case:read', async ({ params, actor }) => {
+  return Response.json({ data: await getApiCase(params.id, actor) });
+});
+
+export const PATCH = apiRoute<{ id: string }>('case:update', async ({ request, params, actor }) => {
+  const input = await parseBody(request, caseStatusChangeSchema);
+  return Response.json({ data: await updateApiCaseStatus(params.id, input, actor) });
+});
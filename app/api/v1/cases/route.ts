@@ -0,0 +1,13 @@
+import { createApiCase, listApiCases } from '@/lib/api/cases';
+import { apiRoute, paginated, parseBody, searchParamsOf } from '@/lib/api/handler';
+import { caseSchema } from '@/lib/validation';
+
+export const GET = apiRoute('case:read', async ({ request, actor }) => {
+  const { items, total, paging } = await listApiCases(searchParamsOf(request), actor);
+  return paginated(items, total, paging);
+});
+
+export const POST = apiRoute('case:create', async ({ request, actor }) => {
+  const input = await parseBody(request, caseSchema);
+  return Response.json({ data: await createApiCase(input, actor) }, { status: 201 });
+});
@@ -0,0 +1,6 @@
+import { buildOpenApiDocument } from '@/lib/api/openapi';
+
+// Public, like any API reference: it describes the API, not anyone's data.
+export function GET(request: Request) {
+  return Response.json(buildOpenApiDocument(new URL('/api/v1', request.url).toString()));
+}
@@ -0,0 +1,13 @@
+import { apiRoute, parseBody } from '@/lib/api/handler';
+import { getApiService, updateApiService } from '@/lib/api/services';
+import { getCustomFields } from '@/lib/custom-fields/definitions';
+import { serviceSchemaFor } from '@/lib/validation';
+
+export const GET = apiRoute<{ id: string }>('service:read', async ({ params, actor }) => {
+  return Response.json({ data: await getApiService(params.id, actor) });
+});
+
+export const PUT = apiRoute<{ id: string }>('service:update', async ({ request, params, actor }) => {
+  const input = await parseBody(request, serviceSchemaFor(await getCustomFields('SERVICE')));
+  return Response.json({ data: await updateApiService(params.id, input, actor) });
+});
@@ -0,0 +1,14 @@
+import { apiRoute, paginated, parseBody, searchParamsOf } from '@/lib/api/handler';
+import { createApiService, listApiServices } from '@/lib/api/services';
+import { getCustomFields } from '@/lib/custom-fields/definitions';
+import { serviceSchemaFor } from '@/lib/validation';
+
+export const GET = apiRoute('service:read', async ({ request, actor }) => {
+  const { items, total, paging } = await listApiServices(searchParamsOf(request), actor);
+  return paginated(items, total, paging);
+});
+
+export const POST = apiRoute('service:create', async ({ request, actor }) => {
+  const input = await parseBody(request, serviceSchemaFor(await getCustomFields('SERVICE')));
+  return Response.json({ data: await createApiService(input, actor) }, { status: 201 });
+});
@@ -0,0 +1,17 @@
+import { deliverDueWebhooks } from '@/lib/webhooks/delivery';
+
+// Retries are picked up here, so schedule a GET every minute or so with
+//
+//   Authorization: Bearer $CRON_SECRET
+//
+// (Vercel Cron sends that header itself). Fresh deliveries go out as soon as
+// they're queued and don't wait for this.
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const attempted = await deliverDueWebhooks();
+  return Response.json({ attempted });
+}
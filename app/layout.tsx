@@ -1,24 +1,36 @@
 import type { Metadata } from "next";
 import { Inter } from "next/font/google";
+import { NextIntlClientProvider } from 'next-intl';
+import { getLocale, getMessages, getTranslations } from 'next-intl/server';
 import "./globals.css";
 import { Analytics } from '@vercel/analytics/react';
+import { ZodErrorMessages } from '@/components/zod-error-messages';
 
 const inter = Inter({ subsets: ["latin"] });
 
-export const metadata: Metadata = {
-  title: "MyFundAction - Beneficiary Management System",
-  description: "Centralized beneficiary and case management system for MyFundAction NGO",
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const t = await getTranslations('metadata');
+  return {
+    title: t('title'),
+    description: t('description'),
+  };
+}
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await getLocale();
+  const messages = await getMessages();
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body className={inter.className}>
-        {children}
+        <NextIntlClientProvider messages={messages}>
+          <ZodErrorMessages />
+          {children}
+        </NextIntlClientProvider>
         <Analytics />
       </body>
     </html>
@@ -2,21 +2,24 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
+import { useTranslations } from 'next-intl';
 
 export default function LoginPage() {
+  const t = useTranslations('login');
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-gray-50">
       <Card className="w-full max-w-md">
         <CardHeader className="space-y-1">
-          <CardTitle className="text-2xl font-bold">MyFundAction</CardTitle>
+          <CardTitle className="text-2xl font-bold">{t('title')}</CardTitle>
           <CardDescription>
-            Beneficiary Management System
+            {t('description')}
           </CardDescription>
         </CardHeader>
         <CardContent>
           <form action="/api/auth/signin" method="POST" className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
+              <Label htmlFor="email">{t('email')}</Label>
               <Input
                 id="email"
                 name="email"
@@ -26,7 +29,7 @@ export default function LoginPage() {
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
+              <Label htmlFor="password">{t('password')}</Label>
               <Input
                 id="password"
                 name="password"
@@ -35,11 +38,11 @@ export default function LoginPage() {
               />
             </div>
             <Button type="submit" className="w-full">
-              Sign In
+              {t('signIn')}
             </Button>
           </form>
           <p className="mt-4 text-center text-sm text-muted-foreground">
-            Contact your administrator for access credentials
+            {t('help')}
           </p>
         </CardContent>
       </Card>
@@ -0,0 +1,18 @@
+import type { MetadataRoute } from 'next';
+import { getTranslations } from 'next-intl/server';
+
+// Makes the app installable. Installed, it opens on the dashboard, or on the
+// field capture page when there's no signal (see public/sw.js).
+export default async function manifest(): Promise<MetadataRoute.Manifest> {
+  const t = await getTranslations('metadata');
+  return {
+    name: t('title'),
+    short_name: t('shortName'),
+    description: t('description'),
+    start_url: '/dashboard',
+    display: 'standalone',
+    background_color: '#ffffff',
+    theme_color: '#2563eb',
+    icons: [{ src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' }],
+  };
+}
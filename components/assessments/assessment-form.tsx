@@ -0,0 +1,255 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Loader2, Save } from 'lucide-react';
+import type { Priority } from '@prisma/client';
+import { completeAssessment } from '@/app/(dashboard)/beneficiaries/[id]/assessments/actions';
+import { FormField } from '@/components/form-field';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { NativeSelect } from '@/components/ui/native-select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  priorities,
+  scoreAssessment,
+  type AssessmentAnswers,
+  type AssessmentQuestion,
+  type QuestionnaireDefinition,
+} from '@/lib/assessments/scoring';
+import { useEnumLabel } from '@/lib/i18n/labels';
+import { assessmentSchemaFor } from '@/lib/validation';
+
+type FieldErrors = Record<string, string | undefined>;
+
+interface AssessmentFormProps {
+  beneficiaryId: string;
+  dateOfBirth: Date | null;
+  questionnaire: QuestionnaireDefinition & { versionId: string };
+  // The beneficiary's open cases, any of which can take the priority too.
+  cases: { id: string; title: string }[];
+  defaultCaseId?: string;
+}
+
+// Filling in a questionnaire. The score and suggested priority follow the
+// answers as they're given; the server works them out again on saving.
+export function AssessmentForm({ beneficiaryId, dateOfBirth, questionnaire, cases, defaultCaseId }: AssessmentFormProps) {
+  const t = useTranslations('assessments');
+  const enumLabel = useEnumLabel();
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [answers, setAnswers] = useState<AssessmentAnswers>({});
+  // Null follows the suggestion.
+  const [chosenPriority, setChosenPriority] = useState<Priority | null>(null);
+  const [overrideReason, setOverrideReason] = useState('');
+  const [caseId, setCaseId] = useState(defaultCaseId ?? '');
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+  const result = scoreAssessment(questionnaire, answers, { dateOfBirth });
+  const priority = chosenPriority ?? result.suggestedPriority;
+  const overridden = priority !== result.suggestedPriority;
+
+  const answer = (key: string, value: string | string[]) => setAnswers((current) => ({ ...current, [key]: value }));
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setFieldErrors({});
+    const input = {
+      questionnaireVersionId: questionnaire.versionId,
+      beneficiaryId,
+      caseId: caseId || null,
+      answers,
+      priority,
+      overrideReason: overridden ? overrideReason : null,
+    };
+
+    const parsed = assessmentSchemaFor(questionnaire.questions).safeParse(input);
+    const errors: FieldErrors = {};
+    for (const issue of parsed.error?.issues ?? []) {
+      errors[issue.path.join('.')] ??= issue.message;
+    }
+    if (overridden && !overrideReason.trim()) {
+      errors.overrideReason = t('overrideReasonRequired');
+    }
+    if (Object.keys(errors).length > 0) {
+      setFieldErrors(errors);
+      return;
+    }
+
+    startTransition(async () => {
+      const saved = await completeAssessment(input);
+      if (!saved.success) {
+        setError(saved.error);
+        setFieldErrors(
+          Object.fromEntries(Object.entries(saved.fieldErrors ?? {}).map(([field, messages]) => [field, messages?.[0]]))
+        );
+        return;
+      }
+      router.push(`/beneficiaries/${beneficiaryId}`);
+      router.refresh();
+    });
+  };
+
+  return (
+    <form onSubmit={onSubmit} noValidate className="space-y-6">
+      <div className="space-y-5">
+        {questionnaire.questions.map((question, index) => (
+          <QuestionInput
+            key={question.key}
+            number={index + 1}
+            question={question}
+            value={answers[question.key]}
+            error={fieldErrors[`answers.${question.key}`]}
+            onChange={(value) => answer(question.key, value)}
+          />
+        ))}
+        {fieldErrors.answers && <p className="text-sm text-destructive">{fieldErrors.answers}</p>}
+      </div>
+
+      <div className="space-y-4 rounded-md border p-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-sm text-muted-foreground">{t('score')}</span>
+          <span className="text-2xl font-bold tabular-nums">{result.score}</span>
+          <span className="text-sm text-muted-foreground">{t('suggested')}</span>
+          <Badge variant={result.suggestedPriority === 'URGENT' ? 'destructive' : 'outline'}>
+            {enumLabel(result.suggestedPriority)}
+          </Badge>
+        </div>
+        {result.matchedRules.length > 0 && (
+          <div className="space-y-1 text-sm">
+            <p className="text-muted-foreground">{t('rulesMet')}</p>
+            <ul className="list-inside list-disc">
+              {result.matchedRules.map((rule) => (
+                <li key={rule.label}>
+                  {rule.label} → {enumLabel(rule.priority)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            label={t('priority')}
+            htmlFor="assessmentPriority"
+            error={fieldErrors.priority}
+            hint={t('priorityHint')}
+            required
+          >
+            <NativeSelect
+              id="assessmentPriority"
+              value={priority}
+              onChange={(e) => setChosenPriority(e.target.value as Priority)}
+            >
+              {priorities.map((value) => (
+                <option key={value} value={value}>
+                  {value === result.suggestedPriority ? t('suggestedOption', { priority: enumLabel(value) }) : enumLabel(value)}
+                </option>
+              ))}
+            </NativeSelect>
+          </FormField>
+          {cases.length > 0 && (
+            <FormField label={t('case')} htmlFor="assessmentCase" error={fieldErrors.caseId} hint={t('caseHint')}>
+              <NativeSelect id="assessmentCase" value={caseId} onChange={(e) => setCaseId(e.target.value)}>
+                <option value="">{t('noCase')}</option>
+                {cases.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.title}
+                  </option>
+                ))}
+              </NativeSelect>
+            </FormField>
+          )}
+        </div>
+
+        {overridden && (
+          <FormField
+            label={t('overrideReason')}
+            htmlFor="assessmentOverrideReason"
+            error={fieldErrors.overrideReason}
+            hint={t('overrideReasonHint', { priority: enumLabel(result.suggestedPriority) })}
+            required
+          >
+            <Textarea
+              id="assessmentOverrideReason"
+              rows={2}
+              maxLength={2000}
+              value={overrideReason}
+              onChange={(e) => setOverrideReason(e.target.value)}
+            />
+          </FormField>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Button type="submit" disabled={isPending}>
+          {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          {t('save')}
+        </Button>
+        {error && (
+          <p role="alert" className="text-sm text-destructive">
+            {error}
+          </p>
+        )}
+      </div>
+    </form>
+  );
+}
+
+interface QuestionInputProps {
+  number: number;
+  question: AssessmentQuestion;
+  value: string | string[] | undefined;
+  error?: string;
+  onChange: (value: string | string[]) => void;
+}
+
+function QuestionInput({ number, question, value, error, onChange }: QuestionInputProps) {
+  const t = useTranslations('assessments');
+  const name = `answer-${question.key}`;
+  const chosen = value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+  return (
+    <fieldset className="space-y-2" aria-invalid={!!error} aria-describedby={error ? `${name}-error` : undefined}>
+      <legend className="text-sm font-medium">
+        {number}. {question.label}
+        {question.required && <span className="ml-0.5 text-destructive">*</span>}
+      </legend>
+      {question.type === 'MULTIPLE_CHOICE' && <p className="text-xs text-muted-foreground">{t('chooseAll')}</p>}
+      <div className="grid gap-1 sm:grid-cols-2">
+        {question.options.map((option) => (
+          <label key={option.label} className="flex items-center gap-2 text-sm">
+            {question.type === 'SINGLE_CHOICE' ? (
+              <input
+                type="radio"
+                name={name}
+                checked={chosen.includes(option.label)}
+                onChange={() => onChange(option.label)}
+              />
+            ) : (
+              <input
+                type="checkbox"
+                name={name}
+                checked={chosen.includes(option.label)}
+                onChange={(e) =>
+                  onChange(
+                    e.target.checked ? [...chosen, option.label] : chosen.filter((label) => label !== option.label)
+                  )
+                }
+              />
+            )}
+            {option.label}
+          </label>
+        ))}
+      </div>
+      {error && (
+        <p id={`${name}-error`} className="text-sm text-destructive">
+          {error}
+        </p>
+      )}
+    </fieldset>
+  );
+}
@@ -0,0 +1,85 @@
+import Link from 'next/link';
+import { useLocale, useTranslations } from 'next-intl';
+import { Minus, TrendingDown, TrendingUp } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { BeneficiaryAssessment } from '@/lib/assessments/assessments';
+import type { AssessmentTrend } from '@/lib/assessments/scoring';
+import { useEnumLabel } from '@/lib/i18n/labels';
+import { cn, formatDateTime } from '@/lib/utils';
+
+const trendStyles: Record<AssessmentTrend, { icon: typeof Minus; className: string }> = {
+  IMPROVING: { icon: TrendingDown, className: 'border-green-600/40 text-green-700' },
+  WORSENING: { icon: TrendingUp, className: 'border-destructive/40 text-destructive' },
+  UNCHANGED: { icon: Minus, className: 'text-muted-foreground' },
+};
+
+export function TrendBadge({ trend }: { trend: AssessmentTrend }) {
+  const t = useTranslations('assessments.trends');
+  const { icon: Icon, className } = trendStyles[trend];
+  return (
+    <Badge variant="outline" className={cn('gap-1 font-normal', className)}>
+      <Icon className="h-3 w-3" />
+      {t(trend)}
+    </Badge>
+  );
+}
+
+// A beneficiary's assessments, newest first, each against the one before it on
+// the same questionnaire.
+export function AssessmentHistory({ assessments }: { assessments: BeneficiaryAssessment[] }) {
+  const t = useTranslations('assessments');
+  const locale = useLocale();
+  const enumLabel = useEnumLabel();
+
+  if (assessments.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t('empty')}</p>;
+  }
+
+  return (
+    <ul className="divide-y">
+      {assessments.map((assessment) => {
+        const { questionnaire, version } = assessment.questionnaireVersion;
+        return (
+          <li key={assessment.id} className="flex flex-col gap-2 py-3 sm:flex-row sm:items-center sm:justify-between">
+            <div className="space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <Link
+                  href={`/beneficiaries/${assessment.beneficiaryId}/assessments/${assessment.id}`}
+                  className="font-medium hover:underline"
+                >
+                  {questionnaire.name}
+                </Link>
+                <span className="text-xs text-muted-foreground">{t('versionShort', { version })}</span>
+                {assessment.trend && <TrendBadge trend={assessment.trend} />}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {t('assessedBy', {
+                  name: assessment.assessedBy.name,
+                  time: formatDateTime(assessment.createdAt, locale),
+                })}
+                {assessment.case && ` · ${assessment.case.title}`}
+              </p>
+              {assessment.previousScore !== null && (
+                <p className="text-xs text-muted-foreground">
+                  {t('comparedWith', { score: assessment.previousScore })}
+                  {assessment.versionChanged && ` ${t('versionChanged')}`}
+                </p>
+              )}
+            </div>
+            <div className="flex items-center gap-3 text-sm">
+              <span className="tabular-nums">{t('scoreValue', { score: assessment.score })}</span>
+              <Badge variant={assessment.priority === 'URGENT' ? 'destructive' : 'outline'}>
+                {enumLabel(assessment.priority)}
+              </Badge>
+              {assessment.priority !== assessment.suggestedPriority && (
+                <span className="text-xs text-muted-foreground">
+                  {t('suggestedWas', { priority: enumLabel(assessment.suggestedPriority) })}
+                </span>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
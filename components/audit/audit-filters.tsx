@@ -0,0 +1,84 @@
+import Link from 'next/link';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { NativeSelect } from '@/components/ui/native-select';
+import type { AuditListParams } from '@/lib/audit/query';
+import { useEnumLabel } from '@/lib/i18n/labels';
+
+interface AuditFiltersProps {
+  params: AuditListParams;
+  users: { id: string; name: string }[];
+  entityTypes: readonly string[];
+  actions: string[];
+}
+
+export function AuditFilters({ params, users, entityTypes, actions }: AuditFiltersProps) {
+  const t = useTranslations('audit');
+  const tc = useTranslations('common');
+  const enumLabel = useEnumLabel();
+
+  return (
+    <form method="GET" className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-6">
+        <div className="space-y-1">
+          <Label htmlFor="userId">{t('user')}</Label>
+          <NativeSelect id="userId" name="userId" defaultValue={params.userId ?? ''}>
+            <option value="">{tc('anyone')}</option>
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.name}
+              </option>
+            ))}
+            <option value="system">{t('users.system')}</option>
+            <option value="anonymous">{t('users.anonymous')}</option>
+          </NativeSelect>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="entityType">{t('entity')}</Label>
+          <NativeSelect id="entityType" name="entityType" defaultValue={params.entityType ?? ''}>
+            <option value="">{tc('all')}</option>
+            {entityTypes.map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </NativeSelect>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="entityId">{t('recordId')}</Label>
+          <Input id="entityId" name="entityId" defaultValue={params.entityId} placeholder={tc('any')} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="action">{t('action')}</Label>
+          <NativeSelect id="action" name="action" defaultValue={params.action ?? ''}>
+            <option value="">{tc('all')}</option>
+            {actions.map((value) => (
+              <option key={value} value={value}>
+                {enumLabel(value)}
+              </option>
+            ))}
+          </NativeSelect>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="from">{t('from')}</Label>
+          <Input id="from" name="from" type="date" defaultValue={params.from} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="to">{t('to')}</Label>
+          <Input id="to" name="to" type="date" defaultValue={params.to} />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="submit" variant="secondary" size="sm">
+          {tc('applyFilters')}
+        </Button>
+        <Button asChild variant="ghost" size="sm">
+          <Link href="/audit">{tc('clear')}</Link>
+        </Button>
+      </div>
+    </form>
+  );
+}
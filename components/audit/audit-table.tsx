@@ -0,0 +1,129 @@
+import Link from 'next/link';
+import { useLocale, useTranslations } from 'next-intl';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { AuditChanges } from '@/lib/audit/extension';
+import type { AuditLogEntry } from '@/lib/audit/query';
+import { useEnumLabel } from '@/lib/i18n/labels';
+import { formatDateTime } from '@/lib/utils';
+
+const entityPaths: Record<string, string> = {
+  Beneficiary: '/beneficiaries',
+  Case: '/cases',
+  DataRequest: '/data-requests',
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+function actionVariant(action: string) {
+  if (action.endsWith('_DELETED') || action === 'LOGIN_FAILED') return 'destructive' as const;
+  if (action.endsWith('_CREATED')) return 'default' as const;
+  return 'secondary' as const;
+}
+
+function AuditDetails({ details }: { details: AuditLogEntry['details'] }) {
+  const t = useTranslations('audit');
+  if (!details || typeof details !== 'object' || Array.isArray(details)) {
+    return <span className="text-muted-foreground">{formatValue(details)}</span>;
+  }
+
+  const { changes, ...rest } = details as { changes?: AuditChanges } & Record<string, unknown>;
+  const changedFields = Object.entries(changes ?? {});
+  const extra = Object.entries(rest);
+  if (changedFields.length === 0 && extra.length === 0) {
+    return <span className="text-muted-foreground">{t('noFieldChanges')}</span>;
+  }
+
+  return (
+    <details className="text-xs">
+      <summary className="cursor-pointer text-muted-foreground">
+        {changedFields.length > 0 ? t('fieldCount', { count: changedFields.length }) : t('details')}
+      </summary>
+      <dl className="mt-2 space-y-1">
+        {changedFields.map(([field, { before, after }]) => (
+          <div key={field} className="grid grid-cols-[8rem_1fr] gap-2">
+            <dt className="font-medium">{field}</dt>
+            <dd className="break-all">
+              <span className="text-destructive line-through">{formatValue(before)}</span>{' '}
+              <span className="text-green-700">{formatValue(after)}</span>
+            </dd>
+          </div>
+        ))}
+        {extra.map(([key, value]) => (
+          <div key={key} className="grid grid-cols-[8rem_1fr] gap-2">
+            <dt className="font-medium">{key}</dt>
+            <dd className="break-all">{formatValue(value)}</dd>
+          </div>
+        ))}
+      </dl>
+    </details>
+  );
+}
+
+export function AuditTable({ items, userNames }: { items: AuditLogEntry[]; userNames: Map<string, string> }) {
+  const t = useTranslations('audit');
+  const locale = useLocale();
+  const enumLabel = useEnumLabel();
+
+  // Entries written outside a session are attributed to `system` or
+  // `anonymous` rather than a user id.
+  const userName = (userId: string) =>
+    userNames.get(userId) ?? (userId === 'system' || userId === 'anonymous' ? t(`users.${userId}`) : userId);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{t('when')}</TableHead>
+          <TableHead>{t('user')}</TableHead>
+          <TableHead>{t('action')}</TableHead>
+          <TableHead>{t('record')}</TableHead>
+          <TableHead className="hidden lg:table-cell">{t('device')}</TableHead>
+          <TableHead>{t('details')}</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {items.map((entry) => {
+          const basePath = entry.entityType ? entityPaths[entry.entityType] : undefined;
+          const deleted = entry.action.endsWith('_DELETED');
+          return (
+            <TableRow key={entry.id} className="align-top">
+              <TableCell className="whitespace-nowrap">{formatDateTime(entry.timestamp, locale)}</TableCell>
+              <TableCell>{userName(entry.userId)}</TableCell>
+              <TableCell>
+                <Badge variant={actionVariant(entry.action)} className="font-normal">
+                  {enumLabel(entry.action)}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-xs">
+                {entry.entityType && <div className="font-medium">{entry.entityType}</div>}
+                {entry.entityId &&
+                  (basePath && !deleted ? (
+                    <Link href={`${basePath}/${entry.entityId}`} className="text-muted-foreground hover:underline">
+                      {entry.entityId}
+                    </Link>
+                  ) : (
+                    <span className="text-muted-foreground">{entry.entityId}</span>
+                  ))}
+              </TableCell>
+              <TableCell className="hidden max-w-[16rem] text-xs text-muted-foreground lg:table-cell">
+                <div>{entry.ipAddress ?? '—'}</div>
+                {entry.apiKeyId && <div className="font-medium">{t('viaApiKey')}</div>}
+                <div className="truncate" title={entry.userAgent ?? undefined}>
+                  {entry.userAgent}
+                </div>
+              </TableCell>
+              <TableCell className="max-w-md">
+                <AuditDetails details={entry.details} />
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
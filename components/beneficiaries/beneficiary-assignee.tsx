@@ -0,0 +1,76 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Loader2 } from 'lucide-react';
+import { assignWorker } from '@/app/(dashboard)/beneficiaries/actions';
+import { Button } from '@/components/ui/button';
+import { NativeSelect } from '@/components/ui/native-select';
+import { useEnumLabel } from '@/lib/i18n/labels';
+
+interface Person {
+  id: string;
+  name: string;
+  role: string;
+}
+
+export function BeneficiaryAssignee({
+  beneficiaryId,
+  assigneeId,
+  users,
+}: {
+  beneficiaryId: string;
+  assigneeId: string | null;
+  users: Person[];
+}) {
+  const t = useTranslations('beneficiaries.profile');
+  const enumLabel = useEnumLabel();
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [selected, setSelected] = useState(assigneeId ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <NativeSelect
+          aria-label={t('assignedWorker')}
+          value={selected}
+          onChange={(e) => setSelected(e.target.value)}
+          disabled={isPending}
+        >
+          <option value="">{t('notAssigned')}</option>
+          {users.map((user) => (
+            <option key={user.id} value={user.id}>
+              {user.name} ({enumLabel(user.role)})
+            </option>
+          ))}
+        </NativeSelect>
+        <Button
+          variant="outline"
+          disabled={isPending || selected === (assigneeId ?? '')}
+          onClick={() => {
+            setError(null);
+            startTransition(async () => {
+              const result = await assignWorker(beneficiaryId, selected || null);
+              if (!result.success) {
+                setError(result.error);
+                return;
+              }
+              router.refresh();
+            });
+          }}
+        >
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t('assign')}
+        </Button>
+      </div>
+      {error && (
+        <p role="alert" className="text-sm text-destructive">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import Link from 'next/link';
+import { useTranslations } from 'next-intl';
+import { Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { BeneficiaryListItem } from '@/lib/beneficiaries';
+import { useEnumLabel } from '@/lib/i18n/labels';
+
+interface BeneficiaryChooserProps {
+  q?: string;
+  // Null until something has been searched for.
+  matches: BeneficiaryListItem[] | null;
+  hrefFor: (beneficiaryId: string) => string;
+}
+
+// First step of pages that act on one beneficiary (opening a case, logging a
+// service) when they're reached without one: a GET search, then a link per match.
+export function BeneficiaryChooser({ q, matches, hrefFor }: BeneficiaryChooserProps) {
+  const t = useTranslations('beneficiaries');
+  const tc = useTranslations('common');
+  const enumLabel = useEnumLabel();
+
+  return (
+    <div className="space-y-4">
+      <form method="GET" className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+          <Input
+            name="q"
+            type="search"
+            defaultValue={q}
+            placeholder={t('searchPlaceholder')}
+            className="pl-9"
+            aria-label={t('searchLabel')}
+            autoFocus
+          />
+        </div>
+        <Button type="submit">{tc('search')}</Button>
+      </form>
+
+      {matches && matches.length === 0 && (
+        <p className="py-6 text-center text-sm text-muted-foreground">{t('noMatchesFor', { q: q ?? '' })}</p>
+      )}
+      {matches && matches.length > 0 && (
+        <ul className="divide-y rounded-md border">
+          {matches.map((item) => (
+            <li key={item.id}>
+              <Link
+                href={hrefFor(item.id)}
+                className="flex items-center justify-between gap-4 px-4 py-3 text-sm hover:bg-accent"
+              >
+                <span className="font-medium">
+                  {item.firstName} {item.lastName}
+                </span>
+                <span className="text-muted-foreground">
+                  {[item.idNumber, enumLabel(item.category)].filter(Boolean).join(' · ')}
+                </span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
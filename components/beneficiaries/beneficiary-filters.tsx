@@ -0,0 +1,152 @@
+import Link from 'next/link';
+import { useTranslations } from 'next-intl';
+import { Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { NativeSelect } from '@/components/ui/native-select';
+import { CUSTOM_FIELD_PARAM_PREFIX, type BeneficiaryListParams } from '@/lib/beneficiaries';
+import type { CustomFieldDefinition } from '@/lib/custom-fields/values';
+import { useEnumLabel } from '@/lib/i18n/labels';
+
+const statuses = ['ACTIVE', 'INACTIVE', 'ARCHIVED', 'DECEASED'];
+const categories = ['HOMELESS', 'ELDERLY', 'DISABLED', 'LOW_INCOME', 'REFUGEE', 'ORPHAN', 'SICK', 'OTHER'];
+const priorities = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'];
+
+interface BeneficiaryFiltersProps {
+  params: BeneficiaryListParams;
+  states: string[];
+  users: { id: string; name: string }[];
+  // Custom fields that can be filtered on: choices, checkboxes and text.
+  customFields: CustomFieldDefinition[];
+}
+
+// A plain GET form: submitting it rewrites the query string, which keeps the
+// filters bookmarkable and works before any client JS has loaded.
+export function BeneficiaryFilters({ params, states, users, customFields }: BeneficiaryFiltersProps) {
+  const t = useTranslations('beneficiaries');
+  const tc = useTranslations('common');
+  const enumLabel = useEnumLabel();
+
+  return (
+    <form method="GET" className="space-y-4">
+      <input type="hidden" name="sort" value={params.sort} />
+      <input type="hidden" name="order" value={params.order} />
+
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+          <Input
+            name="q"
+            type="search"
+            defaultValue={params.q}
+            placeholder={t('searchPlaceholder')}
+            className="pl-9"
+            aria-label={t('searchLabel')}
+          />
+        </div>
+        <Button type="submit">{tc('search')}</Button>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-6">
+        <div className="space-y-1">
+          <Label htmlFor="status">{t('fields.status')}</Label>
+          <NativeSelect id="status" name="status" defaultValue={params.status ?? ''}>
+            <option value="">{tc('all')}</option>
+            {statuses.map((value) => (
+              <option key={value} value={value}>
+                {enumLabel(value)}
+              </option>
+            ))}
+          </NativeSelect>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="category">{t('fields.category')}</Label>
+          <NativeSelect id="category" name="category" defaultValue={params.category ?? ''}>
+            <option value="">{tc('all')}</option>
+            {categories.map((value) => (
+              <option key={value} value={value}>
+                {enumLabel(value)}
+              </option>
+            ))}
+          </NativeSelect>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="priority">{t('fields.priority')}</Label>
+          <NativeSelect id="priority" name="priority" defaultValue={params.priority ?? ''}>
+            <option value="">{tc('all')}</option>
+            {priorities.map((value) => (
+              <option key={value} value={value}>
+                {enumLabel(value)}
+              </option>
+            ))}
+          </NativeSelect>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="state">{t('fields.state')}</Label>
+          <NativeSelect id="state" name="state" defaultValue={params.state ?? ''}>
+            <option value="">{tc('all')}</option>
+            {states.map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </NativeSelect>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="assignedToId">{t('fields.assignedTo')}</Label>
+          <NativeSelect id="assignedToId" name="assignedToId" defaultValue={params.assignedToId ?? ''}>
+            <option value="">{tc('anyone')}</option>
+            <option value="unassigned">{tc('unassigned')}</option>
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.name}
+              </option>
+            ))}
+          </NativeSelect>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="tags">{t('fields.tags')}</Label>
+          <Input id="tags" name="tags" defaultValue={params.tags.join(', ')} placeholder={t('tagsPlaceholder')} />
+        </div>
+        {customFields.map((field) => {
+          const name = `${CUSTOM_FIELD_PARAM_PREFIX}${field.key}`;
+          const value = params.customFields[field.key] ?? '';
+          return (
+            <div key={field.key} className="space-y-1">
+              <Label htmlFor={name}>{field.label}</Label>
+              {field.type === 'TEXT' ? (
+                <Input id={name} name={name} defaultValue={value} />
+              ) : (
+                <NativeSelect id={name} name={name} defaultValue={value}>
+                  <option value="">{tc('all')}</option>
+                  {field.type === 'BOOLEAN' ? (
+                    <>
+                      <option value="true">{tc('yes')}</option>
+                      <option value="false">{tc('no')}</option>
+                    </>
+                  ) : (
+                    field.options.map((option) => (
+                      <option key={option} value={option}>
+                        {option}
+                      </option>
+                    ))
+                  )}
+                </NativeSelect>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="submit" variant="secondary" size="sm">
+          {tc('applyFilters')}
+        </Button>
+        <Button asChild variant="ghost" size="sm">
+          <Link href="/beneficiaries">{tc('clear')}</Link>
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,583 @@
+'use client';
+
+import { useRef, useState, useTransition } from 'react';
+import type { Country } from '@prisma/client';
+import { useRouter } from 'next/navigation';
+import { useLocale, useTranslations } from 'next-intl';
+import { Controller, useForm, type Resolver } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { AlertTriangle, CheckCircle2, Loader2, Plus, X } from 'lucide-react';
+import { checkDuplicates, createBeneficiary, updateBeneficiary } from '@/app/(dashboard)/beneficiaries/actions';
+import { CustomFieldInputs } from '@/components/custom-fields/custom-field-inputs';
+import { FormField } from '@/components/form-field';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import { Textarea } from '@/components/ui/textarea';
+import { countryRules, getIdDocumentType, isCitizen } from '@/lib/countries';
+import {
+  applicableCustomFields,
+  type CustomFieldDefinition,
+  type CustomFieldValues,
+} from '@/lib/custom-fields/values';
+import type { DuplicateCandidateMatch } from '@/lib/duplicates';
+import { parseMyKad } from '@/lib/mykad';
+import { useEnumLabel } from '@/lib/i18n/labels';
+import { enqueueSubmission } from '@/lib/offline/queue';
+import { beneficiarySchemaFor } from '@/lib/validation';
+import { formatDate } from '@/lib/utils';
+
+const genders = ['MALE', 'FEMALE', 'OTHER', 'PREFER_NOT_TO_SAY'] as const;
+const categories = ['HOMELESS', 'ELDERLY', 'DISABLED', 'LOW_INCOME', 'REFUGEE', 'ORPHAN', 'SICK', 'OTHER'] as const;
+const statuses = ['ACTIVE', 'INACTIVE', 'ARCHIVED', 'DECEASED'] as const;
+const priorities = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'] as const;
+
+const optionalNumber = (value: unknown) => (value === '' || value === null ? null : Number(value));
+
+// Form state mirrors beneficiarySchemaFor, except dates are kept as the
+// `YYYY-MM-DD` strings a native date input produces.
+export interface BeneficiaryFormValues {
+  // '' registers them in the worker's own branch.
+  branchId: string;
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string | null;
+  gender: (typeof genders)[number] | null;
+  nationality: string;
+  idNumber: string;
+  monthlyIncome: number | null;
+  phone: string;
+  email: string;
+  address: string;
+  city: string;
+  state: string;
+  postcode: string;
+  emergencyName: string;
+  emergencyPhone: string;
+  emergencyRelation: string;
+  category: (typeof categories)[number];
+  status: (typeof statuses)[number];
+  priority: (typeof priorities)[number];
+  notes: string;
+  tags: string[];
+  customFields: CustomFieldValues;
+  source: string;
+}
+
+export const emptyBeneficiaryFormValues: BeneficiaryFormValues = {
+  branchId: '',
+  firstName: '',
+  lastName: '',
+  dateOfBirth: null,
+  gender: null,
+  nationality: '',
+  idNumber: '',
+  monthlyIncome: null,
+  phone: '',
+  email: '',
+  address: '',
+  city: '',
+  state: '',
+  postcode: '',
+  emergencyName: '',
+  emergencyPhone: '',
+  emergencyRelation: '',
+  category: 'HOMELESS',
+  status: 'ACTIVE',
+  priority: 'MEDIUM',
+  notes: '',
+  tags: [],
+  customFields: {},
+  source: '',
+};
+
+export interface BranchOption {
+  id: string;
+  name: string;
+  country: Country;
+}
+
+interface BeneficiaryFormProps {
+  beneficiaryId?: string;
+  defaultValues?: BeneficiaryFormValues;
+  // Of the worker's own branch for a new registration, otherwise the
+  // beneficiary's; it decides which phone, ID and postcode formats apply.
+  country: Country;
+  // Offered to roles that see every branch when registering someone.
+  branches?: BranchOption[];
+  // The admin-defined fields; those for the chosen category and the
+  // programmes the beneficiary is in are shown.
+  customFields?: CustomFieldDefinition[];
+  programmeIds?: string[];
+  // Registers into this device's offline outbox instead of saving straight
+  // away, and clears the form for the next person.
+  offline?: boolean;
+}
+
+function TagInput({ value, onChange }: { value: string[]; onChange: (tags: string[]) => void }) {
+  const t = useTranslations('beneficiaries.form');
+  const [draft, setDraft] = useState('');
+
+  const commit = () => {
+    const tags = draft
+      .split(',')
+      .map((tag) => tag.trim().toLowerCase())
+      .filter((tag) => tag && !value.includes(tag));
+    if (tags.length > 0) onChange([...value, ...tags]);
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          id="tags"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              commit();
+            }
+          }}
+          onBlur={commit}
+          placeholder={t('tagsPlaceholder')}
+          enterKeyHint="done"
+        />
+        <Button type="button" variant="outline" size="icon" onClick={commit} aria-label={t('addTag')}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1 py-1 font-normal">
+              {tag}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((other) => other !== tag))}
+                aria-label={t('removeTag', { tag })}
+                className="rounded-full p-0.5 hover:bg-background"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function BeneficiaryForm({
+  beneficiaryId,
+  defaultValues = emptyBeneficiaryFormValues,
+  country: ownCountry,
+  branches,
+  customFields = [],
+  programmeIds = [],
+  offline = false,
+}: BeneficiaryFormProps) {
+  const router = useRouter();
+  const t = useTranslations('beneficiaries');
+  const tc = useTranslations('common');
+  const locale = useLocale();
+  const enumLabel = useEnumLabel();
+  const [isPending, startTransition] = useTransition();
+  const [formError, setFormError] = useState<string | null>(null);
+  const [showEmergency, setShowEmergency] = useState(
+    !!(defaultValues.emergencyName || defaultValues.emergencyPhone || defaultValues.emergencyRelation)
+  );
+  const [duplicates, setDuplicates] = useState<DuplicateCandidateMatch[]>([]);
+  const [queuedName, setQueuedName] = useState<string | null>(null);
+  const duplicatesAcknowledged = useRef(false);
+  const isEdit = !!beneficiaryId;
+  const countryOf = (branchId: string) => branches?.find((branch) => branch.id === branchId)?.country ?? ownCountry;
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    setError,
+    setValue,
+    getValues,
+    watch,
+    reset,
+    formState: { errors },
+  } = useForm<BeneficiaryFormValues>({
+    // Built per check, since choosing another branch changes the rules.
+    resolver: ((values, context, options) =>
+      zodResolver(beneficiarySchemaFor(countryOf(values.branchId), customFields, programmeIds))(
+        values,
+        context,
+        options
+      )) as Resolver<
+      BeneficiaryFormValues
+    >,
+    defaultValues,
+  });
+
+  const onSubmit = handleSubmit((values) => {
+    setFormError(null);
+    setQueuedName(null);
+    startTransition(async () => {
+      // Likely duplicates are checked when it syncs, and queued for review.
+      if (offline) {
+        await enqueueSubmission('beneficiary', { ...values });
+        setQueuedName(`${values.firstName} ${values.lastName}`);
+        reset(emptyBeneficiaryFormValues);
+        setShowEmergency(false);
+        return;
+      }
+
+      if (!isEdit && !duplicatesAcknowledged.current) {
+        const check = await checkDuplicates(values);
+        if (check.success && check.data.length > 0) {
+          setDuplicates(check.data);
+          return;
+        }
+      }
+
+      const result = isEdit
+        ? await updateBeneficiary(beneficiaryId, values)
+        : await createBeneficiary(values);
+
+      if (!result.success) {
+        setFormError(result.error);
+        for (const [field, messages] of Object.entries(result.fieldErrors ?? {})) {
+          if (messages?.[0]) {
+            setError(field as keyof BeneficiaryFormValues, { type: 'server', message: messages[0] });
+          }
+        }
+        return;
+      }
+
+      router.push(`/beneficiaries/${result.data.id}`);
+      router.refresh();
+    });
+  });
+
+  const country = countryOf(watch('branchId'));
+  const rules = countryRules[country];
+  const shownCustomFields = applicableCustomFields(customFields, { category: watch('category'), programmeIds });
+  const idNumber = watch('idNumber');
+  const nationality = watch('nationality');
+  const isNationalId = !!idNumber && getIdDocumentType(country, idNumber, nationality) === 'national';
+  const mykad = isNationalId && country === 'MY' ? parseMyKad(idNumber) : null;
+  const idHint = mykad
+    ? t('form.myKadHint', {
+        date: formatDate(mykad.dateOfBirth, locale),
+        place: mykad.birthPlace,
+        gender: enumLabel(mykad.gender),
+      })
+    : idNumber && !isNationalId
+      ? t('form.passportHint')
+      : t('form.idHint', { country });
+
+  // Pre-fills date of birth and gender from a valid MyKad when they're still
+  // empty, and rewrites the number in the stored hyphenated format.
+  const handleIdNumberBlur = () => {
+    const current = getValues();
+    if (countryOf(current.branchId) !== 'MY') return;
+    if (!current.idNumber || getIdDocumentType('MY', current.idNumber, current.nationality) !== 'national') return;
+    const info = parseMyKad(current.idNumber);
+    if (!info) return;
+
+    setValue('idNumber', info.normalized);
+    if (!current.dateOfBirth) {
+      setValue('dateOfBirth', info.dateOfBirth.toISOString().slice(0, 10), { shouldValidate: true });
+    }
+    if (!current.gender) {
+      setValue('gender', info.gender, { shouldValidate: true });
+    }
+    if (!current.state && info.state && !current.address) {
+      setValue('state', info.state);
+    }
+  };
+
+  const error = (field: keyof BeneficiaryFormValues) => errors[field]?.message as string | undefined;
+  const aria = (field: keyof BeneficiaryFormValues) => ({
+    'aria-invalid': !!errors[field],
+    'aria-describedby': errors[field] ? `${field}-error` : undefined,
+  });
+
+  return (
+    <form onSubmit={onSubmit} noValidate className="space-y-8 pb-20 sm:pb-0">
+      {formError && (
+        <div role="alert" className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+          {formError}
+        </div>
+      )}
+
+      {queuedName && (
+        <div role="status" className="flex items-center gap-2 rounded-md border border-green-600/40 bg-green-50 p-3 text-sm text-green-800">
+          <CheckCircle2 className="h-4 w-4 shrink-0" />
+          {t('form.queued', { name: queuedName })}
+        </div>
+      )}
+
+      {duplicates.length > 0 && (
+        <div role="alert" className="space-y-3 rounded-md border border-amber-500/50 bg-amber-50 p-4 text-sm">
+          <p className="flex items-center gap-2 font-semibold text-amber-800">
+            <AlertTriangle className="h-4 w-4" />
+            {t('form.possibleDuplicate')}
+          </p>
+          <ul className="space-y-2">
+            {duplicates.map((match) => (
+              <li key={match.id} className="rounded border bg-background p-2">
+                <a href={`/beneficiaries/${match.id}`} target="_blank" rel="noreferrer" className="font-medium hover:underline">
+                  {match.firstName} {match.lastName}
+                </a>
+                <span className="ml-2 text-muted-foreground">
+                  {[match.idNumber, match.phone, match.dateOfBirth && formatDate(match.dateOfBirth, locale)]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </span>
+                <p className="text-xs text-muted-foreground">
+                  {t('form.matchScore', { score: Math.round(match.score * 100) })} — {match.reasons.join(', ')}
+                </p>
+              </li>
+            ))}
+          </ul>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                duplicatesAcknowledged.current = true;
+                setDuplicates([]);
+                onSubmit();
+              }}
+            >
+              {t('form.registerAnyway')}
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setDuplicates([])}>
+              {t('form.reviewDetails')}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <fieldset className="space-y-4">
+        <legend className="text-lg font-semibold">{t('form.personal')}</legend>
+        <div className="grid gap-4 sm:grid-cols-2">
+          {branches && !isEdit && (
+            <FormField label={t('fields.branch')} htmlFor="branchId" error={error('branchId')} hint={t('form.branchHint')}>
+              <NativeSelect id="branchId" {...aria('branchId')} {...register('branchId')}>
+                <option value="">{t('form.ownBranch')}</option>
+                {branches.map((branch) => (
+                  <option key={branch.id} value={branch.id}>
+                    {branch.name} ({branch.country})
+                  </option>
+                ))}
+              </NativeSelect>
+            </FormField>
+          )}
+          <FormField label={t('fields.firstName')} htmlFor="firstName" error={error('firstName')} required>
+            <Input id="firstName" autoComplete="given-name" autoCapitalize="words" {...aria('firstName')} {...register('firstName')} />
+          </FormField>
+          <FormField label={t('fields.lastName')} htmlFor="lastName" error={error('lastName')} required>
+            <Input id="lastName" autoComplete="family-name" autoCapitalize="words" {...aria('lastName')} {...register('lastName')} />
+          </FormField>
+          <FormField label={t('fields.category')} htmlFor="category" error={error('category')} required>
+            <NativeSelect id="category" {...aria('category')} {...register('category')}>
+              {categories.map((value) => (
+                <option key={value} value={value}>
+                  {enumLabel(value)}
+                </option>
+              ))}
+            </NativeSelect>
+          </FormField>
+          <FormField label={t('fields.priority')} htmlFor="priority" error={error('priority')}>
+            <NativeSelect id="priority" {...aria('priority')} {...register('priority')}>
+              {priorities.map((value) => (
+                <option key={value} value={value}>
+                  {enumLabel(value)}
+                </option>
+              ))}
+            </NativeSelect>
+          </FormField>
+          <FormField label={t('fields.idNumber')} htmlFor="idNumber" error={error('idNumber')} hint={idHint}>
+            <Input
+              id="idNumber"
+              autoComplete="off"
+              inputMode={rules.nationalId && isCitizen(country, nationality) ? 'numeric' : 'text'}
+              {...aria('idNumber')}
+              {...register('idNumber', { onBlur: handleIdNumberBlur })}
+            />
+          </FormField>
+          <FormField label={t('fields.dateOfBirth')} htmlFor="dateOfBirth" error={error('dateOfBirth')}>
+            <Input
+              id="dateOfBirth"
+              type="date"
+              {...aria('dateOfBirth')}
+              {...register('dateOfBirth', { setValueAs: (v) => (v ? v : null) })}
+            />
+          </FormField>
+          <FormField label={t('fields.gender')} htmlFor="gender" error={error('gender')}>
+            <NativeSelect id="gender" {...aria('gender')} {...register('gender', { setValueAs: (v) => (v ? v : null) })}>
+              <option value="">{t('form.notSpecified')}</option>
+              {genders.map((value) => (
+                <option key={value} value={value}>
+                  {enumLabel(value)}
+                </option>
+              ))}
+            </NativeSelect>
+          </FormField>
+          <FormField label={t('fields.nationality')} htmlFor="nationality" error={error('nationality')}>
+            <Input id="nationality" autoComplete="country-name" {...aria('nationality')} {...register('nationality')} />
+          </FormField>
+          <FormField
+            label={t('fields.monthlyIncome')}
+            htmlFor="monthlyIncome"
+            error={error('monthlyIncome')}
+            hint={t('form.monthlyIncomeHint', { currency: rules.currency })}
+          >
+            <Input
+              id="monthlyIncome"
+              type="number"
+              min={0}
+              step="0.01"
+              inputMode="decimal"
+              {...aria('monthlyIncome')}
+              {...register('monthlyIncome', { setValueAs: optionalNumber })}
+            />
+          </FormField>
+          {isEdit && (
+            <FormField label={t('fields.status')} htmlFor="status" error={error('status')}>
+              <NativeSelect id="status" {...aria('status')} {...register('status')}>
+                {statuses.map((value) => (
+                  <option key={value} value={value}>
+                    {enumLabel(value)}
+                  </option>
+                ))}
+              </NativeSelect>
+            </FormField>
+          )}
+        </div>
+      </fieldset>
+
+      <fieldset className="space-y-4">
+        <legend className="text-lg font-semibold">{t('form.contact')}</legend>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            label={t('fields.phone')}
+            htmlFor="phone"
+            error={error('phone')}
+            hint={t('form.phoneHint', { example: rules.phoneExample })}
+          >
+            <Input
+              id="phone"
+              type="tel"
+              inputMode="tel"
+              autoComplete="tel"
+              placeholder={`+${rules.dialCode}`}
+              {...aria('phone')}
+              {...register('phone')}
+            />
+          </FormField>
+          <FormField label={t('fields.email')} htmlFor="email" error={error('email')}>
+            <Input id="email" type="email" inputMode="email" autoComplete="email" {...aria('email')} {...register('email')} />
+          </FormField>
+          <FormField label={t('fields.address')} htmlFor="address" error={error('address')} className="sm:col-span-2">
+            <Input id="address" autoComplete="street-address" {...aria('address')} {...register('address')} />
+          </FormField>
+          <FormField label={t('fields.city')} htmlFor="city" error={error('city')}>
+            <Input id="city" autoComplete="address-level2" {...aria('city')} {...register('city')} />
+          </FormField>
+          <FormField label={t('fields.state')} htmlFor="state" error={error('state')}>
+            <Input id="state" autoComplete="address-level1" {...aria('state')} {...register('state')} />
+          </FormField>
+          <FormField label={t('fields.postcode')} htmlFor="postcode" error={error('postcode')}>
+            <Input
+              id="postcode"
+              inputMode="numeric"
+              autoComplete="postal-code"
+              placeholder={rules.postcodeExample}
+              {...aria('postcode')}
+              {...register('postcode')}
+            />
+          </FormField>
+        </div>
+      </fieldset>
+
+      <fieldset className="space-y-4">
+        <div className="flex items-center justify-between">
+          <legend className="text-lg font-semibold">{t('form.emergency')}</legend>
+          {!showEmergency && (
+            <Button type="button" variant="outline" size="sm" onClick={() => setShowEmergency(true)}>
+              <Plus className="mr-1 h-4 w-4" />
+              {t('form.add')}
+            </Button>
+          )}
+        </div>
+        {showEmergency ? (
+          <div className="grid gap-4 sm:grid-cols-3">
+            <FormField label={t('fields.emergencyName')} htmlFor="emergencyName" error={error('emergencyName')}>
+              <Input id="emergencyName" {...aria('emergencyName')} {...register('emergencyName')} />
+            </FormField>
+            <FormField label={t('fields.phone')} htmlFor="emergencyPhone" error={error('emergencyPhone')}>
+              <Input
+                id="emergencyPhone"
+                type="tel"
+                inputMode="tel"
+                placeholder={`+${rules.dialCode}`}
+                {...aria('emergencyPhone')}
+                {...register('emergencyPhone')}
+              />
+            </FormField>
+            <FormField label={t('fields.emergencyRelation')} htmlFor="emergencyRelation" error={error('emergencyRelation')}>
+              <Input id="emergencyRelation" {...aria('emergencyRelation')} {...register('emergencyRelation')} />
+            </FormField>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">{t('form.emergencyHint')}</p>
+        )}
+      </fieldset>
+
+      {shownCustomFields.length > 0 && (
+        <fieldset className="space-y-4">
+          <legend className="text-lg font-semibold">{t('form.additional')}</legend>
+          <Controller
+            control={control}
+            name="customFields"
+            render={({ field }) => (
+              <CustomFieldInputs
+                fields={shownCustomFields}
+                value={field.value}
+                onChange={field.onChange}
+                errors={errors.customFields}
+              />
+            )}
+          />
+        </fieldset>
+      )}
+
+      <fieldset className="space-y-4">
+        <legend className="text-lg font-semibold">{t('form.notesAndTags')}</legend>
+        <FormField label={t('fields.tags')} htmlFor="tags" error={error('tags')} hint={t('form.tagsHint')}>
+          <Controller
+            control={control}
+            name="tags"
+            render={({ field }) => <TagInput value={field.value} onChange={field.onChange} />}
+          />
+        </FormField>
+        <FormField label={t('fields.notes')} htmlFor="notes" error={error('notes')}>
+          <Textarea id="notes" rows={4} {...aria('notes')} {...register('notes')} />
+        </FormField>
+      </fieldset>
+
+      <div className="fixed inset-x-0 bottom-0 z-10 flex gap-2 border-t bg-background p-4 sm:static sm:justify-end sm:border-0 sm:bg-transparent sm:p-0">
+        <Button type="button" variant="outline" className="flex-1 sm:flex-none" onClick={() => router.back()} disabled={isPending}>
+          {tc('cancel')}
+        </Button>
+        <Button type="submit" className="flex-1 sm:flex-none" disabled={isPending}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {isEdit ? tc('saveChanges') : t('form.register')}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,106 @@
+import Link from 'next/link';
+import { useLocale, useTranslations } from 'next-intl';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { BeneficiaryListItem, BeneficiaryListParams, BeneficiarySortField } from '@/lib/beneficiaries';
+import { useEnumLabel } from '@/lib/i18n/labels';
+import { buildHref, formatDate, type SearchParams } from '@/lib/utils';
+
+interface BeneficiaryTableProps {
+  items: BeneficiaryListItem[];
+  params: BeneficiaryListParams;
+  searchParams: SearchParams;
+}
+
+function SortableHead({
+  field,
+  label,
+  params,
+  searchParams,
+}: {
+  field: BeneficiarySortField;
+  label: string;
+  params: BeneficiaryListParams;
+  searchParams: SearchParams;
+}) {
+  const isActive = params.sort === field;
+  const nextOrder = isActive && params.order === 'asc' ? 'desc' : 'asc';
+  const Icon = !isActive ? ArrowUpDown : params.order === 'asc' ? ArrowUp : ArrowDown;
+
+  return (
+    <TableHead aria-sort={isActive ? (params.order === 'asc' ? 'ascending' : 'descending') : undefined}>
+      <Link
+        href={buildHref('/beneficiaries', searchParams, { sort: field, order: nextOrder, page: undefined })}
+        className="inline-flex items-center gap-1 hover:text-foreground"
+      >
+        {label}
+        <Icon className="h-3 w-3" />
+      </Link>
+    </TableHead>
+  );
+}
+
+export function BeneficiaryTable({ items, params, searchParams }: BeneficiaryTableProps) {
+  const t = useTranslations('beneficiaries.fields');
+  const locale = useLocale();
+  const enumLabel = useEnumLabel();
+  const head = (field: BeneficiarySortField, label: string) => (
+    <SortableHead field={field} label={label} params={params} searchParams={searchParams} />
+  );
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          {head('lastName', t('name'))}
+          <TableHead className="hidden md:table-cell">{t('icPhone')}</TableHead>
+          {head('category', t('category'))}
+          {head('status', t('status'))}
+          {head('priority', t('priority'))}
+          <TableHead className="hidden lg:table-cell">{t('assignedTo')}</TableHead>
+          {head('state', t('state'))}
+          {head('createdAt', t('registered'))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {items.map((beneficiary) => (
+          <TableRow key={beneficiary.id}>
+            <TableCell>
+              <Link href={`/beneficiaries/${beneficiary.id}`} className="font-medium hover:underline">
+                {beneficiary.firstName} {beneficiary.lastName}
+              </Link>
+              {beneficiary.tags.length > 0 && (
+                <div className="mt-1 flex flex-wrap gap-1">
+                  {beneficiary.tags.map((tag) => (
+                    <Badge key={tag} variant="outline" className="font-normal">
+                      {tag}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </TableCell>
+            <TableCell className="hidden md:table-cell text-muted-foreground">
+              <div>{beneficiary.idNumber ?? '—'}</div>
+              <div>{beneficiary.phone ?? '—'}</div>
+            </TableCell>
+            <TableCell>{enumLabel(beneficiary.category)}</TableCell>
+            <TableCell>
+              <Badge variant={beneficiary.status === 'ACTIVE' ? 'default' : 'secondary'}>
+                {enumLabel(beneficiary.status)}
+              </Badge>
+            </TableCell>
+            <TableCell>
+              <Badge variant={beneficiary.priority === 'URGENT' ? 'destructive' : 'outline'}>
+                {enumLabel(beneficiary.priority)}
+              </Badge>
+            </TableCell>
+            <TableCell className="hidden lg:table-cell">{beneficiary.assignedTo?.name ?? '—'}</TableCell>
+            <TableCell>{beneficiary.state ?? '—'}</TableCell>
+            <TableCell className="whitespace-nowrap">{formatDate(beneficiary.createdAt, locale)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,85 @@
+import Link from 'next/link';
+import { useLocale, useTranslations } from 'next-intl';
+import { FileText, FolderOpen, HeartHandshake } from 'lucide-react';
+import type { TimelineEvent, TimelineEventType } from '@/lib/beneficiaries';
+import { useDocumentTypeLabel, useEnumLabel } from '@/lib/i18n/labels';
+import { cn, formatDateTime } from '@/lib/utils';
+
+const icons: Record<TimelineEventType, typeof FileText> = {
+  service: HeartHandshake,
+  case: FolderOpen,
+  document: FileText,
+};
+
+function useDescribe() {
+  const t = useTranslations('beneficiaries.timeline');
+  const enumLabel = useEnumLabel();
+  const documentTypeLabel = useDocumentTypeLabel();
+
+  return (event: TimelineEvent): { title: string; description?: string | null } => {
+    switch (event.type) {
+      case 'service': {
+        const label = enumLabel(event.serviceType);
+        return { title: event.quantity ? `${label} × ${event.quantity}` : label, description: event.description };
+      }
+      case 'case':
+        return {
+          title: event.status
+            ? t('caseStatus', { status: enumLabel(event.status), title: event.caseTitle })
+            : t('caseOpened', { title: event.caseTitle }),
+          description: event.description,
+        };
+      case 'document':
+        return { title: t('documentUploaded', { name: event.name }), description: documentTypeLabel(event.documentType) };
+    }
+  };
+}
+
+export function BeneficiaryTimeline({ events }: { events: TimelineEvent[] }) {
+  const t = useTranslations('beneficiaries.timeline');
+  const locale = useLocale();
+  const describe = useDescribe();
+
+  if (events.length === 0) {
+    return <p className="py-6 text-center text-sm text-muted-foreground">{t('empty')}</p>;
+  }
+
+  return (
+    <ol className="relative space-y-6 border-l pl-6">
+      {events.map((event) => {
+        const Icon = icons[event.type];
+        const { title, description } = describe(event);
+        return (
+          <li key={event.id} className="relative">
+            <span
+              className={cn(
+                'absolute -left-[37px] flex h-6 w-6 items-center justify-center rounded-full border bg-background',
+                event.type === 'service' && 'text-primary',
+                event.type === 'case' && 'text-amber-600',
+                event.type === 'document' && 'text-muted-foreground'
+              )}
+            >
+              <Icon className="h-3 w-3" />
+            </span>
+            <div className="flex flex-col gap-0.5 sm:flex-row sm:items-baseline sm:justify-between">
+              <p className="text-sm font-medium">
+                {event.href ? (
+                  <Link href={event.href} className="hover:underline">
+                    {title}
+                  </Link>
+                ) : (
+                  title
+                )}
+              </p>
+              <time dateTime={event.date.toISOString()} className="text-xs text-muted-foreground">
+                {formatDateTime(event.date, locale)}
+              </time>
+            </div>
+            {description && <p className="mt-1 text-sm text-muted-foreground line-clamp-2">{description}</p>}
+            {event.actor && <p className="mt-1 text-xs text-muted-foreground">{t('by', { name: event.actor })}</p>}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
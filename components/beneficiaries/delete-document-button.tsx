@@ -0,0 +1,57 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Loader2, Trash2 } from 'lucide-react';
+import { deleteDocument } from '@/app/(dashboard)/beneficiaries/actions';
+import { Button } from '@/components/ui/button';
+
+export function DeleteDocumentButton({ documentId, name }: { documentId: string; name: string }) {
+  const router = useRouter();
+  const t = useTranslations('documents');
+  const tc = useTranslations('common');
+  const [isPending, startTransition] = useTransition();
+  const [confirming, setConfirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!confirming) {
+    return (
+      <Button variant="ghost" size="icon" onClick={() => setConfirming(true)} aria-label={t('deleteNamed', { name })}>
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        size="sm"
+        variant="destructive"
+        disabled={isPending}
+        onClick={() => {
+          setError(null);
+          startTransition(async () => {
+            const result = await deleteDocument(documentId);
+            if (!result.success) {
+              setError(result.error);
+              return;
+            }
+            router.refresh();
+          });
+        }}
+      >
+        {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {tc('delete')}
+      </Button>
+      <Button size="sm" variant="ghost" onClick={() => setConfirming(false)} disabled={isPending}>
+        {tc('cancel')}
+      </Button>
+      {error && (
+        <p role="alert" className="text-sm text-destructive">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useLocale, useTranslations } from 'next-intl';
+import { Download, Eye, FileText, Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DeleteDocumentButton } from '@/components/beneficiaries/delete-document-button';
+import { formatFileSize } from '@/lib/document-types';
+import { documentHref, type BeneficiaryDocument } from '@/lib/documents';
+import { useDocumentTypeLabel } from '@/lib/i18n/labels';
+import { formatDate } from '@/lib/utils';
+
+interface DocumentListProps {
+  documents: BeneficiaryDocument[];
+  canDelete: boolean;
+}
+
+export function DocumentList({ documents, canDelete }: DocumentListProps) {
+  const t = useTranslations('documents');
+  const locale = useLocale();
+  const documentTypeLabel = useDocumentTypeLabel();
+
+  if (documents.length === 0) {
+    return <p className="py-6 text-center text-sm text-muted-foreground">{t('empty')}</p>;
+  }
+
+  return (
+    <ul className="divide-y rounded-md border">
+      {documents.map((document) => (
+        <li key={document.id} className="flex items-center gap-3 px-3 py-2">
+          <div className="flex h-12 w-12 shrink-0 items-center justify-center overflow-hidden rounded border bg-muted">
+            {!document.canView ? (
+              <Lock className="h-5 w-5 text-muted-foreground" />
+            ) : document.mimeType.startsWith('image/') ? (
+              // Served by the authorized route with the viewer's session, so
+              // it can't go through the image optimizer.
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={documentHref(document.id, { inline: true })}
+                alt=""
+                className="h-full w-full object-cover"
+                loading="lazy"
+              />
+            ) : (
+              <FileText className="h-5 w-5 text-muted-foreground" />
+            )}
+          </div>
+          <div className="min-w-0 flex-1">
+            <p className="truncate text-sm font-medium">{document.name}</p>
+            <p className="text-xs text-muted-foreground">
+              {documentTypeLabel(document.type)} · {formatFileSize(document.size)} · {document.uploadedBy.name},{' '}
+              {formatDate(document.createdAt, locale)}
+            </p>
+          </div>
+          {document.canView ? (
+            <div className="flex items-center gap-1">
+              <Button asChild variant="ghost" size="icon">
+                <a
+                  href={documentHref(document.id, { inline: true })}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  aria-label={t('preview', { name: document.name })}
+                >
+                  <Eye className="h-4 w-4" />
+                </a>
+              </Button>
+              <Button asChild variant="ghost" size="icon">
+                <a href={documentHref(document.id)} aria-label={t('download', { name: document.name })}>
+                  <Download className="h-4 w-4" />
+                </a>
+              </Button>
+            </div>
+          ) : (
+            <span className="text-xs text-muted-foreground">{t('restricted')}</span>
+          )}
+          {canDelete && <DeleteDocumentButton documentId={document.id} name={document.name} />}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useRef, useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Loader2, Upload } from 'lucide-react';
+import { uploadDocument } from '@/app/(dashboard)/beneficiaries/actions';
+import { FormField } from '@/components/form-field';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import { useDocumentTypeLabel } from '@/lib/i18n/labels';
+import {
+  allowedMimeTypes,
+  documentTypes,
+  formatFileSize,
+  MAX_DOCUMENT_BYTES,
+  type DocumentType,
+} from '@/lib/document-types';
+
+type FileProblem = 'chooseFile' | 'tooLarge' | 'photoType' | 'fileType';
+
+// Checked here for quick feedback; the server checks the actual bytes again.
+function checkFile(file: File | undefined, type: DocumentType): FileProblem | null {
+  if (!file) return 'chooseFile';
+  if (file.size > MAX_DOCUMENT_BYTES) return 'tooLarge';
+  if (!(allowedMimeTypes(type) as readonly string[]).includes(file.type)) {
+    return type === 'photo' ? 'photoType' : 'fileType';
+  }
+  return null;
+}
+
+export function DocumentUploadForm({ beneficiaryId }: { beneficiaryId: string }) {
+  const router = useRouter();
+  const t = useTranslations('documents.upload');
+  const documentTypeLabel = useDocumentTypeLabel();
+  const formRef = useRef<HTMLFormElement>(null);
+  const [isPending, startTransition] = useTransition();
+  const [type, setType] = useState<DocumentType>('id_card');
+  const [errors, setErrors] = useState<Record<string, string | undefined>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+
+  return (
+    <form
+      ref={formRef}
+      noValidate
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        const formData = new FormData(e.currentTarget);
+        const file = formData.get('file');
+        const problem = checkFile(file instanceof File && file.size > 0 ? file : undefined, type);
+        const fileError = problem && t(problem, { size: formatFileSize(MAX_DOCUMENT_BYTES) });
+        setFormError(null);
+        setErrors({ file: fileError ?? undefined });
+        if (fileError) return;
+
+        startTransition(async () => {
+          const result = await uploadDocument(formData);
+          if (!result.success) {
+            setFormError(result.error);
+            setErrors(
+              Object.fromEntries(Object.entries(result.fieldErrors ?? {}).map(([field, messages]) => [field, messages?.[0]]))
+            );
+            return;
+          }
+          formRef.current?.reset();
+          setType('id_card');
+          router.refresh();
+        });
+      }}
+    >
+      {formError && !errors.file && (
+        <div role="alert" className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+          {formError}
+        </div>
+      )}
+
+      <input type="hidden" name="beneficiaryId" value={beneficiaryId} />
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <FormField label={t('type')} htmlFor="documentType" error={errors.type} required>
+          <NativeSelect
+            id="documentType"
+            name="type"
+            value={type}
+            onChange={(e) => setType(e.target.value as DocumentType)}
+          >
+            {documentTypes.map((value) => (
+              <option key={value} value={value}>
+                {documentTypeLabel(value)}
+              </option>
+            ))}
+          </NativeSelect>
+        </FormField>
+        <FormField
+          label={t('file')}
+          htmlFor="documentFile"
+          error={errors.file}
+          hint={t(type === 'photo' ? 'photoHint' : 'fileHint', { size: formatFileSize(MAX_DOCUMENT_BYTES) })}
+          required
+        >
+          <Input
+            id="documentFile"
+            name="file"
+            type="file"
+            accept={allowedMimeTypes(type).join(',')}
+            aria-invalid={!!errors.file}
+            aria-describedby={errors.file ? 'documentFile-error' : undefined}
+            // Phones open the camera straight away for a photo.
+            capture={type === 'photo' ? 'environment' : undefined}
+          />
+        </FormField>
+        <FormField label={t('name')} htmlFor="documentName" error={errors.name} hint={t('nameHint')}>
+          <Input id="documentName" name="name" maxLength={200} placeholder={t('namePlaceholder')} />
+        </FormField>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        {type === 'photo' ? (
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" name="useAsPhoto" defaultChecked />
+            {t('useAsPhoto')}
+          </label>
+        ) : (
+          <span />
+        )}
+        <Button type="submit" disabled={isPending}>
+          {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+          {t('submit')}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,398 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { useTranslations } from 'next-intl';
+import Papa from 'papaparse';
+import { AlertTriangle, CheckCircle2, Loader2, Upload } from 'lucide-react';
+import {
+  commitImport,
+  previewImport,
+  type ImportPreview,
+} from '@/app/(dashboard)/beneficiaries/import/actions';
+import { FormField } from '@/components/form-field';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { customFieldTarget, importFields, suggestMapping, type ImportMapping } from '@/lib/import/fields';
+import type { ImportCommitResult } from '@/lib/import/commit';
+import { useEnumLabel } from '@/lib/i18n/labels';
+import { cn } from '@/lib/utils';
+
+const TARGET_PASS_RATE = 0.95;
+const categories = ['HOMELESS', 'ELDERLY', 'DISABLED', 'LOW_INCOME', 'REFUGEE', 'ORPHAN', 'SICK', 'OTHER'] as const;
+
+type Category = (typeof categories)[number];
+type Step = 'upload' | 'map' | 'review' | 'done';
+
+export interface ImportTemplateOption {
+  id: string;
+  name: string;
+  mapping: ImportMapping;
+  defaultCategory: Category | null;
+}
+
+const steps: Step[] = ['upload', 'map', 'review', 'done'];
+
+export function ImportWizard({
+  templates,
+  customFields,
+}: {
+  templates: ImportTemplateOption[];
+  customFields: { key: string; label: string }[];
+}) {
+  const t = useTranslations('import');
+  const tc = useTranslations('common');
+  const tf = useTranslations('beneficiaries.fields');
+  const enumLabel = useEnumLabel();
+  const [isPending, startTransition] = useTransition();
+  const [step, setStep] = useState<Step>('upload');
+  const [error, setError] = useState<string | null>(null);
+
+  const [templateName, setTemplateName] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [sample, setSample] = useState<Record<string, string>>({});
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [defaultCategory, setDefaultCategory] = useState<Category | ''>('');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [result, setResult] = useState<ImportCommitResult | null>(null);
+
+  const savedTemplate = templates.find((template) => template.name === templateName.trim());
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    const text = await file.text();
+    const parsed = Papa.parse<Record<string, string>>(text, {
+      header: true,
+      preview: 1,
+      skipEmptyLines: 'greedy',
+      transformHeader: (header) => header.trim(),
+    });
+    const fields = (parsed.meta.fields ?? []).filter(Boolean);
+    if (fields.length === 0) {
+      setError(t('noHeaderRow'));
+      return;
+    }
+
+    setFileName(file.name);
+    setCsv(text);
+    setHeaders(fields);
+    setSample(parsed.data[0] ?? {});
+    setMapping(suggestMapping(fields, savedTemplate?.mapping, customFields));
+    setDefaultCategory(savedTemplate?.defaultCategory ?? '');
+    setStep('map');
+  };
+
+  const request = () => ({
+    csv,
+    mapping,
+    templateName: templateName.trim() || undefined,
+    defaultCategory: defaultCategory || undefined,
+  });
+
+  const runDryRun = () => {
+    setError(null);
+    startTransition(async () => {
+      const response = await previewImport(request());
+      if (!response.success) {
+        setError(response.error);
+        return;
+      }
+      setPreview(response.data);
+      setStep('review');
+    });
+  };
+
+  const runImport = () => {
+    setError(null);
+    startTransition(async () => {
+      const response = await commitImport(request());
+      if (!response.success) {
+        setError(response.error);
+        return;
+      }
+      setResult(response.data);
+      setStep('done');
+    });
+  };
+
+  const mappedFields = Object.values(mapping).filter(Boolean);
+  const categoryMapped = mappedFields.includes('category');
+
+  return (
+    <div className="space-y-6">
+      <ol className="flex flex-wrap gap-2 text-sm">
+        {steps.map((s, index) => (
+          <li
+            key={s}
+            className={cn(
+              'rounded-full border px-3 py-1',
+              s === step ? 'border-primary bg-primary text-primary-foreground' : 'text-muted-foreground'
+            )}
+          >
+            {index + 1}. {t(`steps.${s}`)}
+          </li>
+        ))}
+      </ol>
+
+      {error && (
+        <div role="alert" className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      {step === 'upload' && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            label={t('template')}
+            htmlFor="templateName"
+            hint={t('templateHint')}
+          >
+            <Input
+              id="templateName"
+              list="import-templates"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              placeholder={t('templatePlaceholder')}
+            />
+            <datalist id="import-templates">
+              {templates.map((template) => (
+                <option key={template.id} value={template.name} />
+              ))}
+            </datalist>
+          </FormField>
+          <FormField label={t('file')} htmlFor="file" hint={t('fileHint')}>
+            <Input id="file" type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+          </FormField>
+        </div>
+      )}
+
+      {step === 'map' && (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {t('columns', { fileName: fileName ?? '', count: headers.length })}{' '}
+            {savedTemplate ? t('usingSavedMapping', { name: savedTemplate.name }) : t('matchedByName')}
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('csvColumn')}</TableHead>
+                <TableHead className="hidden sm:table-cell">{t('sampleValue')}</TableHead>
+                <TableHead>{t('beneficiaryField')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {headers.map((header) => (
+                <TableRow key={header}>
+                  <TableCell className="font-medium">{header}</TableCell>
+                  <TableCell className="hidden max-w-xs truncate text-muted-foreground sm:table-cell">
+                    {sample[header] || '—'}
+                  </TableCell>
+                  <TableCell>
+                    <NativeSelect
+                      aria-label={t('fieldFor', { header })}
+                      value={mapping[header] ?? ''}
+                      onChange={(e) =>
+                        setMapping({ ...mapping, [header]: e.target.value as ImportMapping[string] })
+                      }
+                    >
+                      <option value="">{t('ignore')}</option>
+                      {importFields.map((field) => (
+                        <option
+                          key={field.key}
+                          value={field.key}
+                          disabled={mapping[header] !== field.key && mappedFields.includes(field.key)}
+                        >
+                          {t(`fields.${field.key}`)}
+                        </option>
+                      ))}
+                      {customFields.length > 0 && (
+                        <optgroup label={t('customFields')}>
+                          {customFields.map((field) => {
+                            const target = customFieldTarget(field.key);
+                            return (
+                              <option
+                                key={target}
+                                value={target}
+                                disabled={mapping[header] !== target && mappedFields.includes(target)}
+                              >
+                                {field.label}
+                              </option>
+                            );
+                          })}
+                        </optgroup>
+                      )}
+                    </NativeSelect>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <FormField
+            label={categoryMapped ? t('categoryFallback') : t('categoryForAll')}
+            htmlFor="defaultCategory"
+            className="max-w-sm"
+          >
+            <NativeSelect
+              id="defaultCategory"
+              value={defaultCategory}
+              onChange={(e) => setDefaultCategory(e.target.value as Category | '')}
+            >
+              <option value="">{tc('none')}</option>
+              {categories.map((value) => (
+                <option key={value} value={value}>
+                  {enumLabel(value)}
+                </option>
+              ))}
+            </NativeSelect>
+          </FormField>
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setStep('upload')} disabled={isPending}>
+              {t('back')}
+            </Button>
+            <Button onClick={runDryRun} disabled={isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('runDryRun')}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step === 'review' && preview && (
+        <div className="space-y-6">
+          <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+            <div className="rounded-lg border p-4">
+              <p className="text-sm text-muted-foreground">{t('passRate')}</p>
+              <p
+                className={cn(
+                  'text-2xl font-bold',
+                  preview.passRate >= TARGET_PASS_RATE ? 'text-green-600' : 'text-amber-600'
+                )}
+              >
+                {(preview.passRate * 100).toFixed(1)}%
+              </p>
+              <p className="text-xs text-muted-foreground">{t('target', { rate: TARGET_PASS_RATE * 100 })}</p>
+            </div>
+            <div className="rounded-lg border p-4">
+              <p className="text-sm text-muted-foreground">{t('rows')}</p>
+              <p className="text-2xl font-bold">{preview.totalRows}</p>
+            </div>
+            <div className="rounded-lg border p-4">
+              <p className="text-sm text-muted-foreground">{t('valid')}</p>
+              <p className="text-2xl font-bold">{preview.validRows}</p>
+            </div>
+            <div className="rounded-lg border p-4">
+              <p className="text-sm text-muted-foreground">{t('withErrors')}</p>
+              <p className="text-2xl font-bold">{preview.invalidRows}</p>
+            </div>
+          </div>
+
+          {preview.errors.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="flex items-center gap-2 font-semibold">
+                <AlertTriangle className="h-4 w-4 text-amber-600" />
+                {t('skippedRows')}
+              </h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('row')}</TableHead>
+                    <TableHead>{tf('name')}</TableHead>
+                    <TableHead>{t('problems')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.errors.map((row) => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell>{row.rowNumber}</TableCell>
+                      <TableCell>{row.name || '—'}</TableCell>
+                      <TableCell>
+                        <ul className="space-y-1">
+                          {row.errors.map((e, i) => (
+                            <li key={i}>
+                              <span className="font-medium">{e.field}</span>: {e.message}
+                            </li>
+                          ))}
+                        </ul>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {preview.errors.length < preview.invalidRows && (
+                <p className="text-xs text-muted-foreground">
+                  {t('showingFirstErrors', { shown: preview.errors.length, total: preview.invalidRows })}
+                </p>
+              )}
+            </div>
+          )}
+
+          {preview.preview.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="font-semibold">{t('validPreview')}</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('row')}</TableHead>
+                    <TableHead>{tf('name')}</TableHead>
+                    <TableHead>{tf('category')}</TableHead>
+                    <TableHead className="hidden sm:table-cell">{tf('icPhone')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.preview.map((row) => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell>{row.rowNumber}</TableCell>
+                      <TableCell>{row.name}</TableCell>
+                      <TableCell>{row.category && enumLabel(row.category)}</TableCell>
+                      <TableCell className="hidden text-muted-foreground sm:table-cell">
+                        {row.idNumber || row.phone || '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setStep('map')} disabled={isPending}>
+              {t('backToMapping')}
+            </Button>
+            <Button onClick={runImport} disabled={isPending || preview.validRows === 0}>
+              {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              {t('importValid', { count: preview.validRows })}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step === 'done' && result && (
+        <div className="space-y-4">
+          <p className="flex items-center gap-2 font-semibold">
+            <CheckCircle2 className="h-5 w-5 text-green-600" />
+            {t('finished', { created: result.created, updated: result.updated, failed: result.failed.length })}
+          </p>
+          {result.failed.length > 0 && (
+            <ul className="space-y-1 text-sm text-destructive">
+              {result.failed.map((f) => (
+                <li key={f.rowNumber}>
+                  {t('rowMessage', { row: f.rowNumber, message: f.message })}
+                </li>
+              ))}
+            </ul>
+          )}
+          <Button asChild>
+            <Link href="/beneficiaries">{t('viewBeneficiaries')}</Link>
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
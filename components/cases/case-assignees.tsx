@@ -0,0 +1,108 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useTranslations } from 'next-intl';
+import { Loader2, UserPlus, X } from 'lucide-react';
+import { addAssignee, removeAssignee } from '@/app/(dashboard)/cases/actions';
+import { Button } from '@/components/ui/button';
+import { NativeSelect } from '@/components/ui/native-select';
+import { useEnumLabel } from '@/lib/i18n/labels';
+
+interface Person {
+  id: string;
+  name: string;
+  role: string;
+}
+
+interface CaseAssigneesProps {
+  caseId: string;
+  assignees: Person[];
+  // Null when the current user can't change assignees.
+  users: Person[] | null;
+}
+
+export function CaseAssignees({ caseId, assignees, users }: CaseAssigneesProps) {
+  const t = useTranslations('cases.assignees');
+  const enumLabel = useEnumLabel();
+  const [isPending, startTransition] = useTransition();
+  const [selected, setSelected] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const run = (action: () => Promise<{ success: boolean; error?: string }>) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await action();
+      if (!result.success) {
+        setError(result.error ?? t('failed'));
+        return;
+      }
+      setSelected('');
+    });
+  };
+
+  const available = users?.filter((user) => !assignees.some((a) => a.id === user.id)) ?? [];
+
+  return (
+    <div className="space-y-4">
+      {assignees.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t('none')}</p>
+      ) : (
+        <ul className="space-y-2">
+          {assignees.map((assignee) => (
+            <li key={assignee.id} className="flex items-center justify-between gap-2 text-sm">
+              <span>
+                {assignee.name}{' '}
+                <span className="text-xs text-muted-foreground">{enumLabel(assignee.role)}</span>
+              </span>
+              {users && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => run(() => removeAssignee(caseId, assignee.id))}
+                  disabled={isPending}
+                  aria-label={t('remove', { name: assignee.name })}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {users && available.length > 0 && (
+        <div className="flex gap-2">
+          <NativeSelect
+            aria-label={t('add')}
+            value={selected}
+            onChange={(e) => setSelected(e.target.value)}
+            disabled={isPending}
+          >
+            <option value="">{t('addSomeone')}</option>
+            {available.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.name} ({enumLabel(user.role)})
+              </option>
+            ))}
+          </NativeSelect>
+          <Button
+            size="icon"
+            variant="outline"
+            onClick={() => run(() => addAssignee(caseId, selected))}
+            disabled={isPending || !selected}
+            aria-label={t('assign')}
+          >
+            {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <p role="alert" className="text-sm text-destructive">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import Link from 'next/link';
+import { useTranslations } from 'next-intl';
+import { Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { NativeSelect } from '@/components/ui/native-select';
+import type { CaseListParams } from '@/lib/cases';
+import { useEnumLabel } from '@/lib/i18n/labels';
+
+const statuses = ['OPEN', 'IN_PROGRESS', 'RESOLVED', 'CLOSED'];
+const types = ['FOOD', 'SHELTER', 'HEALTHCARE', 'EDUCATION', 'IDENTITY_DOCUMENTS', 'EMPLOYMENT', 'OTHER'];
+const priorities = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'];
+
+interface CaseFiltersProps {
+  params: CaseListParams;
+  // Record-scoped users only ever see their own cases, so "Unassigned" is hidden.
+  showUnassigned: boolean;
+}
+
+export function CaseFilters({ params, showUnassigned }: CaseFiltersProps) {
+  const t = useTranslations('cases');
+  const tc = useTranslations('common');
+  const enumLabel = useEnumLabel();
+
+  return (
+    <form method="GET" className="space-y-4">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+          <Input
+            name="q"
+            type="search"
+            defaultValue={params.q}
+            placeholder={t('searchPlaceholder')}
+            className="pl-9"
+            aria-label={t('searchLabel')}
+          />
+        </div>
+        <Button type="submit">{tc('search')}</Button>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="space-y-1">
+          <Label htmlFor="status">{t('fields.status')}</Label>
+          <NativeSelect id="status" name="status" defaultValue={params.status ?? ''}>
+            <option value="">{tc('all')}</option>
+            {statuses.map((value) => (
+              <option key={value} value={value}>
+                {enumLabel(value)}
+              </option>
+            ))}
+          </NativeSelect>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="type">{t('fields.type')}</Label>
+          <NativeSelect id="type" name="type" defaultValue={params.type ?? ''}>
+            <option value="">{tc('all')}</option>
+            {types.map((value) => (
+              <option key={value} value={value}>
+                {enumLabel(value)}
+              </option>
+            ))}
+          </NativeSelect>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="priority">{t('fields.priority')}</Label>
+          <NativeSelect id="priority" name="priority" defaultValue={params.priority ?? ''}>
+            <option value="">{tc('all')}</option>
+            {priorities.map((value) => (
+              <option key={value} value={value}>
+                {enumLabel(value)}
+              </option>
+            ))}
+          </NativeSelect>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="assigned">{t('fields.assignedTo')}</Label>
+          <NativeSelect id="assigned" name="assigned" defaultValue={params.assigned ?? ''}>
+            <option value="">{tc('anyone')}</option>
+            <option value="me">{tc('me')}</option>
+            {showUnassigned && <option value="unassigned">{tc('unassigned')}</option>}
+          </NativeSelect>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="submit" variant="secondary" size="sm">
+          {tc('applyFilters')}
+        </Button>
+        <Button asChild variant="ghost" size="sm">
+          <Link href="/cases">{tc('clear')}</Link>
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,189 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Controller, useForm, type Resolver } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2 } from 'lucide-react';
+import { createCase } from '@/app/(dashboard)/cases/actions';
+import { FormField } from '@/components/form-field';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import { Textarea } from '@/components/ui/textarea';
+import { initialCaseStatuses } from '@/lib/case-workflow';
+import { useEnumLabel } from '@/lib/i18n/labels';
+import { caseSchema } from '@/lib/validation';
+
+const types = ['FOOD', 'SHELTER', 'HEALTHCARE', 'EDUCATION', 'IDENTITY_DOCUMENTS', 'EMPLOYMENT', 'OTHER'] as const;
+const priorities = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'] as const;
+
+export interface CaseFormValues {
+  title: string;
+  description: string;
+  type: (typeof types)[number];
+  priority: (typeof priorities)[number];
+  status: (typeof initialCaseStatuses)[number];
+  beneficiaryId: string;
+  assigneeIds: string[];
+}
+
+interface CaseFormProps {
+  beneficiaryId: string;
+  defaultPriority?: CaseFormValues['priority'];
+  // Null when the user can't choose assignees; the case is then assigned to them.
+  assignableUsers: { id: string; name: string; role: string }[] | null;
+}
+
+export function CaseForm({ beneficiaryId, defaultPriority = 'MEDIUM', assignableUsers }: CaseFormProps) {
+  const router = useRouter();
+  const t = useTranslations('cases');
+  const tc = useTranslations('common');
+  const enumLabel = useEnumLabel();
+  const [isPending, startTransition] = useTransition();
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    setError,
+    formState: { errors },
+  } = useForm<CaseFormValues>({
+    resolver: zodResolver(caseSchema) as unknown as Resolver<CaseFormValues>,
+    defaultValues: {
+      title: '',
+      description: '',
+      type: 'OTHER',
+      priority: defaultPriority,
+      status: 'OPEN',
+      beneficiaryId,
+      assigneeIds: [],
+    },
+  });
+
+  const onSubmit = handleSubmit((values) => {
+    setFormError(null);
+    startTransition(async () => {
+      const result = await createCase(values);
+      if (!result.success) {
+        setFormError(result.error);
+        for (const [field, messages] of Object.entries(result.fieldErrors ?? {})) {
+          if (messages?.[0]) {
+            setError(field as keyof CaseFormValues, { type: 'server', message: messages[0] });
+          }
+        }
+        return;
+      }
+
+      router.push(`/cases/${result.data.id}`);
+      router.refresh();
+    });
+  });
+
+  const error = (field: keyof CaseFormValues) => errors[field]?.message as string | undefined;
+  const aria = (field: keyof CaseFormValues) => ({
+    'aria-invalid': !!errors[field],
+    'aria-describedby': errors[field] ? `${field}-error` : undefined,
+  });
+
+  return (
+    <form onSubmit={onSubmit} noValidate className="space-y-6">
+      {formError && (
+        <div role="alert" className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+          {formError}
+        </div>
+      )}
+
+      <input type="hidden" {...register('beneficiaryId')} />
+
+      <FormField label={t('fields.title')} htmlFor="title" error={error('title')} required>
+        <Input id="title" placeholder={t('form.titlePlaceholder')} {...aria('title')} {...register('title')} />
+      </FormField>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <FormField label={t('fields.type')} htmlFor="type" error={error('type')} required>
+          <NativeSelect id="type" {...aria('type')} {...register('type')}>
+            {types.map((value) => (
+              <option key={value} value={value}>
+                {enumLabel(value)}
+              </option>
+            ))}
+          </NativeSelect>
+        </FormField>
+        <FormField label={t('fields.priority')} htmlFor="priority" error={error('priority')}>
+          <NativeSelect id="priority" {...aria('priority')} {...register('priority')}>
+            {priorities.map((value) => (
+              <option key={value} value={value}>
+                {enumLabel(value)}
+              </option>
+            ))}
+          </NativeSelect>
+        </FormField>
+        <FormField label={t('fields.status')} htmlFor="status" error={error('status')}>
+          <NativeSelect id="status" {...aria('status')} {...register('status')}>
+            {initialCaseStatuses.map((value) => (
+              <option key={value} value={value}>
+                {enumLabel(value)}
+              </option>
+            ))}
+          </NativeSelect>
+        </FormField>
+      </div>
+
+      <FormField label={t('fields.description')} htmlFor="description" error={error('description')} required>
+        <Textarea
+          id="description"
+          rows={5}
+          placeholder={t('form.descriptionPlaceholder')}
+          {...aria('description')}
+          {...register('description')}
+        />
+      </FormField>
+
+      {assignableUsers ? (
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium">{t('form.assignTo')}</legend>
+          {error('assigneeIds') && <p className="text-sm text-destructive">{error('assigneeIds')}</p>}
+          <Controller
+            control={control}
+            name="assigneeIds"
+            render={({ field }) => (
+              <div className="grid max-h-60 gap-2 overflow-y-auto rounded-md border p-3 sm:grid-cols-2">
+                {assignableUsers.map((user) => (
+                  <label key={user.id} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4"
+                      checked={field.value.includes(user.id)}
+                      onChange={(e) =>
+                        field.onChange(
+                          e.target.checked ? [...field.value, user.id] : field.value.filter((id) => id !== user.id)
+                        )
+                      }
+                    />
+                    {user.name}
+                    <span className="text-xs text-muted-foreground">{enumLabel(user.role)}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          />
+        </fieldset>
+      ) : (
+        <p className="text-sm text-muted-foreground">{t('form.assignedToYou')}</p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={() => router.back()} disabled={isPending}>
+          {tc('cancel')}
+        </Button>
+        <Button type="submit" disabled={isPending}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t('form.submit')}
+        </Button>
+      </div>
+    </form>
+  );
+}
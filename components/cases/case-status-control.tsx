@@ -0,0 +1,114 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import type { CaseStatus } from '@prisma/client';
+import { useTranslations } from 'next-intl';
+import { Loader2 } from 'lucide-react';
+import { changeCaseStatus } from '@/app/(dashboard)/cases/actions';
+import { FormField } from '@/components/form-field';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { isReopen, transitionRequiresReason } from '@/lib/case-workflow';
+import { useEnumLabel } from '@/lib/i18n/labels';
+
+interface CaseStatusControlProps {
+  caseId: string;
+  status: CaseStatus;
+  allowed: CaseStatus[];
+}
+
+export function CaseStatusControl({ caseId, status, allowed }: CaseStatusControlProps) {
+  const t = useTranslations('cases.statusControl');
+  const tc = useTranslations('common');
+  const enumLabel = useEnumLabel();
+  const [isPending, startTransition] = useTransition();
+  const [target, setTarget] = useState<CaseStatus | null>(null);
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  if (allowed.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t('none')}</p>;
+  }
+
+  const submit = (to: CaseStatus) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await changeCaseStatus(caseId, { status: to, reason: reason.trim() || undefined });
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      setTarget(null);
+      setReason('');
+    });
+  };
+
+  // Transitions that need a reason open a small form first; the rest apply at once.
+  const choose = (to: CaseStatus) => {
+    if (transitionRequiresReason(status, to)) {
+      setTarget(to);
+      setError(null);
+    } else {
+      submit(to);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {allowed.map((to) => (
+          <Button
+            key={to}
+            size="sm"
+            variant={to === target ? 'default' : isReopen(status, to) || to === 'CLOSED' ? 'outline' : 'secondary'}
+            onClick={() => choose(to)}
+            disabled={isPending}
+          >
+            {t(`actions.${to}`)}
+          </Button>
+        ))}
+      </div>
+
+      {target && (
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit(target);
+          }}
+        >
+          <FormField
+            label={t('reason', { status: enumLabel(target) })}
+            htmlFor="statusReason"
+            required
+          >
+            <Textarea
+              id="statusReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              maxLength={2000}
+              required
+              autoFocus
+            />
+          </FormField>
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" disabled={isPending || !reason.trim()}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t(`actions.${target}`)}
+            </Button>
+            <Button type="button" size="sm" variant="ghost" onClick={() => setTarget(null)} disabled={isPending}>
+              {tc('cancel')}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {error && (
+        <p role="alert" className="text-sm text-destructive">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
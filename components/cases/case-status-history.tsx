@@ -0,0 +1,40 @@
+import { useLocale, useTranslations } from 'next-intl';
+import { ArrowRight } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { CaseStatusHistoryEntry } from '@/lib/cases';
+import { useEnumLabel } from '@/lib/i18n/labels';
+import { formatDateTime } from '@/lib/utils';
+
+export function CaseStatusHistory({ entries }: { entries: CaseStatusHistoryEntry[] }) {
+  const t = useTranslations('cases.history');
+  const locale = useLocale();
+  const enumLabel = useEnumLabel();
+
+  if (entries.length === 0) {
+    return <p className="py-6 text-center text-sm text-muted-foreground">{t('empty')}</p>;
+  }
+
+  return (
+    <ol className="space-y-4">
+      {entries.map((entry) => (
+        <li key={entry.id} className="space-y-1 border-l-2 pl-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            {entry.fromStatus ? (
+              <>
+                <Badge variant="outline">{enumLabel(entry.fromStatus)}</Badge>
+                <ArrowRight className="h-3 w-3 text-muted-foreground" />
+              </>
+            ) : (
+              <span className="text-muted-foreground">{t('createdAs')}</span>
+            )}
+            <Badge variant="secondary">{enumLabel(entry.toStatus)}</Badge>
+          </div>
+          {entry.reason && <p className="text-sm whitespace-pre-line">{entry.reason}</p>}
+          <p className="text-xs text-muted-foreground">
+            {entry.changedBy.name} · {formatDateTime(entry.createdAt, locale)}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+}
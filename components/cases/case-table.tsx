@@ -0,0 +1,61 @@
+import Link from 'next/link';
+import { useLocale, useTranslations } from 'next-intl';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { isTerminalCaseStatus } from '@/lib/case-workflow';
+import type { CaseListItem } from '@/lib/cases';
+import { useEnumLabel } from '@/lib/i18n/labels';
+import { formatDate } from '@/lib/utils';
+
+export function CaseTable({ items }: { items: CaseListItem[] }) {
+  const t = useTranslations('cases.fields');
+  const locale = useLocale();
+  const enumLabel = useEnumLabel();
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{t('case')}</TableHead>
+          <TableHead className="hidden md:table-cell">{t('beneficiary')}</TableHead>
+          <TableHead>{t('type')}</TableHead>
+          <TableHead>{t('priority')}</TableHead>
+          <TableHead>{t('status')}</TableHead>
+          <TableHead className="hidden lg:table-cell">{t('assignedTo')}</TableHead>
+          <TableHead>{t('opened')}</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {items.map((item) => (
+          <TableRow key={item.id}>
+            <TableCell>
+              <Link href={`/cases/${item.id}`} className="font-medium hover:underline">
+                {item.title}
+              </Link>
+            </TableCell>
+            <TableCell className="hidden md:table-cell">
+              <Link href={`/beneficiaries/${item.beneficiary.id}`} className="hover:underline">
+                {item.beneficiary.firstName} {item.beneficiary.lastName}
+              </Link>
+            </TableCell>
+            <TableCell>{enumLabel(item.type)}</TableCell>
+            <TableCell>
+              <Badge variant={item.priority === 'URGENT' ? 'destructive' : 'outline'}>
+                {enumLabel(item.priority)}
+              </Badge>
+            </TableCell>
+            <TableCell>
+              <Badge variant={isTerminalCaseStatus(item.status) ? 'secondary' : 'default'}>
+                {enumLabel(item.status)}
+              </Badge>
+            </TableCell>
+            <TableCell className="hidden lg:table-cell">
+              {item.assignedTo.length > 0 ? item.assignedTo.map((user) => user.name).join(', ') : '—'}
+            </TableCell>
+            <TableCell className="whitespace-nowrap">{formatDate(item.createdAt, locale)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
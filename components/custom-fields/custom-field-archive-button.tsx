@@ -0,0 +1,47 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Archive, ArchiveRestore, Loader2 } from 'lucide-react';
+import { setFieldArchived } from '@/app/(dashboard)/settings/custom-fields/actions';
+import { Button } from '@/components/ui/button';
+
+export function CustomFieldArchiveButton({ fieldId, archived }: { fieldId: string; archived: boolean }) {
+  const t = useTranslations('customFields');
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await setFieldArchived(fieldId, !archived);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      router.refresh();
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Button variant="outline" size="sm" onClick={toggle} disabled={isPending}>
+        {isPending ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : archived ? (
+          <ArchiveRestore className="mr-2 h-4 w-4" />
+        ) : (
+          <Archive className="mr-2 h-4 w-4" />
+        )}
+        {archived ? t('restore') : t('archive')}
+      </Button>
+      {error && (
+        <p role="alert" className="text-sm text-destructive">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
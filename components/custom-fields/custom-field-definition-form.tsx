@@ -0,0 +1,299 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Loader2, Plus, Save } from 'lucide-react';
+import type { CustomField, CustomFieldEntity, CustomFieldType } from '@prisma/client';
+import { createField, updateField } from '@/app/(dashboard)/settings/custom-fields/actions';
+import { FormField } from '@/components/form-field';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import { Textarea } from '@/components/ui/textarea';
+import { choiceTypes, customFieldEntities, customFieldTypes } from '@/lib/custom-fields/values';
+
+const categories = ['HOMELESS', 'ELDERLY', 'DISABLED', 'LOW_INCOME', 'REFUGEE', 'ORPHAN', 'SICK', 'OTHER'] as const;
+const serviceTypes = [
+  'FOOD_DISTRIBUTION',
+  'SHELTER_ADMISSION',
+  'SHELTER_EXIT',
+  'MEDICAL_CHECKUP',
+  'COUNSELING',
+  'EDUCATION',
+  'FINANCIAL_AID',
+  'RESCUE',
+  'OTHER',
+] as const;
+
+type FieldErrors = Record<string, string[] | undefined>;
+
+interface CustomFieldDefinitionFormProps {
+  // Editing an existing field; without it the form adds a new one.
+  field?: Pick<
+    CustomField,
+    | 'id'
+    | 'entity'
+    | 'key'
+    | 'label'
+    | 'helpText'
+    | 'type'
+    | 'options'
+    | 'required'
+    | 'categories'
+    | 'serviceTypes'
+    | 'programmeIds'
+    | 'position'
+  >;
+  // The programmes a field can be scoped to.
+  programmes: { id: string; name: string; branchCode: string }[];
+}
+
+// "Home district" → home_district, as a starting point for the key.
+function suggestKey(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[^a-z]+|_+$/g, '')
+    .slice(0, 50);
+}
+
+export function CustomFieldDefinitionForm({ field, programmes }: CustomFieldDefinitionFormProps) {
+  const t = useTranslations('customFields');
+  const te = useTranslations('enums');
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const [entity, setEntity] = useState<CustomFieldEntity>(field?.entity ?? 'BENEFICIARY');
+  const [label, setLabel] = useState(field?.label ?? '');
+  const [key, setKey] = useState(field?.key ?? '');
+  const [keyEdited, setKeyEdited] = useState(!!field);
+  const [type, setType] = useState<CustomFieldType>(field?.type ?? 'TEXT');
+  const [options, setOptions] = useState((field?.options ?? []).join('\n'));
+  const [required, setRequired] = useState(field?.required ?? false);
+  const [scope, setScope] = useState<string[]>(
+    field ? (field.entity === 'BENEFICIARY' ? field.categories : field.serviceTypes) : []
+  );
+  const [programmeIds, setProgrammeIds] = useState<string[]>(field?.programmeIds ?? []);
+  const [helpText, setHelpText] = useState(field?.helpText ?? '');
+  const [position, setPosition] = useState(String(field?.position ?? 0));
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [saved, setSaved] = useState(false);
+
+  const scopeValues = entity === 'BENEFICIARY' ? categories : serviceTypes;
+  const toggleScope = (value: string, checked: boolean) =>
+    setScope((current) => (checked ? [...current, value] : current.filter((v) => v !== value)));
+
+  const reset = () => {
+    setLabel('');
+    setKey('');
+    setKeyEdited(false);
+    setOptions('');
+    setRequired(false);
+    setScope([]);
+    setProgrammeIds([]);
+    setHelpText('');
+    setPosition('0');
+  };
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setFieldErrors({});
+    setSaved(false);
+    startTransition(async () => {
+      const input = {
+        entity,
+        key,
+        label,
+        type,
+        options: options
+          .split('\n')
+          .map((option) => option.trim())
+          .filter(Boolean),
+        required,
+        categories: entity === 'BENEFICIARY' ? scope : [],
+        serviceTypes: entity === 'SERVICE' ? scope : [],
+        programmeIds,
+        helpText,
+        position,
+      };
+      const result = field ? await updateField(field.id, input) : await createField(input);
+      if (!result.success) {
+        setError(result.error);
+        setFieldErrors(result.fieldErrors ?? {});
+        return;
+      }
+      if (field) {
+        setSaved(true);
+      } else {
+        reset();
+      }
+      router.refresh();
+    });
+  };
+
+  const fieldError = (name: string) => fieldErrors[name]?.[0];
+
+  return (
+    <form onSubmit={onSubmit} noValidate className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <FormField label={t('entity')} htmlFor="customFieldEntity" error={fieldError('entity')} required>
+          <NativeSelect
+            id="customFieldEntity"
+            value={entity}
+            disabled={!!field}
+            onChange={(e) => {
+              setEntity(e.target.value as CustomFieldEntity);
+              setScope([]);
+            }}
+          >
+            {customFieldEntities.map((value) => (
+              <option key={value} value={value}>
+                {te(value)}
+              </option>
+            ))}
+          </NativeSelect>
+        </FormField>
+        <FormField label={t('type')} htmlFor="customFieldType" error={fieldError('type')} required>
+          <NativeSelect
+            id="customFieldType"
+            value={type}
+            disabled={!!field}
+            onChange={(e) => setType(e.target.value as CustomFieldType)}
+          >
+            {customFieldTypes.map((value) => (
+              <option key={value} value={value}>
+                {t(`types.${value}`)}
+              </option>
+            ))}
+          </NativeSelect>
+        </FormField>
+        <FormField label={t('label')} htmlFor="customFieldLabel" error={fieldError('label')} required>
+          <Input
+            id="customFieldLabel"
+            value={label}
+            maxLength={100}
+            onChange={(e) => {
+              setLabel(e.target.value);
+              if (!keyEdited) setKey(suggestKey(e.target.value));
+            }}
+          />
+        </FormField>
+        <FormField
+          label={t('key')}
+          htmlFor="customFieldKey"
+          error={fieldError('key')}
+          hint={field ? t('keyFixed') : t('keyHint')}
+          required
+        >
+          <Input
+            id="customFieldKey"
+            value={key}
+            maxLength={50}
+            disabled={!!field}
+            className="font-mono"
+            onChange={(e) => {
+              setKey(e.target.value);
+              setKeyEdited(true);
+            }}
+          />
+        </FormField>
+      </div>
+
+      {choiceTypes.includes(type) && (
+        <FormField
+          label={t('options')}
+          htmlFor="customFieldOptions"
+          error={fieldError('options')}
+          hint={t('optionsHint')}
+          required
+        >
+          <Textarea id="customFieldOptions" rows={4} value={options} onChange={(e) => setOptions(e.target.value)} />
+        </FormField>
+      )}
+
+      <FormField label={t('helpText')} htmlFor="customFieldHelpText" error={fieldError('helpText')} hint={t('helpTextHint')}>
+        <Input id="customFieldHelpText" value={helpText} maxLength={200} onChange={(e) => setHelpText(e.target.value)} />
+      </FormField>
+
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium">{entity === 'BENEFICIARY' ? t('categories') : t('serviceTypes')}</legend>
+        <p className="text-xs text-muted-foreground">{t('scopeHint')}</p>
+        <div className="grid gap-2 sm:grid-cols-3">
+          {scopeValues.map((value) => (
+            <label key={value} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={scope.includes(value)}
+                onChange={(e) => toggleScope(value, e.target.checked)}
+              />
+              {te(value)}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      {programmes.length > 0 && (
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium">{t('programmes')}</legend>
+          <p className="text-xs text-muted-foreground">{t('programmesHint')}</p>
+          <div className="grid gap-2 sm:grid-cols-3">
+            {programmes.map((programme) => (
+              <label key={programme.id} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={programmeIds.includes(programme.id)}
+                  onChange={(e) =>
+                    setProgrammeIds((current) =>
+                      e.target.checked ? [...current, programme.id] : current.filter((id) => id !== programme.id)
+                    )
+                  }
+                />
+                {programme.name}
+                <span className="text-xs text-muted-foreground">{programme.branchCode}</span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <FormField label={t('position')} htmlFor="customFieldPosition" error={fieldError('position')} hint={t('positionHint')}>
+          <Input
+            id="customFieldPosition"
+            type="number"
+            min={0}
+            max={1000}
+            value={position}
+            onChange={(e) => setPosition(e.target.value)}
+          />
+        </FormField>
+        <label className="flex items-center gap-2 self-center text-sm">
+          <input type="checkbox" checked={required} onChange={(e) => setRequired(e.target.checked)} />
+          {t('required')}
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Button type="submit" disabled={isPending}>
+          {isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : field ? (
+            <Save className="mr-2 h-4 w-4" />
+          ) : (
+            <Plus className="mr-2 h-4 w-4" />
+          )}
+          {field ? t('save') : t('add')}
+        </Button>
+        {saved && <p className="text-sm text-muted-foreground">{t('saved')}</p>}
+        {error && (
+          <p role="alert" className="text-sm text-destructive">
+            {error}
+          </p>
+        )}
+      </div>
+    </form>
+  );
+}
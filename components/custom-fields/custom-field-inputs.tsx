@@ -0,0 +1,137 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { FormField } from '@/components/form-field';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import type { CustomFieldDefinition, CustomFieldValue, CustomFieldValues } from '@/lib/custom-fields/values';
+
+interface CustomFieldInputsProps {
+  fields: CustomFieldDefinition[];
+  value: CustomFieldValues;
+  onChange: (value: CustomFieldValues) => void;
+  // react-hook-form's errors under `customFields`.
+  errors?: unknown;
+}
+
+// The first message in a react-hook-form error node. A multi-select reports
+// each chosen option separately; `ref` points at the DOM element.
+function firstMessage(error: unknown): string | undefined {
+  if (typeof error !== 'object' || error === null) return undefined;
+  if ('message' in error && typeof error.message === 'string' && error.message) return error.message;
+  for (const [key, nested] of Object.entries(error)) {
+    if (key === 'ref') continue;
+    const message = firstMessage(nested);
+    if (message) return message;
+  }
+  return undefined;
+}
+
+// One input per admin-defined field, laid out like the built-in ones. Answers
+// are kept as the inputs produce them and checked by customFieldValuesSchema.
+export function CustomFieldInputs({ fields, value, onChange, errors }: CustomFieldInputsProps) {
+  const t = useTranslations('customFields');
+  const tc = useTranslations('common');
+
+  if (fields.length === 0) return null;
+
+  const set = (key: string, answer: CustomFieldValue | undefined) => {
+    const next = { ...value };
+    if (answer === undefined) delete next[key];
+    else next[key] = answer;
+    onChange(next);
+  };
+  const nodes = (typeof errors === 'object' && errors !== null ? errors : {}) as Record<string, unknown>;
+  // Set as a whole when the server rejects the answers.
+  const overall = typeof nodes.message === 'string' ? nodes.message : undefined;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        {fields.map((field) => {
+          const id = `cf-${field.key}`;
+          const answer = value[field.key];
+          const error = firstMessage(nodes[field.key]);
+          const props = { label: field.label, htmlFor: id, error, hint: field.helpText ?? undefined, required: field.required };
+          const aria = { 'aria-invalid': !!error, 'aria-describedby': error ? `${id}-error` : undefined };
+
+          switch (field.type) {
+            case 'TEXT':
+            case 'NUMBER':
+            case 'DATE':
+              return (
+                <FormField key={field.key} {...props}>
+                  <Input
+                    id={id}
+                    type={field.type === 'TEXT' ? 'text' : field.type === 'NUMBER' ? 'number' : 'date'}
+                    step={field.type === 'NUMBER' ? 'any' : undefined}
+                    value={answer === undefined ? '' : String(answer)}
+                    onChange={(e) => set(field.key, e.target.value)}
+                    {...aria}
+                  />
+                </FormField>
+              );
+            case 'SELECT':
+              return (
+                <FormField key={field.key} {...props}>
+                  <NativeSelect
+                    id={id}
+                    value={typeof answer === 'string' ? answer : ''}
+                    onChange={(e) => set(field.key, e.target.value || undefined)}
+                    {...aria}
+                  >
+                    <option value="">{t('choose')}</option>
+                    {field.options.map((option) => (
+                      <option key={option} value={option}>
+                        {option}
+                      </option>
+                    ))}
+                  </NativeSelect>
+                </FormField>
+              );
+            case 'MULTI_SELECT': {
+              const chosen = Array.isArray(answer) ? answer : [];
+              return (
+                <FormField key={field.key} {...props} className="sm:col-span-2">
+                  <div id={id} className="flex flex-wrap gap-x-4 gap-y-2" {...aria}>
+                    {field.options.map((option) => (
+                      <label key={option} className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={chosen.includes(option)}
+                          onChange={(e) =>
+                            set(
+                              field.key,
+                              e.target.checked ? [...chosen, option] : chosen.filter((other) => other !== option)
+                            )
+                          }
+                        />
+                        {option}
+                      </label>
+                    ))}
+                  </div>
+                </FormField>
+              );
+            }
+            case 'BOOLEAN':
+              return (
+                <FormField key={field.key} {...props}>
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      id={id}
+                      type="checkbox"
+                      checked={answer === true}
+                      onChange={(e) => set(field.key, e.target.checked)}
+                      {...aria}
+                    />
+                    {tc('yes')}
+                  </label>
+                </FormField>
+              );
+          }
+        })}
+      </div>
+      {overall && <p className="text-sm text-destructive">{overall}</p>}
+    </div>
+  );
+}
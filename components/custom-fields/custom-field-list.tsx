@@ -0,0 +1,80 @@
+import Link from 'next/link';
+import { useTranslations } from 'next-intl';
+import type { CustomField } from '@prisma/client';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+interface CustomFieldListProps {
+  fields: CustomField[];
+  programmes: { id: string; name: string }[];
+}
+
+export function CustomFieldList({ fields, programmes }: CustomFieldListProps) {
+  const t = useTranslations('customFields');
+  const te = useTranslations('enums');
+
+  if (fields.length === 0) {
+    return <p className="py-6 text-center text-sm text-muted-foreground">{t('empty')}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{t('field')}</TableHead>
+          <TableHead>{t('entity')}</TableHead>
+          <TableHead>{t('type')}</TableHead>
+          <TableHead>{t('appliesTo')}</TableHead>
+          <TableHead>{t('status')}</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {fields.map((field) => {
+          const scope = field.entity === 'BENEFICIARY' ? field.categories : field.serviceTypes;
+          // An archived programme drops out of the choices but still scopes the field.
+          const scopedProgrammes = field.programmeIds.map(
+            (id) => programmes.find((programme) => programme.id === id)?.name ?? t('archivedProgramme')
+          );
+          return (
+            <TableRow key={field.id}>
+              <TableCell>
+                <Link href={`/settings/custom-fields/${field.id}`} className="font-medium hover:underline">
+                  {field.label}
+                </Link>
+                <div className="font-mono text-xs text-muted-foreground">{field.key}</div>
+              </TableCell>
+              <TableCell>{te(field.entity)}</TableCell>
+              <TableCell>
+                {t(`types.${field.type}`)}
+                {field.required && <span className="ml-1 text-xs text-muted-foreground">({t('requiredShort')})</span>}
+              </TableCell>
+              <TableCell>
+                <div className="flex max-w-xs flex-wrap gap-1">
+                  {scope.length === 0 && scopedProgrammes.length === 0 ? (
+                    <span className="text-sm text-muted-foreground">{t('appliesToAll')}</span>
+                  ) : (
+                    <>
+                      {scope.map((value) => (
+                        <Badge key={value} variant="outline">
+                          {te(value)}
+                        </Badge>
+                      ))}
+                      {scopedProgrammes.map((name, index) => (
+                        <Badge key={field.programmeIds[index]} variant="secondary">
+                          {name}
+                        </Badge>
+                      ))}
+                    </>
+                  )}
+                </div>
+              </TableCell>
+              <TableCell>
+                {field.archivedAt ? <Badge variant="secondary">{t('archived')}</Badge> : <Badge>{t('active')}</Badge>}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,35 @@
+import { useFormatter } from 'next-intl';
+
+interface BreakdownChartProps {
+  items: { label: string; value: number }[];
+  emptyMessage: string;
+}
+
+export function BreakdownChart({ items, emptyMessage }: BreakdownChartProps) {
+  const format = useFormatter();
+
+  if (items.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  const max = Math.max(...items.map((item) => item.value));
+  const total = items.reduce((sum, item) => sum + item.value, 0);
+
+  return (
+    <ul className="space-y-3">
+      {items.map((item) => (
+        <li key={item.label} className="space-y-1">
+          <div className="flex justify-between gap-2 text-sm">
+            <span>{item.label}</span>
+            <span className="text-muted-foreground">
+              {format.number(item.value)} · {Math.round((item.value / total) * 100)}%
+            </span>
+          </div>
+          <div className="h-2 rounded-full bg-muted">
+            <div className="h-2 rounded-full bg-primary/70" style={{ width: `${(item.value / max) * 100}%` }} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
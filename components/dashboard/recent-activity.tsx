@@ -0,0 +1,73 @@
+import Link from 'next/link';
+import { useFormatter, useTranslations } from 'next-intl';
+import { FileText, HeartHandshake, UserPlus, Users } from 'lucide-react';
+import type { ActivityItem, ActivityKind } from '@/lib/dashboard';
+import { useEnumLabel } from '@/lib/i18n/labels';
+
+const icons: Record<ActivityKind, typeof Users> = {
+  beneficiary: UserPlus,
+  case: FileText,
+  service: HeartHandshake,
+  distribution: Users,
+};
+
+function useDescribe() {
+  const t = useTranslations('dashboard.activity');
+  const enumLabel = useEnumLabel();
+
+  return (item: ActivityItem): { title: string; detail: string } => {
+    switch (item.kind) {
+      case 'beneficiary':
+        return { title: item.name, detail: t('registered', { category: enumLabel(item.category) }) };
+      case 'case':
+        return {
+          title: item.title,
+          detail: item.fromStatus
+            ? `${enumLabel(item.fromStatus)} → ${enumLabel(item.toStatus)}`
+            : t('caseOpened'),
+        };
+      case 'service':
+        return { title: item.name, detail: enumLabel(item.type) };
+      case 'distribution':
+        return {
+          title: `${enumLabel(item.type)} · ${item.location}`,
+          detail: t('distributionEvent', { served: item.served }),
+        };
+    }
+  };
+}
+
+export function RecentActivity({ items }: { items: ActivityItem[] }) {
+  const t = useTranslations('dashboard.activity');
+  const format = useFormatter();
+  const describe = useDescribe();
+
+  if (items.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t('empty')}</p>;
+  }
+
+  return (
+    <ul className="space-y-4">
+      {items.map((item) => {
+        const Icon = icons[item.kind];
+        const { title, detail } = describe(item);
+        return (
+          <li key={item.id} className="flex gap-3">
+            <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+            <div className="min-w-0 flex-1 text-sm">
+              <Link href={item.href} className="font-medium hover:underline">
+                {title}
+              </Link>
+              <p className="text-muted-foreground">
+                {detail} · {item.by}
+              </p>
+            </div>
+            <time dateTime={item.at.toISOString()} className="shrink-0 text-xs text-muted-foreground">
+              {format.relativeTime(item.at)}
+            </time>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,40 @@
+import { useFormatter } from 'next-intl';
+import type { MonthlyPoint } from '@/lib/dashboard';
+
+function monthDate(month: string): Date {
+  return new Date(`${month}-01T00:00:00Z`);
+}
+
+// A plain column chart, one bar per month. Server-rendered with no chart
+// library: the dashboard only needs the shape of the trend.
+export function TrendChart({ points, label }: { points: MonthlyPoint[]; label: string }) {
+  const format = useFormatter();
+  const shortMonth = (point: MonthlyPoint) =>
+    format.dateTime(monthDate(point.month), { month: 'short', timeZone: 'UTC' });
+  const longMonth = (point: MonthlyPoint) =>
+    format.dateTime(monthDate(point.month), { month: 'long', year: 'numeric', timeZone: 'UTC' });
+  const max = Math.max(1, ...points.map((point) => point.value));
+  const summary = points.map((point) => `${longMonth(point)}: ${point.value}`).join(', ');
+
+  return (
+    <div className="space-y-1">
+      <div className="flex h-32 items-end gap-1" role="img" aria-label={`${label}. ${summary}`}>
+        {points.map((point) => (
+          <div
+            key={point.month}
+            className="min-h-[2px] flex-1 rounded-t bg-primary/70 transition-colors hover:bg-primary"
+            style={{ height: `${(point.value / max) * 100}%` }}
+            title={`${longMonth(point)}: ${point.value}`}
+          />
+        ))}
+      </div>
+      <div className="flex gap-1 text-[10px] text-muted-foreground" aria-hidden>
+        {points.map((point) => (
+          <span key={point.month} className="flex-1 text-center">
+            {shortMonth(point)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
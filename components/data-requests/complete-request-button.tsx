@@ -0,0 +1,56 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useTranslations } from 'next-intl';
+import { CheckCircle2, Loader2 } from 'lucide-react';
+import { completeRequest } from '@/app/(dashboard)/data-requests/actions';
+import { Button } from '@/components/ui/button';
+
+export function CompleteRequestButton({ requestId }: { requestId: string }) {
+  const t = useTranslations('dataRequests.complete');
+  const tc = useTranslations('common');
+  const [isPending, startTransition] = useTransition();
+  const [confirming, setConfirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!confirming) {
+    return (
+      <Button variant="outline" onClick={() => setConfirming(true)}>
+        <CheckCircle2 className="mr-2 h-4 w-4" />
+        {t('markCompleted')}
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-muted-foreground">{t('confirm')}</span>
+      <Button
+        size="sm"
+        disabled={isPending}
+        onClick={() => {
+          setError(null);
+          startTransition(async () => {
+            const result = await completeRequest(requestId);
+            if (!result.success) {
+              setError(result.error);
+              return;
+            }
+            setConfirming(false);
+          });
+        }}
+      >
+        {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {t('markCompleted')}
+      </Button>
+      <Button size="sm" variant="ghost" onClick={() => setConfirming(false)} disabled={isPending}>
+        {tc('cancel')}
+      </Button>
+      {error && (
+        <p role="alert" className="w-full text-sm text-destructive">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
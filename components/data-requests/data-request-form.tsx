@@ -0,0 +1,121 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { useForm, type Resolver } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2 } from 'lucide-react';
+import { logDataRequest } from '@/app/(dashboard)/data-requests/actions';
+import { FormField } from '@/components/form-field';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import { Textarea } from '@/components/ui/textarea';
+import { dataRequestSchema } from '@/lib/validation';
+
+const types = ['ACCESS', 'ERASURE'] as const;
+
+// Form state mirrors dataRequestSchema, with the date kept as the
+// `YYYY-MM-DD` string a native date input produces.
+export interface DataRequestFormValues {
+  beneficiaryId: string;
+  type: (typeof types)[number];
+  receivedAt: string;
+  details: string;
+}
+
+export function DataRequestForm({ beneficiaryId }: { beneficiaryId: string }) {
+  const t = useTranslations('dataRequests.form');
+  const tc = useTranslations('common');
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    setError,
+    formState: { errors },
+  } = useForm<DataRequestFormValues>({
+    resolver: zodResolver(dataRequestSchema) as unknown as Resolver<DataRequestFormValues>,
+    defaultValues: {
+      beneficiaryId,
+      type: 'ACCESS',
+      receivedAt: new Date().toISOString().slice(0, 10),
+      details: '',
+    },
+  });
+
+  const onSubmit = handleSubmit((values) => {
+    setFormError(null);
+    startTransition(async () => {
+      const result = await logDataRequest(values);
+      if (!result.success) {
+        setFormError(result.error);
+        for (const [field, messages] of Object.entries(result.fieldErrors ?? {})) {
+          if (messages?.[0]) {
+            setError(field as keyof DataRequestFormValues, { type: 'server', message: messages[0] });
+          }
+        }
+        return;
+      }
+
+      router.push(`/data-requests/${result.data.id}`);
+      router.refresh();
+    });
+  });
+
+  const error = (field: keyof DataRequestFormValues) => errors[field]?.message as string | undefined;
+  const aria = (field: keyof DataRequestFormValues) => ({
+    'aria-invalid': !!errors[field],
+    'aria-describedby': errors[field] ? `${field}-error` : undefined,
+  });
+
+  return (
+    <form onSubmit={onSubmit} noValidate className="space-y-6">
+      {formError && (
+        <div role="alert" className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+          {formError}
+        </div>
+      )}
+
+      <input type="hidden" {...register('beneficiaryId')} />
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <FormField label={t('type')} htmlFor="type" error={error('type')} required>
+          <NativeSelect id="type" {...aria('type')} {...register('type')}>
+            {types.map((type) => (
+              <option key={type} value={type}>
+                {t(`types.${type}`)}
+              </option>
+            ))}
+          </NativeSelect>
+        </FormField>
+        <FormField label={t('receivedAt')} htmlFor="receivedAt" error={error('receivedAt')} required>
+          <Input id="receivedAt" type="date" {...aria('receivedAt')} {...register('receivedAt')} />
+        </FormField>
+      </div>
+
+      <FormField label={t('details')} htmlFor="details" error={error('details')}>
+        <Textarea
+          id="details"
+          rows={4}
+          placeholder={t('detailsPlaceholder')}
+          {...aria('details')}
+          {...register('details')}
+        />
+      </FormField>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={() => router.back()} disabled={isPending}>
+          {tc('cancel')}
+        </Button>
+        <Button type="submit" disabled={isPending}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t('submit')}
+        </Button>
+      </div>
+    </form>
+  );
+}
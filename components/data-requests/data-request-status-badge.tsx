@@ -0,0 +1,15 @@
+import type { DataRequestStatus } from '@prisma/client';
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import { useEnumLabel } from '@/lib/i18n/labels';
+
+const variants: Record<DataRequestStatus, BadgeProps['variant']> = {
+  PENDING: 'outline',
+  APPROVED: 'default',
+  REJECTED: 'secondary',
+  COMPLETED: 'secondary',
+};
+
+export function DataRequestStatusBadge({ status }: { status: DataRequestStatus }) {
+  const enumLabel = useEnumLabel();
+  return <Badge variant={variants[status]}>{enumLabel(status)}</Badge>;
+}
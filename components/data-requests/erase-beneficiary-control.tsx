@@ -0,0 +1,78 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useTranslations } from 'next-intl';
+import { Eraser, Loader2 } from 'lucide-react';
+import { eraseBeneficiary } from '@/app/(dashboard)/data-requests/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface EraseBeneficiaryControlProps {
+  requestId: string;
+  beneficiaryName: string;
+}
+
+// Erasure can't be undone, so it asks for the person's name to be typed out.
+export function EraseBeneficiaryControl({ requestId, beneficiaryName }: EraseBeneficiaryControlProps) {
+  const t = useTranslations('dataRequests.erase');
+  const tc = useTranslations('common');
+  const [isPending, startTransition] = useTransition();
+  const [confirming, setConfirming] = useState(false);
+  const [typed, setTyped] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  if (!confirming) {
+    return (
+      <Button variant="destructive" onClick={() => setConfirming(true)}>
+        <Eraser className="mr-2 h-4 w-4" />
+        {t('open')}
+      </Button>
+    );
+  }
+
+  const matches = typed.trim().toLowerCase() === beneficiaryName.trim().toLowerCase();
+
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        setError(null);
+        startTransition(async () => {
+          const result = await eraseBeneficiary(requestId);
+          if (!result.success) {
+            setError(result.error);
+            return;
+          }
+          setConfirming(false);
+        });
+      }}
+    >
+      <p className="text-sm text-muted-foreground">{t('warning')}</p>
+      <div className="space-y-2">
+        <Label htmlFor="confirmName">
+          {t.rich('confirmName', {
+            name: beneficiaryName,
+            strong: (chunks) => <span className="font-semibold">{chunks}</span>,
+          })}
+        </Label>
+        <Input id="confirmName" value={typed} onChange={(e) => setTyped(e.target.value)} autoComplete="off" autoFocus />
+      </div>
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" variant="destructive" disabled={isPending || !matches}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t('submit')}
+        </Button>
+        <Button type="button" size="sm" variant="ghost" onClick={() => setConfirming(false)} disabled={isPending}>
+          {tc('cancel')}
+        </Button>
+      </div>
+      {error && (
+        <p role="alert" className="text-sm text-destructive">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useTranslations } from 'next-intl';
+import { Check, Loader2, X } from 'lucide-react';
+import { reviewRequest } from '@/app/(dashboard)/data-requests/actions';
+import { FormField } from '@/components/form-field';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+
+export function ReviewControl({ requestId }: { requestId: string }) {
+  const t = useTranslations('dataRequests.review');
+  const tc = useTranslations('common');
+  const [isPending, startTransition] = useTransition();
+  const [rejecting, setRejecting] = useState(false);
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = (decision: 'APPROVED' | 'REJECTED') => {
+    setError(null);
+    startTransition(async () => {
+      const result = await reviewRequest(requestId, { decision, note: note.trim() || undefined });
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      setRejecting(false);
+      setNote('');
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {rejecting ? (
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit('REJECTED');
+          }}
+        >
+          <FormField label={t('reason')} htmlFor="reviewNote" required>
+            <Textarea
+              id="reviewNote"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={3}
+              maxLength={2000}
+              placeholder={t('reasonPlaceholder')}
+              required
+              autoFocus
+            />
+          </FormField>
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" variant="destructive" disabled={isPending || !note.trim()}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('rejectRequest')}
+            </Button>
+            <Button type="button" size="sm" variant="ghost" onClick={() => setRejecting(false)} disabled={isPending}>
+              {tc('cancel')}
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" onClick={() => submit('APPROVED')} disabled={isPending}>
+            {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+            {t('approve')}
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setRejecting(true)} disabled={isPending}>
+            <X className="mr-2 h-4 w-4" />
+            {t('reject')}
+          </Button>
+        </div>
+      )}
+      {error && (
+        <p role="alert" className="text-sm text-destructive">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
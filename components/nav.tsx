@@ -2,30 +2,52 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { Users, FileText, HeartHandshake, Settings, LayoutDashboard, LogOut } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { Users, FileText, HeartHandshake, ClipboardList, Settings, LayoutDashboard, LogOut, ScrollText, BarChart3, ShieldCheck, Smartphone } from 'lucide-react';
+import type { UserRole } from '@prisma/client';
 import { cn } from '@/lib/utils';
+import { canAccessPath } from '@/lib/permissions';
 import { Button } from '@/components/ui/button';
+import { NotificationBell } from '@/components/notifications/notification-bell';
+import { SyncStatus } from '@/components/offline/sync-status';
+import { clearOutbox, listSubmissions } from '@/lib/offline/queue';
 
 const navigation = [
-  { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
-  { name: 'Beneficiaries', href: '/beneficiaries', icon: Users },
-  { name: 'Cases', href: '/cases', icon: FileText },
-  { name: 'Services', href: '/services', icon: HeartHandshake },
-  { name: 'Settings', href: '/settings', icon: Settings },
-];
+  { name: 'dashboard', href: '/dashboard', icon: LayoutDashboard },
+  { name: 'beneficiaries', href: '/beneficiaries', icon: Users },
+  { name: 'cases', href: '/cases', icon: FileText },
+  { name: 'services', href: '/services', icon: HeartHandshake },
+  { name: 'programmes', href: '/programmes', icon: ClipboardList },
+  { name: 'field', href: '/field', icon: Smartphone },
+  { name: 'reports', href: '/reports', icon: BarChart3 },
+  { name: 'dataRequests', href: '/data-requests', icon: ShieldCheck },
+  { name: 'audit', href: '/audit', icon: ScrollText },
+  { name: 'settings', href: '/settings', icon: Settings },
+] as const;
 
-export function Navigation() {
+function visibleNavigation(role: UserRole | undefined) {
+  return navigation.filter((item) => canAccessPath(role, item.href));
+}
+
+interface NavigationProps {
+  role?: UserRole;
+  unreadNotifications: number;
+}
+
+export function Navigation({ role, unreadNotifications }: NavigationProps) {
   const pathname = usePathname();
+  const t = useTranslations('nav');
 
   return (
     <nav className="flex flex-col h-full">
-      <div className="flex items-center h-16 px-4 border-b">
-        <h1 className="text-xl font-bold text-primary">MyFundAction</h1>
+      <div className="flex items-center justify-between h-16 px-4 border-b">
+        <h1 className="text-xl font-bold text-primary">{t('appName')}</h1>
+        <NotificationBell initialCount={unreadNotifications} />
       </div>
 
       <div className="flex-1 py-4">
         <ul className="space-y-1 px-3">
-          {navigation.map((item) => {
+          {visibleNavigation(role).map((item) => {
             const isActive = pathname === item.href || pathname?.startsWith(`${item.href}/`);
             return (
               <li key={item.name}>
@@ -39,7 +61,7 @@ export function Navigation() {
                   )}
                 >
                   <item.icon className="h-5 w-5" />
-                  {item.name}
+                  {t(item.name)}
                 </Link>
               </li>
             );
@@ -47,17 +69,74 @@ export function Navigation() {
         </ul>
       </div>
 
+      <div className="px-3">
+        <SyncStatus />
+      </div>
+
       <div className="p-4 border-t">
-        <form action="/api/auth/signout" method="POST">
-          <Button
-            type="submit"
-            variant="ghost"
-            className="w-full justify-start"
+        <SignOutForm />
+      </div>
+    </nav>
+  );
+}
+
+// Signing out deletes the user's offline outbox from the device first, after
+// checking with them if any of it hasn't synced yet.
+function SignOutForm() {
+  const t = useTranslations('nav');
+
+  const onSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const unsynced = (await listSubmissions().catch(() => [])).filter((submission) => submission.status !== 'synced');
+    if (unsynced.length > 0 && !window.confirm(t('unsyncedOnLogout', { count: unsynced.length }))) return;
+    await clearOutbox().catch(() => undefined);
+    form.submit();
+  };
+
+  return (
+    <form action="/api/auth/signout" method="POST" onSubmit={onSubmit}>
+      <Button
+        type="submit"
+        variant="ghost"
+        className="w-full justify-start"
+      >
+        <LogOut className="mr-2 h-5 w-5" />
+        {t('logout')}
+      </Button>
+    </form>
+  );
+}
+
+// Compact top bar shown instead of the sidebar on small screens, where field
+// workers register beneficiaries from their phones.
+export function MobileNavigation({ role, unreadNotifications }: NavigationProps) {
+  const pathname = usePathname();
+  const t = useTranslations('nav');
+
+  return (
+    <nav className="flex items-center gap-1 overflow-x-auto border-b bg-card px-2 py-2">
+      {visibleNavigation(role).map((item) => {
+        const isActive = pathname === item.href || pathname?.startsWith(`${item.href}/`);
+        return (
+          <Link
+            key={item.name}
+            href={item.href}
+            className={cn(
+              'flex shrink-0 items-center gap-2 rounded-lg px-3 py-2 text-sm font-medium transition-colors',
+              isActive
+                ? 'bg-primary text-primary-foreground'
+                : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+            )}
           >
-            <LogOut className="mr-2 h-5 w-5" />
-            Logout
-          </Button>
-        </form>
+            <item.icon className="h-4 w-4" />
+            {t(item.name)}
+          </Link>
+        );
+      })}
+      <div className="ml-auto flex shrink-0 items-center gap-1">
+        <SyncStatus />
+        <NotificationBell initialCount={unreadNotifications} />
       </div>
     </nav>
   );
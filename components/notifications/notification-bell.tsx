@@ -0,0 +1,59 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Bell } from 'lucide-react';
+import { getUnreadCount } from '@/app/(dashboard)/notifications/actions';
+import { cn } from '@/lib/utils';
+
+const POLL_INTERVAL_MS = 60_000;
+
+// Links to the notification centre, with the number unread. The layout
+// renders it once, so the count is fetched again on every navigation and
+// every minute while the tab is open.
+export function NotificationBell({ initialCount, className }: { initialCount: number; className?: string }) {
+  const t = useTranslations('notifications');
+  const pathname = usePathname();
+  const [count, setCount] = useState(initialCount);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      if (!navigator.onLine) return;
+      getUnreadCount()
+        .then((unread) => {
+          if (!cancelled) setCount(unread);
+        })
+        .catch(() => {
+          // Signed out or unreachable: keep the last count.
+        });
+    };
+
+    refresh();
+    const timer = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [pathname]);
+
+  return (
+    <Link
+      href="/notifications"
+      aria-label={count > 0 ? t('bellUnread', { count }) : t('title')}
+      className={cn(
+        'relative inline-flex h-9 w-9 shrink-0 items-center justify-center rounded-lg text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground',
+        className
+      )}
+    >
+      <Bell className="h-5 w-5" />
+      {count > 0 && (
+        <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold text-destructive-foreground">
+          {count > 99 ? '99+' : count}
+        </span>
+      )}
+    </Link>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useLocale, useTranslations } from 'next-intl';
+import { CheckCheck, Loader2 } from 'lucide-react';
+import type { NotificationType } from '@prisma/client';
+import { markAllRead, markRead } from '@/app/(dashboard)/notifications/actions';
+import { Button } from '@/components/ui/button';
+import { cn, formatDateTime } from '@/lib/utils';
+
+export interface NotificationView {
+  id: string;
+  type: NotificationType;
+  data: Record<string, string | number>;
+  href: string | null;
+  createdAt: Date;
+  read: boolean;
+}
+
+export function NotificationList({ notifications, unread }: { notifications: NotificationView[]; unread: number }) {
+  const t = useTranslations('notifications');
+  const locale = useLocale();
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  // Opening one marks it read on the way.
+  const open = (notification: NotificationView) =>
+    startTransition(async () => {
+      if (!notification.read) await markRead([notification.id]);
+      if (notification.href) router.push(notification.href);
+      else router.refresh();
+    });
+
+  return (
+    <div className="space-y-4">
+      {unread > 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isPending}
+          onClick={() =>
+            startTransition(async () => {
+              await markAllRead();
+              router.refresh();
+            })
+          }
+        >
+          {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCheck className="mr-2 h-4 w-4" />}
+          {t('markAllRead')}
+        </Button>
+      )}
+
+      {notifications.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">{t('empty')}</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {notifications.map((notification) => (
+            <li key={notification.id}>
+              <button
+                type="button"
+                onClick={() => open(notification)}
+                disabled={isPending}
+                className={cn(
+                  'flex w-full items-start gap-3 px-4 py-3 text-left text-sm transition-colors hover:bg-accent',
+                  !notification.read && 'bg-primary/5'
+                )}
+              >
+                <span
+                  aria-hidden
+                  className={cn('mt-1.5 h-2 w-2 shrink-0 rounded-full', notification.read ? 'bg-transparent' : 'bg-primary')}
+                />
+                <span className="flex-1">
+                  <span className={cn('block', !notification.read && 'font-medium')}>
+                    {t(`messages.${notification.type}`, notification.data)}
+                  </span>
+                  <span className="block text-xs text-muted-foreground">
+                    {formatDateTime(notification.createdAt, locale)}
+                    {!notification.read && <span className="sr-only"> · {t('unread')}</span>}
+                  </span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
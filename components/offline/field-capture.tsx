@@ -0,0 +1,79 @@
+'use client';
+
+import { useState } from 'react';
+import type { Country } from '@prisma/client';
+import { useTranslations } from 'next-intl';
+import { Loader2 } from 'lucide-react';
+import { BeneficiaryForm } from '@/components/beneficiaries/beneficiary-form';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { CustomFieldDefinition } from '@/lib/custom-fields/values';
+import { OfflineServiceForm } from './offline-service-form';
+import { SubmissionQueue } from './submission-queue';
+import { useOfflineQueue } from './use-offline-queue';
+
+const modes = ['register', 'service'] as const;
+type Mode = (typeof modes)[number];
+
+// Everything on this page works without signal: both forms save to the
+// device's outbox, which syncs whenever there's a connection.
+interface FieldCaptureProps {
+  canRegister: boolean;
+  country: Country;
+  customFields: CustomFieldDefinition[];
+}
+
+export function FieldCapture({ canRegister, country, customFields }: FieldCaptureProps) {
+  const t = useTranslations('field');
+  const { submissions, online, syncing } = useOfflineQueue();
+  const [mode, setMode] = useState<Mode>(canRegister ? 'register' : 'service');
+
+  const registrations = (submissions ?? []).filter(
+    (submission) => submission.kind === 'beneficiary' && submission.status !== 'invalid'
+  );
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[minmax(0,2fr)_minmax(0,1fr)]">
+      <Card>
+        <CardHeader className="space-y-4">
+          {canRegister && (
+            <div className="flex flex-wrap gap-2">
+              {modes.map((value) => (
+                <Button
+                  key={value}
+                  type="button"
+                  size="sm"
+                  variant={mode === value ? 'default' : 'outline'}
+                  onClick={() => setMode(value)}
+                >
+                  {t(`modes.${value}`)}
+                </Button>
+              ))}
+            </div>
+          )}
+          <div className="space-y-1.5">
+            <CardTitle>{t(`${mode}.title`)}</CardTitle>
+            <CardDescription>{t(`${mode}.description`)}</CardDescription>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {mode === 'register' ? <BeneficiaryForm offline country={country} customFields={customFields} /> : <OfflineServiceForm registrations={registrations} />}
+        </CardContent>
+      </Card>
+
+      <Card className="self-start">
+        <CardHeader>
+          <CardTitle>{t('queue.title')}</CardTitle>
+          <CardDescription>{t('queue.description')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {submissions ? (
+            <SubmissionQueue submissions={submissions} online={online} syncing={syncing} />
+          ) : (
+            <Loader2 className="mx-auto h-5 w-5 animate-spin text-muted-foreground" />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
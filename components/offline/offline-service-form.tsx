@@ -0,0 +1,196 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useTranslations } from 'next-intl';
+import { useForm, type Resolver } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { CheckCircle2, Loader2 } from 'lucide-react';
+import { FormField } from '@/components/form-field';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import { Textarea } from '@/components/ui/textarea';
+import { useEnumLabel } from '@/lib/i18n/labels';
+import { enqueueSubmission, type QueuedSubmission } from '@/lib/offline/queue';
+import { offlineServiceSchema } from '@/lib/validation';
+
+const serviceTypes = [
+  'FOOD_DISTRIBUTION',
+  'SHELTER_ADMISSION',
+  'SHELTER_EXIT',
+  'MEDICAL_CHECKUP',
+  'COUNSELING',
+  'EDUCATION',
+  'FINANCIAL_AID',
+  'RESCUE',
+  'OTHER',
+] as const;
+
+// Form state mirrors offlineServiceSchema, with the date kept as the
+// `YYYY-MM-DD` string a native date input produces.
+export interface OfflineServiceFormValues {
+  type: (typeof serviceTypes)[number];
+  date: string;
+  quantity: number | null;
+  cost: number | null;
+  location: string;
+  description: string;
+  notes: string;
+  beneficiaryClientId: string | null;
+  beneficiaryCode: string;
+}
+
+interface OfflineServiceFormProps {
+  // People registered on this device, who can't be looked up until they sync.
+  registrations: QueuedSubmission[];
+}
+
+const optionalNumber = (value: unknown) => (value === '' || value === null ? null : Number(value));
+
+// Logs a service into this device's offline outbox. Without signal there's no
+// searching for the beneficiary, so it's either someone registered on this
+// device or an IC / passport number matched when the service syncs.
+export function OfflineServiceForm({ registrations }: OfflineServiceFormProps) {
+  const t = useTranslations('field.service');
+  const tf = useTranslations('services.fields');
+  const enumLabel = useEnumLabel();
+  const [isPending, startTransition] = useTransition();
+  const [queued, setQueued] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    getValues,
+    formState: { errors },
+  } = useForm<OfflineServiceFormValues>({
+    resolver: zodResolver(offlineServiceSchema) as unknown as Resolver<OfflineServiceFormValues>,
+    defaultValues: {
+      type: 'FOOD_DISTRIBUTION',
+      date: new Date().toISOString().slice(0, 10),
+      quantity: null,
+      cost: null,
+      location: '',
+      description: '',
+      notes: '',
+      beneficiaryClientId: null,
+      beneficiaryCode: '',
+    },
+  });
+
+  const onSubmit = handleSubmit((values) => {
+    setQueued(false);
+    startTransition(async () => {
+      await enqueueSubmission('service', { ...values });
+      setQueued(true);
+      // The next person at the same run most likely gets the same.
+      reset({ ...getValues(), beneficiaryClientId: null, beneficiaryCode: '', notes: '' });
+    });
+  });
+
+  const error = (field: keyof OfflineServiceFormValues) => errors[field]?.message as string | undefined;
+  const aria = (field: keyof OfflineServiceFormValues) => ({
+    'aria-invalid': !!errors[field],
+    'aria-describedby': errors[field] ? `${field}-error` : undefined,
+  });
+  const registeredHere = !!watch('beneficiaryClientId');
+
+  return (
+    <form onSubmit={onSubmit} noValidate className="space-y-6">
+      {queued && (
+        <div role="status" className="flex items-center gap-2 rounded-md border border-green-600/40 bg-green-50 p-3 text-sm text-green-800">
+          <CheckCircle2 className="h-4 w-4 shrink-0" />
+          {t('queued')}
+        </div>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {registrations.length > 0 && (
+          <FormField label={t('registeredHere')} htmlFor="beneficiaryClientId" error={error('beneficiaryClientId')}>
+            <NativeSelect
+              id="beneficiaryClientId"
+              {...aria('beneficiaryClientId')}
+              {...register('beneficiaryClientId', { setValueAs: (v) => (v ? v : null) })}
+            >
+              <option value="">{t('someoneElse')}</option>
+              {registrations.map((registration) => (
+                <option key={registration.id} value={registration.id}>
+                  {String(registration.payload.firstName)} {String(registration.payload.lastName)}
+                </option>
+              ))}
+            </NativeSelect>
+          </FormField>
+        )}
+        {!registeredHere && (
+          <FormField
+            label={t('code')}
+            htmlFor="beneficiaryCode"
+            error={error('beneficiaryCode')}
+            hint={t('codeHint')}
+            required
+          >
+            <Input
+              id="beneficiaryCode"
+              autoComplete="off"
+              {...aria('beneficiaryCode')}
+              {...register('beneficiaryCode')}
+            />
+          </FormField>
+        )}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <FormField label={tf('type')} htmlFor="type" error={error('type')} required>
+          <NativeSelect id="type" {...aria('type')} {...register('type')}>
+            {serviceTypes.map((value) => (
+              <option key={value} value={value}>
+                {enumLabel(value)}
+              </option>
+            ))}
+          </NativeSelect>
+        </FormField>
+        <FormField label={tf('date')} htmlFor="date" error={error('date')} required>
+          <Input id="date" type="date" {...aria('date')} {...register('date')} />
+        </FormField>
+        <FormField label={tf('quantity')} htmlFor="quantity" error={error('quantity')} hint={tf('quantityHint')}>
+          <Input
+            id="quantity"
+            type="number"
+            min={1}
+            {...aria('quantity')}
+            {...register('quantity', { setValueAs: optionalNumber })}
+          />
+        </FormField>
+        <FormField label={tf('cost')} htmlFor="cost" error={error('cost')}>
+          <Input
+            id="cost"
+            type="number"
+            min={0}
+            step="0.01"
+            {...aria('cost')}
+            {...register('cost', { setValueAs: optionalNumber })}
+          />
+        </FormField>
+        <FormField label={tf('location')} htmlFor="location" error={error('location')}>
+          <Input id="location" {...aria('location')} {...register('location')} />
+        </FormField>
+      </div>
+
+      <FormField label={tf('description')} htmlFor="description" error={error('description')}>
+        <Textarea id="description" rows={2} {...aria('description')} {...register('description')} />
+      </FormField>
+
+      <FormField label={tf('notes')} htmlFor="notes" error={error('notes')}>
+        <Textarea id="notes" rows={2} {...aria('notes')} {...register('notes')} />
+      </FormField>
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isPending}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t('submit')}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { useEffect } from 'react';
+import { setQueueOwner, SUBMISSION_PENDING_EVENT } from '@/lib/offline/queue';
+import { syncQueue } from './use-offline-queue';
+
+// Browsers that support Background Sync wake the service worker once there is
+// a connection again; it asks the open pages to sync (see public/sw.js).
+const SYNC_TAG = 'submissions';
+const SYNC_INTERVAL_MS = 60_000;
+
+interface SyncManager {
+  register(tag: string): Promise<void>;
+}
+
+function requestBackgroundSync() {
+  navigator.serviceWorker?.ready
+    .then((registration) => (registration as ServiceWorkerRegistration & { sync?: SyncManager }).sync?.register(SYNC_TAG))
+    .catch(() => undefined);
+}
+
+// Installs the service worker and keeps the signed-in user's offline outbox
+// moving: on load, whenever the connection comes back, when something is
+// queued, and every minute in case the browser missed a change in
+// connectivity. Renders nothing.
+export function OfflineSync({ userId }: { userId: string | null }) {
+  useEffect(() => {
+    setQueueOwner(userId);
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.register('/sw.js').catch(() => undefined);
+    }
+
+    const sync = () => void syncQueue();
+    const handlePending = () => {
+      if (navigator.onLine) sync();
+      else requestBackgroundSync();
+    };
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'sync-submissions') sync();
+    };
+
+    sync();
+    const interval = window.setInterval(sync, SYNC_INTERVAL_MS);
+    window.addEventListener('online', sync);
+    window.addEventListener(SUBMISSION_PENDING_EVENT, handlePending);
+    navigator.serviceWorker?.addEventListener('message', handleMessage);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('online', sync);
+      window.removeEventListener(SUBMISSION_PENDING_EVENT, handlePending);
+      navigator.serviceWorker?.removeEventListener('message', handleMessage);
+    };
+  }, [userId]);
+
+  return null;
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useLocale, useTranslations } from 'next-intl';
+import { CloudOff, Loader2, RefreshCw } from 'lucide-react';
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useEnumLabel } from '@/lib/i18n/labels';
+import {
+  clearSyncedSubmissions,
+  discardSubmission,
+  mergeIntoExisting,
+  registrationFor,
+  retrySubmission,
+  type QueuedSubmission,
+  type SubmissionStatus,
+} from '@/lib/offline/queue';
+import { formatDateTime } from '@/lib/utils';
+import { syncQueue } from './use-offline-queue';
+
+const statusVariants: Record<SubmissionStatus, BadgeProps['variant']> = {
+  pending: 'outline',
+  synced: 'secondary',
+  conflict: 'destructive',
+  invalid: 'destructive',
+};
+
+interface SubmissionQueueProps {
+  submissions: QueuedSubmission[];
+  online: boolean;
+  syncing: boolean;
+}
+
+function personName(payload: Record<string, unknown>) {
+  return `${String(payload.firstName ?? '')} ${String(payload.lastName ?? '')}`.trim();
+}
+
+// Everything captured on this device, what became of it when it synced, and a
+// way out of each conflict.
+export function SubmissionQueue({ submissions, online, syncing }: SubmissionQueueProps) {
+  const t = useTranslations('field.queue');
+  const locale = useLocale();
+  const enumLabel = useEnumLabel();
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const byId = new Map(submissions.map((submission) => [submission.id, submission]));
+  const servicesFor = (id: string) => submissions.filter((submission) => registrationFor(submission) === id).length;
+  const hasSynced = submissions.some((submission) => submission.status === 'synced');
+
+  const run = (id: string, work: () => Promise<void>) => {
+    setBusy(id);
+    work().finally(() => setBusy(null));
+  };
+
+  const title = (submission: QueuedSubmission) => {
+    if (submission.kind === 'beneficiary') {
+      return t('registration', { name: personName(submission.payload) });
+    }
+    const registration = registrationFor(submission);
+    const registered = registration ? byId.get(registration) : undefined;
+    const who = registered
+      ? personName(registered.payload)
+      : registration
+        ? t('registeredHere')
+        : String(submission.payload.beneficiaryCode ?? '');
+    return t('service', { type: enumLabel(String(submission.payload.type)), who });
+  };
+
+  // A service waiting on a registration that can't sync as it stands.
+  const blockedBy = (submission: QueuedSubmission) => {
+    const registration = registrationFor(submission);
+    const blocking = registration ? byId.get(registration) : undefined;
+    return blocking && blocking.status !== 'synced' && blocking.status !== 'pending' ? blocking : undefined;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {online ? (
+          <Button size="sm" variant="outline" onClick={() => void syncQueue()} disabled={syncing}>
+            {syncing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            {syncing ? t('syncing') : t('syncNow')}
+          </Button>
+        ) : (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CloudOff className="h-4 w-4" />
+            {t('offline')}
+          </p>
+        )}
+        {hasSynced && (
+          <Button size="sm" variant="ghost" onClick={() => void clearSyncedSubmissions()}>
+            {t('clearSynced')}
+          </Button>
+        )}
+      </div>
+
+      {submissions.length === 0 ? (
+        <p className="py-8 text-center text-sm text-muted-foreground">{t('empty')}</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {[...submissions].reverse().map((submission) => {
+            const blocking = submission.status === 'pending' ? blockedBy(submission) : undefined;
+            const isBusy = busy === submission.id;
+            // The clashing record, when it's one the worker can see.
+            const existing = submission.conflict?.reason === 'idNumberTaken' ? submission.conflict.existing : null;
+            return (
+              <li key={submission.id} className="space-y-2 p-3 text-sm">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <p className="font-medium">{title(submission)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {t('captured', { time: formatDateTime(submission.createdAt, locale) })}
+                    </p>
+                  </div>
+                  <Badge variant={statusVariants[submission.status]}>{t(`statuses.${submission.status}`)}</Badge>
+                </div>
+
+                {blocking && (
+                  <p className="text-muted-foreground">
+                    {t('waitingFor', { name: personName(blocking.payload) })}
+                  </p>
+                )}
+
+                {submission.status === 'synced' && submission.kind === 'beneficiary' && submission.serverId && (
+                  <Link href={`/beneficiaries/${submission.serverId}`} className="text-primary hover:underline">
+                    {t('viewRecord')}
+                  </Link>
+                )}
+
+                {submission.status === 'conflict' && submission.conflict?.reason === 'idNumberTaken' && (
+                  <div className="space-y-2">
+                    <p>
+                      {existing
+                        ? t('idNumberTaken', { name: `${existing.firstName} ${existing.lastName}` })
+                        : t('idNumberRegistered')}
+                    </p>
+                    {servicesFor(submission.id) > 0 && (
+                      <p className="text-muted-foreground">
+                        {t('servicesWaiting', { count: servicesFor(submission.id) })}
+                      </p>
+                    )}
+                    <div className="flex flex-wrap gap-2">
+                      {existing && (
+                        <Button
+                          size="sm"
+                          disabled={isBusy}
+                          onClick={() => run(submission.id, () => mergeIntoExisting(submission.id, existing.id))}
+                        >
+                          {t('useExisting')}
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={isBusy}
+                        onClick={() => run(submission.id, () => discardSubmission(submission.id))}
+                      >
+                        {t('discard')}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {submission.status === 'conflict' && submission.conflict?.reason === 'beneficiaryNotFound' && (
+                  <div className="space-y-2">
+                    <p>{t('beneficiaryNotFound')}</p>
+                    <div className="flex flex-wrap gap-2">
+                      <Button size="sm" disabled={isBusy} onClick={() => run(submission.id, () => retrySubmission(submission))}>
+                        {t('retry')}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={isBusy}
+                        onClick={() => run(submission.id, () => discardSubmission(submission.id))}
+                      >
+                        {t('discard')}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {submission.status === 'invalid' && (
+                  <div className="space-y-2">
+                    <p className="text-destructive">{submission.error}</p>
+                    {submission.fieldErrors && (
+                      <ul className="list-inside list-disc text-muted-foreground">
+                        {Object.entries(submission.fieldErrors).map(([field, messages]) => (
+                          <li key={field}>
+                            {field}: {messages?.[0]}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={isBusy}
+                      onClick={() => run(submission.id, () => discardSubmission(submission.id))}
+                    >
+                      {t('discard')}
+                    </Button>
+                  </div>
+                )}
+
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <p className="text-xs text-muted-foreground">{t('deviceOnly')}</p>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import Link from 'next/link';
+import { useTranslations } from 'next-intl';
+import { CloudOff, Loader2, UploadCloud } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { useOfflineQueue } from './use-offline-queue';
+
+// Shown in the navigation while the device is offline or its outbox has
+// anything in it that hasn't synced. Links to the field capture page.
+export function SyncStatus({ className }: { className?: string }) {
+  const t = useTranslations('field.status');
+  const { submissions, online, syncing } = useOfflineQueue();
+
+  const waiting = submissions?.filter((submission) => submission.status === 'pending').length ?? 0;
+  const attention =
+    submissions?.filter((submission) => submission.status === 'conflict' || submission.status === 'invalid').length ?? 0;
+  if (online && !syncing && waiting === 0 && attention === 0) return null;
+
+  const Icon = !online ? CloudOff : syncing ? Loader2 : UploadCloud;
+
+  return (
+    <Link
+      href="/field"
+      className={cn(
+        'flex shrink-0 items-center gap-2 rounded-lg px-3 py-2 text-sm font-medium text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground',
+        className
+      )}
+    >
+      <Icon className={cn('h-4 w-4', syncing && online && 'animate-spin')} />
+      {!online ? t('offline') : syncing ? t('syncing') : t('outbox')}
+      {waiting > 0 && <Badge variant="secondary">{t('waiting', { count: waiting })}</Badge>}
+      {attention > 0 && <Badge variant="destructive">{t('attention', { count: attention })}</Badge>}
+    </Link>
+  );
+}
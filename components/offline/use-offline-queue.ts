@@ -0,0 +1,104 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { syncSubmission } from '@/app/(dashboard)/field/actions';
+import {
+  listSubmissions,
+  notifyQueueChanged,
+  QUEUE_CHANGED_EVENT,
+  registrationFor,
+  saveSubmission,
+  type QueuedSubmission,
+} from '@/lib/offline/queue';
+
+let running: Promise<void> | null = null;
+// Something was queued while a sync was under way.
+let rerun = false;
+
+export function isSyncing() {
+  return running !== null;
+}
+
+// Sends every pending submission, oldest first, one at a time. Only one sync
+// runs per page however many components ask for one.
+export function syncQueue(): Promise<void> {
+  if (running) {
+    rerun = true;
+    return running;
+  }
+
+  running = sendPending().finally(() => {
+    running = null;
+    notifyQueueChanged();
+    if (rerun) {
+      rerun = false;
+      void syncQueue();
+    }
+  });
+  notifyQueueChanged();
+  return running;
+}
+
+async function sendPending() {
+  if (!navigator.onLine) return;
+
+  const submissions = await listSubmissions();
+  // A service logged for someone registered on this device waits until the
+  // registration has synced.
+  const unsynced = new Set(
+    submissions.filter((s) => s.kind === 'beneficiary' && s.status !== 'synced').map((s) => s.id)
+  );
+
+  for (const submission of submissions) {
+    if (submission.status !== 'pending') continue;
+    const registration = registrationFor(submission);
+    if (registration && unsynced.has(registration)) continue;
+
+    let result: Awaited<ReturnType<typeof syncSubmission>>;
+    try {
+      result = await syncSubmission({ clientId: submission.id, kind: submission.kind, payload: submission.payload });
+    } catch {
+      // Offline again or the server is unreachable; the rest go next time.
+      return;
+    }
+
+    if (!result.success) {
+      await saveSubmission({ ...submission, status: 'invalid', error: result.error, fieldErrors: result.fieldErrors });
+    } else if (result.data.status === 'conflict') {
+      await saveSubmission({ ...submission, status: 'conflict', conflict: result.data.conflict });
+    } else {
+      await saveSubmission({ ...submission, status: 'synced', serverId: result.data.id });
+      unsynced.delete(submission.id);
+    }
+  }
+}
+
+// The outbox as it stands, kept current as submissions are added and synced.
+// `submissions` is null until it has been read.
+export function useOfflineQueue() {
+  const [submissions, setSubmissions] = useState<QueuedSubmission[] | null>(null);
+  const [online, setOnline] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+
+  const refresh = useCallback(() => {
+    setSyncing(isSyncing());
+    listSubmissions().then(setSubmissions, () => setSubmissions([]));
+  }, []);
+
+  useEffect(() => {
+    const updateOnline = () => setOnline(navigator.onLine);
+    updateOnline();
+    refresh();
+
+    window.addEventListener(QUEUE_CHANGED_EVENT, refresh);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      window.removeEventListener(QUEUE_CHANGED_EVENT, refresh);
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, [refresh]);
+
+  return { submissions, online, syncing };
+}
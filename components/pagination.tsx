@@ -0,0 +1,59 @@
+import Link from 'next/link';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { buildHref, type SearchParams } from '@/lib/utils';
+
+interface PaginationProps {
+  pathname: string;
+  searchParams: SearchParams;
+  page: number;
+  pageCount: number;
+  total: number;
+  pageSize: number;
+}
+
+export function Pagination({ pathname, searchParams, page, pageCount, total, pageSize }: PaginationProps) {
+  const t = useTranslations('common');
+  const from = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const to = Math.min(page * pageSize, total);
+
+  return (
+    <div className="flex flex-col gap-2 pt-4 sm:flex-row sm:items-center sm:justify-between">
+      <p className="text-sm text-muted-foreground">
+        {t('showing', { from, to, total })}
+      </p>
+      <div className="flex items-center gap-2">
+        <Button asChild={page > 1} variant="outline" size="sm" disabled={page <= 1}>
+          {page > 1 ? (
+            <Link href={buildHref(pathname, searchParams, { page: String(page - 1) })}>
+              <ChevronLeft className="mr-1 h-4 w-4" />
+              {t('previous')}
+            </Link>
+          ) : (
+            <span>
+              <ChevronLeft className="mr-1 h-4 w-4" />
+              {t('previous')}
+            </span>
+          )}
+        </Button>
+        <span className="text-sm text-muted-foreground">
+          {t('pageOf', { page, pageCount })}
+        </span>
+        <Button asChild={page < pageCount} variant="outline" size="sm" disabled={page >= pageCount}>
+          {page < pageCount ? (
+            <Link href={buildHref(pathname, searchParams, { page: String(page + 1) })}>
+              {t('next')}
+              <ChevronRight className="ml-1 h-4 w-4" />
+            </Link>
+          ) : (
+            <span>
+              {t('next')}
+              <ChevronRight className="ml-1 h-4 w-4" />
+            </span>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { useTranslations } from 'next-intl';
+import type { EligibilityRules } from '@/lib/programmes/eligibility';
+import { useEnumLabel } from '@/lib/i18n/labels';
+import { formatCurrency } from '@/lib/utils';
+
+interface EligibilityRuleListProps {
+  rules: EligibilityRules;
+  currency: string;
+}
+
+// A programme's rules as plain sentences, e.g. "Aged 60 or over".
+export function EligibilityRuleList({ rules, currency }: EligibilityRuleListProps) {
+  const t = useTranslations('programmes.rules');
+  const enumLabel = useEnumLabel();
+
+  const lines: string[] = [];
+  if (rules.minAge !== null && rules.maxAge !== null) {
+    lines.push(t('ageBetween', { min: rules.minAge, max: rules.maxAge }));
+  } else if (rules.minAge !== null) {
+    lines.push(t('ageFrom', { min: rules.minAge }));
+  } else if (rules.maxAge !== null) {
+    lines.push(t('ageUpTo', { max: rules.maxAge }));
+  }
+  if (rules.categories.length > 0) {
+    lines.push(t('categories', { categories: rules.categories.map(enumLabel).join(', ') }));
+  }
+  if (rules.states.length > 0) {
+    lines.push(t('states', { states: rules.states.join(', ') }));
+  }
+  if (rules.maxMonthlyIncome !== null) {
+    lines.push(t('income', { amount: formatCurrency(rules.maxMonthlyIncome, currency) }));
+  }
+
+  if (lines.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t('none')}</p>;
+  }
+  return (
+    <ul className="list-disc space-y-1 pl-5 text-sm">
+      {lines.map((line) => (
+        <li key={line}>{line}</li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import type { EnrolmentStatus } from '@prisma/client';
+import { useTranslations } from 'next-intl';
+import { Loader2 } from 'lucide-react';
+import { admitWaitlisted, endEnrolment } from '@/app/(dashboard)/programmes/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface EnrolmentActionsProps {
+  enrolmentId: string;
+  // As shown, so an enrolment past its planned end date offers nothing.
+  status: EnrolmentStatus;
+}
+
+// Giving a waitlisted beneficiary a place, and ending an enrolment or taking
+// someone off the waitlist with an optional reason.
+export function EnrolmentActions({ enrolmentId, status }: EnrolmentActionsProps) {
+  const t = useTranslations('programmes.enrolmentActions');
+  const tc = useTranslations('common');
+  const [isPending, startTransition] = useTransition();
+  const [ending, setEnding] = useState(false);
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  if (status === 'ENDED') return null;
+
+  const admit = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await admitWaitlisted(enrolmentId);
+      if (!result.success) setError(result.error);
+    });
+  };
+
+  const end = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    startTransition(async () => {
+      const result = await endEnrolment(enrolmentId, { reason: reason.trim() || undefined });
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      setEnding(false);
+      setReason('');
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      {ending ? (
+        <form onSubmit={end} className="flex flex-wrap items-center justify-end gap-2">
+          <Input
+            aria-label={t('reason')}
+            placeholder={t('reason')}
+            value={reason}
+            maxLength={2000}
+            onChange={(e) => setReason(e.target.value)}
+            className="h-8 w-48"
+            autoFocus
+          />
+          <Button type="submit" size="sm" variant="destructive" disabled={isPending}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {status === 'WAITLISTED' ? t('remove') : t('end')}
+          </Button>
+          <Button type="button" size="sm" variant="ghost" onClick={() => setEnding(false)} disabled={isPending}>
+            {tc('cancel')}
+          </Button>
+        </form>
+      ) : (
+        <div className="flex flex-wrap justify-end gap-2">
+          {status === 'WAITLISTED' && (
+            <Button size="sm" onClick={admit} disabled={isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('admit')}
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={() => setEnding(true)} disabled={isPending}>
+            {status === 'WAITLISTED' ? t('remove') : t('end')}
+          </Button>
+        </div>
+      )}
+      {error && (
+        <p role="alert" className="text-right text-sm text-destructive">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
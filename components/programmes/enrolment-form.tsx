@@ -0,0 +1,186 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useTranslations } from 'next-intl';
+import { AlertTriangle, CheckCircle2, Loader2, Plus } from 'lucide-react';
+import { enrol } from '@/app/(dashboard)/programmes/actions';
+import { FormField } from '@/components/form-field';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  checkEligibility,
+  type EligibilityProblem,
+  type EligibilityRules,
+  type EligibilitySubject,
+} from '@/lib/programmes/eligibility';
+import { EligibilityRuleList } from './eligibility-rules';
+
+type FieldErrors = Record<string, string[] | undefined>;
+
+// A category is always known, so it never needs the "not recorded" message.
+function problemKey({ rule, unknown }: EligibilityProblem) {
+  if (rule === 'category' || !unknown) return rule;
+  return `${rule}Unknown` as const;
+}
+
+export interface EnrollableProgramme extends EligibilityRules {
+  id: string;
+  name: string;
+  // Every place is taken, so enrolling joins the waitlist.
+  full: boolean;
+}
+
+interface EnrolmentFormProps {
+  beneficiaryId: string;
+  subject: EligibilitySubject;
+  // Those the beneficiary isn't already in or waiting for.
+  programmes: EnrollableProgramme[];
+  // Roles with programme:manage may enrol someone the rules turn away.
+  canOverride: boolean;
+  currency: string;
+}
+
+// Enrolling a beneficiary from their profile. Eligibility is shown as soon as
+// a programme is chosen; the server checks it again.
+export function EnrolmentForm({ beneficiaryId, subject, programmes, canOverride, currency }: EnrolmentFormProps) {
+  const t = useTranslations('programmes.enrolmentForm');
+  const tp = useTranslations('programmes.problems');
+  const tf = useTranslations('programmes.fields');
+  const [isPending, startTransition] = useTransition();
+  const [programmeId, setProgrammeId] = useState('');
+  const [startDate, setStartDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [endDate, setEndDate] = useState('');
+  const [overrideReason, setOverrideReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [done, setDone] = useState<string | null>(null);
+
+  if (programmes.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t('noneAvailable')}</p>;
+  }
+
+  const programme = programmes.find((candidate) => candidate.id === programmeId);
+  const problems = programme ? checkEligibility(programme, subject) : [];
+  const blocked = problems.length > 0 && (!canOverride || !overrideReason.trim());
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setFieldErrors({});
+    setDone(null);
+    startTransition(async () => {
+      const result = await enrol({
+        programmeId,
+        beneficiaryId,
+        startDate,
+        endDate: endDate || null,
+        overrideReason: problems.length > 0 ? overrideReason : null,
+      });
+      if (!result.success) {
+        setError(result.error);
+        setFieldErrors(result.fieldErrors ?? {});
+        return;
+      }
+      setDone(result.data.status === 'WAITLISTED' ? t('waitlisted') : t('enrolled'));
+      setProgrammeId('');
+      setEndDate('');
+      setOverrideReason('');
+    });
+  };
+
+  const fieldError = (field: string) => fieldErrors[field]?.[0];
+
+  return (
+    <form onSubmit={onSubmit} noValidate className="space-y-4">
+      <FormField label={tf('programme')} htmlFor="enrolProgramme" error={fieldError('programmeId')} required>
+        <NativeSelect
+          id="enrolProgramme"
+          value={programmeId}
+          onChange={(e) => {
+            setProgrammeId(e.target.value);
+            setDone(null);
+          }}
+        >
+          <option value="">{t('choose')}</option>
+          {programmes.map((candidate) => (
+            <option key={candidate.id} value={candidate.id}>
+              {candidate.full ? t('fullOption', { name: candidate.name }) : candidate.name}
+            </option>
+          ))}
+        </NativeSelect>
+      </FormField>
+
+      {programme && (
+        <div className="space-y-3 rounded-md border p-3">
+          <EligibilityRuleList rules={programme} currency={currency} />
+          {problems.length === 0 ? (
+            <p className="flex items-center gap-2 text-sm text-green-700">
+              <CheckCircle2 className="h-4 w-4" />
+              {t('eligible')}
+            </p>
+          ) : (
+            <div className="space-y-1 text-sm text-amber-700">
+              {problems.map((problem) => (
+                <p key={problem.rule} className="flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  {tp(problemKey(problem))}
+                </p>
+              ))}
+              {!canOverride && <p>{t('askAdmin')}</p>}
+            </div>
+          )}
+          {programme.full && <p className="text-sm text-muted-foreground">{t('fullHint')}</p>}
+        </div>
+      )}
+
+      {programme && problems.length > 0 && canOverride && (
+        <FormField
+          label={t('overrideReason')}
+          htmlFor="enrolOverrideReason"
+          error={fieldError('overrideReason')}
+          hint={t('overrideReasonHint')}
+          required
+        >
+          <Textarea
+            id="enrolOverrideReason"
+            rows={2}
+            maxLength={2000}
+            value={overrideReason}
+            onChange={(e) => setOverrideReason(e.target.value)}
+          />
+        </FormField>
+      )}
+
+      {programme && !programme.full && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField label={tf('startDate')} htmlFor="enrolStartDate" error={fieldError('startDate')} required>
+            <Input id="enrolStartDate" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </FormField>
+          <FormField
+            label={tf('endDate')}
+            htmlFor="enrolEndDate"
+            error={fieldError('endDate')}
+            hint={t('endDateHint')}
+          >
+            <Input id="enrolEndDate" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          </FormField>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Button type="submit" size="sm" disabled={isPending || !programme || blocked}>
+          {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+          {programme?.full ? t('joinWaitlist') : t('enrol')}
+        </Button>
+        {done && <p className="text-sm text-muted-foreground">{done}</p>}
+        {error && (
+          <p role="alert" className="text-sm text-destructive">
+            {error}
+          </p>
+        )}
+      </div>
+    </form>
+  );
+}
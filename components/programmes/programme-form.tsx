@@ -0,0 +1,221 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Loader2, Plus, Save } from 'lucide-react';
+import type { BeneficiaryCategory, Country, Programme } from '@prisma/client';
+import { createProgramme, updateProgramme } from '@/app/(dashboard)/programmes/actions';
+import type { BranchOption } from '@/components/beneficiaries/beneficiary-form';
+import { FormField } from '@/components/form-field';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import { Textarea } from '@/components/ui/textarea';
+import { countryRules } from '@/lib/countries';
+import { useEnumLabel } from '@/lib/i18n/labels';
+
+const categories = ['HOMELESS', 'ELDERLY', 'DISABLED', 'LOW_INCOME', 'REFUGEE', 'ORPHAN', 'SICK', 'OTHER'] as const;
+
+type FieldErrors = Record<string, string[] | undefined>;
+
+interface ProgrammeFormProps {
+  // Editing an existing programme; without it the form adds a new one.
+  programme?: Pick<
+    Programme,
+    'id' | 'name' | 'description' | 'minAge' | 'maxAge' | 'categories' | 'states' | 'capacity'
+  > & { maxMonthlyIncome: number | null };
+  // Of the worker's own branch for a new programme, otherwise the programme's;
+  // the income limit is in its currency.
+  country: Country;
+  // Offered to roles that see every branch when adding a programme.
+  branches?: BranchOption[];
+}
+
+const numberOrNull = (value: string) => (value.trim() === '' ? null : value);
+
+export function ProgrammeForm({ programme, country, branches }: ProgrammeFormProps) {
+  const t = useTranslations('programmes.form');
+  const tf = useTranslations('programmes.fields');
+  const enumLabel = useEnumLabel();
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const [branchId, setBranchId] = useState('');
+  const [name, setName] = useState(programme?.name ?? '');
+  const [description, setDescription] = useState(programme?.description ?? '');
+  const [capacity, setCapacity] = useState(programme?.capacity?.toString() ?? '');
+  const [minAge, setMinAge] = useState(programme?.minAge?.toString() ?? '');
+  const [maxAge, setMaxAge] = useState(programme?.maxAge?.toString() ?? '');
+  const [maxMonthlyIncome, setMaxMonthlyIncome] = useState(programme?.maxMonthlyIncome?.toString() ?? '');
+  const [chosenCategories, setChosenCategories] = useState<BeneficiaryCategory[]>(programme?.categories ?? []);
+  const [states, setStates] = useState((programme?.states ?? []).join('\n'));
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [saved, setSaved] = useState(false);
+
+  const currency = countryRules[branches?.find((branch) => branch.id === branchId)?.country ?? country].currency;
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setFieldErrors({});
+    setSaved(false);
+    startTransition(async () => {
+      const input = {
+        branchId,
+        name,
+        description,
+        capacity: numberOrNull(capacity),
+        minAge: numberOrNull(minAge),
+        maxAge: numberOrNull(maxAge),
+        maxMonthlyIncome: numberOrNull(maxMonthlyIncome),
+        categories: chosenCategories,
+        states: states
+          .split('\n')
+          .map((state) => state.trim())
+          .filter(Boolean),
+      };
+      const result = programme ? await updateProgramme(programme.id, input) : await createProgramme(input);
+      if (!result.success) {
+        setError(result.error);
+        setFieldErrors(result.fieldErrors ?? {});
+        return;
+      }
+      if (programme) {
+        setSaved(true);
+        router.refresh();
+      } else {
+        router.push(`/programmes/${result.data.id}`);
+      }
+    });
+  };
+
+  const fieldError = (field: string) => fieldErrors[field]?.[0];
+
+  return (
+    <form onSubmit={onSubmit} noValidate className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-2">
+        {branches && !programme && (
+          <FormField label={tf('branch')} htmlFor="programmeBranch" error={fieldError('branchId')}>
+            <NativeSelect id="programmeBranch" value={branchId} onChange={(e) => setBranchId(e.target.value)}>
+              <option value="">{t('ownBranch')}</option>
+              {branches.map((branch) => (
+                <option key={branch.id} value={branch.id}>
+                  {branch.name} ({branch.country})
+                </option>
+              ))}
+            </NativeSelect>
+          </FormField>
+        )}
+        <FormField label={tf('name')} htmlFor="programmeName" error={fieldError('name')} required>
+          <Input id="programmeName" value={name} maxLength={100} onChange={(e) => setName(e.target.value)} />
+        </FormField>
+        <FormField label={tf('capacity')} htmlFor="programmeCapacity" error={fieldError('capacity')} hint={t('capacityHint')}>
+          <Input
+            id="programmeCapacity"
+            type="number"
+            min={1}
+            value={capacity}
+            onChange={(e) => setCapacity(e.target.value)}
+          />
+        </FormField>
+      </div>
+
+      <FormField label={tf('description')} htmlFor="programmeDescription" error={fieldError('description')}>
+        <Textarea
+          id="programmeDescription"
+          rows={3}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+      </FormField>
+
+      <fieldset className="space-y-4">
+        <legend className="text-lg font-semibold">{t('eligibility')}</legend>
+        <p className="text-sm text-muted-foreground">{t('eligibilityHint')}</p>
+        <div className="grid gap-4 sm:grid-cols-3">
+          <FormField label={tf('minAge')} htmlFor="programmeMinAge" error={fieldError('minAge')}>
+            <Input
+              id="programmeMinAge"
+              type="number"
+              min={0}
+              max={150}
+              value={minAge}
+              onChange={(e) => setMinAge(e.target.value)}
+            />
+          </FormField>
+          <FormField label={tf('maxAge')} htmlFor="programmeMaxAge" error={fieldError('maxAge')}>
+            <Input
+              id="programmeMaxAge"
+              type="number"
+              min={0}
+              max={150}
+              value={maxAge}
+              onChange={(e) => setMaxAge(e.target.value)}
+            />
+          </FormField>
+          <FormField
+            label={tf('maxMonthlyIncome')}
+            htmlFor="programmeMaxMonthlyIncome"
+            error={fieldError('maxMonthlyIncome')}
+            hint={t('maxMonthlyIncomeHint', { currency })}
+          >
+            <Input
+              id="programmeMaxMonthlyIncome"
+              type="number"
+              min={0}
+              step="0.01"
+              value={maxMonthlyIncome}
+              onChange={(e) => setMaxMonthlyIncome(e.target.value)}
+            />
+          </FormField>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">{tf('categories')}</p>
+          <p className="text-xs text-muted-foreground">{t('categoriesHint')}</p>
+          <div className="grid gap-2 sm:grid-cols-4">
+            {categories.map((value) => (
+              <label key={value} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={chosenCategories.includes(value)}
+                  onChange={(e) =>
+                    setChosenCategories((current) =>
+                      e.target.checked ? [...current, value] : current.filter((other) => other !== value)
+                    )
+                  }
+                />
+                {enumLabel(value)}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <FormField label={tf('states')} htmlFor="programmeStates" error={fieldError('states')} hint={t('statesHint')}>
+          <Textarea id="programmeStates" rows={3} value={states} onChange={(e) => setStates(e.target.value)} />
+        </FormField>
+      </fieldset>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Button type="submit" disabled={isPending}>
+          {isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : programme ? (
+            <Save className="mr-2 h-4 w-4" />
+          ) : (
+            <Plus className="mr-2 h-4 w-4" />
+          )}
+          {programme ? t('save') : t('create')}
+        </Button>
+        {saved && <p className="text-sm text-muted-foreground">{t('saved')}</p>}
+        {error && (
+          <p role="alert" className="text-sm text-destructive">
+            {error}
+          </p>
+        )}
+      </div>
+    </form>
+  );
+}
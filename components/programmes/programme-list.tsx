@@ -0,0 +1,56 @@
+import Link from 'next/link';
+import { useTranslations } from 'next-intl';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { ProgrammeListItem } from '@/lib/programmes/programmes';
+
+export function ProgrammeList({ programmes }: { programmes: ProgrammeListItem[] }) {
+  const t = useTranslations('programmes');
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{t('fields.name')}</TableHead>
+          <TableHead>{t('fields.branch')}</TableHead>
+          <TableHead className="text-right">{t('places')}</TableHead>
+          <TableHead className="text-right">{t('waitlist')}</TableHead>
+          <TableHead>{t('status')}</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {programmes.map((programme) => {
+          const full = programme.capacity !== null && programme.enrolled >= programme.capacity;
+          return (
+            <TableRow key={programme.id}>
+              <TableCell>
+                <Link href={`/programmes/${programme.id}`} className="font-medium hover:underline">
+                  {programme.name}
+                </Link>
+                {programme.description && (
+                  <div className="max-w-md truncate text-xs text-muted-foreground">{programme.description}</div>
+                )}
+              </TableCell>
+              <TableCell>{programme.branch.code}</TableCell>
+              <TableCell className="text-right tabular-nums">
+                {programme.capacity === null
+                  ? programme.enrolled
+                  : t('placesTaken', { enrolled: programme.enrolled, capacity: programme.capacity })}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">{programme.waitlisted}</TableCell>
+              <TableCell>
+                {programme.archivedAt ? (
+                  <Badge variant="secondary">{t('archived')}</Badge>
+                ) : full ? (
+                  <Badge variant="outline">{t('full')}</Badge>
+                ) : (
+                  <Badge>{t('open')}</Badge>
+                )}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
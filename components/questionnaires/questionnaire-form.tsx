@@ -0,0 +1,529 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import {
+  useFieldArray,
+  useForm,
+  useWatch,
+  type Control,
+  type FieldErrors,
+  type Resolver,
+  type UseFormRegister,
+} from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2, Plus, Save, X } from 'lucide-react';
+import type { Priority, QuestionnaireKind } from '@prisma/client';
+import { createQuestionnaire, updateQuestionnaire } from '@/app/(dashboard)/settings/questionnaires/actions';
+import { FormField } from '@/components/form-field';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import { Textarea } from '@/components/ui/textarea';
+import type { ActionResult } from '@/lib/actions';
+import {
+  priorities,
+  questionnaireKinds,
+  questionTypes,
+  type QuestionnaireDefinition,
+  type QuestionType,
+  type RuleCondition,
+  type ScoreBands,
+} from '@/lib/assessments/scoring';
+import { useEnumLabel } from '@/lib/i18n/labels';
+import { questionnaireSchema } from '@/lib/validation';
+
+// Both kinds of condition share one row, so switching kind keeps what was
+// typed; the fields of the other kind are dropped when the form is checked.
+interface ConditionValues {
+  kind: RuleCondition['kind'];
+  question: string;
+  option: string;
+  min: number | null;
+  max: number | null;
+}
+
+// Form state mirrors questionnaireSchema.
+export interface QuestionnaireFormValues {
+  name: string;
+  kind: QuestionnaireKind;
+  description: string;
+  questions: {
+    key: string;
+    label: string;
+    type: QuestionType;
+    required: boolean;
+    options: { label: string; weight: number | null }[];
+  }[];
+  rules: { label: string; priority: Priority; conditions: ConditionValues[] }[];
+  bands: ScoreBands;
+}
+
+type Register = UseFormRegister<QuestionnaireFormValues>;
+type Errors = FieldErrors<QuestionnaireFormValues>;
+
+interface QuestionnaireFormProps {
+  // Editing an existing questionnaire, with its current version's definition.
+  questionnaire?: QuestionnaireDefinition & {
+    id: string;
+    name: string;
+    kind: QuestionnaireKind;
+    description: string | null;
+  };
+}
+
+const optionalNumber = (value: unknown) => (value === '' || value === null ? null : Number(value));
+
+const emptyOption = () => ({ label: '', weight: 0 });
+const emptyQuestion = (): QuestionnaireFormValues['questions'][number] => ({
+  key: '',
+  label: '',
+  type: 'SINGLE_CHOICE',
+  required: true,
+  options: [emptyOption(), emptyOption()],
+});
+const emptyCondition = (): ConditionValues => ({ kind: 'answer', question: '', option: '', min: null, max: null });
+const emptyRule = (): QuestionnaireFormValues['rules'][number] => ({
+  label: '',
+  priority: 'URGENT',
+  conditions: [emptyCondition()],
+});
+
+function toFormValues(questionnaire: QuestionnaireFormProps['questionnaire']): QuestionnaireFormValues {
+  if (!questionnaire) {
+    return {
+      name: '',
+      kind: 'VULNERABILITY',
+      description: '',
+      questions: [emptyQuestion()],
+      rules: [],
+      bands: { MEDIUM: null, HIGH: null, URGENT: null },
+    };
+  }
+  return {
+    name: questionnaire.name,
+    kind: questionnaire.kind,
+    description: questionnaire.description ?? '',
+    questions: questionnaire.questions,
+    rules: questionnaire.rules.map((rule) => ({
+      ...rule,
+      conditions: rule.conditions.map((condition) => ({ ...emptyCondition(), ...condition })),
+    })),
+    bands: questionnaire.bands,
+  };
+}
+
+// A row's own message: on a list or a row with fields of its own, the resolver
+// puts it under `root`.
+function ownMessage(error: { message?: string; root?: { message?: string } } | undefined) {
+  return error?.message ?? error?.root?.message;
+}
+
+export function QuestionnaireForm({ questionnaire }: QuestionnaireFormProps) {
+  const router = useRouter();
+  const t = useTranslations('questionnaires');
+  const enumLabel = useEnumLabel();
+  const [isPending, startTransition] = useTransition();
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saved, setSaved] = useState<string | null>(null);
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    setError,
+    formState: { errors },
+  } = useForm<QuestionnaireFormValues>({
+    resolver: zodResolver(questionnaireSchema) as unknown as Resolver<QuestionnaireFormValues>,
+    defaultValues: toFormValues(questionnaire),
+  });
+  const questions = useFieldArray({ control, name: 'questions' });
+  const rules = useFieldArray({ control, name: 'rules' });
+
+  const showFailure = (result: Extract<ActionResult, { success: false }>) => {
+    setFormError(result.error);
+    for (const [field, messages] of Object.entries(result.fieldErrors ?? {})) {
+      if (messages?.[0]) {
+        setError(field as keyof QuestionnaireFormValues, { type: 'server', message: messages[0] });
+      }
+    }
+  };
+
+  const onSubmit = handleSubmit((values) => {
+    setFormError(null);
+    setSaved(null);
+    startTransition(async () => {
+      if (!questionnaire) {
+        const result = await createQuestionnaire(values);
+        if (!result.success) {
+          showFailure(result);
+          return;
+        }
+        router.push(`/settings/questionnaires/${result.data.id}`);
+        router.refresh();
+        return;
+      }
+
+      const result = await updateQuestionnaire(questionnaire.id, values);
+      if (!result.success) {
+        showFailure(result);
+        return;
+      }
+      setSaved(result.data.newVersion ? t('form.savedVersion', { version: result.data.version }) : t('form.saved'));
+      router.refresh();
+    });
+  });
+
+  return (
+    <form onSubmit={onSubmit} noValidate className="space-y-8">
+      {formError && (
+        <div role="alert" className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+          {formError}
+        </div>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <FormField label={t('fields.name')} htmlFor="questionnaireName" error={errors.name?.message} required>
+          <Input id="questionnaireName" maxLength={100} {...register('name')} />
+        </FormField>
+        <FormField label={t('fields.kind')} htmlFor="questionnaireKind" error={errors.kind?.message} required>
+          <NativeSelect id="questionnaireKind" {...register('kind')}>
+            {questionnaireKinds.map((kind) => (
+              <option key={kind} value={kind}>
+                {enumLabel(kind)}
+              </option>
+            ))}
+          </NativeSelect>
+        </FormField>
+      </div>
+      <FormField
+        label={t('fields.description')}
+        htmlFor="questionnaireDescription"
+        error={errors.description?.message}
+        hint={t('form.descriptionHint')}
+      >
+        <Textarea id="questionnaireDescription" rows={2} maxLength={2000} {...register('description')} />
+      </FormField>
+
+      <section className="space-y-3">
+        <div>
+          <h2 className="text-sm font-semibold">{t('form.questionsTitle')}</h2>
+          <p className="text-xs text-muted-foreground">{t('form.questionsHint')}</p>
+        </div>
+        {ownMessage(errors.questions) && <p className="text-sm text-destructive">{ownMessage(errors.questions)}</p>}
+        {questions.fields.map((field, index) => (
+          <QuestionFields
+            key={field.id}
+            index={index}
+            control={control}
+            register={register}
+            errors={errors}
+            onRemove={questions.fields.length > 1 ? () => questions.remove(index) : undefined}
+          />
+        ))}
+        <Button type="button" variant="outline" size="sm" onClick={() => questions.append(emptyQuestion())}>
+          <Plus className="mr-2 h-4 w-4" />
+          {t('form.addQuestion')}
+        </Button>
+      </section>
+
+      <section className="space-y-3">
+        <div>
+          <h2 className="text-sm font-semibold">{t('form.bandsTitle')}</h2>
+          <p className="text-xs text-muted-foreground">{t('form.bandsHint')}</p>
+        </div>
+        <div className="grid gap-4 sm:grid-cols-3">
+          {(['MEDIUM', 'HIGH', 'URGENT'] as const).map((priority) => (
+            <FormField
+              key={priority}
+              label={t('form.bandFrom', { priority: enumLabel(priority) })}
+              htmlFor={`band${priority}`}
+              error={errors.bands?.[priority]?.message}
+            >
+              <Input
+                id={`band${priority}`}
+                type="number"
+                {...register(`bands.${priority}`, { setValueAs: optionalNumber })}
+              />
+            </FormField>
+          ))}
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        <div>
+          <h2 className="text-sm font-semibold">{t('form.rulesTitle')}</h2>
+          <p className="text-xs text-muted-foreground">{t('form.rulesHint')}</p>
+        </div>
+        {rules.fields.length === 0 && (
+          <p className="rounded-md border border-dashed py-6 text-center text-sm text-muted-foreground">
+            {t('form.noRules')}
+          </p>
+        )}
+        {rules.fields.map((field, index) => (
+          <RuleFields
+            key={field.id}
+            index={index}
+            control={control}
+            register={register}
+            errors={errors}
+            onRemove={() => rules.remove(index)}
+          />
+        ))}
+        <Button type="button" variant="outline" size="sm" onClick={() => rules.append(emptyRule())}>
+          <Plus className="mr-2 h-4 w-4" />
+          {t('form.addRule')}
+        </Button>
+      </section>
+
+      <div className="flex flex-wrap items-center gap-3 border-t pt-6">
+        <Button type="submit" disabled={isPending}>
+          {isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : questionnaire ? (
+            <Save className="mr-2 h-4 w-4" />
+          ) : (
+            <Plus className="mr-2 h-4 w-4" />
+          )}
+          {questionnaire ? t('form.save') : t('form.create')}
+        </Button>
+        {saved && <p className="text-sm text-muted-foreground">{saved}</p>}
+      </div>
+    </form>
+  );
+}
+
+interface RowProps {
+  index: number;
+  control: Control<QuestionnaireFormValues>;
+  register: Register;
+  errors: Errors;
+  onRemove?: () => void;
+}
+
+function QuestionFields({ index, control, register, errors, onRemove }: RowProps) {
+  const t = useTranslations('questionnaires');
+  const options = useFieldArray({ control, name: `questions.${index}.options` });
+  const error = errors.questions?.[index];
+  const id = (field: string) => `question${index}${field}`;
+
+  return (
+    <fieldset className="space-y-4 rounded-md border p-4">
+      <div className="flex items-center justify-between">
+        <legend className="text-sm font-medium">{t('form.question', { number: index + 1 })}</legend>
+        {onRemove && (
+          <Button type="button" variant="ghost" size="sm" onClick={onRemove}>
+            <X className="mr-1 h-4 w-4" />
+            {t('form.removeQuestion')}
+          </Button>
+        )}
+      </div>
+      <div className="grid gap-4 sm:grid-cols-[2fr_1fr_1fr]">
+        <FormField label={t('fields.question')} htmlFor={id('Label')} error={error?.label?.message} required>
+          <Input id={id('Label')} maxLength={300} {...register(`questions.${index}.label`)} />
+        </FormField>
+        <FormField
+          label={t('fields.key')}
+          htmlFor={id('Key')}
+          error={error?.key?.message}
+          hint={t('form.keyHint')}
+          required
+        >
+          <Input id={id('Key')} maxLength={50} className="font-mono" {...register(`questions.${index}.key`)} />
+        </FormField>
+        <FormField label={t('fields.type')} htmlFor={id('Type')} error={error?.type?.message} required>
+          <NativeSelect id={id('Type')} {...register(`questions.${index}.type`)}>
+            {questionTypes.map((type) => (
+              <option key={type} value={type}>
+                {t(`types.${type}`)}
+              </option>
+            ))}
+          </NativeSelect>
+        </FormField>
+      </div>
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" {...register(`questions.${index}.required`)} />
+        {t('fields.required')}
+      </label>
+
+      <div className="space-y-2">
+        <div className="grid grid-cols-[1fr_6rem_2rem] gap-2 text-xs font-medium text-muted-foreground">
+          <span>{t('fields.option')}</span>
+          <span>{t('fields.weight')}</span>
+        </div>
+        {options.fields.map((option, optionIndex) => (
+          <div key={option.id} className="grid grid-cols-[1fr_6rem_2rem] items-start gap-2">
+            <div>
+              <Input
+                className="h-8"
+                maxLength={200}
+                aria-label={t('fields.option')}
+                aria-invalid={!!error?.options?.[optionIndex]?.label}
+                {...register(`questions.${index}.options.${optionIndex}.label`)}
+              />
+              {error?.options?.[optionIndex]?.label?.message && (
+                <p className="text-sm text-destructive">{error.options[optionIndex]?.label?.message}</p>
+              )}
+            </div>
+            <Input
+              type="number"
+              className="h-8"
+              min={-100}
+              max={100}
+              aria-label={t('fields.weight')}
+              aria-invalid={!!error?.options?.[optionIndex]?.weight}
+              {...register(`questions.${index}.options.${optionIndex}.weight`, { setValueAs: optionalNumber })}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              disabled={options.fields.length <= 2}
+              onClick={() => options.remove(optionIndex)}
+              aria-label={t('form.removeOption')}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        {ownMessage(error?.options) && <p className="text-sm text-destructive">{ownMessage(error?.options)}</p>}
+        <Button type="button" variant="ghost" size="sm" onClick={() => options.append(emptyOption())}>
+          <Plus className="mr-1 h-4 w-4" />
+          {t('form.addOption')}
+        </Button>
+      </div>
+    </fieldset>
+  );
+}
+
+function RuleFields({ index, control, register, errors, onRemove }: RowProps) {
+  const t = useTranslations('questionnaires');
+  const enumLabel = useEnumLabel();
+  const conditions = useFieldArray({ control, name: `rules.${index}.conditions` });
+  const questions = useWatch({ control, name: 'questions' });
+  const current = useWatch({ control, name: `rules.${index}.conditions` });
+  const error = errors.rules?.[index];
+  const id = (field: string) => `rule${index}${field}`;
+
+  return (
+    <fieldset className="space-y-4 rounded-md border p-4">
+      <div className="flex items-center justify-between">
+        <legend className="text-sm font-medium">{t('form.rule', { number: index + 1 })}</legend>
+        <Button type="button" variant="ghost" size="sm" onClick={onRemove}>
+          <X className="mr-1 h-4 w-4" />
+          {t('form.removeRule')}
+        </Button>
+      </div>
+      <div className="grid gap-4 sm:grid-cols-[2fr_1fr]">
+        <FormField
+          label={t('fields.ruleLabel')}
+          htmlFor={id('Label')}
+          error={error?.label?.message}
+          hint={t('form.ruleLabelHint')}
+          required
+        >
+          <Input id={id('Label')} maxLength={200} {...register(`rules.${index}.label`)} />
+        </FormField>
+        <FormField label={t('fields.atLeast')} htmlFor={id('Priority')} error={error?.priority?.message} required>
+          <NativeSelect id={id('Priority')} {...register(`rules.${index}.priority`)}>
+            {priorities.map((priority) => (
+              <option key={priority} value={priority}>
+                {enumLabel(priority)}
+              </option>
+            ))}
+          </NativeSelect>
+        </FormField>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-muted-foreground">{t('form.conditions')}</p>
+        {conditions.fields.map((condition, conditionIndex) => {
+          const values = current?.[conditionIndex];
+          const question = questions.find((candidate) => candidate.key && candidate.key === values?.question);
+          const path = `rules.${index}.conditions.${conditionIndex}` as const;
+          const conditionError = error?.conditions?.[conditionIndex];
+          const message =
+            ownMessage(conditionError) ??
+            conditionError?.question?.message ??
+            conditionError?.option?.message ??
+            conditionError?.min?.message ??
+            conditionError?.max?.message;
+          return (
+            <div key={condition.id} className="space-y-1">
+              <div className="grid grid-cols-[8rem_1fr_1fr_2rem] items-center gap-2">
+                <NativeSelect className="h-8" aria-label={t('form.conditionKind')} {...register(`${path}.kind`)}>
+                  <option value="answer">{t('form.conditionAnswer')}</option>
+                  <option value="age">{t('form.conditionAge')}</option>
+                </NativeSelect>
+                {values?.kind === 'age' ? (
+                  <>
+                    <Input
+                      type="number"
+                      className="h-8"
+                      min={0}
+                      max={150}
+                      placeholder={t('form.minAge')}
+                      aria-label={t('form.minAge')}
+                      {...register(`${path}.min`, { setValueAs: optionalNumber })}
+                    />
+                    <Input
+                      type="number"
+                      className="h-8"
+                      min={0}
+                      max={150}
+                      placeholder={t('form.maxAge')}
+                      aria-label={t('form.maxAge')}
+                      {...register(`${path}.max`, { setValueAs: optionalNumber })}
+                    />
+                  </>
+                ) : (
+                  <>
+                    <NativeSelect className="h-8" aria-label={t('fields.question')} {...register(`${path}.question`)}>
+                      <option value="">{t('form.chooseQuestion')}</option>
+                      {questions
+                        .filter((candidate) => candidate.key)
+                        .map((candidate) => (
+                          <option key={candidate.key} value={candidate.key}>
+                            {candidate.label || candidate.key}
+                          </option>
+                        ))}
+                    </NativeSelect>
+                    <NativeSelect className="h-8" aria-label={t('fields.option')} {...register(`${path}.option`)}>
+                      <option value="">{t('form.chooseOption')}</option>
+                      {question?.options
+                        .filter((option) => option.label)
+                        .map((option) => (
+                          <option key={option.label} value={option.label}>
+                            {option.label}
+                          </option>
+                        ))}
+                    </NativeSelect>
+                  </>
+                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  disabled={conditions.fields.length <= 1}
+                  onClick={() => conditions.remove(conditionIndex)}
+                  aria-label={t('form.removeCondition')}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              {message && <p className="text-sm text-destructive">{message}</p>}
+            </div>
+          );
+        })}
+        {ownMessage(error?.conditions) && <p className="text-sm text-destructive">{ownMessage(error?.conditions)}</p>}
+        <Button type="button" variant="ghost" size="sm" onClick={() => conditions.append(emptyCondition())}>
+          <Plus className="mr-1 h-4 w-4" />
+          {t('form.addCondition')}
+        </Button>
+      </div>
+    </fieldset>
+  );
+}
@@ -0,0 +1,47 @@
+import Link from 'next/link';
+import { useTranslations } from 'next-intl';
+import type { Questionnaire } from '@prisma/client';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useEnumLabel } from '@/lib/i18n/labels';
+
+export function QuestionnaireList({ questionnaires }: { questionnaires: Questionnaire[] }) {
+  const t = useTranslations('questionnaires');
+  const enumLabel = useEnumLabel();
+
+  if (questionnaires.length === 0) {
+    return <p className="py-6 text-center text-sm text-muted-foreground">{t('empty')}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{t('fields.name')}</TableHead>
+          <TableHead>{t('fields.kind')}</TableHead>
+          <TableHead>{t('fields.version')}</TableHead>
+          <TableHead>{t('status')}</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {questionnaires.map((questionnaire) => (
+          <TableRow key={questionnaire.id}>
+            <TableCell>
+              <Link href={`/settings/questionnaires/${questionnaire.id}`} className="font-medium hover:underline">
+                {questionnaire.name}
+              </Link>
+              {questionnaire.description && (
+                <div className="max-w-md truncate text-xs text-muted-foreground">{questionnaire.description}</div>
+              )}
+            </TableCell>
+            <TableCell>{enumLabel(questionnaire.kind)}</TableCell>
+            <TableCell className="tabular-nums">{questionnaire.currentVersion}</TableCell>
+            <TableCell>
+              {questionnaire.archivedAt ? <Badge variant="secondary">{t('archived')}</Badge> : <Badge>{t('active')}</Badge>}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
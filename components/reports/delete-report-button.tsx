@@ -0,0 +1,60 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Loader2, Trash2 } from 'lucide-react';
+import { deleteReport } from '@/app/(dashboard)/reports/actions';
+import { Button } from '@/components/ui/button';
+
+export function DeleteReportButton({ reportId }: { reportId: string }) {
+  const t = useTranslations('reports');
+  const tc = useTranslations('common');
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [confirming, setConfirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!confirming) {
+    return (
+      <Button variant="outline" onClick={() => setConfirming(true)}>
+        <Trash2 className="mr-2 h-4 w-4" />
+        {tc('delete')}
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-muted-foreground">{t('confirmDelete')}</span>
+      <Button
+        size="sm"
+        variant="destructive"
+        disabled={isPending}
+        onClick={() => {
+          setError(null);
+          startTransition(async () => {
+            const result = await deleteReport(reportId);
+            if (!result.success) {
+              setError(result.error);
+              return;
+            }
+            router.push('/reports');
+            router.refresh();
+          });
+        }}
+      >
+        {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {tc('delete')}
+      </Button>
+      <Button size="sm" variant="ghost" onClick={() => setConfirming(false)} disabled={isPending}>
+        {tc('cancel')}
+      </Button>
+      {error && (
+        <p role="alert" className="w-full text-sm text-destructive">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
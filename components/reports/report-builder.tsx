@@ -0,0 +1,248 @@
+import Link from 'next/link';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { NativeSelect } from '@/components/ui/native-select';
+import {
+  customFieldsForSource,
+  dimensionLabel,
+  dimensionsBySource,
+  groupableCustomFieldTypes,
+  MAX_GROUP_BY,
+  reportPeriods,
+  reportSources,
+  type ReportCustomField,
+  type ReportParams,
+} from '@/lib/reports/definition';
+import { useEnumLabel } from '@/lib/i18n/labels';
+import { buildHref } from '@/lib/utils';
+
+const serviceTypes = [
+  'FOOD_DISTRIBUTION',
+  'SHELTER_ADMISSION',
+  'SHELTER_EXIT',
+  'MEDICAL_CHECKUP',
+  'COUNSELING',
+  'EDUCATION',
+  'FINANCIAL_AID',
+  'RESCUE',
+  'OTHER',
+];
+const caseTypes = ['FOOD', 'SHELTER', 'HEALTHCARE', 'EDUCATION', 'IDENTITY_DOCUMENTS', 'EMPLOYMENT', 'OTHER'];
+const categories = ['HOMELESS', 'ELDERLY', 'DISABLED', 'LOW_INCOME', 'REFUGEE', 'ORPHAN', 'SICK', 'OTHER'];
+
+interface ReportBuilderProps {
+  pathname: string;
+  params: ReportParams;
+  states: string[];
+  staff: { id: string; name: string }[];
+  // Empty for roles that only report on their own branch.
+  branches: { id: string; name: string }[];
+  customFields: ReportCustomField[];
+  // Carried along when editing a saved report.
+  reportId?: string;
+}
+
+function CheckboxGroup({ name, values, selected }: { name: string; values: string[]; selected: string[] }) {
+  const enumLabel = useEnumLabel();
+  return (
+    <div className="flex flex-wrap gap-x-4 gap-y-1">
+      {values.map((value) => (
+        <label key={value} className="flex items-center gap-2 text-sm">
+          <input type="checkbox" name={name} value={value} defaultChecked={selected.includes(value)} />
+          {enumLabel(value)}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+// A GET form, so every report is a shareable URL. The source is picked with
+// links because it decides which groupings and filters the form offers.
+export function ReportBuilder({
+  pathname,
+  params,
+  states,
+  staff,
+  branches,
+  customFields,
+  reportId,
+}: ReportBuilderProps) {
+  const t = useTranslations('reports.builder');
+  const tr = useTranslations('reports');
+  const tc = useTranslations('common');
+  const dimensions = dimensionsBySource[params.source].filter((dimension) => dimension !== 'branch' || branches.length > 1);
+  const fields = customFieldsForSource(customFields, params.source);
+  const groupableFields = fields.filter((field) => groupableCustomFieldTypes.includes(field.type));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {reportSources.map((source) => (
+          <Button key={source} asChild size="sm" variant={params.source === source ? 'default' : 'outline'}>
+            <Link href={buildHref(pathname, { reportId }, { source })}>{tr(`sources.${source}`)}</Link>
+          </Button>
+        ))}
+      </div>
+
+      <form method="GET" className="space-y-4">
+        <input type="hidden" name="source" value={params.source} />
+        {reportId && <input type="hidden" name="reportId" value={reportId} />}
+
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-6">
+          {Array.from({ length: MAX_GROUP_BY }, (_, i) => (
+            <div key={i} className="space-y-1">
+              <Label htmlFor={`groupBy-${i}`}>{i === 0 ? t('groupBy') : t('thenBy')}</Label>
+              <NativeSelect id={`groupBy-${i}`} name="groupBy" defaultValue={params.groupBy[i] ?? ''}>
+                <option value="">{i === 0 ? t('totalsOnly') : t('nothing')}</option>
+                {dimensions.map((dimension) => (
+                  <option key={dimension} value={dimension}>
+                    {dimensionLabel(tr, params.source, dimension)}
+                  </option>
+                ))}
+                {groupableFields.length > 0 && (
+                  <optgroup label={t('customFields')}>
+                    {groupableFields.map((field) => (
+                      <option key={field.dimension} value={field.dimension}>
+                        {field.label}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+              </NativeSelect>
+            </div>
+          ))}
+          <div className="space-y-1">
+            <Label htmlFor="period">{t('period')}</Label>
+            <NativeSelect id="period" name="period" defaultValue={params.period}>
+              {reportPeriods.map((period) => (
+                <option key={period} value={period}>
+                  {tr(`periods.${period}`)}
+                </option>
+              ))}
+            </NativeSelect>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="from">{t('from')}</Label>
+              <Input id="from" name="from" type="date" defaultValue={params.from} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="to">{t('to')}</Label>
+              <Input id="to" name="to" type="date" defaultValue={params.to} />
+            </div>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">{t('customRangeHint')}</p>
+
+        <details className="rounded-md border p-3" open={hasFilters(params)}>
+          <summary className="cursor-pointer text-sm font-medium">{t('filters')}</summary>
+          <div className="mt-3 space-y-4">
+            {params.source === 'SERVICE' && (
+              <fieldset className="space-y-2">
+                <legend className="text-sm font-medium">{t('serviceType')}</legend>
+                <CheckboxGroup name="serviceTypes" values={serviceTypes} selected={params.serviceTypes} />
+              </fieldset>
+            )}
+            {params.source !== 'BENEFICIARY' && (
+              <fieldset className="space-y-2">
+                <legend className="text-sm font-medium">{t('caseType')}</legend>
+                <CheckboxGroup name="caseTypes" values={caseTypes} selected={params.caseTypes} />
+              </fieldset>
+            )}
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium">{t('category')}</legend>
+              <CheckboxGroup name="categories" values={categories} selected={params.categories} />
+            </fieldset>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="states">{t('state')}</Label>
+                <NativeSelect id="states" name="states" multiple defaultValue={params.states} className="h-32">
+                  {states.map((state) => (
+                    <option key={state} value={state}>
+                      {state}
+                    </option>
+                  ))}
+                </NativeSelect>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="staffIds">{tr(`staff.${params.source}`)}</Label>
+                <NativeSelect id="staffIds" name="staffIds" multiple defaultValue={params.staffIds} className="h-32">
+                  {staff.map((user) => (
+                    <option key={user.id} value={user.id}>
+                      {user.name}
+                    </option>
+                  ))}
+                </NativeSelect>
+              </div>
+              {branches.length > 1 && (
+                <div className="space-y-1">
+                  <Label htmlFor="branchIds">{t('branch')}</Label>
+                  <NativeSelect id="branchIds" name="branchIds" multiple defaultValue={params.branchIds} className="h-32">
+                    {branches.map((branch) => (
+                      <option key={branch.id} value={branch.id}>
+                        {branch.name}
+                      </option>
+                    ))}
+                  </NativeSelect>
+                </div>
+              )}
+              {fields.map((field) => {
+                const value = params.customFields[field.dimension] ?? '';
+                return (
+                  <div key={field.dimension} className="space-y-1">
+                    <Label htmlFor={field.dimension}>{field.label}</Label>
+                    {field.type === 'SELECT' || field.type === 'MULTI_SELECT' || field.type === 'BOOLEAN' ? (
+                      <NativeSelect id={field.dimension} name={field.dimension} defaultValue={value}>
+                        <option value="">{tc('all')}</option>
+                        {field.type === 'BOOLEAN' ? (
+                          <>
+                            <option value="true">{tc('yes')}</option>
+                            <option value="false">{tc('no')}</option>
+                          </>
+                        ) : (
+                          field.options.map((option) => (
+                            <option key={option} value={option}>
+                              {option}
+                            </option>
+                          ))
+                        )}
+                      </NativeSelect>
+                    ) : (
+                      <Input
+                        id={field.dimension}
+                        name={field.dimension}
+                        type={field.type === 'DATE' ? 'date' : field.type === 'NUMBER' ? 'number' : 'text'}
+                        defaultValue={value}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-xs text-muted-foreground">{t('multiSelectHint')}</p>
+          </div>
+        </details>
+
+        <div className="flex gap-2">
+          <Button type="submit" variant="secondary" size="sm">
+            {t('run')}
+          </Button>
+          <Button asChild variant="ghost" size="sm">
+            <Link href={buildHref(pathname, { reportId }, { source: params.source })}>{t('reset')}</Link>
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+function hasFilters(params: ReportParams): boolean {
+  return (
+    Object.keys(params.customFields).length > 0 ||
+    [params.serviceTypes, params.caseTypes, params.categories, params.states, params.staffIds, params.branchIds].some(
+      (values) => values.length > 0
+    )
+  );
+}
@@ -0,0 +1,25 @@
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { buildHref } from '@/lib/utils';
+
+const formats = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel' },
+  { value: 'pdf', label: 'PDF' },
+];
+
+// `query` reproduces the report on screen; see reportParamsToQuery.
+export function ReportExportButtons({ query }: { query: Record<string, string | string[] | undefined> }) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {formats.map((format) => (
+        <Button key={format.value} asChild variant="outline" size="sm">
+          <a href={buildHref('/api/reports/export', {}, { ...query, format: format.value })}>
+            <Download className="mr-2 h-4 w-4" />
+            {format.label}
+          </a>
+        </Button>
+      ))}
+    </div>
+  );
+}
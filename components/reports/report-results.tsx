@@ -0,0 +1,53 @@
+import { useFormatter, useLocale, useTranslations } from 'next-intl';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { ReportResult } from '@/lib/reports/query';
+import { useEnumLabel } from '@/lib/i18n/labels';
+import { buildReportTable, formatCell } from '@/lib/reports/table';
+import { cn } from '@/lib/utils';
+
+export function ReportResults({ result }: { result: ReportResult }) {
+  const t = useTranslations('reports');
+  const locale = useLocale();
+  const enumLabel = useEnumLabel();
+  const format = useFormatter();
+  const table = buildReportTable(result, { locale, t, enumLabel });
+
+  return (
+    <div className="space-y-2">
+      {result.truncated && (
+        <p role="status" className="text-sm text-destructive">
+          {t('truncated', { rows: format.number(result.rows.length) })}
+        </p>
+      )}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {table.columns.map((column) => (
+              <TableHead key={column.header} className={cn(column.numeric && 'text-right')}>
+                {column.header}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {table.rows.map((row, i) => (
+            <TableRow key={i}>
+              {row.map((cell, j) => (
+                <TableCell key={j} className={cn(table.columns[j].numeric && 'text-right tabular-nums')}>
+                  {formatCell(cell, table.columns[j], locale)}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+          <TableRow className="font-semibold">
+            {table.totals.map((cell, j) => (
+              <TableCell key={j} className={cn(table.columns[j].numeric && 'text-right tabular-nums')}>
+                {formatCell(cell, table.columns[j], locale)}
+              </TableCell>
+            ))}
+          </TableRow>
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
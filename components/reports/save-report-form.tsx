@@ -0,0 +1,77 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Loader2, Save } from 'lucide-react';
+import { saveReport } from '@/app/(dashboard)/reports/actions';
+import { FormField } from '@/components/form-field';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { ReportParams } from '@/lib/reports/definition';
+
+interface SaveReportFormProps {
+  // The builder's current parameters, as shown in the results.
+  parameters: ReportParams;
+  // Present when editing a saved report.
+  reportId?: string;
+  defaultName?: string;
+  defaultDescription?: string | null;
+}
+
+export function SaveReportForm({ parameters, reportId, defaultName = '', defaultDescription }: SaveReportFormProps) {
+  const t = useTranslations('reports.save');
+  const tc = useTranslations('common');
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [name, setName] = useState(defaultName);
+  const [description, setDescription] = useState(defaultDescription ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  return (
+    <form
+      className="flex flex-wrap items-end gap-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        setError(null);
+        startTransition(async () => {
+          const result = await saveReport(reportId ?? null, { name, description }, parameters);
+          if (!result.success) {
+            setError(result.fieldErrors?.name?.[0] ?? result.error);
+            return;
+          }
+          router.push(`/reports/${result.data.id}`);
+          router.refresh();
+        });
+      }}
+    >
+      <FormField label={t('name')} htmlFor="reportName" required className="min-w-[14rem] flex-1">
+        <Input
+          id="reportName"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={100}
+          placeholder={t('namePlaceholder')}
+          required
+        />
+      </FormField>
+      <FormField label={t('description')} htmlFor="reportDescription" className="min-w-[14rem] flex-[2]">
+        <Input
+          id="reportDescription"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          maxLength={500}
+        />
+      </FormField>
+      <Button type="submit" disabled={isPending || !name.trim()}>
+        {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+        {reportId ? tc('saveChanges') : t('submit')}
+      </Button>
+      {error && (
+        <p role="alert" className="w-full text-sm text-destructive">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+}
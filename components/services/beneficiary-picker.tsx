@@ -0,0 +1,241 @@
+'use client';
+
+import { useEffect, useRef, useState, useTransition } from 'react';
+import { useTranslations } from 'next-intl';
+import { ClipboardList, Loader2, ScanLine, Search } from 'lucide-react';
+import { lookupBeneficiaries, searchBeneficiaries } from '@/app/(dashboard)/services/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import type { BeneficiaryOption } from '@/lib/distributions';
+import { cn } from '@/lib/utils';
+
+type PickerMode = 'search' | 'scan' | 'paste';
+
+const modes: { value: PickerMode; icon: typeof Search }[] = [
+  { value: 'search', icon: Search },
+  { value: 'scan', icon: ScanLine },
+  { value: 'paste', icon: ClipboardList },
+];
+
+const SEARCH_DELAY_MS = 250;
+
+interface BeneficiaryPickerProps {
+  onAdd: (beneficiaries: BeneficiaryOption[]) => void;
+  // Already chosen; shown as added in search results.
+  selectedIds: Set<string>;
+}
+
+export function BeneficiaryPicker({ onAdd, selectedIds }: BeneficiaryPickerProps) {
+  const t = useTranslations('services.picker');
+  const [mode, setMode] = useState<PickerMode>('search');
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-1 rounded-md bg-muted p-1" role="tablist">
+        {modes.map(({ value, icon: Icon }) => (
+          <button
+            key={value}
+            type="button"
+            role="tab"
+            aria-selected={mode === value}
+            onClick={() => setMode(value)}
+            className={cn(
+              'flex flex-1 items-center justify-center gap-2 rounded-sm px-3 py-1.5 text-sm font-medium transition-colors',
+              mode === value ? 'bg-background shadow-sm' : 'text-muted-foreground hover:text-foreground'
+            )}
+          >
+            <Icon className="h-4 w-4" />
+            {t(`modes.${value}`)}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'search' && <SearchMode onAdd={onAdd} selectedIds={selectedIds} />}
+      {mode === 'scan' && <ScanMode onAdd={onAdd} selectedIds={selectedIds} />}
+      {mode === 'paste' && <PasteMode onAdd={onAdd} />}
+    </div>
+  );
+}
+
+function SearchMode({ onAdd, selectedIds }: Pick<BeneficiaryPickerProps, 'onAdd' | 'selectedIds'>) {
+  const t = useTranslations('services.picker');
+  const tb = useTranslations('beneficiaries');
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<BeneficiaryOption[]>([]);
+  const [isPending, startTransition] = useTransition();
+
+  useEffect(() => {
+    const q = query.trim();
+    if (q.length < 2) {
+      setResults([]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      startTransition(async () => {
+        const result = await searchBeneficiaries(q);
+        setResults(result.success ? result.data : []);
+      });
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+        <Input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          // The picker sits inside the event form; Enter shouldn't submit it.
+          onKeyDown={(e) => e.key === 'Enter' && e.preventDefault()}
+          placeholder={tb('searchPlaceholder')}
+          className="pl-9"
+          aria-label={tb('searchLabel')}
+        />
+        {isPending && <Loader2 className="absolute right-3 top-3 h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+      {results.length > 0 && (
+        <ul className="max-h-64 divide-y overflow-y-auto rounded-md border">
+          {results.map((beneficiary) => {
+            const added = selectedIds.has(beneficiary.id);
+            return (
+              <li key={beneficiary.id}>
+                <button
+                  type="button"
+                  disabled={added}
+                  onClick={() => onAdd([beneficiary])}
+                  className="flex w-full items-center justify-between gap-4 px-3 py-2 text-left text-sm hover:bg-accent disabled:opacity-50"
+                >
+                  <span className="font-medium">
+                    {beneficiary.firstName} {beneficiary.lastName}
+                  </span>
+                  <span className="text-muted-foreground">{added ? t('added') : beneficiary.idNumber ?? ''}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {query.trim().length >= 2 && !isPending && results.length === 0 && (
+        <p className="text-sm text-muted-foreground">{tb('noMatchesFor', { q: query.trim() })}</p>
+      )}
+    </div>
+  );
+}
+
+// Barcode and QR scanners type the code followed by Enter, so this is a text
+// box that looks up whatever arrives and clears itself for the next person.
+function ScanMode({ onAdd, selectedIds }: Pick<BeneficiaryPickerProps, 'onAdd' | 'selectedIds'>) {
+  const t = useTranslations('services.picker');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [code, setCode] = useState('');
+  const [message, setMessage] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const submit = () => {
+    const scanned = code.trim();
+    if (!scanned) return;
+    setCode('');
+    startTransition(async () => {
+      const result = await lookupBeneficiaries([scanned]);
+      const match = result.success ? result.data.matches[0] : undefined;
+      if (!match) {
+        setMessage({ tone: 'error', text: t('notFound', { code: scanned }) });
+      } else if (selectedIds.has(match.id)) {
+        setMessage({ tone: 'error', text: t('alreadyListed', { name: `${match.firstName} ${match.lastName}` }) });
+      } else {
+        onAdd([match]);
+        setMessage({ tone: 'ok', text: t('addedName', { name: `${match.firstName} ${match.lastName}` }) });
+      }
+      inputRef.current?.focus();
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          ref={inputRef}
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              submit();
+            }
+          }}
+          placeholder={t('scanPlaceholder')}
+          aria-label={t('scanLabel')}
+          autoComplete="off"
+          autoFocus
+        />
+        <Button type="button" variant="outline" onClick={submit} disabled={isPending || !code.trim()}>
+          {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : t('add')}
+        </Button>
+      </div>
+      {message && (
+        <p role="status" className={cn('text-sm', message.tone === 'error' ? 'text-destructive' : 'text-muted-foreground')}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function PasteMode({ onAdd }: Pick<BeneficiaryPickerProps, 'onAdd'>) {
+  const t = useTranslations('services.picker');
+  const [text, setText] = useState('');
+  const [unmatched, setUnmatched] = useState<string[]>([]);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const submit = () => {
+    const codes = text.split(/[\n,;\t]+/).map((line) => line.trim()).filter(Boolean);
+    if (codes.length === 0) return;
+    setError(null);
+    startTransition(async () => {
+      const result = await lookupBeneficiaries(codes);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      onAdd(result.data.matches);
+      setUnmatched(result.data.unmatched);
+      setSummary(t('found', { found: result.data.matches.length, total: codes.length }));
+      // Leave only the lines that need fixing.
+      setText(result.data.unmatched.join('\n'));
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        rows={6}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={t('pastePlaceholder')}
+        aria-label={t('pasteLabel')}
+      />
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">{summary}</p>
+        <Button type="button" variant="outline" onClick={submit} disabled={isPending || !text.trim()}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t('addAll')}
+        </Button>
+      </div>
+      {unmatched.length > 0 && (
+        <p className="text-sm text-destructive">
+          {t('unmatched', { codes: unmatched.join(', ') })}
+        </p>
+      )}
+      {error && (
+        <p role="alert" className="text-sm text-destructive">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+'use client';
+
+import { useMemo, useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { useFieldArray, useForm, type Resolver } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2, X } from 'lucide-react';
+import { createEvent, updateEvent } from '@/app/(dashboard)/services/actions';
+import { FormField } from '@/components/form-field';
+import { BeneficiaryPicker } from '@/components/services/beneficiary-picker';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import { Textarea } from '@/components/ui/textarea';
+import type { BeneficiaryOption } from '@/lib/distributions';
+import { useEnumLabel } from '@/lib/i18n/labels';
+import { distributionEventSchema } from '@/lib/validation';
+
+const serviceTypes = [
+  'FOOD_DISTRIBUTION',
+  'SHELTER_ADMISSION',
+  'SHELTER_EXIT',
+  'MEDICAL_CHECKUP',
+  'COUNSELING',
+  'EDUCATION',
+  'FINANCIAL_AID',
+  'RESCUE',
+  'OTHER',
+] as const;
+
+// Form state mirrors distributionEventSchema, with the date kept as the
+// `YYYY-MM-DD` string a native date input produces.
+export interface DistributionEventFormValues {
+  type: (typeof serviceTypes)[number];
+  date: string;
+  location: string;
+  description: string;
+  defaultQuantity: number | null;
+  recipients: { beneficiaryId: string; quantity: number | null }[];
+}
+
+interface DistributionEventFormProps {
+  // Present when editing an existing event.
+  eventId?: string;
+  defaultValues?: DistributionEventFormValues;
+  beneficiaries?: BeneficiaryOption[];
+}
+
+const optionalNumber = (value: unknown) => (value === '' || value === null ? null : Number(value));
+
+export function DistributionEventForm({ eventId, defaultValues, beneficiaries = [] }: DistributionEventFormProps) {
+  const router = useRouter();
+  const t = useTranslations('services');
+  const tc = useTranslations('common');
+  const enumLabel = useEnumLabel();
+  const [isPending, startTransition] = useTransition();
+  const [formError, setFormError] = useState<string | null>(null);
+  // Names for the recipient rows; the form itself only holds ids.
+  const [known, setKnown] = useState(() => new Map(beneficiaries.map((b) => [b.id, b])));
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    setError,
+    watch,
+    formState: { errors },
+  } = useForm<DistributionEventFormValues>({
+    resolver: zodResolver(distributionEventSchema) as unknown as Resolver<DistributionEventFormValues>,
+    defaultValues: defaultValues ?? {
+      type: 'FOOD_DISTRIBUTION',
+      date: new Date().toISOString().slice(0, 10),
+      location: '',
+      description: '',
+      defaultQuantity: 1,
+      recipients: [],
+    },
+  });
+  const { fields, prepend, remove } = useFieldArray({ control, name: 'recipients' });
+
+  const recipients = watch('recipients');
+  const defaultQuantity = watch('defaultQuantity');
+  const selectedIds = useMemo(() => new Set(recipients.map((r) => r.beneficiaryId)), [recipients]);
+  const totalQuantity = recipients.reduce((sum, r) => sum + (r.quantity ?? defaultQuantity ?? 0), 0);
+
+  const handleAdd = (options: BeneficiaryOption[]) => {
+    const fresh = options.filter((option) => !selectedIds.has(option.id));
+    if (fresh.length === 0) return;
+    setKnown((current) => new Map([...current, ...fresh.map((option) => [option.id, option] as const)]));
+    // Newest first, so the person just scanned is the one in view.
+    prepend(fresh.map((option) => ({ beneficiaryId: option.id, quantity: null })));
+  };
+
+  const onSubmit = handleSubmit((values) => {
+    setFormError(null);
+    startTransition(async () => {
+      const result = eventId ? await updateEvent(eventId, values) : await createEvent(values);
+      if (!result.success) {
+        setFormError(result.error);
+        for (const [field, messages] of Object.entries(result.fieldErrors ?? {})) {
+          if (messages?.[0]) {
+            setError(field as keyof DistributionEventFormValues, { type: 'server', message: messages[0] });
+          }
+        }
+        return;
+      }
+
+      router.push(`/services/events/${result.data.id}`);
+      router.refresh();
+    });
+  });
+
+  const error = (field: keyof DistributionEventFormValues) => errors[field]?.message as string | undefined;
+  const aria = (field: keyof DistributionEventFormValues) => ({
+    'aria-invalid': !!errors[field],
+    'aria-describedby': errors[field] ? `${field}-error` : undefined,
+  });
+  const recipientsError = errors.recipients?.message ?? errors.recipients?.root?.message;
+
+  return (
+    <form onSubmit={onSubmit} noValidate className="space-y-6">
+      {formError && (
+        <div role="alert" className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+          {formError}
+        </div>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <FormField label={t('fields.type')} htmlFor="type" error={error('type')} required>
+          <NativeSelect id="type" {...aria('type')} {...register('type')}>
+            {serviceTypes.map((value) => (
+              <option key={value} value={value}>
+                {enumLabel(value)}
+              </option>
+            ))}
+          </NativeSelect>
+        </FormField>
+        <FormField label={t('fields.date')} htmlFor="date" error={error('date')} required>
+          <Input id="date" type="date" {...aria('date')} {...register('date')} />
+        </FormField>
+        <FormField label={t('fields.location')} htmlFor="location" error={error('location')} required>
+          <Input id="location" placeholder={t('eventForm.locationPlaceholder')} {...aria('location')} {...register('location')} />
+        </FormField>
+        <FormField
+          label={t('eventForm.defaultQuantity')}
+          htmlFor="defaultQuantity"
+          error={error('defaultQuantity')}
+          hint={t('eventForm.defaultQuantityHint')}
+        >
+          <Input
+            id="defaultQuantity"
+            type="number"
+            min={1}
+            {...aria('defaultQuantity')}
+            {...register('defaultQuantity', { setValueAs: optionalNumber })}
+          />
+        </FormField>
+      </div>
+
+      <FormField label={t('fields.description')} htmlFor="description" error={error('description')}>
+        <Textarea
+          id="description"
+          rows={2}
+          placeholder={t('eventForm.descriptionPlaceholder')}
+          {...aria('description')}
+          {...register('description')}
+        />
+      </FormField>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <section className="space-y-2">
+          <h2 className="text-sm font-medium">{t('eventForm.addBeneficiaries')}</h2>
+          <BeneficiaryPicker onAdd={handleAdd} selectedIds={selectedIds} />
+        </section>
+
+        <section className="space-y-2">
+          <div className="flex items-baseline justify-between">
+            <h2 className="text-sm font-medium">
+              {t('eventForm.served')} <span className="text-muted-foreground">({fields.length})</span>
+            </h2>
+            <span className="text-sm text-muted-foreground">{t('eventForm.totalQuantity', { total: totalQuantity })}</span>
+          </div>
+          {recipientsError && <p className="text-sm text-destructive">{recipientsError}</p>}
+          {fields.length === 0 ? (
+            <p className="rounded-md border border-dashed py-8 text-center text-sm text-muted-foreground">
+              {t('eventForm.nobodyAdded')}
+            </p>
+          ) : (
+            <ul className="max-h-[28rem] divide-y overflow-y-auto rounded-md border">
+              {fields.map((field, index) => {
+                const beneficiary = known.get(field.beneficiaryId);
+                return (
+                  <li key={field.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate font-medium">
+                        {beneficiary ? `${beneficiary.firstName} ${beneficiary.lastName}` : field.beneficiaryId}
+                      </p>
+                      {beneficiary?.idNumber && <p className="text-xs text-muted-foreground">{beneficiary.idNumber}</p>}
+                    </div>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="h-8 w-20"
+                      placeholder={defaultQuantity ? String(defaultQuantity) : '—'}
+                      aria-label={t('eventForm.quantityFor', { name: beneficiary?.firstName ?? '' })}
+                      aria-invalid={!!errors.recipients?.[index]?.quantity}
+                      {...register(`recipients.${index}.quantity`, { setValueAs: optionalNumber })}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => remove(index)}
+                      aria-label={t('eventForm.remove', { name: beneficiary?.firstName ?? '' })}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </section>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={() => router.back()} disabled={isPending}>
+          {tc('cancel')}
+        </Button>
+        <Button type="submit" disabled={isPending}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {eventId ? tc('saveChanges') : t('eventForm.submit', { count: fields.length })}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,45 @@
+import Link from 'next/link';
+import { useLocale, useTranslations } from 'next-intl';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { DistributionEventListItem } from '@/lib/distributions';
+import { useEnumLabel } from '@/lib/i18n/labels';
+import { formatDate } from '@/lib/utils';
+
+export function DistributionEventTable({ items }: { items: DistributionEventListItem[] }) {
+  const t = useTranslations('services.events');
+  const locale = useLocale();
+  const enumLabel = useEnumLabel();
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{t('date')}</TableHead>
+          <TableHead>{t('event')}</TableHead>
+          <TableHead className="text-right">{t('served')}</TableHead>
+          <TableHead className="hidden md:table-cell">{t('loggedBy')}</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {items.map((event) => (
+          <TableRow key={event.id}>
+            <TableCell className="whitespace-nowrap">{formatDate(event.date, locale)}</TableCell>
+            <TableCell>
+              <Link href={`/services/events/${event.id}`} className="font-medium hover:underline">
+                {enumLabel(event.type)} · {event.location}
+              </Link>
+              {event.reversedAt && (
+                <Badge variant="destructive" className="ml-2">
+                  {t('reversed')}
+                </Badge>
+              )}
+            </TableCell>
+            <TableCell className="text-right">{event._count.services}</TableCell>
+            <TableCell className="hidden md:table-cell">{event.createdBy.name}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
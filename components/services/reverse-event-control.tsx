@@ -0,0 +1,80 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useTranslations } from 'next-intl';
+import { Loader2, Undo2 } from 'lucide-react';
+import { reverseEvent } from '@/app/(dashboard)/services/actions';
+import { FormField } from '@/components/form-field';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+
+interface ReverseEventControlProps {
+  eventId: string;
+  serviceCount: number;
+}
+
+export function ReverseEventControl({ eventId, serviceCount }: ReverseEventControlProps) {
+  const t = useTranslations('services.reverse');
+  const tc = useTranslations('common');
+  const [isPending, startTransition] = useTransition();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  if (!open) {
+    return (
+      <Button variant="outline" onClick={() => setOpen(true)}>
+        <Undo2 className="mr-2 h-4 w-4" />
+        {t('open')}
+      </Button>
+    );
+  }
+
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        setError(null);
+        startTransition(async () => {
+          const result = await reverseEvent(eventId, { reason: reason.trim() });
+          if (!result.success) {
+            setError(result.error);
+            return;
+          }
+          setOpen(false);
+          setReason('');
+        });
+      }}
+    >
+      <p className="text-sm text-muted-foreground">
+        {t('warning', { count: serviceCount })}
+      </p>
+      <FormField label={t('reason')} htmlFor="reversalReason" required>
+        <Textarea
+          id="reversalReason"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={3}
+          maxLength={2000}
+          required
+          autoFocus
+        />
+      </FormField>
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" variant="destructive" disabled={isPending || !reason.trim()}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t('submit', { count: serviceCount })}
+        </Button>
+        <Button type="button" size="sm" variant="ghost" onClick={() => setOpen(false)} disabled={isPending}>
+          {tc('cancel')}
+        </Button>
+      </div>
+      {error && (
+        <p role="alert" className="text-sm text-destructive">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+}
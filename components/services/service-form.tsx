@@ -0,0 +1,242 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Controller, useForm, type Resolver } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2 } from 'lucide-react';
+import { createService } from '@/app/(dashboard)/services/actions';
+import { CustomFieldInputs } from '@/components/custom-fields/custom-field-inputs';
+import { FormField } from '@/components/form-field';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  applicableCustomFields,
+  type CustomFieldDefinition,
+  type CustomFieldValues,
+} from '@/lib/custom-fields/values';
+import { useEnumLabel } from '@/lib/i18n/labels';
+import { serviceSchemaFor } from '@/lib/validation';
+
+const serviceTypes = [
+  'FOOD_DISTRIBUTION',
+  'SHELTER_ADMISSION',
+  'SHELTER_EXIT',
+  'MEDICAL_CHECKUP',
+  'COUNSELING',
+  'EDUCATION',
+  'FINANCIAL_AID',
+  'RESCUE',
+  'OTHER',
+] as const;
+
+// Form state mirrors serviceSchemaFor, with the date kept as the `YYYY-MM-DD`
+// string a native date input produces.
+export interface ServiceFormValues {
+  type: (typeof serviceTypes)[number];
+  date: string;
+  description: string;
+  quantity: number | null;
+  cost: number | null;
+  beneficiaryId: string;
+  caseId: string | null;
+  programmeId: string | null;
+  location: string;
+  notes: string;
+  customFields: CustomFieldValues;
+}
+
+interface ServiceFormProps {
+  beneficiaryId: string;
+  // The beneficiary's open cases the service can be logged against.
+  cases: { id: string; title: string }[];
+  defaultCaseId?: string;
+  // The programmes the beneficiary is enrolled in, one of which the service can count towards.
+  programmes?: { id: string; name: string }[];
+  // The admin-defined fields; those for the chosen type are shown.
+  customFields?: CustomFieldDefinition[];
+}
+
+const optionalNumber = (value: unknown) => (value === '' || value === null ? null : Number(value));
+
+export function ServiceForm({
+  beneficiaryId,
+  cases,
+  defaultCaseId,
+  programmes = [],
+  customFields = [],
+}: ServiceFormProps) {
+  const router = useRouter();
+  const t = useTranslations('services.fields');
+  const tc = useTranslations('common');
+  const enumLabel = useEnumLabel();
+  const [isPending, startTransition] = useTransition();
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    setError,
+    watch,
+    formState: { errors },
+  } = useForm<ServiceFormValues>({
+    resolver: zodResolver(serviceSchemaFor(customFields)) as unknown as Resolver<ServiceFormValues>,
+    defaultValues: {
+      type: 'FOOD_DISTRIBUTION',
+      date: new Date().toISOString().slice(0, 10),
+      description: '',
+      quantity: null,
+      cost: null,
+      beneficiaryId,
+      caseId: defaultCaseId ?? null,
+      programmeId: null,
+      location: '',
+      notes: '',
+      customFields: {},
+    },
+  });
+  const programmeId = watch('programmeId');
+  const shownCustomFields = applicableCustomFields(customFields, {
+    serviceType: watch('type'),
+    programmeIds: programmeId ? [programmeId] : [],
+  });
+
+  const onSubmit = handleSubmit((values) => {
+    setFormError(null);
+    startTransition(async () => {
+      const result = await createService(values);
+      if (!result.success) {
+        setFormError(result.error);
+        for (const [field, messages] of Object.entries(result.fieldErrors ?? {})) {
+          if (messages?.[0]) {
+            setError(field as keyof ServiceFormValues, { type: 'server', message: messages[0] });
+          }
+        }
+        return;
+      }
+
+      router.push(values.caseId ? `/cases/${values.caseId}` : `/beneficiaries/${beneficiaryId}`);
+      router.refresh();
+    });
+  });
+
+  const error = (field: keyof ServiceFormValues) => errors[field]?.message as string | undefined;
+  const aria = (field: keyof ServiceFormValues) => ({
+    'aria-invalid': !!errors[field],
+    'aria-describedby': errors[field] ? `${field}-error` : undefined,
+  });
+
+  return (
+    <form onSubmit={onSubmit} noValidate className="space-y-6">
+      {formError && (
+        <div role="alert" className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+          {formError}
+        </div>
+      )}
+
+      <input type="hidden" {...register('beneficiaryId')} />
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <FormField label={t('type')} htmlFor="type" error={error('type')} required>
+          <NativeSelect id="type" {...aria('type')} {...register('type')}>
+            {serviceTypes.map((value) => (
+              <option key={value} value={value}>
+                {enumLabel(value)}
+              </option>
+            ))}
+          </NativeSelect>
+        </FormField>
+        <FormField label={t('date')} htmlFor="date" error={error('date')} required>
+          <Input id="date" type="date" {...aria('date')} {...register('date')} />
+        </FormField>
+        <FormField label={t('quantity')} htmlFor="quantity" error={error('quantity')} hint={t('quantityHint')}>
+          <Input
+            id="quantity"
+            type="number"
+            min={1}
+            {...aria('quantity')}
+            {...register('quantity', { setValueAs: optionalNumber })}
+          />
+        </FormField>
+        <FormField label={t('cost')} htmlFor="cost" error={error('cost')}>
+          <Input
+            id="cost"
+            type="number"
+            min={0}
+            step="0.01"
+            {...aria('cost')}
+            {...register('cost', { setValueAs: optionalNumber })}
+          />
+        </FormField>
+        <FormField label={t('location')} htmlFor="location" error={error('location')}>
+          <Input id="location" {...aria('location')} {...register('location')} />
+        </FormField>
+        <FormField label={t('case')} htmlFor="caseId" error={error('caseId')}>
+          <NativeSelect
+            id="caseId"
+            {...aria('caseId')}
+            {...register('caseId', { setValueAs: (v) => (v ? v : null) })}
+          >
+            <option value="">{t('noCase')}</option>
+            {cases.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.title}
+              </option>
+            ))}
+          </NativeSelect>
+        </FormField>
+        {programmes.length > 0 && (
+          <FormField label={t('programme')} htmlFor="programmeId" error={error('programmeId')}>
+            <NativeSelect
+              id="programmeId"
+              {...aria('programmeId')}
+              {...register('programmeId', { setValueAs: (v) => (v ? v : null) })}
+            >
+              <option value="">{t('noProgramme')}</option>
+              {programmes.map((programme) => (
+                <option key={programme.id} value={programme.id}>
+                  {programme.name}
+                </option>
+              ))}
+            </NativeSelect>
+          </FormField>
+        )}
+      </div>
+
+      <Controller
+        control={control}
+        name="customFields"
+        render={({ field }) => (
+          <CustomFieldInputs
+            fields={shownCustomFields}
+            value={field.value}
+            onChange={field.onChange}
+            errors={errors.customFields}
+          />
+        )}
+      />
+
+      <FormField label={t('description')} htmlFor="description" error={error('description')}>
+        <Textarea id="description" rows={3} {...aria('description')} {...register('description')} />
+      </FormField>
+
+      <FormField label={t('notes')} htmlFor="notes" error={error('notes')}>
+        <Textarea id="notes" rows={3} {...aria('notes')} {...register('notes')} />
+      </FormField>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={() => router.back()} disabled={isPending}>
+          {tc('cancel')}
+        </Button>
+        <Button type="submit" disabled={isPending}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t('submit')}
+        </Button>
+      </div>
+    </form>
+  );
+}
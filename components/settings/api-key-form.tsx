@@ -0,0 +1,181 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Copy, KeyRound, Loader2 } from 'lucide-react';
+import type { UserRole } from '@prisma/client';
+import { issueKey } from '@/app/(dashboard)/settings/actions';
+import { FormField } from '@/components/form-field';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import { useEnumLabel } from '@/lib/i18n/labels';
+import { apiScopes, hasPermission, type ApiScope } from '@/lib/permissions';
+
+export interface ApiKeyUserOption {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  organization: string | null;
+}
+
+type FieldErrors = Record<string, string[] | undefined>;
+
+// Issues a key for one user. Only scopes that user's role allows can be
+// ticked, and the new key is shown here once, for copying to the partner.
+export function ApiKeyForm({ users }: { users: ApiKeyUserOption[] }) {
+  const t = useTranslations('settings.apiKeys');
+  const enumLabel = useEnumLabel();
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const [name, setName] = useState('');
+  const [userId, setUserId] = useState('');
+  const [organization, setOrganization] = useState('');
+  const [scopes, setScopes] = useState<ApiScope[]>([]);
+  const [rateLimit, setRateLimit] = useState('60');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [issued, setIssued] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const selectedUser = users.find((user) => user.id === userId);
+  const allowed = (scope: ApiScope) => !!selectedUser && hasPermission(selectedUser.role, scope);
+
+  const chooseUser = (id: string) => {
+    setUserId(id);
+    const user = users.find((u) => u.id === id);
+    if (user?.organization && !organization) setOrganization(user.organization);
+    // Drop anything the new user's role doesn't allow.
+    setScopes((current) => current.filter((scope) => !!user && hasPermission(user.role, scope)));
+  };
+
+  const toggleScope = (scope: ApiScope, checked: boolean) =>
+    setScopes((current) => (checked ? [...current, scope] : current.filter((s) => s !== scope)));
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setFieldErrors({});
+    setCopied(false);
+    startTransition(async () => {
+      const result = await issueKey({
+        name,
+        userId,
+        organization,
+        scopes,
+        rateLimit,
+        expiresAt: expiresAt || null,
+      });
+      if (!result.success) {
+        setError(result.error);
+        setFieldErrors(result.fieldErrors ?? {});
+        return;
+      }
+      setIssued(result.data.key);
+      setName('');
+      setScopes([]);
+      router.refresh();
+    });
+  };
+
+  const fieldError = (field: string) => fieldErrors[field]?.[0];
+
+  return (
+    <div className="space-y-4">
+      {issued && (
+        <div role="status" className="space-y-2 rounded-md border border-green-600/40 bg-green-50 p-3 text-sm text-green-900">
+          <p className="font-medium">{t('issued')}</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 break-all rounded bg-white px-2 py-1 font-mono text-xs">{issued}</code>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => navigator.clipboard.writeText(issued).then(() => setCopied(true))}
+            >
+              <Copy className="mr-2 h-4 w-4" />
+              {copied ? t('copied') : t('copy')}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={onSubmit} noValidate className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField label={t('name')} htmlFor="apiKeyName" error={fieldError('name')} hint={t('nameHint')} required>
+            <Input id="apiKeyName" value={name} onChange={(e) => setName(e.target.value)} maxLength={100} />
+          </FormField>
+          <FormField label={t('user')} htmlFor="apiKeyUser" error={fieldError('userId')} hint={t('userHint')} required>
+            <NativeSelect id="apiKeyUser" value={userId} onChange={(e) => chooseUser(e.target.value)}>
+              <option value="">{t('chooseUser')}</option>
+              {users.map((user) => (
+                <option key={user.id} value={user.id}>
+                  {user.name} ({user.email}) · {enumLabel(user.role)}
+                </option>
+              ))}
+            </NativeSelect>
+          </FormField>
+          <FormField label={t('organization')} htmlFor="apiKeyOrganization" error={fieldError('organization')} required>
+            <Input
+              id="apiKeyOrganization"
+              value={organization}
+              onChange={(e) => setOrganization(e.target.value)}
+              maxLength={100}
+            />
+          </FormField>
+          <FormField label={t('rateLimit')} htmlFor="apiKeyRateLimit" error={fieldError('rateLimit')} hint={t('rateLimitHint')}>
+            <Input
+              id="apiKeyRateLimit"
+              type="number"
+              min={1}
+              max={1000}
+              value={rateLimit}
+              onChange={(e) => setRateLimit(e.target.value)}
+            />
+          </FormField>
+          <FormField label={t('expiresAt')} htmlFor="apiKeyExpiresAt" error={fieldError('expiresAt')} hint={t('expiresAtHint')}>
+            <Input id="apiKeyExpiresAt" type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} />
+          </FormField>
+        </div>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium">{t('scopes')}</legend>
+          <p className="text-xs text-muted-foreground">{selectedUser ? t('scopesHint') : t('chooseUserFirst')}</p>
+          <div className="grid gap-2 sm:grid-cols-2">
+            {apiScopes.map((scope) => (
+              <label
+                key={scope}
+                className="flex items-center gap-2 text-sm has-[:disabled]:cursor-not-allowed has-[:disabled]:opacity-50"
+              >
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(scope)}
+                  disabled={!allowed(scope)}
+                  onChange={(e) => toggleScope(scope, e.target.checked)}
+                />
+                <code className="font-mono text-xs">{scope}</code>
+              </label>
+            ))}
+          </div>
+          {fieldError('scopes') && <p className="text-sm text-destructive">{fieldError('scopes')}</p>}
+        </fieldset>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Button type="submit" disabled={isPending}>
+            {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+            {t('submit')}
+          </Button>
+          {error && (
+            <p role="alert" className="text-sm text-destructive">
+              {error}
+            </p>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
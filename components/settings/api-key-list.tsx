@@ -0,0 +1,136 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useLocale, useTranslations } from 'next-intl';
+import { Loader2 } from 'lucide-react';
+import { revokeKey } from '@/app/(dashboard)/settings/actions';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { ApiKeyListItem } from '@/lib/api/keys';
+import { formatDate, formatDateTime } from '@/lib/utils';
+
+function RevokeButton({ id }: { id: string }) {
+  const t = useTranslations('settings.apiKeys');
+  const tc = useTranslations('common');
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [confirming, setConfirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!confirming) {
+    return (
+      <Button size="sm" variant="outline" onClick={() => setConfirming(true)}>
+        {t('revoke')}
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-2">
+      <span className="text-xs text-muted-foreground">{t('confirmRevoke')}</span>
+      <Button
+        size="sm"
+        variant="destructive"
+        disabled={isPending}
+        onClick={() => {
+          setError(null);
+          startTransition(async () => {
+            const result = await revokeKey(id);
+            if (!result.success) {
+              setError(result.error);
+              return;
+            }
+            router.refresh();
+          });
+        }}
+      >
+        {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {t('revoke')}
+      </Button>
+      <Button size="sm" variant="ghost" onClick={() => setConfirming(false)} disabled={isPending}>
+        {tc('cancel')}
+      </Button>
+      {error && (
+        <p role="alert" className="w-full text-sm text-destructive">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function ApiKeyList({ apiKeys }: { apiKeys: ApiKeyListItem[] }) {
+  const t = useTranslations('settings.apiKeys');
+  const locale = useLocale();
+  // Fixed per render so every row compares against the same instant.
+  const [now] = useState(() => Date.now());
+
+  if (apiKeys.length === 0) {
+    return <p className="py-6 text-center text-sm text-muted-foreground">{t('empty')}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{t('key')}</TableHead>
+          <TableHead>{t('user')}</TableHead>
+          <TableHead>{t('scopes')}</TableHead>
+          <TableHead>{t('lastUsed')}</TableHead>
+          <TableHead>{t('status')}</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {apiKeys.map((apiKey) => {
+          const expired = !!apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= now;
+          return (
+            <TableRow key={apiKey.id}>
+              <TableCell>
+                <div className="font-medium">{apiKey.name}</div>
+                <div className="text-xs text-muted-foreground">{apiKey.organization}</div>
+                <code className="font-mono text-xs text-muted-foreground">{apiKey.prefix}…</code>
+              </TableCell>
+              <TableCell className="text-sm">
+                <div>{apiKey.user.name}</div>
+                <div className="text-xs text-muted-foreground">{apiKey.user.email}</div>
+              </TableCell>
+              <TableCell>
+                <div className="flex max-w-xs flex-wrap gap-1">
+                  {apiKey.scopes.map((scope) => (
+                    <Badge key={scope} variant="outline" className="font-mono text-[10px]">
+                      {scope}
+                    </Badge>
+                  ))}
+                </div>
+                <div className="mt-1 text-xs text-muted-foreground">{t('perMinute', { count: apiKey.rateLimit })}</div>
+              </TableCell>
+              <TableCell className="text-sm text-muted-foreground">
+                {apiKey.lastUsedAt ? formatDateTime(apiKey.lastUsedAt, locale) : t('never')}
+              </TableCell>
+              <TableCell>
+                {apiKey.revokedAt ? (
+                  <Badge variant="destructive">{t('revokedOn', { date: formatDate(apiKey.revokedAt, locale) })}</Badge>
+                ) : expired ? (
+                  <Badge variant="secondary">{t('expired')}</Badge>
+                ) : (
+                  <div className="space-y-1">
+                    <Badge>{t('active')}</Badge>
+                    {apiKey.expiresAt && (
+                      <div className="text-xs text-muted-foreground">
+                        {t('expires', { date: formatDate(apiKey.expiresAt, locale) })}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </TableCell>
+              <TableCell className="text-right">{!apiKey.revokedAt && <RevokeButton id={apiKey.id} />}</TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useLocale, useTranslations } from 'next-intl';
+import { Loader2 } from 'lucide-react';
+import { updatePreferences } from '@/app/(dashboard)/settings/actions';
+import { FormField } from '@/components/form-field';
+import { Button } from '@/components/ui/button';
+import { NativeSelect } from '@/components/ui/native-select';
+import { isLocale, localeNames, locales, type Locale } from '@/lib/i18n/config';
+
+export function LanguageForm() {
+  const t = useTranslations();
+  const router = useRouter();
+  const current = useLocale();
+  const [isPending, startTransition] = useTransition();
+  const [locale, setLocale] = useState<Locale>(isLocale(current) ? current : locales[0]);
+  const [error, setError] = useState<string | null>(null);
+
+  return (
+    <form
+      className="flex flex-col gap-4 sm:flex-row sm:items-end"
+      onSubmit={(e) => {
+        e.preventDefault();
+        setError(null);
+        startTransition(async () => {
+          const result = await updatePreferences({ locale });
+          if (!result.success) {
+            setError(result.error);
+            return;
+          }
+          router.refresh();
+        });
+      }}
+    >
+      <FormField label={t('settings.language')} htmlFor="locale" className="sm:w-64">
+        <NativeSelect id="locale" value={locale} onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}>
+          {locales.map((value) => (
+            <option key={value} value={value} lang={value}>
+              {localeNames[value]}
+            </option>
+          ))}
+        </NativeSelect>
+      </FormField>
+      <Button type="submit" disabled={isPending || locale === current}>
+        {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {t('common.save')}
+      </Button>
+      {error && (
+        <p role="alert" className="text-sm text-destructive">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+}
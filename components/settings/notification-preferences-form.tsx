@@ -0,0 +1,95 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useTranslations } from 'next-intl';
+import { Loader2 } from 'lucide-react';
+import type { NotificationType } from '@prisma/client';
+import { updateNotificationPreferences } from '@/app/(dashboard)/settings/actions';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { NotificationChannels } from '@/lib/notifications/types';
+
+type Channel = keyof NotificationChannels;
+
+interface NotificationPreferencesFormProps {
+  // The types that apply to the user's role, in order.
+  types: NotificationType[];
+  preferences: Record<NotificationType, NotificationChannels>;
+}
+
+export function NotificationPreferencesForm({ types, preferences: initial }: NotificationPreferencesFormProps) {
+  const t = useTranslations('settings.notifications');
+  const tc = useTranslations('common');
+  const [isPending, startTransition] = useTransition();
+  const [preferences, setPreferences] = useState(initial);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const toggle = (type: NotificationType, channel: Channel, checked: boolean) => {
+    setSaved(false);
+    setPreferences((current) => ({ ...current, [type]: { ...current[type], [channel]: checked } }));
+  };
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        setError(null);
+        startTransition(async () => {
+          const result = await updateNotificationPreferences({
+            preferences: types.map((type) => ({ type, ...preferences[type] })),
+          });
+          if (!result.success) {
+            setError(result.error);
+            return;
+          }
+          setSaved(true);
+        });
+      }}
+    >
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{t('type')}</TableHead>
+            <TableHead className="w-24 text-center">{t('inApp')}</TableHead>
+            <TableHead className="w-24 text-center">{t('email')}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {types.map((type) => (
+            <TableRow key={type}>
+              <TableCell>
+                <div className="font-medium">{t(`types.${type}.label`)}</div>
+                <div className="text-xs text-muted-foreground">{t(`types.${type}.hint`)}</div>
+              </TableCell>
+              {(['inApp', 'email'] as const).map((channel) => (
+                <TableCell key={channel} className="text-center">
+                  <input
+                    type="checkbox"
+                    aria-label={`${t(`types.${type}.label`)}: ${t(channel)}`}
+                    checked={preferences[type][channel]}
+                    onChange={(e) => toggle(type, channel, e.target.checked)}
+                  />
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Button type="submit" disabled={isPending}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {tc('save')}
+        </Button>
+        {saved && <p className="text-sm text-muted-foreground">{t('saved')}</p>}
+        {error && (
+          <p role="alert" className="text-sm text-destructive">
+            {error}
+          </p>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Loader2, RotateCw } from 'lucide-react';
+import { redeliver } from '@/app/(dashboard)/settings/webhooks/actions';
+import { Button } from '@/components/ui/button';
+import type { AttemptResult } from '@/lib/webhooks/delivery';
+import { WebhookAttemptOutcome } from './webhook-attempt-outcome';
+
+export function RedeliverButton({ endpointId, deliveryId }: { endpointId: string; deliveryId: string }) {
+  const t = useTranslations('webhooks');
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [outcome, setOutcome] = useState<AttemptResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <Button
+        size="sm"
+        variant="outline"
+        disabled={isPending}
+        onClick={() => {
+          setError(null);
+          setOutcome(null);
+          startTransition(async () => {
+            const result = await redeliver(endpointId, deliveryId);
+            if (!result.success) {
+              setError(result.error);
+              return;
+            }
+            setOutcome(result.data);
+            router.refresh();
+          });
+        }}
+      >
+        {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCw className="mr-2 h-4 w-4" />}
+        {t('redeliver')}
+      </Button>
+      {outcome && <WebhookAttemptOutcome outcome={outcome} />}
+      {error && (
+        <p role="alert" className="text-sm text-destructive">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import { useTranslations } from 'next-intl';
+import type { AttemptResult } from '@/lib/webhooks/delivery';
+
+// How an attempt made from the settings page went, next to its button.
+export function WebhookAttemptOutcome({ outcome }: { outcome: AttemptResult }) {
+  const t = useTranslations('webhooks');
+  const detail = outcome.responseStatus !== null ? t('httpStatus', { status: outcome.responseStatus }) : outcome.error;
+
+  return (
+    <p role="status" className={outcome.ok ? 'text-sm text-green-700' : 'text-sm text-destructive'}>
+      {outcome.ok ? t('attemptSucceeded', { detail: detail ?? '' }) : t('attemptFailed', { detail: detail ?? '' })}
+    </p>
+  );
+}
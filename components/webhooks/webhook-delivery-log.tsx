@@ -0,0 +1,86 @@
+import { useLocale, useTranslations } from 'next-intl';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { WebhookDeliveryListItem } from '@/lib/webhooks/endpoints';
+import { formatDateTime } from '@/lib/utils';
+import { RedeliverButton } from './redeliver-button';
+import { WebhookDeliveryStatusBadge } from './webhook-delivery-status-badge';
+
+// Each delivery with its attempts, newest first, and the payload it carries.
+export function WebhookDeliveryLog({ endpointId, deliveries }: { endpointId: string; deliveries: WebhookDeliveryListItem[] }) {
+  const t = useTranslations('webhooks');
+  const locale = useLocale();
+
+  if (deliveries.length === 0) {
+    return <p className="py-6 text-center text-sm text-muted-foreground">{t('noDeliveries')}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{t('event')}</TableHead>
+          <TableHead>{t('status')}</TableHead>
+          <TableHead>{t('attempts')}</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {deliveries.map((delivery) => (
+          <TableRow key={delivery.id} className="align-top">
+            <TableCell>
+              <code className="font-mono text-xs">{delivery.event}</code>
+              <div className="text-xs text-muted-foreground">{formatDateTime(delivery.createdAt, locale)}</div>
+              <details className="mt-1">
+                <summary className="cursor-pointer text-xs text-primary">{t('payload')}</summary>
+                <pre className="mt-1 max-h-64 max-w-md overflow-auto rounded bg-muted p-2 text-[11px]">
+                  {JSON.stringify(delivery.payload, null, 2)}
+                </pre>
+              </details>
+            </TableCell>
+            <TableCell>
+              <WebhookDeliveryStatusBadge status={delivery.status} />
+              {delivery.status === 'PENDING' && delivery.attemptCount > 0 && (
+                <div className="mt-1 text-xs text-muted-foreground">
+                  {t('nextAttempt', { time: formatDateTime(delivery.nextAttemptAt, locale) })}
+                </div>
+              )}
+              {delivery.deliveredAt && (
+                <div className="mt-1 text-xs text-muted-foreground">{formatDateTime(delivery.deliveredAt, locale)}</div>
+              )}
+            </TableCell>
+            <TableCell>
+              {delivery.attempts.length === 0 ? (
+                <span className="text-sm text-muted-foreground">{t('notAttempted')}</span>
+              ) : (
+                <ul className="space-y-1 text-xs">
+                  {delivery.attempts.map((attempt) => (
+                    <li key={attempt.id}>
+                      <span className="text-muted-foreground">{formatDateTime(attempt.attemptedAt, locale)}</span>{' '}
+                      <span
+                        className={
+                          attempt.responseStatus !== null && attempt.responseStatus >= 200 && attempt.responseStatus < 300
+                            ? 'font-mono text-green-700'
+                            : 'font-mono text-destructive'
+                        }
+                      >
+                        {attempt.responseStatus ?? t('noResponse')}
+                      </span>{' '}
+                      <span className="text-muted-foreground">{t('duration', { ms: attempt.durationMs })}</span>
+                      {attempt.error && <div className="text-destructive">{attempt.error}</div>}
+                      {attempt.responseBody && (
+                        <div className="max-w-xs truncate font-mono text-muted-foreground">{attempt.responseBody}</div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </TableCell>
+            <TableCell className="text-right">
+              <RedeliverButton endpointId={endpointId} deliveryId={delivery.id} />
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,14 @@
+import type { WebhookDeliveryStatus } from '@prisma/client';
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import { useEnumLabel } from '@/lib/i18n/labels';
+
+const variants: Record<WebhookDeliveryStatus, BadgeProps['variant']> = {
+  PENDING: 'outline',
+  DELIVERED: 'default',
+  FAILED: 'destructive',
+};
+
+export function WebhookDeliveryStatusBadge({ status }: { status: WebhookDeliveryStatus }) {
+  const enumLabel = useEnumLabel();
+  return <Badge variant={variants[status]}>{enumLabel(status)}</Badge>;
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { KeyRound, Loader2, Power, Send, Trash2 } from 'lucide-react';
+import {
+  deleteEndpoint,
+  rotateSecret,
+  sendTest,
+  setEndpointEnabled,
+} from '@/app/(dashboard)/settings/webhooks/actions';
+import { Button } from '@/components/ui/button';
+import type { AttemptResult } from '@/lib/webhooks/delivery';
+import { WebhookAttemptOutcome } from './webhook-attempt-outcome';
+import { WebhookSecret } from './webhook-secret';
+
+type Confirming = 'rotate' | 'delete' | null;
+
+export function WebhookEndpointControls({ endpointId, enabled }: { endpointId: string; enabled: boolean }) {
+  const t = useTranslations('webhooks');
+  const tc = useTranslations('common');
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [confirming, setConfirming] = useState<Confirming>(null);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [outcome, setOutcome] = useState<AttemptResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = (action: () => Promise<void>) => {
+    setError(null);
+    startTransition(action);
+  };
+
+  const toggleEnabled = () =>
+    run(async () => {
+      const result = await setEndpointEnabled(endpointId, !enabled);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      router.refresh();
+    });
+
+  const test = () =>
+    run(async () => {
+      setOutcome(null);
+      const result = await sendTest(endpointId);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      setOutcome(result.data);
+      router.refresh();
+    });
+
+  const rotate = () =>
+    run(async () => {
+      const result = await rotateSecret(endpointId);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      setSecret(result.data.secret);
+      setConfirming(null);
+    });
+
+  const remove = () =>
+    run(async () => {
+      const result = await deleteEndpoint(endpointId);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      router.push('/settings/webhooks');
+    });
+
+  return (
+    <div className="space-y-4">
+      {secret && <WebhookSecret secret={secret} />}
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={test} disabled={isPending}>
+          <Send className="mr-2 h-4 w-4" />
+          {t('sendTest')}
+        </Button>
+        <Button variant="outline" size="sm" onClick={toggleEnabled} disabled={isPending}>
+          <Power className="mr-2 h-4 w-4" />
+          {enabled ? t('disable') : t('enable')}
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setConfirming('rotate')} disabled={isPending}>
+          <KeyRound className="mr-2 h-4 w-4" />
+          {t('rotateSecret')}
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setConfirming('delete')} disabled={isPending}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          {t('delete')}
+        </Button>
+        {isPending && <Loader2 className="h-4 w-4 animate-spin self-center text-muted-foreground" />}
+      </div>
+
+      {outcome && <WebhookAttemptOutcome outcome={outcome} />}
+
+      {confirming && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-muted-foreground">
+            {confirming === 'rotate' ? t('confirmRotate') : t('confirmDelete')}
+          </span>
+          <Button
+            size="sm"
+            variant="destructive"
+            disabled={isPending}
+            onClick={confirming === 'rotate' ? rotate : remove}
+          >
+            {confirming === 'rotate' ? t('rotateSecret') : t('delete')}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setConfirming(null)} disabled={isPending}>
+            {tc('cancel')}
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <p role="alert" className="text-sm text-destructive">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
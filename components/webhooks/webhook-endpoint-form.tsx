@@ -0,0 +1,141 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Loader2, Save, Webhook } from 'lucide-react';
+import { createEndpoint, updateEndpoint } from '@/app/(dashboard)/settings/webhooks/actions';
+import { FormField } from '@/components/form-field';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { webhookEvents, type WebhookEvent } from '@/lib/webhooks/events';
+import { WebhookSecret } from './webhook-secret';
+
+type FieldErrors = Record<string, string[] | undefined>;
+
+interface WebhookEndpointFormProps {
+  // Editing an existing endpoint; without it the form adds a new one.
+  endpoint?: { id: string; name: string; url: string; events: string[] };
+}
+
+export function WebhookEndpointForm({ endpoint }: WebhookEndpointFormProps) {
+  const t = useTranslations('webhooks');
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const [name, setName] = useState(endpoint?.name ?? '');
+  const [url, setUrl] = useState(endpoint?.url ?? '');
+  const [events, setEvents] = useState<string[]>(endpoint?.events ?? []);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [saved, setSaved] = useState(false);
+  const [created, setCreated] = useState<{ id: string; secret: string } | null>(null);
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) =>
+    setEvents((current) => (checked ? [...current, event] : current.filter((e) => e !== event)));
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setFieldErrors({});
+    setSaved(false);
+    startTransition(async () => {
+      const input = { name, url, events };
+      if (endpoint) {
+        const result = await updateEndpoint(endpoint.id, input);
+        if (!result.success) {
+          setError(result.error);
+          setFieldErrors(result.fieldErrors ?? {});
+          return;
+        }
+        setSaved(true);
+      } else {
+        const result = await createEndpoint(input);
+        if (!result.success) {
+          setError(result.error);
+          setFieldErrors(result.fieldErrors ?? {});
+          return;
+        }
+        setCreated(result.data);
+        setName('');
+        setUrl('');
+        setEvents([]);
+      }
+      router.refresh();
+    });
+  };
+
+  const fieldError = (field: string) => fieldErrors[field]?.[0];
+
+  return (
+    <div className="space-y-4">
+      {created && (
+        <div className="space-y-2">
+          <WebhookSecret secret={created.secret} />
+          <Link href={`/settings/webhooks/${created.id}`} className="text-sm text-primary hover:underline">
+            {t('openCreated')}
+          </Link>
+        </div>
+      )}
+
+      <form onSubmit={onSubmit} noValidate className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField label={t('name')} htmlFor="webhookName" error={fieldError('name')} hint={t('nameHint')} required>
+            <Input id="webhookName" value={name} onChange={(e) => setName(e.target.value)} maxLength={100} />
+          </FormField>
+          <FormField label={t('url')} htmlFor="webhookUrl" error={fieldError('url')} hint={t('urlHint')} required>
+            <Input
+              id="webhookUrl"
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://"
+              maxLength={2000}
+            />
+          </FormField>
+        </div>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium">{t('events')}</legend>
+          <div className="grid gap-2 sm:grid-cols-3">
+            {webhookEvents.map((event) => (
+              <label key={event} className="flex items-start gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={events.includes(event)}
+                  onChange={(e) => toggleEvent(event, e.target.checked)}
+                />
+                <span>
+                  <code className="font-mono text-xs">{event}</code>
+                  <span className="block text-xs text-muted-foreground">{t(`eventDescriptions.${event}`)}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          {fieldError('events') && <p className="text-sm text-destructive">{fieldError('events')}</p>}
+        </fieldset>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Button type="submit" disabled={isPending}>
+            {isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : endpoint ? (
+              <Save className="mr-2 h-4 w-4" />
+            ) : (
+              <Webhook className="mr-2 h-4 w-4" />
+            )}
+            {endpoint ? t('save') : t('add')}
+          </Button>
+          {saved && <p className="text-sm text-muted-foreground">{t('saved')}</p>}
+          {error && (
+            <p role="alert" className="text-sm text-destructive">
+              {error}
+            </p>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import Link from 'next/link';
+import { useLocale, useTranslations } from 'next-intl';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { WebhookEndpointListItem } from '@/lib/webhooks/endpoints';
+import { formatDateTime } from '@/lib/utils';
+import { WebhookDeliveryStatusBadge } from './webhook-delivery-status-badge';
+
+export function WebhookEndpointList({ endpoints }: { endpoints: WebhookEndpointListItem[] }) {
+  const t = useTranslations('webhooks');
+  const locale = useLocale();
+
+  if (endpoints.length === 0) {
+    return <p className="py-6 text-center text-sm text-muted-foreground">{t('empty')}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{t('endpoint')}</TableHead>
+          <TableHead>{t('events')}</TableHead>
+          <TableHead>{t('lastDelivery')}</TableHead>
+          <TableHead>{t('status')}</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {endpoints.map((endpoint) => (
+          <TableRow key={endpoint.id}>
+            <TableCell>
+              <Link href={`/settings/webhooks/${endpoint.id}`} className="font-medium hover:underline">
+                {endpoint.name}
+              </Link>
+              <div className="max-w-xs truncate font-mono text-xs text-muted-foreground">{endpoint.url}</div>
+            </TableCell>
+            <TableCell>
+              <div className="flex max-w-xs flex-wrap gap-1">
+                {endpoint.events.map((event) => (
+                  <Badge key={event} variant="outline" className="font-mono text-[10px]">
+                    {event}
+                  </Badge>
+                ))}
+              </div>
+            </TableCell>
+            <TableCell className="text-sm text-muted-foreground">
+              {endpoint.lastDelivery ? (
+                <div className="space-y-1">
+                  <WebhookDeliveryStatusBadge status={endpoint.lastDelivery.status} />
+                  <div className="text-xs">{formatDateTime(endpoint.lastDelivery.createdAt, locale)}</div>
+                </div>
+              ) : (
+                t('never')
+              )}
+            </TableCell>
+            <TableCell>
+              {endpoint.enabled ? (
+                <div className="space-y-1">
+                  <Badge>{t('enabled')}</Badge>
+                  {endpoint.consecutiveFailures > 0 && (
+                    <div className="text-xs text-muted-foreground">
+                      {t('failuresInARow', { count: endpoint.consecutiveFailures })}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-1">
+                  <Badge variant="secondary">{t('disabled')}</Badge>
+                  {endpoint.disabledReason && (
+                    <div className="text-xs text-muted-foreground">{endpoint.disabledReason}</div>
+                  )}
+                </div>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
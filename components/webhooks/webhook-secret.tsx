@@ -0,0 +1,30 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Copy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+// A signing secret, shown once after it's generated.
+export function WebhookSecret({ secret }: { secret: string }) {
+  const t = useTranslations('webhooks');
+  const [copied, setCopied] = useState(false);
+
+  return (
+    <div role="status" className="space-y-2 rounded-md border border-green-600/40 bg-green-50 p-3 text-sm text-green-900">
+      <p className="font-medium">{t('secretShownOnce')}</p>
+      <div className="flex items-center gap-2">
+        <code className="flex-1 break-all rounded bg-white px-2 py-1 font-mono text-xs">{secret}</code>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => navigator.clipboard.writeText(secret).then(() => setCopied(true))}
+        >
+          <Copy className="mr-2 h-4 w-4" />
+          {copied ? t('copied') : t('copy')}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import { z } from 'zod';
+import { makeZodErrorMap } from '@/lib/i18n/zod';
+
+// Forms check their input in the browser with the same schemas the server
+// uses; this has them word their errors in the user's language. It's set in
+// an effect so the server's zod, shared by every request, is left alone.
+export function ZodErrorMessages() {
+  const t = useTranslations('validation');
+  useEffect(() => {
+    z.setErrorMap(makeZodErrorMap(t));
+  }, [t]);
+  return null;
+}
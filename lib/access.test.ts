@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const counts = vi.hoisted(() => ({ beneficiary: vi.fn(), case: vi.fn(), distributionEvent: vi.fn(), programme: vi.fn() }));
+vi.mock('./prisma', () => ({
+  prisma: Object.fromEntries(Object.entries(counts).map(([model, count]) => [model, { count }])),
+}));
+
+import {
+  beneficiaryScope,
+  canAccessBeneficiary,
+  canAccessCase,
+  canAccessProgramme,
+  caseScope,
+  distributionEventScope,
+  programmeScope,
+  serviceScope,
+  type Actor,
+} from './access';
+
+const superAdmin: Actor = { id: 'u-super', role: 'SUPER_ADMIN', branchId: 'kl' };
+const admin: Actor = { id: 'u-admin', role: 'ADMIN', branchId: 'kl' };
+const staff: Actor = { id: 'u-staff', role: 'STAFF', branchId: 'penang' };
+const fieldWorker: Actor = { id: 'u-field', role: 'FIELD_WORKER', branchId: 'kl' };
+const volunteer: Actor = { id: 'u-volunteer', role: 'VOLUNTEER', branchId: 'kl' };
+
+beforeEach(() => {
+  Object.values(counts).forEach((count) => count.mockReset().mockResolvedValue(1));
+});
+
+describe('scopes', () => {
+  it('let a super admin see every branch', () => {
+    expect(beneficiaryScope(superAdmin)).toEqual({});
+    expect(caseScope(superAdmin)).toEqual({});
+    expect(serviceScope(superAdmin)).toEqual({});
+    expect(programmeScope(superAdmin)).toEqual({});
+  });
+
+  it('keep admins and staff to their own branch', () => {
+    expect(beneficiaryScope(admin)).toEqual({ branchId: 'kl' });
+    expect(caseScope(staff)).toEqual({ branchId: 'penang' });
+    expect(serviceScope(staff)).toEqual({ branchId: 'penang' });
+    expect(distributionEventScope(admin)).toEqual({ branchId: 'kl' });
+    expect(programmeScope(staff)).toEqual({ branchId: 'penang' });
+  });
+
+  it('keep field workers and volunteers to the records they were given, in their branch', () => {
+    expect(beneficiaryScope(fieldWorker)).toEqual({
+      branchId: 'kl',
+      OR: [{ assignedToId: 'u-field' }, { cases: { some: { assignedTo: { some: { id: 'u-field' } } } } }],
+    });
+    expect(caseScope(volunteer)).toEqual({ branchId: 'kl', assignedTo: { some: { id: 'u-volunteer' } } });
+    expect(serviceScope(fieldWorker)).toEqual({ branchId: 'kl', beneficiary: beneficiaryScope(fieldWorker) });
+    expect(distributionEventScope(volunteer)).toEqual({ branchId: 'kl', createdById: 'u-volunteer' });
+    // Programmes are the branch's, not the worker's.
+    expect(programmeScope(fieldWorker)).toEqual({ branchId: 'kl' });
+  });
+});
+
+describe('access checks', () => {
+  it("don't query for a super admin", async () => {
+    expect(await canAccessBeneficiary(superAdmin, 'b1')).toBe(true);
+    expect(await canAccessCase(superAdmin, 'c1')).toBe(true);
+    expect(await canAccessProgramme(superAdmin, 'p1')).toBe(true);
+    Object.values(counts).forEach((count) => expect(count).not.toHaveBeenCalled());
+  });
+
+  it("look the record up within the actor's scope", async () => {
+    expect(await canAccessBeneficiary(admin, 'b1')).toBe(true);
+    expect(counts.beneficiary).toHaveBeenCalledWith({ where: { AND: [{ id: 'b1' }, { branchId: 'kl' }] } });
+
+    await canAccessCase(fieldWorker, 'c1');
+    expect(counts.case).toHaveBeenCalledWith({ where: { AND: [{ id: 'c1' }, caseScope(fieldWorker)] } });
+  });
+
+  it('refuse a record outside the scope', async () => {
+    counts.beneficiary.mockResolvedValue(0);
+    counts.programme.mockResolvedValue(0);
+    expect(await canAccessBeneficiary(staff, 'kl-beneficiary')).toBe(false);
+    expect(await canAccessProgramme(staff, 'kl-programme')).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import type { Prisma, UserRole } from '@prisma/client';
+import { prisma } from './prisma';
+import { isRecordScoped, seesAllBranches } from './permissions';
+
+export interface Actor {
+  id: string;
+  role: UserRole;
+  branchId: string;
+}
+
+// Every query that lists or loads beneficiaries, cases or services for a user
+// is AND-ed with these: records in the user's branch, unless they see every
+// branch, and for roles in recordScopedRoles only the records they have been
+// given.
+
+function branchScope(actor: Actor): { branchId?: string } {
+  return seesAllBranches(actor.role) ? {} : { branchId: actor.branchId };
+}
+
+// A field worker also needs the beneficiary behind a case they're assigned to,
+// even when someone else is the beneficiary's primary worker.
+export function beneficiaryScope(actor: Actor): Prisma.BeneficiaryWhereInput {
+  if (!isRecordScoped(actor.role)) return branchScope(actor);
+  return {
+    ...branchScope(actor),
+    OR: [{ assignedToId: actor.id }, { cases: { some: { assignedTo: { some: { id: actor.id } } } } }],
+  };
+}
+
+export function caseScope(actor: Actor): Prisma.CaseWhereInput {
+  if (!isRecordScoped(actor.role)) return branchScope(actor);
+  return { ...branchScope(actor), assignedTo: { some: { id: actor.id } } };
+}
+
+export function serviceScope(actor: Actor): Prisma.ServiceWhereInput {
+  if (!isRecordScoped(actor.role)) return branchScope(actor);
+  return { ...branchScope(actor), beneficiary: beneficiaryScope(actor) };
+}
+
+// Scoped roles log distribution events but only see the ones they ran.
+export function distributionEventScope(actor: Actor): Prisma.DistributionEventWhereInput {
+  if (!isRecordScoped(actor.role)) return branchScope(actor);
+  return { ...branchScope(actor), createdById: actor.id };
+}
+
+// Programmes are run by a branch, and everyone in it sees them.
+export function programmeScope(actor: Actor): Prisma.ProgrammeWhereInput {
+  return branchScope(actor);
+}
+
+// The colleagues an actor picks from, e.g. in a "assigned to" filter.
+export function userScope(actor: Actor): Prisma.UserWhereInput {
+  return branchScope(actor);
+}
+
+// Whether the actor is limited at all, so the checks below can skip the query.
+function isScoped(actor: Actor): boolean {
+  return !seesAllBranches(actor.role) || isRecordScoped(actor.role);
+}
+
+export async function canAccessBeneficiary(actor: Actor, beneficiaryId: string): Promise<boolean> {
+  if (!isScoped(actor)) return true;
+  const count = await prisma.beneficiary.count({
+    where: { AND: [{ id: beneficiaryId }, beneficiaryScope(actor)] },
+  });
+  return count > 0;
+}
+
+export async function canAccessCase(actor: Actor, caseId: string): Promise<boolean> {
+  if (!isScoped(actor)) return true;
+  const count = await prisma.case.count({ where: { AND: [{ id: caseId }, caseScope(actor)] } });
+  return count > 0;
+}
+
+export async function canAccessDistributionEvent(actor: Actor, eventId: string): Promise<boolean> {
+  if (!isScoped(actor)) return true;
+  const count = await prisma.distributionEvent.count({
+    where: { AND: [{ id: eventId }, distributionEventScope(actor)] },
+  });
+  return count > 0;
+}
+
+export async function canAccessProgramme(actor: Actor, programmeId: string): Promise<boolean> {
+  if (seesAllBranches(actor.role)) return true;
+  const count = await prisma.programme.count({ where: { AND: [{ id: programmeId }, programmeScope(actor)] } });
+  return count > 0;
+}
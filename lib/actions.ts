@@ -0,0 +1,54 @@
+import type { ZodError } from 'zod';
+import { getTranslations } from 'next-intl/server';
+import type { ErrorKey, ErrorValues, LocalizedError } from './i18n/errors';
+import { translateZodIssue } from './i18n/zod';
+
+// Shape returned by every server action so forms can render per-field errors
+// without having to catch thrown exceptions.
+export type ActionResult<T = undefined> =
+  | { success: true; data: T }
+  | { success: false; error: string; fieldErrors?: Record<string, string[] | undefined> };
+
+// Field errors in the user's language, keyed by top-level field like
+// ZodError.flatten().
+export async function validationFailure(error: ZodError): Promise<ActionResult<never>> {
+  const t = await getTranslations('validation');
+  const fieldErrors: Record<string, string[]> = {};
+  for (const issue of error.issues) {
+    const field = issue.path[0];
+    if (field === undefined) continue;
+    (fieldErrors[field] ??= []).push(translateZodIssue(issue, t));
+  }
+  return { success: false, error: t('fixHighlighted'), fieldErrors };
+}
+
+// The first problem, for inputs that aren't a form.
+export async function describeValidationError(error: ZodError): Promise<string> {
+  const t = await getTranslations('validation');
+  return error.issues[0] ? translateZodIssue(error.issues[0], t) : t('invalid');
+}
+
+// A failure the action found itself, in the user's language. With `field` it
+// is shown against that field as well.
+export async function actionFailure(
+  key: ErrorKey,
+  { values, field }: { values?: ErrorValues; field?: string } = {}
+): Promise<ActionResult<never>> {
+  const t = await getTranslations('errors');
+  const error = t(key, values);
+  return field ? { success: false, error, fieldErrors: { [field]: [error] } } : { success: false, error };
+}
+
+// A LocalizedError thrown by the code an action called.
+export function localizedFailure(error: LocalizedError, field?: string): Promise<ActionResult<never>> {
+  return actionFailure(error.key, { values: error.values, field });
+}
+
+export function isUniqueConstraintError(error: unknown, field?: string): boolean {
+  if (typeof error !== 'object' || error === null) return false;
+  const { code, meta } = error as { code?: string; meta?: { target?: string[] | string } };
+  if (code !== 'P2002') return false;
+  if (!field) return true;
+  const target = meta?.target;
+  return Array.isArray(target) ? target.includes(field) : typeof target === 'string' && target.includes(field);
+}
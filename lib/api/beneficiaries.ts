@@ -0,0 +1,166 @@
+import type { Branch, Country, Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { beneficiaryScope, canAccessBeneficiary, type Actor } from '../access';
+import { isUniqueConstraintError } from '../actions';
+import {
+  buildBeneficiaryOrderBy,
+  buildBeneficiaryWhere,
+  editedCustomFields,
+  parseBeneficiaryListParams,
+  registerBeneficiary,
+  toBeneficiaryData,
+} from '../beneficiaries';
+import { beneficiaryCountry, resolveBranch } from '../branches';
+import { getCustomFields } from '../custom-fields/definitions';
+import { toCustomFieldValues } from '../custom-fields/values';
+import { maskSensitiveFields } from '../permissions';
+import type { SearchParams } from '../utils';
+import type { BeneficiaryInput } from '../validation';
+import { ApiError, notFound, parseApiListParams } from './handler';
+import { apiKeyCan, type AuthenticatedApiKey } from './keys';
+
+// Everything a partner can read about a beneficiary. Blind indexes, photos and
+// the erasure marker stay internal.
+export const apiBeneficiarySelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  dateOfBirth: true,
+  gender: true,
+  nationality: true,
+  idNumber: true,
+  phone: true,
+  email: true,
+  address: true,
+  city: true,
+  state: true,
+  postcode: true,
+  emergencyName: true,
+  emergencyPhone: true,
+  emergencyRelation: true,
+  category: true,
+  status: true,
+  priority: true,
+  monthlyIncome: true,
+  notes: true,
+  tags: true,
+  customFields: true,
+  source: true,
+  assignedToId: true,
+  branchId: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.BeneficiarySelect;
+
+type ApiBeneficiary = Prisma.BeneficiaryGetPayload<{ select: typeof apiBeneficiarySelect }>;
+
+function present(record: ApiBeneficiary, apiKey: AuthenticatedApiKey) {
+  const beneficiary = {
+    ...record,
+    // Decimal would otherwise be serialized as a string.
+    monthlyIncome: record.monthlyIncome === null ? null : Number(record.monthlyIncome),
+    customFields: toCustomFieldValues(record.customFields),
+  };
+  return apiKeyCan(apiKey, 'beneficiary:read_sensitive') ? beneficiary : maskSensitiveFields(beneficiary);
+}
+
+function idNumberTaken(): ApiError {
+  const message = 'A beneficiary with this IC / passport number is already registered';
+  return new ApiError(409, 'id_number_taken', message, { idNumber: [message] });
+}
+
+// The same filters as the beneficiary list page (q, status, category,
+// priority, tags, state, assignedToId, cf.<key>, sort, order) plus the API's
+// paging.
+export async function listApiBeneficiaries(searchParams: SearchParams, apiKey: AuthenticatedApiKey, actor: Actor) {
+  const filters = parseBeneficiaryListParams(searchParams);
+  const paging = parseApiListParams(searchParams);
+  const where: Prisma.BeneficiaryWhereInput = {
+    AND: [
+      buildBeneficiaryWhere(filters, await getCustomFields('BENEFICIARY')),
+      beneficiaryScope(actor),
+      paging.updatedSince ? { updatedAt: { gte: paging.updatedSince } } : {},
+    ],
+  };
+
+  const [items, total] = await prisma.$transaction([
+    prisma.beneficiary.findMany({
+      where,
+      orderBy: buildBeneficiaryOrderBy(filters),
+      skip: (paging.page - 1) * paging.pageSize,
+      take: paging.pageSize,
+      select: apiBeneficiarySelect,
+    }),
+    prisma.beneficiary.count({ where }),
+  ]);
+
+  return { items: items.map((item) => present(item, apiKey)), total, paging };
+}
+
+export async function getApiBeneficiary(id: string, apiKey: AuthenticatedApiKey, actor: Actor) {
+  const beneficiary = await prisma.beneficiary.findFirst({
+    where: { AND: [{ id }, beneficiaryScope(actor)] },
+    select: apiBeneficiarySelect,
+  });
+  if (!beneficiary) throw notFound('Beneficiary');
+  return present(beneficiary, apiKey);
+}
+
+// The branch a new registration goes to, which decides the country its body
+// is checked against: the key's user's own unless they may name another.
+export async function apiBeneficiaryBranch(body: unknown, actor: Actor): Promise<Branch> {
+  const branch = await resolveBranch(actor, body);
+  if (!branch) {
+    throw new ApiError(422, 'validation_failed', 'Branch not found', { branchId: ['Branch not found'] });
+  }
+  return branch;
+}
+
+// An existing beneficiary's country, once the key is known to reach them.
+export async function apiBeneficiaryCountry(id: string, actor: Actor): Promise<Country> {
+  if (!(await canAccessBeneficiary(actor, id))) throw notFound('Beneficiary');
+  return beneficiaryCountry(id);
+}
+
+export async function createApiBeneficiary(
+  input: BeneficiaryInput,
+  branch: Branch,
+  apiKey: AuthenticatedApiKey,
+  actor: Actor
+) {
+  try {
+    const beneficiary = await registerBeneficiary(input, actor, { branchId: branch.id, source: input.source || 'api' });
+    return getApiBeneficiary(beneficiary.id, apiKey, actor);
+  } catch (error) {
+    if (isUniqueConstraintError(error, 'idNumberIndex')) throw idNumberTaken();
+    throw error;
+  }
+}
+
+// A full replacement, checked with the same schema as a new registration.
+// Answers to custom fields for other categories are kept.
+export async function updateApiBeneficiary(
+  id: string,
+  input: BeneficiaryInput,
+  apiKey: AuthenticatedApiKey,
+  actor: Actor
+) {
+  if (!(await canAccessBeneficiary(actor, id))) throw notFound('Beneficiary');
+
+  const existing = await prisma.beneficiary.findUnique({ where: { id }, select: { anonymizedAt: true } });
+  if (!existing) throw notFound('Beneficiary');
+  if (existing.anonymizedAt) {
+    throw new ApiError(409, 'erased', "This beneficiary's personal data has been erased; the record can no longer be changed");
+  }
+
+  try {
+    await prisma.beneficiary.update({
+      where: { id },
+      data: { ...toBeneficiaryData(input), customFields: await editedCustomFields(id, input, await getCustomFields('BENEFICIARY')) },
+    });
+  } catch (error) {
+    if (isUniqueConstraintError(error, 'idNumberIndex')) throw idNumberTaken();
+    throw error;
+  }
+  return getApiBeneficiary(id, apiKey, actor);
+}
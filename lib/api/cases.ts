@@ -0,0 +1,79 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { canAccessBeneficiary, canAccessCase, caseScope, type Actor } from '../access';
+import { buildCaseWhere, CaseTransitionError, openCase, parseCaseListParams, transitionCaseStatus } from '../cases';
+import { localizedErrorMessage } from '../i18n/server';
+import type { SearchParams } from '../utils';
+import type { CaseInput, CaseStatusChangeInput } from '../validation';
+import { ApiError, notFound, parseApiListParams } from './handler';
+
+export const apiCaseSelect = {
+  id: true,
+  title: true,
+  description: true,
+  type: true,
+  priority: true,
+  status: true,
+  beneficiaryId: true,
+  resolvedAt: true,
+  branchId: true,
+  createdAt: true,
+  updatedAt: true,
+  assignedTo: { select: { id: true, name: true } },
+} satisfies Prisma.CaseSelect;
+
+// The case list page's filters (q, status, type, priority, assigned, where
+// "me" is the key's user) plus the API's paging.
+export async function listApiCases(searchParams: SearchParams, actor: Actor) {
+  const filters = parseCaseListParams(searchParams);
+  const paging = parseApiListParams(searchParams);
+  const where: Prisma.CaseWhereInput = {
+    AND: [buildCaseWhere(filters, actor), paging.updatedSince ? { updatedAt: { gte: paging.updatedSince } } : {}],
+  };
+
+  const [items, total] = await prisma.$transaction([
+    prisma.case.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+      skip: (paging.page - 1) * paging.pageSize,
+      take: paging.pageSize,
+      select: apiCaseSelect,
+    }),
+    prisma.case.count({ where }),
+  ]);
+
+  return { items, total, paging };
+}
+
+export async function getApiCase(id: string, actor: Actor) {
+  const found = await prisma.case.findFirst({ where: { AND: [{ id }, caseScope(actor)] }, select: apiCaseSelect });
+  if (!found) throw notFound('Case');
+  return found;
+}
+
+// Keys have no case:assign scope, so assignees in the body are ignored;
+// openCase still adds the key's user where their role calls for it.
+export async function createApiCase(input: CaseInput, actor: Actor) {
+  if (!(await canAccessBeneficiary(actor, input.beneficiaryId))) {
+    throw new ApiError(422, 'validation_failed', 'Beneficiary not found', { beneficiaryId: ['Beneficiary not found'] });
+  }
+
+  const created = await openCase({ ...input, assigneeIds: [] }, actor);
+  return getApiCase(created.id, actor);
+}
+
+// Cases change through status transitions, with the same workflow rules as
+// the case page.
+export async function updateApiCaseStatus(id: string, input: CaseStatusChangeInput, actor: Actor) {
+  if (!(await canAccessCase(actor, id))) throw notFound('Case');
+
+  try {
+    await transitionCaseStatus(id, input.status, input.reason, actor);
+  } catch (error) {
+    if (error instanceof CaseTransitionError) {
+      throw new ApiError(409, 'invalid_transition', await localizedErrorMessage(error));
+    }
+    throw error;
+  }
+  return getApiCase(id, actor);
+}
@@ -0,0 +1,15 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { AuditContext } from '../audit/context';
+
+// The key and user behind the /api/v1 request being handled. API requests
+// carry no session, so this is where getAuditContext finds who to attribute
+// their writes to.
+const apiRequests = new AsyncLocalStorage<AuditContext>();
+
+export function runWithApiContext<T>(context: AuditContext, work: () => Promise<T>): Promise<T> {
+  return apiRequests.run(context, work);
+}
+
+export function currentApiContext(): AuditContext | undefined {
+  return apiRequests.getStore();
+}
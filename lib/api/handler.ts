@@ -0,0 +1,173 @@
+import { z, type ZodTypeAny } from 'zod';
+import type { Actor } from '../access';
+import { validationFailure } from '../actions';
+import { actorBranchId, getClientIp } from '../audit/context';
+import type { ApiScope } from '../permissions';
+import { firstParam, type SearchParams } from '../utils';
+import { runWithApiContext } from './context';
+import { apiKeyCan, authenticateApiKey, type AuthenticatedApiKey } from './keys';
+import { consumeRateLimit, rateLimitHeaders } from './rate-limit';
+
+// Shared plumbing for the /api/v1 routes: key authentication, scope and rate
+// limit checks, and one JSON shape for every error:
+//
+//   { "error": { "code": "validation_failed", "message": "...", "fieldErrors": { ... } } }
+
+export const API_MAX_PAGE_SIZE = 100;
+
+// Thrown by a handler to answer with an error; anything else is a 500.
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly fieldErrors?: Record<string, string[] | undefined>
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export const notFound = (what: string) => new ApiError(404, 'not_found', `${what} not found`);
+
+interface ApiRequest<P> {
+  request: Request;
+  params: P;
+  apiKey: AuthenticatedApiKey;
+  // The key's user, for access checks and as the author of anything created.
+  actor: Actor;
+}
+
+function errorResponse(error: ApiError, headers?: HeadersInit) {
+  return Response.json(
+    { error: { code: error.code, message: error.message, ...(error.fieldErrors && { fieldErrors: error.fieldErrors }) } },
+    { status: error.status, headers }
+  );
+}
+
+function bearerToken(request: Request): string | null {
+  const match = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+// Wraps a route handler in the checks every /api/v1 operation needs. Record
+// scope is still up to the handler, through `actor`, as it is for pages.
+export function apiRoute<P = Record<string, never>>(
+  scope: ApiScope,
+  handler: (request: ApiRequest<P>) => Promise<Response>
+) {
+  return async (request: Request, { params }: { params: Promise<P> }): Promise<Response> => {
+    const token = bearerToken(request);
+    const apiKey = token ? await authenticateApiKey(token) : null;
+    if (!apiKey) {
+      return errorResponse(
+        new ApiError(401, 'unauthorized', 'Send a valid API key as "Authorization: Bearer <key>"'),
+        { 'WWW-Authenticate': 'Bearer' }
+      );
+    }
+
+    const limit = consumeRateLimit(apiKey.id, apiKey.rateLimit);
+    const limitHeaders = rateLimitHeaders(limit);
+    if (!limit.allowed) {
+      const retryAfter = Math.max(1, Math.ceil((limit.resetAt - Date.now()) / 1000));
+      return errorResponse(new ApiError(429, 'rate_limited', 'Too many requests for this key; slow down'), {
+        ...limitHeaders,
+        'Retry-After': String(retryAfter),
+      });
+    }
+
+    if (!apiKeyCan(apiKey, scope)) {
+      return errorResponse(new ApiError(403, 'forbidden', `This key doesn't have the ${scope} scope`), limitHeaders);
+    }
+
+    const actor: Actor = apiKey.user;
+    const context = {
+      userId: actor.id,
+      apiKeyId: apiKey.id,
+      branchId: actorBranchId(actor),
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get('user-agent'),
+    };
+
+    let response: Response;
+    try {
+      response = await runWithApiContext(context, async () =>
+        handler({ request, params: await params, apiKey, actor })
+      );
+    } catch (error) {
+      if (!(error instanceof ApiError)) {
+        console.error('API request failed', error);
+      }
+      response = errorResponse(
+        error instanceof ApiError ? error : new ApiError(500, 'internal_error', 'Something went wrong')
+      );
+    }
+
+    for (const [name, value] of Object.entries(limitHeaders)) {
+      response.headers.set(name, value);
+    }
+    return response;
+  };
+}
+
+// The request body checked against `schema`, with field errors worded like
+// the forms'.
+export async function parseBody<S extends ZodTypeAny>(request: Request, schema: S): Promise<z.output<S>> {
+  return parseInput(await readBody(request), schema);
+}
+
+// For bodies whose schema depends on what's in them, read with readBody and
+// then checked with parseInput.
+export async function readBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new ApiError(400, 'invalid_json', 'The request body must be JSON');
+  }
+}
+
+export async function parseInput<S extends ZodTypeAny>(body: unknown, schema: S): Promise<z.output<S>> {
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    const failure = await validationFailure(parsed.error);
+    const { error, fieldErrors } = failure as Extract<typeof failure, { success: false }>;
+    throw new ApiError(422, 'validation_failed', error, fieldErrors);
+  }
+  return parsed.data;
+}
+
+// The query string in the shape the list param parsers take.
+export function searchParamsOf(request: Request): SearchParams {
+  const searchParams = new URL(request.url).searchParams;
+  return Object.fromEntries(
+    [...new Set(searchParams.keys())].map((key) => {
+      const values = searchParams.getAll(key);
+      return [key, values.length === 1 ? values[0] : values];
+    })
+  );
+}
+
+// Paging and incremental-sync parameters shared by every list operation.
+export const apiListParamsSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1).catch(1),
+  pageSize: z.coerce.number().int().min(1).max(API_MAX_PAGE_SIZE).default(25).catch(25),
+  // Only records changed at or after this time, for partners syncing a copy.
+  updatedSince: z.coerce.date().optional().catch(undefined),
+});
+
+export type ApiListParams = z.infer<typeof apiListParamsSchema>;
+
+export function parseApiListParams(searchParams: SearchParams): ApiListParams {
+  return apiListParamsSchema.parse({
+    page: firstParam(searchParams.page),
+    pageSize: firstParam(searchParams.pageSize),
+    updatedSince: firstParam(searchParams.updatedSince),
+  });
+}
+
+export function paginated<T>(items: T[], total: number, { page, pageSize }: ApiListParams) {
+  return Response.json({
+    data: items,
+    pagination: { page, pageSize, total, pageCount: Math.max(1, Math.ceil(total / pageSize)) },
+  });
+}
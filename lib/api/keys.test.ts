@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../prisma', () => ({ prisma: {} }));
+vi.mock('../audit/log', () => ({ AUDIT_ACTIONS: {}, logAudit: vi.fn() }));
+
+import { apiKeyCan, apiKeyUserScope } from './keys';
+
+describe('apiKeyUserScope', () => {
+  it('lets a super admin issue keys for anyone', () => {
+    expect(apiKeyUserScope({ id: 'u1', role: 'SUPER_ADMIN', branchId: 'kl' })).toEqual({});
+  });
+
+  it('keeps an admin to their branch and to roles no higher than theirs', () => {
+    expect(apiKeyUserScope({ id: 'u2', role: 'ADMIN', branchId: 'kl' })).toEqual({
+      branchId: 'kl',
+      role: { in: ['ADMIN', 'STAFF', 'FIELD_WORKER', 'VOLUNTEER'] },
+    });
+    expect(apiKeyUserScope({ id: 'u3', role: 'STAFF', branchId: 'penang' })).toEqual({
+      branchId: 'penang',
+      role: { in: ['STAFF', 'FIELD_WORKER', 'VOLUNTEER'] },
+    });
+  });
+});
+
+describe('apiKeyCan', () => {
+  const key = (role: 'ADMIN' | 'VOLUNTEER') => ({
+    id: 'k1',
+    name: 'Partner',
+    organization: 'Partner',
+    scopes: ['beneficiary:read', 'beneficiary:create'],
+    rateLimit: 60,
+    user: { id: 'u1', role, branchId: 'kl' },
+  });
+
+  it("needs the scope and the user's role to allow it", () => {
+    expect(apiKeyCan(key('ADMIN'), 'beneficiary:create')).toBe(true);
+    expect(apiKeyCan(key('ADMIN'), 'case:read')).toBe(false);
+    expect(apiKeyCan(key('VOLUNTEER'), 'beneficiary:create')).toBe(false);
+  });
+});
@@ -0,0 +1,152 @@
+import { createHash, randomBytes } from 'node:crypto';
+import type { ApiKey, Prisma, UserRole } from '@prisma/client';
+import { prisma } from '../prisma';
+import type { Actor } from '../access';
+import { AUDIT_ACTIONS, logAudit } from '../audit/log';
+import { LocalizedError } from '../i18n/errors';
+import { hasPermission, rolesUpTo, seesAllBranches, type ApiScope } from '../permissions';
+import type { ApiKeyInput } from '../validation';
+
+// Keys look like `mfa_<32 characters>`. They're random enough that a plain
+// SHA-256 is all the hashing they need, and it lets a request find its key
+// with one indexed lookup.
+const KEY_PREFIX = 'mfa_';
+const SHOWN_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+// lastUsedAt is only a hint for spotting unused keys; it isn't written on
+// every request.
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+export class ApiKeyError extends LocalizedError {}
+
+export type AuthenticatedApiKey = Pick<ApiKey, 'id' | 'name' | 'organization' | 'scopes' | 'rateLimit'> & {
+  user: { id: string; role: UserRole; branchId: string };
+};
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function generateApiKey() {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  return { key, prefix: key.slice(0, SHOWN_PREFIX_LENGTH), keyHash: hashApiKey(key) };
+}
+
+// Who an administrator can issue keys for: a key acts as its user, so only
+// users in their own branch whose role is no higher than theirs. A super admin
+// can issue them for anyone.
+export function apiKeyUserScope(issuer: Actor): Prisma.UserWhereInput {
+  return seesAllBranches(issuer.role) ? {} : { branchId: issuer.branchId, role: { in: rolesUpTo(issuer.role) } };
+}
+
+// The keys an administrator can see and revoke: those of users in their branch.
+function apiKeyScope(actor: Actor): Prisma.ApiKeyWhereInput {
+  return seesAllBranches(actor.role) ? {} : { user: { branchId: actor.branchId } };
+}
+
+// Creates the key and returns it in full, the only time it's available.
+export async function issueApiKey(input: ApiKeyInput, issuer: Actor) {
+  const user = await prisma.user.findFirst({
+    where: { AND: [{ id: input.userId }, apiKeyUserScope(issuer)] },
+    select: { id: true, role: true },
+  });
+  if (!user) {
+    throw new ApiKeyError('userNotFound');
+  }
+  const beyondRole = input.scopes.filter((scope) => !hasPermission(user.role, scope));
+  if (beyondRole.length > 0) {
+    throw new ApiKeyError('scopesBeyondRole', { scopes: beyondRole.join(', ') });
+  }
+
+  const { key, prefix, keyHash } = generateApiKey();
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      name: input.name,
+      organization: input.organization,
+      scopes: Array.from(new Set(input.scopes)),
+      rateLimit: input.rateLimit,
+      expiresAt: input.expiresAt ?? null,
+      prefix,
+      keyHash,
+      userId: user.id,
+      issuedById: issuer.id,
+    },
+  });
+
+  await logAudit(
+    AUDIT_ACTIONS.apiKeyIssued,
+    { name: apiKey.name, organization: apiKey.organization, userId: user.id, scopes: apiKey.scopes, prefix },
+    { entityType: 'ApiKey', entityId: apiKey.id }
+  );
+
+  return { id: apiKey.id, key };
+}
+
+export async function revokeApiKey(id: string, actor: Actor) {
+  const apiKey = await prisma.apiKey.findFirst({
+    where: { AND: [{ id }, apiKeyScope(actor)] },
+    select: { revokedAt: true, prefix: true },
+  });
+  if (!apiKey) {
+    throw new ApiKeyError('apiKeyNotFound');
+  }
+  if (apiKey.revokedAt) return;
+
+  await prisma.apiKey.update({ where: { id }, data: { revokedAt: new Date() } });
+  await logAudit(AUDIT_ACTIONS.apiKeyRevoked, { prefix: apiKey.prefix }, { entityType: 'ApiKey', entityId: id });
+}
+
+// The key behind an Authorization header value, or null when it's unknown,
+// revoked or expired.
+export async function authenticateApiKey(key: string): Promise<AuthenticatedApiKey | null> {
+  if (!key.startsWith(KEY_PREFIX)) return null;
+
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashApiKey(key) },
+    include: { user: { select: { id: true, role: true, branchId: true } } },
+  });
+  const now = new Date();
+  if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+    return null;
+  }
+
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await prisma.apiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: now } });
+  }
+
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    organization: apiKey.organization,
+    scopes: apiKey.scopes,
+    rateLimit: apiKey.rateLimit,
+    user: apiKey.user,
+  };
+}
+
+// A scope counts only while the key's user still has the permission: a key
+// doesn't outlive a change to its user's role.
+export function apiKeyCan(apiKey: AuthenticatedApiKey, scope: ApiScope): boolean {
+  return apiKey.scopes.includes(scope) && hasPermission(apiKey.user.role, scope);
+}
+
+export async function listApiKeys(actor: Actor) {
+  return prisma.apiKey.findMany({
+    where: apiKeyScope(actor),
+    orderBy: [{ revokedAt: { sort: 'desc', nulls: 'first' } }, { createdAt: 'desc' }],
+    select: {
+      id: true,
+      name: true,
+      organization: true,
+      prefix: true,
+      scopes: true,
+      rateLimit: true,
+      createdAt: true,
+      expiresAt: true,
+      revokedAt: true,
+      lastUsedAt: true,
+      user: { select: { id: true, name: true, email: true } },
+    },
+  });
+}
+
+export type ApiKeyListItem = Awaited<ReturnType<typeof listApiKeys>>[number];
@@ -0,0 +1,361 @@
+import { z, type ZodTypeAny } from 'zod';
+import { beneficiaryListParamsSchema } from '../beneficiaries';
+import { caseListParamsSchema } from '../cases';
+import type { ApiScope } from '../permissions';
+import { beneficiaryBaseSchema, caseSchema, caseStatusChangeSchema, serviceSchema } from '../validation';
+import { apiListParamsSchema } from './handler';
+import { serviceListParamsSchema } from './services';
+
+// The OpenAPI 3.1 description of /api/v1, generated from the same zod schemas
+// the routes validate with so the two can't drift apart. Served at
+// /api/v1/openapi.json.
+
+type JsonSchema = { [key: string]: unknown };
+
+// JSON Schema for the kinds of zod schema lib/validation uses. Refinements and
+// transforms can't be expressed and are left to the error they produce.
+function toJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const converted = convert(schema);
+  return schema.description ? { ...converted, description: schema.description } : converted;
+}
+
+function convert(schema: ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodString) {
+    const out: JsonSchema = { type: 'string' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') out.minLength = check.value;
+      if (check.kind === 'max') out.maxLength = check.value;
+      if (check.kind === 'email') out.format = 'email';
+      if (check.kind === 'uuid') out.format = 'uuid';
+      if (check.kind === 'cuid') out.format = 'cuid';
+      if (check.kind === 'regex') out.pattern = check.regex.source;
+    }
+    return out;
+  }
+  if (schema instanceof z.ZodNumber) {
+    const out: JsonSchema = { type: 'number' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'int') out.type = 'integer';
+      if (check.kind === 'min') out[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+      if (check.kind === 'max') out[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+    }
+    return out;
+  }
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+  if (schema instanceof z.ZodDate) return { type: 'string', format: 'date-time' };
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: schema.options };
+  if (schema instanceof z.ZodLiteral) return { const: schema.value };
+  if (schema instanceof z.ZodArray) {
+    const { minLength, maxLength } = schema._def;
+    return {
+      type: 'array',
+      items: toJsonSchema(schema.element),
+      ...(minLength && { minItems: minLength.value }),
+      ...(maxLength && { maxItems: maxLength.value }),
+    };
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, ZodTypeAny>;
+    const required = Object.keys(shape).filter((key) => !shape[key].isOptional());
+    return {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])),
+      ...(required.length > 0 && { required }),
+    };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: toJsonSchema(schema.valueSchema) };
+  }
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as ZodTypeAny[]).map(toJsonSchema) };
+  }
+  if (schema instanceof z.ZodNullable) return { anyOf: [toJsonSchema(schema.unwrap()), { type: 'null' }] };
+  if (schema instanceof z.ZodOptional) return toJsonSchema(schema.unwrap());
+  if (schema instanceof z.ZodDefault) {
+    return { ...toJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() };
+  }
+  if (schema instanceof z.ZodCatch) return toJsonSchema(schema.removeCatch());
+  if (schema instanceof z.ZodEffects) return toJsonSchema(schema.innerType());
+  return {};
+}
+
+// Query parameters from a params schema's fields.
+function queryParameters(shape: Record<string, ZodTypeAny>, omit: string[] = []) {
+  return Object.entries(shape)
+    .filter(([name]) => !omit.includes(name))
+    .map(([name, schema]) => ({ name, in: 'query', required: false, schema: toJsonSchema(schema) }));
+}
+
+// What the API returns, as the input schemas plus the fields the server sets.
+const recordFields = { id: z.string(), createdAt: z.date(), updatedAt: z.date() };
+
+// Fields are defined by admins, so only their shape can be given here.
+const customFields = z
+  .record(z.union([z.string(), z.number(), z.boolean(), z.array(z.string())]))
+  .default({})
+  .describe(
+    'Answers to the custom fields set up in Settings, keyed by field key: dates as YYYY-MM-DD, multi-selects as ' +
+      'arrays of options. Required fields must be answered; on a replace, answers to fields that do not apply ' +
+      'to the record are kept.'
+  );
+
+const beneficiaryRecord = beneficiaryBaseSchema.extend({
+  ...recordFields,
+  idNumber: beneficiaryBaseSchema.shape.idNumber.describe(
+    'Masked to its last four characters unless the key has the beneficiary:read_sensitive scope'
+  ),
+  notes: beneficiaryBaseSchema.shape.notes.describe('Null unless the key has the beneficiary:read_sensitive scope'),
+  customFields,
+  assignedToId: z.string().nullable(),
+  branchId: z.string(),
+});
+
+// The branch's country decides the phone, postcode and ID number formats,
+// which a JSON schema can't express, so they're described instead.
+const beneficiaryInput = beneficiaryBaseSchema.extend({
+  branchId: beneficiaryBaseSchema.shape.branchId.describe(
+    "Defaults to the key's user's branch; only a user who sees every branch can name another"
+  ),
+  phone: beneficiaryBaseSchema.shape.phone.describe("International form in the branch's country, e.g. +60123456789"),
+  idNumber: beneficiaryBaseSchema.shape.idNumber.describe(
+    "The national ID card of the branch's country for its citizens, otherwise a passport or refugee card number"
+  ),
+  monthlyIncome: beneficiaryBaseSchema.shape.monthlyIncome.describe("The household's income per month, in the branch's currency"),
+  customFields,
+});
+
+const serviceInput = serviceSchema.extend({
+  programmeId: serviceSchema.shape.programmeId.describe(
+    'A programme the beneficiary was enrolled in on the service date'
+  ),
+  customFields,
+});
+
+const caseRecord = caseSchema.omit({ assigneeIds: true }).extend({
+  ...recordFields,
+  status: caseStatusChangeSchema.shape.status,
+  resolvedAt: z.date().nullable(),
+  branchId: z.string(),
+  assignedTo: z.array(z.object({ id: z.string(), name: z.string() })),
+});
+
+const serviceRecord = serviceInput.extend({
+  ...recordFields,
+  distributionEventId: z.string().nullable(),
+  providedById: z.string(),
+  branchId: z.string(),
+});
+
+const pagination = z.object({
+  page: z.number().int(),
+  pageSize: z.number().int(),
+  total: z.number().int(),
+  pageCount: z.number().int(),
+});
+
+const apiError = z.object({
+  error: z.object({
+    code: z.string(),
+    message: z.string(),
+    fieldErrors: z.record(z.array(z.string())).optional(),
+  }),
+});
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: ref('Error') } },
+});
+
+interface OperationOptions {
+  summary: string;
+  scope: ApiScope;
+  description?: string;
+  parameters?: unknown[];
+  body?: string;
+  // The schema returned in `data`; a list when `list` is set.
+  returns: string;
+  list?: boolean;
+  status?: number;
+  errors?: string[];
+}
+
+function operation({ summary, scope, description, parameters, body, returns, list, status = 200, errors = [] }: OperationOptions) {
+  const data = list ? { type: 'array', items: ref(returns) } : ref(returns);
+  const envelope = list
+    ? { type: 'object', properties: { data, pagination: ref('Pagination') }, required: ['data', 'pagination'] }
+    : { type: 'object', properties: { data }, required: ['data'] };
+
+  return {
+    summary,
+    description: [description, `Requires the \`${scope}\` scope.`].filter(Boolean).join('\n\n'),
+    'x-required-scope': scope,
+    ...(parameters && { parameters }),
+    ...(body && { requestBody: { required: true, content: { 'application/json': { schema: ref(body) } } } }),
+    responses: {
+      [status]: { description: summary, content: { 'application/json': { schema: envelope } } },
+      ...Object.fromEntries(errors.map((name) => [errorStatuses[name], { $ref: `#/components/responses/${name}` }])),
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      429: { $ref: '#/components/responses/RateLimited' },
+    },
+  };
+}
+
+const errorStatuses: Record<string, number> = { NotFound: 404, Conflict: 409, ValidationFailed: 422 };
+
+const idParameter = { name: 'id', in: 'path', required: true, schema: { type: 'string' } };
+const listParameters = queryParameters(apiListParamsSchema.shape);
+
+export function buildOpenApiDocument(serverUrl: string) {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'MyFundAction API',
+      version: '1.0.0',
+      description:
+        'Beneficiaries, cases and services for partner systems. Every request needs an API key, issued by an ' +
+        'administrator in Settings, sent as `Authorization: Bearer <key>`. A key acts as the user it was issued ' +
+        'to: it sees only the records that user can, and only does what both its scopes and the user\'s role ' +
+        'allow. Each key is rate limited per minute; the X-RateLimit-* headers on every response show where it stands.',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ apiKey: [] }],
+    paths: {
+      '/beneficiaries': {
+        get: operation({
+          summary: 'List beneficiaries',
+          scope: 'beneficiary:read',
+          description:
+            'Custom fields are filtered with cf.<key> parameters: an option, true or false, part of a text ' +
+            '(case-sensitive) or an exact number or date.',
+          parameters: [...queryParameters(beneficiaryListParamsSchema.shape, ['page', 'customFields']), ...listParameters],
+          returns: 'Beneficiary',
+          list: true,
+        }),
+        post: operation({
+          summary: 'Register a beneficiary',
+          scope: 'beneficiary:create',
+          description:
+            'MyKad numbers are checked against the date of birth and gender and stored normalized. Likely ' +
+            'duplicates of existing records are queued for review as they are for the registration form.',
+          body: 'BeneficiaryInput',
+          returns: 'Beneficiary',
+          status: 201,
+          errors: ['Conflict', 'ValidationFailed'],
+        }),
+      },
+      '/beneficiaries/{id}': {
+        get: operation({
+          summary: 'Get a beneficiary',
+          scope: 'beneficiary:read',
+          parameters: [idParameter],
+          returns: 'Beneficiary',
+          errors: ['NotFound'],
+        }),
+        put: operation({
+          summary: 'Replace a beneficiary',
+          scope: 'beneficiary:update',
+          description: 'Fields left out are cleared or reset to their default, as when the edit form is saved.',
+          parameters: [idParameter],
+          body: 'BeneficiaryInput',
+          returns: 'Beneficiary',
+          errors: ['NotFound', 'Conflict', 'ValidationFailed'],
+        }),
+      },
+      '/cases': {
+        get: operation({
+          summary: 'List cases',
+          scope: 'case:read',
+          parameters: [...queryParameters(caseListParamsSchema.shape, ['page']), ...listParameters],
+          returns: 'Case',
+          list: true,
+        }),
+        post: operation({
+          summary: 'Open a case',
+          scope: 'case:create',
+          description: 'assigneeIds is ignored: cases opened through the API are assigned in the application.',
+          body: 'CaseInput',
+          returns: 'Case',
+          status: 201,
+          errors: ['ValidationFailed'],
+        }),
+      },
+      '/cases/{id}': {
+        get: operation({
+          summary: 'Get a case',
+          scope: 'case:read',
+          parameters: [idParameter],
+          returns: 'Case',
+          errors: ['NotFound'],
+        }),
+        patch: operation({
+          summary: 'Change a case’s status',
+          scope: 'case:update',
+          description: 'Follows the case workflow: some transitions need a reason, and reopening needs the case:reopen permission.',
+          parameters: [idParameter],
+          body: 'CaseStatusChange',
+          returns: 'Case',
+          errors: ['NotFound', 'Conflict', 'ValidationFailed'],
+        }),
+      },
+      '/services': {
+        get: operation({
+          summary: 'List services',
+          scope: 'service:read',
+          parameters: [...queryParameters(serviceListParamsSchema.shape), ...listParameters],
+          returns: 'Service',
+          list: true,
+        }),
+        post: operation({
+          summary: 'Log a service',
+          scope: 'service:create',
+          body: 'ServiceInput',
+          returns: 'Service',
+          status: 201,
+          errors: ['ValidationFailed'],
+        }),
+      },
+      '/services/{id}': {
+        get: operation({
+          summary: 'Get a service',
+          scope: 'service:read',
+          parameters: [idParameter],
+          returns: 'Service',
+          errors: ['NotFound'],
+        }),
+        put: operation({
+          summary: 'Replace a service',
+          scope: 'service:update',
+          description: 'Services logged by a distribution event can only be changed through the event.',
+          parameters: [idParameter],
+          body: 'ServiceInput',
+          returns: 'Service',
+          errors: ['NotFound', 'Conflict', 'ValidationFailed'],
+        }),
+      },
+    },
+    components: {
+      securitySchemes: { apiKey: { type: 'http', scheme: 'bearer' } },
+      schemas: {
+        Beneficiary: toJsonSchema(beneficiaryRecord),
+        BeneficiaryInput: toJsonSchema(beneficiaryInput),
+        Case: toJsonSchema(caseRecord),
+        CaseInput: toJsonSchema(caseSchema),
+        CaseStatusChange: toJsonSchema(caseStatusChangeSchema),
+        Service: toJsonSchema(serviceRecord),
+        ServiceInput: toJsonSchema(serviceInput),
+        Pagination: toJsonSchema(pagination),
+        Error: toJsonSchema(apiError),
+      },
+      responses: {
+        Unauthorized: errorResponse('No API key, or one that is unknown, revoked or expired'),
+        Forbidden: errorResponse('The key lacks the scope this operation needs'),
+        NotFound: errorResponse('No such record, or not one the key can see'),
+        Conflict: errorResponse('The change clashes with the record’s current state'),
+        ValidationFailed: errorResponse('The body failed validation; fieldErrors says where'),
+        RateLimited: errorResponse('Over the key’s requests per minute; retry after the Retry-After header'),
+      },
+    },
+  };
+}
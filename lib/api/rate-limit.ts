@@ -0,0 +1,55 @@
+// Per-key request counting over fixed one-minute windows. Counts are kept in
+// this process's memory: with several instances each enforces the limit on
+// its own share of the traffic, which is close enough for keeping a
+// misbehaving integration from swamping the database.
+
+const WINDOW_MS = 60_000;
+
+interface Window {
+  start: number;
+  count: number;
+}
+
+const windows = new Map<string, Window>();
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // When the current window ends, in epoch milliseconds.
+  resetAt: number;
+}
+
+export function consumeRateLimit(keyId: string, limit: number, now = Date.now()): RateLimitResult {
+  let window = windows.get(keyId);
+  if (!window || now - window.start >= WINDOW_MS) {
+    window = { start: now, count: 0 };
+    windows.set(keyId, window);
+    pruneExpired(now);
+  }
+
+  const allowed = window.count < limit;
+  if (allowed) window.count += 1;
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, limit - window.count),
+    resetAt: window.start + WINDOW_MS,
+  };
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetAt / 1000)),
+  };
+}
+
+// Windows of keys that have gone quiet would otherwise stay forever.
+function pruneExpired(now: number) {
+  for (const [keyId, window] of windows) {
+    if (now - window.start >= WINDOW_MS) windows.delete(keyId);
+  }
+}
@@ -0,0 +1,168 @@
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { canAccessBeneficiary, serviceScope, type Actor } from '../access';
+import { beneficiaryBranchId } from '../branches';
+import { getCustomFields } from '../custom-fields/definitions';
+import { applicableCustomFields, mergeCustomFieldValues, toCustomFieldValues } from '../custom-fields/values';
+import { wasEnrolledOn } from '../programmes/enrolments';
+import { logService, toServiceData } from '../services';
+import { firstParam, type SearchParams } from '../utils';
+import type { ServiceInput } from '../validation';
+import { ApiError, notFound, parseApiListParams } from './handler';
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+// Services have no list page of their own, so their filters are defined here.
+export const serviceListParamsSchema = z.object({
+  type: z
+    .enum(['FOOD_DISTRIBUTION', 'SHELTER_ADMISSION', 'SHELTER_EXIT', 'MEDICAL_CHECKUP', 'COUNSELING', 'EDUCATION', 'FINANCIAL_AID', 'RESCUE', 'OTHER'])
+    .optional()
+    .catch(undefined),
+  beneficiaryId: z.string().max(50).optional().catch(undefined),
+  caseId: z.string().max(50).optional().catch(undefined),
+  programmeId: z.string().max(50).optional().catch(undefined),
+  // Service dates, both inclusive.
+  from: isoDate.optional().catch(undefined),
+  to: isoDate.optional().catch(undefined),
+});
+
+export type ServiceListParams = z.infer<typeof serviceListParamsSchema>;
+
+export const apiServiceSelect = {
+  id: true,
+  type: true,
+  date: true,
+  description: true,
+  quantity: true,
+  cost: true,
+  beneficiaryId: true,
+  caseId: true,
+  programmeId: true,
+  location: true,
+  notes: true,
+  customFields: true,
+  distributionEventId: true,
+  providedById: true,
+  branchId: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.ServiceSelect;
+
+type ApiService = Prisma.ServiceGetPayload<{ select: typeof apiServiceSelect }>;
+
+// Decimal would otherwise be serialized as a string.
+function present(service: ApiService) {
+  return {
+    ...service,
+    cost: service.cost === null ? null : Number(service.cost),
+    customFields: toCustomFieldValues(service.customFields),
+  };
+}
+
+export async function listApiServices(searchParams: SearchParams, actor: Actor) {
+  const filters = serviceListParamsSchema.parse({
+    type: firstParam(searchParams.type),
+    beneficiaryId: firstParam(searchParams.beneficiaryId),
+    caseId: firstParam(searchParams.caseId),
+    programmeId: firstParam(searchParams.programmeId),
+    from: firstParam(searchParams.from),
+    to: firstParam(searchParams.to),
+  });
+  const paging = parseApiListParams(searchParams);
+
+  const where: Prisma.ServiceWhereInput = {
+    AND: [
+      serviceScope(actor),
+      {
+        ...(filters.type && { type: filters.type }),
+        ...(filters.beneficiaryId && { beneficiaryId: filters.beneficiaryId }),
+        ...(filters.caseId && { caseId: filters.caseId }),
+        ...(filters.programmeId && { programmeId: filters.programmeId }),
+        ...((filters.from || filters.to) && {
+          date: {
+            ...(filters.from && { gte: new Date(`${filters.from}T00:00:00Z`) }),
+            ...(filters.to && { lte: new Date(`${filters.to}T23:59:59.999Z`) }),
+          },
+        }),
+        ...(paging.updatedSince && { updatedAt: { gte: paging.updatedSince } }),
+      },
+    ],
+  };
+
+  const [items, total] = await prisma.$transaction([
+    prisma.service.findMany({
+      where,
+      orderBy: [{ date: 'desc' }, { id: 'asc' }],
+      skip: (paging.page - 1) * paging.pageSize,
+      take: paging.pageSize,
+      select: apiServiceSelect,
+    }),
+    prisma.service.count({ where }),
+  ]);
+
+  return { items: items.map(present), total, paging };
+}
+
+export async function getApiService(id: string, actor: Actor) {
+  const service = await prisma.service.findFirst({
+    where: { AND: [{ id }, serviceScope(actor)] },
+    select: apiServiceSelect,
+  });
+  if (!service) throw notFound('Service');
+  return present(service);
+}
+
+// The beneficiary, case and programme a service is for, checked as the
+// service form does.
+async function checkLinks({ beneficiaryId, caseId, programmeId, date }: ServiceInput, actor: Actor) {
+  if (!(await canAccessBeneficiary(actor, beneficiaryId))) {
+    throw new ApiError(422, 'validation_failed', 'Beneficiary not found', { beneficiaryId: ['Beneficiary not found'] });
+  }
+  if (caseId) {
+    const linked = await prisma.case.count({ where: { id: caseId, beneficiaryId } });
+    if (linked === 0) {
+      const message = 'That case belongs to a different beneficiary';
+      throw new ApiError(422, 'validation_failed', message, { caseId: [message] });
+    }
+  }
+  if (programmeId && !(await wasEnrolledOn(programmeId, beneficiaryId, date))) {
+    const message = 'The beneficiary was not enrolled in that programme on this date';
+    throw new ApiError(422, 'validation_failed', message, { programmeId: [message] });
+  }
+}
+
+export async function createApiService(input: ServiceInput, actor: Actor) {
+  await checkLinks(input, actor);
+  const service = await logService({ ...toServiceData(input), customFields: input.customFields, providedById: actor.id });
+  return getApiService(service.id, actor);
+}
+
+// A full replacement, apart from answers to custom fields that don't apply to
+// the service's type and programme. Services logged by a distribution event are changed
+// through the event, which keeps its recipients' shared fields in step.
+export async function updateApiService(id: string, input: ServiceInput, actor: Actor) {
+  const existing = await prisma.service.findFirst({
+    where: { AND: [{ id }, serviceScope(actor)] },
+    select: { distributionEventId: true, customFields: true },
+  });
+  if (!existing) throw notFound('Service');
+  if (existing.distributionEventId) {
+    throw new ApiError(409, 'part_of_distribution_event', 'This service was logged by a distribution event; change the event instead');
+  }
+
+  await checkLinks(input, actor);
+  const shown = applicableCustomFields(await getCustomFields('SERVICE'), {
+    serviceType: input.type,
+    programmeIds: input.programmeId ? [input.programmeId] : [],
+  });
+  await prisma.service.update({
+    where: { id },
+    data: {
+      ...toServiceData(input),
+      customFields: mergeCustomFieldValues(existing.customFields, input.customFields, shown),
+      branchId: await beneficiaryBranchId(input.beneficiaryId),
+    },
+  });
+  return getApiService(id, actor);
+}
@@ -0,0 +1,128 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import type { Actor } from '../access';
+import { isTerminalCaseStatus } from '../case-workflow';
+import { LocalizedError } from '../i18n/errors';
+import type { AssessmentInput } from '../validation';
+import { assessmentTrend, scoreAssessment, toQuestionnaireDefinition, type AssessmentTrend } from './scoring';
+
+// An assessment that can't be saved as given.
+export class AssessmentError extends LocalizedError {}
+
+// The questions of the version a submission answers, to check its answers
+// against; null for an unknown version.
+export async function questionsOfVersion(versionId: string) {
+  const version = await prisma.questionnaireVersion.findUnique({ where: { id: versionId } });
+  return version ? toQuestionnaireDefinition(version).questions : null;
+}
+
+// Saves a completed questionnaire and applies its priority to the beneficiary,
+// and to the case if one is named and still open. An erased beneficiary can't
+// be assessed. The score and suggestion are worked out again here rather than
+// trusted from the form; a priority other than the suggested one needs a
+// reason.
+export async function recordAssessment(input: AssessmentInput, actor: Actor) {
+  return prisma.$transaction(async (tx) => {
+    const version = await tx.questionnaireVersion.findUniqueOrThrow({
+      where: { id: input.questionnaireVersionId },
+      include: { questionnaire: { select: { currentVersion: true, archivedAt: true } } },
+    });
+    if (version.questionnaire.archivedAt) {
+      throw new AssessmentError('questionnaireArchived');
+    }
+    if (version.version !== version.questionnaire.currentVersion) {
+      throw new AssessmentError('questionnaireChanged');
+    }
+
+    const beneficiary = await tx.beneficiary.findUniqueOrThrow({
+      where: { id: input.beneficiaryId },
+      select: { dateOfBirth: true, anonymizedAt: true },
+    });
+    if (beneficiary.anonymizedAt) {
+      throw new AssessmentError('beneficiaryErased');
+    }
+    if (input.caseId) {
+      const linked = await tx.case.findFirst({
+        where: { id: input.caseId, beneficiaryId: input.beneficiaryId },
+        select: { status: true },
+      });
+      if (!linked) throw new AssessmentError('caseOfOtherBeneficiary');
+      if (isTerminalCaseStatus(linked.status)) {
+        throw new AssessmentError('assessmentCaseEnded', { status: linked.status });
+      }
+    }
+
+    const result = scoreAssessment(toQuestionnaireDefinition(version), input.answers, beneficiary);
+    const overrideReason = input.priority !== result.suggestedPriority ? input.overrideReason?.trim() : undefined;
+    if (input.priority !== result.suggestedPriority && !overrideReason) {
+      throw new AssessmentError('priorityOverrideReasonRequired');
+    }
+
+    const assessment = await tx.assessment.create({
+      data: {
+        questionnaireVersionId: version.id,
+        beneficiaryId: input.beneficiaryId,
+        caseId: input.caseId,
+        answers: input.answers,
+        score: result.score,
+        suggestedPriority: result.suggestedPriority,
+        priority: input.priority,
+        overrideReason: overrideReason ?? null,
+        assessedById: actor.id,
+      },
+    });
+    await tx.beneficiary.update({ where: { id: input.beneficiaryId }, data: { priority: input.priority } });
+    if (input.caseId) {
+      await tx.case.update({ where: { id: input.caseId }, data: { priority: input.priority } });
+    }
+    return assessment;
+  });
+}
+
+const assessmentInclude = {
+  questionnaireVersion: {
+    select: { version: true, questionnaire: { select: { id: true, name: true, kind: true, currentVersion: true } } },
+  },
+  case: { select: { id: true, title: true } },
+  assessedBy: { select: { name: true } },
+} satisfies Prisma.AssessmentInclude;
+
+// A beneficiary's assessments, newest first. Each is compared with the one
+// before it on the same questionnaire: `trend` is null for the first, and
+// `versionChanged` flags a comparison across different questions.
+export async function listBeneficiaryAssessments(beneficiaryId: string) {
+  const assessments = await prisma.assessment.findMany({
+    where: { beneficiaryId },
+    orderBy: { createdAt: 'desc' },
+    include: assessmentInclude,
+  });
+  return assessments.map((assessment, index) => {
+    const previous = assessments
+      .slice(index + 1)
+      .find(
+        (earlier) =>
+          earlier.questionnaireVersion.questionnaire.id === assessment.questionnaireVersion.questionnaire.id
+      );
+    const trend: AssessmentTrend | null = previous ? assessmentTrend(previous.score, assessment.score) : null;
+    return {
+      ...assessment,
+      previousScore: previous?.score ?? null,
+      trend,
+      versionChanged: !!previous && previous.questionnaireVersion.version !== assessment.questionnaireVersion.version,
+    };
+  });
+}
+
+export type BeneficiaryAssessment = Awaited<ReturnType<typeof listBeneficiaryAssessments>>[number];
+
+export async function getAssessment(id: string) {
+  const assessment = await prisma.assessment.findUnique({
+    where: { id },
+    include: {
+      ...assessmentInclude,
+      questionnaireVersion: { include: { questionnaire: { select: { id: true, name: true, kind: true } } } },
+    },
+  });
+  if (!assessment) return null;
+  return { ...assessment, definition: toQuestionnaireDefinition(assessment.questionnaireVersion) };
+}
@@ -0,0 +1,118 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import type { Actor } from '../access';
+import { logAudit } from '../audit/log';
+import type { QuestionnaireInput } from '../validation';
+import { toQuestionnaireDefinition } from './scoring';
+
+export function listQuestionnaires() {
+  return prisma.questionnaire.findMany({
+    orderBy: [{ archivedAt: { sort: 'asc', nulls: 'first' } }, { kind: 'asc' }, { name: 'asc' }],
+  });
+}
+
+export function getQuestionnaire(id: string) {
+  return prisma.questionnaire.findUnique({
+    where: { id },
+    include: {
+      versions: {
+        orderBy: { version: 'desc' },
+        include: { createdBy: { select: { name: true } }, _count: { select: { assessments: true } } },
+      },
+    },
+  });
+}
+
+// The questionnaires a worker can fill in, each with the version they'd answer.
+export async function activeQuestionnaires() {
+  const questionnaires = await prisma.questionnaire.findMany({
+    where: { archivedAt: null },
+    orderBy: [{ kind: 'asc' }, { name: 'asc' }],
+    include: { versions: { orderBy: { version: 'desc' }, take: 1 } },
+  });
+  return questionnaires.map(({ versions: [current], ...questionnaire }) => ({
+    ...questionnaire,
+    versionId: current.id,
+    ...toQuestionnaireDefinition(current),
+  }));
+}
+
+export type ActiveQuestionnaire = Awaited<ReturnType<typeof activeQuestionnaires>>[number];
+
+// JSON with every object's keys sorted: Postgres doesn't keep the order they
+// were written in.
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested) =>
+    typeof nested === 'object' && nested !== null && !Array.isArray(nested)
+      ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+      : nested
+  );
+}
+
+function toDefinitionData(input: QuestionnaireInput) {
+  return {
+    questions: input.questions as unknown as Prisma.InputJsonArray,
+    rules: input.rules as unknown as Prisma.InputJsonArray,
+    bands: input.bands,
+  };
+}
+
+export async function addQuestionnaire(input: QuestionnaireInput, actor: Actor) {
+  const questionnaire = await prisma.questionnaire.create({
+    data: {
+      name: input.name,
+      kind: input.kind,
+      description: input.description || null,
+      createdById: actor.id,
+      versions: { create: { version: 1, ...toDefinitionData(input), createdById: actor.id } },
+    },
+  });
+  await logAudit(
+    'QUESTIONNAIRE_CREATED',
+    { name: questionnaire.name, kind: questionnaire.kind, questions: input.questions.length },
+    { entityType: 'Questionnaire', entityId: questionnaire.id }
+  );
+  return questionnaire;
+}
+
+// The name, kind and description change in place. Changed questions, rules or
+// bands become a new version, which later assessments answer; earlier ones
+// stay tied to the version they answered.
+export async function changeQuestionnaire(id: string, input: QuestionnaireInput, actor: Actor) {
+  const definition = toDefinitionData(input);
+  const version = await prisma.$transaction(async (tx) => {
+    const questionnaire = await tx.questionnaire.findUniqueOrThrow({
+      where: { id },
+      include: { versions: { orderBy: { version: 'desc' }, take: 1 } },
+    });
+    const [current] = questionnaire.versions;
+    const changed = canonicalJson(toQuestionnaireDefinition(current)) !== canonicalJson(definition);
+    const next = changed ? questionnaire.currentVersion + 1 : questionnaire.currentVersion;
+
+    await tx.questionnaire.update({
+      where: { id },
+      data: {
+        name: input.name,
+        kind: input.kind,
+        description: input.description || null,
+        currentVersion: next,
+        ...(changed && { versions: { create: { version: next, ...definition, createdById: actor.id } } }),
+      },
+    });
+    return { number: next, changed };
+  });
+  await logAudit(
+    'QUESTIONNAIRE_UPDATED',
+    { name: input.name, kind: input.kind, version: version.number, newVersion: version.changed },
+    { entityType: 'Questionnaire', entityId: id }
+  );
+  return version;
+}
+
+export async function archiveQuestionnaire(id: string, archived: boolean) {
+  await prisma.questionnaire.update({ where: { id }, data: { archivedAt: archived ? new Date() : null } });
+  await logAudit(archived ? 'QUESTIONNAIRE_ARCHIVED' : 'QUESTIONNAIRE_RESTORED', {}, {
+    entityType: 'Questionnaire',
+    entityId: id,
+  });
+}
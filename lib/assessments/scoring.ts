@@ -0,0 +1,173 @@
+import { z } from 'zod';
+import type { Prisma, Priority } from '@prisma/client';
+import { localizedIssue } from '../i18n/zod';
+import { ageOn } from '../programmes/eligibility';
+
+// Questionnaire definitions, how answers are checked and how they add up to a
+// suggested priority. The assessment form shows the score as answers are
+// picked, and the server recomputes it before saving.
+
+export const questionnaireKinds = ['INTAKE', 'VULNERABILITY'] as const;
+export const questionTypes = ['SINGLE_CHOICE', 'MULTIPLE_CHOICE'] as const;
+export type QuestionType = (typeof questionTypes)[number];
+
+// Lowest first.
+export const priorities = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'] as const satisfies readonly Priority[];
+
+export interface AssessmentOption {
+  label: string;
+  // Added to the score when the option is chosen; may be negative.
+  weight: number;
+}
+
+export interface AssessmentQuestion {
+  key: string;
+  label: string;
+  type: QuestionType;
+  options: AssessmentOption[];
+  required: boolean;
+}
+
+// Met when the question's answer includes the option, or the beneficiary's
+// age on the day is within the limits. An unknown age meets no age condition.
+export type RuleCondition =
+  | { kind: 'answer'; question: string; option: string }
+  | { kind: 'age'; min: number | null; max: number | null };
+
+// Raises the suggestion to at least `priority` when every condition is met,
+// whatever the score, e.g. sleeping rough + chronic illness + over 60 → URGENT.
+export interface ScoringRule {
+  label: string;
+  priority: Priority;
+  conditions: RuleCondition[];
+}
+
+// The score from which each priority is suggested; null leaves a band out.
+// Below every band the suggestion is LOW.
+export type ScoreBands = Record<Exclude<Priority, 'LOW'>, number | null>;
+
+export interface QuestionnaireDefinition {
+  questions: AssessmentQuestion[];
+  rules: ScoringRule[];
+  bands: ScoreBands;
+}
+
+// Single choices are stored as the option's label, multiple choices as the
+// chosen labels. Unanswered questions are left out.
+export type AssessmentAnswers = Record<string, string | string[]>;
+
+export interface AssessmentResult {
+  score: number;
+  suggestedPriority: Priority;
+  // The rules that were met, in the order they're defined.
+  matchedRules: ScoringRule[];
+}
+
+// A stored version's definition. Versions are only written through
+// questionnaireSchema, so the columns are trusted.
+export function toQuestionnaireDefinition(version: {
+  questions: Prisma.JsonValue;
+  rules: Prisma.JsonValue;
+  bands: Prisma.JsonValue;
+}): QuestionnaireDefinition {
+  return {
+    questions: version.questions as unknown as AssessmentQuestion[],
+    rules: version.rules as unknown as ScoringRule[],
+    bands: version.bands as unknown as ScoreBands,
+  };
+}
+
+export function toAssessmentAnswers(value: unknown): AssessmentAnswers {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as AssessmentAnswers) : {};
+}
+
+export function higherPriority(a: Priority, b: Priority): Priority {
+  return priorities.indexOf(a) >= priorities.indexOf(b) ? a : b;
+}
+
+function chosenOptions(answer: string | string[] | undefined): string[] {
+  if (answer === undefined) return [];
+  return Array.isArray(answer) ? answer : [answer];
+}
+
+function meets(
+  condition: RuleCondition,
+  answers: AssessmentAnswers,
+  dateOfBirth: Date | null,
+  on: Date
+): boolean {
+  if (condition.kind === 'answer') {
+    return chosenOptions(answers[condition.question]).includes(condition.option);
+  }
+  if (!dateOfBirth) return false;
+  const age = ageOn(dateOfBirth, on);
+  return (condition.min === null || age >= condition.min) && (condition.max === null || age <= condition.max);
+}
+
+export function scoreAssessment(
+  definition: QuestionnaireDefinition,
+  answers: AssessmentAnswers,
+  subject: { dateOfBirth: Date | null },
+  on = new Date()
+): AssessmentResult {
+  let score = 0;
+  for (const question of definition.questions) {
+    const chosen = chosenOptions(answers[question.key]);
+    for (const option of question.options) {
+      if (chosen.includes(option.label)) score += option.weight;
+    }
+  }
+
+  let suggestedPriority: Priority = 'LOW';
+  for (const priority of priorities) {
+    const from = priority === 'LOW' ? null : definition.bands[priority];
+    if (from !== null && score >= from) suggestedPriority = priority;
+  }
+
+  const matchedRules = definition.rules.filter((rule) =>
+    rule.conditions.every((condition) => meets(condition, answers, subject.dateOfBirth, on))
+  );
+  for (const rule of matchedRules) {
+    suggestedPriority = higherPriority(suggestedPriority, rule.priority);
+  }
+
+  return { score, suggestedPriority, matchedRules };
+}
+
+// The schema for a completed questionnaire's answers. Answers to any other
+// key are dropped.
+export function assessmentAnswersSchema(questions: AssessmentQuestion[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const question of questions) {
+    const isOption = (value: string) => question.options.some((option) => option.label === value);
+    const schema =
+      question.type === 'SINGLE_CHOICE'
+        ? z.string().refine(isOption, localizedIssue('chooseOption'))
+        : z
+            .array(z.string().refine(isOption, localizedIssue('chooseOption')))
+            .max(question.options.length)
+            .min(question.required ? 1 : 0)
+            .transform((chosen) => Array.from(new Set(chosen)));
+    shape[question.key] = z.preprocess(
+      (value) => (value === '' || value === null ? undefined : value),
+      question.required ? schema : schema.optional()
+    );
+  }
+  return z
+    .object(shape)
+    .transform((answers) =>
+      Object.fromEntries(
+        Object.entries(answers).filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0))
+      ) as AssessmentAnswers
+    );
+}
+
+export type AssessmentTrend = 'IMPROVING' | 'WORSENING' | 'UNCHANGED';
+
+// A higher score means a more vulnerable situation, so a lower one than last
+// time is an improvement.
+export function assessmentTrend(previousScore: number, score: number): AssessmentTrend {
+  if (score < previousScore) return 'IMPROVING';
+  if (score > previousScore) return 'WORSENING';
+  return 'UNCHANGED';
+}
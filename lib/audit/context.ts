@@ -0,0 +1,60 @@
+import type { UserRole } from '@prisma/client';
+import { seesAllBranches } from '../permissions';
+
+export const SYSTEM_USER_ID = 'system';
+export const ANONYMOUS_USER_ID = 'anonymous';
+
+export interface AuditContext {
+  userId: string;
+  // The API key used, for changes made through /api/v1.
+  apiKeyId?: string | null;
+  // The acting user's branch, for entries that aren't about a record in one.
+  branchId?: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+type HeaderSource = Pick<Headers, 'get'>;
+
+export function getClientIp(headers: HeaderSource): string | null {
+  // The first entry is the client; later ones are proxies it passed through.
+  const forwarded = headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return forwarded || headers.get('x-real-ip') || null;
+}
+
+// Null for super admins: what they do outside any branch's records isn't any
+// one branch's business.
+export function actorBranchId(actor: { role: UserRole; branchId: string }): string | null {
+  return seesAllBranches(actor.role) ? null : actor.branchId;
+}
+
+export function contextFromHeaders(headers: HeaderSource, userId: string, branchId: string | null = null): AuditContext {
+  return {
+    userId,
+    branchId,
+    ipAddress: getClientIp(headers),
+    userAgent: headers.get('user-agent'),
+  };
+}
+
+// Who is making the current request: the API key's user for /api/v1, which
+// has no session, otherwise the signed-in user. Outside a request (seed,
+// scripts) headers() throws and the write is attributed to "system".
+export async function getAuditContext(): Promise<AuditContext> {
+  try {
+    const { currentApiContext } = await import('../api/context');
+    const apiContext = currentApiContext();
+    if (apiContext) return apiContext;
+
+    // Imported lazily: lib/auth depends on lib/prisma, which depends on this file.
+    const [{ headers }, { auth }] = await Promise.all([import('next/headers'), import('../auth')]);
+    const [requestHeaders, session] = await Promise.all([headers(), auth()]);
+    return contextFromHeaders(
+      requestHeaders,
+      session?.user?.id ?? SYSTEM_USER_ID,
+      session?.user ? actorBranchId(session.user) : null
+    );
+  } catch {
+    return { userId: SYSTEM_USER_ID, ipAddress: null, userAgent: null };
+  }
+}
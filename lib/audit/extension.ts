@@ -0,0 +1,305 @@
+import { Prisma } from '@prisma/client';
+import { decryptValue } from '../encryption/cipher';
+import { encryptedFields } from '../encryption/fields';
+import { getAuditContext } from './context';
+
+export const auditedModels = ['Beneficiary', 'Case', 'Service', 'DistributionEvent', 'Programme', 'Enrolment', 'Assessment', 'ReportDefinition', 'Document', 'DataRequest', 'User'] as const;
+export type AuditedModel = (typeof auditedModels)[number];
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+type AuditVerb = 'CREATED' | 'UPDATED' | 'DELETED';
+type AuditRecord = Record<string, unknown> & { id: string };
+
+// Never copied into the audit log, only flagged as changed.
+const REDACTED_FIELDS = new Set(['password']);
+// The id is the entry's entityId; updatedAt changes on every write. Blind
+// indexes change exactly when the field they index does.
+const IGNORED_FIELDS = new Set(['id', 'updatedAt', 'idNumberIndex', 'phoneIndex']);
+
+const WRITE_OPERATIONS = new Set([
+  'create',
+  'createMany',
+  'createManyAndReturn',
+  'update',
+  'updateMany',
+  'upsert',
+  'delete',
+  'deleteMany',
+]);
+
+// Minimal shape of a model delegate, for reading the rows around a write.
+interface AuditDelegate {
+  findUnique(args: { where: unknown }): Promise<AuditRecord | null>;
+  findMany(args: { where: unknown }): Promise<AuditRecord[]>;
+}
+
+// What Prisma passes query extensions about the transaction a query runs in.
+// A batch (`$transaction([...])`) settles its queries only once it has
+// committed or rolled back, so only an interactive one can take more queries.
+interface QueryTransaction {
+  kind: 'itx' | 'batch';
+  id?: string;
+}
+
+// Not part of Prisma's public API, but the only way to join a caller's
+// interactive transaction from inside an extension.
+interface TransactionalClient {
+  _createItxClient(transaction: QueryTransaction): unknown;
+}
+
+export function isAuditedModel(model: string | undefined): model is AuditedModel {
+  return auditedModels.includes(model as AuditedModel);
+}
+
+export function auditAction(model: AuditedModel, verb: AuditVerb | 'BULK_CREATED'): string {
+  return `${model.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase()}_${verb}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+// The only Json columns on the audited models: answers to custom fields.
+const JSON_FIELDS = new Set(['customFields']);
+
+// Drops related records pulled in by an `include`; apart from JSON_FIELDS, any
+// plain object or array of objects is a relation.
+function scalarFields(row: AuditRecord): AuditRecord {
+  return Object.fromEntries(
+    Object.entries(row).filter(
+      ([key, value]) =>
+        JSON_FIELDS.has(key) || (!isPlainObject(value) && !(Array.isArray(value) && value.some(isPlainObject)))
+    )
+  ) as AuditRecord;
+}
+
+// Dates, Decimals and the like as they would appear in JSON.
+function toJsonValue(value: unknown): unknown {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+// `row` restricted to the fields present in `shape`, so a narrowed result isn't
+// reported as every other field having been cleared.
+function pickFields(row: AuditRecord, shape: AuditRecord): AuditRecord {
+  return Object.fromEntries(Object.entries(row).filter(([field]) => field in shape)) as AuditRecord;
+}
+
+// Encrypted columns are compared as plaintext, since the same value encrypts
+// differently every time it's written: what the write returns is ciphertext,
+// while rows read back through the client are already decrypted.
+function comparable(value: unknown, encrypted: boolean): unknown {
+  return encrypted && typeof value === 'string' ? decryptValue(value) : toJsonValue(value);
+}
+
+// Field-by-field before/after for the scalar columns of a row. A create has
+// no "before" and a delete no "after"; only fields that differ are kept.
+// Encrypted fields are redacted like passwords, or the log would hold the
+// plaintext the encryption exists to keep out of the database.
+export function diffRecords(
+  before: AuditRecord | null,
+  after: AuditRecord | null,
+  encrypted: readonly string[] = []
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const isEncrypted = encrypted.includes(field);
+    const from = comparable(before?.[field] ?? null, isEncrypted);
+    const to = comparable(after?.[field] ?? null, isEncrypted);
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+
+    changes[field] = REDACTED_FIELDS.has(field) || isEncrypted
+      ? { before: from === null ? null : '[redacted]', after: to === null ? null : '[redacted]' }
+      : { before: from, after: to };
+  }
+
+  return changes;
+}
+
+// Records every write to the audited models in AuditLog, with the acting user
+// and request details from getAuditContext. The audit queries go through the
+// client being extended, so they don't recurse. Inside an interactive
+// transaction they join it: the rows around the write are read as the
+// transaction sees them, and the entries commit or roll back with the change,
+// so a failed audit write fails the transaction. Outside one, the change has
+// already happened by the time it's logged, so a failed audit write is logged
+// rather than thrown.
+// The branch a row belongs to: its own, or else its beneficiary's. Null for
+// rows that belong to neither.
+export async function recordBranchId(
+  record: Record<string, unknown> | null,
+  beneficiaryBranchId: (beneficiaryId: string) => Promise<string | null>
+): Promise<string | null> {
+  if (typeof record?.branchId === 'string') return record.branchId;
+  if (typeof record?.beneficiaryId === 'string') return beneficiaryBranchId(record.beneficiaryId);
+  return null;
+}
+
+export const auditExtension = Prisma.defineExtension((client) => {
+  type AuditClient = typeof client;
+
+  const clientFor = (transaction: QueryTransaction | undefined): AuditClient =>
+    transaction?.kind === 'itx'
+      ? ((client as unknown as TransactionalClient)._createItxClient(transaction) as AuditClient)
+      : client;
+
+  const delegateFor = (db: AuditClient, model: AuditedModel) =>
+    (db as unknown as Record<string, AuditDelegate>)[model.charAt(0).toLowerCase() + model.slice(1)];
+
+  const writeAudit = async (db: AuditClient, model: AuditedModel, write: () => Promise<unknown>) => {
+    if (db !== client) {
+      await write();
+      return;
+    }
+    try {
+      await write();
+    } catch (error) {
+      console.error(`Failed to write audit log for ${model}`, error);
+    }
+  };
+
+  const record = async (
+    db: AuditClient,
+    model: AuditedModel,
+    entries: { verb: AuditVerb; before: AuditRecord | null; after: AuditRecord | null }[]
+  ) => {
+    const changed = entries
+      .map((entry) => ({ ...entry, changes: diffRecords(entry.before, entry.after, encryptedFields[model]) }))
+      // Relation-only updates (connecting assignees, say) change no columns;
+      // callers that care log those themselves.
+      .filter(({ verb, changes }) => verb !== 'UPDATED' || Object.keys(changes).length > 0);
+    if (changed.length === 0) return;
+    await writeAudit(db, model, async () => {
+      const context = await getAuditContext();
+      const branches = new Map<string, Promise<string | null>>();
+      const beneficiaryBranchId = (id: string) => {
+        if (!branches.has(id)) {
+          branches.set(
+            id,
+            db.beneficiary.findUnique({ where: { id }, select: { branchId: true } }).then((row) => row?.branchId ?? null)
+          );
+        }
+        return branches.get(id)!;
+      };
+      const data = [];
+      for (const { verb, before, after, changes } of changed) {
+        data.push({
+          action: auditAction(model, verb),
+          entityType: model,
+          entityId: (after ?? before)?.id,
+          details: { changes } as Prisma.InputJsonObject,
+          ...context,
+          branchId: (await recordBranchId(after ?? before, beneficiaryBranchId)) ?? context.branchId ?? null,
+        });
+      }
+      await db.auditLog.createMany({ data });
+    });
+  };
+
+  return client.$extends({
+    name: 'audit',
+    query: {
+      $allModels: {
+        async $allOperations(params) {
+          const { model, operation, args, query } = params;
+          if (!isAuditedModel(model) || !WRITE_OPERATIONS.has(operation)) {
+            return query(args);
+          }
+
+          const { transaction } = (params as { __internalParams?: { transaction?: QueryTransaction } })
+            .__internalParams ?? {};
+          const db = clientFor(transaction);
+          const delegate = delegateFor(db, model);
+          const where = (args as { where?: unknown }).where;
+          // A `select` narrows the result, so fill in the other columns from a
+          // re-read. The result's own fields take precedence.
+          const written = async (result: AuditRecord) => {
+            const narrowed = !!(args as { select?: unknown }).select;
+            const lookup = result.id ? { id: result.id } : where;
+            const reread = narrowed && lookup ? await delegate.findUnique({ where: lookup }) : null;
+            return scalarFields({ ...reread, ...result });
+          };
+
+          switch (operation) {
+            case 'create': {
+              const result = (await query(args)) as AuditRecord;
+              await record(db, model, [{ verb: 'CREATED', before: null, after: await written(result) }]);
+              return result;
+            }
+            case 'createManyAndReturn': {
+              const result = (await query(args)) as AuditRecord[];
+              await record(
+                db,
+                model,
+                result.map((after) => ({ verb: 'CREATED', before: null, after: scalarFields(after) }))
+              );
+              return result;
+            }
+            case 'createMany': {
+              // createMany doesn't return ids, so only the count can be recorded.
+              const result = (await query(args)) as Prisma.BatchPayload;
+              await writeAudit(db, model, async () => {
+                const context = await getAuditContext();
+                await db.auditLog.create({
+                  data: {
+                    action: auditAction(model, 'BULK_CREATED'),
+                    entityType: model,
+                    details: { count: result.count },
+                    ...context,
+                  },
+                });
+              });
+              return result;
+            }
+            case 'update':
+            case 'upsert': {
+              const before = await delegate.findUnique({ where });
+              const result = (await query(args)) as AuditRecord;
+              const after = await written(result);
+              await record(db, model, [
+                before
+                  ? { verb: 'UPDATED', before: pickFields(before, after), after }
+                  : { verb: 'CREATED', before: null, after },
+              ]);
+              return result;
+            }
+            case 'updateMany': {
+              // updateMany returns only a count, so apply the plain values in
+              // `data` to each row read beforehand.
+              const befores = await delegate.findMany({ where });
+              const result = await query(args);
+              const data = scalarFields({ id: '', ...(args as { data?: object }).data });
+              await record(
+                db,
+                model,
+                befores.map((before) => ({ verb: 'UPDATED', before, after: { ...before, ...data, id: before.id } }))
+              );
+              return result;
+            }
+            case 'delete': {
+              const before = await delegate.findUnique({ where });
+              const result = await query(args);
+              if (before) await record(db, model, [{ verb: 'DELETED', before, after: null }]);
+              return result;
+            }
+            case 'deleteMany': {
+              const befores = await delegate.findMany({ where });
+              const result = await query(args);
+              await record(
+                db,
+                model,
+                befores.map((before) => ({ verb: 'DELETED', before, after: null }))
+              );
+              return result;
+            }
+            default:
+              return query(args);
+          }
+        },
+      },
+    },
+  });
+});
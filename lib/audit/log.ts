@@ -0,0 +1,58 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { getAuditContext, type AuditContext } from './context';
+import { isAuditedModel, recordBranchId } from './extension';
+
+export const AUDIT_ACTIONS = {
+  login: 'LOGIN',
+  loginFailed: 'LOGIN_FAILED',
+  dataExported: 'DATA_EXPORTED',
+  documentDownloaded: 'DOCUMENT_DOWNLOADED',
+  apiKeyIssued: 'API_KEY_ISSUED',
+  apiKeyRevoked: 'API_KEY_REVOKED',
+} as const;
+
+interface LogAuditOptions {
+  entityType?: string;
+  entityId?: string;
+  // Defaults to the current request; pass one explicitly where there is no
+  // session yet (logins) or the caller already knows the actor.
+  context?: Partial<AuditContext>;
+}
+
+// The branch of the record an entry is about, when it's in one.
+async function entityBranchId(entityType: string | undefined, entityId: string | undefined): Promise<string | null> {
+  if (!isAuditedModel(entityType) || !entityId) return null;
+  const delegate = (prisma as unknown as Record<string, { findUnique(args: object): Promise<Record<string, unknown> | null> }>)[
+    entityType.charAt(0).toLowerCase() + entityType.slice(1)
+  ];
+  const record = await delegate.findUnique({ where: { id: entityId } });
+  return recordBranchId(record, async (id) => {
+    const beneficiary = await prisma.beneficiary.findUnique({ where: { id }, select: { branchId: true } });
+    return beneficiary?.branchId ?? null;
+  });
+}
+
+// For events that aren't a row change: logins, exports, merges. Row changes on
+// the audited models are recorded by the Prisma extension in ./extension.
+export async function logAudit(
+  action: string,
+  details: Prisma.InputJsonObject,
+  { entityType, entityId, context }: LogAuditOptions = {}
+) {
+  const requestContext = context?.userId
+    ? { userId: context.userId, ipAddress: null, userAgent: null }
+    : await getAuditContext();
+  const actorContext = { ...requestContext, ...context };
+
+  await prisma.auditLog.create({
+    data: {
+      action,
+      entityType,
+      entityId,
+      details,
+      ...actorContext,
+      branchId: (await entityBranchId(entityType, entityId)) ?? actorContext.branchId ?? null,
+    },
+  });
+}
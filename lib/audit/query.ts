@@ -0,0 +1,102 @@
+import { z } from 'zod';
+import { addDays } from 'date-fns';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import type { Actor } from '../access';
+import { seesAllBranches } from '../permissions';
+import { firstParam, type SearchParams } from '../utils';
+
+export const AUDIT_PAGE_SIZE = 50;
+export const MAX_AUDIT_EXPORT_ROWS = 10000;
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const auditListParamsSchema = z.object({
+  userId: z.string().max(50).optional().catch(undefined),
+  entityType: z.string().max(50).optional().catch(undefined),
+  entityId: z.string().trim().max(50).optional().catch(undefined),
+  action: z.string().max(100).optional().catch(undefined),
+  from: isoDate.optional().catch(undefined),
+  to: isoDate.optional().catch(undefined),
+  page: z.coerce.number().int().min(1).default(1).catch(1),
+});
+
+export type AuditListParams = z.infer<typeof auditListParamsSchema>;
+
+export function parseAuditListParams(searchParams: SearchParams): AuditListParams {
+  return auditListParamsSchema.parse({
+    userId: firstParam(searchParams.userId),
+    entityType: firstParam(searchParams.entityType),
+    entityId: firstParam(searchParams.entityId),
+    action: firstParam(searchParams.action),
+    from: firstParam(searchParams.from),
+    to: firstParam(searchParams.to),
+    page: firstParam(searchParams.page),
+  });
+}
+
+export function buildAuditWhere(params: AuditListParams): Prisma.AuditLogWhereInput {
+  const where: Prisma.AuditLogWhereInput = {};
+
+  if (params.userId) where.userId = params.userId;
+  if (params.entityType) where.entityType = params.entityType;
+  if (params.entityId) where.entityId = params.entityId;
+  if (params.action) where.action = params.action;
+
+  // Both ends are whole days, so "to" includes everything on that date.
+  if (params.from || params.to) {
+    where.timestamp = {
+      ...(params.from && { gte: new Date(`${params.from}T00:00:00`) }),
+      ...(params.to && { lt: addDays(new Date(`${params.to}T00:00:00`), 1) }),
+    };
+  }
+
+  return where;
+}
+
+// The entries an actor can read: everything for a super admin, otherwise those
+// recorded against their branch. Entries written before the branch was
+// recorded go by who made them.
+export async function auditScope(actor: Actor): Promise<Prisma.AuditLogWhereInput> {
+  if (seesAllBranches(actor.role)) return {};
+  const users = await prisma.user.findMany({
+    where: { branchId: actor.branchId, role: { not: 'SUPER_ADMIN' } },
+    select: { id: true },
+  });
+  return {
+    OR: [{ branchId: actor.branchId }, { branchId: null, userId: { in: users.map((user) => user.id) } }],
+  };
+}
+
+export async function listAuditLogs(params: AuditListParams, actor: Actor) {
+  const where: Prisma.AuditLogWhereInput = { AND: [buildAuditWhere(params), await auditScope(actor)] };
+
+  const [items, total] = await prisma.$transaction([
+    prisma.auditLog.findMany({
+      where,
+      orderBy: [{ timestamp: 'desc' }, { id: 'asc' }],
+      skip: (params.page - 1) * AUDIT_PAGE_SIZE,
+      take: AUDIT_PAGE_SIZE,
+    }),
+    prisma.auditLog.count({ where }),
+  ]);
+
+  return {
+    items,
+    total,
+    page: params.page,
+    pageCount: Math.max(1, Math.ceil(total / AUDIT_PAGE_SIZE)),
+  };
+}
+
+export type AuditLogEntry = Awaited<ReturnType<typeof listAuditLogs>>['items'][number];
+
+// Actions that have actually been recorded, for the filter dropdown.
+export async function getAuditActions(actor: Actor): Promise<string[]> {
+  const rows = await prisma.auditLog.groupBy({
+    by: ['action'],
+    where: await auditScope(actor),
+    orderBy: { action: 'asc' },
+  });
+  return rows.map((row) => row.action);
+}
@@ -4,6 +4,9 @@ import CredentialsProvider from 'next-auth/providers/credentials';
 import { prisma } from './prisma';
 import { compare } from 'bcryptjs';
 import type { UserRole } from '@prisma/client';
+import { ANONYMOUS_USER_ID, contextFromHeaders } from './audit/context';
+import { AUDIT_ACTIONS, logAudit } from './audit/log';
+import { hasPermission, type Permission } from './permissions';
 
 export const { handlers, auth, signIn, signOut } = NextAuth({
   adapter: PrismaAdapter(prisma),
@@ -20,18 +23,32 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
         email: { label: 'Email', type: 'email' },
         password: { label: 'Password', type: 'password' },
       },
-      async authorize(credentials) {
+      async authorize(credentials, request) {
         if (!credentials?.email || !credentials?.password) {
           return null;
         }
 
+        const email = credentials.email as string;
+        // There's no session yet, so the actor comes from the attempt itself.
+        const recordAttempt = (action: string, userId: string, reason?: string) =>
+          logAudit(action, reason ? { email, reason } : { email }, {
+            entityType: 'User',
+            entityId: userId === ANONYMOUS_USER_ID ? undefined : userId,
+            context: contextFromHeaders(request.headers, userId),
+          });
+
         const user = await prisma.user.findUnique({
           where: {
-            email: credentials.email as string,
+            email,
           },
         });
 
         if (!user || !user.password) {
+          await recordAttempt(
+            AUDIT_ACTIONS.loginFailed,
+            user?.id ?? ANONYMOUS_USER_ID,
+            user ? 'no_password' : 'unknown_user'
+          );
           return null;
         }
 
@@ -41,14 +58,18 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
         );
 
         if (!isPasswordValid) {
+          await recordAttempt(AUDIT_ACTIONS.loginFailed, user.id, 'invalid_password');
           return null;
         }
 
+        await recordAttempt(AUDIT_ACTIONS.login, user.id);
+
         return {
           id: user.id,
           email: user.email,
           name: user.name,
           role: user.role,
+          branchId: user.branchId,
         };
       },
     }),
@@ -58,6 +79,7 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
       if (user) {
         token.id = user.id;
         token.role = (user as any).role;
+        token.branchId = (user as any).branchId;
       }
       return token;
     },
@@ -65,6 +87,7 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
       if (token && session.user) {
         session.user.id = token.id as string;
         session.user.role = token.role as UserRole;
+        session.user.branchId = token.branchId as string;
       }
       return session;
     },
@@ -92,3 +115,11 @@ export async function requireRole(allowedRoles: UserRole[]) {
   }
   return user;
 }
+
+export async function requirePermission(permission: Permission) {
+  const user = await requireAuth();
+  if (!hasPermission(user.role, permission)) {
+    throw new Error('Forbidden');
+  }
+  return user;
+}
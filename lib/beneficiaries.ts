@@ -0,0 +1,469 @@
+import { z } from 'zod';
+import type { CaseStatus, Prisma, ServiceType } from '@prisma/client';
+import { prisma } from './prisma';
+import { phoneSearchForms } from './countries';
+import { firstParam, type SearchParams } from './utils';
+import type { BeneficiaryInput } from './validation';
+import { beneficiaryScope, caseScope, type Actor } from './access';
+import {
+  applicableCustomFields,
+  mergeCustomFieldValues,
+  type CustomFieldDefinition,
+  type CustomFieldValues,
+} from './custom-fields/values';
+import { findDuplicateCandidates, queueDuplicateCandidates } from './duplicates';
+import { currentProgrammeIds } from './programmes/enrolments';
+import { isRecordScoped, maskBeneficiary } from './permissions';
+import { notify } from './notifications/send';
+import { emitWebhookEvent } from './webhooks/delivery';
+import { beneficiaryEventData } from './webhooks/events';
+
+export const BENEFICIARY_PAGE_SIZE = 25;
+
+export const beneficiarySortFields = [
+  'createdAt',
+  'firstName',
+  'lastName',
+  'category',
+  'status',
+  'priority',
+  'state',
+] as const;
+
+export type BeneficiarySortField = (typeof beneficiarySortFields)[number];
+
+export const CUSTOM_FIELD_PARAM_PREFIX = 'cf.';
+
+// Query-string filters for the beneficiary list. Everything lives in the URL
+// so a filtered view can be bookmarked and shared.
+export const beneficiaryListParamsSchema = z.object({
+  q: z.string().trim().max(100).optional().catch(undefined),
+  status: z.enum(['ACTIVE', 'INACTIVE', 'ARCHIVED', 'DECEASED']).optional().catch(undefined),
+  category: z
+    .enum(['HOMELESS', 'ELDERLY', 'DISABLED', 'LOW_INCOME', 'REFUGEE', 'ORPHAN', 'SICK', 'OTHER'])
+    .optional()
+    .catch(undefined),
+  priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).optional().catch(undefined),
+  tags: z.array(z.string().trim().min(1)).default([]).catch([]),
+  state: z.string().trim().max(100).optional().catch(undefined),
+  assignedToId: z.string().max(50).optional().catch(undefined),
+  // Answers to custom fields, from `cf.<key>` parameters.
+  customFields: z.record(z.string().trim().min(1).max(100)).default({}).catch({}),
+  sort: z.enum(beneficiarySortFields).default('createdAt').catch('createdAt'),
+  order: z.enum(['asc', 'desc']).default('desc').catch('desc'),
+  page: z.coerce.number().int().min(1).default(1).catch(1),
+});
+
+export type BeneficiaryListParams = z.infer<typeof beneficiaryListParamsSchema>;
+
+export function parseBeneficiaryListParams(searchParams: SearchParams): BeneficiaryListParams {
+  const rawTags = searchParams.tags;
+  const tags = (Array.isArray(rawTags) ? rawTags : rawTags ? [rawTags] : [])
+    .flatMap((tag) => tag.split(','))
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+  const customFields = Object.fromEntries(
+    Object.entries(searchParams)
+      .filter(([name]) => name.startsWith(CUSTOM_FIELD_PARAM_PREFIX))
+      .map(([name, value]) => [name.slice(CUSTOM_FIELD_PARAM_PREFIX.length), firstParam(value)?.trim()])
+      .filter(([, value]) => value)
+  );
+
+  return beneficiaryListParamsSchema.parse({
+    q: firstParam(searchParams.q),
+    status: firstParam(searchParams.status),
+    category: firstParam(searchParams.category),
+    priority: firstParam(searchParams.priority),
+    tags,
+    state: firstParam(searchParams.state),
+    assignedToId: firstParam(searchParams.assignedToId),
+    customFields,
+    sort: firstParam(searchParams.sort),
+    order: firstParam(searchParams.order),
+    page: firstParam(searchParams.page),
+  });
+}
+
+// Matches a custom field's answer the way its input is filled in: one of the
+// options, ticked or not, or part of a text. Null for a value the field could
+// never hold.
+function customFieldFilter(field: CustomFieldDefinition, value: string): Prisma.BeneficiaryWhereInput | null {
+  const path = [field.key];
+  switch (field.type) {
+    case 'SELECT':
+    case 'DATE':
+      return { customFields: { path, equals: value } };
+    case 'MULTI_SELECT':
+      return { customFields: { path, array_contains: [value] } };
+    case 'BOOLEAN':
+      return value === 'true' || value === 'false' ? { customFields: { path, equals: value === 'true' } } : null;
+    case 'NUMBER':
+      return Number.isFinite(Number(value)) ? { customFields: { path, equals: Number(value) } } : null;
+    case 'TEXT':
+      // Json filters have no case-insensitive mode.
+      return { customFields: { path, string_contains: value } };
+  }
+}
+
+// `customFields` are the fields the list can be filtered by; parameters for
+// any other key are ignored.
+export function buildBeneficiaryWhere(
+  params: BeneficiaryListParams,
+  customFields: CustomFieldDefinition[] = []
+): Prisma.BeneficiaryWhereInput {
+  const where: Prisma.BeneficiaryWhereInput = {};
+  const and: Prisma.BeneficiaryWhereInput[] = [];
+
+  // Equality filters on status/category hit their single-column indexes.
+  if (params.status) where.status = params.status;
+  if (params.category) where.category = params.category;
+  if (params.priority) where.priority = params.priority;
+  if (params.state) where.state = { equals: params.state, mode: 'insensitive' };
+  if (params.tags.length > 0) where.tags = { hasEvery: params.tags };
+
+  if (params.assignedToId === 'unassigned') {
+    where.assignedToId = null;
+  } else if (params.assignedToId) {
+    where.assignedToId = params.assignedToId;
+  }
+
+  if (params.q) {
+    const terms = params.q.split(/\s+/).filter(Boolean);
+    // Every term has to match one of the searchable columns, so "ahmad
+    // 0123456789" narrows by name and phone at the same time. IC / passport and
+    // phone numbers are encrypted, so they only match whole: the blind index
+    // ignores punctuation, and a local phone number is tried as one from each
+    // branch country, but a partial number never matches.
+    and.push(
+      ...terms.map((term) => {
+        const phones = phoneSearchForms(term);
+        return {
+          OR: [
+            { firstName: { contains: term, mode: 'insensitive' as const } },
+            { lastName: { contains: term, mode: 'insensitive' as const } },
+            { idNumber: term },
+            ...(phones.length > 0 ? [{ phone: { in: phones } }] : []),
+          ],
+        };
+      })
+    );
+  }
+
+  for (const [key, value] of Object.entries(params.customFields)) {
+    const field = customFields.find((candidate) => candidate.key === key);
+    const filter = field && customFieldFilter(field, value);
+    if (filter) and.push(filter);
+  }
+
+  if (and.length > 0) where.AND = and;
+  return where;
+}
+
+export function buildBeneficiaryOrderBy(
+  params: BeneficiaryListParams
+): Prisma.BeneficiaryOrderByWithRelationInput[] {
+  // Tie-break on id so offset pagination is stable between pages.
+  return [{ [params.sort]: params.order }, { id: 'asc' }];
+}
+
+export async function listBeneficiaries(
+  params: BeneficiaryListParams,
+  actor: Actor,
+  customFields: CustomFieldDefinition[] = []
+) {
+  const where: Prisma.BeneficiaryWhereInput = {
+    AND: [buildBeneficiaryWhere(params, customFields), beneficiaryScope(actor)],
+  };
+
+  const [items, total] = await prisma.$transaction([
+    prisma.beneficiary.findMany({
+      where,
+      orderBy: buildBeneficiaryOrderBy(params),
+      skip: (params.page - 1) * BENEFICIARY_PAGE_SIZE,
+      take: BENEFICIARY_PAGE_SIZE,
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        idNumber: true,
+        phone: true,
+        category: true,
+        status: true,
+        priority: true,
+        state: true,
+        tags: true,
+        createdAt: true,
+        assignedTo: { select: { id: true, name: true } },
+      },
+    }),
+    prisma.beneficiary.count({ where }),
+  ]);
+
+  return {
+    items: items.map((item) => maskBeneficiary(item, actor.role)),
+    total,
+    page: params.page,
+    pageCount: Math.max(1, Math.ceil(total / BENEFICIARY_PAGE_SIZE)),
+  };
+}
+
+export type BeneficiaryListItem = Awaited<ReturnType<typeof listBeneficiaries>>['items'][number];
+
+function blankToNull(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+// Maps validated form input onto the columns Prisma expects: empty strings from
+// optional inputs become NULL so they don't trip the idNumber unique index.
+// Answers to custom fields are left to the caller, since an edit keeps those
+// the form didn't show and an import doesn't touch them.
+export function toBeneficiaryData(input: BeneficiaryInput) {
+  return {
+    firstName: input.firstName.trim(),
+    lastName: input.lastName.trim(),
+    dateOfBirth: input.dateOfBirth ?? null,
+    gender: input.gender ?? null,
+    nationality: blankToNull(input.nationality),
+    idNumber: blankToNull(input.idNumber),
+    phone: blankToNull(input.phone),
+    email: blankToNull(input.email),
+    address: blankToNull(input.address),
+    city: blankToNull(input.city),
+    state: blankToNull(input.state),
+    postcode: blankToNull(input.postcode),
+    emergencyName: blankToNull(input.emergencyName),
+    emergencyPhone: blankToNull(input.emergencyPhone),
+    emergencyRelation: blankToNull(input.emergencyRelation),
+    category: input.category,
+    status: input.status,
+    priority: input.priority,
+    monthlyIncome: input.monthlyIncome ?? null,
+    notes: blankToNull(input.notes),
+    tags: Array.from(new Set(input.tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))),
+    source: blankToNull(input.source),
+  } satisfies Omit<Prisma.BeneficiaryUncheckedCreateInput, 'createdById' | 'branchId'>;
+}
+
+// The answers an edit saves: those to the fields shown for the new category
+// and the beneficiary's programmes replace the stored ones, and the rest are
+// kept.
+export async function editedCustomFields(
+  beneficiaryId: string,
+  input: BeneficiaryInput,
+  customFields: CustomFieldDefinition[]
+): Promise<CustomFieldValues> {
+  const [stored, programmeIds] = await Promise.all([
+    prisma.beneficiary.findUniqueOrThrow({ where: { id: beneficiaryId }, select: { customFields: true } }),
+    currentProgrammeIds(beneficiaryId),
+  ]);
+  const shown = applicableCustomFields(customFields, { category: input.category, programmeIds });
+  return mergeCustomFieldValues(stored.customFields, input.customFields, shown);
+}
+
+// Saves a new beneficiary, queues any likely existing records for the same
+// person so an admin can make the final call, and tells webhook subscribers.
+// `branchId` is the branch whose country `input` was validated for (see
+// resolveBranch); `clientId` is set for registrations made offline.
+export async function registerBeneficiary(
+  input: BeneficiaryInput,
+  actor: Actor,
+  { branchId, source, clientId }: { branchId: string; source: string; clientId?: string }
+) {
+  const beneficiary = await prisma.beneficiary.create({
+    data: {
+      ...toBeneficiaryData(input),
+      customFields: input.customFields,
+      branchId,
+      source,
+      clientId,
+      createdById: actor.id,
+      // Otherwise a field worker would lose sight of the record they just registered.
+      ...(isRecordScoped(actor.role) && { assignedToId: actor.id }),
+    },
+  });
+
+  const matches = await findDuplicateCandidates(beneficiary, beneficiary.id);
+  await queueDuplicateCandidates(
+    matches.map((match) => ({
+      beneficiaryId: beneficiary.id,
+      duplicateOfId: match.id,
+      score: match.score,
+      reasons: match.reasons,
+    }))
+  );
+  await emitWebhookEvent('beneficiary.registered', [beneficiaryEventData(beneficiary)]);
+
+  return beneficiary;
+}
+
+// Makes `assigneeId` the beneficiary's primary worker, or leaves them without
+// one, and lets the new worker know.
+export async function assignBeneficiary(beneficiaryId: string, assigneeId: string | null, actor: Actor) {
+  const current = await prisma.beneficiary.findUniqueOrThrow({
+    where: { id: beneficiaryId },
+    select: { assignedToId: true },
+  });
+  if (current.assignedToId === assigneeId) return;
+
+  const updated = await prisma.beneficiary.update({
+    where: { id: beneficiaryId },
+    data: { assignedToId: assigneeId },
+    select: { firstName: true, lastName: true },
+  });
+  if (assigneeId) {
+    await notify(
+      [assigneeId],
+      {
+        type: 'BENEFICIARY_ASSIGNED',
+        data: { name: `${updated.firstName} ${updated.lastName}` },
+        href: `/beneficiaries/${beneficiaryId}`,
+      },
+      { except: actor.id }
+    );
+  }
+}
+
+export const timelineEventTypes = ['service', 'case', 'document'] as const;
+
+export type TimelineEventType = (typeof timelineEventTypes)[number];
+
+// The timeline component words each event in the reader's language from
+// what happened: the service given, the case status reached (null when the
+// case was opened) or the document uploaded.
+export type TimelineEvent = {
+  id: string;
+  date: Date;
+  description?: string | null;
+  actor?: string | null;
+  href?: string;
+} & (
+  | { type: 'service'; serviceType: ServiceType; quantity: number | null }
+  | { type: 'case'; caseTitle: string; status: CaseStatus | null }
+  | { type: 'document'; name: string; documentType: string }
+);
+
+// Merges service records, case status changes and document uploads for one
+// beneficiary into a single newest-first timeline. Cases are limited to the
+// ones `actor` may see.
+export async function getBeneficiaryTimeline(
+  beneficiaryId: string,
+  actor: Actor,
+  types: readonly TimelineEventType[] = timelineEventTypes
+): Promise<TimelineEvent[]> {
+  const [services, cases, documents] = await Promise.all([
+    types.includes('service')
+      ? prisma.service.findMany({
+          where: { beneficiaryId },
+          include: { providedBy: { select: { name: true } } },
+        })
+      : [],
+    types.includes('case')
+      ? prisma.case.findMany({
+          where: { beneficiaryId, ...caseScope(actor) },
+          include: {
+            createdBy: { select: { name: true } },
+            statusHistory: {
+              where: { fromStatus: { not: null } },
+              include: { changedBy: { select: { name: true } } },
+            },
+          },
+        })
+      : [],
+    types.includes('document')
+      ? prisma.document.findMany({
+          where: { beneficiaryId },
+          include: { uploadedBy: { select: { name: true } } },
+        })
+      : [],
+  ]);
+
+  const events: TimelineEvent[] = [];
+
+  for (const service of services) {
+    events.push({
+      id: `service-${service.id}`,
+      type: 'service',
+      date: service.date,
+      serviceType: service.type,
+      quantity: service.quantity,
+      description: service.description ?? service.location,
+      actor: service.providedBy.name,
+    });
+  }
+
+  for (const c of cases) {
+    events.push({
+      id: `case-${c.id}-opened`,
+      type: 'case',
+      date: c.createdAt,
+      caseTitle: c.title,
+      status: null,
+      description: c.description,
+      actor: c.createdBy.name,
+      href: `/cases/${c.id}`,
+    });
+    for (const change of c.statusHistory) {
+      events.push({
+        id: `case-${c.id}-${change.id}`,
+        type: 'case',
+        date: change.createdAt,
+        caseTitle: c.title,
+        status: change.toStatus,
+        description: change.reason,
+        actor: change.changedBy.name,
+        href: `/cases/${c.id}`,
+      });
+    }
+    // Cases resolved before status history was kept only have the timestamp.
+    if (c.resolvedAt && c.statusHistory.length === 0) {
+      events.push({
+        id: `case-${c.id}-resolved`,
+        type: 'case',
+        date: c.resolvedAt,
+        caseTitle: c.title,
+        status: 'RESOLVED',
+        href: `/cases/${c.id}`,
+      });
+    }
+  }
+
+  for (const document of documents) {
+    events.push({
+      id: `document-${document.id}`,
+      type: 'document',
+      date: document.createdAt,
+      name: document.name,
+      documentType: document.type,
+      actor: document.uploadedBy.name,
+    });
+  }
+
+  return events.sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+// Headline totals for the profile page, summed from Service.quantity and
+// Service.cost per service type.
+export async function getBeneficiaryServiceTotals(beneficiaryId: string) {
+  const rows = await prisma.service.groupBy({
+    by: ['type'],
+    where: { beneficiaryId },
+    _sum: { quantity: true, cost: true },
+    _count: { _all: true },
+  });
+
+  const quantityOf = (type: string) => rows.find((row) => row.type === type)?._sum.quantity ?? 0;
+
+  return {
+    servicesCount: rows.reduce((sum, row) => sum + row._count._all, 0),
+    mealsDelivered: quantityOf('FOOD_DISTRIBUTION'),
+    shelterNights: quantityOf('SHELTER_ADMISSION'),
+    aidCost: rows.reduce((sum, row) => sum + Number(row._sum.cost ?? 0), 0),
+    byType: rows.map((row) => ({
+      type: row.type,
+      count: row._count._all,
+      quantity: row._sum.quantity ?? 0,
+      cost: Number(row._sum.cost ?? 0),
+    })),
+  };
+}
@@ -0,0 +1,39 @@
+import type { Branch, Country } from '@prisma/client';
+import type { Actor } from './access';
+import { seesAllBranches } from './permissions';
+import { prisma } from './prisma';
+
+export function listBranches(): Promise<Branch[]> {
+  return prisma.branch.findMany({ orderBy: [{ country: 'asc' }, { name: 'asc' }] });
+}
+
+// Where a new beneficiary is registered: the branch named in `input` for
+// roles that see every branch, otherwise the actor's own. Read before the rest
+// of the input is validated, because the branch's country decides how. Null
+// when the named branch doesn't exist.
+export async function resolveBranch(actor: Actor, input: unknown): Promise<Branch | null> {
+  const requested =
+    typeof input === 'object' && input !== null && 'branchId' in input && typeof input.branchId === 'string'
+      ? input.branchId
+      : undefined;
+  const id = requested && seesAllBranches(actor.role) ? requested : actor.branchId;
+  return prisma.branch.findUnique({ where: { id } });
+}
+
+// The country an existing beneficiary's details are checked against.
+export async function beneficiaryCountry(beneficiaryId: string): Promise<Country> {
+  const { branch } = await prisma.beneficiary.findUniqueOrThrow({
+    where: { id: beneficiaryId },
+    select: { branch: { select: { country: true } } },
+  });
+  return branch.country;
+}
+
+// Cases and services always belong to their beneficiary's branch.
+export async function beneficiaryBranchId(beneficiaryId: string): Promise<string> {
+  const { branchId } = await prisma.beneficiary.findUniqueOrThrow({
+    where: { id: beneficiaryId },
+    select: { branchId: true },
+  });
+  return branchId;
+}
@@ -0,0 +1,45 @@
+import type { CaseStatus, UserRole } from '@prisma/client';
+import { hasPermission } from './permissions';
+import type { LocalizedMessage } from './i18n/errors';
+
+// Allowed case status moves. Cases normally go OPEN → IN_PROGRESS → RESOLVED
+// → CLOSED; an open case can also be closed outright (withdrawn, duplicate,
+// unreachable). Moving a resolved or closed case back to OPEN is a reopen and
+// needs the case:reopen permission.
+export const caseTransitions: Record<CaseStatus, readonly CaseStatus[]> = {
+  OPEN: ['IN_PROGRESS', 'CLOSED'],
+  IN_PROGRESS: ['RESOLVED', 'CLOSED'],
+  RESOLVED: ['CLOSED', 'OPEN'],
+  CLOSED: ['OPEN'],
+};
+
+export const terminalCaseStatuses: readonly CaseStatus[] = ['RESOLVED', 'CLOSED'];
+
+// Statuses a case may be created in; the rest are only reachable by a transition.
+export const initialCaseStatuses = ['OPEN', 'IN_PROGRESS'] as const;
+
+export function isTerminalCaseStatus(status: CaseStatus): boolean {
+  return terminalCaseStatuses.includes(status);
+}
+
+export function isReopen(from: CaseStatus, to: CaseStatus): boolean {
+  return isTerminalCaseStatus(from) && !isTerminalCaseStatus(to);
+}
+
+// Resolving, closing and reopening all need a written reason for the history.
+export function transitionRequiresReason(from: CaseStatus, to: CaseStatus): boolean {
+  return isTerminalCaseStatus(to) || isReopen(from, to);
+}
+
+// Why `role` can't move a case from `from` to `to`, or null if it can.
+export function getTransitionError(from: CaseStatus, to: CaseStatus, role: UserRole): LocalizedMessage | null {
+  if (from === to) return { key: 'sameCaseStatus' };
+  if (!caseTransitions[from].includes(to)) return { key: 'caseTransitionNotAllowed', values: { from, to } };
+  if (!hasPermission(role, 'case:update')) return { key: 'caseUpdateNotPermitted' };
+  if (isReopen(from, to) && !hasPermission(role, 'case:reopen')) return { key: 'caseReopenNotPermitted' };
+  return null;
+}
+
+export function getAllowedTransitions(from: CaseStatus, role: UserRole): CaseStatus[] {
+  return caseTransitions[from].filter((to) => getTransitionError(from, to, role) === null);
+}
@@ -0,0 +1,234 @@
+import { z } from 'zod';
+import type { CaseStatus, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { caseScope, type Actor } from './access';
+import { beneficiaryBranchId } from './branches';
+import { logAudit } from './audit/log';
+import { LocalizedError } from './i18n/errors';
+import { getTransitionError, isReopen, transitionRequiresReason } from './case-workflow';
+import { hasPermission, isRecordScoped, rolesWith } from './permissions';
+import { firstParam, type SearchParams } from './utils';
+import type { CaseInput } from './validation';
+import { notify } from './notifications/send';
+import { emitWebhookEvent } from './webhooks/delivery';
+import { caseStatusEventData } from './webhooks/events';
+
+export const CASE_PAGE_SIZE = 25;
+
+export const caseListParamsSchema = z.object({
+  q: z.string().trim().max(100).optional().catch(undefined),
+  status: z.enum(['OPEN', 'IN_PROGRESS', 'RESOLVED', 'CLOSED']).optional().catch(undefined),
+  type: z
+    .enum(['FOOD', 'SHELTER', 'HEALTHCARE', 'EDUCATION', 'IDENTITY_DOCUMENTS', 'EMPLOYMENT', 'OTHER'])
+    .optional()
+    .catch(undefined),
+  priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).optional().catch(undefined),
+  assigned: z.enum(['me', 'unassigned']).optional().catch(undefined),
+  page: z.coerce.number().int().min(1).default(1).catch(1),
+});
+
+export type CaseListParams = z.infer<typeof caseListParamsSchema>;
+
+export function parseCaseListParams(searchParams: SearchParams): CaseListParams {
+  return caseListParamsSchema.parse({
+    q: firstParam(searchParams.q),
+    status: firstParam(searchParams.status),
+    type: firstParam(searchParams.type),
+    priority: firstParam(searchParams.priority),
+    assigned: firstParam(searchParams.assigned),
+    page: firstParam(searchParams.page),
+  });
+}
+
+export function buildCaseWhere(params: CaseListParams, actor: Actor): Prisma.CaseWhereInput {
+  const where: Prisma.CaseWhereInput = { ...caseScope(actor) };
+
+  if (params.status) where.status = params.status;
+  if (params.type) where.type = params.type;
+  if (params.priority) where.priority = params.priority;
+
+  // Either replaces the scope's own assignedTo filter, which is at least as narrow.
+  if (params.assigned === 'me') where.assignedTo = { some: { id: actor.id } };
+  if (params.assigned === 'unassigned' && !isRecordScoped(actor.role)) where.assignedTo = { none: {} };
+
+  if (params.q) {
+    where.OR = [
+      { title: { contains: params.q, mode: 'insensitive' } },
+      { beneficiary: { firstName: { contains: params.q, mode: 'insensitive' } } },
+      { beneficiary: { lastName: { contains: params.q, mode: 'insensitive' } } },
+    ];
+  }
+
+  return where;
+}
+
+export async function listCases(params: CaseListParams, actor: Actor) {
+  const where = buildCaseWhere(params, actor);
+
+  const [items, total] = await prisma.$transaction([
+    prisma.case.findMany({
+      where,
+      // Most urgent open work first; priority sorts by enum declaration order.
+      orderBy: [{ status: 'asc' }, { priority: 'desc' }, { createdAt: 'desc' }, { id: 'asc' }],
+      skip: (params.page - 1) * CASE_PAGE_SIZE,
+      take: CASE_PAGE_SIZE,
+      select: {
+        id: true,
+        title: true,
+        type: true,
+        priority: true,
+        status: true,
+        createdAt: true,
+        beneficiary: { select: { id: true, firstName: true, lastName: true } },
+        assignedTo: { select: { id: true, name: true } },
+      },
+    }),
+    prisma.case.count({ where }),
+  ]);
+
+  return {
+    items,
+    total,
+    page: params.page,
+    pageCount: Math.max(1, Math.ceil(total / CASE_PAGE_SIZE)),
+  };
+}
+
+export type CaseListItem = Awaited<ReturnType<typeof listCases>>['items'][number];
+
+// Creates the case with its assignees and the first status-history entry.
+// Without case:assign the creator is the only assignee, and a record-scoped
+// creator is always added so the case stays visible to them. The case goes to
+// the beneficiary's branch, and requested assignees from other branches are
+// dropped.
+export async function openCase(input: CaseInput, actor: Actor) {
+  const branchId = await beneficiaryBranchId(input.beneficiaryId);
+  const requested = hasPermission(actor.role, 'case:assign') ? input.assigneeIds : [];
+  const assignable = requested.length
+    ? await prisma.user.findMany({ where: { id: { in: requested }, branchId }, select: { id: true } })
+    : [];
+  const assigneeIds = new Set(assignable.map((user) => user.id));
+  if (!hasPermission(actor.role, 'case:assign') || isRecordScoped(actor.role)) {
+    assigneeIds.add(actor.id);
+  }
+
+  const created = await prisma.case.create({
+    data: {
+      title: input.title.trim(),
+      description: input.description.trim(),
+      type: input.type,
+      priority: input.priority,
+      status: input.status,
+      beneficiaryId: input.beneficiaryId,
+      branchId,
+      createdById: actor.id,
+      assignedTo: { connect: Array.from(assigneeIds, (id) => ({ id })) },
+      statusHistory: { create: { toStatus: input.status, changedById: actor.id } },
+    },
+  });
+
+  // Assignees are a relation, which the automatic row diff doesn't cover.
+  if (assigneeIds.size > 0) {
+    await logAudit(
+      'CASE_ASSIGNEE_ADDED',
+      { assigneeIds: Array.from(assigneeIds) },
+      { entityType: 'Case', entityId: created.id }
+    );
+  }
+
+  const href = `/cases/${created.id}`;
+  await notify(assigneeIds, { type: 'CASE_ASSIGNED', data: { title: created.title }, href }, { except: actor.id });
+  if (created.priority === 'URGENT') {
+    const triagers = await prisma.user.findMany({
+      where: { role: { in: rolesWith('case:assign') }, branchId },
+      select: { id: true },
+    });
+    await notify(
+      triagers.map((user) => user.id),
+      { type: 'URGENT_CASE_OPENED', data: { title: created.title }, href },
+      { except: actor.id }
+    );
+  }
+
+  return created;
+}
+
+export async function addCaseAssignee(caseId: string, assigneeId: string, actor: Actor) {
+  const updated = await prisma.case.update({
+    where: { id: caseId },
+    data: { assignedTo: { connect: { id: assigneeId } } },
+    select: { title: true },
+  });
+  await logAudit('CASE_ASSIGNEE_ADDED', { assigneeIds: [assigneeId] }, { entityType: 'Case', entityId: caseId });
+  await notify(
+    [assigneeId],
+    { type: 'CASE_ASSIGNED', data: { title: updated.title }, href: `/cases/${caseId}` },
+    { except: actor.id }
+  );
+}
+
+export async function removeCaseAssignee(caseId: string, assigneeId: string) {
+  await prisma.case.update({
+    where: { id: caseId },
+    data: { assignedTo: { disconnect: { id: assigneeId } } },
+  });
+  await logAudit('CASE_ASSIGNEE_REMOVED', { assigneeIds: [assigneeId] }, { entityType: 'Case', entityId: caseId });
+}
+
+// A transition the workflow doesn't allow.
+export class CaseTransitionError extends LocalizedError {}
+
+// Moves a case to `to`, maintaining resolvedAt and appending to the status
+// history in the same transaction. The current status is re-read inside the
+// transaction so two workers acting at once can't both apply a transition
+// from the same starting point.
+export async function transitionCaseStatus(caseId: string, to: CaseStatus, reason: string | undefined, actor: Actor) {
+  const { current, change } = await prisma.$transaction(async (tx) => {
+    const current = await tx.case.findUniqueOrThrow({
+      where: { id: caseId },
+      select: { status: true, resolvedAt: true, title: true, beneficiaryId: true },
+    });
+
+    const error = getTransitionError(current.status, to, actor.role);
+    if (error) throw new CaseTransitionError(error.key, error.values);
+    if (transitionRequiresReason(current.status, to) && !reason) {
+      throw new CaseTransitionError('caseTransitionReasonRequired', { status: to });
+    }
+
+    const resolvedAt = to === 'RESOLVED' ? new Date() : isReopen(current.status, to) ? null : current.resolvedAt;
+
+    const { count } = await tx.case.updateMany({
+      where: { id: caseId, status: current.status },
+      data: { status: to, resolvedAt },
+    });
+    if (count === 0) {
+      throw new CaseTransitionError('caseChangedMeanwhile');
+    }
+
+    const change = await tx.caseStatusChange.create({
+      data: {
+        caseId,
+        fromStatus: current.status,
+        toStatus: to,
+        reason: reason || null,
+        changedById: actor.id,
+      },
+    });
+    return { current, change };
+  });
+
+  await emitWebhookEvent('case.status_changed', [
+    caseStatusEventData({ ...change, title: current.title, beneficiaryId: current.beneficiaryId }),
+  ]);
+  return change;
+}
+
+export async function getCaseStatusHistory(caseId: string) {
+  return prisma.caseStatusChange.findMany({
+    where: { caseId },
+    include: { changedBy: { select: { name: true } } },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+export type CaseStatusHistoryEntry = Awaited<ReturnType<typeof getCaseStatusHistory>>[number];
@@ -0,0 +1,157 @@
+import type { Country } from '@prisma/client';
+import { looksLikeMyKad, normalizePassportNumber, parseMyKad } from './mykad';
+
+// What differs between the countries branches operate in: how phone numbers,
+// postcodes and identity cards are written, and the currency services are
+// costed in. The beneficiary form reads them too, for format hints and to
+// fill in a MyKad holder's birth date and gender.
+
+export const countries = ['MY', 'NZ', 'EG', 'ID', 'JP'] as const satisfies readonly Country[];
+
+interface NationalIdRule {
+  matches(value: string): boolean;
+  // The stored form, and what lookups by ID number compare against.
+  normalize(value: string): string;
+  example: string;
+}
+
+export interface CountryRules {
+  dialCode: string;
+  // Phones are stored in international form, e.g. +60123456789.
+  phone: RegExp;
+  phoneExample: string;
+  postcode: RegExp;
+  postcodeExample: string;
+  currency: string;
+  // How citizens write their nationality, e.g. "Malaysian" or "WNI".
+  nationality: RegExp;
+  // The identity card citizens are registered with. New Zealand has none, so
+  // everyone there is identified by a passport or refugee card.
+  nationalId: NationalIdRule | null;
+}
+
+const compact = (value: string) => value.replace(/[\s-]/g, '');
+
+function numericId(pattern: RegExp, example: string): NationalIdRule {
+  return { matches: (value) => pattern.test(compact(value)), normalize: compact, example };
+}
+
+export const countryRules: Record<Country, CountryRules> = {
+  MY: {
+    dialCode: '60',
+    phone: /^\+60\d{9,10}$/,
+    phoneExample: '+60123456789',
+    postcode: /^\d{5}$/,
+    postcodeExample: '50450',
+    currency: 'MYR',
+    nationality: /^(malaysia|malaysian|my|mys|warganegara( malaysia)?)$/i,
+    nationalId: {
+      matches: looksLikeMyKad,
+      normalize: (value) => parseMyKad(value)?.normalized ?? value.trim(),
+      example: '850101-14-5523',
+    },
+  },
+  NZ: {
+    dialCode: '64',
+    phone: /^\+64\d{8,10}$/,
+    phoneExample: '+64211234567',
+    postcode: /^\d{4}$/,
+    postcodeExample: '6011',
+    currency: 'NZD',
+    nationality: /^(new zealand|new zealander|nz|nzl)$/i,
+    nationalId: null,
+  },
+  EG: {
+    dialCode: '20',
+    phone: /^\+20\d{10}$/,
+    phoneExample: '+201001234567',
+    postcode: /^\d{5}$/,
+    postcodeExample: '11511',
+    currency: 'EGP',
+    nationality: /^(egypt|egyptian|eg|egy)$/i,
+    // 14 digits, the first giving the century of birth.
+    nationalId: numericId(/^[23]\d{13}$/, '29001011234567'),
+  },
+  ID: {
+    dialCode: '62',
+    phone: /^\+62\d{9,12}$/,
+    phoneExample: '+6281234567890',
+    postcode: /^\d{5}$/,
+    postcodeExample: '10110',
+    currency: 'IDR',
+    nationality: /^(indonesia|indonesian|id|idn|wni)$/i,
+    // Nomor Induk Kependudukan (NIK) from the KTP.
+    nationalId: numericId(/^\d{16}$/, '3171011234567890'),
+  },
+  JP: {
+    dialCode: '81',
+    phone: /^\+81\d{9,10}$/,
+    phoneExample: '+819012345678',
+    postcode: /^\d{3}-?\d{4}$/,
+    postcodeExample: '100-0001',
+    currency: 'JPY',
+    nationality: /^(japan|japanese|jp|jpn)$/i,
+    // My Number. Foreign residents are registered with their residence card,
+    // which the passport format covers.
+    nationalId: numericId(/^\d{12}$/, '123456789012'),
+  },
+};
+
+// 012-345 6789 / 60123456789 / +6012 345 6789 → +60123456789. Local numbers
+// in every country here start with a 0 trunk prefix.
+export function toInternationalPhone(value: string, country: Country): string {
+  const digits = value.replace(/[^\d+]/g, '');
+  const { dialCode } = countryRules[country];
+  if (!digits) return '';
+  if (digits.startsWith('+')) return digits;
+  if (digits.startsWith(dialCode)) return `+${digits}`;
+  if (digits.startsWith('0')) return `+${dialCode}${digits.slice(1)}`;
+  return digits;
+}
+
+export function isLocalPhone(value: string): boolean {
+  return value.replace(/[^\d+]/g, '').startsWith('0');
+}
+
+// The digits of a phone number in international form, which is how numbers
+// are matched: +60 12-345 6789 and 60123456789 are the same number. A local
+// number is read as one from `country`; stored numbers are already
+// international and don't need it.
+export function normalizePhone(value: string, country?: Country): string {
+  return (country ? toInternationalPhone(value, country) : value).replace(/\D/g, '');
+}
+
+// A number typed into a search, in international form for each country it
+// could be from. Empty when the term isn't a phone number at all.
+export function phoneSearchForms(value: string): string[] {
+  if (!/^\+?[\d\s-]{6,}$/.test(value)) return [];
+  return Array.from(new Set(countries.map((country) => toInternationalPhone(value, country))));
+}
+
+export function isCitizen(country: Country, nationality: string | null | undefined): boolean {
+  return !!nationality && countryRules[country].nationality.test(nationality.trim());
+}
+
+export type IdDocumentType = 'national' | 'passport';
+
+// Citizens carry the country's identity card; everyone else (refugees,
+// migrant workers) is identified by a passport or UNHCR card. When
+// nationality is blank the number's shape decides.
+export function getIdDocumentType(
+  country: Country,
+  idNumber: string,
+  nationality?: string | null
+): IdDocumentType {
+  const nationalId = countryRules[country].nationalId;
+  if (!nationalId) return 'passport';
+  if (nationality?.trim()) return isCitizen(country, nationality) ? 'national' : 'passport';
+  return nationalId.matches(idNumber) ? 'national' : 'passport';
+}
+
+export function normalizeIdNumber(country: Country, idNumber: string, nationality?: string | null): string {
+  const nationalId = countryRules[country].nationalId;
+  if (nationalId && getIdDocumentType(country, idNumber, nationality) === 'national') {
+    return nationalId.normalize(idNumber);
+  }
+  return normalizePassportNumber(idNumber);
+}
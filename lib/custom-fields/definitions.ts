@@ -0,0 +1,80 @@
+import type { CustomFieldEntity } from '@prisma/client';
+import { prisma } from '../prisma';
+import { logAudit } from '../audit/log';
+import type { CustomFieldInput } from '../validation';
+
+const definitionSelect = {
+  id: true,
+  key: true,
+  label: true,
+  helpText: true,
+  type: true,
+  options: true,
+  required: true,
+  categories: true,
+  serviceTypes: true,
+  programmeIds: true,
+} as const;
+
+// The fields shown on the forms for `entity`, in the order admins chose.
+// Archived fields are hidden but their answers are kept.
+export function getCustomFields(entity: CustomFieldEntity) {
+  return prisma.customField.findMany({
+    where: { entity, archivedAt: null },
+    orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    select: definitionSelect,
+  });
+}
+
+export type ActiveCustomField = Awaited<ReturnType<typeof getCustomFields>>[number];
+
+export function listCustomFields() {
+  return prisma.customField.findMany({
+    orderBy: [{ entity: 'asc' }, { archivedAt: { sort: 'asc', nulls: 'first' } }, { position: 'asc' }, { createdAt: 'asc' }],
+  });
+}
+
+export function getCustomField(id: string) {
+  return prisma.customField.findUnique({ where: { id } });
+}
+
+function toData(input: CustomFieldInput) {
+  return {
+    label: input.label,
+    helpText: input.helpText || null,
+    options: input.options,
+    required: input.required,
+    categories: input.categories,
+    serviceTypes: input.serviceTypes,
+    programmeIds: input.programmeIds,
+    position: input.position,
+  };
+}
+
+export async function createCustomField(input: CustomFieldInput) {
+  const field = await prisma.customField.create({
+    data: { ...toData(input), entity: input.entity, key: input.key, type: input.type },
+  });
+  await logAudit(
+    'CUSTOM_FIELD_CREATED',
+    { entity: field.entity, key: field.key, type: field.type },
+    { entityType: 'CustomField', entityId: field.id }
+  );
+  return field;
+}
+
+// The entity, key and type can't change once answers may be stored under them,
+// so only the rest of `input` is saved.
+export async function updateCustomField(id: string, input: CustomFieldInput) {
+  const data = toData(input);
+  await prisma.customField.update({ where: { id }, data });
+  await logAudit('CUSTOM_FIELD_UPDATED', data, { entityType: 'CustomField', entityId: id });
+}
+
+export async function setCustomFieldArchived(id: string, archived: boolean) {
+  await prisma.customField.update({ where: { id }, data: { archivedAt: archived ? new Date() : null } });
+  await logAudit(archived ? 'CUSTOM_FIELD_ARCHIVED' : 'CUSTOM_FIELD_RESTORED', {}, {
+    entityType: 'CustomField',
+    entityId: id,
+  });
+}
@@ -0,0 +1,110 @@
+import { z } from 'zod';
+import type { BeneficiaryCategory, CustomField, CustomFieldType, ServiceType } from '@prisma/client';
+import { localizedIssue } from '../i18n/zod';
+
+// Answers to admin-defined fields: how they're validated, which records they
+// apply to and how they're shown. The forms pick the fields to show with the
+// same rules the server checks the answers with.
+
+export const customFieldEntities = ['BENEFICIARY', 'SERVICE'] as const;
+export const customFieldTypes = ['TEXT', 'NUMBER', 'DATE', 'SELECT', 'MULTI_SELECT', 'BOOLEAN'] as const;
+
+// The types that take their answers from `options`.
+export const choiceTypes: readonly CustomFieldType[] = ['SELECT', 'MULTI_SELECT'];
+
+export type CustomFieldDefinition = Pick<
+  CustomField,
+  'key' | 'label' | 'helpText' | 'type' | 'options' | 'required' | 'categories' | 'serviceTypes' | 'programmeIds'
+>;
+
+// Stored as JSON: dates as YYYY-MM-DD, multi-selects as the chosen options.
+// Blank answers are left out rather than stored empty.
+export type CustomFieldValue = string | number | boolean | string[];
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+// The fields shown for a record of this category or service type, in these
+// programmes. A field scoped to programmes needs one of them to match.
+export function applicableCustomFields<T extends CustomFieldDefinition>(
+  fields: T[],
+  scope: { category?: BeneficiaryCategory | null; serviceType?: ServiceType | null; programmeIds?: string[] }
+): T[] {
+  return fields.filter(
+    (field) =>
+      (field.categories.length === 0 || (!!scope.category && field.categories.includes(scope.category))) &&
+      (field.serviceTypes.length === 0 || (!!scope.serviceType && field.serviceTypes.includes(scope.serviceType))) &&
+      (field.programmeIds.length === 0 || field.programmeIds.some((id) => scope.programmeIds?.includes(id)))
+  );
+}
+
+// Form inputs hand over '' for an empty text, number or date input.
+const blankToUndefined = (value: unknown) => (value === '' || value === null ? undefined : value);
+
+function valueSchema(field: CustomFieldDefinition): z.ZodTypeAny {
+  const isOption = (value: string) => field.options.includes(value);
+  switch (field.type) {
+    case 'TEXT':
+      return z.string().trim().max(1000);
+    case 'NUMBER':
+      return z.coerce.number().finite();
+    case 'DATE':
+      return z.string().refine((value) => /^\d{4}-\d{2}-\d{2}$/.test(value), localizedIssue('invalidDate'));
+    case 'SELECT':
+      return z.string().refine(isOption, localizedIssue('chooseOption'));
+    case 'MULTI_SELECT': {
+      const choices = z.array(z.string().refine(isOption, localizedIssue('chooseOption'))).max(field.options.length);
+      return field.required ? choices.min(1) : choices;
+    }
+    case 'BOOLEAN':
+      // A required checkbox has to be ticked, e.g. for consent.
+      return field.required ? z.boolean().refine(Boolean, localizedIssue('mustBeTicked')) : z.boolean();
+  }
+}
+
+// The schema for a record's answers, generated from the fields that apply to
+// it. Answers to any other key are dropped.
+export function customFieldValuesSchema(fields: CustomFieldDefinition[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const field of fields) {
+    const schema = valueSchema(field);
+    shape[field.key] = z.preprocess(
+      field.type === 'TEXT' ? (value) => (typeof value === 'string' && !value.trim() ? undefined : value) : blankToUndefined,
+      field.required ? schema : schema.optional()
+    );
+  }
+  return z
+    .object(shape)
+    .transform((values) =>
+      Object.fromEntries(
+        Object.entries(values).filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0))
+      ) as CustomFieldValues
+    );
+}
+
+// What's saved when a record is edited: the answers to the fields shown on the
+// form replace the stored ones, and answers to archived fields or fields for
+// another category are kept.
+export function mergeCustomFieldValues(
+  stored: unknown,
+  submitted: CustomFieldValues,
+  shown: Pick<CustomFieldDefinition, 'key'>[]
+): CustomFieldValues {
+  const kept = Object.entries(toCustomFieldValues(stored)).filter(([key]) => !shown.some((field) => field.key === key));
+  return { ...Object.fromEntries(kept), ...submitted };
+}
+
+// A record's stored answers, for code that reads the Json column.
+export function toCustomFieldValues(value: unknown): CustomFieldValues {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as CustomFieldValues) : {};
+}
+
+export function formatCustomFieldValue(
+  field: Pick<CustomFieldDefinition, 'type'>,
+  value: CustomFieldValue | undefined,
+  labels: { yes: string; no: string; formatDate: (date: Date) => string }
+): string {
+  if (value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (typeof value === 'boolean') return value ? labels.yes : labels.no;
+  if (field.type === 'DATE' && typeof value === 'string') return labels.formatDate(new Date(`${value}T00:00:00Z`));
+  return String(value);
+}
@@ -0,0 +1,320 @@
+import { unstable_cache } from 'next/cache';
+import { Prisma, type BeneficiaryCategory, type CaseStatus, type ServiceType } from '@prisma/client';
+import { prisma } from './prisma';
+import { beneficiaryScope, caseScope, distributionEventScope, serviceScope, type Actor } from './access';
+import { isRecordScoped, seesAllBranches } from './permissions';
+
+// Dashboard aggregates are cached for a few minutes, one copy for everyone who
+// sees the whole organisation and one per record-scoped worker. Server actions
+// that change the underlying data already call revalidatePath('/dashboard'),
+// which drops these entries too; the timeout only bounds staleness from
+// anything else (imports run as scripts, say).
+export const DASHBOARD_CACHE_SECONDS = 300;
+export const TREND_MONTHS = 12;
+const TOP_STATES = 8;
+const ACTIVE_CASE_STATUSES = ['OPEN', 'IN_PROGRESS'] as const;
+
+export interface MonthlyPoint {
+  // `YYYY-MM`, in UTC like the stored timestamps.
+  month: string;
+  value: number;
+}
+
+// Cached figures are shared by readers in every language, so a breakdown
+// carries the enum value or state name and the page puts it into words.
+export interface BreakdownItem {
+  // null for beneficiaries with no state recorded.
+  key: string | null;
+  value: number;
+}
+
+// The key that gathers every state past the top few.
+export const OTHER_STATES = 'OTHER';
+
+export interface DashboardMetrics {
+  // Cached values round-trip through JSON, so dates are ISO strings.
+  generatedAt: string;
+  totalBeneficiaries: number;
+  newBeneficiariesThisMonth: number;
+  newBeneficiariesLastMonth: number;
+  activeCases: number;
+  servicesThisMonth: number;
+  servicesLastMonth: number;
+  servicesThisMonthByType: BreakdownItem[];
+  trends: {
+    beneficiaries: MonthlyPoint[];
+    cases: MonthlyPoint[];
+    services: MonthlyPoint[];
+  };
+  byCategory: BreakdownItem[];
+  byState: BreakdownItem[];
+}
+
+// Percentage change from `previous` to `current`, or null when there is no
+// previous value to compare against.
+export function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return Math.round(((current - previous) / previous) * 1000) / 10;
+}
+
+function monthStart(date: Date, offset = 0): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + offset, 1));
+}
+
+function monthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+// The last TREND_MONTHS months, oldest first, with zeroes for empty months.
+function toMonthlyPoints(counts: Map<string, number>, now: Date): MonthlyPoint[] {
+  return Array.from({ length: TREND_MONTHS }, (_, i) => {
+    const month = monthKey(monthStart(now, i - TREND_MONTHS + 1));
+    return { month, value: counts.get(month) ?? 0 };
+  });
+}
+
+type TrendSource = { table: 'Beneficiary' | 'Case' | 'Service'; column: 'createdAt' | 'date' };
+
+// Org-wide and branch trends are grouped in the database so they stay cheap
+// as the tables grow; a scoped worker's caseload is small enough to bucket
+// here. Every trend table carries its branch.
+async function monthlyCounts(source: TrendSource, since: Date, branchId?: string): Promise<Map<string, number>> {
+  const rows = await prisma.$queryRaw<{ month: Date; count: number }[]>(Prisma.sql`
+    SELECT date_trunc('month', ${Prisma.raw(`"${source.column}"`)}) AS month, COUNT(*)::int AS count
+    FROM ${Prisma.raw(`"${source.table}"`)}
+    WHERE ${Prisma.raw(`"${source.column}"`)} >= ${since}
+      ${branchId ? Prisma.sql`AND "branchId" = ${branchId}` : Prisma.empty}
+    GROUP BY 1
+  `);
+  return new Map(rows.map((row) => [monthKey(row.month), row.count]));
+}
+
+function bucketByMonth(dates: Date[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const date of dates) {
+    const key = monthKey(date);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+async function scopedTrends(actor: Actor, since: Date) {
+  const [beneficiaries, cases, services] = await Promise.all([
+    prisma.beneficiary.findMany({
+      where: { AND: [beneficiaryScope(actor), { createdAt: { gte: since } }] },
+      select: { createdAt: true },
+    }),
+    prisma.case.findMany({
+      where: { AND: [caseScope(actor), { createdAt: { gte: since } }] },
+      select: { createdAt: true },
+    }),
+    prisma.service.findMany({
+      where: { AND: [serviceScope(actor), { date: { gte: since } }] },
+      select: { date: true },
+    }),
+  ]);
+  return {
+    beneficiaries: bucketByMonth(beneficiaries.map((row) => row.createdAt)),
+    cases: bucketByMonth(cases.map((row) => row.createdAt)),
+    services: bucketByMonth(services.map((row) => row.date)),
+  };
+}
+
+// `actor` is null for roles that see every record in every branch.
+async function computeDashboardMetrics(actor: Actor | null): Promise<DashboardMetrics> {
+  const now = new Date();
+  const thisMonth = monthStart(now);
+  const nextMonth = monthStart(now, 1);
+  const since = monthStart(now, -TREND_MONTHS + 1);
+
+  const beneficiaryWhere = actor ? beneficiaryScope(actor) : {};
+  const caseWhere = actor ? caseScope(actor) : {};
+  const serviceWhere = actor ? serviceScope(actor) : {};
+
+  const [totalBeneficiaries, activeCases, servicesByType, categories, states, trendCounts] = await Promise.all([
+    prisma.beneficiary.count({ where: beneficiaryWhere }),
+    prisma.case.count({ where: { AND: [caseWhere, { status: { in: [...ACTIVE_CASE_STATUSES] } }] } }),
+    prisma.service.groupBy({
+      by: ['type'],
+      where: { AND: [serviceWhere, { date: { gte: thisMonth, lt: nextMonth } }] },
+      _count: { _all: true },
+    }),
+    prisma.beneficiary.groupBy({ by: ['category'], where: beneficiaryWhere, _count: { _all: true } }),
+    prisma.beneficiary.groupBy({ by: ['state'], where: beneficiaryWhere, _count: { _all: true } }),
+    actor && isRecordScoped(actor.role)
+      ? scopedTrends(actor, since)
+      : Promise.all([
+          monthlyCounts({ table: 'Beneficiary', column: 'createdAt' }, since, actor?.branchId),
+          monthlyCounts({ table: 'Case', column: 'createdAt' }, since, actor?.branchId),
+          monthlyCounts({ table: 'Service', column: 'date' }, since, actor?.branchId),
+        ]).then(([beneficiaries, cases, services]) => ({ beneficiaries, cases, services })),
+  ]);
+
+  const trends = {
+    beneficiaries: toMonthlyPoints(trendCounts.beneficiaries, now),
+    cases: toMonthlyPoints(trendCounts.cases, now),
+    services: toMonthlyPoints(trendCounts.services, now),
+  };
+  const lastTwo = (points: MonthlyPoint[]) => [points[points.length - 1].value, points[points.length - 2].value];
+  const [newBeneficiariesThisMonth, newBeneficiariesLastMonth] = lastTwo(trends.beneficiaries);
+  const [, servicesLastMonth] = lastTwo(trends.services);
+
+  const sortedStates = states
+    .map((row) => ({ key: row.state, value: row._count._all }))
+    .sort((a, b) => b.value - a.value);
+  const otherStates = sortedStates.slice(TOP_STATES).reduce((sum, item) => sum + item.value, 0);
+
+  return {
+    generatedAt: now.toISOString(),
+    totalBeneficiaries,
+    newBeneficiariesThisMonth,
+    newBeneficiariesLastMonth,
+    activeCases,
+    servicesThisMonth: servicesByType.reduce((sum, row) => sum + row._count._all, 0),
+    servicesLastMonth,
+    servicesThisMonthByType: servicesByType
+      .map((row) => ({ key: row.type, value: row._count._all }))
+      .sort((a, b) => b.value - a.value),
+    trends,
+    byCategory: categories
+      .map((row) => ({ key: row.category, value: row._count._all }))
+      .sort((a, b) => b.value - a.value),
+    byState: [
+      ...sortedStates.slice(0, TOP_STATES),
+      ...(otherStates > 0 ? [{ key: OTHER_STATES, value: otherStates }] : []),
+    ],
+  };
+}
+
+const cachedDashboardMetrics = unstable_cache(computeDashboardMetrics, ['dashboard-metrics'], {
+  revalidate: DASHBOARD_CACHE_SECONDS,
+});
+
+// The actor is the cache key, so it's cut down to what the scopes read: the id
+// only matters to record-scoped roles, and everyone else in a branch with the
+// same role shares one entry.
+export function getDashboardMetrics(actor: Actor): Promise<DashboardMetrics> {
+  if (isRecordScoped(actor.role)) {
+    return cachedDashboardMetrics({ id: actor.id, role: actor.role, branchId: actor.branchId });
+  }
+  if (seesAllBranches(actor.role)) return cachedDashboardMetrics(null);
+  return cachedDashboardMetrics({ id: '', role: actor.role, branchId: actor.branchId });
+}
+
+export type ActivityKind = 'beneficiary' | 'case' | 'service' | 'distribution';
+
+// What happened, as data; the activity feed words it in the reader's language.
+export type ActivityItem = {
+  id: string;
+  href: string;
+  at: Date;
+  by: string;
+} & (
+  | { kind: 'beneficiary'; name: string; category: BeneficiaryCategory }
+  | { kind: 'case'; title: string; fromStatus: CaseStatus | null; toStatus: CaseStatus }
+  | { kind: 'service'; name: string; type: ServiceType }
+  | { kind: 'distribution'; type: ServiceType; location: string; served: number }
+);
+
+// The newest registrations, case status changes, services and distribution
+// events, merged. Not cached: it's a handful of indexed lookups and should
+// show a change the moment it's made.
+export async function getRecentActivity(actor: Actor, limit = 10): Promise<ActivityItem[]> {
+  const [beneficiaries, statusChanges, services, events] = await Promise.all([
+    prisma.beneficiary.findMany({
+      where: beneficiaryScope(actor),
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        category: true,
+        createdAt: true,
+        createdBy: { select: { name: true } },
+      },
+    }),
+    prisma.caseStatusChange.findMany({
+      where: { case: caseScope(actor) },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        fromStatus: true,
+        toStatus: true,
+        createdAt: true,
+        changedBy: { select: { name: true } },
+        case: { select: { id: true, title: true } },
+      },
+    }),
+    // Services from a distribution event show up once, as the event.
+    prisma.service.findMany({
+      where: { AND: [serviceScope(actor), { distributionEventId: null }] },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        type: true,
+        createdAt: true,
+        providedBy: { select: { name: true } },
+        beneficiary: { select: { id: true, firstName: true, lastName: true } },
+      },
+    }),
+    prisma.distributionEvent.findMany({
+      where: distributionEventScope(actor),
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        type: true,
+        location: true,
+        createdAt: true,
+        createdBy: { select: { name: true } },
+        _count: { select: { services: true } },
+      },
+    }),
+  ]);
+
+  const items: ActivityItem[] = [
+    ...beneficiaries.map((row) => ({
+      id: `beneficiary-${row.id}`,
+      kind: 'beneficiary' as const,
+      name: `${row.firstName} ${row.lastName}`,
+      category: row.category,
+      href: `/beneficiaries/${row.id}`,
+      at: row.createdAt,
+      by: row.createdBy.name,
+    })),
+    ...statusChanges.map((row) => ({
+      id: `case-${row.id}`,
+      kind: 'case' as const,
+      title: row.case.title,
+      fromStatus: row.fromStatus,
+      toStatus: row.toStatus,
+      href: `/cases/${row.case.id}`,
+      at: row.createdAt,
+      by: row.changedBy.name,
+    })),
+    ...services.map((row) => ({
+      id: `service-${row.id}`,
+      kind: 'service' as const,
+      name: `${row.beneficiary.firstName} ${row.beneficiary.lastName}`,
+      type: row.type,
+      href: `/beneficiaries/${row.beneficiary.id}`,
+      at: row.createdAt,
+      by: row.providedBy.name,
+    })),
+    ...events.map((row) => ({
+      id: `distribution-${row.id}`,
+      kind: 'distribution' as const,
+      type: row.type,
+      location: row.location,
+      served: row._count.services,
+      href: `/services/events/${row.id}`,
+      at: row.createdAt,
+      by: row.createdBy.name,
+    })),
+  ];
+
+  return items.sort((a, b) => b.at.getTime() - a.at.getTime()).slice(0, limit);
+}
@@ -0,0 +1,195 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// A small in-memory stand-in for the Prisma client: enough of its filters
+// (equality, `in`, AND / OR and JSON paths) for what an erasure touches.
+const db = vi.hoisted(() => {
+  type Row = Record<string, unknown>;
+  const tables: Record<string, Row[]> = {};
+
+  const valueAt = (value: unknown, path: string[]) =>
+    path.reduce<unknown>((current, key) => (current as Row | undefined)?.[key], value);
+
+  const matches = (row: Row, where: Row = {}): boolean =>
+    Object.entries(where).every(([key, condition]) => {
+      if (key === 'AND') return (condition as Row[]).every((part) => matches(row, part));
+      if (key === 'OR') return (condition as Row[]).some((part) => matches(row, part));
+      if (condition === null) return row[key] === null || row[key] === undefined;
+      if (typeof condition !== 'object') return row[key] === condition;
+      const filter = condition as { in?: unknown[]; path?: string[]; equals?: unknown };
+      if (filter.in) return filter.in.includes(row[key]);
+      if (filter.path) return valueAt(row[key], filter.path) === filter.equals;
+      throw new Error(`Unsupported filter on ${key}`);
+    });
+
+  const pick = (row: Row, select?: Record<string, boolean>) =>
+    select ? Object.fromEntries(Object.keys(select).map((key) => [key, row[key]])) : row;
+
+  const model = (name: string) => {
+    const rows = () => (tables[name] ??= []);
+    return {
+      findMany: async ({ where, select }: { where?: Row; select?: Record<string, boolean> } = {}) =>
+        rows().filter((row) => matches(row, where)).map((row) => pick(row, select)),
+      findFirst: async ({ where, select }: { where?: Row; select?: Record<string, boolean> } = {}) => {
+        const row = rows().find((candidate) => matches(candidate, where));
+        return row ? pick(row, select) : null;
+      },
+      update: async ({ where, data }: { where: Row; data: Row }) => {
+        const row = rows().find((candidate) => matches(candidate, where));
+        if (!row) throw new Error(`No ${name} to update`);
+        return Object.assign(row, data);
+      },
+      updateMany: async ({ where, data }: { where?: Row; data: Row }) => {
+        const matched = rows().filter((row) => matches(row, where));
+        matched.forEach((row) => Object.assign(row, data));
+        return { count: matched.length };
+      },
+      deleteMany: async ({ where }: { where?: Row } = {}) => {
+        const kept = rows().filter((row) => !matches(row, where));
+        const count = rows().length - kept.length;
+        tables[name] = kept;
+        return { count };
+      },
+    };
+  };
+
+  const client: Record<string, unknown> = new Proxy(
+    {},
+    {
+      get: (_, name: string) =>
+        name === '$transaction' ? (work: (tx: unknown) => unknown) => work(client) : model(name),
+    }
+  );
+  return { tables, client };
+});
+
+vi.mock('../prisma', () => ({ prisma: db.client }));
+vi.mock('../audit/log', () => ({ logAudit: vi.fn() }));
+vi.mock('../storage', () => ({ getStorage: () => ({ delete: vi.fn(async () => undefined) }) }));
+
+import { carryOutErasure } from './erasure';
+
+const IDENTIFYING = [
+  'Aminah',
+  'Binti Ali',
+  '850101-14-5523',
+  '012-3456789',
+  'aminah@example.com',
+  'Jalan Ampang',
+  'Eviction from the flat in Jalan Ampang',
+  'Landlord threatened Aminah',
+  'Husband left in March',
+  'Rent arrears of RM900',
+  'Diabetic, needs insulin',
+  'ic-front.jpg',
+];
+
+const actor = { id: 'admin', role: 'SUPER_ADMIN' as const, branchId: 'branch-1' };
+
+function seed() {
+  for (const name of Object.keys(db.tables)) delete db.tables[name];
+  Object.assign(db.tables, {
+    dataRequest: [{ id: 'request', type: 'ERASURE', status: 'APPROVED', beneficiaryId: 'b1' }],
+    beneficiary: [
+      {
+        id: 'b1',
+        firstName: 'Aminah',
+        lastName: 'Binti Ali',
+        idNumber: '850101-14-5523',
+        phone: '012-3456789',
+        email: 'aminah@example.com',
+        address: 'No 1, Jalan Ampang',
+        notes: 'Husband left in March',
+        tags: ['single-mother'],
+        category: 'SINGLE_MOTHER',
+      },
+      { id: 'b2', firstName: 'Siti', lastName: 'Hassan', category: 'OTHER' },
+    ],
+    case: [
+      { id: 'c1', beneficiaryId: 'b1', title: 'Eviction from the flat in Jalan Ampang', description: 'Landlord threatened Aminah' },
+      { id: 'c2', beneficiaryId: 'b2', title: 'School fees', description: 'Two children' },
+    ],
+    caseStatusChange: [{ id: 'sc1', caseId: 'c1', toStatus: 'CLOSED', reason: 'Rent arrears of RM900' }],
+    service: [{ id: 's1', beneficiaryId: 'b1', type: 'FOOD', description: 'Diabetic, needs insulin', notes: null, customFields: {} }],
+    enrolment: [{ id: 'e1', beneficiaryId: 'b1', endReason: 'Husband left in March', overrideReason: null }],
+    assessment: [{ id: 'a1', beneficiaryId: 'b1', answers: { health: 'Diabetic, needs insulin' }, overrideReason: null }],
+    document: [{ id: 'd1', beneficiaryId: 'b1', name: 'ic-front.jpg', url: 'documents/b1/ic-front.jpg' }],
+    duplicateCandidate: [{ id: 'dc1', beneficiaryId: 'b2', duplicateOfId: 'b1' }],
+    notification: [
+      { id: 'n1', href: '/beneficiaries/b1', title: 'Aminah was assigned to you' },
+      { id: 'n2', href: '/cases/c1', title: 'Eviction from the flat in Jalan Ampang is overdue' },
+      { id: 'n3', href: '/cases/c2', title: 'School fees is overdue' },
+    ],
+    webhookDelivery: [
+      {
+        id: 'w1',
+        event: 'beneficiary.registered',
+        payload: { event: 'beneficiary.registered', data: { id: 'b1', firstName: 'Aminah', lastName: 'Binti Ali' } },
+      },
+      {
+        id: 'w2',
+        event: 'case.status_changed',
+        payload: {
+          event: 'case.status_changed',
+          data: { caseId: 'c1', beneficiaryId: 'b1', title: 'Eviction from the flat in Jalan Ampang', reason: 'Rent arrears of RM900' },
+        },
+      },
+      { id: 'w3', event: 'service.logged', payload: { event: 'service.logged', data: { id: 's1', beneficiaryId: 'b1' } } },
+      {
+        id: 'w4',
+        event: 'beneficiary.registered',
+        payload: { event: 'beneficiary.registered', data: { id: 'b2', firstName: 'Siti', lastName: 'Hassan' } },
+      },
+    ],
+    auditLog: [
+      { id: 'l1', entityId: 'b1', details: { changes: { firstName: { before: null, after: 'Aminah' }, category: { before: null, after: 'SINGLE_MOTHER' } } } },
+      { id: 'l2', entityId: 'c1', details: { changes: { title: { before: null, after: 'Eviction from the flat in Jalan Ampang' } } } },
+      { id: 'l3', entityId: 'b1', details: { mergedName: 'Aminah Binti Ali', mergedRecord: { idNumber: '850101-14-5523' } } },
+      { id: 'l4', entityId: 'a1', details: { changes: { answers: { before: null, after: { health: 'Diabetic, needs insulin' } } } } },
+      { id: 'l5', entityId: 'd1', details: { changes: { name: { before: null, after: 'ic-front.jpg' } } } },
+    ],
+  });
+}
+
+describe('carryOutErasure', () => {
+  beforeEach(seed);
+
+  it('leaves nothing that identifies the beneficiary anywhere', async () => {
+    await carryOutErasure('request', actor);
+
+    const remaining = JSON.stringify(db.tables);
+    for (const value of IDENTIFYING) {
+      expect(remaining).not.toContain(value);
+    }
+  });
+
+  it('keeps what reports need and everyone else', async () => {
+    const summary = await carryOutErasure('request', actor);
+
+    expect(summary).toEqual({
+      beneficiaryId: 'b1',
+      cases: 1,
+      services: 1,
+      documents: 1,
+      webhookDeliveries: 3,
+      auditEntries: 5,
+    });
+    expect(db.tables.beneficiary[0]).toMatchObject({ id: 'b1', category: 'SINGLE_MOTHER', status: 'INACTIVE' });
+    expect(db.tables.service).toEqual([expect.objectContaining({ id: 's1', type: 'FOOD' })]);
+    expect(db.tables.caseStatusChange).toEqual([expect.objectContaining({ toStatus: 'CLOSED', reason: null })]);
+    expect(db.tables.auditLog[0].details).toEqual({
+      changes: { firstName: { before: null, after: '[erased]' }, category: { before: null, after: 'SINGLE_MOTHER' } },
+    });
+
+    const remaining = JSON.stringify(db.tables);
+    for (const value of ['Siti', 'Hassan', 'School fees', 'Two children']) {
+      expect(remaining).toContain(value);
+    }
+    expect(db.tables.webhookDelivery.map((delivery) => delivery.id)).toEqual(['w4']);
+    expect(db.tables.notification.map((notification) => notification.id)).toEqual(['n3']);
+  });
+
+  it('only runs once', async () => {
+    await carryOutErasure('request', actor);
+    await expect(carryOutErasure('request', actor)).rejects.toMatchObject({ key: 'erasureRequestNotApproved' });
+  });
+});
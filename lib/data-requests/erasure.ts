@@ -0,0 +1,236 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import type { Actor } from '../access';
+import { logAudit } from '../audit/log';
+import { getStorage } from '../storage';
+import { dataRequestScope, DataRequestError } from './requests';
+
+// A few hundred services plus their audit entries can outlast Prisma's 5s default.
+const TRANSACTION_TIMEOUT_MS = 30_000;
+const ERASED = '[erased]';
+
+// What an erased beneficiary keeps: category, priority and state, which
+// reports group by, and when and by whom the record was created. Everything
+// that identifies the person goes.
+const anonymizedBeneficiary = {
+  firstName: 'Anonymized',
+  lastName: 'beneficiary',
+  dateOfBirth: null,
+  gender: null,
+  nationality: null,
+  idNumber: null,
+  phone: null,
+  email: null,
+  address: null,
+  city: null,
+  postcode: null,
+  emergencyName: null,
+  emergencyPhone: null,
+  emergencyRelation: null,
+  monthlyIncome: null,
+  notes: null,
+  tags: [],
+  customFields: {},
+  photoUrl: null,
+  source: null,
+  externalId: null,
+  assignedToId: null,
+  status: 'INACTIVE',
+} satisfies Prisma.BeneficiaryUncheckedUpdateInput;
+
+// Free-text and identifying columns whose old values the audit log may hold
+// for the erased records. Statuses, types, amounts and dates stay readable.
+const PERSONAL_AUDIT_FIELDS = new Set([
+  ...Object.keys(anonymizedBeneficiary).filter((field) => field !== 'status'),
+  'title',
+  'description',
+  'location',
+  'name',
+  'endReason',
+  'overrideReason',
+  'answers',
+]);
+
+export interface ErasureSummary {
+  cases: number;
+  services: number;
+  documents: number;
+  webhookDeliveries: number;
+  auditEntries: number;
+}
+
+// Webhook deliveries about the beneficiary: their registration, which quotes
+// their name, and their cases' and services' events, which quote case titles
+// and reasons (see lib/webhooks/events.ts).
+function webhookDeliveriesAbout(beneficiaryId: string): Prisma.WebhookDeliveryWhereInput {
+  return {
+    OR: [
+      { event: 'beneficiary.registered', payload: { path: ['data', 'id'], equals: beneficiaryId } },
+      { payload: { path: ['data', 'beneficiaryId'], equals: beneficiaryId } },
+    ],
+  };
+}
+
+function isJsonObject(value: Prisma.JsonValue | undefined): value is Prisma.JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// The entry's details with personal values replaced; null if there were none.
+function scrubAuditDetails(details: Prisma.JsonValue): Prisma.JsonObject | null {
+  if (!isJsonObject(details)) return null;
+  const scrubbed: Prisma.JsonObject = { ...details };
+  let changed = false;
+
+  if (isJsonObject(details.changes)) {
+    const changes: Prisma.JsonObject = { ...details.changes };
+    for (const [field, change] of Object.entries(changes)) {
+      if (!PERSONAL_AUDIT_FIELDS.has(field) || !isJsonObject(change)) continue;
+      const erase = (value: Prisma.JsonValue | undefined) => (value === null || value === undefined ? null : ERASED);
+      const next = { before: erase(change.before), after: erase(change.after) };
+      if (next.before !== (change.before ?? null) || next.after !== (change.after ?? null)) {
+        changes[field] = next;
+        changed = true;
+      }
+    }
+    scrubbed.changes = changes;
+  }
+  // Merge entries keep a copy of the record that was merged in.
+  if ('mergedRecord' in details) {
+    delete scrubbed.mergedRecord;
+    changed = true;
+  }
+  if (typeof details.mergedName === 'string' && details.mergedName !== ERASED) {
+    scrubbed.mergedName = ERASED;
+    changed = true;
+  }
+
+  return changed ? scrubbed : null;
+}
+
+async function scrubAuditEntries(entityIds: string[]): Promise<number> {
+  const entries = await prisma.auditLog.findMany({
+    where: { entityId: { in: entityIds } },
+    select: { id: true, details: true },
+  });
+  let count = 0;
+  for (const entry of entries) {
+    const details = scrubAuditDetails(entry.details);
+    if (!details) continue;
+    await prisma.auditLog.update({ where: { id: entry.id }, data: { details } });
+    count++;
+  }
+  return count;
+}
+
+// Carries out an approved erasure request. The beneficiary row stays, stripped
+// of everything identifying, so their services still count in reports and
+// dashboards; case, service and enrolment free text and assessment answers are
+// cleared (scores and priorities stay), documents are deleted along with their
+// files, webhook deliveries about them are deleted whether sent or not, and the
+// audit trail keeps what happened but not the personal values. The request is
+// marked completed in the same transaction, so it can only run once.
+export async function carryOutErasure(
+  requestId: string,
+  actor: Actor
+): Promise<ErasureSummary & { beneficiaryId: string }> {
+  const request = await prisma.dataRequest.findFirst({
+    where: { AND: [{ id: requestId }, dataRequestScope(actor)] },
+    select: { type: true, status: true, beneficiaryId: true },
+  });
+  if (!request || request.type !== 'ERASURE') {
+    throw new DataRequestError('erasureRequestNotFound');
+  }
+  if (request.status !== 'APPROVED') {
+    throw new DataRequestError('erasureRequestNotApproved');
+  }
+  const beneficiaryId = request.beneficiaryId;
+  if (!beneficiaryId) {
+    throw new DataRequestError('erasureBeneficiaryGone');
+  }
+
+  const erased = await prisma.$transaction(
+    async (tx) => {
+      const { count } = await tx.dataRequest.updateMany({
+        where: { id: requestId, status: 'APPROVED' },
+        data: { status: 'COMPLETED', completedById: actor.id, completedAt: new Date() },
+      });
+      if (count === 0) {
+        throw new DataRequestError('erasureAlreadyCarriedOut');
+      }
+
+      const [cases, services, enrolments, assessments, documents] = await Promise.all([
+        tx.case.findMany({ where: { beneficiaryId }, select: { id: true } }),
+        tx.service.findMany({ where: { beneficiaryId }, select: { id: true } }),
+        tx.enrolment.findMany({ where: { beneficiaryId }, select: { id: true } }),
+        tx.assessment.findMany({ where: { beneficiaryId }, select: { id: true } }),
+        tx.document.findMany({ where: { beneficiaryId }, select: { id: true, url: true } }),
+      ]);
+      const caseIds = cases.map((c) => c.id);
+
+      await tx.document.deleteMany({ where: { beneficiaryId } });
+      await tx.duplicateCandidate.deleteMany({
+        where: { OR: [{ beneficiaryId }, { duplicateOfId: beneficiaryId }] },
+      });
+      await tx.case.updateMany({ where: { beneficiaryId }, data: { title: 'Anonymized case', description: '' } });
+      await tx.caseStatusChange.updateMany({ where: { caseId: { in: caseIds } }, data: { reason: null } });
+      await tx.service.updateMany({
+        where: { beneficiaryId },
+        data: { description: null, notes: null, customFields: {} },
+      });
+      await tx.enrolment.updateMany({ where: { beneficiaryId }, data: { endReason: null, overrideReason: null } });
+      await tx.assessment.updateMany({ where: { beneficiaryId }, data: { answers: {}, overrideReason: null } });
+      // Notifications quote the beneficiary's name and case titles.
+      await tx.notification.deleteMany({
+        where: { href: { in: [`/beneficiaries/${beneficiaryId}`, ...caseIds.map((id) => `/cases/${id}`)] } },
+      });
+      const webhookDeliveries = await tx.webhookDelivery.deleteMany({ where: webhookDeliveriesAbout(beneficiaryId) });
+      await tx.beneficiary.update({
+        where: { id: beneficiaryId },
+        data: { ...anonymizedBeneficiary, anonymizedAt: new Date() },
+      });
+
+      return {
+        caseIds,
+        serviceIds: services.map((s) => s.id),
+        enrolmentIds: enrolments.map((e) => e.id),
+        assessmentIds: assessments.map((a) => a.id),
+        documents,
+        webhookDeliveries: webhookDeliveries.count,
+      };
+    },
+    { timeout: TRANSACTION_TIMEOUT_MS }
+  );
+
+  // Only once the records are gone: a file whose delete fails is an orphan in
+  // storage, which nothing links to any more.
+  const storage = getStorage();
+  for (const document of erased.documents) {
+    await storage.delete(document.url).catch((error) => {
+      console.error(`Failed to delete file for document ${document.id}`, error);
+    });
+  }
+
+  // Runs after the transaction so it also covers the entries the erasure
+  // itself just wrote.
+  const auditEntries = await scrubAuditEntries([
+    beneficiaryId,
+    ...erased.caseIds,
+    ...erased.serviceIds,
+    ...erased.enrolmentIds,
+    ...erased.assessmentIds,
+    ...erased.documents.map((document) => document.id),
+  ]);
+
+  const summary: ErasureSummary = {
+    cases: erased.caseIds.length,
+    services: erased.serviceIds.length,
+    documents: erased.documents.length,
+    webhookDeliveries: erased.webhookDeliveries,
+    auditEntries,
+  };
+  await logAudit('BENEFICIARY_ERASED', { dataRequestId: requestId, ...summary }, {
+    entityType: 'Beneficiary',
+    entityId: beneficiaryId,
+  });
+  return { beneficiaryId, ...summary };
+}
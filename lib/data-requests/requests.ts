@@ -0,0 +1,183 @@
+import { z } from 'zod';
+import { addDays } from 'date-fns';
+import type { DataRequestStatus, Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { beneficiaryScope, type Actor } from '../access';
+import { LocalizedError } from '../i18n/errors';
+import { seesAllBranches } from '../permissions';
+import { firstParam, type SearchParams } from '../utils';
+import type { DataRequestInput, DataRequestReviewInput } from '../validation';
+
+export const DATA_REQUEST_PAGE_SIZE = 25;
+// The PDPA gives 21 days from receipt to comply with an access request. We
+// hold erasure requests to the same deadline.
+export const DATA_REQUEST_DEADLINE_DAYS = 21;
+
+// A request that can't move the way it was asked to.
+export class DataRequestError extends LocalizedError {}
+
+// Requests still waiting on someone: approval, or carrying out.
+const OPEN_STATUSES: DataRequestStatus[] = ['PENDING', 'APPROVED'];
+
+export const dataRequestStatusFilters = ['open', 'PENDING', 'APPROVED', 'REJECTED', 'COMPLETED', 'all'] as const;
+
+export const dataRequestListParamsSchema = z.object({
+  status: z.enum(dataRequestStatusFilters).default('open').catch('open'),
+  type: z.enum(['ACCESS', 'ERASURE']).optional().catch(undefined),
+  page: z.coerce.number().int().min(1).default(1).catch(1),
+});
+
+export type DataRequestListParams = z.infer<typeof dataRequestListParamsSchema>;
+
+export function parseDataRequestListParams(searchParams: SearchParams): DataRequestListParams {
+  return dataRequestListParamsSchema.parse({
+    status: firstParam(searchParams.status),
+    type: firstParam(searchParams.type),
+    page: firstParam(searchParams.page),
+  });
+}
+
+export function isDataRequestOpen(request: { status: DataRequestStatus }): boolean {
+  return OPEN_STATUSES.includes(request.status);
+}
+
+// Requests about beneficiaries in the actor's branch. One whose beneficiary
+// record has since been deleted is only seen by roles that see every branch.
+export function dataRequestScope(actor: Actor): Prisma.DataRequestWhereInput {
+  return seesAllBranches(actor.role) ? {} : { beneficiary: beneficiaryScope(actor) };
+}
+
+// Open requests past their deadline, for the daily digest.
+export function overdueDataRequestWhere(now = new Date()): Prisma.DataRequestWhereInput {
+  return { status: { in: OPEN_STATUSES }, dueAt: { lt: now } };
+}
+
+export function isDataRequestOverdue(request: { status: DataRequestStatus; dueAt: Date }, now = new Date()): boolean {
+  return isDataRequestOpen(request) && request.dueAt < now;
+}
+
+const beneficiarySummarySelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  anonymizedAt: true,
+} satisfies Prisma.BeneficiarySelect;
+
+export async function listDataRequests(params: DataRequestListParams, actor: Actor) {
+  const where: Prisma.DataRequestWhereInput = dataRequestScope(actor);
+  if (params.status === 'open') where.status = { in: OPEN_STATUSES };
+  else if (params.status !== 'all') where.status = params.status;
+  if (params.type) where.type = params.type;
+
+  const [items, total] = await prisma.$transaction([
+    prisma.dataRequest.findMany({
+      where,
+      // Open work is sorted by what's due soonest; finished work by recency.
+      orderBy: params.status === 'open' ? [{ dueAt: 'asc' }, { id: 'asc' }] : [{ receivedAt: 'desc' }, { id: 'asc' }],
+      skip: (params.page - 1) * DATA_REQUEST_PAGE_SIZE,
+      take: DATA_REQUEST_PAGE_SIZE,
+      include: {
+        beneficiary: { select: beneficiarySummarySelect },
+        requestedBy: { select: { name: true } },
+      },
+    }),
+    prisma.dataRequest.count({ where }),
+  ]);
+
+  return {
+    items,
+    total,
+    page: params.page,
+    pageCount: Math.max(1, Math.ceil(total / DATA_REQUEST_PAGE_SIZE)),
+  };
+}
+
+export type DataRequestListItem = Awaited<ReturnType<typeof listDataRequests>>['items'][number];
+
+export async function getDataRequest(id: string, actor: Actor) {
+  return prisma.dataRequest.findFirst({
+    where: { AND: [{ id }, dataRequestScope(actor)] },
+    include: {
+      beneficiary: { select: beneficiarySummarySelect },
+      requestedBy: { select: { name: true } },
+      reviewedBy: { select: { name: true } },
+      completedBy: { select: { name: true } },
+    },
+  });
+}
+
+export type DataRequestDetail = NonNullable<Awaited<ReturnType<typeof getDataRequest>>>;
+
+// Logs a request against a beneficiary, with the deadline counted from when
+// it was received. Only one request of each type can be open per person.
+export async function createDataRequest(input: DataRequestInput, actor: Actor) {
+  const beneficiary = await prisma.beneficiary.findFirst({
+    where: { AND: [{ id: input.beneficiaryId }, beneficiaryScope(actor)] },
+    select: { anonymizedAt: true },
+  });
+  if (!beneficiary) {
+    throw new DataRequestError('beneficiaryNotFound');
+  }
+  if (beneficiary.anonymizedAt) {
+    throw new DataRequestError('beneficiaryAlreadyErased');
+  }
+
+  const existing = await prisma.dataRequest.count({
+    where: { beneficiaryId: input.beneficiaryId, type: input.type, status: { in: OPEN_STATUSES } },
+  });
+  if (existing > 0) {
+    throw new DataRequestError('openDataRequestExists', { type: input.type });
+  }
+
+  return prisma.dataRequest.create({
+    data: {
+      type: input.type,
+      receivedAt: input.receivedAt,
+      dueAt: addDays(input.receivedAt, DATA_REQUEST_DEADLINE_DAYS),
+      details: input.details || null,
+      beneficiaryId: input.beneficiaryId,
+      requestedById: actor.id,
+    },
+    select: { id: true },
+  });
+}
+
+// Approves or rejects a pending request. Whoever logged it can't review it,
+// so every export and erasure has been seen by two people.
+export async function reviewDataRequest(id: string, review: DataRequestReviewInput, actor: Actor) {
+  const request = await prisma.dataRequest.findFirst({
+    where: { AND: [{ id }, dataRequestScope(actor)] },
+    select: { requestedById: true },
+  });
+  if (!request) {
+    throw new DataRequestError('requestNotFound');
+  }
+  if (request.requestedById === actor.id) {
+    throw new DataRequestError('reviewBySomeoneElse');
+  }
+
+  const { count } = await prisma.dataRequest.updateMany({
+    where: { id, status: 'PENDING' },
+    data: {
+      status: review.decision,
+      reviewedById: actor.id,
+      reviewedAt: new Date(),
+      reviewNote: review.note || null,
+    },
+  });
+  if (count === 0) {
+    throw new DataRequestError('requestAlreadyReviewed');
+  }
+}
+
+// Closes an approved access request once the export has gone to the person.
+// Erasure requests are closed by carrying them out (see ./erasure).
+export async function completeAccessRequest(id: string, actor: Actor) {
+  const { count } = await prisma.dataRequest.updateMany({
+    where: { AND: [{ id, type: 'ACCESS', status: 'APPROVED' }, dataRequestScope(actor)] },
+    data: { status: 'COMPLETED', completedById: actor.id, completedAt: new Date() },
+  });
+  if (count === 0) {
+    throw new DataRequestError('accessRequestNotApproved');
+  }
+}
@@ -0,0 +1,386 @@
+import { format } from 'date-fns';
+import type { CustomField, CustomFieldEntity } from '@prisma/client';
+import { prisma } from '../prisma';
+import { toAssessmentAnswers, toQuestionnaireDefinition } from '../assessments/scoring';
+import { formatCustomFieldValue, toCustomFieldValues } from '../custom-fields/values';
+import { formatDocumentType, formatFileSize } from '../document-types';
+import { addPageFooters, createPdf, drawBrandHeader } from '../pdf';
+import { formatEnumLabel } from '../utils';
+
+// Everything held about one beneficiary, for a PDPA access request: the
+// profile, their cases, services, programmes and assessments, what documents
+// are on file (not the files themselves) and the audit trail of changes to any
+// of it.
+// Values are unmasked and decrypted; the export is for the person themselves.
+
+export const subjectExportFormats = ['json', 'pdf'] as const;
+export type SubjectExportFormat = (typeof subjectExportFormats)[number];
+
+export const subjectExportContentTypes: Record<SubjectExportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+// More audit entries than any one person's record produces in practice.
+const MAX_AUDIT_ENTRIES = 5000;
+
+const profileSelect = {
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  firstName: true,
+  lastName: true,
+  dateOfBirth: true,
+  gender: true,
+  nationality: true,
+  idNumber: true,
+  phone: true,
+  email: true,
+  address: true,
+  city: true,
+  state: true,
+  postcode: true,
+  emergencyName: true,
+  emergencyPhone: true,
+  emergencyRelation: true,
+  category: true,
+  status: true,
+  priority: true,
+  monthlyIncome: true,
+  notes: true,
+  tags: true,
+  customFields: true,
+  source: true,
+  createdBy: { select: { name: true } },
+  assignedTo: { select: { name: true } },
+} as const;
+
+type FieldLabel = Pick<CustomField, 'entity' | 'key' | 'label' | 'type'>;
+
+// Answers to custom fields under the labels they were asked with. Archived
+// fields are included, since the answers are still held.
+function labelAnswers(value: unknown, entity: CustomFieldEntity, fields: FieldLabel[]) {
+  return Object.entries(toCustomFieldValues(value)).map(([key, answer]) => {
+    const field = fields.find((candidate) => candidate.entity === entity && candidate.key === key);
+    return { key, label: field?.label ?? key, type: field?.type ?? 'TEXT', value: answer };
+  });
+}
+
+// Each answer with the question it answered, as worded in that version.
+function labelAssessmentAnswers(assessment: {
+  answers: unknown;
+  questionnaireVersion: Parameters<typeof toQuestionnaireDefinition>[0];
+}) {
+  const { questions } = toQuestionnaireDefinition(assessment.questionnaireVersion);
+  return Object.entries(toAssessmentAnswers(assessment.answers)).map(([key, answer]) => ({
+    question: questions.find((question) => question.key === key)?.label ?? key,
+    answer: Array.isArray(answer) ? answer.join(', ') : answer,
+  }));
+}
+
+export async function collectSubjectData(beneficiaryId: string, now = new Date()) {
+  const [profile, cases, services, enrolments, assessments, documents, fields] = await Promise.all([
+    prisma.beneficiary.findUnique({ where: { id: beneficiaryId }, select: profileSelect }),
+    prisma.case.findMany({
+      where: { beneficiaryId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        createdAt: true,
+        title: true,
+        description: true,
+        type: true,
+        priority: true,
+        status: true,
+        resolvedAt: true,
+        createdBy: { select: { name: true } },
+        assignedTo: { select: { name: true } },
+        statusHistory: {
+          orderBy: { createdAt: 'asc' },
+          select: { createdAt: true, fromStatus: true, toStatus: true, reason: true, changedBy: { select: { name: true } } },
+        },
+      },
+    }),
+    prisma.service.findMany({
+      where: { beneficiaryId },
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+      select: {
+        id: true,
+        date: true,
+        type: true,
+        description: true,
+        quantity: true,
+        cost: true,
+        location: true,
+        notes: true,
+        customFields: true,
+        caseId: true,
+        programme: { select: { name: true } },
+        providedBy: { select: { name: true } },
+      },
+    }),
+    prisma.enrolment.findMany({
+      where: { beneficiaryId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        createdAt: true,
+        status: true,
+        waitlistedAt: true,
+        startDate: true,
+        endDate: true,
+        endReason: true,
+        overrideReason: true,
+        programme: { select: { name: true } },
+      },
+    }),
+    prisma.assessment.findMany({
+      where: { beneficiaryId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        createdAt: true,
+        answers: true,
+        score: true,
+        suggestedPriority: true,
+        priority: true,
+        overrideReason: true,
+        caseId: true,
+        assessedBy: { select: { name: true } },
+        questionnaireVersion: {
+          select: { version: true, questions: true, rules: true, bands: true, questionnaire: { select: { name: true } } },
+        },
+      },
+    }),
+    prisma.document.findMany({
+      where: { beneficiaryId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        createdAt: true,
+        name: true,
+        type: true,
+        mimeType: true,
+        size: true,
+        uploadedBy: { select: { name: true } },
+      },
+    }),
+    prisma.customField.findMany({ select: { entity: true, key: true, label: true, type: true } }),
+  ]);
+  if (!profile) return null;
+
+  const entityIds = [
+    beneficiaryId,
+    ...cases.map((c) => c.id),
+    ...services.map((s) => s.id),
+    ...enrolments.map((e) => e.id),
+    ...assessments.map((a) => a.id),
+    ...documents.map((d) => d.id),
+  ];
+  const entries = await prisma.auditLog.findMany({
+    where: { entityId: { in: entityIds } },
+    orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+    take: MAX_AUDIT_ENTRIES,
+    select: { timestamp: true, action: true, entityType: true, entityId: true, userId: true, details: true },
+  });
+  const users = await prisma.user.findMany({
+    where: { id: { in: [...new Set(entries.map((entry) => entry.userId))] } },
+    select: { id: true, name: true },
+  });
+  const userNames = new Map(users.map((user) => [user.id, user.name]));
+
+  return {
+    generatedAt: now,
+    profile: { ...profile, customFields: labelAnswers(profile.customFields, 'BENEFICIARY', fields) },
+    cases,
+    services: services.map((service) => ({
+      ...service,
+      customFields: labelAnswers(service.customFields, 'SERVICE', fields),
+    })),
+    enrolments,
+    assessments: assessments.map(({ questionnaireVersion, ...assessment }) => ({
+      ...assessment,
+      questionnaire: questionnaireVersion.questionnaire.name,
+      version: questionnaireVersion.version,
+      answers: labelAssessmentAnswers({ answers: assessment.answers, questionnaireVersion }),
+    })),
+    documents,
+    auditEntries: entries.map(({ userId, ...entry }) => ({
+      ...entry,
+      by: userNames.get(userId) ?? formatEnumLabel(userId),
+    })),
+    auditEntriesTruncated: entries.length === MAX_AUDIT_ENTRIES,
+  };
+}
+
+export type SubjectData = NonNullable<Awaited<ReturnType<typeof collectSubjectData>>>;
+
+export function subjectExportFilename(data: SubjectData, ext: SubjectExportFormat): string {
+  return `personal-data-${data.profile.id}-${format(data.generatedAt, 'yyyyMMdd')}.${ext}`;
+}
+
+const day = (date: Date | null) => (date ? format(date, 'd MMM yyyy') : '—');
+const dateTime = (date: Date) => format(date, 'd MMM yyyy, HH:mm');
+const text = (value: string | number | null | undefined) => (value === null || value === undefined || value === '' ? '—' : String(value));
+const answerLabels = { yes: 'Yes', no: 'No', formatDate: day };
+
+// A readable summary of the same data as the JSON. Audit entries are listed
+// by what happened and when; their field-level detail is in the JSON.
+function toPdf(data: SubjectData, meta: { requestId: string; generatedBy: string }): Promise<Buffer> {
+  const { profile } = data;
+  const title = `Personal data held about ${profile.firstName} ${profile.lastName}`;
+  const { doc, done } = createPdf();
+  const left = doc.page.margins.left;
+  const width = doc.page.width - left - doc.page.margins.right;
+
+  drawBrandHeader(doc, title);
+  doc.text(`Prepared for data access request ${meta.requestId}`);
+  doc.text(`Generated by ${meta.generatedBy} on ${dateTime(data.generatedAt)}`);
+
+  const heading = (label: string) => {
+    doc.moveDown(1.2);
+    doc.font('Helvetica-Bold').fontSize(13).fillColor('#111827').text(label, left, doc.y, { width });
+    doc.moveTo(left, doc.y + 2).lineTo(left + width, doc.y + 2).strokeColor('#dbeafe').stroke();
+    doc.moveDown(0.5);
+    doc.font('Helvetica').fontSize(10).fillColor('#111827');
+  };
+  const field = (label: string, value: string) => {
+    doc.font('Helvetica-Bold').fillColor('#4b5563').text(`${label}: `, left, doc.y, { continued: true, width });
+    doc.font('Helvetica').fillColor('#111827').text(value);
+  };
+  const item = (line: string, detail?: string | null) => {
+    doc.font('Helvetica').fontSize(10).fillColor('#111827').text(`• ${line}`, left, doc.y, { width });
+    if (detail) doc.fillColor('#4b5563').text(detail, left + 12, doc.y, { width: width - 12 });
+    doc.moveDown(0.3);
+  };
+  const none = (message: string) => doc.fillColor('#6b7280').text(message, left, doc.y, { width });
+
+  heading('Profile');
+  field('Name', `${profile.firstName} ${profile.lastName}`);
+  field('Date of birth', day(profile.dateOfBirth));
+  field('Gender', profile.gender ? formatEnumLabel(profile.gender) : '—');
+  field('Nationality', text(profile.nationality));
+  field('IC / passport number', text(profile.idNumber));
+  field('Phone', text(profile.phone));
+  field('Email', text(profile.email));
+  field('Address', [profile.address, profile.postcode, profile.city, profile.state].filter(Boolean).join(', ') || '—');
+  field(
+    'Emergency contact',
+    [profile.emergencyName, profile.emergencyRelation && `(${profile.emergencyRelation})`, profile.emergencyPhone]
+      .filter(Boolean)
+      .join(' ') || '—'
+  );
+  field('Category', formatEnumLabel(profile.category));
+  field('Status', formatEnumLabel(profile.status));
+  field('Priority', formatEnumLabel(profile.priority));
+  field('Monthly income', profile.monthlyIncome === null ? '—' : profile.monthlyIncome.toFixed(2));
+  field('Tags', profile.tags.join(', ') || '—');
+  field('Notes', text(profile.notes));
+  for (const answer of profile.customFields) {
+    field(answer.label, formatCustomFieldValue(answer, answer.value, answerLabels));
+  }
+  field('Registered', `${day(profile.createdAt)} by ${profile.createdBy.name}`);
+  field('Assigned worker', profile.assignedTo?.name ?? '—');
+
+  heading(`Cases (${data.cases.length})`);
+  if (data.cases.length === 0) none('No cases.');
+  for (const c of data.cases) {
+    item(
+      `${c.title} · ${formatEnumLabel(c.type)} · ${formatEnumLabel(c.status)} · opened ${day(c.createdAt)} by ${c.createdBy.name}`,
+      c.description
+    );
+    for (const change of c.statusHistory) {
+      const move = change.fromStatus
+        ? `${formatEnumLabel(change.fromStatus)} → ${formatEnumLabel(change.toStatus)}`
+        : `Opened as ${formatEnumLabel(change.toStatus)}`;
+      doc
+        .fillColor('#4b5563')
+        .text(`${dateTime(change.createdAt)}: ${move} by ${change.changedBy.name}${change.reason ? ` (${change.reason})` : ''}`, left + 12, doc.y, {
+          width: width - 12,
+        });
+    }
+    doc.moveDown(0.3);
+  }
+
+  heading(`Services (${data.services.length})`);
+  if (data.services.length === 0) none('No services.');
+  for (const service of data.services) {
+    const parts = [
+      day(service.date),
+      formatEnumLabel(service.type),
+      service.quantity !== null && `quantity ${service.quantity}`,
+      service.cost !== null && `RM ${service.cost.toFixed(2)}`,
+      service.location,
+      service.programme && `under ${service.programme.name}`,
+      `by ${service.providedBy.name}`,
+    ];
+    const answers = service.customFields.map(
+      (answer) => `${answer.label}: ${formatCustomFieldValue(answer, answer.value, answerLabels)}`
+    );
+    item(parts.filter(Boolean).join(' · '), [service.description, service.notes, ...answers].filter(Boolean).join('\n') || null);
+  }
+
+  heading(`Programmes (${data.enrolments.length})`);
+  if (data.enrolments.length === 0) none('No programmes.');
+  for (const enrolment of data.enrolments) {
+    const dates = enrolment.startDate
+      ? `${day(enrolment.startDate)} to ${enrolment.endDate ? day(enrolment.endDate) : 'now'}`
+      : enrolment.waitlistedAt && `waitlisted ${day(enrolment.waitlistedAt)}`;
+    item(
+      [enrolment.programme.name, formatEnumLabel(enrolment.status), dates].filter(Boolean).join(' · '),
+      [enrolment.overrideReason && `Enrolled outside the rules: ${enrolment.overrideReason}`, enrolment.endReason]
+        .filter(Boolean)
+        .join('\n') || null
+    );
+  }
+
+  heading(`Assessments (${data.assessments.length})`);
+  if (data.assessments.length === 0) none('No assessments.');
+  for (const assessment of data.assessments) {
+    const priority =
+      assessment.priority === assessment.suggestedPriority
+        ? `priority ${formatEnumLabel(assessment.priority)}`
+        : `priority ${formatEnumLabel(assessment.priority)} (suggested ${formatEnumLabel(assessment.suggestedPriority)})`;
+    item(
+      `${day(assessment.createdAt)} · ${assessment.questionnaire} v${assessment.version} · score ${assessment.score} · ${priority} · by ${assessment.assessedBy.name}`,
+      [
+        ...assessment.answers.map((answer) => `${answer.question}: ${answer.answer}`),
+        assessment.overrideReason && `Priority changed because: ${assessment.overrideReason}`,
+      ]
+        .filter(Boolean)
+        .join('\n') || null
+    );
+  }
+
+  heading(`Documents on file (${data.documents.length})`);
+  if (data.documents.length === 0) none('No documents.');
+  for (const document of data.documents) {
+    item(
+      `${document.name} · ${formatDocumentType(document.type)} · ${formatFileSize(document.size)} · uploaded ${day(document.createdAt)} by ${document.uploadedBy.name}`
+    );
+  }
+
+  heading(`Record history (${data.auditEntries.length})`);
+  if (data.auditEntries.length === 0) none('No recorded changes.');
+  for (const entry of data.auditEntries) {
+    item(`${dateTime(entry.timestamp)} · ${formatEnumLabel(entry.action)} · ${entry.by}`);
+  }
+  if (data.auditEntriesTruncated) none(`Only the first ${data.auditEntries.length} entries are included.`);
+
+  addPageFooters(doc, title);
+  doc.end();
+  return done;
+}
+
+export async function exportSubjectData(
+  data: SubjectData,
+  exportFormat: SubjectExportFormat,
+  meta: { requestId: string; generatedBy: string }
+): Promise<string | Uint8Array<ArrayBuffer>> {
+  switch (exportFormat) {
+    case 'json':
+      return JSON.stringify({ requestId: meta.requestId, ...data }, null, 2);
+    case 'pdf':
+      return new Uint8Array(await toPdf(data, meta));
+  }
+}
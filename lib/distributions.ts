@@ -0,0 +1,329 @@
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { prisma, type TransactionClient } from './prisma';
+import { beneficiaryScope, distributionEventScope, type Actor } from './access';
+import { buildBeneficiaryWhere, parseBeneficiaryListParams } from './beneficiaries';
+import { LocalizedError } from './i18n/errors';
+import { normalizePassportNumber, parseMyKad } from './mykad';
+import { maskBeneficiary } from './permissions';
+import { firstParam, type SearchParams } from './utils';
+import type { DistributionEventInput } from './validation';
+import { emitWebhookEvent } from './webhooks/delivery';
+import { serviceEventData } from './webhooks/events';
+
+export const DISTRIBUTION_EVENT_PAGE_SIZE = 20;
+const SEARCH_RESULT_LIMIT = 10;
+// A few hundred rows plus their audit entries can outlast Prisma's 5s default.
+const TRANSACTION_TIMEOUT_MS = 30_000;
+
+// A problem with the event as a whole.
+export class DistributionEventError extends LocalizedError {}
+
+const beneficiaryOptionSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  idNumber: true,
+} satisfies Prisma.BeneficiarySelect;
+
+export interface BeneficiaryOption {
+  id: string;
+  firstName: string;
+  lastName: string;
+  idNumber: string | null;
+}
+
+// Quick lookup for adding recipients one at a time; same matching as the
+// beneficiary list search.
+export async function searchBeneficiaryOptions(q: string, actor: Actor): Promise<BeneficiaryOption[]> {
+  const params = parseBeneficiaryListParams({ q });
+  if (!params.q) return [];
+
+  const items = await prisma.beneficiary.findMany({
+    where: { AND: [buildBeneficiaryWhere(params), beneficiaryScope(actor)] },
+    orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }],
+    take: SEARCH_RESULT_LIMIT,
+    select: beneficiaryOptionSelect,
+  });
+  return items.map((item) => maskBeneficiary(item, actor.role));
+}
+
+// Resolves scanned or pasted codes, each either a beneficiary id (as encoded
+// in a QR code) or an IC / passport number written any way. Matches keep the
+// order the codes came in so a pasted list reads back the same.
+export async function resolveBeneficiaryCodes(codes: string[], actor: Actor) {
+  const cleaned = Array.from(new Set(codes.map((code) => code.trim()).filter(Boolean)));
+
+  // Every form a code might be stored in, mapped back to the code itself.
+  const lookup = new Map<string, string>();
+  for (const code of cleaned) {
+    lookup.set(parseMyKad(code)?.normalized ?? normalizePassportNumber(code), code);
+    lookup.set(code, code);
+  }
+
+  const found = await prisma.beneficiary.findMany({
+    where: {
+      AND: [
+        { OR: [{ id: { in: cleaned } }, { idNumber: { in: Array.from(lookup.keys()) } }] },
+        beneficiaryScope(actor),
+      ],
+    },
+    select: beneficiaryOptionSelect,
+  });
+
+  const byCode = new Map<string, BeneficiaryOption>();
+  for (const beneficiary of found) {
+    const code = lookup.get(beneficiary.id) ?? (beneficiary.idNumber ? lookup.get(beneficiary.idNumber) : undefined);
+    if (code && !byCode.has(code)) byCode.set(code, maskBeneficiary(beneficiary, actor.role));
+  }
+
+  const seen = new Set<string>();
+  const matches: BeneficiaryOption[] = [];
+  for (const code of cleaned) {
+    const match = byCode.get(code);
+    if (match && !seen.has(match.id)) {
+      seen.add(match.id);
+      matches.push(match);
+    }
+  }
+
+  return { matches, unmatched: cleaned.filter((code) => !byCode.has(code)) };
+}
+
+export type ResolvedBeneficiaryCodes = Awaited<ReturnType<typeof resolveBeneficiaryCodes>>;
+
+// The fields an event copies onto each of its Services.
+function serviceFields(input: DistributionEventInput) {
+  return {
+    type: input.type,
+    date: input.date,
+    location: input.location,
+    description: input.description?.trim() || null,
+  };
+}
+
+function eventFields(input: DistributionEventInput) {
+  return { ...serviceFields(input), defaultQuantity: input.defaultQuantity ?? null };
+}
+
+function quantityFor(input: DistributionEventInput, recipient: DistributionEventInput['recipients'][number]) {
+  return recipient.quantity ?? input.defaultQuantity ?? null;
+}
+
+// Every recipient has to exist, be someone the worker can see and belong to
+// the event's branch.
+async function assertRecipientsInScope(
+  tx: TransactionClient,
+  beneficiaryIds: string[],
+  branchId: string,
+  actor: Actor
+) {
+  if (beneficiaryIds.length === 0) return;
+  const count = await tx.beneficiary.count({
+    where: { AND: [{ id: { in: beneficiaryIds }, branchId }, beneficiaryScope(actor)] },
+  });
+  if (count !== beneficiaryIds.length) {
+    throw new DistributionEventError('distributionBeneficiariesUnavailable');
+  }
+}
+
+// Creates the event and one Service per recipient in a single transaction.
+// The event belongs to the first recipient's branch, and so must everyone
+// else. Each Service is a service.logged webhook event once it has committed.
+export async function createDistributionEvent(input: DistributionEventInput, actor: Actor) {
+  const { event, services } = await prisma.$transaction(
+    async (tx) => {
+      const first = await tx.beneficiary.findFirst({
+        where: { AND: [{ id: input.recipients[0].beneficiaryId }, beneficiaryScope(actor)] },
+        select: { branchId: true },
+      });
+      const branchId = first?.branchId ?? actor.branchId;
+      await assertRecipientsInScope(
+        tx,
+        input.recipients.map((recipient) => recipient.beneficiaryId),
+        branchId,
+        actor
+      );
+
+      const event = await tx.distributionEvent.create({
+        data: { ...eventFields(input), branchId, createdById: actor.id },
+      });
+
+      const services = await tx.service.createManyAndReturn({
+        data: input.recipients.map((recipient) => ({
+          ...serviceFields(input),
+          quantity: quantityFor(input, recipient),
+          beneficiaryId: recipient.beneficiaryId,
+          branchId,
+          providedById: actor.id,
+          distributionEventId: event.id,
+        })),
+      });
+
+      return { event, services };
+    },
+    { timeout: TRANSACTION_TIMEOUT_MS }
+  );
+
+  await emitWebhookEvent('service.logged', services.map(serviceEventData));
+  return event;
+}
+
+// Applies an edited event as one change: the shared fields are rewritten on
+// every Service, recipients no longer listed are removed, new ones added, and
+// changed quantities updated.
+export async function updateDistributionEvent(id: string, input: DistributionEventInput, actor: Actor) {
+  const { updated, added } = await prisma.$transaction(
+    async (tx) => {
+      const event = await tx.distributionEvent.findUniqueOrThrow({
+        where: { id },
+        include: { services: { select: { id: true, beneficiaryId: true, quantity: true } } },
+      });
+      if (event.reversedAt) {
+        throw new DistributionEventError('distributionEventReversed');
+      }
+
+      const wanted = new Map(
+        input.recipients.map((recipient) => [recipient.beneficiaryId, quantityFor(input, recipient)])
+      );
+      const existing = new Set(event.services.map((service) => service.beneficiaryId));
+      const removedIds = event.services
+        .filter((service) => !wanted.has(service.beneficiaryId))
+        .map((service) => service.id);
+      const added = input.recipients.filter((recipient) => !existing.has(recipient.beneficiaryId));
+
+      await assertRecipientsInScope(
+        tx,
+        added.map((recipient) => recipient.beneficiaryId),
+        event.branchId,
+        actor
+      );
+
+      const updated = await tx.distributionEvent.update({ where: { id }, data: eventFields(input) });
+      const shared = serviceFields(input);
+
+      if (removedIds.length > 0) {
+        await tx.service.deleteMany({ where: { id: { in: removedIds } } });
+      }
+      await tx.service.updateMany({
+        where: { distributionEventId: id, id: { notIn: removedIds } },
+        data: shared,
+      });
+
+      // One query per distinct quantity rather than per row.
+      const byQuantity = new Map<number | null, string[]>();
+      for (const service of event.services) {
+        const quantity = wanted.get(service.beneficiaryId);
+        if (quantity === undefined || quantity === service.quantity) continue;
+        byQuantity.set(quantity, [...(byQuantity.get(quantity) ?? []), service.id]);
+      }
+      for (const [quantity, ids] of byQuantity) {
+        await tx.service.updateMany({ where: { id: { in: ids } }, data: { quantity } });
+      }
+
+      const addedServices =
+        added.length > 0
+          ? await tx.service.createManyAndReturn({
+              data: added.map((recipient) => ({
+                ...shared,
+                quantity: quantityFor(input, recipient),
+                beneficiaryId: recipient.beneficiaryId,
+                branchId: event.branchId,
+                providedById: event.createdById,
+                distributionEventId: id,
+              })),
+            })
+          : [];
+
+      return { updated, added: addedServices };
+    },
+    { timeout: TRANSACTION_TIMEOUT_MS }
+  );
+
+  // Recipients added by the edit have just been given the service.
+  await emitWebhookEvent('service.logged', added.map(serviceEventData));
+  return updated;
+}
+
+// Deletes every Service logged by the event and marks the event reversed, so
+// the event page still explains where those services went.
+export async function reverseDistributionEvent(id: string, reason: string, actor: Actor) {
+  return prisma.$transaction(
+    async (tx) => {
+      await tx.distributionEvent.findUniqueOrThrow({ where: { id }, select: { id: true } });
+
+      const { count } = await tx.distributionEvent.updateMany({
+        where: { id, reversedAt: null },
+        data: { reversedAt: new Date(), reversedById: actor.id, reversalReason: reason },
+      });
+      if (count === 0) {
+        throw new DistributionEventError('distributionEventAlreadyReversed');
+      }
+
+      await tx.service.deleteMany({ where: { distributionEventId: id } });
+    },
+    { timeout: TRANSACTION_TIMEOUT_MS }
+  );
+}
+
+export async function getDistributionEvent(id: string, actor: Actor) {
+  const event = await prisma.distributionEvent.findFirst({
+    where: { AND: [{ id }, distributionEventScope(actor)] },
+    include: {
+      createdBy: { select: { name: true } },
+      reversedBy: { select: { name: true } },
+      services: {
+        select: { id: true, quantity: true, beneficiary: { select: beneficiaryOptionSelect } },
+        orderBy: [{ beneficiary: { lastName: 'asc' } }, { beneficiary: { firstName: 'asc' } }],
+      },
+    },
+  });
+  if (!event) return null;
+
+  return {
+    ...event,
+    services: event.services.map((service) => ({
+      ...service,
+      beneficiary: maskBeneficiary(service.beneficiary, actor.role),
+    })),
+  };
+}
+
+export type DistributionEventDetail = NonNullable<Awaited<ReturnType<typeof getDistributionEvent>>>;
+
+const distributionEventListParamsSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1).catch(1),
+});
+
+export type DistributionEventListParams = z.infer<typeof distributionEventListParamsSchema>;
+
+export function parseDistributionEventListParams(searchParams: SearchParams): DistributionEventListParams {
+  return distributionEventListParamsSchema.parse({ page: firstParam(searchParams.page) });
+}
+
+export async function listDistributionEvents(params: DistributionEventListParams, actor: Actor) {
+  const where = distributionEventScope(actor);
+
+  const [items, total] = await prisma.$transaction([
+    prisma.distributionEvent.findMany({
+      where,
+      orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+      skip: (params.page - 1) * DISTRIBUTION_EVENT_PAGE_SIZE,
+      take: DISTRIBUTION_EVENT_PAGE_SIZE,
+      include: {
+        createdBy: { select: { name: true } },
+        _count: { select: { services: true } },
+      },
+    }),
+    prisma.distributionEvent.count({ where }),
+  ]);
+
+  return {
+    items,
+    total,
+    page: params.page,
+    pageCount: Math.max(1, Math.ceil(total / DISTRIBUTION_EVENT_PAGE_SIZE)),
+  };
+}
+
+export type DistributionEventListItem = Awaited<ReturnType<typeof listDistributionEvents>>['items'][number];
@@ -0,0 +1,71 @@
+import type { UserRole } from '@prisma/client';
+import { hasPermission } from './permissions';
+
+// The Document.type taxonomy. Identity and medical papers are sensitive: only
+// roles that may see unmasked IC numbers can open them.
+export const documentTypes = [
+  'id_card',
+  'passport',
+  'birth_certificate',
+  'medical_report',
+  'photo',
+  'proof_of_income',
+  'referral_letter',
+  'other',
+] as const;
+
+export type DocumentType = (typeof documentTypes)[number];
+
+export const documentTypeLabels: Record<DocumentType, string> = {
+  id_card: 'IC / MyKad',
+  passport: 'Passport or UNHCR card',
+  birth_certificate: 'Birth certificate',
+  medical_report: 'Medical report',
+  photo: 'Photo',
+  proof_of_income: 'Proof of income',
+  referral_letter: 'Referral letter',
+  other: 'Other',
+};
+
+const sensitiveDocumentTypes: readonly string[] = ['id_card', 'passport', 'birth_certificate', 'medical_report'];
+
+const imageMimeTypes = ['image/jpeg', 'image/png', 'image/webp'] as const;
+export const documentMimeTypes = [...imageMimeTypes, 'application/pdf'] as const;
+export type DocumentMimeType = (typeof documentMimeTypes)[number];
+
+// Scans can be photos or PDFs; a photo has to be an image.
+export function allowedMimeTypes(type: DocumentType): readonly DocumentMimeType[] {
+  return type === 'photo' ? imageMimeTypes : documentMimeTypes;
+}
+
+// Uploads go through a server action, whose body limit is 10 MB in
+// next.config.js; this leaves room for the rest of the form.
+export const MAX_DOCUMENT_BYTES = 8 * 1024 * 1024;
+
+// Older rows hold free-text types; anything unknown is treated as sensitive.
+export function canViewDocumentType(role: UserRole, type: string): boolean {
+  const known = (documentTypes as readonly string[]).includes(type);
+  return (known && !sensitiveDocumentTypes.includes(type)) || hasPermission(role, 'beneficiary:read_sensitive');
+}
+
+export function formatDocumentType(type: string): string {
+  return documentTypeLabels[type as DocumentType] ?? type;
+}
+
+// The real file type from its first bytes, since the browser's Content-Type
+// is only the file extension's guess.
+export function sniffMimeType(bytes: Uint8Array): DocumentMimeType | null {
+  const startsWith = (signature: number[], offset = 0) => signature.every((byte, i) => bytes[offset + i] === byte);
+
+  if (startsWith([0x25, 0x50, 0x44, 0x46, 0x2d])) return 'application/pdf'; // %PDF-
+  if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp'; // RIFF....WEBP
+  return null;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
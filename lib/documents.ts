@@ -0,0 +1,125 @@
+import { randomUUID } from 'node:crypto';
+import type { UserRole } from '@prisma/client';
+import { prisma } from './prisma';
+import { LocalizedError } from './i18n/errors';
+import { getStorage } from './storage';
+import {
+  allowedMimeTypes,
+  canViewDocumentType,
+  formatFileSize,
+  MAX_DOCUMENT_BYTES,
+  sniffMimeType,
+  type DocumentMimeType,
+  type DocumentType,
+} from './document-types';
+
+// A rejected upload, with a message for the person uploading it.
+export class DocumentUploadError extends LocalizedError {}
+
+const extensions: Record<DocumentMimeType, string> = {
+  'application/pdf': '.pdf',
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+};
+
+// The authorized download route. Profile photos point here too, so they're
+// never a public link.
+export function documentHref(id: string, { inline = false } = {}): string {
+  return inline ? `/api/documents/${id}?disposition=inline` : `/api/documents/${id}`;
+}
+
+interface StoreDocumentInput {
+  beneficiaryId: string;
+  type: DocumentType;
+  name?: string | null;
+  useAsPhoto: boolean;
+  file: File;
+}
+
+export async function storeDocument(input: StoreDocumentInput, uploadedById: string): Promise<{ id: string }> {
+  const { file, type } = input;
+  if (file.size === 0) {
+    throw new DocumentUploadError('emptyFile');
+  }
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    throw new DocumentUploadError('fileTooLarge', { size: formatFileSize(MAX_DOCUMENT_BYTES) });
+  }
+
+  const bytes = Buffer.from(await file.arrayBuffer());
+  const mimeType = sniffMimeType(bytes);
+  if (!mimeType || !allowedMimeTypes(type).includes(mimeType)) {
+    throw new DocumentUploadError(type === 'photo' ? 'photoFileType' : 'documentFileType');
+  }
+
+  // The stored name is ours; the person's filename is only kept as a label.
+  const key = `beneficiaries/${input.beneficiaryId}/${randomUUID()}${extensions[mimeType]}`;
+  const storage = getStorage();
+  const locator = await storage.put(key, bytes, mimeType);
+
+  try {
+    const document = await prisma.document.create({
+      data: {
+        name: (input.name || file.name || 'Untitled').slice(0, 200),
+        type,
+        url: locator,
+        size: file.size,
+        mimeType,
+        beneficiaryId: input.beneficiaryId,
+        uploadedById,
+      },
+      select: { id: true },
+    });
+
+    if (input.useAsPhoto && type === 'photo') {
+      await prisma.beneficiary.update({
+        where: { id: input.beneficiaryId },
+        data: { photoUrl: documentHref(document.id, { inline: true }) },
+      });
+    }
+    return document;
+  } catch (error) {
+    // Don't leave an identity document behind that nothing points to.
+    await storage.delete(locator).catch(() => undefined);
+    throw error;
+  }
+}
+
+// Deletes the record, then the file. Clears the profile photo if it was this.
+export async function removeDocument(id: string): Promise<{ beneficiaryId: string } | null> {
+  const document = await prisma.document.findUnique({
+    where: { id },
+    select: { id: true, url: true, beneficiaryId: true },
+  });
+  if (!document) return null;
+
+  await prisma.document.delete({ where: { id } });
+  await prisma.beneficiary.updateMany({
+    where: { id: document.beneficiaryId, photoUrl: documentHref(id, { inline: true }) },
+    data: { photoUrl: null },
+  });
+  await getStorage().delete(document.url);
+
+  return { beneficiaryId: document.beneficiaryId };
+}
+
+// A beneficiary's documents without their storage locators, flagged with
+// whether `role` may open each one.
+export async function listBeneficiaryDocuments(beneficiaryId: string, role: UserRole) {
+  const documents = await prisma.document.findMany({
+    where: { beneficiaryId },
+    orderBy: { createdAt: 'desc' },
+    select: {
+      id: true,
+      createdAt: true,
+      name: true,
+      type: true,
+      size: true,
+      mimeType: true,
+      uploadedBy: { select: { name: true } },
+    },
+  });
+  return documents.map((document) => ({ ...document, canView: canViewDocumentType(role, document.type) }));
+}
+
+export type BeneficiaryDocument = Awaited<ReturnType<typeof listBeneficiaryDocuments>>[number];
@@ -0,0 +1,401 @@
+import type { Beneficiary, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { getAuditContext } from './audit/context';
+import { toCustomFieldValues } from './custom-fields/values';
+import { encryptData } from './encryption/extension';
+import { normalizePhone } from './countries';
+import { isCurrent } from './programmes/enrolments';
+import { compactIdNumber } from './utils';
+
+// Scores at or above this are shown as likely duplicates.
+export const DUPLICATE_THRESHOLD = 0.5;
+
+const MAX_CANDIDATES = 100;
+const SCAN_CHUNK_SIZE = 50;
+
+// Patronymic connectors and honorifics that vary between registrations of the
+// same person ("Ahmad bin Ali" vs "Ahmad b. Ali" vs "Ahmad Ali").
+const NAME_NOISE = new Set(['bin', 'binti', 'bt', 'bte', 'b', 'al', 'ap', 'a/l', 'a/p', 'encik', 'puan', 'cik', 'haji', 'hajah', 'mr', 'mrs', 'ms']);
+
+type MatchableFields = Pick<Beneficiary, 'firstName' | 'lastName' | 'dateOfBirth' | 'idNumber' | 'phone'>;
+
+// Only records in the same branch are compared: a person registered in two
+// countries is two records, and merging can't move anyone between branches.
+
+export interface DuplicateMatch {
+  score: number;
+  reasons: string[];
+}
+
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/@/g, ' ')
+    .replace(/[^a-z/\s]/g, ' ')
+    .split(/\s+/)
+    .filter((token) => token && !NAME_NOISE.has(token))
+    .sort()
+    .join(' ');
+}
+
+// Jaro-Winkler similarity in [0, 1].
+function jaroWinkler(a: string, b: string): number {
+  if (a === b) return a ? 1 : 0;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatches = new Array<boolean>(a.length).fill(false);
+  const bMatches = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(i + window + 1, b.length);
+    for (let j = start; j < end; j++) {
+      if (bMatches[j] || a[i] !== b[j]) continue;
+      aMatches[i] = bMatches[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, k = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue;
+    while (!bMatches[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+// Token-level name similarity: each name part is paired with its closest
+// counterpart, so a shared family name alone ("Siti Abdullah" vs "Ahmad
+// Abdullah") doesn't look like a match, while typos and reordering do.
+export function nameSimilarity(a: string, b: string): number {
+  const aTokens = a.split(' ').filter(Boolean);
+  const bTokens = b.split(' ').filter(Boolean);
+  if (aTokens.length === 0 || bTokens.length === 0) return 0;
+
+  const [shorter, longer] = aTokens.length <= bTokens.length ? [aTokens, bTokens] : [bTokens, aTokens];
+  const total = shorter.reduce(
+    (sum, token) => sum + Math.max(...longer.map((other) => jaroWinkler(token, other))),
+    0
+  );
+  // Unmatched extra tokens in the longer name pull the score down a little.
+  return (total / shorter.length) * (1 - 0.05 * (longer.length - shorter.length));
+}
+
+function sameDay(a: Date, b: Date): boolean {
+  return a.toISOString().slice(0, 10) === b.toISOString().slice(0, 10);
+}
+
+// Weighted evidence that two records describe the same person. A shared IC is
+// close to conclusive; a shared phone or birth date only counts alongside a
+// similar name, because families share phones and birthdays collide.
+export function scoreDuplicate(a: MatchableFields, b: MatchableFields): DuplicateMatch {
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (a.idNumber && b.idNumber && compactIdNumber(a.idNumber) === compactIdNumber(b.idNumber)) {
+    score += 0.6;
+    reasons.push('Same IC / passport number');
+  }
+  if (a.phone && b.phone && normalizePhone(a.phone) === normalizePhone(b.phone)) {
+    score += 0.25;
+    reasons.push('Same phone number');
+  }
+  if (a.dateOfBirth && b.dateOfBirth && sameDay(a.dateOfBirth, b.dateOfBirth)) {
+    score += 0.2;
+    reasons.push('Same date of birth');
+  }
+
+  const similarity = nameSimilarity(
+    normalizeName(`${a.firstName} ${a.lastName}`),
+    normalizeName(`${b.firstName} ${b.lastName}`)
+  );
+  if (similarity >= 0.85) {
+    score += 0.35 * similarity;
+    reasons.push(`Similar name (${Math.round(similarity * 100)}%)`);
+  }
+
+  return { score: Math.min(1, Number(score.toFixed(2))), reasons };
+}
+
+export type DuplicateCandidateMatch = Pick<
+  Beneficiary,
+  'id' | 'firstName' | 'lastName' | 'dateOfBirth' | 'idNumber' | 'phone' | 'status' | 'createdAt'
+> &
+  DuplicateMatch;
+
+// Finds existing records in `input`'s branch that look like the same person,
+// best match first. Used as a warning before a new registration is saved.
+export async function findDuplicateCandidates(
+  input: MatchableFields & Pick<Beneficiary, 'branchId'>,
+  excludeId?: string
+): Promise<DuplicateCandidateMatch[]> {
+  const or: Prisma.BeneficiaryWhereInput[] = [
+    { firstName: { equals: input.firstName.trim(), mode: 'insensitive' } },
+    { lastName: { equals: input.lastName.trim(), mode: 'insensitive' } },
+  ];
+  // Both are matched through their blind index, which already ignores how
+  // the number was punctuated.
+  if (input.idNumber) or.push({ idNumber: input.idNumber });
+  if (input.phone) or.push({ phone: input.phone });
+  if (input.dateOfBirth) or.push({ dateOfBirth: input.dateOfBirth });
+
+  const candidates = await prisma.beneficiary.findMany({
+    where: {
+      OR: or,
+      branchId: input.branchId,
+      anonymizedAt: null,
+      ...(excludeId ? { id: { not: excludeId } } : {}),
+    },
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      dateOfBirth: true,
+      idNumber: true,
+      phone: true,
+      status: true,
+      createdAt: true,
+    },
+    take: MAX_CANDIDATES,
+  });
+
+  return candidates
+    .map((candidate) => ({ ...candidate, ...scoreDuplicate(input, candidate) }))
+    .filter((candidate) => candidate.score >= DUPLICATE_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+}
+
+type CandidatePair = { beneficiaryId: string; duplicateOfId: string; score: number; reasons: string[] };
+
+// Records pairs for the admin review queue. Pairs are stored with the newer
+// record as `beneficiaryId` so the same pair is never queued twice.
+export async function queueDuplicateCandidates(pairs: CandidatePair[]) {
+  if (pairs.length === 0) return 0;
+  const result = await prisma.duplicateCandidate.createMany({
+    data: pairs,
+    skipDuplicates: true,
+  });
+  return result.count;
+}
+
+const scanSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  dateOfBirth: true,
+  idNumber: true,
+  phone: true,
+  phoneIndex: true,
+  branchId: true,
+  createdAt: true,
+} as const;
+
+function scoreBlock(block: Prisma.BeneficiaryGetPayload<{ select: typeof scanSelect }>[], pairs: Map<string, CandidatePair>) {
+  for (let i = 0; i < block.length; i++) {
+    for (let j = i + 1; j < block.length; j++) {
+      if (block[i].branchId !== block[j].branchId) continue;
+      const [older, newer] = block[i].createdAt <= block[j].createdAt ? [block[i], block[j]] : [block[j], block[i]];
+      const key = `${newer.id}:${older.id}`;
+      if (pairs.has(key)) continue;
+      const match = scoreDuplicate(newer, older);
+      if (match.score >= DUPLICATE_THRESHOLD) {
+        pairs.set(key, { beneficiaryId: newer.id, duplicateOfId: older.id, ...match });
+      }
+    }
+  }
+}
+
+// Looks for likely duplicates across the whole table by blocking on shared
+// phone numbers and birth dates, then scoring each pair within a block. Phones
+// are encrypted, so they're blocked on their blind index. Blocks are loaded a
+// chunk at a time to keep memory flat on large tables.
+export async function scanForDuplicates(): Promise<number> {
+  const pairs = new Map<string, CandidatePair>();
+
+  const phoneGroups = await prisma.beneficiary.groupBy({
+    by: ['phoneIndex'],
+    where: { phoneIndex: { not: null } },
+    having: { phoneIndex: { _count: { gt: 1 } } },
+  });
+  const phones = phoneGroups.map((group) => group.phoneIndex!);
+  for (let i = 0; i < phones.length; i += SCAN_CHUNK_SIZE) {
+    const rows = await prisma.beneficiary.findMany({
+      where: { phoneIndex: { in: phones.slice(i, i + SCAN_CHUNK_SIZE) } },
+      select: scanSelect,
+    });
+    const blocks = new Map<string, typeof rows>();
+    for (const row of rows) blocks.set(row.phoneIndex!, [...(blocks.get(row.phoneIndex!) ?? []), row]);
+    blocks.forEach((block) => scoreBlock(block, pairs));
+  }
+
+  const dobGroups = await prisma.beneficiary.groupBy({
+    by: ['dateOfBirth'],
+    where: { dateOfBirth: { not: null } },
+    having: { dateOfBirth: { _count: { gt: 1 } } },
+  });
+  const dates = dobGroups.map((group) => group.dateOfBirth!);
+  for (let i = 0; i < dates.length; i += SCAN_CHUNK_SIZE) {
+    const rows = await prisma.beneficiary.findMany({
+      where: { dateOfBirth: { in: dates.slice(i, i + SCAN_CHUNK_SIZE) } },
+      select: scanSelect,
+    });
+    const blocks = new Map<number, typeof rows>();
+    for (const row of rows) {
+      const key = row.dateOfBirth!.getTime();
+      blocks.set(key, [...(blocks.get(key) ?? []), row]);
+    }
+    blocks.forEach((block) => scoreBlock(block, pairs));
+  }
+
+  // Pairs an admin has already dismissed stay dismissed: createMany skips them.
+  return queueDuplicateCandidates(Array.from(pairs.values()));
+}
+
+const MERGEABLE_FIELDS = [
+  'dateOfBirth',
+  'gender',
+  'nationality',
+  'idNumber',
+  'monthlyIncome',
+  'phone',
+  'email',
+  'address',
+  'city',
+  'state',
+  'postcode',
+  'emergencyName',
+  'emergencyPhone',
+  'emergencyRelation',
+  'photoUrl',
+  'assignedToId',
+] as const;
+
+// Folds `duplicateId` into `survivorId`: related cases, services, documents,
+// enrolments and assessments are re-pointed, empty survivor fields and
+// unanswered custom fields are filled from the duplicate, tags and notes are
+// combined, and the duplicate row is removed.
+//
+// The whole merge is one transaction and leaves an AuditLog entry explaining
+// what happened.
+export async function mergeBeneficiaries(
+  survivorId: string,
+  duplicateId: string,
+  userId: string,
+  reason?: string
+) {
+  if (survivorId === duplicateId) {
+    throw new Error('Cannot merge a beneficiary into itself');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const [survivor, duplicate] = await Promise.all([
+      tx.beneficiary.findUniqueOrThrow({ where: { id: survivorId } }),
+      tx.beneficiary.findUniqueOrThrow({ where: { id: duplicateId } }),
+    ]);
+    if (survivor.anonymizedAt || duplicate.anonymizedAt) {
+      throw new Error('Cannot merge a beneficiary whose personal data has been erased');
+    }
+    if (survivor.branchId !== duplicate.branchId) {
+      throw new Error('Cannot merge beneficiaries registered in different branches');
+    }
+
+    const [cases, services, documents, assessments] = await Promise.all([
+      tx.case.updateMany({ where: { beneficiaryId: duplicateId }, data: { beneficiaryId: survivorId } }),
+      tx.service.updateMany({ where: { beneficiaryId: duplicateId }, data: { beneficiaryId: survivorId } }),
+      tx.document.updateMany({ where: { beneficiaryId: duplicateId }, data: { beneficiaryId: survivorId } }),
+      tx.assessment.updateMany({ where: { beneficiaryId: duplicateId }, data: { beneficiaryId: survivorId } }),
+    ]);
+    // Data requests follow the person, so an open one still gets carried out.
+    await tx.dataRequest.updateMany({ where: { beneficiaryId: duplicateId }, data: { beneficiaryId: survivorId } });
+    // So do enrolment spells, except a current one in a programme the survivor
+    // is already in or waiting for: that goes with the duplicate row.
+    const survivorProgrammes = await tx.enrolment.findMany({
+      where: { beneficiaryId: survivorId, ...isCurrent() },
+      select: { programmeId: true },
+    });
+    const enrolments = await tx.enrolment.updateMany({
+      where: {
+        beneficiaryId: duplicateId,
+        NOT: { programmeId: { in: survivorProgrammes.map((enrolment) => enrolment.programmeId) }, ...isCurrent() },
+      },
+      data: { beneficiaryId: survivorId },
+    });
+
+    const filled: Prisma.BeneficiaryUncheckedUpdateInput = {};
+    const filledFields: string[] = [];
+    for (const field of MERGEABLE_FIELDS) {
+      if (survivor[field] == null && duplicate[field] != null) {
+        (filled as Record<string, unknown>)[field] = duplicate[field];
+        filledFields.push(field);
+      }
+    }
+    const survivorAnswers = toCustomFieldValues(survivor.customFields);
+    const duplicateAnswers = toCustomFieldValues(duplicate.customFields);
+    for (const key of Object.keys(duplicateAnswers)) {
+      if (!(key in survivorAnswers)) filledFields.push(`customFields.${key}`);
+    }
+    // Keep the import key when the survivor has none, so re-importing the
+    // original form response updates the merged record.
+    if (!survivor.externalId && duplicate.externalId) {
+      filled.source = duplicate.source;
+      filled.externalId = duplicate.externalId;
+    }
+
+    const mergedNote = `Merged from duplicate record ${duplicate.firstName} ${duplicate.lastName} (${duplicate.id}) on ${new Date().toISOString().slice(0, 10)}`;
+    const notes = [survivor.notes, mergedNote, duplicate.notes].filter(Boolean).join('\n\n');
+
+    // Delete first so the duplicate's unique IC number index / externalId are
+    // free to move onto the survivor.
+    await tx.beneficiary.delete({ where: { id: duplicateId } });
+
+    const merged = await tx.beneficiary.update({
+      where: { id: survivorId },
+      data: {
+        ...filled,
+        tags: Array.from(new Set([...survivor.tags, ...duplicate.tags])),
+        customFields: { ...duplicateAnswers, ...survivorAnswers },
+        notes,
+      },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        action: 'BENEFICIARY_MERGED',
+        entityType: 'Beneficiary',
+        entityId: survivorId,
+        ...(await getAuditContext()),
+        userId,
+        details: {
+          survivorId,
+          mergedId: duplicateId,
+          mergedName: `${duplicate.firstName} ${duplicate.lastName}`,
+          reason: reason ?? null,
+          moved: {
+            cases: cases.count,
+            services: services.count,
+            documents: documents.count,
+            enrolments: enrolments.count,
+            assessments: assessments.count,
+          },
+          filledFields,
+          // Kept so a bad merge can be undone by hand, encrypted like the row was.
+          mergedRecord: JSON.parse(JSON.stringify(encryptData('Beneficiary', duplicate))),
+        },
+      },
+    });
+
+    return merged;
+  });
+}
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const key = (fill: number) => Buffer.alloc(32, fill).toString('base64');
+
+// The key ring is read from the environment once, so each test loads a fresh
+// copy of the module under the keys it sets.
+async function loadCipher(keys: string) {
+  vi.stubEnv('FIELD_ENCRYPTION_KEYS', keys);
+  vi.stubEnv('BLIND_INDEX_KEY', key(9));
+  vi.resetModules();
+  return import('./cipher');
+}
+
+beforeEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('encryptValue / decryptValue', () => {
+  it('round-trips a value without it appearing in the ciphertext', async () => {
+    const { decryptValue, encryptValue, isEncrypted } = await loadCipher(`k1:${key(1)}`);
+    const stored = encryptValue('850101-14-5523');
+    expect(isEncrypted(stored)).toBe(true);
+    expect(stored).not.toContain('850101');
+    expect(decryptValue(stored)).toBe('850101-14-5523');
+    expect(decryptValue(encryptValue(''))).toBe('');
+  });
+
+  it('uses a fresh IV each time', async () => {
+    const { encryptValue } = await loadCipher(`k1:${key(1)}`);
+    expect(encryptValue('same')).not.toBe(encryptValue('same'));
+  });
+
+  it('passes plaintext through but refuses a tampered value', async () => {
+    const { decryptValue, encryptValue, EncryptionError } = await loadCipher(`k1:${key(1)}`);
+    expect(decryptValue('012-3456789')).toBe('012-3456789');
+    const stored = encryptValue('secret');
+    const tampered = stored.slice(0, -2) + (stored.endsWith('AA') ? 'BB' : 'AA');
+    expect(() => decryptValue(tampered)).toThrow(EncryptionError);
+  });
+
+  it('rejects malformed keys', async () => {
+    const { encryptValue } = await loadCipher('k1:dG9vc2hvcnQ=');
+    expect(() => encryptValue('x')).toThrow(/must be 32 bytes/);
+    const unset = await loadCipher('');
+    expect(() => unset.encryptValue('x')).toThrow(/not set/);
+  });
+});
+
+describe('key rotation', () => {
+  it('encrypts with the newest key and still reads values under older ones', async () => {
+    const before = await loadCipher(`k1:${key(1)}`);
+    const old = before.encryptValue('0123456789');
+    expect(before.encryptionKeyId(old)).toBe('k1');
+
+    const after = await loadCipher(`k2:${key(2)},k1:${key(1)}`);
+    expect(after.currentEncryptionKeyId()).toBe('k2');
+    expect(after.decryptValue(old)).toBe('0123456789');
+    const fresh = after.encryptValue('0123456789');
+    expect(after.encryptionKeyId(fresh)).toBe('k2');
+    expect(after.encryptionKeyId('plaintext')).toBeNull();
+  });
+
+  it('cannot read a value once its key is dropped', async () => {
+    const before = await loadCipher(`k1:${key(1)}`);
+    const old = before.encryptValue('0123456789');
+    const after = await loadCipher(`k2:${key(2)}`);
+    expect(() => after.decryptValue(old)).toThrow('No encryption key "k1"');
+  });
+});
+
+describe('encryptBytes / decryptBytes', () => {
+  it('round-trips a file and reads it after a rotation', async () => {
+    const file = Buffer.from([0x25, 0x50, 0x44, 0x46, 0x00, 0xff, 0x0a]);
+    const before = await loadCipher(`k1:${key(1)}`);
+    const stored = before.encryptBytes(file);
+    expect(stored.includes(file)).toBe(false);
+    expect(before.decryptBytes(stored)).toEqual(file);
+
+    const after = await loadCipher(`k2:${key(2)},k1:${key(1)}`);
+    expect(after.decryptBytes(stored)).toEqual(file);
+    expect(after.decryptBytes(file)).toEqual(file);
+  });
+});
+
+describe('blindIndex', () => {
+  it('is stable for a value and differs by purpose', async () => {
+    const { blindIndex } = await loadCipher(`k1:${key(1)}`);
+    expect(blindIndex('Beneficiary.phone', '60123456789')).toBe(blindIndex('Beneficiary.phone', '60123456789'));
+    expect(blindIndex('Beneficiary.phone', '60123456789')).not.toBe(blindIndex('Beneficiary.idNumber', '60123456789'));
+  });
+});
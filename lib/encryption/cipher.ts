@@ -0,0 +1,153 @@
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from 'node:crypto';
+
+// AES-256-GCM for individual column values, stored as
+//
+//   enc:<key id>:<iv>:<auth tag>:<ciphertext>      (base64url parts)
+//
+// FIELD_ENCRYPTION_KEYS lists `id:base64key` pairs, comma-separated, newest
+// first. New values are always encrypted with the first key; the others are
+// kept only to read values written before a rotation, until the migration
+// command has re-encrypted them (see prisma/encrypt-pii.ts).
+//
+// Whole files use the same keys, stored as `enc:<key id>:` followed by the raw
+// IV, auth tag and ciphertext. The migration command doesn't rewrite files, so
+// a key stays in FIELD_ENCRYPTION_KEYS for as long as files encrypted with it
+// are kept.
+//
+// BLIND_INDEX_KEY is a separate HMAC key for the exact-match lookup columns.
+// Changing it invalidates every index value, so it is only ever changed
+// together with a run of the migration command.
+
+export class EncryptionError extends Error {}
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+const ENCRYPTED_VALUE = /^enc:([\w-]+):([\w-]{16}):([\w-]{22}):([\w-]*)$/;
+const ENCRYPTED_BYTES = /^enc:([\w-]+):/;
+const TAG_BYTES = 16;
+
+interface KeyRing {
+  current: { id: string; key: Buffer };
+  keys: Map<string, Buffer>;
+}
+
+let keyRing: KeyRing | undefined;
+let blindIndexKey: Buffer | undefined;
+
+function decodeKey(name: string, value: string): Buffer {
+  const key = Buffer.from(value, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new EncryptionError(`${name} must be ${KEY_BYTES} bytes, base64-encoded (openssl rand -base64 32)`);
+  }
+  return key;
+}
+
+function getKeyRing(): KeyRing {
+  if (!keyRing) {
+    const entries = (process.env.FIELD_ENCRYPTION_KEYS ?? '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const [id, value] = entry.split(':');
+        if (!id || !value || !/^[\w-]+$/.test(id)) {
+          throw new EncryptionError('FIELD_ENCRYPTION_KEYS entries must look like "<id>:<base64 key>"');
+        }
+        return [id, decodeKey(`FIELD_ENCRYPTION_KEYS key "${id}"`, value)] as const;
+      });
+    if (entries.length === 0) {
+      throw new EncryptionError('FIELD_ENCRYPTION_KEYS is not set');
+    }
+    keyRing = { current: { id: entries[0][0], key: entries[0][1] }, keys: new Map(entries) };
+  }
+  return keyRing;
+}
+
+function getBlindIndexKey(): Buffer {
+  if (!blindIndexKey) {
+    if (!process.env.BLIND_INDEX_KEY) {
+      throw new EncryptionError('BLIND_INDEX_KEY is not set');
+    }
+    blindIndexKey = decodeKey('BLIND_INDEX_KEY', process.env.BLIND_INDEX_KEY);
+  }
+  return blindIndexKey;
+}
+
+export function isEncrypted(value: string): boolean {
+  return ENCRYPTED_VALUE.test(value);
+}
+
+// The id of the key `value` was encrypted with, or null for plaintext.
+export function encryptionKeyId(value: string): string | null {
+  return ENCRYPTED_VALUE.exec(value)?.[1] ?? null;
+}
+
+export function currentEncryptionKeyId(): string {
+  return getKeyRing().current.id;
+}
+
+export function encryptValue(plaintext: string): string {
+  const { current } = getKeyRing();
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, current.key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return ['enc', current.id, iv.toString('base64url'), tag.toString('base64url'), data.toString('base64url')].join(':');
+}
+
+// Plaintext passes through unchanged, so rows written before encryption was
+// switched on stay readable until the migration command reaches them. A value
+// that looks encrypted but won't decrypt is an error, not something to show.
+export function decryptValue(value: string): string {
+  const match = ENCRYPTED_VALUE.exec(value);
+  if (!match) return value;
+
+  const [, keyId, iv, tag, data] = match;
+  const key = getKeyRing().keys.get(keyId);
+  if (!key) {
+    throw new EncryptionError(`No encryption key "${keyId}" in FIELD_ENCRYPTION_KEYS`);
+  }
+  try {
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64url')), decipher.final()]).toString('utf8');
+  } catch {
+    throw new EncryptionError(`Could not decrypt a value encrypted with key "${keyId}"`);
+  }
+}
+
+export function encryptBytes(plaintext: Buffer): Buffer {
+  const { current } = getKeyRing();
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, current.key, iv);
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([Buffer.from(`enc:${current.id}:`), iv, cipher.getAuthTag(), data]);
+}
+
+// Like decryptValue, files stored before encryption are returned as they are.
+export function decryptBytes(stored: Buffer): Buffer {
+  const match = ENCRYPTED_BYTES.exec(stored.subarray(0, 64).toString('latin1'));
+  if (!match) return stored;
+
+  const keyId = match[1];
+  const key = getKeyRing().keys.get(keyId);
+  if (!key) {
+    throw new EncryptionError(`No encryption key "${keyId}" in FIELD_ENCRYPTION_KEYS`);
+  }
+  const start = match[0].length;
+  try {
+    const decipher = createDecipheriv(ALGORITHM, key, stored.subarray(start, start + IV_BYTES));
+    decipher.setAuthTag(stored.subarray(start + IV_BYTES, start + IV_BYTES + TAG_BYTES));
+    return Buffer.concat([decipher.update(stored.subarray(start + IV_BYTES + TAG_BYTES)), decipher.final()]);
+  } catch {
+    throw new EncryptionError(`Could not decrypt a file encrypted with key "${keyId}"`);
+  }
+}
+
+// A keyed hash of an already-normalized value. `purpose` keeps the same digits
+// in different columns (an IC number and a phone number, say) from producing
+// the same index value.
+export function blindIndex(purpose: string, normalized: string): string {
+  return createHmac('sha256', getBlindIndexKey()).update(`${purpose}:${normalized}`).digest('base64url');
+}
@@ -0,0 +1,95 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { decryptValue, EncryptionError } from './cipher';
+import { encryptData, rewriteWhere } from './extension';
+import { phoneSearchForms } from '../countries';
+import { blindIndexValue } from './fields';
+
+beforeAll(() => {
+  process.env.FIELD_ENCRYPTION_KEYS = `k1:${Buffer.alloc(32, 1).toString('base64')}`;
+  process.env.BLIND_INDEX_KEY = Buffer.alloc(32, 2).toString('base64');
+});
+
+const idIndex = (value: string) => blindIndexValue('Beneficiary', 'idNumber', value);
+const phoneIndex = (value: string) => blindIndexValue('Beneficiary', 'phone', value);
+
+describe('encryptData', () => {
+  it('encrypts the encrypted fields and fills in their blind indexes', () => {
+    const data = encryptData('Beneficiary', { firstName: 'Aminah', idNumber: '850101-14-5523', notes: 'Note' }) as Record<
+      string,
+      string
+    >;
+    expect(data.firstName).toBe('Aminah');
+    expect(data.idNumber).not.toContain('850101');
+    expect(decryptValue(data.idNumber)).toBe('850101-14-5523');
+    expect(decryptValue(data.notes)).toBe('Note');
+    expect(data.idNumberIndex).toBe(idIndex('850101145523'));
+    expect(data).not.toHaveProperty('phoneIndex');
+  });
+
+  it('clears the index along with the field and unwraps `set`', () => {
+    expect(encryptData('Beneficiary', { phone: null })).toEqual({ phone: null, phoneIndex: null });
+    const data = encryptData('Beneficiary', { idNumber: { set: '850101145523' } }) as Record<string, string>;
+    expect(decryptValue(data.idNumber)).toBe('850101145523');
+    expect(data.idNumberIndex).toBe(idIndex('850101-14-5523'));
+  });
+
+  it('rejects non-string values and leaves other models alone', () => {
+    expect(() => encryptData('Beneficiary', { idNumber: 123 })).toThrow(EncryptionError);
+    expect(encryptData('Case', { title: 'x' })).toEqual({ title: 'x' });
+  });
+});
+
+describe('rewriteWhere', () => {
+  it('moves exact matches onto the blind index, normalised', () => {
+    expect(rewriteWhere('Beneficiary', { idNumber: '850101-14-5523', branchId: 'b1' })).toEqual({
+      idNumberIndex: idIndex('850101145523'),
+      branchId: 'b1',
+    });
+    expect(rewriteWhere('Beneficiary', { idNumber: { equals: '850101145523', mode: 'insensitive' } })).toEqual({
+      idNumberIndex: { equals: idIndex('850101-14-5523') },
+    });
+    expect(rewriteWhere('Beneficiary', { idNumber: { in: ['850101145523'], not: null } })).toEqual({
+      idNumber: { not: null },
+      idNumberIndex: { in: [idIndex('850101145523')] },
+    });
+  });
+
+  it('keeps null checks on the encrypted column', () => {
+    expect(rewriteWhere('Beneficiary', { notes: null, idNumber: { equals: null } })).toEqual({
+      notes: null,
+      idNumber: { equals: null },
+    });
+  });
+
+  it('rewrites inside AND, OR and NOT', () => {
+    expect(
+      rewriteWhere('Beneficiary', { OR: [{ idNumber: '850101145523' }, { firstName: 'A' }], NOT: { idNumber: null } })
+    ).toEqual({ OR: [{ idNumberIndex: idIndex('850101145523') }, { firstName: 'A' }], NOT: { idNumber: null } });
+  });
+
+  it('refuses filters the ciphertext cannot answer', () => {
+    expect(() => rewriteWhere('Beneficiary', { idNumber: { contains: '8501' } })).toThrow('filtered by exact value');
+    expect(() => rewriteWhere('Beneficiary', { notes: 'x' })).toThrow('filtered for null');
+  });
+
+  it('matches phones in international form, however they are punctuated', () => {
+    expect(phoneIndex('+64 21 123 4567')).toBe(phoneIndex('64211234567'));
+    expect(phoneIndex('+64211234567')).not.toBe(phoneIndex('+60211234567'));
+    expect(() => phoneIndex('021 123 4567')).toThrow(EncryptionError);
+  });
+
+  it('tries a local phone number searched for as one from each country', () => {
+    const forms = phoneSearchForms('021-123 4567');
+    expect(forms).toContain('+64211234567');
+    expect(forms).toContain('+60211234567');
+    expect(rewriteWhere('Beneficiary', { phone: { in: forms } })).toEqual({
+      phoneIndex: { in: forms.map(phoneIndex) },
+    });
+    expect(phoneSearchForms('aminah')).toEqual([]);
+  });
+
+  it('leaves models without encrypted fields alone', () => {
+    const where = { title: { contains: 'x' } };
+    expect(rewriteWhere('Case', where)).toBe(where);
+  });
+});
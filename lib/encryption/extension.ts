@@ -0,0 +1,136 @@
+import { Prisma } from '@prisma/client';
+import { decryptValue, encryptValue, EncryptionError } from './cipher';
+import { blindIndexFields, blindIndexValue, encryptedFieldNames, encryptedFields } from './fields';
+
+type Data = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is Data {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+// Encrypts the encrypted fields of one `data` object and fills in their blind
+// index columns, so the two can never drift apart. Also used for snapshots of
+// a row kept outside its table, such as a merged record in the audit log.
+export function encryptData(model: Prisma.ModelName, data: unknown): unknown {
+  const fields = encryptedFields[model];
+  if (!fields || !isPlainObject(data)) return data;
+
+  const encrypted: Data = { ...data };
+  for (const field of fields) {
+    let value = data[field];
+    if (isPlainObject(value) && 'set' in value) value = value.set;
+    if (value === undefined) continue;
+    if (value !== null && typeof value !== 'string') {
+      throw new EncryptionError(`${model}.${field} can only be set to a string or null`);
+    }
+
+    encrypted[field] = value === null ? null : encryptValue(value);
+    const index = blindIndexFields[model]?.[field];
+    if (index) encrypted[index.column] = value === null ? null : blindIndexValue(model, field, value);
+  }
+  return encrypted;
+}
+
+function unsupportedFilter(model: Prisma.ModelName, field: string): EncryptionError {
+  const indexed = !!blindIndexFields[model]?.[field];
+  return new EncryptionError(
+    `${model}.${field} is encrypted and can only be filtered ${indexed ? 'by exact value' : 'for null'}`
+  );
+}
+
+// One field's filter, split into the null checks that still work on the
+// encrypted column and the value matches that move to its blind index.
+function rewriteCondition(model: Prisma.ModelName, field: string, condition: unknown): Data {
+  const index = blindIndexFields[model]?.[field];
+  const hash = (value: unknown) => {
+    if (!index || typeof value !== 'string') throw unsupportedFilter(model, field);
+    return blindIndexValue(model, field, value);
+  };
+
+  if (condition === null) return { [field]: null };
+  if (!isPlainObject(condition)) return { [index?.column ?? field]: hash(condition) };
+
+  const onField: Data = {};
+  const onIndex: Data = {};
+  for (const [operator, operand] of Object.entries(condition)) {
+    if (operand === undefined || operator === 'mode') continue;
+    if ((operator === 'equals' || operator === 'not') && operand === null) {
+      onField[operator] = null;
+    } else if (operator === 'equals' || operator === 'not') {
+      onIndex[operator] = hash(operand);
+    } else if ((operator === 'in' || operator === 'notIn') && Array.isArray(operand)) {
+      onIndex[operator] = operand.map(hash);
+    } else {
+      throw unsupportedFilter(model, field);
+    }
+  }
+  return {
+    ...(Object.keys(onField).length > 0 && { [field]: onField }),
+    ...(index && Object.keys(onIndex).length > 0 && { [index.column]: onIndex }),
+  };
+}
+
+// Rewrites filters on encrypted fields throughout a where clause, including
+// inside AND / OR / NOT. Filters through a relation (`{ beneficiary: { phone } }`
+// from another model) aren't rewritten, so query the model itself instead.
+export function rewriteWhere(model: Prisma.ModelName, where: unknown): unknown {
+  const fields = encryptedFields[model];
+  if (!fields || !isPlainObject(where)) return where;
+
+  const rewritten: Data = {};
+  for (const [key, value] of Object.entries(where)) {
+    if (key === 'AND' || key === 'OR' || key === 'NOT') {
+      rewritten[key] = Array.isArray(value) ? value.map((item) => rewriteWhere(model, item)) : rewriteWhere(model, value);
+    } else if (fields.includes(key) && value !== undefined) {
+      Object.assign(rewritten, rewriteCondition(model, key, value));
+    } else {
+      rewritten[key] = value;
+    }
+  }
+  return rewritten;
+}
+
+function encryptArgs(model: Prisma.ModelName, args: Data): Data {
+  if (!encryptedFields[model]) return args;
+
+  const encrypted: Data = { ...args };
+  if ('where' in args) encrypted.where = rewriteWhere(model, args.where);
+  if ('data' in args) {
+    encrypted.data = Array.isArray(args.data)
+      ? args.data.map((item) => encryptData(model, item))
+      : encryptData(model, args.data);
+  }
+  if ('create' in args) encrypted.create = encryptData(model, args.create);
+  if ('update' in args) encrypted.update = encryptData(model, args.update);
+  return encrypted;
+}
+
+// Decrypts encrypted fields wherever they appear in a result, in place.
+function decryptResult(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    value.forEach(decryptResult);
+  } else if (isPlainObject(value)) {
+    for (const [key, field] of Object.entries(value)) {
+      if (typeof field === 'string' && encryptedFieldNames.has(key)) value[key] = decryptValue(field);
+      else if (typeof field === 'object' && field !== null) decryptResult(field);
+    }
+  }
+  return value;
+}
+
+// Application-level encryption for the columns in ./fields. Writes through the
+// shared client are encrypted and indexed, exact-match filters are moved onto
+// the blind index, and results come back decrypted. Nested writes from another
+// model (`case.create({ data: { beneficiary: { create } } })`) bypass this, as
+// do raw queries, so encrypted models are always written directly.
+export const encryptionExtension = Prisma.defineExtension({
+  name: 'encryption',
+  query: {
+    $allModels: {
+      async $allOperations({ model, args, query }) {
+        const result = await query(encryptArgs(model as Prisma.ModelName, args as Data) as typeof args);
+        return decryptResult(result);
+      },
+    },
+  },
+});
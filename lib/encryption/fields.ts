@@ -0,0 +1,48 @@
+import type { Prisma } from '@prisma/client';
+import { isLocalPhone, normalizePhone } from '../countries';
+import { compactIdNumber } from '../utils';
+import { blindIndex, EncryptionError } from './cipher';
+
+// Columns stored encrypted, per model. They can be read and written as usual
+// through the shared client, but the database only ever sees ciphertext, so
+// they can't be searched, sorted or grouped on except through a blind index.
+export const encryptedFields: Partial<Record<Prisma.ModelName, readonly string[]>> = {
+  Beneficiary: ['idNumber', 'phone', 'address', 'notes', 'emergencyName', 'emergencyPhone', 'emergencyRelation'],
+  WebhookEndpoint: ['secret'],
+};
+
+export interface BlindIndexField {
+  column: string;
+  // Values that should find each other must normalize to the same string.
+  normalize: (value: string) => string;
+}
+
+// Phones are indexed in international form. A local number could be from any
+// branch's country, so it has to go through toInternationalPhone first;
+// indexing it as it stands would quietly never match.
+function indexedPhone(phone: string): string {
+  if (isLocalPhone(phone)) {
+    throw new EncryptionError('Phone numbers are matched in international form; convert local numbers first');
+  }
+  return normalizePhone(phone);
+}
+
+// Encrypted columns that can still be matched exactly. Lookups on the field
+// go to the index column instead, so `{ idNumber: '850101-14-5523' }` finds
+// the row stored from "850101145523".
+export const blindIndexFields: Partial<Record<Prisma.ModelName, Record<string, BlindIndexField>>> = {
+  Beneficiary: {
+    idNumber: { column: 'idNumberIndex', normalize: compactIdNumber },
+    phone: { column: 'phoneIndex', normalize: indexedPhone },
+  },
+};
+
+// Every encrypted field name on any model. Query results are decrypted by
+// name, so related records pulled in by an `include` are covered too.
+export const encryptedFieldNames = new Set(Object.values(encryptedFields).flat());
+
+export function blindIndexValue(model: Prisma.ModelName, field: string, value: string): string {
+  const index = blindIndexFields[model]?.[field];
+  if (!index) throw new Error(`${model}.${field} has no blind index`);
+  return blindIndex(`${model}.${field}`, index.normalize(value));
+}
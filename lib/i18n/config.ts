@@ -0,0 +1,22 @@
+// The languages the app is translated into. The interface follows each
+// user's preference (User.locale); before sign-in it follows the browser.
+export const locales = ['en', 'ms'] as const;
+export type Locale = (typeof locales)[number];
+
+export const defaultLocale: Locale = 'en';
+
+// Each language named in itself, for the language picker.
+export const localeNames: Record<Locale, string> = {
+  en: 'English',
+  ms: 'Bahasa Malaysia',
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return locales.includes(value as Locale);
+}
+
+// The Intl locale dates and amounts are formatted with: Malaysian
+// conventions in either language.
+export function intlLocale(locale: string): string {
+  return `${isLocale(locale) ? locale : defaultLocale}-MY`;
+}
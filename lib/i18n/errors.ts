@@ -0,0 +1,25 @@
+// Messages for failures the user is told about (a duplicate IC, a case that
+// can't move to that status, an upload that's too big) live in the `errors`
+// catalogue, like validation messages, so code that detects them names the
+// message rather than wording it. The action reporting the failure words it
+// in the reader's language; see lib/actions.
+
+export type ErrorKey = keyof IntlMessages['errors'];
+export type ErrorValues = Record<string, string | number>;
+export type ErrorTranslator = (key: ErrorKey, values?: ErrorValues) => string;
+
+export interface LocalizedMessage {
+  key: ErrorKey;
+  values?: ErrorValues;
+}
+
+// A failure to report to the user. `message` holds the key, for logs.
+export class LocalizedError extends Error {
+  constructor(
+    readonly key: ErrorKey,
+    readonly values?: ErrorValues
+  ) {
+    super(key);
+    this.name = new.target.name;
+  }
+}
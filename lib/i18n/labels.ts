@@ -0,0 +1,30 @@
+import { useTranslations } from 'next-intl';
+import { formatEnumLabel } from '../utils';
+
+// Labels for enum values (BeneficiaryCategory, ServiceType, CaseStatus...) and
+// document types in the reader's language. The catalogues key them by value;
+// anything without a translation, like an audit action, falls back to its
+// English form.
+
+type LabelNamespace = 'enums' | 'documentTypes';
+type LabelTranslator<Namespace extends LabelNamespace> = ReturnType<typeof useTranslations<Namespace>>;
+// The values are only known at runtime, so any string is looked up.
+type LabelKey<Namespace extends LabelNamespace> = Parameters<LabelTranslator<Namespace>>[0];
+
+export function labelFrom<Namespace extends LabelNamespace>(
+  t: LabelTranslator<Namespace>,
+  fallback: (value: string) => string
+) {
+  return (value: string) => {
+    const key = value as LabelKey<Namespace>;
+    return t.has(key) ? t(key) : fallback(value);
+  };
+}
+
+export function useEnumLabel() {
+  return labelFrom<'enums'>(useTranslations('enums'), formatEnumLabel);
+}
+
+export function useDocumentTypeLabel() {
+  return labelFrom<'documentTypes'>(useTranslations('documentTypes'), (type) => type);
+}
@@ -0,0 +1,31 @@
+import { headers } from 'next/headers';
+import { getRequestConfig } from 'next-intl/server';
+import { getCurrentUser } from '../auth';
+import { prisma } from '../prisma';
+import { defaultLocale, isLocale, type Locale } from './config';
+
+// The signed-in user's chosen language; otherwise the first language the
+// browser asks for that we have.
+async function resolveLocale(): Promise<Locale> {
+  const user = await getCurrentUser();
+  if (user) {
+    const record = await prisma.user.findUnique({ where: { id: user.id }, select: { locale: true } });
+    if (isLocale(record?.locale)) return record.locale;
+  }
+
+  const accepted = (await headers()).get('accept-language') ?? '';
+  for (const part of accepted.split(',')) {
+    // "ms-MY" and "ms" both mean Bahasa Malaysia.
+    const language = part.split(';')[0].trim().toLowerCase().split('-')[0];
+    if (isLocale(language)) return language;
+  }
+  return defaultLocale;
+}
+
+export default getRequestConfig(async () => {
+  const locale = await resolveLocale();
+  return {
+    locale,
+    messages: (await import(`../../messages/${locale}.json`)).default,
+  };
+});
@@ -0,0 +1,33 @@
+import { createTranslator } from 'next-intl';
+import { getTranslations } from 'next-intl/server';
+import { formatEnumLabel } from '../utils';
+import { defaultLocale, isLocale } from './config';
+import type { LocalizedError } from './errors';
+import { labelFrom } from './labels';
+
+// The async counterparts of ./labels, for async server components.
+
+export async function getEnumLabel() {
+  return labelFrom<'enums'>(await getTranslations('enums'), formatEnumLabel);
+}
+
+export async function getDocumentTypeLabel() {
+  return labelFrom<'documentTypes'>(await getTranslations('documentTypes'), (type) => type);
+}
+
+// Messages in a given user's language rather than the current request's, for
+// text sent to someone else, such as an email.
+export async function getTranslatorFor(locale: string) {
+  const resolved = isLocale(locale) ? locale : defaultLocale;
+  const messages: IntlMessages = (await import(`../../messages/${resolved}.json`)).default;
+  return createTranslator({ locale: resolved, messages });
+}
+
+export type Translator = Awaited<ReturnType<typeof getTranslatorFor>>;
+
+// A LocalizedError's message in a given language; the partner API answers in
+// English.
+export async function localizedErrorMessage(error: LocalizedError, locale: string = defaultLocale) {
+  const t = await getTranslatorFor(locale);
+  return t(`errors.${error.key}`, error.values);
+}
@@ -0,0 +1,69 @@
+import { ZodIssueCode, type ZodErrorMap, type ZodIssueOptionalMessage } from 'zod';
+
+// Validation messages are looked up in the `validation` catalogue when a
+// schema is checked, in the reader's language, so the schemas in
+// lib/validation carry no English of their own. Built-in checks (required,
+// too long, not an email...) get a message from the issue code. Anything more
+// specific is a refinement that names its message with `localizedIssue`.
+
+export type ValidationKey = keyof IntlMessages['validation'];
+type Values = Record<string, string | number>;
+export type ValidationTranslator = (key: ValidationKey, values?: Values) => string;
+
+interface LocalizedParams {
+  i18n: ValidationKey;
+  values?: Values;
+}
+
+// The `params` for a refinement or custom issue, naming its message:
+//   .refine(check, localizedIssue('futureDate'))
+export function localizedIssue(key: ValidationKey, values?: Values): { params: LocalizedParams } {
+  return { params: values ? { i18n: key, values } : { i18n: key } };
+}
+
+function isLocalizedParams(params: unknown): params is LocalizedParams {
+  return typeof params === 'object' && params !== null && typeof (params as LocalizedParams).i18n === 'string';
+}
+
+export function translateZodIssue(issue: ZodIssueOptionalMessage, t: ValidationTranslator): string {
+  switch (issue.code) {
+    case ZodIssueCode.invalid_type:
+      if (issue.received === 'undefined' || issue.received === 'null') return t('required');
+      if (issue.expected === 'integer') return t('notInteger');
+      if (issue.expected === 'number') return t('invalidNumber');
+      if (issue.expected === 'date') return t('invalidDate');
+      return t('invalid');
+    case ZodIssueCode.invalid_date:
+      return t('invalidDate');
+    case ZodIssueCode.invalid_enum_value:
+    case ZodIssueCode.invalid_literal:
+    case ZodIssueCode.invalid_union:
+      return t('chooseOption');
+    case ZodIssueCode.invalid_string:
+      if (issue.validation === 'email') return t('invalidEmail');
+      if (issue.validation === 'cuid' || issue.validation === 'uuid') return t('invalidReference');
+      return t('invalidFormat');
+    case ZodIssueCode.too_small: {
+      const minimum = Number(issue.minimum);
+      if (issue.type === 'string') return minimum <= 1 ? t('required') : t('tooShort', { minimum });
+      if (issue.type === 'array') return t('tooFewItems', { minimum });
+      if (issue.type === 'number' && minimum === 0 && !issue.inclusive) return t('mustBePositive');
+      return t('tooSmall', { minimum });
+    }
+    case ZodIssueCode.too_big: {
+      const maximum = Number(issue.maximum);
+      if (issue.type === 'string') return t('tooLong', { maximum });
+      if (issue.type === 'array') return t('tooManyItems', { maximum });
+      return t('tooBig', { maximum });
+    }
+    case ZodIssueCode.custom:
+      if (isLocalizedParams(issue.params)) return t(issue.params.i18n, issue.params.values);
+      return issue.message ?? t('invalid');
+    default:
+      return t('invalid');
+  }
+}
+
+export function makeZodErrorMap(t: ValidationTranslator): ZodErrorMap {
+  return (issue) => ({ message: translateZodIssue(issue, t) });
+}
@@ -0,0 +1,125 @@
+import { prisma } from '../prisma';
+import { toBeneficiaryData } from '../beneficiaries';
+import { isUniqueConstraintError } from '../actions';
+import { mergeCustomFieldValues, type CustomFieldDefinition } from '../custom-fields/values';
+import type { ErrorTranslator } from '../i18n/errors';
+import { emitWebhookEvent } from '../webhooks/delivery';
+import { beneficiaryEventData, beneficiaryEventSelect, type BeneficiaryEventRecord } from '../webhooks/events';
+import { IMPORT_SOURCE, type ImportRowResult } from './csv-parser';
+import { CUSTOM_FIELD_TARGET_PATTERN, type ImportMapping } from './fields';
+
+export const IMPORT_BATCH_SIZE = 100;
+
+export interface ImportCommitResult {
+  created: number;
+  updated: number;
+  failed: { rowNumber: number; message: string }[];
+}
+
+interface ImportedColumns {
+  columns: Set<string>;
+  customFields: Pick<CustomFieldDefinition, 'key'>[];
+}
+
+// The columns and custom fields a re-import refreshes: those the mapping
+// fills. Anything else, like a phone number added in the app or a priority set
+// by an assessment, is left as it is.
+function importedColumns(mapping: ImportMapping): ImportedColumns {
+  const imported: ImportedColumns = { columns: new Set(), customFields: [] };
+  for (const field of Object.values(mapping)) {
+    if (field === 'fullName') {
+      imported.columns.add('firstName').add('lastName');
+    } else if (CUSTOM_FIELD_TARGET_PATTERN.test(field)) {
+      imported.customFields.push({ key: field.slice('cf.'.length) });
+    } else if (field && field !== 'externalId') {
+      imported.columns.add(field);
+    }
+  }
+  return imported;
+}
+
+// A row already imported into another branch is left alone: the create then
+// fails on the duplicate externalId and the row is reported. `stored` holds the
+// custom field answers of the record the row updates.
+function upsertRow(row: ImportRowResult, imported: ImportedColumns, stored: unknown, userId: string, branchId: string) {
+  const data = toBeneficiaryData(row.data!);
+  const { customFields } = row.data!;
+  const update = Object.fromEntries(Object.entries(data).filter(([column]) => imported.columns.has(column)));
+  return prisma.beneficiary.upsert({
+    where: { source_externalId: { source: IMPORT_SOURCE, externalId: row.externalId }, branchId },
+    create: { ...data, customFields, source: IMPORT_SOURCE, externalId: row.externalId, branchId, createdById: userId },
+    update: {
+      ...update,
+      ...(imported.customFields.length > 0 && {
+        customFields: mergeCustomFieldValues(stored, customFields, imported.customFields),
+      }),
+      source: IMPORT_SOURCE,
+    },
+    select: beneficiaryEventSelect,
+  });
+}
+
+function describeError(error: unknown, t: ErrorTranslator): string {
+  if (isUniqueConstraintError(error, 'idNumberIndex')) {
+    return t('importIdNumberTaken');
+  }
+  if (isUniqueConstraintError(error, 'externalId')) {
+    return t('importedIntoOtherBranch');
+  }
+  return t('importRowNotSaved');
+}
+
+// Writes the valid rows of a dry run, imported with `mapping`, in batches.
+// Rows that fail are reported in the reader's language through `t`. Each batch is one transaction;
+// if a batch fails, its rows are retried individually so one bad row doesn't
+// sink the other 99.
+export async function commitImportRows(
+  rows: ImportRowResult[],
+  mapping: ImportMapping,
+  userId: string,
+  branchId: string,
+  t: ErrorTranslator
+): Promise<ImportCommitResult> {
+  const valid = rows.filter((row) => row.data);
+  const imported = importedColumns(mapping);
+  const result: ImportCommitResult = { created: 0, updated: 0, failed: [] };
+
+  for (let i = 0; i < valid.length; i += IMPORT_BATCH_SIZE) {
+    const batch = valid.slice(i, i + IMPORT_BATCH_SIZE);
+
+    const existing = await prisma.beneficiary.findMany({
+      where: { source: IMPORT_SOURCE, externalId: { in: batch.map((row) => row.externalId) }, branchId },
+      select: { externalId: true, customFields: true },
+    });
+    const stored = new Map(existing.map((b) => [b.externalId, b.customFields]));
+    const upsert = (row: ImportRowResult) => upsertRow(row, imported, stored.get(row.externalId), userId, branchId);
+    // Newly registered beneficiaries, for webhook subscribers; re-imports of
+    // existing rows aren't registrations.
+    const registered: BeneficiaryEventRecord[] = [];
+    const tally = (row: ImportRowResult, saved: BeneficiaryEventRecord) => {
+      if (stored.has(row.externalId)) {
+        result.updated++;
+      } else {
+        result.created++;
+        registered.push(saved);
+      }
+    };
+
+    try {
+      const saved = await prisma.$transaction(batch.map(upsert));
+      batch.forEach((row, index) => tally(row, saved[index]));
+    } catch {
+      for (const row of batch) {
+        try {
+          tally(row, await upsert(row));
+        } catch (error) {
+          result.failed.push({ rowNumber: row.rowNumber, message: describeError(error, t) });
+        }
+      }
+    }
+
+    await emitWebhookEvent('beneficiary.registered', registered.map(beneficiaryEventData));
+  }
+
+  return result;
+}
@@ -0,0 +1,215 @@
+import Papa from 'papaparse';
+import { createHash } from 'crypto';
+import type { Country } from '@prisma/client';
+import { normalizeIdNumber, toInternationalPhone } from '../countries';
+import type { CustomFieldDefinition } from '../custom-fields/values';
+import { LocalizedError } from '../i18n/errors';
+import { makeZodErrorMap, type ValidationTranslator } from '../i18n/zod';
+import { beneficiarySchemaFor, type BeneficiaryInput } from '../validation';
+import { customFieldTarget, type ImportMapping } from './fields';
+import {
+  normalizeCategory,
+  normalizeCustomFieldAnswer,
+  normalizeGender,
+  normalizeTags,
+  parseImportDate,
+} from './normalize';
+
+export const IMPORT_SOURCE = 'google_form';
+export const MAX_IMPORT_ROWS = 20000;
+
+export interface ImportOptions {
+  mapping: ImportMapping;
+  // Of the branch the rows are imported into, whose formats they're checked against.
+  country: Country;
+  templateName?: string;
+  defaultCategory?: BeneficiaryInput['category'];
+  // The beneficiary custom fields, for columns mapped onto one.
+  customFields: CustomFieldDefinition[];
+  // Words the row errors in the reader's language; see lib/i18n/zod.
+  t: ValidationTranslator;
+}
+
+export interface ImportRowError {
+  field: string;
+  message: string;
+}
+
+export interface ImportRowResult {
+  // Spreadsheet row number, counting the header as row 1.
+  rowNumber: number;
+  externalId: string;
+  name: string;
+  data?: BeneficiaryInput;
+  errors: ImportRowError[];
+}
+
+export interface ImportReport {
+  headers: string[];
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  passRate: number;
+  rows: ImportRowResult[];
+}
+
+export function parseCsv(text: string) {
+  const result = Papa.parse<Record<string, string>>(text, {
+    header: true,
+    skipEmptyLines: 'greedy',
+    transformHeader: (header) => header.trim(),
+  });
+
+  return {
+    headers: (result.meta.fields ?? []).filter(Boolean),
+    rows: result.data,
+    errors: result.errors,
+  };
+}
+
+export function mapCsvRow(row: Record<string, string>, options: ImportOptions): Record<string, unknown> {
+  const mapped: Record<string, unknown> = {};
+  const answers: Record<string, unknown> = {};
+
+  for (const [header, field] of Object.entries(options.mapping)) {
+    const raw = row[header]?.trim();
+    if (!field || !raw) continue;
+
+    const customField = options.customFields.find((candidate) => customFieldTarget(candidate.key) === field);
+    if (customField) {
+      answers[customField.key] = normalizeCustomFieldAnswer(customField, raw);
+      continue;
+    }
+
+    switch (field) {
+      case 'fullName': {
+        // "Ahmad bin Abdullah" → first "Ahmad", last "bin Abdullah"
+        const [firstName, ...rest] = raw.split(/\s+/);
+        mapped.firstName ??= firstName;
+        mapped.lastName ??= rest.join(' ') || firstName;
+        break;
+      }
+      case 'dateOfBirth':
+        mapped.dateOfBirth = parseImportDate(raw);
+        break;
+      case 'gender':
+        mapped.gender = normalizeGender(raw);
+        break;
+      case 'category':
+        mapped.category = normalizeCategory(raw);
+        break;
+      case 'priority':
+        mapped.priority = raw.toUpperCase();
+        break;
+      case 'monthlyIncome':
+        // "RM 1,200.00" → "1200.00"; anything without digits is left to fail validation.
+        mapped.monthlyIncome = raw.replace(/[^\d.]/g, '') || raw;
+        break;
+      case 'phone':
+      case 'emergencyPhone':
+        mapped[field] = toInternationalPhone(raw, options.country);
+        break;
+      case 'tags':
+        mapped.tags = normalizeTags(raw);
+        break;
+      default:
+        mapped[field] = raw;
+    }
+  }
+
+  mapped.category ??= options.defaultCategory;
+  mapped.customFields = answers;
+  mapped.source = IMPORT_SOURCE;
+  return mapped;
+}
+
+// Stable identifier for a response so a re-import updates the same record.
+// Uses the mapped external ID column when there is one, otherwise a hash of the
+// raw row. Either way it is namespaced by template so two forms can't collide.
+function buildExternalId(row: Record<string, string>, mapped: Record<string, unknown>, templateName?: string) {
+  const namespace = templateName?.trim().toLowerCase().replace(/\s+/g, '-') || 'csv';
+  if (typeof mapped.externalId === 'string' && mapped.externalId) {
+    return `${namespace}:${mapped.externalId}`;
+  }
+  const canonical = JSON.stringify(Object.keys(row).sort().map((key) => [key, row[key]?.trim() ?? '']));
+  return `${namespace}:${createHash('sha256').update(canonical).digest('hex').slice(0, 24)}`;
+}
+
+// The custom fields the mapping fills. Only these are checked, so a required
+// field nobody mapped doesn't fail every row.
+export function mappedCustomFields<T extends CustomFieldDefinition>(fields: T[], mapping: ImportMapping): T[] {
+  const targets = Object.values(mapping);
+  return fields.filter((field) => targets.includes(customFieldTarget(field.key)));
+}
+
+// Dry run: maps and validates every row without touching the database.
+export function validateImport(text: string, options: ImportOptions): ImportReport {
+  const { headers, rows } = parseCsv(text);
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new LocalizedError('importTooManyRows', { max: MAX_IMPORT_ROWS });
+  }
+
+  const schema = beneficiarySchemaFor(options.country, mappedCustomFields(options.customFields, options.mapping));
+  const errorMap = makeZodErrorMap(options.t);
+  const seenExternalIds = new Map<string, number>();
+  const seenIdNumbers = new Map<string, number>();
+
+  const results = rows.map((row, index): ImportRowResult => {
+    const rowNumber = index + 2;
+    const mapped = mapCsvRow(row, options);
+    const externalId = buildExternalId(row, mapped, options.templateName);
+    const name = [mapped.firstName, mapped.lastName].filter(Boolean).join(' ');
+    const errors: ImportRowError[] = [];
+
+    const parsed = schema.safeParse(mapped, { errorMap });
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        errors.push({ field: issue.path.join('.') || 'row', message: issue.message });
+      }
+    }
+
+    const previousRow = seenExternalIds.get(externalId);
+    if (previousRow) {
+      errors.push({ field: 'externalId', message: options.t('duplicateImportRow', { row: previousRow }) });
+    } else {
+      seenExternalIds.set(externalId, rowNumber);
+    }
+
+    // Compared as stored, so 900101-14-5678 and 900101145678 are one person.
+    const idNumber =
+      typeof mapped.idNumber === 'string' && mapped.idNumber.trim()
+        ? normalizeIdNumber(
+            options.country,
+            mapped.idNumber,
+            typeof mapped.nationality === 'string' ? mapped.nationality : null
+          )
+        : undefined;
+    if (idNumber) {
+      const clash = seenIdNumbers.get(idNumber);
+      if (clash) {
+        errors.push({ field: 'idNumber', message: options.t('duplicateImportIdNumber', { row: clash }) });
+      } else {
+        seenIdNumbers.set(idNumber, rowNumber);
+      }
+    }
+
+    return {
+      rowNumber,
+      externalId,
+      name,
+      data: parsed.success && errors.length === 0 ? parsed.data : undefined,
+      errors,
+    };
+  });
+
+  const validRows = results.filter((row) => row.data).length;
+
+  return {
+    headers,
+    totalRows: results.length,
+    validRows,
+    invalidRows: results.length - validRows,
+    passRate: results.length === 0 ? 0 : validRows / results.length,
+    rows: results,
+  };
+}
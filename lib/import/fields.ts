@@ -0,0 +1,87 @@
+import type { CustomFieldDefinition } from '../custom-fields/values';
+
+// Beneficiary columns a CSV column can be mapped onto, as the import wizard
+// offers them and the import action accepts them.
+export const importFields = [
+  { key: 'firstName', label: 'First name', aliases: ['first name', 'nama pertama', 'given name'] },
+  { key: 'lastName', label: 'Last name', aliases: ['last name', 'surname', 'nama akhir', 'family name'] },
+  { key: 'fullName', label: 'Full name (split into first/last)', aliases: ['name', 'full name', 'nama', 'nama penuh'] },
+  { key: 'dateOfBirth', label: 'Date of birth', aliases: ['date of birth', 'dob', 'tarikh lahir', 'birth date'] },
+  { key: 'gender', label: 'Gender', aliases: ['gender', 'sex', 'jantina'] },
+  { key: 'nationality', label: 'Nationality', aliases: ['nationality', 'warganegara', 'kewarganegaraan'] },
+  { key: 'idNumber', label: 'IC / passport number', aliases: ['ic', 'ic number', 'no ic', 'no. ic', 'mykad', 'nric', 'passport', 'id number'] },
+  { key: 'phone', label: 'Phone', aliases: ['phone', 'phone number', 'no telefon', 'no. telefon', 'telefon', 'mobile'] },
+  { key: 'email', label: 'Email', aliases: ['email', 'email address', 'emel'] },
+  { key: 'address', label: 'Address', aliases: ['address', 'alamat'] },
+  { key: 'city', label: 'City', aliases: ['city', 'bandar'] },
+  { key: 'state', label: 'State', aliases: ['state', 'negeri'] },
+  { key: 'postcode', label: 'Postcode', aliases: ['postcode', 'poskod', 'postal code', 'zip'] },
+  { key: 'emergencyName', label: 'Emergency contact name', aliases: ['emergency contact', 'emergency name', 'waris'] },
+  { key: 'emergencyPhone', label: 'Emergency contact phone', aliases: ['emergency phone', 'no telefon waris'] },
+  { key: 'emergencyRelation', label: 'Emergency contact relation', aliases: ['relationship', 'hubungan'] },
+  { key: 'category', label: 'Category', aliases: ['category', 'kategori'] },
+  { key: 'priority', label: 'Priority', aliases: ['priority', 'keutamaan'] },
+  { key: 'monthlyIncome', label: 'Monthly household income', aliases: ['income', 'monthly income', 'household income', 'pendapatan', 'pendapatan bulanan'] },
+  { key: 'notes', label: 'Notes', aliases: ['notes', 'catatan', 'remarks'] },
+  { key: 'tags', label: 'Tags (comma separated)', aliases: ['tags', 'tag'] },
+  { key: 'externalId', label: 'External ID (unique per response)', aliases: ['timestamp', 'response id', 'id'] },
+] as const;
+
+export type ImportFieldKey = (typeof importFields)[number]['key'];
+
+export const importFieldKeys = importFields.map((field) => field.key) as [ImportFieldKey, ...ImportFieldKey[]];
+
+// Beneficiary custom fields are mapped as cf.<key>, like the list filters.
+export type CustomFieldTarget = `cf.${string}`;
+export type ImportTarget = ImportFieldKey | CustomFieldTarget;
+
+export const CUSTOM_FIELD_TARGET_PATTERN = /^cf\.[a-z][a-z0-9_]{0,49}$/;
+
+export function customFieldTarget(key: string): CustomFieldTarget {
+  return `cf.${key}`;
+}
+
+// CSV header → beneficiary field. Headers mapped to '' are ignored.
+export type ImportMapping = Record<string, ImportTarget | ''>;
+
+type MappableCustomField = Pick<CustomFieldDefinition, 'key' | 'label'>;
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9 ]/g, '').replace(/\s+/g, ' ');
+}
+
+// Guesses a mapping from header names, preferring a previously saved template
+// mapping for any header it already knows. Custom fields match on their key or
+// label; a saved mapping onto a field that has since been archived is dropped.
+export function suggestMapping(
+  headers: string[],
+  saved: ImportMapping = {},
+  customFields: MappableCustomField[] = []
+): ImportMapping {
+  const mapping: ImportMapping = {};
+  const used = new Set<string>();
+  const targets: { key: ImportTarget; names: readonly string[] }[] = [
+    ...importFields.map((field) => ({ key: field.key, names: [field.key, ...field.aliases] })),
+    ...customFields.map((field) => ({ key: customFieldTarget(field.key), names: [field.key, field.label] })),
+  ];
+  const isTarget = (target: string) => !target || targets.some((candidate) => candidate.key === target);
+
+  for (const header of headers) {
+    if (header in saved && isTarget(saved[header])) {
+      mapping[header] = saved[header];
+      if (saved[header]) used.add(saved[header]);
+    }
+  }
+
+  for (const header of headers) {
+    if (header in mapping) continue;
+    const normalized = normalizeHeader(header);
+    const match = targets.find(
+      (target) => !used.has(target.key) && target.names.some((name) => normalizeHeader(name) === normalized)
+    );
+    mapping[header] = match?.key ?? '';
+    if (match) used.add(match.key);
+  }
+
+  return mapping;
+}
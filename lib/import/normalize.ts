@@ -0,0 +1,118 @@
+import { isValid, parse } from 'date-fns';
+import type { CustomFieldDefinition } from '../custom-fields/values';
+
+// Google Forms exports follow the sheet's locale, so dates arrive in several
+// shapes. Day-first formats are tried before month-first ones because that is
+// what Malaysian sheets use; Japanese sheets write the year first.
+const DATE_FORMATS = ['yyyy-MM-dd', 'yyyy/M/d', 'd/M/yyyy', 'd-M-yyyy', 'd.M.yyyy', 'd/M/yyyy H:mm:ss', 'M/d/yyyy H:mm:ss', 'd MMM yyyy'];
+
+export function parseImportDate(value: string): Date | string {
+  const trimmed = value.trim();
+  for (const format of DATE_FORMATS) {
+    const parsed = parse(trimmed, format, new Date());
+    // Dates of birth are calendar days; pin them to UTC midnight so they
+    // don't shift a day depending on the server's timezone.
+    if (isValid(parsed)) return new Date(Date.UTC(parsed.getFullYear(), parsed.getMonth(), parsed.getDate()));
+  }
+  // Hand the raw string to zod so the row gets a proper validation error.
+  return trimmed;
+}
+
+const GENDER_ALIASES: Record<string, string> = {
+  male: 'MALE',
+  m: 'MALE',
+  lelaki: 'MALE',
+  female: 'FEMALE',
+  f: 'FEMALE',
+  perempuan: 'FEMALE',
+  wanita: 'FEMALE',
+  other: 'OTHER',
+  lain: 'OTHER',
+  'lain-lain': 'OTHER',
+  'prefer not to say': 'PREFER_NOT_TO_SAY',
+};
+
+const CATEGORY_ALIASES: Record<string, string> = {
+  homeless: 'HOMELESS',
+  gelandangan: 'HOMELESS',
+  elderly: 'ELDERLY',
+  'warga emas': 'ELDERLY',
+  disabled: 'DISABLED',
+  oku: 'DISABLED',
+  'low income': 'LOW_INCOME',
+  b40: 'LOW_INCOME',
+  asnaf: 'LOW_INCOME',
+  refugee: 'REFUGEE',
+  pelarian: 'REFUGEE',
+  orphan: 'ORPHAN',
+  'anak yatim': 'ORPHAN',
+  sick: 'SICK',
+  pesakit: 'SICK',
+  other: 'OTHER',
+};
+
+function normalizeEnum(value: string, aliases: Record<string, string>): string {
+  const key = value.trim().toLowerCase().replace(/_/g, ' ');
+  return aliases[key] ?? value.trim().toUpperCase().replace(/\s+/g, '_');
+}
+
+export function normalizeGender(value: string): string {
+  return normalizeEnum(value, GENDER_ALIASES);
+}
+
+export function normalizeCategory(value: string): string {
+  return normalizeEnum(value, CATEGORY_ALIASES);
+}
+
+export function normalizeTags(value: string): string[] {
+  return value
+    .split(/[,;]/)
+    .map((tag) => tag.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+const BOOLEAN_ALIASES: Record<string, boolean> = {
+  yes: true,
+  y: true,
+  ya: true,
+  true: true,
+  '1': true,
+  no: false,
+  n: false,
+  tidak: false,
+  false: false,
+  '0': false,
+};
+
+function matchOption(options: string[], value: string): string {
+  return options.find((option) => option.toLowerCase() === value.toLowerCase()) ?? value;
+}
+
+// An answer to a custom field in the shape the form submits it. Checkbox
+// questions arrive as "Rice, Oil". Anything that doesn't fit the field's type
+// is passed on as it is, to fail validation.
+export function normalizeCustomFieldAnswer(
+  field: Pick<CustomFieldDefinition, 'type' | 'options'>,
+  value: string
+): unknown {
+  switch (field.type) {
+    case 'DATE': {
+      const date = parseImportDate(value);
+      return date instanceof Date ? date.toISOString().slice(0, 10) : date;
+    }
+    case 'NUMBER':
+      return value.replace(/,/g, '');
+    case 'SELECT':
+      return matchOption(field.options, value.trim());
+    case 'MULTI_SELECT':
+      return value
+        .split(/[,;]/)
+        .map((choice) => choice.trim())
+        .filter(Boolean)
+        .map((choice) => matchOption(field.options, choice));
+    case 'BOOLEAN':
+      return BOOLEAN_ALIASES[value.trim().toLowerCase()] ?? value;
+    default:
+      return value;
+  }
+}
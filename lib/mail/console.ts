@@ -0,0 +1,8 @@
+import type { MailMessage, MailTransport } from './transport';
+
+// Prints each message instead of sending it, for development and tests.
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.info(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}\n`);
+  }
+}
@@ -0,0 +1,26 @@
+import { ConsoleMailTransport } from './console';
+import { ResendMailTransport } from './resend';
+import { MailError, type MailMessage, type MailTransport } from './transport';
+
+export { MailError, type MailMessage, type MailTransport };
+
+let transport: MailTransport | undefined;
+
+// MAIL_TRANSPORT picks the transport explicitly; otherwise Resend is used
+// whenever an API key is configured and the console when it isn't.
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const name = process.env.MAIL_TRANSPORT ?? (process.env.RESEND_API_KEY ? 'resend' : 'console');
+    switch (name) {
+      case 'resend':
+        transport = new ResendMailTransport();
+        break;
+      case 'console':
+        transport = new ConsoleMailTransport();
+        break;
+      default:
+        throw new MailError(`Unknown MAIL_TRANSPORT "${name}"`);
+    }
+  }
+  return transport;
+}
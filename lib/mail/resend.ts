@@ -0,0 +1,30 @@
+import { Resend } from 'resend';
+import { MailError, type MailMessage, type MailTransport } from './transport';
+
+// Resend, for production. MAIL_FROM must be an address on a domain verified
+// with Resend.
+export class ResendMailTransport implements MailTransport {
+  private readonly client: Resend;
+  private readonly from: string;
+
+  constructor(apiKey = process.env.RESEND_API_KEY, from = process.env.MAIL_FROM) {
+    if (!apiKey || !from) {
+      throw new MailError('RESEND_API_KEY and MAIL_FROM must be set to send email through Resend');
+    }
+    this.client = new Resend(apiKey);
+    this.from = from;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const { error } = await this.client.emails.send({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      ...(message.html && { html: message.html }),
+    });
+    if (error) {
+      throw new MailError(`Resend refused the message: ${error.message}`);
+    }
+  }
+}
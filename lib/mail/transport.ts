@@ -0,0 +1,14 @@
+// How outgoing email leaves the app. Messages carry a plain-text body and,
+// optionally, an HTML one.
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export class MailError extends Error {}
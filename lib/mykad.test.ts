@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { isValidPassportNumber, looksLikeMyKad, normalizePassportNumber, parseMyKad } from './mykad';
+import { beneficiarySchemaFor } from './validation';
+
+const today = new Date('2024-06-15T00:00:00Z');
+
+describe('parseMyKad', () => {
+  it('reads the date of birth, birthplace and gender', () => {
+    expect(parseMyKad('900101-14-5677', today)).toEqual({
+      normalized: '900101-14-5677',
+      dateOfBirth: new Date('1990-01-01T00:00:00Z'),
+      birthPlaceCode: '14',
+      birthPlace: 'Wilayah Persekutuan Kuala Lumpur',
+      state: 'Wilayah Persekutuan Kuala Lumpur',
+      gender: 'MALE',
+    });
+  });
+
+  it('accepts the number without hyphens or with spaces and normalises it', () => {
+    expect(parseMyKad('900101145678', today)?.normalized).toBe('900101-14-5678');
+    expect(parseMyKad(' 900101 14 5678 ', today)?.normalized).toBe('900101-14-5678');
+  });
+
+  it('takes an even last digit as female', () => {
+    expect(parseMyKad('900101-14-5678', today)?.gender).toBe('FEMALE');
+  });
+
+  it('puts two-digit years after this one in the last century', () => {
+    expect(parseMyKad('240101-10-1234', today)?.dateOfBirth).toEqual(new Date('2024-01-01T00:00:00Z'));
+    expect(parseMyKad('250101-10-1234', today)?.dateOfBirth).toEqual(new Date('1925-01-01T00:00:00Z'));
+  });
+
+  it('names the region for codes outside Malaysia, with no state', () => {
+    const info = parseMyKad('850505-61-1234', today);
+    expect(info?.birthPlace).toBe('Indonesia');
+    expect(info?.state).toBeNull();
+  });
+
+  it('rejects impossible and future birth dates', () => {
+    expect(parseMyKad('900230-14-5678', today)).toBeNull();
+    expect(parseMyKad('901301-14-5678', today)).toBeNull();
+    expect(parseMyKad('010229-14-5678', today)).toBeNull();
+    expect(parseMyKad('000229-14-5678', today)).not.toBeNull();
+    expect(parseMyKad('240701-14-5678', today)).toBeNull();
+  });
+
+  it('rejects unassigned birthplace codes and the wrong shape', () => {
+    expect(parseMyKad('900101-00-5678', today)).toBeNull();
+    expect(parseMyKad('900101-70-5678', today)).toBeNull();
+    expect(parseMyKad('900101-14-567', today)).toBeNull();
+    expect(parseMyKad('A1234567', today)).toBeNull();
+    expect(looksLikeMyKad('A1234567')).toBe(false);
+    expect(looksLikeMyKad('900101 14 5678')).toBe(true);
+  });
+});
+
+describe('passport numbers', () => {
+  it('are upper-cased without spaces', () => {
+    expect(normalizePassportNumber(' a 1234567 ')).toBe('A1234567');
+    expect(isValidPassportNumber('a1234567')).toBe(true);
+    expect(isValidPassportNumber('A1')).toBe(false);
+  });
+});
+
+describe('beneficiary MyKad cross-checks', () => {
+  const schema = beneficiarySchemaFor('MY');
+  const base = { firstName: 'Aminah', lastName: 'Ali', category: 'OTHER' as const, nationality: 'Malaysian' };
+  const messages = (input: Record<string, unknown>) => {
+    const result = schema.safeParse({ ...base, ...input });
+    return result.success
+      ? []
+      : result.error.issues.map((issue) => [issue.path.join('.'), (issue as { params?: { i18n?: string } }).params?.i18n]);
+  };
+
+  it('fills in the date of birth and gender from the card and stores it normalised', () => {
+    const result = schema.parse({ ...base, idNumber: '900101145678' });
+    expect(result.idNumber).toBe('900101-14-5678');
+    expect(result.dateOfBirth).toEqual(new Date('1990-01-01T00:00:00Z'));
+    expect(result.gender).toBe('FEMALE');
+  });
+
+  it('flags a date of birth or gender that disagrees with the card', () => {
+    expect(messages({ idNumber: '900101-14-5678', dateOfBirth: '1990-01-02', gender: 'MALE' })).toEqual([
+      ['dateOfBirth', 'dateOfBirthMismatch'],
+      ['gender', 'genderMismatch'],
+    ]);
+  });
+
+  it('rejects a number that is MyKad-shaped but not valid', () => {
+    expect(messages({ idNumber: '900230-14-5678' })).toEqual([['idNumber', 'invalidMyKad']]);
+  });
+});
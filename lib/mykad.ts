@@ -0,0 +1,121 @@
+// Malaysian identity card (MyKad / NRIC) parsing.
+//
+// A MyKad number is YYMMDD-PB-###G: date of birth, a two-digit birthplace code
+// (a state for people born in Malaysia, a region or country otherwise) and a
+// serial whose last digit is odd for males and even for females.
+
+const MYKAD_PATTERN = /^(\d{2})(\d{2})(\d{2})-?(\d{2})-?(\d{3})(\d)$/;
+
+// Passports and UNHCR / refugee cards: letters, digits and the odd hyphen.
+const PASSPORT_PATTERN = /^[A-Z0-9][A-Z0-9-]{4,19}$/;
+
+const STATE_CODES: Record<string, string[]> = {
+  Johor: ['01', '21', '22', '23', '24'],
+  Kedah: ['02', '25', '26', '27'],
+  Kelantan: ['03', '28', '29'],
+  Melaka: ['04', '30'],
+  'Negeri Sembilan': ['05', '31', '59'],
+  Pahang: ['06', '32', '33'],
+  'Pulau Pinang': ['07', '34', '35'],
+  Perak: ['08', '36', '37', '38', '39'],
+  Perlis: ['09', '40'],
+  Selangor: ['10', '41', '42', '43', '44'],
+  Terengganu: ['11', '45', '46'],
+  Sabah: ['12', '47', '48', '49'],
+  Sarawak: ['13', '50', '51', '52', '53'],
+  'Wilayah Persekutuan Kuala Lumpur': ['14', '54', '55', '56', '57'],
+  'Wilayah Persekutuan Labuan': ['15', '58'],
+  'Wilayah Persekutuan Putrajaya': ['16'],
+};
+
+const FOREIGN_CODES: Record<string, string> = {
+  '60': 'Brunei',
+  '61': 'Indonesia',
+  '62': 'Cambodia',
+  '63': 'Laos',
+  '64': 'Myanmar',
+  '65': 'Philippines',
+  '66': 'Singapore',
+  '67': 'Thailand',
+  '68': 'Vietnam',
+  '71': 'Born outside Malaysia',
+  '72': 'Born outside Malaysia',
+  '74': 'China',
+  '75': 'India',
+  '76': 'Pakistan',
+  '77': 'Saudi Arabia',
+  '78': 'Sri Lanka',
+  '79': 'Bangladesh',
+  '82': 'Unknown state',
+  '83': 'Asia Pacific',
+  '84': 'South America',
+  '85': 'Africa',
+  '86': 'Europe',
+  '87': 'Britain / Ireland',
+  '88': 'Middle East',
+  '89': 'Far East',
+  '90': 'Caribbean',
+  '91': 'North America',
+  '92': 'Soviet Union',
+  '93': 'Other countries',
+  '98': 'Stateless',
+  '99': 'No information',
+};
+
+const STATE_BY_CODE = new Map(
+  Object.entries(STATE_CODES).flatMap(([state, codes]) => codes.map((code) => [code, state] as const))
+);
+
+export interface MyKadInfo {
+  // Canonical stored form: YYMMDD-PB-###G
+  normalized: string;
+  dateOfBirth: Date;
+  birthPlaceCode: string;
+  birthPlace: string;
+  // Set only when the birthplace code is a Malaysian state.
+  state: string | null;
+  gender: 'MALE' | 'FEMALE';
+}
+
+export function looksLikeMyKad(value: string): boolean {
+  return MYKAD_PATTERN.test(value.replace(/\s/g, ''));
+}
+
+// Returns null when the value isn't a structurally valid MyKad number: wrong
+// shape, impossible birth date or unassigned birthplace code.
+export function parseMyKad(value: string, today: Date = new Date()): MyKadInfo | null {
+  const match = MYKAD_PATTERN.exec(value.replace(/\s/g, ''));
+  if (!match) return null;
+
+  const [, yy, mm, dd, code, serial, last] = match;
+  const birthPlace = STATE_BY_CODE.get(code) ?? FOREIGN_CODES[code];
+  if (!birthPlace) return null;
+
+  // Two-digit years: anything later than this year must be last century.
+  const year = 2000 + Number(yy) > today.getUTCFullYear() ? 1900 + Number(yy) : 2000 + Number(yy);
+  const dateOfBirth = new Date(Date.UTC(year, Number(mm) - 1, Number(dd)));
+  if (
+    dateOfBirth.getUTCMonth() !== Number(mm) - 1 ||
+    dateOfBirth.getUTCDate() !== Number(dd) ||
+    dateOfBirth > today
+  ) {
+    return null;
+  }
+
+  return {
+    normalized: `${yy}${mm}${dd}-${code}-${serial}${last}`,
+    dateOfBirth,
+    birthPlaceCode: code,
+    birthPlace,
+    state: STATE_BY_CODE.get(code) ?? null,
+    gender: Number(last) % 2 === 1 ? 'MALE' : 'FEMALE',
+  };
+}
+
+export function normalizePassportNumber(value: string): string {
+  return value.replace(/\s/g, '').toUpperCase();
+}
+
+export function isValidPassportNumber(value: string): boolean {
+  return PASSPORT_PATTERN.test(normalizePassportNumber(value));
+}
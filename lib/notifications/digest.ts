@@ -0,0 +1,63 @@
+import { subDays } from 'date-fns';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { dataRequestScope, overdueDataRequestWhere } from '../data-requests/requests';
+import { hasPermission } from '../permissions';
+import { absoluteUrl, notify } from './send';
+
+// An open case nobody has touched for this long is listed as overdue.
+export const STALE_CASE_DAYS = 14;
+// How many of each are listed in the email; the counts cover the rest.
+const DIGEST_LIST_LIMIT = 10;
+
+const openCaseStatuses = ['OPEN', 'IN_PROGRESS'] as const;
+
+// Sends each user who has turned the digest on a summary of their open cases
+// and what's overdue: cases untouched for STALE_CASE_DAYS and, for whoever
+// handles them, PDPA requests past their deadline. Users with nothing open
+// aren't sent anything. Meant to run once a day; returns how many were sent.
+export async function sendDailyDigests(now = new Date()): Promise<number> {
+  const users = await prisma.user.findMany({
+    where: {
+      notificationPreferences: { some: { type: 'DAILY_DIGEST', OR: [{ inApp: true }, { email: true }] } },
+    },
+    select: { id: true, role: true, branchId: true },
+  });
+
+  let sent = 0;
+  for (const user of users) {
+    const mine: Prisma.CaseWhereInput = { status: { in: [...openCaseStatuses] }, assignedTo: { some: { id: user.id } } };
+    const stale: Prisma.CaseWhereInput = { ...mine, updatedAt: { lt: subDays(now, STALE_CASE_DAYS) } };
+    const handlesRequests = hasPermission(user.role, 'data_request:manage');
+
+    const [openCases, staleCases, overdueRequests] = await Promise.all([
+      prisma.case.findMany({
+        where: mine,
+        orderBy: [{ priority: 'desc' }, { updatedAt: 'asc' }],
+        take: DIGEST_LIST_LIMIT,
+        select: { id: true, title: true, priority: true, status: true },
+      }),
+      prisma.case.count({ where: stale }),
+      handlesRequests ? prisma.dataRequest.count({ where: { AND: [overdueDataRequestWhere(now), dataRequestScope(user)] } }) : 0,
+    ]);
+    const openCount = openCases.length < DIGEST_LIST_LIMIT ? openCases.length : await prisma.case.count({ where: mine });
+    if (openCount === 0 && overdueRequests === 0) continue;
+
+    await notify([user.id], {
+      type: 'DAILY_DIGEST',
+      data: { open: openCount, overdue: staleCases + overdueRequests },
+      href: '/cases?assigned=me',
+      emailDetails: (t) => [
+        ...openCases.map(
+          (c) => `• ${c.title} (${t(`enums.${c.priority}`)}, ${t(`enums.${c.status}`)})\n  ${absoluteUrl(`/cases/${c.id}`)}`
+        ),
+        ...(staleCases > 0 ? [t('notifications.digest.staleCases', { count: staleCases, days: STALE_CASE_DAYS })] : []),
+        ...(overdueRequests > 0
+          ? [`${t('notifications.digest.overdueRequests', { count: overdueRequests })}\n  ${absoluteUrl('/data-requests')}`]
+          : []),
+      ],
+    });
+    sent++;
+  }
+  return sent;
+}
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { prisma } from '../prisma';
+import { firstParam, type SearchParams } from '../utils';
+
+export const NOTIFICATION_PAGE_SIZE = 25;
+
+const pageSchema = z.coerce.number().int().min(1).default(1).catch(1);
+
+export function parseNotificationPage(searchParams: SearchParams): number {
+  return pageSchema.parse(firstParam(searchParams.page));
+}
+
+export async function countUnreadNotifications(userId: string): Promise<number> {
+  return prisma.notification.count({ where: { userId, readAt: null } });
+}
+
+export async function listNotifications(userId: string, page: number) {
+  const where = { userId };
+  const [items, total] = await prisma.$transaction([
+    prisma.notification.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+      skip: (page - 1) * NOTIFICATION_PAGE_SIZE,
+      take: NOTIFICATION_PAGE_SIZE,
+    }),
+    prisma.notification.count({ where }),
+  ]);
+
+  return {
+    items,
+    total,
+    page,
+    pageCount: Math.max(1, Math.ceil(total / NOTIFICATION_PAGE_SIZE)),
+  };
+}
+
+export type NotificationListItem = Awaited<ReturnType<typeof listNotifications>>['items'][number];
+
+// Only ever the user's own: ids belonging to someone else are ignored.
+export async function markNotificationsRead(userId: string, ids: string[] | 'all') {
+  await prisma.notification.updateMany({
+    where: { userId, readAt: null, ...(ids !== 'all' && { id: { in: ids } }) },
+    data: { readAt: new Date() },
+  });
+}
@@ -0,0 +1,35 @@
+import type { NotificationType } from '@prisma/client';
+import { prisma } from '../prisma';
+import type { NotificationPreferencesInput } from '../validation';
+import { defaultNotificationChannels, type NotificationChannels } from './types';
+
+export async function getNotificationPreferences(userId: string): Promise<Record<NotificationType, NotificationChannels>> {
+  const saved = await prisma.notificationPreference.findMany({ where: { userId } });
+  const preferences = { ...defaultNotificationChannels };
+  for (const { type, inApp, email } of saved) {
+    preferences[type] = { inApp, email };
+  }
+  return preferences;
+}
+
+export async function saveNotificationPreferences(userId: string, input: NotificationPreferencesInput) {
+  await prisma.$transaction(
+    input.preferences.map(({ type, inApp, email }) =>
+      prisma.notificationPreference.upsert({
+        where: { userId_type: { userId, type } },
+        create: { userId, type, inApp, email },
+        update: { inApp, email },
+      })
+    )
+  );
+}
+
+// Each user's channels for one type, defaults included.
+export async function channelsFor(userIds: string[], type: NotificationType): Promise<Map<string, NotificationChannels>> {
+  const saved = await prisma.notificationPreference.findMany({ where: { userId: { in: userIds }, type } });
+  const channels = new Map(userIds.map((id) => [id, defaultNotificationChannels[type]]));
+  for (const { userId, inApp, email } of saved) {
+    channels.set(userId, { inApp, email });
+  }
+  return channels;
+}
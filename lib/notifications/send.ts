@@ -0,0 +1,62 @@
+import type { NotificationType } from '@prisma/client';
+import { prisma } from '../prisma';
+import { getMailTransport } from '../mail';
+import { getTranslatorFor, type Translator } from '../i18n/server';
+import { channelsFor } from './preferences';
+
+export interface NotificationContent {
+  type: NotificationType;
+  // Values for the type's message under notifications.messages.
+  data: Record<string, string | number>;
+  // The page it's about, relative to the app.
+  href: string;
+  // More for the email than the one-line message, in the recipient's language.
+  emailDetails?: (t: Translator) => string[];
+}
+
+export function absoluteUrl(href: string): string {
+  return new URL(href, process.env.NEXTAUTH_URL ?? 'http://localhost:3000').toString();
+}
+
+async function sendEmail(user: { email: string; locale: string }, content: NotificationContent) {
+  const t = await getTranslatorFor(user.locale);
+  const message = t(`notifications.messages.${content.type}`, content.data);
+  await getMailTransport().send({
+    to: user.email,
+    subject: message,
+    text: [message, ...(content.emailDetails?.(t) ?? []), absoluteUrl(content.href), t('notifications.emailFooter')].join(
+      '\n\n'
+    ),
+  });
+}
+
+// Tells each user through the channels they've chosen for the type, leaving
+// out whoever caused it. Never throws: a notification that can't be sent
+// mustn't undo the change it's about.
+export async function notify(userIds: Iterable<string>, content: NotificationContent, { except }: { except?: string } = {}) {
+  const recipients = [...new Set(userIds)].filter((id) => id !== except);
+  if (recipients.length === 0) return;
+
+  try {
+    const channels = await channelsFor(recipients, content.type);
+    const inApp = recipients.filter((id) => channels.get(id)?.inApp);
+    if (inApp.length > 0) {
+      await prisma.notification.createMany({
+        data: inApp.map((userId) => ({ userId, type: content.type, data: content.data, href: content.href })),
+      });
+    }
+
+    const emailed = await prisma.user.findMany({
+      where: { id: { in: recipients.filter((id) => channels.get(id)?.email) } },
+      select: { email: true, locale: true },
+    });
+    const results = await Promise.allSettled(emailed.map((user) => sendEmail(user, content)));
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        console.error(`Could not email a ${content.type} notification`, result.reason);
+      }
+    }
+  } catch (error) {
+    console.error(`Could not send ${content.type} notifications`, error);
+  }
+}
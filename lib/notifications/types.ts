@@ -0,0 +1,31 @@
+import type { NotificationType, UserRole } from '@prisma/client';
+import { hasPermission } from '../permissions';
+
+// The notifications someone can receive, on which channels, and the defaults
+// the preferences form starts from.
+
+export const notificationTypes = [
+  'CASE_ASSIGNED',
+  'BENEFICIARY_ASSIGNED',
+  'URGENT_CASE_OPENED',
+  'DAILY_DIGEST',
+] as const satisfies readonly NotificationType[];
+
+export interface NotificationChannels {
+  inApp: boolean;
+  email: boolean;
+}
+
+// What someone gets before they've changed anything. The digest is opt-in.
+export const defaultNotificationChannels: Record<NotificationType, NotificationChannels> = {
+  CASE_ASSIGNED: { inApp: true, email: true },
+  BENEFICIARY_ASSIGNED: { inApp: true, email: true },
+  URGENT_CASE_OPENED: { inApp: true, email: true },
+  DAILY_DIGEST: { inApp: false, email: false },
+};
+
+// Urgent cases are announced to the people who triage them, so the choice
+// only means something to roles that can assign cases.
+export function notificationTypesFor(role: UserRole): NotificationType[] {
+  return notificationTypes.filter((type) => type !== 'URGENT_CASE_OPENED' || hasPermission(role, 'case:assign'));
+}
@@ -0,0 +1,193 @@
+import type { SyncConflict } from './sync';
+
+// The device's outbox for registrations and services captured without signal.
+// It lives in IndexedDB so it survives the browser being closed, and entries
+// stay until they have synced and the worker clears them. Browser-only: call
+// these from effects and event handlers.
+//
+// Devices are shared, so every entry belongs to the user who captured it. Only
+// the signed-in user's entries are listed and synced (sent under anyone else's
+// session they'd be saved as that person's work), and signing out deletes them.
+
+const DB_NAME = 'myfundaction-offline';
+const DB_VERSION = 1;
+const STORE = 'submissions';
+
+// Dispatched on `window` whenever the outbox changes or a sync starts or ends.
+export const QUEUE_CHANGED_EVENT = 'offline-queue-changed';
+// Dispatched on `window` when there is something new to send.
+export const SUBMISSION_PENDING_EVENT = 'offline-submission-pending';
+
+export type SubmissionKind = 'beneficiary' | 'service';
+
+export type SubmissionStatus =
+  // Waiting to be sent, or for the registration it depends on.
+  | 'pending'
+  | 'synced'
+  | 'conflict'
+  // The server refused it, e.g. it no longer passes validation.
+  | 'invalid';
+
+export interface QueuedSubmission {
+  // Generated on the device; saved as the record's clientId on the server.
+  id: string;
+  // Who captured it.
+  userId: string;
+  kind: SubmissionKind;
+  // The form values as validated on the device. The server checks them
+  // against the same schema again.
+  payload: Record<string, unknown>;
+  createdAt: string;
+  status: SubmissionStatus;
+  // The saved record's id, once synced.
+  serverId?: string;
+  conflict?: SyncConflict;
+  error?: string;
+  fieldErrors?: Record<string, string[] | undefined>;
+}
+
+// The signed-in user, set by OfflineSync. Null until it has mounted.
+let owner: string | null = null;
+
+export function setQueueOwner(userId: string | null) {
+  if (owner === userId) return;
+  owner = userId;
+  notifyQueueChanged();
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Runs `work` in one transaction and resolves once it has committed.
+async function transact<T>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest<T> | void) {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = work(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export function notifyQueueChanged() {
+  window.dispatchEvent(new Event(QUEUE_CHANGED_EVENT));
+}
+
+function notifyPending() {
+  notifyQueueChanged();
+  window.dispatchEvent(new Event(SUBMISSION_PENDING_EVENT));
+}
+
+// The signed-in user's entries, oldest first, the order they are synced in.
+export async function listSubmissions(): Promise<QueuedSubmission[]> {
+  if (!owner) return [];
+  const submissions = await transact<QueuedSubmission[]>('readonly', (store) => store.index('createdAt').getAll());
+  return (submissions ?? []).filter((submission) => submission.userId === owner);
+}
+
+export async function enqueueSubmission(kind: SubmissionKind, payload: Record<string, unknown>) {
+  if (!owner) {
+    throw new Error('Not signed in');
+  }
+  const submission: QueuedSubmission = {
+    id: crypto.randomUUID(),
+    userId: owner,
+    kind,
+    payload,
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+  };
+  await transact('readwrite', (store) => store.add(submission));
+  notifyPending();
+  return submission;
+}
+
+export async function saveSubmission(submission: QueuedSubmission) {
+  await transact('readwrite', (store) => store.put(submission));
+  notifyQueueChanged();
+}
+
+// The registration a service was logged for, when that person was registered
+// on this device.
+export function registrationFor(submission: QueuedSubmission): string | null {
+  const clientId = submission.kind === 'service' ? submission.payload.beneficiaryClientId : null;
+  return typeof clientId === 'string' ? clientId : null;
+}
+
+// Drops a submission along with any services logged for it, which could
+// otherwise never sync.
+export async function discardSubmission(id: string) {
+  const submissions = await listSubmissions();
+  await transact('readwrite', (store) => {
+    for (const submission of submissions) {
+      if (submission.id === id || registrationFor(submission) === id) store.delete(submission.id);
+    }
+  });
+  notifyQueueChanged();
+}
+
+// Resolves a registration that clashed with an existing record: services
+// logged for it go to the existing beneficiary instead, and the registration
+// itself is dropped.
+export async function mergeIntoExisting(id: string, beneficiaryId: string) {
+  const submissions = await listSubmissions();
+  await transact('readwrite', (store) => {
+    for (const submission of submissions) {
+      if (submission.id === id) {
+        store.delete(id);
+      } else if (registrationFor(submission) === id) {
+        store.put({
+          ...submission,
+          payload: { ...submission.payload, beneficiaryClientId: null, beneficiaryCode: beneficiaryId },
+        });
+      }
+    }
+  });
+  notifyPending();
+}
+
+export async function retrySubmission(submission: QueuedSubmission) {
+  const retry = { ...submission, status: 'pending' as const, conflict: undefined, error: undefined, fieldErrors: undefined };
+  await transact('readwrite', (store) => store.put(retry));
+  notifyPending();
+}
+
+// On signing out: deletes the user's entries, synced or not, along with any
+// left by an earlier version of the app that didn't record who captured them.
+export async function clearOutbox() {
+  const userId = owner;
+  await transact('readwrite', (store) => {
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const submission = cursor.value as Partial<QueuedSubmission>;
+      if (!submission.userId || submission.userId === userId) cursor.delete();
+      cursor.continue();
+    };
+  });
+  setQueueOwner(null);
+}
+
+export async function clearSyncedSubmissions() {
+  const submissions = await listSubmissions();
+  await transact('readwrite', (store) => {
+    for (const submission of submissions) {
+      if (submission.status === 'synced') store.delete(submission.id);
+    }
+  });
+  notifyQueueChanged();
+}
@@ -0,0 +1,100 @@
+import { beneficiaryScope, canAccessBeneficiary, type Actor } from '../access';
+import { isUniqueConstraintError } from '../actions';
+import { registerBeneficiary } from '../beneficiaries';
+import { resolveBeneficiaryCodes } from '../distributions';
+import { prisma } from '../prisma';
+import { logService, toServiceData } from '../services';
+import type { BeneficiaryInput, OfflineServiceInput } from '../validation';
+
+// Saving what a device queued while offline. Every submission carries the id
+// the device gave it, stored as `clientId`, so sending the same one again
+// (the connection dropped before the reply arrived, two tabs syncing at once)
+// returns the record already saved instead of a second copy.
+
+// Why a submission can't be saved as it stands. The worker decides what to do
+// about it on the field capture page.
+export type SyncConflict =
+  // Someone with the same IC / passport number is already registered. Who, only
+  // when the worker can see that record; IC numbers can't be used to look up
+  // people elsewhere.
+  | { reason: 'idNumberTaken'; existing: { id: string; firstName: string; lastName: string } | null }
+  // No beneficiary the worker can see matches who the service was logged for.
+  | { reason: 'beneficiaryNotFound' };
+
+export type SyncOutcome = { status: 'synced'; id: string } | { status: 'conflict'; conflict: SyncConflict };
+
+export async function syncBeneficiary(
+  clientId: string,
+  input: BeneficiaryInput,
+  branchId: string,
+  actor: Actor
+): Promise<SyncOutcome> {
+  const saved = await prisma.beneficiary.findUnique({ where: { clientId }, select: { id: true } });
+  if (saved) {
+    return { status: 'synced', id: saved.id };
+  }
+
+  try {
+    const beneficiary = await registerBeneficiary(input, actor, {
+      branchId,
+      source: input.source || 'offline_capture',
+      clientId,
+    });
+    return { status: 'synced', id: beneficiary.id };
+  } catch (error) {
+    if (isUniqueConstraintError(error, 'clientId')) {
+      const raced = await prisma.beneficiary.findUniqueOrThrow({ where: { clientId }, select: { id: true } });
+      return { status: 'synced', id: raced.id };
+    }
+    if (isUniqueConstraintError(error, 'idNumberIndex') && input.idNumber) {
+      const existing = await prisma.beneficiary.findFirst({
+        where: { ...beneficiaryScope(actor), idNumber: input.idNumber },
+        select: { id: true, firstName: true, lastName: true },
+      });
+      return { status: 'conflict', conflict: { reason: 'idNumberTaken', existing } };
+    }
+    throw error;
+  }
+}
+
+async function resolveBeneficiary(input: OfflineServiceInput, actor: Actor): Promise<string | null> {
+  if (input.beneficiaryClientId) {
+    const registered = await prisma.beneficiary.findUnique({
+      where: { clientId: input.beneficiaryClientId },
+      select: { id: true },
+    });
+    return registered && (await canAccessBeneficiary(actor, registered.id)) ? registered.id : null;
+  }
+  if (input.beneficiaryCode) {
+    const { matches } = await resolveBeneficiaryCodes([input.beneficiaryCode], actor);
+    return matches[0]?.id ?? null;
+  }
+  return null;
+}
+
+export async function syncService(clientId: string, input: OfflineServiceInput, actor: Actor): Promise<SyncOutcome> {
+  const saved = await prisma.service.findUnique({ where: { clientId }, select: { id: true } });
+  if (saved) {
+    return { status: 'synced', id: saved.id };
+  }
+
+  const beneficiaryId = await resolveBeneficiary(input, actor);
+  if (!beneficiaryId) {
+    return { status: 'conflict', conflict: { reason: 'beneficiaryNotFound' } };
+  }
+
+  try {
+    const service = await logService({
+      ...toServiceData({ ...input, beneficiaryId, caseId: null }),
+      providedById: actor.id,
+      clientId,
+    });
+    return { status: 'synced', id: service.id };
+  } catch (error) {
+    if (isUniqueConstraintError(error, 'clientId')) {
+      const raced = await prisma.service.findUniqueOrThrow({ where: { clientId }, select: { id: true } });
+      return { status: 'synced', id: raced.id };
+    }
+    throw error;
+  }
+}
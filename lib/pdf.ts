@@ -0,0 +1,50 @@
+import PDFDocument from 'pdfkit';
+
+// House style for generated PDFs: a brand band across the top of the first
+// page and "Page x of y" footers on every page.
+
+export const BRAND_NAME = 'MyFundAction';
+// The app's --primary colour.
+export const BRAND_COLOR = '#2563eb';
+
+// A buffered A4 document, so footers can be added once the length is known,
+// and a promise for its bytes once `doc.end()` is called.
+export function createPdf(layout: 'portrait' | 'landscape' = 'portrait') {
+  const doc = new PDFDocument({ size: 'A4', layout, margin: 40, bufferPages: true });
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+  return { doc, done };
+}
+
+// Leaves the cursor below the title, in the body font.
+export function drawBrandHeader(doc: PDFKit.PDFDocument, title: string) {
+  const left = doc.page.margins.left;
+  doc.rect(0, 0, doc.page.width, 56).fill(BRAND_COLOR);
+  doc.fillColor('#ffffff').font('Helvetica-Bold').fontSize(18).text(BRAND_NAME, left, 18);
+  doc.fillColor('#111827').fontSize(16).text(title, left, 76);
+  doc.font('Helvetica').fontSize(10).fillColor('#4b5563');
+}
+
+export function addPageFooters(doc: PDFKit.PDFDocument, title: string) {
+  const left = doc.page.margins.left;
+  const width = doc.page.width - left - doc.page.margins.right;
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    // Writing below the bottom margin would otherwise start a new page.
+    const margin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.font('Helvetica').fontSize(8).fillColor('#6b7280');
+    doc.text(`${BRAND_NAME} · ${title}`, left, doc.page.height - 28, { width: width / 2, lineBreak: false });
+    doc.text(`Page ${i - range.start + 1} of ${range.count}`, left + width / 2, doc.page.height - 28, {
+      width: width / 2,
+      align: 'right',
+      lineBreak: false,
+    });
+    doc.page.margins.bottom = margin;
+  }
+}
@@ -0,0 +1,207 @@
+import type { UserRole } from '@prisma/client';
+
+// The single source of truth for what each role may do. Checked by server
+// actions and API routes (requirePermission), middleware and the navigation.
+export const permissions = [
+  'beneficiary:read',
+  'beneficiary:create',
+  'beneficiary:update',
+  'beneficiary:import',
+  'beneficiary:merge',
+  // Choosing a beneficiary's primary worker.
+  'beneficiary:assign',
+  // Unmasked IC / passport numbers and case notes.
+  'beneficiary:read_sensitive',
+  'case:read',
+  'case:create',
+  'case:update',
+  'case:assign',
+  // Moving a resolved or closed case back to open.
+  'case:reopen',
+  'service:read',
+  'service:create',
+  'service:update',
+  'document:read',
+  'document:create',
+  // Removing an upload, e.g. a scan attached to the wrong person.
+  'document:delete',
+  // Seeing programmes and who is enrolled or waiting.
+  'programme:read',
+  // Enrolling beneficiaries, giving places to the waitlist and ending enrolments.
+  'programme:enrol',
+  // Setting up programmes and their rules, and enrolling someone the rules turn away.
+  'programme:manage',
+  // Completed needs assessments, including the answers given.
+  'assessment:read',
+  // Completing a questionnaire and applying the priority it suggests.
+  'assessment:create',
+  'export',
+  // Running reports, and saving report definitions for everyone to re-run.
+  'report:read',
+  'report:manage',
+  'audit:read',
+  // Logging PDPA access and erasure requests, and carrying out approved ones.
+  'data_request:manage',
+  // Approving or rejecting a data request someone else logged.
+  'data_request:approve',
+  'user:manage',
+] as const;
+
+export type Permission = (typeof permissions)[number];
+
+const staffPermissions: Permission[] = [
+  'beneficiary:read',
+  'beneficiary:create',
+  'beneficiary:update',
+  'beneficiary:import',
+  'beneficiary:assign',
+  'beneficiary:read_sensitive',
+  'case:read',
+  'case:create',
+  'case:update',
+  'case:assign',
+  'service:read',
+  'service:create',
+  'service:update',
+  'document:read',
+  'document:create',
+  'document:delete',
+  'programme:read',
+  'programme:enrol',
+  'assessment:read',
+  'assessment:create',
+  'export',
+  'report:read',
+];
+
+export const rolePermissions: Record<UserRole, readonly Permission[]> = {
+  SUPER_ADMIN: permissions,
+  ADMIN: permissions,
+  STAFF: staffPermissions,
+  FIELD_WORKER: [
+    'beneficiary:read',
+    'beneficiary:create',
+    'beneficiary:update',
+    'beneficiary:read_sensitive',
+    'case:read',
+    'case:create',
+    'case:update',
+    'service:read',
+    'service:create',
+    'document:read',
+    'document:create',
+    'programme:read',
+    'programme:enrol',
+    'assessment:read',
+    'assessment:create',
+  ],
+  VOLUNTEER: ['beneficiary:read', 'case:read', 'service:read', 'service:create', 'programme:read'],
+};
+
+// What an API key can be allowed to do (see lib/api). A key never gets more
+// than its user's role allows, whatever scopes it was issued with.
+export const apiScopes = [
+  'beneficiary:read',
+  'beneficiary:read_sensitive',
+  'beneficiary:create',
+  'beneficiary:update',
+  'case:read',
+  'case:create',
+  'case:update',
+  'service:read',
+  'service:create',
+  'service:update',
+] as const satisfies readonly Permission[];
+
+export type ApiScope = (typeof apiScopes)[number];
+
+// Roles that only see the records they have been given: beneficiaries
+// assigned to them and cases they are an assignee on.
+export const recordScopedRoles: readonly UserRole[] = ['FIELD_WORKER', 'VOLUNTEER'];
+
+export function hasPermission(role: UserRole | undefined, permission: Permission): boolean {
+  return !!role && rolePermissions[role].includes(permission);
+}
+
+export function isRecordScoped(role: UserRole): boolean {
+  return recordScopedRoles.includes(role);
+}
+
+// Everyone else only sees records in their own branch.
+export function seesAllBranches(role: UserRole): boolean {
+  return role === 'SUPER_ADMIN';
+}
+
+// Most senior first.
+const roleRanks: readonly UserRole[] = ['SUPER_ADMIN', 'ADMIN', 'STAFF', 'FIELD_WORKER', 'VOLUNTEER'];
+
+// `role` and every role below it.
+export function rolesUpTo(role: UserRole): UserRole[] {
+  return roleRanks.slice(roleRanks.indexOf(role));
+}
+
+// Most specific first: the first matching prefix decides.
+const routePermissions: { prefix: string; permission: Permission }[] = [
+  { prefix: '/beneficiaries/import', permission: 'beneficiary:import' },
+  { prefix: '/beneficiaries/duplicates', permission: 'beneficiary:merge' },
+  { prefix: '/beneficiaries/new', permission: 'beneficiary:create' },
+  { prefix: '/beneficiaries', permission: 'beneficiary:read' },
+  { prefix: '/cases/new', permission: 'case:create' },
+  { prefix: '/cases', permission: 'case:read' },
+  { prefix: '/services/new', permission: 'service:create' },
+  { prefix: '/services', permission: 'service:read' },
+  { prefix: '/field', permission: 'service:create' },
+  { prefix: '/programmes/new', permission: 'programme:manage' },
+  { prefix: '/programmes', permission: 'programme:read' },
+  { prefix: '/api/documents', permission: 'document:read' },
+  { prefix: '/reports', permission: 'report:read' },
+  { prefix: '/api/reports', permission: 'report:read' },
+  { prefix: '/audit', permission: 'audit:read' },
+  { prefix: '/api/audit', permission: 'audit:read' },
+  { prefix: '/data-requests', permission: 'data_request:manage' },
+  { prefix: '/api/data-requests', permission: 'data_request:manage' },
+  { prefix: '/settings/webhooks', permission: 'user:manage' },
+  { prefix: '/settings/custom-fields', permission: 'user:manage' },
+  { prefix: '/settings/questionnaires', permission: 'user:manage' },
+];
+
+// Everyone who may do something, e.g. to find who to tell about it.
+export function rolesWith(permission: Permission): UserRole[] {
+  return (Object.keys(rolePermissions) as UserRole[]).filter((role) => hasPermission(role, permission));
+}
+
+export function canAccessPath(role: UserRole | undefined, pathname: string): boolean {
+  const rule = routePermissions.find(
+    ({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+  );
+  return !rule || hasPermission(role, rule.permission);
+}
+
+const SENSITIVE_FIELDS = ['idNumber', 'notes'] as const;
+
+// Keeps the last four characters of an IC, passport or phone number so a
+// volunteer can still confirm they have the right person.
+export function maskIdentifier(value: string): string {
+  return `${'•'.repeat(Math.max(0, value.length - 4))}${value.slice(-4)}`;
+}
+
+type SensitiveFields = Partial<Record<(typeof SENSITIVE_FIELDS)[number], string | null>>;
+
+// Hides sensitive beneficiary fields from roles without
+// beneficiary:read_sensitive. Works on any shape that carries them.
+export function maskBeneficiary<T extends SensitiveFields>(beneficiary: T, role: UserRole): T {
+  if (hasPermission(role, 'beneficiary:read_sensitive')) return beneficiary;
+  return maskSensitiveFields(beneficiary);
+}
+
+// The masking itself, for callers that decide on something other than a
+// role, like an API key's scopes.
+export function maskSensitiveFields<T extends SensitiveFields>(beneficiary: T): T {
+  return {
+    ...beneficiary,
+    ...(beneficiary.idNumber !== undefined && {
+      idNumber: beneficiary.idNumber && maskIdentifier(beneficiary.idNumber),
+    }),
+    ...(beneficiary.notes !== undefined && { notes: null }),
+  };
+}
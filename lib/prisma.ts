@@ -1,13 +1,25 @@
 import { PrismaClient } from '@prisma/client';
+import { auditExtension } from './audit/extension';
+import { encryptionExtension } from './encryption/extension';
+
+// Query extensions run in the order they're added, each wrapping the next.
+// Encryption is outermost so the audit extension's own reads are decrypted and
+// its filters rewritten like any other query.
+const createPrismaClient = () =>
+  new PrismaClient({
+    log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
+  })
+    .$extends(encryptionExtension)
+    .$extends(auditExtension);
 
 const globalForPrisma = globalThis as unknown as {
-  prisma: PrismaClient | undefined;
+  prisma: ReturnType<typeof createPrismaClient> | undefined;
 };
 
-export const prisma =
-  globalForPrisma.prisma ??
-  new PrismaClient({
-    log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
-  });
+export const prisma = globalForPrisma.prisma ?? createPrismaClient();
 
 if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma;
+
+// The client passed to interactive `$transaction` callbacks, for helpers that
+// run inside one.
+export type TransactionClient = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
@@ -0,0 +1,73 @@
+import { differenceInYears } from 'date-fns';
+import type { Beneficiary, Programme } from '@prisma/client';
+
+// Whether a beneficiary meets a programme's rules. The enrolment form shows
+// the result before anyone submits; the server checks it again on enrolment.
+
+export type EligibilityRules = Pick<Programme, 'minAge' | 'maxAge' | 'categories' | 'states'> & {
+  maxMonthlyIncome: number | null;
+};
+
+export type EligibilitySubject = Pick<Beneficiary, 'dateOfBirth' | 'category' | 'state'> & {
+  monthlyIncome: number | null;
+};
+
+export const eligibilityRules = ['age', 'category', 'state', 'income'] as const;
+export type EligibilityRule = (typeof eligibilityRules)[number];
+
+// A rule the beneficiary doesn't meet. `unknown` means the record lacks what
+// the rule needs, e.g. an age limit and no date of birth.
+export interface EligibilityProblem {
+  rule: EligibilityRule;
+  unknown: boolean;
+}
+
+export function ageOn(dateOfBirth: Date, date: Date): number {
+  return differenceInYears(date, dateOfBirth);
+}
+
+// States are typed in by hand, so "Selangor " and "selangor" are the same.
+function sameState(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+// Every rule the beneficiary fails, in the order of eligibilityRules; empty
+// when they qualify.
+export function checkEligibility(
+  rules: EligibilityRules,
+  subject: EligibilitySubject,
+  today = new Date()
+): EligibilityProblem[] {
+  const problems: EligibilityProblem[] = [];
+
+  if (rules.minAge !== null || rules.maxAge !== null) {
+    const age = subject.dateOfBirth ? ageOn(subject.dateOfBirth, today) : null;
+    if (age === null) {
+      problems.push({ rule: 'age', unknown: true });
+    } else if ((rules.minAge !== null && age < rules.minAge) || (rules.maxAge !== null && age > rules.maxAge)) {
+      problems.push({ rule: 'age', unknown: false });
+    }
+  }
+
+  if (rules.categories.length > 0 && !rules.categories.includes(subject.category)) {
+    problems.push({ rule: 'category', unknown: false });
+  }
+
+  if (rules.states.length > 0) {
+    if (!subject.state?.trim()) {
+      problems.push({ rule: 'state', unknown: true });
+    } else if (!rules.states.some((state) => sameState(state, subject.state!))) {
+      problems.push({ rule: 'state', unknown: false });
+    }
+  }
+
+  if (rules.maxMonthlyIncome !== null) {
+    if (subject.monthlyIncome === null) {
+      problems.push({ rule: 'income', unknown: true });
+    } else if (subject.monthlyIncome > rules.maxMonthlyIncome) {
+      problems.push({ rule: 'income', unknown: false });
+    }
+  }
+
+  return problems;
+}
@@ -0,0 +1,182 @@
+import type { Enrolment, EnrolmentStatus, Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import type { Actor } from '../access';
+import { LocalizedError } from '../i18n/errors';
+import { hasPermission } from '../permissions';
+import type { EnrolmentEndInput, EnrolmentInput } from '../validation';
+import { checkEligibility } from './eligibility';
+
+// An enrolment that can't be made or changed as asked.
+export class EnrolmentError extends LocalizedError {}
+
+// Enrolment dates are stored as midnight UTC, like service dates.
+function today(): Date {
+  return new Date(new Date().toISOString().slice(0, 10));
+}
+
+// Enrolments that take one of the programme's places: enrolled and not past
+// a planned end date.
+export function holdsPlace(on = today()): Prisma.EnrolmentWhereInput {
+  return { status: 'ENROLLED', OR: [{ endDate: null }, { endDate: { gte: on } }] };
+}
+
+// Spells that haven't ended: on the waitlist or holding a place.
+export function isCurrent(on = today()): Prisma.EnrolmentWhereInput {
+  return { OR: [{ status: 'WAITLISTED' }, holdsPlace(on)] };
+}
+
+// The status to show: an enrolment whose planned end date has passed has
+// ended, even though nobody has closed it.
+export function enrolmentStatus(enrolment: Pick<Enrolment, 'status' | 'endDate'>, on = today()): EnrolmentStatus {
+  if (enrolment.status === 'ENROLLED' && enrolment.endDate && enrolment.endDate < on) return 'ENDED';
+  return enrolment.status;
+}
+
+// The programmes a beneficiary is in or waiting for, which decide the custom
+// fields scoped to a programme that apply to them.
+export async function currentProgrammeIds(beneficiaryId: string): Promise<string[]> {
+  const enrolments = await prisma.enrolment.findMany({
+    where: { beneficiaryId, status: { in: ['WAITLISTED', 'ENROLLED'] } },
+    select: { programmeId: true },
+    distinct: ['programmeId'],
+  });
+  return enrolments.map((enrolment) => enrolment.programmeId);
+}
+
+// The programmes a service for this beneficiary can be logged under.
+export async function enrolledProgrammes(beneficiaryId: string) {
+  const enrolments = await prisma.enrolment.findMany({
+    where: { beneficiaryId, ...holdsPlace() },
+    select: { programme: { select: { id: true, name: true } } },
+    orderBy: { programme: { name: 'asc' } },
+  });
+  return enrolments.map((enrolment) => enrolment.programme);
+}
+
+// Whether the beneficiary was enrolled in the programme on `date`, in any of
+// their spells, so a service that day can count towards it.
+export async function wasEnrolledOn(programmeId: string, beneficiaryId: string, date: Date): Promise<boolean> {
+  const count = await prisma.enrolment.count({
+    where: {
+      programmeId,
+      beneficiaryId,
+      status: { in: ['ENROLLED', 'ENDED'] },
+      startDate: { lte: date },
+      OR: [{ endDate: null }, { endDate: { gte: date } }],
+    },
+  });
+  return count > 0;
+}
+
+// Enrols the beneficiary, or puts them on the waitlist when every place is
+// taken. Someone the rules turn away can only be enrolled with a reason, by
+// a role with programme:manage. Each enrolment starts a new spell; earlier,
+// ended ones are kept as they were.
+export async function enrolBeneficiary(input: EnrolmentInput, actor: Actor) {
+  return prisma.$transaction(async (tx) => {
+    // Locks the programme so two workers can't both take its last place.
+    await tx.$queryRaw`SELECT 1 FROM "Programme" WHERE "id" = ${input.programmeId} FOR UPDATE`;
+
+    const programme = await tx.programme.findUnique({ where: { id: input.programmeId } });
+    if (!programme || programme.archivedAt) {
+      throw new EnrolmentError('programmeNotTakingEnrolments');
+    }
+    const beneficiary = await tx.beneficiary.findUniqueOrThrow({
+      where: { id: input.beneficiaryId },
+      select: { dateOfBirth: true, category: true, state: true, monthlyIncome: true, branchId: true },
+    });
+    if (beneficiary.branchId !== programme.branchId) {
+      throw new EnrolmentError('programmeOfOtherBranch');
+    }
+
+    // The programme lock also keeps two current spells from being opened at once.
+    const current = await tx.enrolment.findFirst({
+      where: { programmeId: programme.id, beneficiaryId: input.beneficiaryId, ...isCurrent(today()) },
+      select: { status: true },
+    });
+    if (current?.status === 'WAITLISTED') {
+      throw new EnrolmentError('alreadyWaitlisted');
+    }
+    if (current) {
+      throw new EnrolmentError('alreadyEnrolled');
+    }
+
+    const problems = checkEligibility(
+      { ...programme, maxMonthlyIncome: programme.maxMonthlyIncome === null ? null : Number(programme.maxMonthlyIncome) },
+      { ...beneficiary, monthlyIncome: beneficiary.monthlyIncome === null ? null : Number(beneficiary.monthlyIncome) }
+    );
+    const overrideReason = problems.length > 0 ? input.overrideReason?.trim() : undefined;
+    if (problems.length > 0 && (!overrideReason || !hasPermission(actor.role, 'programme:manage'))) {
+      throw new EnrolmentError(
+        hasPermission(actor.role, 'programme:manage') ? 'eligibilityOverrideReasonRequired' : 'eligibilityRulesNotMet'
+      );
+    }
+
+    const full =
+      programme.capacity !== null &&
+      (await tx.enrolment.count({ where: { programmeId: programme.id, ...holdsPlace() } })) >= programme.capacity;
+
+    return tx.enrolment.create({
+      data: {
+        ...(full
+          ? { status: 'WAITLISTED' as const, waitlistedAt: new Date() }
+          : { status: 'ENROLLED' as const, startDate: input.startDate, endDate: input.endDate ?? null }),
+        overrideReason: overrideReason ?? null,
+        programmeId: programme.id,
+        beneficiaryId: input.beneficiaryId,
+        createdById: actor.id,
+      },
+    });
+  });
+}
+
+// Gives a waitlisted beneficiary a place, starting today, if one is free.
+// Anyone on the waitlist can be chosen, not only the first.
+export async function admitFromWaitlist(enrolmentId: string) {
+  return prisma.$transaction(async (tx) => {
+    const enrolment = await tx.enrolment.findUniqueOrThrow({
+      where: { id: enrolmentId },
+      select: { status: true, programmeId: true },
+    });
+    await tx.$queryRaw`SELECT 1 FROM "Programme" WHERE "id" = ${enrolment.programmeId} FOR UPDATE`;
+    if (enrolment.status !== 'WAITLISTED') {
+      throw new EnrolmentError('notOnWaitlist');
+    }
+
+    const programme = await tx.programme.findUniqueOrThrow({
+      where: { id: enrolment.programmeId },
+      select: { capacity: true, archivedAt: true },
+    });
+    if (programme.archivedAt) {
+      throw new EnrolmentError('programmeNotTakingEnrolments');
+    }
+    if (
+      programme.capacity !== null &&
+      (await tx.enrolment.count({ where: { programmeId: enrolment.programmeId, ...holdsPlace() } })) >= programme.capacity
+    ) {
+      throw new EnrolmentError('programmeFull');
+    }
+
+    return tx.enrolment.update({
+      where: { id: enrolmentId },
+      data: { status: 'ENROLLED', startDate: today(), endDate: null },
+    });
+  });
+}
+
+// Ends an enrolment today, or takes the beneficiary off the waitlist. The
+// place is free straight away; nobody is moved off the waitlist into it.
+export async function closeEnrolment(enrolmentId: string, input: EnrolmentEndInput) {
+  const enrolment = await prisma.enrolment.findUniqueOrThrow({
+    where: { id: enrolmentId },
+    select: { status: true, endDate: true },
+  });
+  if (enrolmentStatus(enrolment) === 'ENDED') {
+    throw new EnrolmentError('enrolmentAlreadyEnded');
+  }
+
+  return prisma.enrolment.update({
+    where: { id: enrolmentId },
+    data: { status: 'ENDED', endDate: today(), endReason: input.reason?.trim() || null },
+  });
+}
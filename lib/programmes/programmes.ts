@@ -0,0 +1,131 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { beneficiaryScope, programmeScope, type Actor } from '../access';
+import type { ProgrammeInput } from '../validation';
+import { holdsPlace } from './enrolments';
+
+export interface ProgrammeOccupancy {
+  enrolled: number;
+  waitlisted: number;
+}
+
+// Places taken and people waiting, per programme.
+async function occupancy(programmeIds: string[]): Promise<Map<string, ProgrammeOccupancy>> {
+  const [enrolled, waitlisted] = await Promise.all([
+    prisma.enrolment.groupBy({
+      by: ['programmeId'],
+      where: { programmeId: { in: programmeIds }, ...holdsPlace() },
+      _count: { _all: true },
+    }),
+    prisma.enrolment.groupBy({
+      by: ['programmeId'],
+      where: { programmeId: { in: programmeIds }, status: 'WAITLISTED' },
+      _count: { _all: true },
+    }),
+  ]);
+  const counts = new Map(programmeIds.map((id) => [id, { enrolled: 0, waitlisted: 0 }]));
+  for (const row of enrolled) counts.get(row.programmeId)!.enrolled = row._count._all;
+  for (const row of waitlisted) counts.get(row.programmeId)!.waitlisted = row._count._all;
+  return counts;
+}
+
+// Every programme the actor's branch runs, active ones first.
+export async function listProgrammes(actor: Actor) {
+  const programmes = await prisma.programme.findMany({
+    where: programmeScope(actor),
+    orderBy: [{ archivedAt: { sort: 'asc', nulls: 'first' } }, { name: 'asc' }],
+    include: { branch: { select: { code: true, country: true } } },
+  });
+  const counts = await occupancy(programmes.map((programme) => programme.id));
+  return programmes.map((programme) => ({ ...programme, ...counts.get(programme.id)! }));
+}
+
+export type ProgrammeListItem = Awaited<ReturnType<typeof listProgrammes>>[number];
+
+// The programmes a beneficiary in `branchId` can be enrolled in.
+export async function enrollableProgrammes(branchId: string) {
+  const programmes = await prisma.programme.findMany({
+    where: { branchId, archivedAt: null },
+    orderBy: { name: 'asc' },
+  });
+  const counts = await occupancy(programmes.map((programme) => programme.id));
+  return programmes.map((programme) => ({ ...programme, ...counts.get(programme.id)! }));
+}
+
+// Every active programme, for scoping custom fields to.
+export async function programmeChoices() {
+  const programmes = await prisma.programme.findMany({
+    where: { archivedAt: null },
+    orderBy: [{ branch: { code: 'asc' } }, { name: 'asc' }],
+    select: { id: true, name: true, branch: { select: { code: true } } },
+  });
+  return programmes.map(({ branch, ...programme }) => ({ ...programme, branchCode: branch.code }));
+}
+
+export async function getProgramme(id: string, actor: Actor) {
+  const programme = await prisma.programme.findFirst({
+    where: { AND: [{ id }, programmeScope(actor)] },
+    include: { branch: { select: { code: true, name: true, country: true } } },
+  });
+  if (!programme) return null;
+  const counts = await occupancy([id]);
+  return { ...programme, ...counts.get(id)! };
+}
+
+const enrolmentBeneficiarySelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  category: true,
+} satisfies Prisma.BeneficiarySelect;
+
+// A programme's enrolments the actor can see, waitlist in the order it's
+// served.
+export function listProgrammeEnrolments(programmeId: string, actor: Actor) {
+  return prisma.enrolment.findMany({
+    where: { programmeId, beneficiary: beneficiaryScope(actor) },
+    orderBy: [{ status: 'asc' }, { waitlistedAt: 'asc' }, { startDate: 'desc' }, { createdAt: 'asc' }],
+    include: { beneficiary: { select: enrolmentBeneficiarySelect } },
+  });
+}
+
+export type ProgrammeEnrolment = Awaited<ReturnType<typeof listProgrammeEnrolments>>[number];
+
+// A beneficiary's enrolments, current ones first.
+export function listBeneficiaryEnrolments(beneficiaryId: string) {
+  return prisma.enrolment.findMany({
+    where: { beneficiaryId },
+    orderBy: [{ status: 'asc' }, { updatedAt: 'desc' }],
+    include: { programme: { select: { id: true, name: true, archivedAt: true } } },
+  });
+}
+
+function toProgrammeData(input: ProgrammeInput) {
+  return {
+    name: input.name.trim(),
+    description: input.description?.trim() || null,
+    minAge: input.minAge ?? null,
+    maxAge: input.maxAge ?? null,
+    categories: input.categories,
+    states: input.states,
+    maxMonthlyIncome: input.maxMonthlyIncome ?? null,
+    capacity: input.capacity ?? null,
+  } satisfies Prisma.ProgrammeUncheckedUpdateInput;
+}
+
+// `branchId` is the branch resolved for the actor (see resolveBranch).
+export function addProgramme(input: ProgrammeInput, branchId: string, actor: Actor) {
+  return prisma.programme.create({ data: { ...toProgrammeData(input), branchId, createdById: actor.id } });
+}
+
+// The branch stays as it was: enrolments and services already belong to it.
+// Lowering the capacity takes nobody's place away; new enrolments wait.
+export function changeProgramme(id: string, input: ProgrammeInput) {
+  return prisma.programme.update({ where: { id }, data: toProgrammeData(input) });
+}
+
+// An archived programme takes no new enrolments, but current ones carry on
+// until they're ended.
+export function archiveProgramme(id: string, archived: boolean) {
+  return prisma.programme.update({ where: { id }, data: { archivedAt: archived ? new Date() : null } });
+}
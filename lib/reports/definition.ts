@@ -0,0 +1,361 @@
+import { z } from 'zod';
+import type { CustomFieldEntity, CustomFieldType } from '@prisma/client';
+import type { useTranslations } from 'next-intl';
+import { intlLocale } from '../i18n/config';
+import { beneficiaryBaseSchema, caseSchema, serviceSchema } from '../validation';
+import { allParams, firstParam, type SearchParams } from '../utils';
+
+// What a report counts, how it groups the rows and which filters it applies.
+// Shared by the builder form, the saved ReportDefinition.parameters JSON and
+// the export route.
+
+export const reportSources = ['SERVICE', 'CASE', 'BENEFICIARY'] as const;
+export type ReportSource = (typeof reportSources)[number];
+
+export const reportDimensions = [
+  'month',
+  'quarter',
+  'year',
+  'serviceType',
+  'caseType',
+  'category',
+  'state',
+  'staff',
+  'branch',
+] as const;
+export type ReportDimension = (typeof reportDimensions)[number];
+
+export const MAX_GROUP_BY = 3;
+
+// Dates are a service's date, and when a case was opened or a beneficiary
+// registered. "Staff" is who provided the service, opened the case or is
+// assigned to the beneficiary. Grouping by branch compares branches; without
+// it a report rolls them up.
+export const dimensionsBySource: Record<ReportSource, readonly ReportDimension[]> = {
+  SERVICE: ['month', 'quarter', 'year', 'serviceType', 'caseType', 'category', 'state', 'staff', 'branch'],
+  CASE: ['month', 'quarter', 'year', 'caseType', 'category', 'state', 'staff', 'branch'],
+  BENEFICIARY: ['month', 'quarter', 'year', 'category', 'state', 'staff', 'branch'],
+};
+
+// Custom fields are grouped and filtered by as cf.<entity>.<key>, like the
+// beneficiary list's cf.<key> filters: beneficiary fields in every source,
+// service fields in service reports.
+export type CustomFieldDimension = `cf.${'beneficiary' | 'service'}.${string}`;
+export type ReportGroup = ReportDimension | CustomFieldDimension;
+
+const CUSTOM_FIELD_DIMENSION_PATTERN = /^cf\.(beneficiary|service)\.[a-z][a-z0-9_]{0,49}$/;
+
+export function isCustomFieldDimension(value: string): value is CustomFieldDimension {
+  return CUSTOM_FIELD_DIMENSION_PATTERN.test(value);
+}
+
+export function customFieldDimension(entity: CustomFieldEntity, key: string): CustomFieldDimension {
+  return `cf.${entity === 'SERVICE' ? 'service' : 'beneficiary'}.${key}`;
+}
+
+function isAllowed(source: ReportSource, group: ReportGroup): boolean {
+  return isCustomFieldDimension(group)
+    ? group.startsWith('cf.beneficiary.') || source === 'SERVICE'
+    : dimensionsBySource[source].includes(group);
+}
+
+// A custom field as reports offer it. Any field can be filtered on; only
+// choices and yes/no answers make groups worth reading.
+export interface ReportCustomField {
+  dimension: CustomFieldDimension;
+  label: string;
+  type: CustomFieldType;
+  options: string[];
+}
+
+export const groupableCustomFieldTypes: readonly CustomFieldType[] = ['SELECT', 'BOOLEAN'];
+
+// The custom fields `source` can use, in the order the builder lists them.
+export function customFieldsForSource(fields: ReportCustomField[], source: ReportSource): ReportCustomField[] {
+  return fields.filter((field) => isAllowed(source, field.dimension));
+}
+
+// The reader's language for what a report shows: the `reports` messages, enum
+// labels and the locale its dates and amounts are formatted in.
+export interface ReportLocale {
+  locale: string;
+  t: ReturnType<typeof useTranslations<'reports'>>;
+  enumLabel: (value: string) => string;
+}
+
+// "Staff" is named for what the staff member did in each source; custom
+// fields by their label.
+export function dimensionLabel(
+  t: ReportLocale['t'],
+  source: ReportSource,
+  dimension: ReportGroup,
+  customFields: ReportCustomField[] = []
+): string {
+  if (isCustomFieldDimension(dimension)) {
+    return customFields.find((field) => field.dimension === dimension)?.label ?? dimension;
+  }
+  return dimension === 'staff' ? t(`staff.${source}`) : t(`dimensions.${dimension}`);
+}
+
+export const reportPeriods = [
+  'all',
+  'this_month',
+  'last_month',
+  'this_quarter',
+  'last_quarter',
+  'this_year',
+  'last_year',
+  'custom',
+] as const;
+export type ReportPeriod = (typeof reportPeriods)[number];
+
+const serviceTypes = serviceSchema.shape.type.options;
+const caseTypes = caseSchema.shape.type.options;
+const categories = beneficiaryBaseSchema.shape.category.options;
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+// Invalid entries in a filter list are dropped rather than failing the whole
+// report, like the .catch defaults elsewhere.
+const filterList = <T extends z.ZodTypeAny>(item: T) =>
+  z
+    .array(z.unknown())
+    .max(100)
+    .catch([])
+    .default([])
+    .transform((values) =>
+      values.flatMap((value) => {
+        const parsed = item.safeParse(value);
+        return parsed.success ? [parsed.data as z.infer<T>] : [];
+      })
+    );
+
+const customFieldDimensionSchema = z.custom<CustomFieldDimension>(
+  (value) => typeof value === 'string' && isCustomFieldDimension(value)
+);
+
+export const reportParamsSchema = z
+  .object({
+    source: z.enum(reportSources).catch('SERVICE'),
+    groupBy: z
+      .array(z.union([z.enum(reportDimensions), customFieldDimensionSchema]))
+      .catch(['month'])
+      .default(['month']),
+    period: z.enum(reportPeriods).catch('this_year'),
+    from: isoDate.optional().catch(undefined),
+    to: isoDate.optional().catch(undefined),
+    serviceTypes: filterList(z.enum(serviceTypes)),
+    caseTypes: filterList(z.enum(caseTypes)),
+    categories: filterList(z.enum(categories)),
+    states: filterList(z.string().trim().min(1).max(100)),
+    staffIds: filterList(z.string().max(50)),
+    branchIds: filterList(z.string().max(50)),
+    // Answer to match, keyed by custom field dimension.
+    customFields: z.record(z.string().trim().min(1).max(100)).catch({}).default({}),
+  })
+  // Drop grouping and filters the source can't use, so a saved definition
+  // only holds what it actually applies.
+  .transform((params) => ({
+    ...params,
+    groupBy: [...new Set(params.groupBy)].filter((d) => isAllowed(params.source, d)).slice(0, MAX_GROUP_BY),
+    serviceTypes: params.source === 'SERVICE' ? params.serviceTypes : [],
+    caseTypes: params.source === 'BENEFICIARY' ? [] : params.caseTypes,
+    customFields: Object.fromEntries(
+      Object.entries(params.customFields).filter(
+        ([dimension]) => isCustomFieldDimension(dimension) && isAllowed(params.source, dimension)
+      )
+    ),
+    ...(params.period !== 'custom' && { from: undefined, to: undefined }),
+  }));
+
+export type ReportParams = z.output<typeof reportParamsSchema>;
+
+export function parseReportParams(searchParams: SearchParams): ReportParams {
+  return reportParamsSchema.parse({
+    source: firstParam(searchParams.source),
+    // The builder always sends groupBy, so an empty list means "totals only";
+    // a bare /reports/new starts grouped by month.
+    groupBy: searchParams.groupBy === undefined ? undefined : allParams(searchParams.groupBy),
+    period: firstParam(searchParams.period),
+    from: firstParam(searchParams.from),
+    to: firstParam(searchParams.to),
+    serviceTypes: allParams(searchParams.serviceTypes),
+    caseTypes: allParams(searchParams.caseTypes),
+    categories: allParams(searchParams.categories),
+    states: allParams(searchParams.states),
+    staffIds: allParams(searchParams.staffIds),
+    branchIds: allParams(searchParams.branchIds),
+    customFields: Object.fromEntries(
+      Object.entries(searchParams)
+        .filter(([name]) => isCustomFieldDimension(name))
+        .map(([name, value]) => [name, firstParam(value)?.trim()])
+        .filter(([, value]) => value)
+    ),
+  });
+}
+
+// The query string that reproduces `params`, for links to the builder and the
+// export route.
+export function reportParamsToQuery(params: ReportParams): Record<string, string | string[] | undefined> {
+  return {
+    source: params.source,
+    groupBy: params.groupBy,
+    period: params.period,
+    from: params.from,
+    to: params.to,
+    serviceTypes: params.serviceTypes,
+    caseTypes: params.caseTypes,
+    categories: params.categories,
+    states: params.states,
+    staffIds: params.staffIds,
+    branchIds: params.branchIds,
+    ...params.customFields,
+  };
+}
+
+export interface ResolvedPeriod {
+  // Inclusive start and exclusive end, in UTC like the stored timestamps.
+  start?: Date;
+  end?: Date;
+  label: string;
+}
+
+function utc(year: number, month: number, day = 1): Date {
+  return new Date(Date.UTC(year, month, day));
+}
+
+const monthName = (date: Date, locale: string) =>
+  new Intl.DateTimeFormat(intlLocale(locale), { month: 'long', year: 'numeric', timeZone: 'UTC' }).format(date);
+
+// Turns a relative period into dates, so a saved "last quarter" report means
+// the last quarter whenever it is re-run.
+export function resolvePeriod(
+  params: Pick<ReportParams, 'period' | 'from' | 'to'>,
+  { locale, t }: ReportLocale,
+  now = new Date()
+): ResolvedPeriod {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const quarter = Math.floor(month / 3);
+
+  switch (params.period) {
+    case 'this_month':
+      return { start: utc(year, month), end: utc(year, month + 1), label: monthName(utc(year, month), locale) };
+    case 'last_month':
+      return { start: utc(year, month - 1), end: utc(year, month), label: monthName(utc(year, month - 1), locale) };
+    case 'this_quarter':
+      return {
+        start: utc(year, quarter * 3),
+        end: utc(year, quarter * 3 + 3),
+        label: t('periodLabels.quarter', { quarter: quarter + 1, year: String(year) }),
+      };
+    case 'last_quarter': {
+      const start = utc(year, quarter * 3 - 3);
+      return {
+        start,
+        end: utc(year, quarter * 3),
+        label: t('periodLabels.quarter', {
+          quarter: Math.floor(start.getUTCMonth() / 3) + 1,
+          year: String(start.getUTCFullYear()),
+        }),
+      };
+    }
+    case 'this_year':
+      return { start: utc(year, 0), end: utc(year + 1, 0), label: String(year) };
+    case 'last_year':
+      return { start: utc(year - 1, 0), end: utc(year, 0), label: String(year - 1) };
+    case 'custom': {
+      // Both ends are whole days, so "to" includes everything on that date.
+      const start = params.from ? new Date(`${params.from}T00:00:00Z`) : undefined;
+      const end = params.to ? new Date(new Date(`${params.to}T00:00:00Z`).getTime() + 86_400_000) : undefined;
+      const label =
+        params.from && params.to
+          ? t('periodLabels.range', { from: params.from, to: params.to })
+          : params.from
+            ? t('periodLabels.from', { date: params.from })
+            : params.to
+              ? t('periodLabels.upTo', { date: params.to })
+              : t('periods.all');
+      return { start, end, label };
+    }
+    case 'all':
+      return { label: t('periods.all') };
+  }
+}
+
+function emptyGroupLabel(t: ReportLocale['t'], dimension: ReportGroup): string {
+  switch (dimension) {
+    case 'caseType':
+      return t('emptyGroups.noCase');
+    case 'staff':
+      return t('emptyGroups.unassigned');
+    default:
+      return t('emptyGroups.notRecorded');
+  }
+}
+
+// A custom field's answer as text: an option as it is, yes/no in the reader's
+// language.
+function customFieldAnswer(
+  t: ReportLocale['t'],
+  dimension: CustomFieldDimension,
+  value: string,
+  customFields: ReportCustomField[]
+): string {
+  const field = customFields.find((candidate) => candidate.dimension === dimension);
+  if (field?.type === 'BOOLEAN' && (value === 'true' || value === 'false')) {
+    return value === 'true' ? t('answers.yes') : t('answers.no');
+  }
+  return value;
+}
+
+// How a grouped value is shown. Staff and branches are grouped by id and shown
+// by name; `names` holds both, keyed by id.
+export function formatGroupValue(
+  dimension: ReportGroup,
+  value: string | null,
+  { locale, t, enumLabel }: ReportLocale,
+  names?: Map<string, string>,
+  customFields: ReportCustomField[] = []
+): string {
+  if (value === null || value === '') return emptyGroupLabel(t, dimension);
+  if (isCustomFieldDimension(dimension)) return customFieldAnswer(t, dimension, value, customFields);
+  switch (dimension) {
+    case 'month':
+      return monthName(new Date(`${value}-01T00:00:00Z`), locale);
+    case 'serviceType':
+    case 'caseType':
+    case 'category':
+      return enumLabel(value);
+    case 'staff':
+    case 'branch':
+      return names?.get(value) ?? value;
+    default:
+      return value;
+  }
+}
+
+// One line per applied filter, e.g. "Category: Homeless, Elderly", for the
+// results header and exported files.
+export function describeFilters(
+  params: ReportParams,
+  { t, enumLabel }: ReportLocale,
+  names?: Map<string, string>,
+  customFields: ReportCustomField[] = []
+): string[] {
+  const lines: string[] = [];
+  const add = (dimension: ReportGroup, values: string[]) => {
+    if (values.length > 0) {
+      lines.push(`${dimensionLabel(t, params.source, dimension, customFields)}: ${values.join(', ')}`);
+    }
+  };
+  add('serviceType', params.serviceTypes.map(enumLabel));
+  add('caseType', params.caseTypes.map(enumLabel));
+  add('category', params.categories.map(enumLabel));
+  add('state', params.states);
+  add('staff', params.staffIds.map((id) => names?.get(id) ?? id));
+  add('branch', params.branchIds.map((id) => names?.get(id) ?? id));
+  for (const [dimension, value] of Object.entries(params.customFields)) {
+    if (isCustomFieldDimension(dimension)) add(dimension, [customFieldAnswer(t, dimension, value, customFields)]);
+  }
+  return lines;
+}
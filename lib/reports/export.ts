@@ -0,0 +1,154 @@
+import Papa from 'papaparse';
+import ExcelJS from 'exceljs';
+import { format } from 'date-fns';
+import { addPageFooters, BRAND_NAME, createPdf, drawBrandHeader } from '../pdf';
+import { formatDateTime } from '../utils';
+import { describeFilters, type ReportLocale } from './definition';
+import type { ReportResult } from './query';
+import { buildReportTable, formatCell, type ReportTable } from './table';
+
+export const reportFormats = ['csv', 'xlsx', 'pdf'] as const;
+export type ReportFormat = (typeof reportFormats)[number];
+
+export const reportContentTypes: Record<ReportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
+export interface ReportExportMeta {
+  title: string;
+  generatedBy: string;
+  // Staff and branch names for the filter lines, keyed by id.
+  names?: Map<string, string>;
+}
+
+export function reportFilename(title: string, ext: ReportFormat, now = new Date()): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report';
+  return `${slug}-${format(now, 'yyyyMMdd-HHmm')}.${ext}`;
+}
+
+function toCsv(table: ReportTable): string {
+  return Papa.unparse({
+    fields: table.columns.map((column) => column.header),
+    data: [...table.rows, table.totals],
+  });
+}
+
+// The source and period, the filters and who ran it, above the table.
+function reportHeading(result: ReportResult, meta: ReportExportMeta, labels: ReportLocale): string[] {
+  const { t, locale } = labels;
+  return [
+    `${t(`sources.${result.params.source}`)} · ${result.period.label}`,
+    ...describeFilters(result.params, labels, meta.names, result.customFields),
+    t('export.generatedBy', { name: meta.generatedBy, time: formatDateTime(result.generatedAt, locale) }),
+  ];
+}
+
+async function toXlsx(
+  table: ReportTable,
+  result: ReportResult,
+  meta: ReportExportMeta,
+  labels: ReportLocale
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = BRAND_NAME;
+  workbook.created = result.generatedAt;
+  const sheet = workbook.addWorksheet(labels.t('export.sheetName'));
+
+  sheet.addRow([meta.title]).font = { bold: true, size: 14 };
+  for (const line of reportHeading(result, meta, labels)) sheet.addRow([line]);
+  sheet.addRow([]);
+
+  const header = sheet.addRow(table.columns.map((column) => column.header));
+  header.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF2563EB' } };
+  for (const row of table.rows) sheet.addRow(row);
+  sheet.addRow(table.totals).font = { bold: true };
+
+  table.columns.forEach((column, i) => {
+    const col = sheet.getColumn(i + 1);
+    col.width = column.numeric ? 16 : 28;
+    if (column.money) col.numFmt = '#,##0.00';
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+// The brand header on the first page and the table repeating its header row
+// on every page.
+function toPdf(
+  table: ReportTable,
+  result: ReportResult,
+  meta: ReportExportMeta,
+  labels: ReportLocale
+): Promise<Buffer> {
+  const { doc, done } = createPdf(table.columns.length > 5 ? 'landscape' : 'portrait');
+
+  const left = doc.page.margins.left;
+  const width = doc.page.width - left - doc.page.margins.right;
+  const bottom = () => doc.page.height - doc.page.margins.bottom - 20;
+
+  drawBrandHeader(doc, meta.title);
+  for (const line of reportHeading(result, meta, labels)) doc.text(line);
+  if (result.truncated) doc.fillColor('#b91c1c').text(labels.t('truncated', { rows: result.rows.length }));
+  doc.moveDown();
+
+  const numericWidth = 80;
+  const numericCount = table.columns.filter((column) => column.numeric).length;
+  const textCount = table.columns.length - numericCount;
+  const textWidth = textCount > 0 ? (width - numericWidth * numericCount) / textCount : 0;
+  const widths = table.columns.map((column) => (column.numeric ? numericWidth : textWidth));
+  const rowHeight = 18;
+  const padding = 4;
+
+  const drawRow = (cells: (string | number)[], style: 'header' | 'body' | 'total', shade: boolean) => {
+    if (doc.y + rowHeight > bottom()) {
+      doc.addPage();
+      if (style !== 'header') drawRow(table.columns.map((column) => column.header), 'header', false);
+    }
+    const y = doc.y;
+    if (style === 'header') doc.rect(left, y, width, rowHeight).fill('#dbeafe');
+    else if (shade) doc.rect(left, y, width, rowHeight).fill('#f3f4f6');
+    if (style === 'total') doc.moveTo(left, y).lineTo(left + width, y).strokeColor('#9ca3af').stroke();
+
+    doc.font(style === 'body' ? 'Helvetica' : 'Helvetica-Bold').fontSize(9).fillColor('#111827');
+    let x = left;
+    cells.forEach((cell, i) => {
+      doc.text(formatCell(cell, table.columns[i], labels.locale), x + padding, y + 5, {
+        width: widths[i] - padding * 2,
+        align: table.columns[i].numeric ? 'right' : 'left',
+        lineBreak: false,
+        ellipsis: true,
+      });
+      x += widths[i];
+    });
+    doc.x = left;
+    doc.y = y + rowHeight;
+  };
+
+  drawRow(table.columns.map((column) => column.header), 'header', false);
+  table.rows.forEach((row, i) => drawRow(row, 'body', i % 2 === 1));
+  drawRow(table.totals, 'total', false);
+
+  addPageFooters(doc, meta.title);
+  doc.end();
+  return done;
+}
+
+export async function exportReport(
+  result: ReportResult,
+  exportFormat: ReportFormat,
+  meta: ReportExportMeta,
+  labels: ReportLocale
+): Promise<string | Uint8Array<ArrayBuffer>> {
+  const table = buildReportTable(result, labels);
+  switch (exportFormat) {
+    case 'csv':
+      return toCsv(table);
+    case 'xlsx':
+      return new Uint8Array(await toXlsx(table, result, meta, labels));
+    case 'pdf':
+      return new Uint8Array(await toPdf(table, result, meta, labels));
+  }
+}
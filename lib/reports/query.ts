@@ -0,0 +1,384 @@
+import { Prisma, type Country, type CustomFieldEntity } from '@prisma/client';
+import { getLocale, getTranslations } from 'next-intl/server';
+import { userScope, type Actor } from '../access';
+import { countryRules } from '../countries';
+import { getCustomFields, type ActiveCustomField } from '../custom-fields/definitions';
+import { getEnumLabel } from '../i18n/server';
+import { seesAllBranches } from '../permissions';
+import { prisma } from '../prisma';
+import {
+  customFieldDimension,
+  formatGroupValue,
+  groupableCustomFieldTypes,
+  isCustomFieldDimension,
+  reportParamsSchema,
+  resolvePeriod,
+  type ReportCustomField,
+  type ReportDimension,
+  type ReportGroup,
+  type ReportLocale,
+  type ReportParams,
+  type ReportSource,
+  type ResolvedPeriod,
+} from './definition';
+
+// More groups than anyone reads on screen or in a PDF; a report that hits it
+// needs a narrower period or fewer dimensions.
+export const MAX_REPORT_ROWS = 5000;
+
+export interface ReportMetrics {
+  records: number;
+  // Distinct beneficiaries, so someone served twice counts once.
+  beneficiaries: number;
+  quantity: number;
+  cost: number;
+}
+
+export interface ReportRow extends ReportMetrics {
+  // Raw grouped values, in groupBy order; null when the field is empty.
+  values: (string | null)[];
+  labels: string[];
+}
+
+export interface ReportResult {
+  params: ReportParams;
+  period: ResolvedPeriod;
+  rows: ReportRow[];
+  totals: ReportMetrics;
+  // Of the branches in the report, so more than one means its costs add up
+  // different currencies; grouping by branch keeps them apart.
+  currencies: string[];
+  truncated: boolean;
+  generatedAt: Date;
+  // The custom fields the report could use, for labelling its groups and
+  // filters.
+  customFields: ReportCustomField[];
+}
+
+// Everything the generated SQL may reference for each source. Only these
+// fixed fragments are ever interpolated with Prisma.raw; filter values and
+// custom field keys always go through as bind parameters.
+interface SourceSql {
+  from: string;
+  date: string;
+  beneficiaryId: string;
+  quantity: string;
+  cost: string;
+  columns: Partial<Record<ReportDimension, string>>;
+}
+
+const state = `NULLIF(initcap(trim(b."state")), '')`;
+// Cases and services are always in their beneficiary's branch.
+const branch = `b."branchId"`;
+
+const sourceSql: Record<ReportSource, SourceSql> = {
+  SERVICE: {
+    from: `"Service" s
+      JOIN "Beneficiary" b ON b."id" = s."beneficiaryId"
+      LEFT JOIN "Case" c ON c."id" = s."caseId"`,
+    date: `s."date"`,
+    beneficiaryId: `s."beneficiaryId"`,
+    quantity: `s."quantity"`,
+    cost: `s."cost"`,
+    columns: {
+      serviceType: `s."type"::text`,
+      caseType: `c."type"::text`,
+      category: `b."category"::text`,
+      state,
+      staff: `s."providedById"`,
+      branch,
+    },
+  },
+  CASE: {
+    from: `"Case" c
+      JOIN "Beneficiary" b ON b."id" = c."beneficiaryId"
+      LEFT JOIN (
+        SELECT "caseId", SUM("quantity") AS quantity, SUM("cost") AS cost
+        FROM "Service" WHERE "caseId" IS NOT NULL GROUP BY "caseId"
+      ) sv ON sv."caseId" = c."id"`,
+    date: `c."createdAt"`,
+    beneficiaryId: `c."beneficiaryId"`,
+    quantity: `sv.quantity`,
+    cost: `sv.cost`,
+    columns: {
+      caseType: `c."type"::text`,
+      category: `b."category"::text`,
+      state,
+      staff: `c."createdById"`,
+      branch,
+    },
+  },
+  BENEFICIARY: {
+    from: `"Beneficiary" b
+      LEFT JOIN (
+        SELECT "beneficiaryId", SUM("quantity") AS quantity, SUM("cost") AS cost
+        FROM "Service" GROUP BY "beneficiaryId"
+      ) sv ON sv."beneficiaryId" = b."id"`,
+    date: `b."createdAt"`,
+    beneficiaryId: `b."id"`,
+    quantity: `sv.quantity`,
+    cost: `sv.cost`,
+    columns: {
+      category: `b."category"::text`,
+      state,
+      staff: `b."assignedToId"`,
+      branch,
+    },
+  },
+};
+
+// A custom field's stored answer, as jsonb. Beneficiary fields are read in
+// every source; service fields only exist in service reports.
+function customFieldJson(dimension: string): Prisma.Sql {
+  const [, entity, key] = dimension.split('.');
+  return Prisma.sql`${Prisma.raw(entity === 'service' ? `s."customFields"` : `b."customFields"`)} -> ${key}::text`;
+}
+
+function dimensionSql(sql: SourceSql, dimension: ReportGroup): Prisma.Sql {
+  if (isCustomFieldDimension(dimension)) return Prisma.sql`(${customFieldJson(dimension)}) #>> '{}'`;
+  switch (dimension) {
+    case 'month':
+      return Prisma.raw(`to_char(${sql.date}, 'YYYY-MM')`);
+    case 'quarter':
+      return Prisma.raw(`to_char(${sql.date}, 'YYYY-"Q"Q')`);
+    case 'year':
+      return Prisma.raw(`to_char(${sql.date}, 'YYYY')`);
+    default: {
+      const column = sql.columns[dimension];
+      if (!column) throw new Error(`Cannot group ${dimension} by this source`);
+      return Prisma.raw(column);
+    }
+  }
+}
+
+// Matches a custom field's answer the way the beneficiary list does: one of
+// the options, ticked or not, or part of a text. Null for a value the field
+// could never hold.
+function customFieldCondition(field: ReportCustomField, value: string): Prisma.Sql | null {
+  const answer = customFieldJson(field.dimension);
+  switch (field.type) {
+    case 'SELECT':
+    case 'DATE':
+      return Prisma.sql`(${answer}) #>> '{}' = ${value}`;
+    case 'MULTI_SELECT':
+      return Prisma.sql`(${answer}) @> jsonb_build_array(${value}::text)`;
+    case 'BOOLEAN':
+      if (value !== 'true' && value !== 'false') return null;
+      return Prisma.sql`(${answer}) = to_jsonb(${value === 'true'}::boolean)`;
+    case 'NUMBER':
+      if (!Number.isFinite(Number(value))) return null;
+      return Prisma.sql`(${answer}) = to_jsonb(${Number(value)}::numeric)`;
+    case 'TEXT':
+      return Prisma.sql`strpos(lower((${answer}) #>> '{}'), lower(${value})) > 0`;
+  }
+}
+
+function buildWhere(
+  params: ReportParams,
+  sql: SourceSql,
+  period: ResolvedPeriod,
+  actor: Actor,
+  customFields: ReportCustomField[]
+): Prisma.Sql {
+  const raw = Prisma.raw;
+  const conditions: Prisma.Sql[] = [];
+
+  if (!seesAllBranches(actor.role)) conditions.push(Prisma.sql`${raw(branch)} = ${actor.branchId}`);
+
+  if (period.start) conditions.push(Prisma.sql`${raw(sql.date)} >= ${period.start}`);
+  if (period.end) conditions.push(Prisma.sql`${raw(sql.date)} < ${period.end}`);
+
+  const inList = (column: string | undefined, values: string[]) => {
+    if (column && values.length > 0) conditions.push(Prisma.sql`${raw(column)} IN (${Prisma.join(values)})`);
+  };
+  inList(sql.columns.serviceType, params.serviceTypes);
+  inList(sql.columns.caseType, params.caseTypes);
+  inList(sql.columns.category, params.categories);
+  inList(sql.columns.staff, params.staffIds);
+  inList(sql.columns.branch, params.branchIds);
+  if (params.states.length > 0) {
+    const states = params.states.map((value) => value.toLowerCase());
+    conditions.push(Prisma.sql`lower(trim(b."state")) IN (${Prisma.join(states)})`);
+  }
+  for (const [dimension, value] of Object.entries(params.customFields)) {
+    const field = customFields.find((candidate) => candidate.dimension === dimension);
+    const condition = field && customFieldCondition(field, value);
+    if (condition) conditions.push(condition);
+  }
+
+  return conditions.length > 0 ? Prisma.join(conditions, ' AND ') : Prisma.sql`TRUE`;
+}
+
+type MetricRow = { records: number; beneficiaries: number; quantity: number; cost: number };
+
+function metricsSql(sql: SourceSql): Prisma.Sql {
+  return Prisma.raw(`
+    COUNT(*)::int AS records,
+    COUNT(DISTINCT ${sql.beneficiaryId})::int AS beneficiaries,
+    COALESCE(SUM(${sql.quantity}), 0)::float8 AS quantity,
+    COALESCE(SUM(${sql.cost}), 0)::float8 AS cost
+  `);
+}
+
+// Drops grouping and filters on custom fields that have since been archived,
+// and grouping on fields whose answers don't make groups.
+function withCustomFields(params: ReportParams, customFields: ReportCustomField[]): ReportParams {
+  const field = (dimension: string) => customFields.find((candidate) => candidate.dimension === dimension);
+  return {
+    ...params,
+    groupBy: params.groupBy.filter((dimension) => {
+      if (!isCustomFieldDimension(dimension)) return true;
+      const type = field(dimension)?.type;
+      return !!type && groupableCustomFieldTypes.includes(type);
+    }),
+    customFields: Object.fromEntries(Object.entries(params.customFields).filter(([dimension]) => field(dimension))),
+  };
+}
+
+// Runs a report. Reports cover every record in the actor's branch, so only
+// roles that see all of them hold report:read; roles that see every branch
+// can roll branches up or compare them.
+export async function runReport(
+  requested: ReportParams,
+  actor: Actor,
+  labels: ReportLocale,
+  now = new Date()
+): Promise<ReportResult> {
+  const customFields = await getReportCustomFields();
+  const params = withCustomFields(requested, customFields);
+  const sql = sourceSql[params.source];
+  const period = resolvePeriod(params, labels, now);
+  const where = buildWhere(params, sql, period, actor, customFields);
+  const from = Prisma.raw(sql.from);
+
+  const groups = params.groupBy.map(
+    (dimension, i) => Prisma.sql`${dimensionSql(sql, dimension)} AS ${Prisma.raw(`g${i}`)}`
+  );
+  const positions = Prisma.raw(params.groupBy.map((_, i) => `${i + 1}`).join(', '));
+  const ordering = Prisma.raw(params.groupBy.map((_, i) => `${i + 1} ASC NULLS LAST`).join(', '));
+
+  const [grouped, [totals], countries] = await Promise.all([
+    groups.length > 0
+      ? prisma.$queryRaw<(MetricRow & Record<string, string | null>)[]>(Prisma.sql`
+          SELECT ${Prisma.join(groups)}, ${metricsSql(sql)}
+          FROM ${from}
+          WHERE ${where}
+          GROUP BY ${positions}
+          ORDER BY ${ordering}
+          LIMIT ${MAX_REPORT_ROWS + 1}
+        `)
+      : Promise.resolve([]),
+    prisma.$queryRaw<MetricRow[]>(Prisma.sql`
+      SELECT ${metricsSql(sql)}
+      FROM ${from}
+      WHERE ${where}
+    `),
+    prisma.$queryRaw<{ country: Country }[]>(Prisma.sql`
+      SELECT DISTINCT br."country"
+      FROM ${from}
+      JOIN "Branch" br ON br."id" = ${Prisma.raw(branch)}
+      WHERE ${where}
+    `),
+  ]);
+
+  const groupedIds = (dimension: ReportDimension) => {
+    const index = params.groupBy.indexOf(dimension);
+    return index >= 0 ? [...new Set(grouped.flatMap((row) => row[`g${index}`] ?? []))] : [];
+  };
+  const names = await getNames(groupedIds('staff'), groupedIds('branch'));
+
+  const rows = grouped.slice(0, MAX_REPORT_ROWS).map((row) => {
+    const values = params.groupBy.map((_, i) => row[`g${i}`] ?? null);
+    return {
+      values,
+      labels: values.map((value, i) => formatGroupValue(params.groupBy[i], value, labels, names, customFields)),
+      records: row.records,
+      beneficiaries: row.beneficiaries,
+      quantity: row.quantity,
+      cost: row.cost,
+    };
+  });
+
+  return {
+    params,
+    period,
+    rows,
+    totals,
+    currencies: [...new Set(countries.map((row) => countryRules[row.country].currency))].sort(),
+    truncated: grouped.length > MAX_REPORT_ROWS,
+    generatedAt: now,
+    customFields,
+  };
+}
+
+// The custom fields reports can group and filter by: beneficiary fields, then
+// service fields, each in the order admins chose.
+export async function getReportCustomFields(): Promise<ReportCustomField[]> {
+  const [beneficiary, service] = await Promise.all([getCustomFields('BENEFICIARY'), getCustomFields('SERVICE')]);
+  const toReportField =
+    (entity: CustomFieldEntity) =>
+    ({ key, label, type, options }: ActiveCustomField): ReportCustomField => ({
+      dimension: customFieldDimension(entity, key),
+      label,
+      type,
+      options,
+    });
+  return [...beneficiary.map(toReportField('BENEFICIARY')), ...service.map(toReportField('SERVICE'))];
+}
+
+// A report's labels in the current request's language.
+export async function getReportLocale(): Promise<ReportLocale> {
+  const [locale, t, enumLabel] = await Promise.all([getLocale(), getTranslations('reports'), getEnumLabel()]);
+  return { locale, t, enumLabel };
+}
+
+// Saved parameters are re-validated on every run, so a definition saved
+// before a dimension or filter changed still runs with whatever remains valid.
+export function parseSavedReportParams(parameters: Prisma.JsonValue): ReportParams {
+  return reportParamsSchema.parse(parameters && typeof parameters === 'object' ? parameters : {});
+}
+
+async function getNames(staffIds: string[], branchIds: string[]): Promise<Map<string, string>> {
+  const [staff, branches] = await Promise.all([
+    staffIds.length ? prisma.user.findMany({ where: { id: { in: staffIds } }, select: { id: true, name: true } }) : [],
+    branchIds.length ? prisma.branch.findMany({ where: { id: { in: branchIds } }, select: { id: true, name: true } }) : [],
+  ]);
+  return new Map([...staff, ...branches].map((record) => [record.id, record.name]));
+}
+
+// Names for the staff and branches `params` filters by, for describeFilters.
+export function getFilterNames(params: ReportParams): Promise<Map<string, string>> {
+  return getNames(params.staffIds, params.branchIds);
+}
+
+// Choices for the builder's state, staff and branch filters, from the
+// branches the actor reports on. Branches are only offered to roles that see
+// more than one.
+export async function getReportFilterOptions(actor: Actor) {
+  const allBranches = seesAllBranches(actor.role);
+  const [states, staff, branches] = await Promise.all([
+    prisma.$queryRaw<{ state: string }[]>(Prisma.sql`
+      SELECT DISTINCT initcap(trim("state")) AS state
+      FROM "Beneficiary"
+      WHERE "state" IS NOT NULL AND trim("state") <> ''
+        AND ${allBranches ? Prisma.sql`TRUE` : Prisma.sql`"branchId" = ${actor.branchId}`}
+      ORDER BY 1
+    `),
+    prisma.user.findMany({
+      where: userScope(actor),
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+    allBranches
+      ? prisma.branch.findMany({ select: { id: true, name: true }, orderBy: [{ country: 'asc' }, { name: 'asc' }] })
+      : [],
+  ]);
+  return { states: states.map((row) => row.state), staff, branches };
+}
+
+export async function listReportDefinitions() {
+  return prisma.reportDefinition.findMany({
+    orderBy: { name: 'asc' },
+    include: { createdBy: { select: { name: true } } },
+  });
+}
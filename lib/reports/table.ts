@@ -0,0 +1,62 @@
+import { intlLocale } from '../i18n/config';
+import { dimensionLabel, type ReportLocale } from './definition';
+import type { ReportMetrics, ReportResult } from './query';
+
+// A report laid out as a table: the same columns on screen and in every export.
+
+export interface ReportColumn {
+  header: string;
+  numeric: boolean;
+  // Cost columns are shown with two decimals.
+  money?: boolean;
+}
+
+export interface ReportTable {
+  columns: ReportColumn[];
+  rows: (string | number)[][];
+  totals: (string | number)[];
+}
+
+// The grouped columns then the metrics, the same for every format. A
+// beneficiary report's records already are distinct beneficiaries, so the
+// headcount column would repeat them.
+export function buildReportTable(result: ReportResult, { t }: ReportLocale): ReportTable {
+  const { source, groupBy } = result.params;
+  const cost = t(`metrics.${source}.cost`);
+  const { currencies } = result;
+  const costHeader =
+    currencies.length === 1
+      ? t('metrics.costIn', { label: cost, currency: currencies[0] })
+      : currencies.length > 1
+        ? t('metrics.costMixed', { label: cost })
+        : cost;
+  const showHeadcount = source !== 'BENEFICIARY';
+
+  const metrics = (m: ReportMetrics) => [
+    m.records,
+    ...(showHeadcount ? [m.beneficiaries] : []),
+    m.quantity,
+    m.cost,
+  ];
+
+  return {
+    columns: [
+      ...groupBy.map((dimension) => ({
+        header: dimensionLabel(t, source, dimension, result.customFields),
+        numeric: false,
+      })),
+      { header: t(`metrics.${source}.records`), numeric: true },
+      ...(showHeadcount ? [{ header: t(`metrics.${source}.beneficiaries`), numeric: true }] : []),
+      { header: t(`metrics.${source}.quantity`), numeric: true },
+      { header: costHeader, numeric: true, money: true },
+    ],
+    rows: result.rows.map((row) => [...row.labels, ...metrics(row)]),
+    totals: [...groupBy.map((_, i) => (i === 0 ? t('metrics.total') : '')), ...metrics(result.totals)],
+  };
+}
+
+export function formatCell(value: string | number, column: ReportColumn, locale: string): string {
+  if (typeof value === 'string') return value;
+  return value.toLocaleString(intlLocale(locale), column.money ? { minimumFractionDigits: 2, maximumFractionDigits: 2 } : {});
+}
+
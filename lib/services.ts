@@ -0,0 +1,35 @@
+import type { Prisma } from '@prisma/client';
+import { beneficiaryBranchId } from './branches';
+import { prisma } from './prisma';
+import type { ServiceInput } from './validation';
+import { emitWebhookEvent } from './webhooks/delivery';
+import { serviceEventData } from './webhooks/events';
+
+// Maps validated form input onto the columns Prisma expects, like
+// toBeneficiaryData: blank optional text becomes NULL. Answers to custom
+// fields are left to the caller; distribution events and offline services
+// don't collect them.
+export function toServiceData(input: Omit<ServiceInput, 'customFields'>) {
+  return {
+    type: input.type,
+    date: input.date,
+    description: input.description?.trim() || null,
+    quantity: input.quantity ?? null,
+    cost: input.cost ?? null,
+    beneficiaryId: input.beneficiaryId,
+    caseId: input.caseId ?? null,
+    programmeId: input.programmeId ?? null,
+    location: input.location?.trim() || null,
+    notes: input.notes?.trim() || null,
+  } satisfies Omit<Prisma.ServiceUncheckedCreateInput, 'providedById' | 'branchId'>;
+}
+
+// Saves a single service in its beneficiary's branch and tells webhook
+// subscribers. Services logged by a distribution event are announced by the
+// event code instead.
+export async function logService(data: Omit<Prisma.ServiceUncheckedCreateInput, 'branchId'>) {
+  const branchId = await beneficiaryBranchId(data.beneficiaryId);
+  const service = await prisma.service.create({ data: { ...data, branchId } });
+  await emitWebhookEvent('service.logged', [serviceEventData(service)]);
+  return service;
+}
@@ -0,0 +1,11 @@
+// Where uploaded files live. Document.url holds whatever `put` returned: a
+// path under the local directory, or a blob URL. Either way it is only ever
+// read on the server; people download through /api/documents/[id], which
+// checks their permission first.
+export interface StorageBackend {
+  put(key: string, body: Buffer, contentType: string): Promise<string>;
+  get(locator: string): Promise<ReadableStream<Uint8Array>>;
+  delete(locator: string): Promise<void>;
+}
+
+export class StorageError extends Error {}
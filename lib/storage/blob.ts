@@ -0,0 +1,34 @@
+import { del, put } from '@vercel/blob';
+import { decryptBytes, encryptBytes } from '../encryption/cipher';
+import { StorageError, type StorageBackend } from './backend';
+
+// Vercel Blob, for production. Blobs can only be public, and anyone holding a
+// blob's URL can fetch it without signing in, so files are encrypted before
+// they're uploaded: the store only ever holds ciphertext. The URL also stays
+// on the server and gets a random suffix; downloads are decrypted and
+// streamed through the app rather than linked to.
+export class VercelBlobStorage implements StorageBackend {
+  async put(key: string, body: Buffer): Promise<string> {
+    const blob = await put(key, new Blob([new Uint8Array(encryptBytes(body))]), {
+      access: 'public',
+      contentType: 'application/octet-stream',
+      addRandomSuffix: true,
+    });
+    return blob.url;
+  }
+
+  async get(locator: string): Promise<ReadableStream<Uint8Array>> {
+    const response = await fetch(locator, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new StorageError(`Could not read stored file (${response.status})`);
+    }
+    // GCM only authenticates the file once it has all been read, so it's
+    // decrypted whole; documents are small enough (MAX_DOCUMENT_BYTES).
+    const body = decryptBytes(Buffer.from(await response.arrayBuffer()));
+    return new Blob([new Uint8Array(body)]).stream();
+  }
+
+  async delete(locator: string): Promise<void> {
+    await del(locator);
+  }
+}
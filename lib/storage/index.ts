@@ -0,0 +1,26 @@
+import { LocalStorage } from './local';
+import { VercelBlobStorage } from './blob';
+import { StorageError, type StorageBackend } from './backend';
+
+export { StorageError, type StorageBackend };
+
+let storage: StorageBackend | undefined;
+
+// STORAGE_BACKEND picks the backend explicitly; otherwise Vercel Blob is used
+// whenever a token is configured and the local filesystem when it isn't.
+export function getStorage(): StorageBackend {
+  if (!storage) {
+    const backend = process.env.STORAGE_BACKEND ?? (process.env.BLOB_READ_WRITE_TOKEN ? 'blob' : 'local');
+    switch (backend) {
+      case 'blob':
+        storage = new VercelBlobStorage();
+        break;
+      case 'local':
+        storage = new LocalStorage(process.env.LOCAL_STORAGE_DIR);
+        break;
+      default:
+        throw new StorageError(`Unknown STORAGE_BACKEND "${backend}"`);
+    }
+  }
+  return storage;
+}
@@ -0,0 +1,40 @@
+import { createReadStream } from 'node:fs';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import type { StorageBackend } from './backend';
+
+// Files under a directory on disk, for development and tests. Locators are
+// paths relative to that directory.
+export class LocalStorage implements StorageBackend {
+  private readonly root: string;
+
+  constructor(root = path.join(process.cwd(), '.storage')) {
+    this.root = path.resolve(root);
+  }
+
+  // Keys are generated by the app, but a locator read back from the database
+  // still must not escape the storage directory.
+  private resolve(locator: string): string {
+    const file = path.resolve(this.root, locator);
+    if (!file.startsWith(`${this.root}${path.sep}`)) {
+      throw new Error('Invalid storage locator');
+    }
+    return file;
+  }
+
+  async put(key: string, body: Buffer): Promise<string> {
+    const file = this.resolve(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, body, { flag: 'wx' });
+    return key;
+  }
+
+  async get(locator: string): Promise<ReadableStream<Uint8Array>> {
+    return Readable.toWeb(createReadStream(this.resolve(locator))) as ReadableStream<Uint8Array>;
+  }
+
+  async delete(locator: string): Promise<void> {
+    await rm(this.resolve(locator), { force: true });
+  }
+}
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { defaultLocale, intlLocale } from "./i18n/config";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -10,18 +11,27 @@ export function formatMalaysianPhone(phone: string): string {
   return phone.replace(/(\+60)(\d{2})(\d{3})(\d{4})/, '$1 $2-$3 $4');
 }
 
-export function formatDate(date: Date | string): string {
+// The forms used to compare and index identifiers, whatever punctuation they
+// were entered with: 850101-14-5523 → 850101145523, 012-345 6789 → 60123456789.
+export function compactIdNumber(idNumber: string): string {
+  return idNumber.replace(/[\s-]/g, '').toUpperCase();
+}
+
+
+// `locale` is the reader's language (see lib/i18n/config); exports and other
+// output that isn't for one reader use the default.
+export function formatDate(date: Date | string, locale: string = defaultLocale): string {
   const d = typeof date === 'string' ? new Date(date) : date;
-  return new Intl.DateTimeFormat('en-MY', {
+  return new Intl.DateTimeFormat(intlLocale(locale), {
     year: 'numeric',
     month: 'long',
     day: 'numeric',
   }).format(d);
 }
 
-export function formatDateTime(date: Date | string): string {
+export function formatDateTime(date: Date | string, locale: string = defaultLocale): string {
   const d = typeof date === 'string' ? new Date(date) : date;
-  return new Intl.DateTimeFormat('en-MY', {
+  return new Intl.DateTimeFormat(intlLocale(locale), {
     year: 'numeric',
     month: 'long',
     day: 'numeric',
@@ -29,3 +39,53 @@ export function formatDateTime(date: Date | string): string {
     minute: '2-digit',
   }).format(d);
 }
+
+export function formatCurrency(amount: number, currency = 'MYR'): string {
+  return new Intl.NumberFormat('en-MY', {
+    style: 'currency',
+    currency,
+  }).format(amount);
+}
+
+export function formatEnumLabel(value: string): string {
+  // LOW_INCOME → Low Income
+  return value
+    .toLowerCase()
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+export type SearchParams = Record<string, string | string[] | undefined>;
+
+// The first value of a query-string parameter, treating '' as absent.
+export function firstParam(value: string | string[] | undefined): string | undefined {
+  const v = Array.isArray(value) ? value[0] : value;
+  return v === '' ? undefined : v;
+}
+
+// Every non-empty value of a repeatable query-string parameter.
+export function allParams(value: string | string[] | undefined): string[] {
+  return (Array.isArray(value) ? value : value ? [value] : []).filter((v) => v !== '');
+}
+
+// Builds a link to `pathname` that keeps the current query string and applies
+// `overrides` on top of it. Passing `undefined` or '' removes a parameter.
+export function buildHref(
+  pathname: string,
+  params: SearchParams,
+  overrides: Record<string, string | string[] | undefined> = {}
+): string {
+  const query = new URLSearchParams();
+  const merged = { ...params, ...overrides };
+
+  for (const [key, value] of Object.entries(merged)) {
+    if (value === undefined || value === '') continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== '') query.append(key, item);
+    }
+  }
+
+  const qs = query.toString();
+  return qs ? `${pathname}?${qs}` : pathname;
+}
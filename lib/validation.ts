@@ -1,75 +1,556 @@
+import type { BeneficiaryCategory, Country, ServiceType } from '@prisma/client';
 import { z } from 'zod';
+import {
+  assessmentAnswersSchema,
+  priorities,
+  questionnaireKinds,
+  questionTypes,
+  type AssessmentQuestion,
+} from './assessments/scoring';
+import { initialCaseStatuses } from './case-workflow';
+import { countries, countryRules, getIdDocumentType, normalizeIdNumber } from './countries';
+import {
+  applicableCustomFields,
+  choiceTypes,
+  customFieldEntities,
+  customFieldTypes,
+  customFieldValuesSchema,
+  type CustomFieldDefinition,
+} from './custom-fields/values';
+import { documentTypes } from './document-types';
+import { locales } from './i18n/config';
+import { localizedIssue } from './i18n/zod';
+import { notificationTypes } from './notifications/types';
+import { apiScopes } from './permissions';
+import { webhookEvents } from './webhooks/events';
+import { isValidPassportNumber, parseMyKad } from './mykad';
 
-// Malaysian phone number validation
-export const malaysianPhoneSchema = z
-  .string()
-  .regex(/^\+60\d{9,10}$/, 'Invalid Malaysian phone number. Format: +60123456789')
-  .optional()
-  .or(z.literal(''));
-
-// Beneficiary validation schema
-export const beneficiarySchema = z.object({
-  firstName: z.string().min(1, 'First name is required').max(100),
-  lastName: z.string().min(1, 'Last name is required').max(100),
+// Messages are looked up in the reader's language when a schema is checked
+// (see lib/i18n/zod.ts), so the schemas here name them rather than spell them out.
+
+const optionalPhone = z.string().max(20).optional().or(z.literal(''));
+
+const categories = ['HOMELESS', 'ELDERLY', 'DISABLED', 'LOW_INCOME', 'REFUGEE', 'ORPHAN', 'SICK', 'OTHER'] as const;
+const serviceTypes = ['FOOD_DISTRIBUTION', 'SHELTER_ADMISSION', 'SHELTER_EXIT', 'MEDICAL_CHECKUP', 'COUNSELING', 'EDUCATION', 'FINANCIAL_AID', 'RESCUE', 'OTHER'] as const;
+
+// Answers to custom fields as submitted; checked against the fields that apply
+// by the schema builders below.
+const customFieldAnswers = z.record(z.unknown()).default({});
+
+// Reports problems with the answers for the fields that apply under
+// customFields.<key>, so forms can show them next to the input. The message is
+// left to the outer parse, which knows the reader's language.
+function refineCustomFields(fields: CustomFieldDefinition[], values: unknown, ctx: z.RefinementCtx) {
+  const parsed = customFieldValuesSchema(fields).safeParse(values);
+  if (parsed.success) return;
+  for (const issue of parsed.error.issues) {
+    ctx.addIssue({ ...issue, message: undefined, path: ['customFields', ...issue.path] });
+  }
+}
+
+// Beneficiary fields without the country-specific and cross-field checks, for
+// callers that need `.partial()` / `.pick()`.
+export const beneficiaryBaseSchema = z.object({
+  // Only honoured for roles that see every branch; anyone else registers
+  // people in their own branch.
+  branchId: z.string().cuid().optional().nullable().or(z.literal('')),
+
+  firstName: z.string().min(1).max(100),
+  lastName: z.string().min(1).max(100),
   dateOfBirth: z.coerce.date().optional().nullable(),
   gender: z.enum(['MALE', 'FEMALE', 'OTHER', 'PREFER_NOT_TO_SAY']).optional().nullable(),
   nationality: z.string().max(100).optional().nullable(),
   idNumber: z.string().max(50).optional().nullable(),
 
-  phone: malaysianPhoneSchema,
-  email: z.string().email('Invalid email address').optional().or(z.literal('')),
+  phone: optionalPhone,
+  email: z.string().email().optional().or(z.literal('')),
   address: z.string().max(500).optional().nullable(),
   city: z.string().max(100).optional().nullable(),
   state: z.string().max(100).optional().nullable(),
   postcode: z.string().max(10).optional().nullable(),
 
   emergencyName: z.string().max(100).optional().nullable(),
-  emergencyPhone: malaysianPhoneSchema,
+  emergencyPhone: optionalPhone,
   emergencyRelation: z.string().max(50).optional().nullable(),
 
-  category: z.enum(['HOMELESS', 'ELDERLY', 'DISABLED', 'LOW_INCOME', 'REFUGEE', 'ORPHAN', 'SICK', 'OTHER']),
+  category: z.enum(categories),
   status: z.enum(['ACTIVE', 'INACTIVE', 'ARCHIVED', 'DECEASED']).default('ACTIVE'),
   priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).default('MEDIUM'),
+  monthlyIncome: z.coerce.number().nonnegative().max(1_000_000_000).optional().nullable(),
   notes: z.string().max(5000).optional().nullable(),
   tags: z.array(z.string()).default([]),
+  customFields: customFieldAnswers,
 
   source: z.string().max(100).optional().nullable(),
 });
 
+function sameDay(a: Date, b: Date): boolean {
+  return a.toISOString().slice(0, 10) === b.toISOString().slice(0, 10);
+}
+
+// Beneficiary validation for the country of the branch they're registered
+// in: phones, postcode and the citizen's identity card follow its formats.
+// MyKad numbers are also checked against the entered date of birth and
+// gender, then stored as YYMMDD-PB-###G; passports and refugee cards for
+// non-citizens follow their own format. Answers are checked against the
+// `customFields` that apply to the beneficiary's category and the programmes
+// they're in.
+export function beneficiarySchemaFor(
+  country: Country,
+  customFields: CustomFieldDefinition[] = [],
+  programmeIds: string[] = []
+) {
+  const rules = countryRules[country];
+  const fieldsFor = (category: BeneficiaryCategory) => applicableCustomFields(customFields, { category, programmeIds });
+  return beneficiaryBaseSchema
+    .superRefine((data, ctx) => {
+      const issue = (path: string, params: ReturnType<typeof localizedIssue>) =>
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], ...params });
+
+      refineCustomFields(fieldsFor(data.category), data.customFields, ctx);
+
+      for (const field of ['phone', 'emergencyPhone'] as const) {
+        const phone = data[field];
+        if (phone && !rules.phone.test(phone)) issue(field, localizedIssue('invalidPhone', { example: rules.phoneExample }));
+      }
+      if (data.postcode?.trim() && !rules.postcode.test(data.postcode.trim())) {
+        issue('postcode', localizedIssue('invalidPostcode', { example: rules.postcodeExample }));
+      }
+
+      if (!data.idNumber?.trim()) return;
+
+      if (getIdDocumentType(country, data.idNumber, data.nationality) === 'passport') {
+        if (!isValidPassportNumber(data.idNumber)) issue('idNumber', localizedIssue('invalidPassport'));
+        return;
+      }
+      if (country !== 'MY') {
+        if (!rules.nationalId?.matches(data.idNumber)) {
+          issue('idNumber', localizedIssue('invalidNationalId', { country, example: rules.nationalId?.example ?? '' }));
+        }
+        return;
+      }
+
+      const mykad = parseMyKad(data.idNumber);
+      if (!mykad) {
+        issue('idNumber', localizedIssue('invalidMyKad'));
+        return;
+      }
+      if (data.dateOfBirth && !sameDay(data.dateOfBirth, mykad.dateOfBirth)) {
+        issue('dateOfBirth', localizedIssue('dateOfBirthMismatch', { date: mykad.dateOfBirth.toISOString().slice(0, 10) }));
+      }
+      if ((data.gender === 'MALE' || data.gender === 'FEMALE') && data.gender !== mykad.gender) {
+        issue('gender', localizedIssue('genderMismatch', { gender: mykad.gender }));
+      }
+    })
+    .transform((input) => {
+      const data = { ...input, customFields: customFieldValuesSchema(fieldsFor(input.category)).parse(input.customFields) };
+      if (!data.idNumber?.trim()) return data;
+
+      const national = getIdDocumentType(country, data.idNumber, data.nationality) === 'national';
+      const mykad = national && country === 'MY' ? parseMyKad(data.idNumber) : null;
+      return {
+        ...data,
+        idNumber: normalizeIdNumber(country, data.idNumber, data.nationality),
+        dateOfBirth: data.dateOfBirth ?? mykad?.dateOfBirth,
+        gender: data.gender ?? mykad?.gender,
+      };
+    });
+}
+
 // Case validation schema
 export const caseSchema = z.object({
-  title: z.string().min(1, 'Title is required').max(200),
-  description: z.string().min(1, 'Description is required').max(5000),
+  title: z.string().min(1).max(200),
+  description: z.string().min(1).max(5000),
   type: z.enum(['FOOD', 'SHELTER', 'HEALTHCARE', 'EDUCATION', 'IDENTITY_DOCUMENTS', 'EMPLOYMENT', 'OTHER']),
   priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).default('MEDIUM'),
-  status: z.enum(['OPEN', 'IN_PROGRESS', 'RESOLVED', 'CLOSED']).default('OPEN'),
+  // Resolved and closed are only reachable through a status transition.
+  status: z.enum(initialCaseStatuses).default('OPEN'),
   beneficiaryId: z.string().cuid(),
+  assigneeIds: z.array(z.string().cuid()).max(20).default([]),
+});
+
+export const caseStatusChangeSchema = z.object({
+  status: z.enum(['OPEN', 'IN_PROGRESS', 'RESOLVED', 'CLOSED']),
+  reason: z.string().trim().max(2000).optional(),
 });
 
 // Service validation schema
 export const serviceSchema = z.object({
-  type: z.enum(['FOOD_DISTRIBUTION', 'SHELTER_ADMISSION', 'SHELTER_EXIT', 'MEDICAL_CHECKUP', 'COUNSELING', 'EDUCATION', 'FINANCIAL_AID', 'RESCUE', 'OTHER']),
+  type: z.enum(serviceTypes),
   date: z.coerce.date(),
   description: z.string().max(5000).optional().nullable(),
   quantity: z.coerce.number().int().positive().optional().nullable(),
   cost: z.coerce.number().positive().optional().nullable(),
   beneficiaryId: z.string().cuid(),
   caseId: z.string().cuid().optional().nullable(),
+  programmeId: z.string().cuid().optional().nullable(),
   location: z.string().max(200).optional().nullable(),
   notes: z.string().max(5000).optional().nullable(),
+  customFields: customFieldAnswers,
+});
+
+// A single service, with answers checked against the `customFields` that
+// apply to its type and programme. Distribution events and services logged
+// offline don't collect them.
+export function serviceSchemaFor(customFields: CustomFieldDefinition[]) {
+  const fieldsFor = (data: { type: ServiceType; programmeId?: string | null }) =>
+    applicableCustomFields(customFields, {
+      serviceType: data.type,
+      programmeIds: data.programmeId ? [data.programmeId] : [],
+    });
+  return serviceSchema
+    .superRefine((data, ctx) => refineCustomFields(fieldsFor(data), data.customFields, ctx))
+    .transform((data) => ({ ...data, customFields: customFieldValuesSchema(fieldsFor(data)).parse(data.customFields) }));
+}
+
+// A distribution event: the shared Service fields once, then everyone served.
+// A recipient's quantity falls back to the event's default.
+export const distributionEventSchema = serviceSchema
+  .pick({ type: true, date: true, description: true })
+  .extend({
+    location: z.string().trim().min(1).max(200),
+    defaultQuantity: serviceSchema.shape.quantity,
+    recipients: z
+      .array(
+        z.object({
+          beneficiaryId: serviceSchema.shape.beneficiaryId,
+          quantity: serviceSchema.shape.quantity,
+        })
+      )
+      .min(1)
+      .max(1000)
+      .refine(
+        (recipients) => new Set(recipients.map((r) => r.beneficiaryId)).size === recipients.length,
+        localizedIssue('duplicateRecipients')
+      ),
+  });
+
+// A service logged offline, before the beneficiary can be looked up. It names
+// either someone registered on the same device, by the registration's client
+// id, or an IC / passport number (or beneficiary id) resolved when it syncs.
+export const offlineServiceSchema = serviceSchema
+  .omit({ beneficiaryId: true, caseId: true, programmeId: true, customFields: true })
+  .extend({
+    beneficiaryClientId: z.string().uuid().optional().nullable(),
+    beneficiaryCode: z.string().trim().max(50).optional().nullable(),
+  })
+  .refine((data) => !!data.beneficiaryClientId || !!data.beneficiaryCode, {
+    path: ['beneficiaryCode'],
+    ...localizedIssue('chooseBeneficiary'),
+  });
+
+// What the device sends when it syncs: the payload is checked against the
+// schema for its kind.
+export const offlineSubmissionSchema = z.object({
+  clientId: z.string().uuid(),
+  kind: z.enum(['beneficiary', 'service']),
+  payload: z.unknown(),
 });
 
+export const distributionEventReversalSchema = z.object({
+  reason: z.string().trim().min(1).max(2000),
+});
+
+// The form fields that come with an uploaded file; the file itself is checked
+// by storeDocument.
+export const documentUploadSchema = z.object({
+  beneficiaryId: z.string().cuid(),
+  type: z.enum(documentTypes),
+  name: z.string().trim().max(200).optional().nullable(),
+  useAsPhoto: z.boolean().default(false),
+});
+
+// A saved report's name; its parameters are checked by reportParamsSchema.
+export const reportDefinitionSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).optional().nullable(),
+});
+
+// A PDPA request as logged. The date it reached us allows a day's slack for
+// time zones, but no more.
+export const dataRequestSchema = z.object({
+  beneficiaryId: z.string().cuid(),
+  type: z.enum(['ACCESS', 'ERASURE']),
+  receivedAt: z.coerce.date().refine((date) => date.getTime() <= Date.now() + 86_400_000, localizedIssue('futureDate')),
+  details: z.string().trim().max(5000).optional().nullable(),
+});
+
+// Approving needs no explanation; rejecting does, since it goes back to the
+// person who asked.
+export const dataRequestReviewSchema = z
+  .object({
+    decision: z.enum(['APPROVED', 'REJECTED']),
+    note: z.string().trim().max(2000).optional(),
+  })
+  .refine((review) => review.decision === 'APPROVED' || !!review.note, {
+    ...localizedIssue('rejectionReasonRequired'),
+    path: ['note'],
+  });
+
+// An API key as issued in Settings. issueApiKey checks the scopes against the
+// role of the user the key acts as.
+export const apiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  organization: z.string().trim().min(1).max(100),
+  userId: z.string().cuid(),
+  scopes: z.array(z.enum(apiScopes)).min(1),
+  rateLimit: z.coerce.number().int().min(1).max(1000).default(60),
+  expiresAt: z.coerce.date().optional().nullable(),
+});
+
+// A webhook subscription. Plain http is allowed so a receiver on the same
+// machine or network can be used for testing.
+export const webhookEndpointSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  url: z
+    .string()
+    .trim()
+    .max(2000)
+    .url()
+    .refine((url) => /^https?:\/\//i.test(url), localizedIssue('invalidWebhookUrl')),
+  events: z.array(z.enum(webhookEvents)).min(1),
+});
+
+// Names stored answers, so it's a short identifier.
+const answerKey = z
+  .string()
+  .trim()
+  .refine((key) => /^[a-z][a-z0-9_]{0,49}$/.test(key), localizedIssue('invalidFieldKey'));
+
+// A custom field as defined in Settings. Choice types need their options, and
+// other types have none.
+export const customFieldSchema = z
+  .object({
+    entity: z.enum(customFieldEntities),
+    key: answerKey,
+    label: z.string().trim().min(1).max(100),
+    helpText: z.string().trim().max(200).optional().nullable(),
+    type: z.enum(customFieldTypes),
+    options: z.array(z.string().trim().min(1).max(100)).max(50).default([]),
+    required: z.boolean().default(false),
+    categories: z.array(z.enum(categories)).default([]),
+    serviceTypes: z.array(z.enum(serviceTypes)).default([]),
+    programmeIds: z.array(z.string().cuid()).max(50).default([]),
+    position: z.coerce.number().int().min(0).max(1000).default(0),
+  })
+  .superRefine((field, ctx) => {
+    if (!choiceTypes.includes(field.type)) return;
+    if (field.options.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], ...localizedIssue('optionsRequired') });
+    } else if (new Set(field.options).size !== field.options.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], ...localizedIssue('duplicateOptions') });
+    }
+  })
+  .transform((field) => ({
+    ...field,
+    options: choiceTypes.includes(field.type) ? field.options : [],
+    // Beneficiary fields are scoped by category, service fields by type.
+    categories: field.entity === 'BENEFICIARY' ? field.categories : [],
+    serviceTypes: field.entity === 'SERVICE' ? field.serviceTypes : [],
+  }));
+
+// A programme as set up by an admin. States are typed in, one per line on the
+// form; an empty rule lets everyone through.
+export const programmeSchema = z
+  .object({
+    // Only honoured for roles that see every branch, like beneficiaryBaseSchema.
+    branchId: z.string().cuid().optional().nullable().or(z.literal('')),
+    name: z.string().trim().min(1).max(100),
+    description: z.string().trim().max(2000).optional().nullable(),
+    minAge: z.coerce.number().int().min(0).max(150).optional().nullable(),
+    maxAge: z.coerce.number().int().min(0).max(150).optional().nullable(),
+    categories: z.array(z.enum(categories)).default([]),
+    states: z.array(z.string().trim().min(1).max(100)).max(50).default([]),
+    maxMonthlyIncome: z.coerce.number().nonnegative().max(1_000_000_000).optional().nullable(),
+    capacity: z.coerce.number().int().positive().max(100_000).optional().nullable(),
+  })
+  .refine((programme) => programme.minAge == null || programme.maxAge == null || programme.minAge <= programme.maxAge, {
+    path: ['maxAge'],
+    ...localizedIssue('maxBelowMin'),
+  })
+  .transform((programme) => ({
+    ...programme,
+    states: Array.from(new Set(programme.states)),
+  }));
+
+// Enrolling someone, or adding them to the waitlist if the programme is full.
+// The override reason is only read when they fail the eligibility rules.
+export const enrolmentSchema = z
+  .object({
+    programmeId: z.string().cuid(),
+    beneficiaryId: z.string().cuid(),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date().optional().nullable(),
+    overrideReason: z.string().trim().max(2000).optional().nullable(),
+  })
+  .refine((enrolment) => !enrolment.endDate || enrolment.endDate >= enrolment.startDate, {
+    path: ['endDate'],
+    ...localizedIssue('endBeforeStart'),
+  });
+
+export const enrolmentEndSchema = z.object({
+  reason: z.string().trim().max(2000).optional(),
+});
+
+const assessmentQuestionSchema = z.object({
+  key: answerKey,
+  label: z.string().trim().min(1).max(300),
+  type: z.enum(questionTypes),
+  options: z
+    .array(
+      z.object({
+        label: z.string().trim().min(1).max(200),
+        weight: z.coerce.number().int().min(-100).max(100),
+      })
+    )
+    .min(2)
+    .max(20)
+    .refine(
+      (options) => new Set(options.map((option) => option.label)).size === options.length,
+      localizedIssue('duplicateOptions')
+    ),
+  required: z.boolean().default(true),
+});
+
+const ruleConditionSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('answer'), question: z.string(), option: z.string() }),
+  z.object({
+    kind: z.literal('age'),
+    min: z.coerce.number().int().min(0).max(150).nullable(),
+    max: z.coerce.number().int().min(0).max(150).nullable(),
+  }),
+]);
+
+const scoreBand = z.coerce.number().int().min(-10_000).max(10_000).nullable();
+
+// A questionnaire as set up in Settings: weighted questions, rules that
+// combine answers (and age) into a minimum priority, and the score bands.
+// Rules must name a question and option that exist, and the bands must rise
+// with the priority.
+export const questionnaireSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    kind: z.enum(questionnaireKinds),
+    description: z.string().trim().max(2000).optional().nullable(),
+    questions: z.array(assessmentQuestionSchema).min(1).max(100),
+    rules: z
+      .array(
+        z.object({
+          label: z.string().trim().min(1).max(200),
+          priority: z.enum(priorities),
+          conditions: z.array(ruleConditionSchema).min(1).max(10),
+        })
+      )
+      .max(50)
+      .default([]),
+    bands: z.object({ MEDIUM: scoreBand, HIGH: scoreBand, URGENT: scoreBand }),
+  })
+  .superRefine((questionnaire, ctx) => {
+    const seen = new Set<string>();
+    questionnaire.questions.forEach((question, index) => {
+      if (seen.has(question.key)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['questions', index, 'key'], ...localizedIssue('duplicateKey') });
+      }
+      seen.add(question.key);
+    });
+
+    questionnaire.rules.forEach((rule, ruleIndex) => {
+      rule.conditions.forEach((condition, index) => {
+        const path = ['rules', ruleIndex, 'conditions', index];
+        if (condition.kind === 'answer') {
+          const question = questionnaire.questions.find((candidate) => candidate.key === condition.question);
+          if (!question?.options.some((option) => option.label === condition.option)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path, ...localizedIssue('unknownAnswer') });
+          }
+        } else if (condition.min === null && condition.max === null) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path, ...localizedIssue('ageLimitRequired') });
+        } else if (condition.min !== null && condition.max !== null && condition.max < condition.min) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path, ...localizedIssue('maxBelowMin') });
+        }
+      });
+    });
+
+    let below: number | null = null;
+    for (const priority of ['MEDIUM', 'HIGH', 'URGENT'] as const) {
+      const from = questionnaire.bands[priority];
+      if (from === null) continue;
+      if (below !== null && from <= below) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['bands', priority], ...localizedIssue('bandsOutOfOrder') });
+      }
+      below = from;
+    }
+  });
+
+// A completed questionnaire. The answers are checked against the questions of
+// the version answered by assessmentSchemaFor; the override reason is only
+// read when the applied priority isn't the suggested one.
+export const assessmentSchema = z.object({
+  questionnaireVersionId: z.string().cuid(),
+  beneficiaryId: z.string().cuid(),
+  caseId: z.string().cuid().optional().nullable().or(z.literal('')),
+  answers: z.record(z.unknown()).default({}),
+  priority: z.enum(priorities),
+  overrideReason: z.string().trim().max(2000).optional().nullable(),
+});
+
+export function assessmentSchemaFor(questions: AssessmentQuestion[]) {
+  const answersSchema = assessmentAnswersSchema(questions);
+  return assessmentSchema
+    .superRefine((data, ctx) => {
+      const parsed = answersSchema.safeParse(data.answers);
+      if (parsed.success) return;
+      for (const issue of parsed.error.issues) {
+        ctx.addIssue({ ...issue, message: undefined, path: ['answers', ...issue.path] });
+      }
+    })
+    .transform((data) => ({ ...data, caseId: data.caseId || null, answers: answersSchema.parse(data.answers) }));
+}
+
 // User validation schema
 export const userSchema = z.object({
-  email: z.string().email('Invalid email address'),
-  name: z.string().min(1, 'Name is required').max(100),
-  password: z.string().min(8, 'Password must be at least 8 characters').optional(),
+  email: z.string().email(),
+  name: z.string().min(1).max(100),
+  password: z.string().min(8).optional(),
   role: z.enum(['SUPER_ADMIN', 'ADMIN', 'STAFF', 'FIELD_WORKER', 'VOLUNTEER']),
   organization: z.string().max(100).optional().nullable(),
-  phone: malaysianPhoneSchema,
+  branchId: z.string().cuid(),
+  // Checked against the formats of every country there's a branch in.
+  phone: z
+    .string()
+    .refine((phone) => countries.some((country) => countryRules[country].phone.test(phone)), localizedIssue('invalidInternationalPhone'))
+    .optional()
+    .or(z.literal('')),
+});
+
+// What a user can change about their own account in Settings.
+export const userPreferencesSchema = z.object({
+  locale: z.enum(locales),
+});
+
+// The channels a user wants for each kind of notification.
+export const notificationPreferencesSchema = z.object({
+  preferences: z
+    .array(z.object({ type: z.enum(notificationTypes), inApp: z.boolean(), email: z.boolean() }))
+    .max(notificationTypes.length),
 });
 
-export type BeneficiaryInput = z.infer<typeof beneficiarySchema>;
+export type BeneficiaryInput = z.infer<ReturnType<typeof beneficiarySchemaFor>>;
 export type CaseInput = z.infer<typeof caseSchema>;
-export type ServiceInput = z.infer<typeof serviceSchema>;
+export type CaseStatusChangeInput = z.infer<typeof caseStatusChangeSchema>;
+export type ServiceInput = z.infer<ReturnType<typeof serviceSchemaFor>>;
+export type DistributionEventInput = z.infer<typeof distributionEventSchema>;
+export type OfflineServiceInput = z.infer<typeof offlineServiceSchema>;
+export type OfflineSubmissionInput = z.infer<typeof offlineSubmissionSchema>;
+export type DataRequestInput = z.infer<typeof dataRequestSchema>;
+export type DataRequestReviewInput = z.infer<typeof dataRequestReviewSchema>;
+export type ApiKeyInput = z.infer<typeof apiKeySchema>;
+export type WebhookEndpointInput = z.infer<typeof webhookEndpointSchema>;
+export type CustomFieldInput = z.infer<typeof customFieldSchema>;
+export type ProgrammeInput = z.infer<typeof programmeSchema>;
+export type EnrolmentInput = z.infer<typeof enrolmentSchema>;
+export type EnrolmentEndInput = z.infer<typeof enrolmentEndSchema>;
+export type QuestionnaireInput = z.infer<typeof questionnaireSchema>;
+export type AssessmentInput = z.infer<ReturnType<typeof assessmentSchemaFor>>;
 export type UserInput = z.infer<typeof userSchema>;
+export type UserPreferencesInput = z.infer<typeof userPreferencesSchema>;
+export type NotificationPreferencesInput = z.infer<typeof notificationPreferencesSchema>;
@@ -0,0 +1,235 @@
+import { randomUUID } from 'node:crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { PING_EVENT, type WebhookEvent, type WebhookPayload } from './events';
+import { SIGNATURE_HEADER, signWebhookPayload } from './signing';
+
+// Deliveries are written to the database when the event happens and sent
+// afterwards, so a slow or broken receiver never holds up the person whose
+// action caused the event. Sending starts straight away in the background;
+// retries that come due later are picked up by /api/webhooks/deliver, which a
+// scheduler calls every minute or so.
+
+// Delays after the 1st, 2nd, 3rd... failed attempt: 1, 2, 4, 8, 16, 32 and 60
+// minutes, so about two hours in all before a delivery is given up on.
+export const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 60_000;
+const MAX_RETRY_DELAY_MS = 60 * 60_000;
+// Failed attempts in a row, over all of an endpoint's deliveries, before it
+// is disabled and has to be turned back on by an admin.
+export const AUTO_DISABLE_AFTER_FAILURES = 20;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+// How long a claimed delivery is left alone before another run may retry it,
+// in case the process sending it died mid-attempt.
+const CLAIM_LEASE_MS = 2 * 60_000;
+const RESPONSE_BODY_LIMIT = 2_000;
+const BATCH_SIZE = 25;
+
+export function retryDelayMs(attemptCount: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attemptCount - 1), MAX_RETRY_DELAY_MS);
+}
+
+let sending: Promise<void> | null = null;
+
+// Starts sending whatever is due without waiting for it. One run at a time
+// per process; a run already under way picks up new deliveries as it goes.
+function sendInBackground() {
+  sending ??= deliverDueWebhooks()
+    .then(() => undefined)
+    .catch((error) => console.error('Webhook delivery run failed', error))
+    .finally(() => {
+      sending = null;
+    });
+}
+
+// Queues `event` for every enabled endpoint subscribed to it, one delivery
+// per item. Never throws: an event that can't be queued is logged and the
+// action that caused it goes ahead.
+export async function emitWebhookEvent(event: WebhookEvent, items: Prisma.InputJsonObject[]) {
+  if (items.length === 0) return;
+
+  try {
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { enabled: true, events: { has: event } },
+      select: { id: true },
+    });
+    if (endpoints.length === 0) return;
+
+    const occurredAt = new Date().toISOString();
+    const payloads = items.map((data): WebhookPayload => ({ id: randomUUID(), event, occurredAt, data }));
+    await prisma.webhookDelivery.createMany({
+      data: endpoints.flatMap((endpoint) =>
+        payloads.map((payload) => ({
+          endpointId: endpoint.id,
+          event,
+          payload: payload as unknown as Prisma.InputJsonObject,
+        }))
+      ),
+    });
+  } catch (error) {
+    console.error(`Could not queue webhook event ${event}`, error);
+    return;
+  }
+
+  sendInBackground();
+}
+
+// Sends every pending delivery that's due, in batches, and returns how many
+// attempts were made.
+export async function deliverDueWebhooks(): Promise<number> {
+  let attempted = 0;
+
+  for (;;) {
+    const now = new Date();
+    const due = await prisma.webhookDelivery.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: now }, endpoint: { enabled: true } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: BATCH_SIZE,
+      select: { id: true, nextAttemptAt: true },
+    });
+    if (due.length === 0) return attempted;
+
+    for (const delivery of due) {
+      // Claimed only if no other run got to it first.
+      const { count } = await prisma.webhookDelivery.updateMany({
+        where: { id: delivery.id, status: 'PENDING', nextAttemptAt: delivery.nextAttemptAt },
+        data: { nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS) },
+      });
+      if (count === 0) continue;
+
+      await attemptDelivery(delivery.id, { scheduled: true });
+      attempted++;
+    }
+  }
+}
+
+export interface AttemptResult {
+  ok: boolean;
+  responseStatus: number | null;
+  error: string | null;
+}
+
+async function send(url: string, secret: string, deliveryId: string, payload: WebhookPayload) {
+  const body = JSON.stringify(payload);
+  const started = Date.now();
+  let result: AttemptResult & { responseBody: string | null };
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'MyFundAction-Webhooks/1.0',
+        'X-Webhook-Event': payload.event,
+        'X-Webhook-Delivery': deliveryId,
+        [SIGNATURE_HEADER]: signWebhookPayload(secret, body),
+      },
+      body,
+      // A redirect could send the signed payload somewhere nobody configured.
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      cache: 'no-store',
+    });
+    const text = await response.text().catch(() => '');
+    result = {
+      ok: response.status >= 200 && response.status < 300,
+      responseStatus: response.status,
+      responseBody: text.slice(0, RESPONSE_BODY_LIMIT) || null,
+      error: null,
+    };
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === 'TimeoutError';
+    result = {
+      ok: false,
+      responseStatus: null,
+      responseBody: null,
+      error: timedOut ? `No response within ${REQUEST_TIMEOUT_MS / 1000}s` : error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  return { ...result, durationMs: Date.now() - started };
+}
+
+// One attempt at a delivery, recorded in its log. A scheduled attempt moves
+// the delivery along its retry schedule; a manual one (redelivery, test
+// event) only marks it delivered if it succeeds.
+export async function attemptDelivery(deliveryId: string, { scheduled }: { scheduled: boolean }): Promise<AttemptResult> {
+  const delivery = await prisma.webhookDelivery.findUniqueOrThrow({
+    where: { id: deliveryId },
+    include: { endpoint: { select: { id: true, url: true, secret: true } } },
+  });
+
+  const outcome = await send(
+    delivery.endpoint.url,
+    delivery.endpoint.secret,
+    delivery.id,
+    delivery.payload as unknown as WebhookPayload
+  );
+  const { durationMs, responseBody, ...result } = outcome;
+  const attemptCount = delivery.attemptCount + 1;
+
+  await prisma.webhookAttempt.create({
+    data: { deliveryId, responseStatus: result.responseStatus, responseBody, error: result.error, durationMs },
+  });
+
+  if (result.ok) {
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'DELIVERED', deliveredAt: new Date(), attemptCount },
+    });
+    await prisma.webhookEndpoint.update({ where: { id: delivery.endpointId }, data: { consecutiveFailures: 0 } });
+    return result;
+  }
+
+  await prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: scheduled
+      ? attemptCount >= MAX_ATTEMPTS
+        ? { status: 'FAILED', attemptCount }
+        : { attemptCount, nextAttemptAt: new Date(Date.now() + retryDelayMs(attemptCount)) }
+      : { attemptCount },
+  });
+  await recordEndpointFailure(delivery.endpointId);
+  return result;
+}
+
+async function recordEndpointFailure(endpointId: string) {
+  const endpoint = await prisma.webhookEndpoint.update({
+    where: { id: endpointId },
+    data: { consecutiveFailures: { increment: 1 } },
+    select: { enabled: true, consecutiveFailures: true },
+  });
+  if (endpoint.enabled && endpoint.consecutiveFailures >= AUTO_DISABLE_AFTER_FAILURES) {
+    await prisma.webhookEndpoint.update({
+      where: { id: endpointId },
+      data: {
+        enabled: false,
+        disabledAt: new Date(),
+        disabledReason: `Disabled after ${endpoint.consecutiveFailures} failed attempts in a row`,
+      },
+    });
+  }
+}
+
+// Sends a delivery again now, whatever state it's in, e.g. after a receiver
+// lost what it was sent or has been fixed.
+export async function redeliverWebhook(deliveryId: string): Promise<AttemptResult> {
+  return attemptDelivery(deliveryId, { scheduled: false });
+}
+
+// A `ping` to check an endpoint is reachable and verifying signatures. It's
+// logged with the endpoint's other deliveries.
+export async function sendTestEvent(endpointId: string): Promise<AttemptResult> {
+  const payload: WebhookPayload = {
+    id: randomUUID(),
+    event: PING_EVENT,
+    occurredAt: new Date().toISOString(),
+    data: { message: 'Test event from MyFundAction' },
+  };
+  // Never pending, so it isn't retried: it's delivered if this attempt works.
+  const delivery = await prisma.webhookDelivery.create({
+    data: { endpointId, event: PING_EVENT, payload: payload as unknown as Prisma.InputJsonObject, status: 'FAILED' },
+  });
+  return attemptDelivery(delivery.id, { scheduled: false });
+}
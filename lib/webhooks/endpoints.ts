@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import { prisma } from '../prisma';
+import { logAudit } from '../audit/log';
+import type { Actor } from '../access';
+import { firstParam, type SearchParams } from '../utils';
+import type { WebhookEndpointInput } from '../validation';
+import { generateWebhookSecret } from './signing';
+
+export const WEBHOOK_DELIVERY_PAGE_SIZE = 25;
+
+const deliveryPageSchema = z.coerce.number().int().min(1).default(1).catch(1);
+
+export function parseWebhookDeliveryPage(searchParams: SearchParams): number {
+  return deliveryPageSchema.parse(firstParam(searchParams.page));
+}
+
+// Creating an endpoint and rotating its secret return the secret, which is
+// only shown then; admins pass it on to whoever runs the receiver.
+
+export async function createWebhookEndpoint(input: WebhookEndpointInput, actor: Actor) {
+  const secret = generateWebhookSecret();
+  const endpoint = await prisma.webhookEndpoint.create({
+    data: { name: input.name, url: input.url, events: input.events, secret, createdById: actor.id },
+  });
+  await logAudit(
+    'WEBHOOK_ENDPOINT_CREATED',
+    { name: endpoint.name, url: endpoint.url, events: endpoint.events },
+    { entityType: 'WebhookEndpoint', entityId: endpoint.id }
+  );
+  return { id: endpoint.id, secret };
+}
+
+export async function updateWebhookEndpoint(id: string, input: WebhookEndpointInput) {
+  await prisma.webhookEndpoint.update({
+    where: { id },
+    data: { name: input.name, url: input.url, events: input.events },
+  });
+  await logAudit(
+    'WEBHOOK_ENDPOINT_UPDATED',
+    { name: input.name, url: input.url, events: input.events },
+    { entityType: 'WebhookEndpoint', entityId: id }
+  );
+}
+
+// Turning an endpoint back on clears its failure count, and anything still
+// pending is sent on the next run.
+export async function setWebhookEndpointEnabled(id: string, enabled: boolean) {
+  await prisma.webhookEndpoint.update({
+    where: { id },
+    data: enabled
+      ? { enabled: true, consecutiveFailures: 0, disabledAt: null, disabledReason: null }
+      : { enabled: false, disabledAt: new Date(), disabledReason: null },
+  });
+  await logAudit(
+    enabled ? 'WEBHOOK_ENDPOINT_ENABLED' : 'WEBHOOK_ENDPOINT_DISABLED',
+    {},
+    { entityType: 'WebhookEndpoint', entityId: id }
+  );
+}
+
+export async function rotateWebhookSecret(id: string) {
+  const secret = generateWebhookSecret();
+  await prisma.webhookEndpoint.update({ where: { id }, data: { secret } });
+  await logAudit('WEBHOOK_SECRET_ROTATED', {}, { entityType: 'WebhookEndpoint', entityId: id });
+  return secret;
+}
+
+export async function deleteWebhookEndpoint(id: string) {
+  const endpoint = await prisma.webhookEndpoint.delete({ where: { id }, select: { name: true, url: true } });
+  await logAudit('WEBHOOK_ENDPOINT_DELETED', endpoint, { entityType: 'WebhookEndpoint', entityId: id });
+}
+
+export async function listWebhookEndpoints() {
+  const endpoints = await prisma.webhookEndpoint.findMany({
+    orderBy: { createdAt: 'asc' },
+    select: {
+      id: true,
+      name: true,
+      url: true,
+      events: true,
+      enabled: true,
+      consecutiveFailures: true,
+      disabledReason: true,
+      deliveries: {
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+        select: { status: true, createdAt: true },
+      },
+    },
+  });
+  return endpoints.map(({ deliveries, ...endpoint }) => ({ ...endpoint, lastDelivery: deliveries[0] ?? null }));
+}
+
+export type WebhookEndpointListItem = Awaited<ReturnType<typeof listWebhookEndpoints>>[number];
+
+export async function getWebhookEndpoint(id: string) {
+  return prisma.webhookEndpoint.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      name: true,
+      url: true,
+      events: true,
+      enabled: true,
+      consecutiveFailures: true,
+      disabledAt: true,
+      disabledReason: true,
+      createdAt: true,
+      createdBy: { select: { name: true } },
+    },
+  });
+}
+
+export type WebhookEndpointDetail = NonNullable<Awaited<ReturnType<typeof getWebhookEndpoint>>>;
+
+// Newest first, each with its attempts.
+export async function listWebhookDeliveries(endpointId: string, page: number) {
+  const where = { endpointId };
+  const [items, total] = await prisma.$transaction([
+    prisma.webhookDelivery.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+      skip: (page - 1) * WEBHOOK_DELIVERY_PAGE_SIZE,
+      take: WEBHOOK_DELIVERY_PAGE_SIZE,
+      include: { attempts: { orderBy: { attemptedAt: 'desc' } } },
+    }),
+    prisma.webhookDelivery.count({ where }),
+  ]);
+
+  return {
+    items,
+    total,
+    page,
+    pageCount: Math.max(1, Math.ceil(total / WEBHOOK_DELIVERY_PAGE_SIZE)),
+  };
+}
+
+export type WebhookDeliveryListItem = Awaited<ReturnType<typeof listWebhookDeliveries>>['items'][number];
@@ -0,0 +1,92 @@
+import type { Beneficiary, CaseStatus, Prisma, Service } from '@prisma/client';
+
+// The domain events an endpoint can subscribe to, and what each one sends.
+// Payloads carry ids and the fields other tools route on, not a beneficiary's
+// identity documents or contact details: a receiver that needs more can fetch
+// it through the REST API.
+export const webhookEvents = ['beneficiary.registered', 'case.status_changed', 'service.logged'] as const;
+
+export type WebhookEvent = (typeof webhookEvents)[number];
+
+// Only ever sent by "Send test event", whatever an endpoint subscribes to.
+export const PING_EVENT = 'ping';
+
+export interface WebhookPayload {
+  // The same for every endpoint the event goes to, so a receiver can
+  // recognise one it has already handled.
+  id: string;
+  event: WebhookEvent | typeof PING_EVENT;
+  occurredAt: string;
+  data: Prisma.InputJsonObject;
+}
+
+// For reading back just what beneficiaryEventData needs.
+export const beneficiaryEventSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  category: true,
+  status: true,
+  priority: true,
+  state: true,
+  source: true,
+  assignedToId: true,
+  createdAt: true,
+} satisfies Prisma.BeneficiarySelect;
+
+export type BeneficiaryEventRecord = Pick<Beneficiary, keyof typeof beneficiaryEventSelect>;
+
+export function beneficiaryEventData(beneficiary: BeneficiaryEventRecord): Prisma.InputJsonObject {
+  return {
+    id: beneficiary.id,
+    firstName: beneficiary.firstName,
+    lastName: beneficiary.lastName,
+    category: beneficiary.category,
+    status: beneficiary.status,
+    priority: beneficiary.priority,
+    state: beneficiary.state,
+    source: beneficiary.source,
+    assignedToId: beneficiary.assignedToId,
+    createdAt: beneficiary.createdAt.toISOString(),
+  };
+}
+
+export function caseStatusEventData(change: {
+  caseId: string;
+  beneficiaryId: string;
+  title: string;
+  fromStatus: CaseStatus | null;
+  toStatus: CaseStatus;
+  reason: string | null;
+  changedById: string;
+  createdAt: Date;
+}): Prisma.InputJsonObject {
+  return {
+    caseId: change.caseId,
+    beneficiaryId: change.beneficiaryId,
+    title: change.title,
+    fromStatus: change.fromStatus,
+    toStatus: change.toStatus,
+    reason: change.reason,
+    changedById: change.changedById,
+    changedAt: change.createdAt.toISOString(),
+  };
+}
+
+export function serviceEventData(
+  service: Pick<Service, 'id' | 'type' | 'date' | 'quantity' | 'cost' | 'beneficiaryId' | 'caseId' | 'distributionEventId' | 'location' | 'providedById' | 'createdAt'>
+): Prisma.InputJsonObject {
+  return {
+    id: service.id,
+    type: service.type,
+    date: service.date.toISOString(),
+    quantity: service.quantity,
+    cost: service.cost === null ? null : Number(service.cost),
+    beneficiaryId: service.beneficiaryId,
+    caseId: service.caseId,
+    distributionEventId: service.distributionEventId,
+    location: service.location,
+    providedById: service.providedById,
+    createdAt: service.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,46 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+// Every delivery carries
+//
+//   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+//
+// keyed with the endpoint's secret. Including the timestamp lets a receiver
+// refuse a captured request replayed later. Kept free of other imports so a
+// receiver (see scripts/webhook-receiver.ts) can use it as it is.
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+function hmac(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export function signWebhookPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`;
+}
+
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string | null | undefined,
+  { toleranceSeconds = DEFAULT_TOLERANCE_SECONDS, now = Date.now() } = {}
+): boolean {
+  const parts = new Map(
+    (header ?? '').split(',').map((part) => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')] as const;
+    })
+  );
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature) return false;
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(hmac(secret, timestamp, body), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
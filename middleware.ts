@@ -1,5 +1,6 @@
 import { auth } from './lib/auth';
 import { NextResponse } from 'next/server';
+import { canAccessPath } from './lib/permissions';
 
 export default auth((req) => {
   const isLoggedIn = !!req.auth;
@@ -16,11 +17,23 @@ export default auth((req) => {
     return NextResponse.redirect(new URL('/login', req.url));
   }
 
+  // Coarse check by URL; pages and actions still check the exact permission
+  // and record scope themselves.
+  if (isLoggedIn && !canAccessPath(req.auth?.user.role, req.nextUrl.pathname)) {
+    if (req.nextUrl.pathname.startsWith('/api/')) {
+      return new Response('Forbidden', { status: 403 });
+    }
+    return NextResponse.redirect(new URL('/dashboard', req.url));
+  }
+
   return NextResponse.next();
 });
 
 export const config = {
   matcher: [
-    '/((?!api/auth|_next/static|_next/image|favicon.ico).*)',
+    // The service worker and manifest have to load before anyone signs in.
+    // /api/v1 authenticates with API keys instead of a session (lib/api), and
+    // the scheduled webhook and digest runs with CRON_SECRET.
+    '/((?!api/auth|api/v1|api/webhooks/deliver|api/notifications/digest|_next/static|_next/image|favicon.ico|sw.js|manifest.webmanifest|icon.svg).*)',
   ],
 };
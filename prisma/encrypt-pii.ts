@@ -0,0 +1,249 @@
+import { Prisma, PrismaClient, type Country } from '@prisma/client';
+import { isUniqueConstraintError } from '../lib/actions';
+import { isLocalPhone, toInternationalPhone } from '../lib/countries';
+import { SYSTEM_USER_ID } from '../lib/audit/context';
+import { currentEncryptionKeyId, decryptValue, encryptionKeyId, encryptValue } from '../lib/encryption/cipher';
+import { blindIndexFields, blindIndexValue, encryptedFields } from '../lib/encryption/fields';
+
+// Brings every beneficiary row in line with the current keys, in place:
+//
+//   - plaintext left from before encryption was switched on is encrypted;
+//   - values under an older FIELD_ENCRYPTION_KEYS key are re-encrypted with
+//     the current one, after which the old key can be dropped;
+//   - phone numbers still in local form are rewritten in international form
+//     for the country of the beneficiary's branch, the only form the phone
+//     index matches;
+//   - blind indexes are recomputed, so this is also the step that follows a
+//     change to BLIND_INDEX_KEY or to how a field is normalized.
+//
+// Safe to re-run; rows that are already current are left alone.
+//
+//   npm run db:encrypt-pii -- [--dry-run] [--redact-audit-log]
+//
+// --redact-audit-log also scrubs the plaintext that audit entries written
+// before encryption hold for these fields.
+
+// The plain client: values are read and written exactly as stored, and the
+// per-row audit entries are replaced by one summary entry.
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 200;
+const MODEL = 'Beneficiary' as const;
+const FIELDS = encryptedFields[MODEL] ?? [];
+const INDEXES = blindIndexFields[MODEL] ?? {};
+const PHONE_FIELDS = new Set(['phone', 'emergencyPhone']);
+
+const dryRun = process.argv.includes('--dry-run');
+const redactAuditLog = process.argv.includes('--redact-audit-log');
+
+type StoredRow = { id: string; branch: { country: Country } } & Record<string, string | null>;
+
+interface Summary {
+  rows: number;
+  updatedRows: number;
+  encryptedValues: number;
+  reEncryptedValues: number;
+  internationalizedPhones: number;
+  reindexedRows: number;
+  // Rows whose IC number matches another row's once normalized. The old
+  // unique constraint compared the raw strings, so these could coexist; the
+  // later one is left without an index until they're merged or corrected.
+  idNumberConflicts: string[];
+  redactedAuditEntries: number;
+}
+
+const summary: Summary = {
+  rows: 0,
+  updatedRows: 0,
+  encryptedValues: 0,
+  reEncryptedValues: 0,
+  internationalizedPhones: 0,
+  reindexedRows: 0,
+  idNumberConflicts: [],
+  redactedAuditEntries: 0,
+};
+
+// The value as it should be stored under the current key, or undefined if it
+// already is.
+function currentCiphertext(stored: string): string | undefined {
+  const keyId = encryptionKeyId(stored);
+  if (keyId === null) return encryptValue(stored);
+  if (keyId !== currentEncryptionKeyId()) return encryptValue(decryptValue(stored));
+  return undefined;
+}
+
+async function encryptBeneficiaries() {
+  const indexColumns = Object.values(INDEXES).map((index) => index.column);
+  const select = {
+    ...Object.fromEntries(['id', ...FIELDS, ...indexColumns].map((field) => [field, true])),
+    branch: { select: { country: true } },
+  };
+  const seenIdNumbers = new Map<string, string>();
+  let cursor: string | undefined;
+
+  for (;;) {
+    const rows = (await prisma.beneficiary.findMany({
+      select,
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+    })) as unknown as StoredRow[];
+    if (rows.length === 0) break;
+    cursor = rows[rows.length - 1].id;
+
+    for (const row of rows) {
+      summary.rows++;
+      const data: Record<string, string | null> = {};
+
+      for (const field of FIELDS) {
+        let stored = row[field];
+        const phone = stored !== null && PHONE_FIELDS.has(field) ? decryptValue(stored) : null;
+        if (phone !== null && isLocalPhone(phone)) {
+          stored = encryptValue(toInternationalPhone(phone, row.branch.country));
+          data[field] = stored;
+          summary.internationalizedPhones++;
+        } else if (stored !== null) {
+          const ciphertext = currentCiphertext(stored);
+          if (ciphertext !== undefined) {
+            data[field] = ciphertext;
+            if (encryptionKeyId(stored) === null) summary.encryptedValues++;
+            else summary.reEncryptedValues++;
+          }
+        }
+
+        const index = INDEXES[field];
+        if (!index) continue;
+        const value = stored === null ? null : blindIndexValue(MODEL, field, decryptValue(stored));
+        if (value !== row[index.column]) data[index.column] = value;
+      }
+
+      // A dry run can't lean on the unique constraint, so it tracks the
+      // IC numbers it has seen itself.
+      const idNumberIndex = data.idNumberIndex ?? row.idNumberIndex;
+      if (dryRun && idNumberIndex) {
+        const first = seenIdNumbers.get(idNumberIndex);
+        if (first) summary.idNumberConflicts.push(`${row.id} (same IC / passport number as ${first})`);
+        else seenIdNumbers.set(idNumberIndex, row.id);
+      }
+
+      if (Object.keys(data).length === 0) continue;
+      summary.updatedRows++;
+      if (indexColumns.some((column) => column in data)) summary.reindexedRows++;
+      if (dryRun) continue;
+
+      try {
+        await prisma.beneficiary.update({ where: { id: row.id }, data });
+      } catch (error) {
+        if (!isUniqueConstraintError(error, 'idNumberIndex')) throw error;
+        summary.idNumberConflicts.push(`${row.id} (same IC / passport number as another row)`);
+        await prisma.beneficiary.update({ where: { id: row.id }, data: { ...data, idNumberIndex: null } });
+      }
+    }
+
+    console.log(`  ${summary.rows} rows checked`);
+  }
+}
+
+// Audit entries for beneficiary changes made before encryption hold the old
+// values of these fields in the clear; later ones only ever say "[redacted]".
+// Merged records are kept recoverable by encrypting them instead.
+function redactAuditDetails(details: Prisma.JsonValue): Prisma.JsonObject | null {
+  if (!details || typeof details !== 'object' || Array.isArray(details)) return null;
+  let changed = false;
+  const redacted = { ...details };
+
+  const changes = details.changes;
+  if (changes && typeof changes === 'object' && !Array.isArray(changes)) {
+    const scrubbed = { ...changes };
+    for (const field of FIELDS) {
+      const change = scrubbed[field];
+      if (!change || typeof change !== 'object' || Array.isArray(change)) continue;
+      const hide = (value: Prisma.JsonValue | undefined) => (value === null || value === undefined ? null : '[redacted]');
+      const next = { before: hide(change.before), after: hide(change.after) };
+      if (next.before !== (change.before ?? null) || next.after !== (change.after ?? null)) {
+        scrubbed[field] = next;
+        changed = true;
+      }
+    }
+    redacted.changes = scrubbed;
+  }
+
+  const merged = details.mergedRecord;
+  if (merged && typeof merged === 'object' && !Array.isArray(merged)) {
+    const encrypted = { ...merged };
+    for (const field of FIELDS) {
+      const stored = encrypted[field];
+      if (typeof stored !== 'string') continue;
+      const ciphertext = currentCiphertext(stored);
+      if (ciphertext !== undefined) {
+        encrypted[field] = ciphertext;
+        changed = true;
+      }
+    }
+    redacted.mergedRecord = encrypted;
+  }
+
+  return changed ? redacted : null;
+}
+
+async function redactAuditEntries() {
+  let cursor: string | undefined;
+  for (;;) {
+    const entries = await prisma.auditLog.findMany({
+      where: { entityType: MODEL },
+      select: { id: true, details: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+    });
+    if (entries.length === 0) break;
+    cursor = entries[entries.length - 1].id;
+
+    for (const entry of entries) {
+      const details = redactAuditDetails(entry.details);
+      if (!details) continue;
+      summary.redactedAuditEntries++;
+      if (!dryRun) {
+        await prisma.auditLog.update({ where: { id: entry.id }, data: { details } });
+      }
+    }
+  }
+}
+
+async function main() {
+  console.log(`🔐 Encrypting beneficiary fields with key "${currentEncryptionKeyId()}"${dryRun ? ' (dry run)' : ''}...`);
+  await encryptBeneficiaries();
+  if (redactAuditLog) {
+    console.log('🧹 Redacting audit log entries...');
+    await redactAuditEntries();
+  }
+
+  console.log(`✅ ${summary.rows} rows checked, ${summary.updatedRows} ${dryRun ? 'would be ' : ''}updated`);
+  console.log(`   ${summary.encryptedValues} values encrypted, ${summary.reEncryptedValues} re-encrypted`);
+  console.log(`   ${summary.internationalizedPhones} phone numbers put in international form`);
+  if (redactAuditLog) console.log(`   ${summary.redactedAuditEntries} audit entries redacted`);
+  if (summary.idNumberConflicts.length > 0) {
+    console.warn(`⚠️  ${summary.idNumberConflicts.length} rows left without an IC number index; merge or correct them:`);
+    for (const conflict of summary.idNumberConflicts) console.warn(`   ${conflict}`);
+  }
+
+  if (!dryRun) {
+    await prisma.auditLog.create({
+      data: {
+        action: 'BENEFICIARY_FIELDS_ENCRYPTED',
+        entityType: MODEL,
+        userId: SYSTEM_USER_ID,
+        details: { keyId: currentEncryptionKeyId(), ...summary } as unknown as Prisma.InputJsonObject,
+      },
+    });
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Encryption failed:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
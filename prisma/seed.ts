@@ -1,11 +1,30 @@
 import { PrismaClient } from '@prisma/client';
 import { hash } from 'bcryptjs';
+import { encryptionExtension } from '../lib/encryption/extension';
 
-const prisma = new PrismaClient();
+// Beneficiaries are written encrypted, as the app would write them.
+const prisma = new PrismaClient().$extends(encryptionExtension);
 
 async function main() {
   console.log('🌱 Seeding database...');
 
+  // Create branches
+  const branches = [
+    { code: 'KUL', name: 'Kuala Lumpur', country: 'MY' },
+    { code: 'AKL', name: 'Auckland', country: 'NZ' },
+    { code: 'CAI', name: 'Cairo', country: 'EG' },
+    { code: 'JKT', name: 'Jakarta', country: 'ID' },
+    { code: 'TYO', name: 'Tokyo', country: 'JP' },
+  ] as const;
+
+  for (const branch of branches) {
+    await prisma.branch.upsert({ where: { code: branch.code }, update: {}, create: branch });
+  }
+
+  const kualaLumpur = await prisma.branch.findUniqueOrThrow({ where: { code: 'KUL' } });
+
+  console.log('✅ Created branches:', branches.map((branch) => branch.code).join(', '));
+
   // Create users
   const adminUser = await prisma.user.upsert({
     where: { email: 'admin@myfundaction.org' },
@@ -15,6 +34,7 @@ async function main() {
       name: 'Admin User',
       password: await hash('admin123', 10),
       role: 'ADMIN',
+      branchId: kualaLumpur.id,
       phone: '+60123456789',
     },
   });
@@ -27,6 +47,7 @@ async function main() {
       name: 'Staff User',
       password: await hash('staff123', 10),
       role: 'STAFF',
+      branchId: kualaLumpur.id,
       phone: '+60123456788',
     },
   });
@@ -39,6 +60,7 @@ async function main() {
       name: 'Field Worker',
       password: await hash('field123', 10),
       role: 'FIELD_WORKER',
+      branchId: kualaLumpur.id,
       phone: '+60123456787',
     },
   });
@@ -57,6 +79,7 @@ async function main() {
       dateOfBirth: new Date('1985-05-15'),
       gender: 'MALE',
       nationality: 'Malaysian',
+      branchId: kualaLumpur.id,
       phone: '+60123456786',
       address: 'Jalan Sultan Ismail',
       city: 'Kuala Lumpur',
@@ -79,6 +102,7 @@ async function main() {
       dateOfBirth: new Date('1978-01-11'),
       gender: 'FEMALE',
       nationality: 'Malaysian',
+      branchId: kualaLumpur.id,
       phone: '+60123456785',
       address: 'Taman Melati',
       city: 'Kuala Lumpur',
@@ -89,6 +113,7 @@ async function main() {
       priority: 'MEDIUM',
       notes: 'Needs regular food assistance',
       tags: ['elderly', 'female', 'food'],
+      monthlyIncome: 900,
       source: 'referral',
       createdById: fieldWorker.id,
     },
@@ -108,6 +133,7 @@ async function main() {
       priority: 'HIGH',
       status: 'OPEN',
       beneficiaryId: beneficiary1.id,
+      branchId: kualaLumpur.id,
       createdById: staffUser.id,
     },
   });
@@ -120,6 +146,7 @@ async function main() {
       priority: 'MEDIUM',
       status: 'IN_PROGRESS',
       beneficiaryId: beneficiary2.id,
+      branchId: kualaLumpur.id,
       createdById: fieldWorker.id,
     },
   });
@@ -129,6 +156,96 @@ async function main() {
     case2: case2.title,
   });
 
+  // Create a sample programme
+  const foodBasket = await prisma.programme.create({
+    data: {
+      name: 'Monthly Food Basket',
+      description: 'A food basket delivered at the start of every month',
+      categories: ['ELDERLY', 'LOW_INCOME', 'DISABLED'],
+      maxMonthlyIncome: 1500,
+      capacity: 50,
+      branchId: kualaLumpur.id,
+      createdById: adminUser.id,
+    },
+  });
+
+  await prisma.enrolment.create({
+    data: {
+      programmeId: foodBasket.id,
+      beneficiaryId: beneficiary2.id,
+      status: 'ENROLLED',
+      startDate: new Date(new Date().toISOString().slice(0, 10)),
+      createdById: staffUser.id,
+    },
+  });
+
+  console.log('✅ Created programme:', foodBasket.name);
+
+  // Create a sample vulnerability questionnaire
+  const questionnaire = await prisma.questionnaire.create({
+    data: {
+      name: 'Vulnerability Assessment',
+      kind: 'VULNERABILITY',
+      description: 'Asked at intake and again at each review',
+      createdById: adminUser.id,
+      versions: {
+        create: {
+          version: 1,
+          createdById: adminUser.id,
+          questions: [
+            {
+              key: 'sleeping_rough',
+              label: 'Where did they sleep last night?',
+              type: 'SINGLE_CHOICE',
+              required: true,
+              options: [
+                { label: 'Own or rented home', weight: 0 },
+                { label: 'With family or friends', weight: 2 },
+                { label: 'Shelter', weight: 3 },
+                { label: 'Sleeping rough', weight: 6 },
+              ],
+            },
+            {
+              key: 'health',
+              label: 'Health conditions',
+              type: 'MULTIPLE_CHOICE',
+              required: false,
+              options: [
+                { label: 'Chronic illness', weight: 4 },
+                { label: 'Disability', weight: 3 },
+                { label: 'Mental health needs', weight: 3 },
+              ],
+            },
+            {
+              key: 'income',
+              label: 'Regular income',
+              type: 'SINGLE_CHOICE',
+              required: true,
+              options: [
+                { label: 'Yes', weight: -2 },
+                { label: 'No', weight: 2 },
+              ],
+            },
+          ],
+          rules: [
+            {
+              label: 'Sleeping rough, chronically ill and over 60',
+              priority: 'URGENT',
+              conditions: [
+                { kind: 'answer', question: 'sleeping_rough', option: 'Sleeping rough' },
+                { kind: 'answer', question: 'health', option: 'Chronic illness' },
+                { kind: 'age', min: 61, max: null },
+              ],
+            },
+          ],
+          bands: { MEDIUM: 4, HIGH: 8, URGENT: 12 },
+        },
+      },
+    },
+  });
+
+  console.log('✅ Created questionnaire:', questionnaire.name);
+
   // Create sample services
   const service1 = await prisma.service.create({
     data: {
@@ -137,6 +254,7 @@ async function main() {
       description: 'Admitted to temporary shelter for 7 days',
       quantity: 7,
       beneficiaryId: beneficiary1.id,
+      branchId: kualaLumpur.id,
       caseId: case1.id,
       providedById: staffUser.id,
       location: 'MyFundAction Shelter KL',
@@ -151,7 +269,9 @@ async function main() {
       description: 'Distributed monthly food package',
       quantity: 1,
       beneficiaryId: beneficiary2.id,
+      branchId: kualaLumpur.id,
       caseId: case2.id,
+      programmeId: foodBasket.id,
       providedById: fieldWorker.id,
       location: 'Taman Melati Distribution Center',
       notes: 'Food package includes rice, oil, and canned goods',
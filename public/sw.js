@@ -0,0 +1,82 @@
+// Service worker for the installable app. It keeps the field capture page, and
+// the scripts and styles it runs on, available without signal; every other
+// page still needs a connection. What the worker captures offline is queued
+// in IndexedDB by the page itself (lib/offline/queue.ts), not here.
+
+const CACHE = 'myfundaction-v1';
+const OFFLINE_PAGE = '/field';
+
+async function cacheOfflinePage(response) {
+  // A signed-out visit is redirected to the login page; don't keep that.
+  if (response.ok && !response.redirected) {
+    const cache = await caches.open(CACHE);
+    await cache.put(OFFLINE_PAGE, response);
+  }
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    fetch(OFFLINE_PAGE, { credentials: 'same-origin' })
+      .then(cacheOfflinePage)
+      .catch(() => undefined)
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Build output is content-hashed, so a cached copy never goes stale.
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(
+      caches.match(request).then(
+        (cached) =>
+          cached ||
+          fetch(request).then((response) => {
+            if (response.ok) {
+              const copy = response.clone();
+              caches.open(CACHE).then((cache) => cache.put(request, copy));
+            }
+            return response;
+          })
+      )
+    );
+    return;
+  }
+
+  // Pages come from the network while there is one, refreshing the cached
+  // field capture page on every visit. Offline, any page opens that instead.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (url.pathname === OFFLINE_PAGE) event.waitUntil(cacheOfflinePage(response.clone()));
+          return response;
+        })
+        .catch(() => caches.match(OFFLINE_PAGE).then((cached) => cached || Response.error()))
+    );
+  }
+});
+
+// Background Sync wakes the worker once there is a connection again.
+// Submissions are sent through a server action, so it hands the job to any
+// open page; with none open, the outbox is sent next time the app is opened.
+self.addEventListener('sync', (event) => {
+  if (event.tag !== 'submissions') return;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' }).then((clients) => {
+      for (const client of clients) client.postMessage({ type: 'sync-submissions' });
+    })
+  );
+});
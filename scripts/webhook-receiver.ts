@@ -0,0 +1,48 @@
+import { createServer } from 'node:http';
+import { SIGNATURE_HEADER, verifyWebhookSignature } from '../lib/webhooks/signing';
+
+// A local endpoint to point a webhook at while developing:
+//
+//   WEBHOOK_SECRET=whsec_... npm run webhooks:receiver
+//
+// then add http://localhost:4000/ under Settings → Webhooks. Every request is
+// logged with whether its signature checks out. RECEIVER_STATUS makes it
+// answer with another status (e.g. 500) to watch retries and auto-disable.
+
+const port = Number(process.env.PORT ?? 4000);
+const secret = process.env.WEBHOOK_SECRET;
+const status = Number(process.env.RECEIVER_STATUS ?? 200);
+
+if (!secret) {
+  console.warn('WEBHOOK_SECRET is not set; signatures will not be checked.');
+}
+
+createServer((request, response) => {
+  const chunks: Buffer[] = [];
+  request.on('data', (chunk: Buffer) => chunks.push(chunk));
+  request.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    const signature = request.headers[SIGNATURE_HEADER.toLowerCase()];
+    const verified = secret
+      ? verifyWebhookSignature(secret, body, Array.isArray(signature) ? signature[0] : signature)
+      : null;
+
+    console.log(
+      `${new Date().toISOString()} ${request.method} ${request.url}`,
+      `event=${request.headers['x-webhook-event'] ?? '-'}`,
+      `delivery=${request.headers['x-webhook-delivery'] ?? '-'}`,
+      `signature=${verified === null ? 'unchecked' : verified ? 'valid' : 'INVALID'}`,
+      `→ ${verified === false ? 401 : status}`
+    );
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    response.writeHead(verified === false ? 401 : status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({ received: verified !== false }));
+  });
+}).listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}/`);
+});
@@ -0,0 +1,9 @@
+import type en from '../messages/en.json';
+
+// Makes message keys type-checked against the English catalogue, which every
+// other language mirrors.
+type Messages = typeof en;
+
+declare global {
+  interface IntlMessages extends Messages {}
+}
@@ -6,11 +6,13 @@ declare module 'next-auth' {
     user: {
       id: string;
       role: UserRole;
+      branchId: string;
     } & DefaultSession['user'];
   }
 
   interface User {
     role: UserRole;
+    branchId: string;
   }
 }
 
@@ -18,5 +20,6 @@ declare module 'next-auth/jwt' {
   interface JWT {
     id: string;
     role: UserRole;
+    branchId: string;
   }
 }